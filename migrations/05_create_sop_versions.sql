@@ -0,0 +1,76 @@
+-- Create sop_versions table for immutable SOP revision history
+-- Each row is a full snapshot of an SOP (fields, ordered steps with their
+-- media references, and equipment) taken on publish or on demand
+
+CREATE TABLE IF NOT EXISTS public.sop_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT,
+  stakeholders TEXT,
+  definitions TEXT,
+  status TEXT,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  equipment JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL CHECK (source IN ('publish', 'manual', 'restore')),
+  change_summary TEXT,
+  restored_from INTEGER,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Version numbers are sequential per SOP
+  CONSTRAINT sop_versions_sop_version_unique UNIQUE (sop_id, version_number)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_sop_versions_sop_id ON public.sop_versions(sop_id);
+CREATE INDEX IF NOT EXISTS idx_sop_versions_created_at ON public.sop_versions(sop_id, created_at);
+
+-- Snapshots are immutable: reject any update to an existing row
+CREATE OR REPLACE FUNCTION public.prevent_sop_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'sop_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sop_versions_immutable ON public.sop_versions;
+CREATE TRIGGER sop_versions_immutable
+BEFORE UPDATE ON public.sop_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_sop_version_update();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.sop_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view versions of own SOPs" ON public.sop_versions;
+DROP POLICY IF EXISTS "Users can create versions of own SOPs" ON public.sop_versions;
+DROP POLICY IF EXISTS "Service role has full access to sop_versions" ON public.sop_versions;
+
+CREATE POLICY "Users can view versions of own SOPs" ON public.sop_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_versions.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create versions of own SOPs" ON public.sop_versions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_versions.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to sop_versions" ON public.sop_versions
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the table and columns
+COMMENT ON TABLE public.sop_versions IS 'Immutable snapshots of SOP content for revision history and audits';
+COMMENT ON COLUMN public.sop_versions.version_number IS 'Sequential version number within the SOP';
+COMMENT ON COLUMN public.sop_versions.steps IS 'Ordered steps including their media references at snapshot time';
+COMMENT ON COLUMN public.sop_versions.source IS 'What created the snapshot (publish, manual, restore)';
+COMMENT ON COLUMN public.sop_versions.restored_from IS 'Version number this snapshot was restored from, if any';
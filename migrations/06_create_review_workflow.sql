@@ -0,0 +1,126 @@
+-- Create tables for the SOP review workflow
+-- A review is one round of approval for an SOP; each assigned reviewer gets
+-- an approvals row. When a review is ordered, reviewers decide in sequence.
+
+CREATE TABLE IF NOT EXISTS public.sop_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  ordered BOOLEAN NOT NULL DEFAULT false,
+  quorum INTEGER NOT NULL CHECK (quorum > 0),
+  message TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only one review may be open per SOP at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sop_reviews_one_pending
+  ON public.sop_reviews(sop_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sop_reviews_sop_id ON public.sop_reviews(sop_id);
+
+CREATE TABLE IF NOT EXISTS public.approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  review_id UUID NOT NULL REFERENCES public.sop_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  comment TEXT,
+  sequence INTEGER,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- A reviewer is assigned at most once per review
+  CONSTRAINT approvals_review_user_unique UNIQUE (review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approvals_review_id ON public.approvals(review_id);
+CREATE INDEX IF NOT EXISTS idx_approvals_user_status ON public.approvals(user_id, status);
+
+CREATE TABLE IF NOT EXISTS public.audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('sop', 'step', 'media', 'user')),
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  user_id UUID NOT NULL,
+  changes JSONB,
+  previous_state JSONB,
+  current_state JSONB,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON public.audit_logs(entity_type, entity_id, created_at);
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.sop_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can manage reviews of own SOPs" ON public.sop_reviews;
+DROP POLICY IF EXISTS "Reviewers can view assigned reviews" ON public.sop_reviews;
+DROP POLICY IF EXISTS "Service role has full access to sop_reviews" ON public.sop_reviews;
+DROP POLICY IF EXISTS "Owners can manage approvals of own SOPs" ON public.approvals;
+DROP POLICY IF EXISTS "Reviewers can view own approvals" ON public.approvals;
+DROP POLICY IF EXISTS "Service role has full access to approvals" ON public.approvals;
+DROP POLICY IF EXISTS "Owners can view audit logs of own SOPs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Users can write own audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Service role has full access to audit_logs" ON public.audit_logs;
+
+CREATE POLICY "Owners can manage reviews of own SOPs" ON public.sop_reviews
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_reviews.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reviewers can view assigned reviews" ON public.sop_reviews
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.approvals
+      WHERE approvals.review_id = sop_reviews.id AND approvals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to sop_reviews" ON public.sop_reviews
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Owners can manage approvals of own SOPs" ON public.approvals
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = approvals.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+-- Reviewers only read their assignments; decisions are written server-side
+CREATE POLICY "Reviewers can view own approvals" ON public.approvals
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Service role has full access to approvals" ON public.approvals
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Owners can view audit logs of own SOPs" ON public.audit_logs
+  FOR SELECT USING (
+    entity_type = 'sop' AND EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = audit_logs.entity_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can write own audit logs" ON public.audit_logs
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Service role has full access to audit_logs" ON public.audit_logs
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.sop_reviews IS 'Review rounds for SOPs; a review moves the SOP to published once its quorum approves';
+COMMENT ON COLUMN public.sop_reviews.ordered IS 'Whether reviewers must decide one after another by approvals.sequence';
+COMMENT ON COLUMN public.sop_reviews.quorum IS 'Number of approvals required to publish';
+COMMENT ON TABLE public.approvals IS 'Per-reviewer decisions within a review';
+COMMENT ON COLUMN public.approvals.sequence IS 'Position of the reviewer in an ordered review';
+COMMENT ON TABLE public.audit_logs IS 'Append-only record of changes and workflow transitions';
@@ -0,0 +1,85 @@
+-- Create tables for SOP execution runs
+-- A run is one performance of a published SOP version. Its steps are copied
+-- from the version snapshot so later edits never change a recorded run.
+
+CREATE TABLE IF NOT EXISTS public.sop_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  sop_title TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  started_by UUID NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  signed_by UUID,
+  signature_name TEXT,
+  signature_data TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_runs_sop_id ON public.sop_runs(sop_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_sop_runs_started_by ON public.sop_runs(started_by);
+
+CREATE TABLE IF NOT EXISTS public.sop_run_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.sop_runs(id) ON DELETE CASCADE,
+  step_id UUID,
+  position INTEGER NOT NULL,
+  title TEXT,
+  instructions TEXT,
+  verification TEXT,
+  response_type TEXT NOT NULL CHECK (response_type IN ('none', 'pass_fail', 'number', 'text', 'photo')),
+  completed BOOLEAN NOT NULL DEFAULT false,
+  response_value TEXT,
+  passed BOOLEAN,
+  photo_url TEXT,
+  performed_by UUID,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT sop_run_steps_run_position_unique UNIQUE (run_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_run_steps_run_id ON public.sop_run_steps(run_id);
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.sop_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sop_run_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Operators and SOP owners can view runs" ON public.sop_runs;
+DROP POLICY IF EXISTS "Service role has full access to sop_runs" ON public.sop_runs;
+DROP POLICY IF EXISTS "Operators and SOP owners can view run steps" ON public.sop_run_steps;
+DROP POLICY IF EXISTS "Service role has full access to sop_run_steps" ON public.sop_run_steps;
+
+CREATE POLICY "Operators and SOP owners can view runs" ON public.sop_runs
+  FOR SELECT USING (
+    started_by = auth.uid() OR EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_runs.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to sop_runs" ON public.sop_runs
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Operators and SOP owners can view run steps" ON public.sop_run_steps
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.sop_runs
+      WHERE sop_runs.id = sop_run_steps.run_id
+    )
+  );
+
+CREATE POLICY "Service role has full access to sop_run_steps" ON public.sop_run_steps
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.sop_runs IS 'Executions of a published SOP version, closed with a signature';
+COMMENT ON COLUMN public.sop_runs.version_number IS 'sop_versions.version_number the run was performed against';
+COMMENT ON COLUMN public.sop_runs.signature_data IS 'Drawn signature as a PNG data URL';
+COMMENT ON TABLE public.sop_run_steps IS 'Per-step checklist entries of a run, copied from the version snapshot';
+COMMENT ON COLUMN public.sop_run_steps.response_type IS 'How the step verification is answered (none, pass_fail, number, text, photo)';
+COMMENT ON COLUMN public.sop_run_steps.response_value IS 'Answer to the verification: pass/fail, reading or free text';
@@ -0,0 +1,86 @@
+-- Create tables for AI usage metering and quotas
+-- Every AI provider call made on behalf of a user is recorded in ai_usage so
+-- quotas can be enforced and usage charged back to departments.
+
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  role TEXT,
+  department TEXT,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON public.ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_department ON public.ai_usage(department, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON public.ai_usage(created_at);
+
+-- Quota overrides. A row applies either to one user or to every user with a role;
+-- a NULL limit means unlimited for that period. Users without a row fall back to
+-- the AI_QUOTA_* environment defaults.
+CREATE TABLE IF NOT EXISTS public.ai_quotas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID UNIQUE,
+  role TEXT UNIQUE CHECK (role IN ('admin', 'editor', 'viewer')),
+  daily_limit INTEGER CHECK (daily_limit >= 0),
+  monthly_limit INTEGER CHECK (monthly_limit >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT ai_quotas_subject_check CHECK ((user_id IS NULL) <> (role IS NULL))
+);
+
+CREATE TRIGGER set_updated_at
+BEFORE UPDATE ON public.ai_quotas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own AI usage" ON public.ai_usage;
+DROP POLICY IF EXISTS "Admins can view all AI usage" ON public.ai_usage;
+DROP POLICY IF EXISTS "Service role has full access to ai_usage" ON public.ai_usage;
+DROP POLICY IF EXISTS "Admins can manage AI quotas" ON public.ai_quotas;
+DROP POLICY IF EXISTS "Service role has full access to ai_quotas" ON public.ai_quotas;
+
+CREATE POLICY "Users can view their own AI usage" ON public.ai_usage
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all AI usage" ON public.ai_usage
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role has full access to ai_usage" ON public.ai_usage
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Admins can manage AI quotas" ON public.ai_quotas
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role has full access to ai_quotas" ON public.ai_quotas
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.ai_usage IS 'Ledger of AI provider calls, one row per call';
+COMMENT ON COLUMN public.ai_usage.role IS 'Role of the user at the time of the call';
+COMMENT ON COLUMN public.ai_usage.department IS 'Department of the user at the time of the call, for charge-back';
+COMMENT ON COLUMN public.ai_usage.feature IS 'AI feature that made the call (step_generation, video_script, ...)';
+COMMENT ON COLUMN public.ai_usage.estimated_cost IS 'Estimated cost in USD from the configured model prices';
+COMMENT ON TABLE public.ai_quotas IS 'Daily and monthly AI request limits per user or per role';
@@ -0,0 +1,91 @@
+-- Share links for published SOPs
+-- shared_sops is the source of truth for /shared/{id} links: an SOP can have
+-- several links, each with its own label, publish settings, optionally pinned
+-- version, revocation date and view counters.
+
+CREATE TABLE IF NOT EXISTS public.shared_sops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Links created before this migration only had the columns above
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS label TEXT NOT NULL DEFAULT 'Share link';
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS version_number INTEGER;
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS unique_visitors INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.shared_sops ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ;
+
+-- Those links were governed by the SOP's publish settings. When the settings
+-- column is first added they take over the SOP's settings, password hash
+-- included, and stay revoked if the SOP's link was, so none of them turns
+-- into an open public link. Later runs leave links alone.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'shared_sops' AND column_name = 'settings'
+  ) THEN
+    ALTER TABLE public.shared_sops ADD COLUMN settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+    UPDATE public.shared_sops
+    SET settings = COALESCE(sops.publish_settings, '{}'::jsonb) - 'revokedAt',
+        revoked_at = COALESCE(shared_sops.revoked_at, (sops.publish_settings ->> 'revokedAt')::timestamptz)
+    FROM public.sops
+    WHERE sops.id = shared_sops.sop_id;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_shared_sops_sop_id ON public.shared_sops(sop_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.shared_sop_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shared_sop_id UUID NOT NULL REFERENCES public.shared_sops(id) ON DELETE CASCADE,
+  visitor_id TEXT NOT NULL,
+  max_step INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_sop_views_link ON public.shared_sop_views(shared_sop_id, visitor_id);
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.shared_sops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shared_sop_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "SOP owners can manage share links" ON public.shared_sops;
+DROP POLICY IF EXISTS "Service role has full access to shared_sops" ON public.shared_sops;
+DROP POLICY IF EXISTS "SOP owners can view share link views" ON public.shared_sop_views;
+DROP POLICY IF EXISTS "Service role has full access to shared_sop_views" ON public.shared_sop_views;
+
+CREATE POLICY "SOP owners can manage share links" ON public.shared_sops
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = shared_sops.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to shared_sops" ON public.shared_sops
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "SOP owners can view share link views" ON public.shared_sop_views
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shared_sops
+      JOIN public.sops ON sops.id = shared_sops.sop_id
+      WHERE shared_sops.id = shared_sop_views.shared_sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to shared_sop_views" ON public.shared_sop_views
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.shared_sops IS 'Share links of published SOPs, served at /shared/{id}';
+COMMENT ON COLUMN public.shared_sops.settings IS 'Publish settings of this link (comments, questions, sign-in, expiry, password hash)';
+COMMENT ON COLUMN public.shared_sops.version_number IS 'sop_versions.version_number the link is pinned to; NULL serves the current content';
+COMMENT ON COLUMN public.shared_sops.unique_visitors IS 'Distinct visitor cookies that opened the link';
+COMMENT ON TABLE public.shared_sop_views IS 'One row per opening of a share link, for unique visitors and scroll depth';
+COMMENT ON COLUMN public.shared_sop_views.max_step IS 'Furthest step (1-based) the visitor scrolled to; 0 before the first step';
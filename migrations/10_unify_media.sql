@@ -0,0 +1,51 @@
+-- Single media table
+-- Every upload route writes to public.media through a MediaStore (Supabase
+-- Storage, S3 or local disk). Rows record which store holds the file and its
+-- key there, so files can be read and deleted whatever the current store is.
+-- Rows from the older sop_media and step_media tables are copied over.
+
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS storage_backend TEXT;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS storage_key TEXT;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS display_mode TEXT DEFAULT 'contain';
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS created_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_media_step_id ON public.media(step_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_storage_key ON public.media(storage_backend, storage_key)
+  WHERE storage_key IS NOT NULL;
+
+-- Copy media uploaded through /api/media (sop_media) and /api/steps/[id]/media (step_media)
+DO $$
+BEGIN
+  IF to_regclass('public.sop_media') IS NOT NULL THEN
+    INSERT INTO public.media (id, step_id, type, url, filename, size_bytes, caption, display_mode, created_by, created_at)
+    SELECT m.id, m.step_id, m.type, m.url, m.filename, m.size_bytes, m.caption, m.display_mode, m.created_by, m.created_at
+    FROM public.sop_media m
+    WHERE EXISTS (SELECT 1 FROM public.steps WHERE steps.id = m.step_id)
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  IF to_regclass('public.step_media') IS NOT NULL THEN
+    INSERT INTO public.media (id, step_id, type, url, filename, caption, content_type, created_at)
+    SELECT
+      m.id,
+      m.step_id,
+      CASE
+        WHEN m.file_type LIKE 'image%' THEN 'image'
+        WHEN m.file_type LIKE 'video%' THEN 'video'
+        ELSE 'document'
+      END,
+      m.file_path,
+      COALESCE(m.display_name, m.file_path),
+      m.description,
+      m.file_type,
+      m.created_at
+    FROM public.step_media m
+    WHERE EXISTS (SELECT 1 FROM public.steps WHERE steps.id = m.step_id)
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+END $$;
+
+-- Comment the columns
+COMMENT ON COLUMN public.media.storage_backend IS 'MediaStore holding the file: supabase, s3 or local; NULL for rows created before media stores';
+COMMENT ON COLUMN public.media.storage_key IS 'Key of the file in its media store, e.g. {sop_id}/{step_id}/{uuid}.png';
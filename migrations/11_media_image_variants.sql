@@ -0,0 +1,14 @@
+-- Image variants
+-- Uploaded images are stored without metadata (EXIF, GPS) and auto-rotated;
+-- their pixel size, a blurhash placeholder and resized WebP variants
+-- (thumbnail, medium, large) are recorded on the media row.
+
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS width INTEGER;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS height INTEGER;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS blurhash TEXT;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.media.width IS 'Pixel width of an image after auto-rotation';
+COMMENT ON COLUMN public.media.height IS 'Pixel height of an image after auto-rotation';
+COMMENT ON COLUMN public.media.blurhash IS 'Blurhash placeholder of an image';
+COMMENT ON COLUMN public.media.variants IS 'Resized WebP copies: [{name, width, height, url, storage_key, size_bytes}], smallest first';
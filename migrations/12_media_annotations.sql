@@ -0,0 +1,8 @@
+-- Image annotations
+-- Arrows, numbered callouts, rectangles, blur boxes and text labels drawn
+-- over a step image are stored as a vector layer on its media row; the
+-- image file is never modified.
+
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS annotations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.media.annotations IS 'Vector annotation layer: [{id, kind, color, ...}] with coordinates as fractions of the image size';
@@ -0,0 +1,115 @@
+-- Shared media library
+-- Files uploaded once to the library (e.g. a lockout tag photo) are reused by
+-- any number of steps. A step uses an asset through a media row with its
+-- asset_id; the row holds a copy of the asset's file fields so every reader
+-- of media keeps working, and replacing the asset rewrites those copies.
+
+CREATE TABLE IF NOT EXISTS public.media_folders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  parent_id UUID REFERENCES public.media_folders(id) ON DELETE RESTRICT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_folders_parent_id ON public.media_folders(parent_id);
+
+CREATE TABLE IF NOT EXISTS public.media_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  folder_id UUID REFERENCES public.media_folders(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL,
+  description TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  type TEXT NOT NULL CHECK (type IN ('image', 'video', 'document')),
+  content_type TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  url TEXT NOT NULL,
+  storage_backend TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  size_bytes BIGINT,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by TEXT NOT NULL,
+  updated_by TEXT,
+  replaced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_assets_folder_id ON public.media_assets(folder_id);
+CREATE INDEX IF NOT EXISTS idx_media_assets_tags ON public.media_assets USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_media_assets_updated_at ON public.media_assets(updated_at DESC);
+
+DROP TRIGGER IF EXISTS update_media_folders_updated_at ON public.media_folders;
+CREATE TRIGGER update_media_folders_updated_at
+BEFORE UPDATE ON public.media_folders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_media_assets_updated_at ON public.media_assets;
+CREATE TRIGGER update_media_assets_updated_at
+BEFORE UPDATE ON public.media_assets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Assets in use can't be deleted; the API lists where they are used instead
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS asset_id UUID REFERENCES public.media_assets(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_media_asset_id ON public.media(asset_id) WHERE asset_id IS NOT NULL;
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.media_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.media_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view media folders" ON public.media_folders;
+DROP POLICY IF EXISTS "Users can manage their own media folders" ON public.media_folders;
+DROP POLICY IF EXISTS "Editors can manage media folders" ON public.media_folders;
+DROP POLICY IF EXISTS "Service role has full access to media_folders" ON public.media_folders;
+DROP POLICY IF EXISTS "Authenticated users can view media assets" ON public.media_assets;
+DROP POLICY IF EXISTS "Users can manage their own media assets" ON public.media_assets;
+DROP POLICY IF EXISTS "Editors can manage media assets" ON public.media_assets;
+DROP POLICY IF EXISTS "Service role has full access to media_assets" ON public.media_assets;
+
+CREATE POLICY "Authenticated users can view media folders" ON public.media_folders
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage their own media folders" ON public.media_folders
+  FOR ALL USING (created_by = auth.uid()::text);
+
+CREATE POLICY "Editors can manage media folders" ON public.media_folders
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'editor')
+    )
+  );
+
+CREATE POLICY "Service role has full access to media_folders" ON public.media_folders
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Authenticated users can view media assets" ON public.media_assets
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage their own media assets" ON public.media_assets
+  FOR ALL USING (created_by = auth.uid()::text);
+
+CREATE POLICY "Editors can manage media assets" ON public.media_assets
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'editor')
+    )
+  );
+
+CREATE POLICY "Service role has full access to media_assets" ON public.media_assets
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.media_folders IS 'Folders of the shared media library';
+COMMENT ON TABLE public.media_assets IS 'Files of the shared media library, reused by steps through media.asset_id';
+COMMENT ON COLUMN public.media_assets.tags IS 'Lowercase tags for filtering and search';
+COMMENT ON COLUMN public.media_assets.replaced_at IS 'Last time the file was replaced; earlier files stay in the store for SOP versions';
+COMMENT ON COLUMN public.media.asset_id IS 'Library asset this row uses; its file fields are a copy of the asset''s and storage_key is NULL';
@@ -0,0 +1,74 @@
+-- Orphaned media garbage collection
+-- A reconciliation job lists the objects of the configured media store and
+-- compares them with media rows, library assets and SOP version snapshots.
+-- Objects nothing refers to are recorded in media_orphans when first seen and
+-- deleted once they have stayed orphaned for the grace period
+-- (MEDIA_GC_GRACE_HOURS). Each run is logged in media_gc_runs.
+
+CREATE TABLE IF NOT EXISTS public.media_orphans (
+  storage_backend TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  size_bytes BIGINT,
+  last_modified TIMESTAMPTZ,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (storage_backend, storage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_orphans_first_seen_at ON public.media_orphans(first_seen_at);
+
+CREATE TABLE IF NOT EXISTS public.media_gc_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_backend TEXT NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  scanned_count INTEGER NOT NULL DEFAULT 0,
+  orphan_count INTEGER NOT NULL DEFAULT 0,
+  orphan_bytes BIGINT NOT NULL DEFAULT 0,
+  missing_count INTEGER NOT NULL DEFAULT 0,
+  deleted_count INTEGER NOT NULL DEFAULT 0,
+  deleted_bytes BIGINT NOT NULL DEFAULT 0,
+  error TEXT,
+  triggered_by TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_gc_runs_started_at ON public.media_gc_runs(started_at DESC);
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.media_orphans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.media_gc_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view media orphans" ON public.media_orphans;
+DROP POLICY IF EXISTS "Service role has full access to media_orphans" ON public.media_orphans;
+DROP POLICY IF EXISTS "Admins can view media GC runs" ON public.media_gc_runs;
+DROP POLICY IF EXISTS "Service role has full access to media_gc_runs" ON public.media_gc_runs;
+
+CREATE POLICY "Admins can view media orphans" ON public.media_orphans
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role has full access to media_orphans" ON public.media_orphans
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Admins can view media GC runs" ON public.media_gc_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role has full access to media_gc_runs" ON public.media_gc_runs
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.media_orphans IS 'Objects in a media store that no media row, library asset or SOP version refers to';
+COMMENT ON COLUMN public.media_orphans.first_seen_at IS 'When the reconciliation job first found the object orphaned; the grace period counts from here';
+COMMENT ON TABLE public.media_gc_runs IS 'One row per run of the media reconciliation job';
+COMMENT ON COLUMN public.media_gc_runs.missing_count IS 'Media rows and assets whose file is not in the store';
+COMMENT ON COLUMN public.media_gc_runs.triggered_by IS 'User ID of the admin who ran it, or cron';
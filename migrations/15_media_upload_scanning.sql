@@ -0,0 +1,58 @@
+-- Upload content validation and malware scanning
+-- Uploads are checked against their magic bytes, per-type size limits and
+-- for active content (HTML/SVG markup, PDF JavaScript) and then passed to the
+-- configured scanner (MEDIA_SCANNER). The result is recorded on the media row
+-- or library asset. Files the scanner flags never get a media row: they are
+-- moved under quarantine/ in the store and recorded in media_quarantine.
+
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS scan_status TEXT CHECK (scan_status IN ('clean', 'skipped'));
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS scanner TEXT;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ;
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS detected_content_type TEXT;
+
+ALTER TABLE public.media_assets ADD COLUMN IF NOT EXISTS scan_status TEXT CHECK (scan_status IN ('clean', 'skipped'));
+ALTER TABLE public.media_assets ADD COLUMN IF NOT EXISTS scanner TEXT;
+ALTER TABLE public.media_assets ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ;
+ALTER TABLE public.media_assets ADD COLUMN IF NOT EXISTS detected_content_type TEXT;
+
+CREATE TABLE IF NOT EXISTS public.media_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_backend TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  scanner TEXT NOT NULL,
+  signature TEXT,
+  sop_id UUID REFERENCES public.sops(id) ON DELETE SET NULL,
+  step_id UUID REFERENCES public.steps(id) ON DELETE SET NULL,
+  asset_id UUID REFERENCES public.media_assets(id) ON DELETE SET NULL,
+  uploaded_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_quarantine_created_at ON public.media_quarantine(created_at DESC);
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.media_quarantine ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view quarantined media" ON public.media_quarantine;
+DROP POLICY IF EXISTS "Service role has full access to media_quarantine" ON public.media_quarantine;
+
+CREATE POLICY "Admins can view quarantined media" ON public.media_quarantine
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role has full access to media_quarantine" ON public.media_quarantine
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON COLUMN public.media.scan_status IS 'clean when the scanner passed the file, skipped when no scanner is configured; null for rows from before scanning';
+COMMENT ON COLUMN public.media.detected_content_type IS 'Type found from the magic bytes of the file';
+COMMENT ON COLUMN public.media_assets.scan_status IS 'clean when the scanner passed the file, skipped when no scanner is configured; null for assets from before scanning';
+COMMENT ON TABLE public.media_quarantine IS 'Uploads the malware scanner flagged; the files are kept under quarantine/ for review';
+COMMENT ON COLUMN public.media_quarantine.signature IS 'Name of the signature the scanner matched';
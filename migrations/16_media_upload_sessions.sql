@@ -0,0 +1,52 @@
+-- Resumable chunked uploads
+-- Large files are sent in fixed-size chunks to an upload session. Chunks are
+-- kept in the media store under uploads/{session id}/ until the session is
+-- completed, when they are assembled, screened and stored like a direct
+-- upload. Sessions left open expire after a day; the media GC then removes
+-- their chunks.
+
+CREATE TABLE IF NOT EXISTS public.media_upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  step_id UUID NOT NULL REFERENCES public.steps(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+  chunk_count INTEGER NOT NULL CHECK (chunk_count > 0),
+  caption TEXT,
+  storage_backend TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'completing', 'completed', 'failed', 'aborted')),
+  error TEXT,
+  media_id UUID REFERENCES public.media(id) ON DELETE SET NULL,
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_upload_sessions_created_by ON public.media_upload_sessions(created_by);
+CREATE INDEX IF NOT EXISTS idx_media_upload_sessions_status ON public.media_upload_sessions(status, expires_at);
+
+DROP TRIGGER IF EXISTS update_media_upload_sessions_updated_at ON public.media_upload_sessions;
+CREATE TRIGGER update_media_upload_sessions_updated_at
+BEFORE UPDATE ON public.media_upload_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.media_upload_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own upload sessions" ON public.media_upload_sessions;
+DROP POLICY IF EXISTS "Service role has full access to media_upload_sessions" ON public.media_upload_sessions;
+
+CREATE POLICY "Users can view own upload sessions" ON public.media_upload_sessions
+  FOR SELECT USING (created_by = auth.uid()::text);
+
+CREATE POLICY "Service role has full access to media_upload_sessions" ON public.media_upload_sessions
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the table and columns
+COMMENT ON TABLE public.media_upload_sessions IS 'Resumable chunked uploads; chunks are stored under uploads/{id}/ until completed';
+COMMENT ON COLUMN public.media_upload_sessions.status IS 'uploading until completed; completing while the chunks are assembled and screened';
+COMMENT ON COLUMN public.media_upload_sessions.media_id IS 'Media row created when the session completed';
@@ -0,0 +1,13 @@
+-- Video metadata and chapters
+-- Uploaded videos are probed with ffmpeg: their resolution goes in the
+-- existing width/height columns and a poster frame is stored as a `poster`
+-- variant next to the file. Chapter markers link timestamps in a video to
+-- steps of its SOP.
+
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC(10, 3);
+ALTER TABLE public.media ADD COLUMN IF NOT EXISTS chapters JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.media_assets ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC(10, 3);
+
+COMMENT ON COLUMN public.media.duration_seconds IS 'Length of a video in seconds; null for other media and unprocessed videos';
+COMMENT ON COLUMN public.media.chapters IS 'Chapter markers of a video: [{time, step_id, label}] with time in seconds, ordered by time';
+COMMENT ON COLUMN public.media_assets.duration_seconds IS 'Length of a video in seconds; null for other media and unprocessed videos';
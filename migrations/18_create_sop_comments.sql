@@ -0,0 +1,73 @@
+-- Comments on shared SOPs
+-- Visitors comment through /shared/{id} links. New comments wait in the
+-- owner's moderation inbox until approved; comments caught by the spam filter
+-- are held as spam. Replies point at a top-level comment through parent_id,
+-- so threads are one level deep. Owner replies are published immediately.
+
+CREATE TABLE IF NOT EXISTS public.sop_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  author_name TEXT NOT NULL DEFAULT 'Anonymous',
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Comments saved before this migration only had the columns above
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS shared_sop_id UUID REFERENCES public.shared_sops(id) ON DELETE SET NULL;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.sop_comments(id) ON DELETE CASCADE;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS author_id TEXT;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS is_owner_reply BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS spam_score INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS ip_hash TEXT;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS moderated_by TEXT;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+ALTER TABLE public.sop_comments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE public.sop_comments DROP CONSTRAINT IF EXISTS sop_comments_status_check;
+ALTER TABLE public.sop_comments ADD CONSTRAINT sop_comments_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'spam'));
+
+CREATE INDEX IF NOT EXISTS idx_sop_comments_sop_id ON public.sop_comments(sop_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_sop_comments_parent_id ON public.sop_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_sop_comments_ip_hash ON public.sop_comments(ip_hash, created_at);
+
+DROP TRIGGER IF EXISTS update_sop_comments_updated_at ON public.sop_comments;
+CREATE TRIGGER update_sop_comments_updated_at
+BEFORE UPDATE ON public.sop_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.sop_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view approved comments on published SOPs" ON public.sop_comments;
+DROP POLICY IF EXISTS "SOP owners can moderate comments" ON public.sop_comments;
+DROP POLICY IF EXISTS "Service role has full access to sop_comments" ON public.sop_comments;
+
+CREATE POLICY "Anyone can view approved comments on published SOPs" ON public.sop_comments
+  FOR SELECT USING (
+    status = 'approved' AND EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_comments.sop_id AND sops.is_published = true
+    )
+  );
+
+CREATE POLICY "SOP owners can moderate comments" ON public.sop_comments
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = sop_comments.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to sop_comments" ON public.sop_comments
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the table and columns
+COMMENT ON TABLE public.sop_comments IS 'Comments on shared SOPs, moderated by the SOP owner';
+COMMENT ON COLUMN public.sop_comments.parent_id IS 'Top-level comment this is a reply to; NULL for top-level comments';
+COMMENT ON COLUMN public.sop_comments.status IS 'pending until moderated; spam when the spam filter held the comment';
+COMMENT ON COLUMN public.sop_comments.spam_reasons IS 'Spam filter rules the comment matched';
+COMMENT ON COLUMN public.sop_comments.ip_hash IS 'Salted SHA-256 of the poster''s IP address, used for per-IP rate limiting';
@@ -0,0 +1,67 @@
+-- Inline review comments on steps
+-- Authors and reviewers comment on a step, optionally on a range of its
+-- instructions. Comments hang off the step id, so they stay with the step when
+-- other steps change or steps are reordered. A text range keeps the quoted
+-- text next to its offsets, so it can be found again after the instructions
+-- are edited.
+
+CREATE TABLE IF NOT EXISTS public.step_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  step_id UUID NOT NULL REFERENCES public.steps(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  anchor_start INTEGER CHECK (anchor_start >= 0),
+  anchor_end INTEGER,
+  anchor_text TEXT,
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT step_comments_anchor_check CHECK (
+    (anchor_start IS NULL AND anchor_end IS NULL AND anchor_text IS NULL)
+    OR (anchor_start IS NOT NULL AND anchor_end > anchor_start AND anchor_text IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_comments_sop_id ON public.step_comments(sop_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_step_comments_step_id ON public.step_comments(step_id);
+
+DROP TRIGGER IF EXISTS update_step_comments_updated_at ON public.step_comments;
+CREATE TRIGGER update_step_comments_updated_at
+BEFORE UPDATE ON public.step_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.step_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "SOP owners can manage step comments" ON public.step_comments;
+DROP POLICY IF EXISTS "Reviewers can view and add step comments" ON public.step_comments;
+DROP POLICY IF EXISTS "Service role has full access to step_comments" ON public.step_comments;
+
+CREATE POLICY "SOP owners can manage step comments" ON public.step_comments
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sops
+      WHERE sops.id = step_comments.sop_id AND sops.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reviewers can view and add step comments" ON public.step_comments
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.approvals
+      WHERE approvals.sop_id = step_comments.sop_id AND approvals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to step_comments" ON public.step_comments
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the table and columns
+COMMENT ON TABLE public.step_comments IS 'Review comments on steps, optionally anchored to a range of the instructions';
+COMMENT ON COLUMN public.step_comments.anchor_start IS 'Offset of the commented text in steps.instructions when the comment was made';
+COMMENT ON COLUMN public.step_comments.anchor_text IS 'Commented text, used to find the range again after the instructions change';
+COMMENT ON COLUMN public.step_comments.resolved_at IS 'When the comment was resolved; NULL while open';
@@ -0,0 +1,70 @@
+-- In-app notifications and per-channel notification preferences
+-- Notifications were already written by the shared comments route, so the
+-- table may exist without the newer columns. A preference row switches one
+-- notification type on or off for one delivery channel; without a row the
+-- type is delivered.
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  resource_id TEXT,
+  resource_type TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications(user_id) WHERE is_read = false;
+
+-- Scheduled reminders (share link expiry, periodic reviews) are sent once per key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_user_dedupe_key
+  ON public.notifications(user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type, channel)
+);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view and update own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Service role has full access to notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can manage own notification preferences" ON public.notification_preferences;
+DROP POLICY IF EXISTS "Service role has full access to notification_preferences" ON public.notification_preferences;
+
+CREATE POLICY "Users can view and update own notifications" ON public.notifications
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role has full access to notifications" ON public.notifications
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Users can manage own notification preferences" ON public.notification_preferences
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role has full access to notification_preferences" ON public.notification_preferences
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.notifications IS 'Notifications shown in the notification center of the recipient';
+COMMENT ON COLUMN public.notifications.data IS 'Details of the event; url is where the notification links to';
+COMMENT ON COLUMN public.notifications.dedupe_key IS 'Key of a scheduled reminder, so it is sent once per recipient';
+COMMENT ON TABLE public.notification_preferences IS 'Notification types a user switched on or off per delivery channel';
@@ -0,0 +1,79 @@
+-- Email delivery of notifications
+-- Each notification a user gets by email is queued as a row of
+-- notification_emails. The dispatcher sends each row as its own message, or
+-- for users who chose a daily digest gathers their rows into one message a
+-- day, retrying failed sends with backoff and recording the outcome on every
+-- row.
+
+CREATE TABLE IF NOT EXISTS public.notification_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  url TEXT,
+  dedupe_key TEXT,
+  digest BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  transport TEXT,
+  message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_emails_due
+  ON public.notification_emails(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_emails_user ON public.notification_emails(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_emails_dedupe_key
+  ON public.notification_emails(user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_notification_emails_updated_at ON public.notification_emails;
+CREATE TRIGGER update_notification_emails_updated_at
+BEFORE UPDATE ON public.notification_emails
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.notification_email_settings (
+  user_id TEXT PRIMARY KEY,
+  frequency TEXT NOT NULL DEFAULT 'immediate' CHECK (frequency IN ('immediate', 'daily')),
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_notification_email_settings_updated_at ON public.notification_email_settings;
+CREATE TRIGGER update_notification_email_settings_updated_at
+BEFORE UPDATE ON public.notification_email_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+ALTER TABLE public.notification_emails ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_email_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification emails" ON public.notification_emails;
+DROP POLICY IF EXISTS "Service role has full access to notification_emails" ON public.notification_emails;
+DROP POLICY IF EXISTS "Users can manage own notification email settings" ON public.notification_email_settings;
+DROP POLICY IF EXISTS "Service role has full access to notification_email_settings" ON public.notification_email_settings;
+
+CREATE POLICY "Users can view own notification emails" ON public.notification_emails
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role has full access to notification_emails" ON public.notification_emails
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Users can manage own notification email settings" ON public.notification_email_settings
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role has full access to notification_email_settings" ON public.notification_email_settings
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.notification_emails IS 'Outbox and delivery log of notification emails';
+COMMENT ON COLUMN public.notification_emails.digest IS 'Went out in the daily digest of the user instead of on its own';
+COMMENT ON COLUMN public.notification_emails.next_attempt_at IS 'Earliest time the next send attempt is made';
+COMMENT ON COLUMN public.notification_emails.message_id IS 'Message-ID of the email the row was sent in; digest rows share one';
+COMMENT ON TABLE public.notification_email_settings IS 'Whether a user gets notification emails immediately or as a daily digest';
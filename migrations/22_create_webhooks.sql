@@ -0,0 +1,78 @@
+-- Outbound webhooks
+-- The organization's endpoints subscribe to SOP lifecycle events. Each event
+-- is queued as a row of webhook_deliveries per subscription; the dispatcher
+-- posts the signed payload, retries failed deliveries with backoff and keeps
+-- the response of the last attempt as the delivery log.
+
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_events
+  ON public.webhook_subscriptions USING GIN (events) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON public.webhook_subscriptions;
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+BEFORE UPDATE ON public.webhook_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  response_status INTEGER,
+  response_body TEXT,
+  duration_ms INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+  ON public.webhook_deliveries(subscription_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON public.webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at
+BEFORE UPDATE ON public.webhook_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set up RLS (Row Level Security)
+-- Subscriptions hold signing secrets, so only the service role (used by the
+-- admin API) reads or writes them
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to webhook_subscriptions" ON public.webhook_subscriptions;
+DROP POLICY IF EXISTS "Service role has full access to webhook_deliveries" ON public.webhook_deliveries;
+
+CREATE POLICY "Service role has full access to webhook_subscriptions" ON public.webhook_subscriptions
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role has full access to webhook_deliveries" ON public.webhook_deliveries
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the tables and columns
+COMMENT ON TABLE public.webhook_subscriptions IS 'Endpoints of the organization that receive SOP lifecycle events';
+COMMENT ON COLUMN public.webhook_subscriptions.secret IS 'Key the X-Webhook-Signature HMAC of each payload is made with';
+COMMENT ON COLUMN public.webhook_subscriptions.events IS 'Events sent to the endpoint, e.g. sop.published';
+COMMENT ON TABLE public.webhook_deliveries IS 'Outbox and delivery log of webhook events';
+COMMENT ON COLUMN public.webhook_deliveries.event_id IS 'Shared by the deliveries of one event to every subscription';
+COMMENT ON COLUMN public.webhook_deliveries.response_status IS 'HTTP status of the last attempt; null when the endpoint could not be reached';
@@ -0,0 +1,12 @@
+-- Storage of run step photos
+-- Photo evidence taken during a run is screened and stored in the media store
+-- like step media. The backend, key and image variants of the photo are kept
+-- on the run step so the media GC knows the files are in use.
+
+ALTER TABLE public.sop_run_steps ADD COLUMN IF NOT EXISTS photo_storage_backend TEXT;
+ALTER TABLE public.sop_run_steps ADD COLUMN IF NOT EXISTS photo_storage_key TEXT;
+ALTER TABLE public.sop_run_steps ADD COLUMN IF NOT EXISTS photo_variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.sop_run_steps.photo_storage_backend IS 'Media store of the photo: supabase, s3 or local';
+COMMENT ON COLUMN public.sop_run_steps.photo_storage_key IS 'Key of the photo in its media store';
+COMMENT ON COLUMN public.sop_run_steps.photo_variants IS 'Resized variants of the photo: [{name, width, height, url, storage_key, size_bytes}]';
@@ -0,0 +1,26 @@
+-- Questions asked about shared SOPs
+-- Answers are charged to the SOP owner's AI quota, so every question asked
+-- through a share link is recorded with the hashed IP address of the visitor
+-- to rate limit anonymous visitors per IP.
+
+CREATE TABLE IF NOT EXISTS public.shared_sop_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  ip_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_sop_questions_ip_hash ON public.shared_sop_questions(ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS idx_shared_sop_questions_sop_id ON public.shared_sop_questions(sop_id, created_at);
+
+-- Set up RLS (Row Level Security); only the server reads and writes these rows
+ALTER TABLE public.shared_sop_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to shared_sop_questions" ON public.shared_sop_questions;
+
+CREATE POLICY "Service role has full access to shared_sop_questions" ON public.shared_sop_questions
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Comment the table and columns
+COMMENT ON TABLE public.shared_sop_questions IS 'Questions asked about shared SOPs, used for per-IP rate limiting';
+COMMENT ON COLUMN public.shared_sop_questions.ip_hash IS 'Salted SHA-256 of the visitor''s IP address';
@@ -20,6 +20,11 @@ const nextConfig: NextConfig = {
   },
   // Enable progressive web app features
   reactStrictMode: true,
+  // PDF exports embed DejaVu Sans, read from node_modules at runtime
+  outputFileTracingIncludes: {
+    '/api/sops/[id]/export': ['./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+    '/api/shared/[id]/export': ['./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+  },
   // Increase API timeout for longer operations
   experimental: {
     serverActions: {
@@ -1,7 +1,7 @@
 import React from 'react';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { ShieldAlert, Database, Users, Settings, Layers, FileText } from 'lucide-react';
+import { ShieldAlert, Database, Users, Settings, Layers, FileText, HardDrive, Webhook } from 'lucide-react';
 import { getSession } from '@/utils/supabase/server';
 import { verifyIsAdmin } from '@/utils/auth/verify-admin';
 
@@ -23,6 +23,8 @@ async function AdminLayout({ children }: { children: React.ReactNode }) {
     { href: '/admin', label: 'Dashboard', icon: <Layers className="w-5 h-5" /> },
     { href: '/admin/security', label: 'Security', icon: <ShieldAlert className="w-5 h-5" /> },
     { href: '/admin/database', label: 'Database', icon: <Database className="w-5 h-5" /> },
+    { href: '/admin/storage', label: 'Storage', icon: <HardDrive className="w-5 h-5" /> },
+    { href: '/admin/webhooks', label: 'Webhooks', icon: <Webhook className="w-5 h-5" /> },
     { href: '/admin/users', label: 'Users', icon: <Users className="w-5 h-5" /> },
     { href: '/admin/sops', label: 'SOP Templates', icon: <FileText className="w-5 h-5" /> },
     { href: '/admin/settings', label: 'Settings', icon: <Settings className="w-5 h-5" /> },
@@ -0,0 +1,396 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, HardDrive, RefreshCw, ShieldAlert, Trash2 } from 'lucide-react';
+import type { MediaGcRun, MediaOrphan, MediaQuarantine } from '@/types/database.types';
+import type { MediaGcReport, MissingMediaFile } from '@/utils/media-gc';
+import type { StorageUsageReport } from '@/utils/storage-usage';
+
+type GcStatus = {
+  store: string;
+  grace_hours: number;
+  runs: MediaGcRun[];
+  orphans: MediaOrphan[];
+  orphan_total: number;
+};
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function AdminStoragePage() {
+  const [usage, setUsage] = useState<StorageUsageReport | null>(null);
+  const [gcStatus, setGcStatus] = useState<GcStatus | null>(null);
+  const [quarantine, setQuarantine] = useState<MediaQuarantine[]>([]);
+  const [missing, setMissing] = useState<MissingMediaFile[] | null>(null);
+  const [lastReport, setLastReport] = useState<MediaGcReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [usageReport, status, quarantined] = await Promise.all([
+        fetchJson<StorageUsageReport>('/api/admin/media/usage'),
+        fetchJson<GcStatus>('/api/admin/media/gc'),
+        fetchJson<{ files: MediaQuarantine[] }>('/api/admin/media/quarantine')
+      ]);
+      setUsage(usageReport);
+      setGcStatus(status);
+      setQuarantine(quarantined.files);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load storage data');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runGc = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`Delete files that have been orphaned for more than ${gcStatus?.grace_hours ?? ''} hours? This cannot be undone.`)) {
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+    try {
+      const report = await fetchJson<MediaGcReport>('/api/admin/media/gc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun })
+      });
+      setLastReport(report);
+      setMissing(report.missing);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Media GC run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const deleteQuarantined = async (file: MediaQuarantine) => {
+    if (!window.confirm(`Delete the quarantined file ${file.filename}? This cannot be undone.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await fetchJson(`/api/admin/media/quarantine?id=${file.id}`, { method: 'DELETE' });
+      setQuarantine(prev => prev.filter(entry => entry.id !== file.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the quarantined file');
+    }
+  };
+
+  return (
+    <div className="container py-10 mx-auto">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Media Storage</h1>
+          <p className="text-muted-foreground">
+            Storage used per user and SOP, and cleanup of files nothing refers to
+          </p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {usage && (
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold mb-4">Usage</h2>
+          <div className="grid gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <SummaryCard label="Total" value={formatBytes(usage.total_bytes)} />
+              <SummaryCard label="Step uploads" value={formatBytes(usage.step_bytes)} />
+              <SummaryCard label="Media library" value={formatBytes(usage.library_bytes)} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By user</CardTitle>
+                <CardDescription>
+                  Limit: {usage.limits.userBytes !== null ? formatBytes(usage.limits.userBytes) : 'none'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageTable
+                  headers={['User', 'Files', 'Step uploads', 'Library', 'Total']}
+                  rows={usage.users.map(user => ({
+                    key: user.user_id,
+                    overLimit: user.over_limit,
+                    cells: [
+                      user.name || user.email || user.user_id,
+                      String(user.files),
+                      formatBytes(user.step_bytes),
+                      formatBytes(user.library_bytes),
+                      formatBytes(user.bytes)
+                    ]
+                  }))}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By SOP</CardTitle>
+                <CardDescription>
+                  Limit: {usage.limits.sopBytes !== null ? formatBytes(usage.limits.sopBytes) : 'none'}.
+                  Library files are shared and count toward the user who added them.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageTable
+                  headers={['SOP', 'Files', 'Library files', 'Total']}
+                  rows={usage.sops.map(sop => ({
+                    key: sop.sop_id,
+                    overLimit: sop.over_limit,
+                    cells: [sop.title, String(sop.files), String(sop.library_files), formatBytes(sop.bytes)]
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+      )}
+
+      {gcStatus && (
+        <section>
+          <h2 className="text-xl font-semibold mb-4">Orphaned Files</h2>
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <HardDrive className="mr-2 h-5 w-5" />
+                  Reconcile {gcStatus.store} storage
+                </CardTitle>
+                <CardDescription>
+                  Files that no media row, library asset or SOP version refers to are recorded as orphans
+                  and deleted once they have been orphaned for {gcStatus.grace_hours} hours.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={() => runGc(true)} disabled={running}>
+                    {running ? 'Running...' : 'Dry run'}
+                  </Button>
+                  <Button variant="destructive" onClick={() => runGc(false)} disabled={running}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Run now
+                  </Button>
+                </div>
+                {lastReport && (
+                  <p className="text-sm text-muted-foreground mt-4">
+                    Scanned {lastReport.run.scanned_count} files: {lastReport.orphans.length} orphaned,{' '}
+                    {lastReport.missing.length} missing, {lastReport.deleted.length} deleted
+                    {lastReport.run.dry_run ? ' (dry run)' : ''}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {missing && missing.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Missing files</CardTitle>
+                  <CardDescription>Rows whose file is not in the store</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <UsageTable
+                    headers={['Source', 'Row', 'Key']}
+                    rows={missing.map(file => ({
+                      key: `${file.id}:${file.storage_key}`,
+                      cells: [file.source, file.id, file.storage_key]
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Orphaned files</CardTitle>
+                <CardDescription>
+                  {gcStatus.orphan_total} recorded
+                  {gcStatus.orphan_total > gcStatus.orphans.length ? `, oldest ${gcStatus.orphans.length} shown` : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageTable
+                  headers={['Key', 'Size', 'First seen']}
+                  rows={gcStatus.orphans.map(orphan => ({
+                    key: orphan.storage_key,
+                    cells: [
+                      orphan.storage_key,
+                      formatBytes(orphan.size_bytes || 0),
+                      new Date(orphan.first_seen_at).toLocaleString()
+                    ]
+                  }))}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent runs</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UsageTable
+                  headers={['Started', 'Status', 'Scanned', 'Orphans', 'Missing', 'Deleted']}
+                  rows={gcStatus.runs.map(run => ({
+                    key: run.id,
+                    cells: [
+                      new Date(run.started_at).toLocaleString(),
+                      run.error ? `${run.status}: ${run.error}` : `${run.status}${run.dry_run ? ' (dry run)' : ''}`,
+                      String(run.scanned_count),
+                      String(run.orphan_count),
+                      String(run.missing_count),
+                      `${run.deleted_count} (${formatBytes(run.deleted_bytes)})`
+                    ]
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+      )}
+
+      {!loading && (
+        <section className="mt-10">
+          <h2 className="text-xl font-semibold mb-4">Quarantined Uploads</h2>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldAlert className="mr-2 h-5 w-5" />
+                Flagged by the malware scanner
+              </CardTitle>
+              <CardDescription>
+                These uploads never reached a step or the library. Their files are kept under quarantine/ until deleted here.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {quarantine.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing to show</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">File</th>
+                        <th className="py-2 pr-4 font-medium">Signature</th>
+                        <th className="py-2 pr-4 font-medium">Size</th>
+                        <th className="py-2 pr-4 font-medium">Uploaded by</th>
+                        <th className="py-2 pr-4 font-medium">When</th>
+                        <th className="py-2 pr-4" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {quarantine.map(file => (
+                        <tr key={file.id} className="border-b last:border-0">
+                          <td className="py-2 pr-4 break-all">{file.filename}</td>
+                          <td className="py-2 pr-4">
+                            <Badge variant="destructive">{file.signature || 'flagged'}</Badge>
+                          </td>
+                          <td className="py-2 pr-4">{formatBytes(file.size_bytes || 0)}</td>
+                          <td className="py-2 pr-4 break-all">{file.uploaded_by}</td>
+                          <td className="py-2 pr-4">{new Date(file.created_at).toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right">
+                            <Button variant="outline" size="sm" onClick={() => deleteQuarantined(file)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function UsageTable({ headers, rows }: {
+  headers: string[];
+  rows: { key: string; cells: string[]; overLimit?: boolean }[];
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing to show</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-500">
+            {headers.map(header => (
+              <th key={header} className="py-2 pr-4 font-medium">{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className={`border-b last:border-0 ${row.overLimit ? 'bg-red-50' : ''}`}>
+              {row.cells.map((cell, i) => (
+                <td key={i} className="py-2 pr-4 break-all">
+                  {cell}
+                  {i === 0 && row.overLimit && (
+                    <Badge variant="destructive" className="ml-2">Over limit</Badge>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
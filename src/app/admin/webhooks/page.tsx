@@ -0,0 +1,343 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, KeyRound, RefreshCw, Send, Trash2, Webhook } from 'lucide-react';
+import type { WebhookDelivery, WebhookEvent } from '@/types/database.types';
+import { PublicWebhookSubscription, WEBHOOK_EVENTS } from '@/utils/webhook-events';
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+const jsonRequest = (method: string, body?: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+export default function AdminWebhooksPage() {
+  const [subscriptions, setSubscriptions] = useState<PublicWebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({});
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['sop.published']);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchJson<{ subscriptions: PublicWebhookSubscription[] }>('/api/admin/webhooks');
+      setSubscriptions(result.subscriptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadDeliveries = async (subscriptionId: string) => {
+    const result = await fetchJson<{ deliveries: WebhookDelivery[] }>(
+      `/api/admin/webhooks/deliveries?subscription_id=${subscriptionId}`
+    );
+    setDeliveries(prev => ({ ...prev, [subscriptionId]: result.deliveries }));
+  };
+
+  // Run an action on one subscription, showing errors in the page alert
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const createSubscription = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('create', async () => {
+      const result = await fetchJson<{ subscription: PublicWebhookSubscription; secret: string }>(
+        '/api/admin/webhooks',
+        jsonRequest('POST', { name, url, events })
+      );
+      setSubscriptions(prev => [...prev, result.subscription]);
+      setRevealedSecret({ name: result.subscription.name, secret: result.secret });
+      setName('');
+      setUrl('');
+    });
+  };
+
+  const updateSubscription = (subscription: PublicWebhookSubscription, changes: Record<string, unknown>) =>
+    run(subscription.id, async () => {
+      const result = await fetchJson<{ subscription: PublicWebhookSubscription; secret?: string }>(
+        `/api/admin/webhooks?id=${subscription.id}`,
+        jsonRequest('PATCH', changes)
+      );
+      setSubscriptions(prev => prev.map(entry => entry.id === subscription.id ? result.subscription : entry));
+      if (result.secret) {
+        setRevealedSecret({ name: subscription.name, secret: result.secret });
+      }
+    });
+
+  const rotateSecret = (subscription: PublicWebhookSubscription) => {
+    if (!window.confirm(`Replace the signing secret of ${subscription.name}? The endpoint must switch to the new secret.`)) {
+      return;
+    }
+    updateSubscription(subscription, { rotate_secret: true });
+  };
+
+  const deleteSubscription = (subscription: PublicWebhookSubscription) => {
+    if (!window.confirm(`Delete the webhook ${subscription.name} and its delivery log? This cannot be undone.`)) {
+      return;
+    }
+    run(subscription.id, async () => {
+      await fetchJson(`/api/admin/webhooks?id=${subscription.id}`, { method: 'DELETE' });
+      setSubscriptions(prev => prev.filter(entry => entry.id !== subscription.id));
+    });
+  };
+
+  const sendTest = (subscription: PublicWebhookSubscription) =>
+    run(subscription.id, async () => {
+      await fetchJson(`/api/admin/webhooks/test?id=${subscription.id}`, { method: 'POST' });
+      setOpenLog(subscription.id);
+      await loadDeliveries(subscription.id);
+    });
+
+  const toggleLog = (subscription: PublicWebhookSubscription) => {
+    if (openLog === subscription.id) {
+      setOpenLog(null);
+      return;
+    }
+    setOpenLog(subscription.id);
+    run(subscription.id, () => loadDeliveries(subscription.id));
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) =>
+    setEvents(prev => checked ? [...prev, event] : prev.filter(entry => entry !== event));
+
+  return (
+    <div className="container py-10 mx-auto">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Let other systems, such as an LMS or a ticketing tool, react when SOPs change
+          </p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {revealedSecret && (
+        <Alert className="mb-6">
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>Signing secret of {revealedSecret.name}</AlertTitle>
+          <AlertDescription>
+            <p className="mb-2">Copy it now; it is not shown again.</p>
+            <code className="block break-all rounded bg-gray-100 px-2 py-1 text-sm">{revealedSecret.secret}</code>
+            <Button variant="outline" size="sm" className="mt-3" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <section className="mb-10">
+        <h2 className="text-xl font-semibold mb-4">Subscriptions</h2>
+        <div className="grid gap-6">
+          {!loading && subscriptions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No webhooks yet</p>
+          )}
+
+          {subscriptions.map(subscription => (
+            <Card key={subscription.id}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Webhook className="h-5 w-5" />
+                  {subscription.name}
+                  {!subscription.is_active && <Badge variant="secondary">Paused</Badge>}
+                </CardTitle>
+                <CardDescription className="break-all">
+                  {subscription.url} · secret {subscription.secret_hint}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {subscription.events.map(event => (
+                    <Badge key={event} variant="outline">{event}</Badge>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  <Button variant="outline" size="sm" onClick={() => sendTest(subscription)} disabled={busy === subscription.id}>
+                    <Send className="mr-2 h-4 w-4" />
+                    Send test event
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => toggleLog(subscription)}>
+                    {openLog === subscription.id ? 'Hide deliveries' : 'Deliveries'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSubscription(subscription, { is_active: !subscription.is_active })}
+                    disabled={busy === subscription.id}
+                  >
+                    {subscription.is_active ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => rotateSecret(subscription)} disabled={busy === subscription.id}>
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Rotate secret
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => deleteSubscription(subscription)} disabled={busy === subscription.id}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {openLog === subscription.id && (
+                  <DeliveryLog deliveries={deliveries[subscription.id]} />
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold mb-4">Add a Webhook</h2>
+        <Card>
+          <CardHeader>
+            <CardDescription>
+              Events are posted as JSON and signed with the subscription&apos;s secret in the X-Webhook-Signature header.
+              Failed deliveries are retried with increasing delays.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={createSubscription} className="grid gap-4 max-w-xl">
+              <div className="grid gap-2">
+                <Label htmlFor="webhook-name">Name</Label>
+                <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="LMS sync" required />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/hooks/sops"
+                  required
+                />
+              </div>
+              <fieldset className="grid gap-2">
+                <legend className="text-sm font-medium mb-1">Events</legend>
+                {WEBHOOK_EVENTS.map(({ event, description }) => (
+                  <label key={event} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event)}
+                      onChange={(e) => toggleEvent(event, e.target.checked)}
+                      className="mt-1 h-4 w-4"
+                    />
+                    <span>
+                      <code>{event}</code>
+                      <span className="block text-muted-foreground">{description}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+              <div>
+                <Button type="submit" disabled={busy === 'create' || events.length === 0}>
+                  {busy === 'create' ? 'Adding...' : 'Add webhook'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </section>
+    </div>
+  );
+}
+
+function DeliveryLog({ deliveries }: { deliveries?: WebhookDelivery[] }) {
+  if (!deliveries) {
+    return <p className="text-sm text-muted-foreground mt-4">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground mt-4">Nothing delivered yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto mt-4">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-500">
+            <th className="py-2 pr-4 font-medium">When</th>
+            <th className="py-2 pr-4 font-medium">Event</th>
+            <th className="py-2 pr-4 font-medium">Status</th>
+            <th className="py-2 pr-4 font-medium">Response</th>
+            <th className="py-2 pr-4 font-medium">Attempts</th>
+            <th className="py-2 pr-4 font-medium">Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.map(delivery => (
+            <tr key={delivery.id} className="border-b last:border-0 align-top">
+              <td className="py-2 pr-4 whitespace-nowrap">{new Date(delivery.created_at).toLocaleString()}</td>
+              <td className="py-2 pr-4"><code>{delivery.event}</code></td>
+              <td className="py-2 pr-4">
+                <Badge variant={delivery.status === 'succeeded' ? 'success' : delivery.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {delivery.status}
+                </Badge>
+                {delivery.status === 'pending' && delivery.attempts > 0 && (
+                  <span className="block text-xs text-muted-foreground mt-1">
+                    Retry at {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                  </span>
+                )}
+              </td>
+              <td className="py-2 pr-4 break-all">
+                {delivery.response_status ?? '—'}
+                {delivery.last_error && (
+                  <span className="block text-xs text-muted-foreground">{delivery.last_error}</span>
+                )}
+              </td>
+              <td className="py-2 pr-4">{delivery.attempts}</td>
+              <td className="py-2 pr-4 whitespace-nowrap">{delivery.duration_ms != null ? `${delivery.duration_ms} ms` : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getMediaStore } from '@/utils/media-store';
+import { mediaGcGraceHours, runMediaGc } from '@/utils/media-gc';
+
+const ORPHAN_LIST_LIMIT = 500;
+
+/**
+ * API route handlers for orphaned media garbage collection
+ */
+
+/**
+ * GET handler for the media GC status
+ * Returns recent runs and the orphans currently recorded for the configured store
+ * Protected by admin authentication
+ */
+export const GET = withAdminAuth(async () => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const store = getMediaStore();
+
+    const [{ data: runs, error: runsError }, { data: orphans, error: orphansError, count }] = await Promise.all([
+      supabase
+        .from('media_gc_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(20),
+      supabase
+        .from('media_orphans')
+        .select('*', { count: 'exact' })
+        .eq('storage_backend', store.name)
+        .order('first_seen_at', { ascending: true })
+        .limit(ORPHAN_LIST_LIMIT)
+    ]);
+
+    if (runsError || orphansError) {
+      logger.error('Error fetching media GC status:', { error: runsError || orphansError });
+      return NextResponse.json(
+        { error: 'Failed to fetch media GC status', details: (runsError || orphansError)?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      store: store.name,
+      grace_hours: mediaGcGraceHours(),
+      runs,
+      orphans,
+      orphan_total: count ?? orphans?.length ?? 0
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/admin/media/gc:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler to run the reconciliation job now
+ * Body: `{ dryRun?: boolean }`; a dry run records orphans without deleting any
+ * Protected by admin authentication
+ */
+export const POST = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const report = await runMediaGc(supabase, {
+      dryRun: body.dryRun === true,
+      triggeredBy: userId
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    logger.error('Error running media GC:', error);
+    return NextResponse.json(
+      { error: 'Media GC run failed', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
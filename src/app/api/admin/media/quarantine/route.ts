@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { recordAuditLog } from '@/utils/audit-log';
+import { deleteMediaFiles } from '@/utils/step-media';
+
+const QUARANTINE_LIST_LIMIT = 200;
+
+/**
+ * API route handlers for uploads held in quarantine by the malware scanner
+ */
+
+/**
+ * GET handler listing quarantined uploads, newest first
+ * Protected by admin authentication
+ */
+export const GET = withAdminAuth(async () => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: files, error, count } = await supabase
+      .from('media_quarantine')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .limit(QUARANTINE_LIST_LIMIT);
+
+    if (error) {
+      logger.error('Error fetching quarantined media:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch quarantined media', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ files, total: count ?? files?.length ?? 0 });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/admin/media/quarantine:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE handler removing a quarantined upload and its file
+ * Query: `?id=` of the quarantine record
+ * Protected by admin authentication
+ */
+export const DELETE = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Quarantine ID is required' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: file, error: fetchError } = await supabase
+      .from('media_quarantine')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !file) {
+      return NextResponse.json({ error: 'Quarantined file not found' }, { status: 404 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('media_quarantine')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      logger.error('Error deleting quarantine record:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to delete quarantined file', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    await deleteMediaFiles(file);
+
+    await recordAuditLog(supabase, {
+      entity_type: 'media',
+      entity_id: id,
+      action: 'delete',
+      user_id: userId,
+      previous_state: file,
+      metadata: { description: `Deleted quarantined file ${file.filename}` }
+    });
+
+    return NextResponse.json({ message: 'Quarantined file deleted' });
+  } catch (error) {
+    logger.error('Unexpected error in DELETE /api/admin/media/quarantine:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getStorageUsageReport } from '@/utils/storage-usage';
+
+/**
+ * GET handler for the media storage usage report
+ * Returns bytes and file counts per user and per SOP, flagged against the
+ * configured storage limits
+ * Protected by admin authentication
+ */
+export const GET = withAdminAuth(async () => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const report = await getStorageUsageReport(supabase);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    logger.error('Error building storage usage report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build storage usage report', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { listWebhookDeliveries } from '@/utils/webhooks';
+
+/**
+ * GET handler for the delivery log of a webhook subscription, newest first
+ * Query: `?subscription_id=`, optional `&limit=` (default 50)
+ * Protected by admin authentication
+ */
+export const GET = withAdminAuth(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const subscriptionId = searchParams.get('subscription_id');
+
+    if (!subscriptionId) {
+      return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const limit = Number(searchParams.get('limit'));
+    const deliveries = await listWebhookDeliveries(supabase, subscriptionId, limit > 0 ? limit : undefined);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/admin/webhooks/deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { parseWebhookSubscriptionInput } from '@/utils/webhook-events';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  listWebhookSubscriptions,
+  publicWebhookSubscription,
+  updateWebhookSubscription
+} from '@/utils/webhooks';
+
+/**
+ * API route handlers for the organization's webhook subscriptions
+ */
+
+/**
+ * GET handler listing webhook subscriptions; secrets are left out
+ * Protected by admin authentication
+ */
+export const GET = withAdminAuth(async () => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const subscriptions = await listWebhookSubscriptions(supabase);
+
+    return NextResponse.json({ subscriptions: subscriptions.map(publicWebhookSubscription) });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/admin/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler creating a subscription; the signing secret is returned
+ * only here and when it is rotated
+ * Body: { name: string, url: string, events: string[], is_active?: boolean }
+ * Protected by admin authentication
+ */
+export const POST = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const input = parseWebhookSubscriptionInput(await req.json().catch(() => ({})));
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const subscription = await createWebhookSubscription(supabase, {
+      ...input,
+      name: input.name!,
+      url: input.url!,
+      events: input.events!
+    }, userId);
+
+    logger.info('Webhook subscription created', { subscriptionId: subscription.id, userId });
+
+    return NextResponse.json({
+      subscription: publicWebhookSubscription(subscription),
+      secret: subscription.secret
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in POST /api/admin/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH handler changing a subscription
+ * Query: `?id=` of the subscription
+ * Body: { name?, url?, events?, is_active?, rotate_secret?: boolean }
+ * Protected by admin authentication
+ */
+export const PATCH = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const input = parseWebhookSubscriptionInput(body, true);
+    const rotateSecret = body?.rotate_secret === true;
+
+    if (Object.keys(input).length === 0 && !rotateSecret) {
+      return NextResponse.json({ error: 'No update data provided' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const subscription = await updateWebhookSubscription(supabase, id, input, { rotateSecret });
+
+    logger.info('Webhook subscription updated', { subscriptionId: id, userId, fields: Object.keys(input), rotateSecret });
+
+    return NextResponse.json({
+      subscription: publicWebhookSubscription(subscription),
+      secret: rotateSecret ? subscription.secret : undefined
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in PATCH /api/admin/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE handler removing a subscription and its delivery log
+ * Query: `?id=` of the subscription
+ * Protected by admin authentication
+ */
+export const DELETE = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    await deleteWebhookSubscription(supabase, id);
+
+    logger.info('Webhook subscription deleted', { subscriptionId: id, userId });
+
+    return NextResponse.json({ message: 'Webhook subscription deleted' });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in DELETE /api/admin/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAdminAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getWebhookSubscription, sendTestWebhook } from '@/utils/webhooks';
+
+/**
+ * POST handler sending a `webhook.test` event to a subscription right away
+ * Query: `?id=` of the subscription
+ * Returns the logged delivery with the endpoint's response
+ * Protected by admin authentication
+ */
+export const POST = withAdminAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const subscription = await getWebhookSubscription(supabase, id);
+    const delivery = await sendTestWebhook(supabase, subscription);
+
+    logger.info('Webhook test event sent', { subscriptionId: id, userId, status: delivery.status });
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in POST /api/admin/webhooks/test:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AIQuotaExceededError } from '@/utils/ai';
+
+const startAIMeter = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const streamSteps = jest.fn<(...args: unknown[]) => AsyncIterable<unknown>>();
+
+jest.mock('next/headers', () => ({
+  cookies: () => ({ get: () => undefined })
+}));
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn()
+}));
+
+jest.mock('../../../../utils/firebase-admin', () => ({
+  firebaseAdmin: {
+    verifyIdToken: async (token: string) => {
+      if (token !== 'valid-token') {
+        throw new Error('invalid token');
+      }
+      return { uid: 'user-1', email: 'author@example.com', role: 'editor' };
+    }
+  }
+}));
+
+// Both the user sync in withAuth and the SOP lookup read from this client
+const supabaseClient = () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    update: () => query,
+    insert: async () => ({ error: null }),
+    single: async () => ({ data: { id: 'sop-1', title: 'Onboarding', description: null }, error: null })
+  };
+  return { from: () => query };
+};
+
+jest.mock('../../../../utils/supabase/admin', () => ({
+  createAdminClient: () => supabaseClient()
+}));
+
+jest.mock('../../../../utils/supabase/server', () => ({
+  createClient: () => supabaseClient()
+}));
+
+jest.mock('../../../../utils/ai', () => ({
+  ...jest.requireActual<typeof import('../../../../utils/ai')>('../../../../utils/ai'),
+  startAIMeter: (...args: unknown[]) => startAIMeter(...args)
+}));
+
+jest.mock('../../../../utils/step-generation', () => ({
+  generateSteps: jest.fn(),
+  streamSteps: (...args: unknown[]) => streamSteps(...args)
+}));
+
+const request = (body: unknown, token = 'valid-token') => new NextRequest('http://localhost/api/ai/generate-steps', {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+const readEvents = async (response: Response) =>
+  (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+describe('POST /api/ai/generate-steps', () => {
+  let POST: typeof import('./route').POST;
+
+  // Loaded after the mocks above are registered
+  beforeAll(async () => {
+    ({ POST } = await import('./route'));
+  });
+
+  beforeEach(() => {
+    startAIMeter.mockReset();
+    streamSteps.mockReset();
+    startAIMeter.mockResolvedValue({ record: async () => {} });
+  });
+
+  it('streams the generated steps as NDJSON', async () => {
+    streamSteps.mockImplementation(async function* () {
+      yield { title: 'Check the badge', instructions: 'Scan it at the door' };
+      yield { title: 'Sign in', instructions: 'Use the kiosk' };
+    });
+
+    const response = await POST(request({ sop_id: 'sop-1', prompt: 'Onboarding for new warehouse staff', stream: true }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+    expect(await readEvents(response)).toEqual([
+      { type: 'step', index: 0, step: { title: 'Check the badge', instructions: 'Scan it at the door' } },
+      { type: 'step', index: 1, step: { title: 'Sign in', instructions: 'Use the kiosk' } },
+      { type: 'done', count: 2 }
+    ]);
+    expect(startAIMeter).toHaveBeenCalledWith(expect.anything(), 'user-1');
+  });
+
+  it('ends the stream with an error event when generation fails', async () => {
+    streamSteps.mockImplementation(async function* () {
+      yield { title: 'Check the badge', instructions: 'Scan it at the door' };
+      throw new Error('provider went away');
+    });
+
+    const response = await POST(request({ sop_id: 'sop-1', prompt: 'Onboarding for new warehouse staff', stream: true }));
+    const events = await readEvents(response);
+
+    expect(events[0].type).toBe('step');
+    expect(events[1]).toEqual({ type: 'error', error: 'Failed to generate steps', status: 500 });
+  });
+
+  it('refuses to stream once the AI quota is used up', async () => {
+    startAIMeter.mockRejectedValue(new AIQuotaExceededError('Daily AI quota reached', 3600));
+
+    const response = await POST(request({ sop_id: 'sop-1', prompt: 'Onboarding for new warehouse staff', stream: true }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3600');
+    expect(streamSteps).not.toHaveBeenCalled();
+  });
+
+  it('rejects short prompts and missing tokens', async () => {
+    expect((await POST(request({ sop_id: 'sop-1', prompt: 'short' }))).status).toBe(400);
+    expect((await POST(request({ sop_id: 'sop-1', prompt: 'Onboarding for new staff' }, 'bad-token'))).status).toBe(401);
+  });
+});
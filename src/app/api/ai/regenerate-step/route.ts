@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { logger } from '@/utils/logger';
+import { ApiError, BadRequestError, NotFoundError } from '@/utils/api-errors';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { aiErrorHeaders, startAIMeter } from '@/utils/ai';
+import { AIGeneratedStep, normalizeGeneratedStep, regenerateStep } from '@/utils/step-generation';
+
+const MAX_STEPS = 100;
+
+/**
+ * POST /api/ai/regenerate-step - Rewrite one generated step without
+ * regenerating the others
+ */
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    let requestData: { sop_id: string; prompt: string; steps: AIGeneratedStep[]; index: number; feedback?: string };
+    try {
+      requestData = await req.json();
+    } catch (error) {
+      logger.error('Invalid request body:', error);
+      throw new BadRequestError('Invalid request body');
+    }
+
+    const { sop_id, prompt, steps, index, feedback } = requestData;
+
+    if (!sop_id) {
+      throw new BadRequestError('SOP ID is required');
+    }
+
+    if (!prompt || typeof prompt !== 'string') {
+      throw new BadRequestError('The prompt the steps were generated from is required');
+    }
+
+    if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_STEPS) {
+      throw new BadRequestError(`steps must be a list of 1 to ${MAX_STEPS} steps`);
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= steps.length) {
+      throw new BadRequestError('index must point at one of the steps');
+    }
+
+    const supabase = createClient();
+
+    // Verify SOP exists and user has access to it
+    const { data: sop, error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', sop_id)
+      .single();
+
+    if (sopError || !sop) {
+      logger.warn(`SOP ${sop_id} not found or user ${user.id} doesn't have access`);
+      throw new NotFoundError('SOP not found or you do not have access to it');
+    }
+
+    // Enforce the user's AI quota; throws a 429 when it is used up
+    const meter = await startAIMeter(createAdminClient() as unknown as SupabaseClient, user.id);
+
+    const step = await regenerateStep(
+      prompt,
+      steps.map(normalizeGeneratedStep),
+      index,
+      typeof feedback === 'string' ? feedback.trim() : '',
+      { meter }
+    );
+
+    logger.info(`Regenerated step ${index + 1} for SOP ${sop_id}`);
+    return NextResponse.json({ step, index });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode, headers: aiErrorHeaders(error) }
+      );
+    }
+
+    logger.error('Unexpected error in regenerate-step API:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate step' },
+      { status: 500 }
+    );
+  }
+}, { requireAuth: true });
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getAIQuotaStatus, summarizeAIUsage } from '@/utils/ai/usage';
+import { AIUsageRecord } from '@/types/database.types';
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/**
+ * GET handler for the AI usage summary
+ * Returns the current user's quota status and their usage for a month
+ * (`?month=YYYY-MM`, default the current month). Admins can pass
+ * `?scope=organization` to get usage for everyone, broken down by department.
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const month = searchParams.get('month');
+    const scope = searchParams.get('scope') === 'organization' ? 'organization' : 'user';
+
+    const now = new Date();
+    let from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    if (month) {
+      const match = MONTH_PATTERN.exec(month);
+      if (!match) {
+        return NextResponse.json(
+          { error: 'month must be formatted as YYYY-MM' },
+          { status: 400 }
+        );
+      }
+      from = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    }
+
+    const to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1));
+
+    // Quotas and the ledger are only writable by the service role
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const quota = await getAIQuotaStatus(supabase, userId, now);
+
+    if (scope === 'organization' && quota.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only administrators can view organization-wide AI usage' },
+        { status: 403 }
+      );
+    }
+
+    let query = supabase
+      .from('ai_usage')
+      .select('feature, model, department, prompt_tokens, completion_tokens, latency_ms, estimated_cost, status')
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString());
+
+    if (scope === 'user') {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data: rows, error } = await query;
+
+    if (error) {
+      logger.error('Error fetching AI usage:', { error, userId, scope });
+      return NextResponse.json(
+        { error: 'Failed to fetch AI usage', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      scope,
+      period: { from: from.toISOString(), to: to.toISOString() },
+      quota,
+      summary: summarizeAIUsage((rows || []) as AIUsageRecord[])
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/ai/usage', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { runMediaGc } from '@/utils/media-gc';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET handler for the scheduled media GC run (see `crons` in vercel.json)
+ * Requires `Authorization: Bearer $CRON_SECRET`; disabled when CRON_SECRET is unset
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const report = await runMediaGc(supabase, { triggeredBy: 'cron' });
+
+    return NextResponse.json({
+      run: report.run,
+      deleted: report.deleted.length,
+      orphans: report.orphans.length,
+      missing: report.missing.length
+    });
+  } catch (error) {
+    logger.error('Scheduled media GC run failed:', error);
+    return NextResponse.json(
+      { error: 'Media GC run failed', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
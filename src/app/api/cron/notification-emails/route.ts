@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { dispatchNotificationEmails } from '@/utils/notification-email';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET handler for the dispatcher of queued notification emails and daily
+ * digests (see `crons` in vercel.json)
+ * Requires `Authorization: Bearer $CRON_SECRET`; disabled when CRON_SECRET is unset
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const result = await dispatchNotificationEmails(supabase);
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    logger.error('Notification email dispatch failed:', error);
+    return NextResponse.json(
+      { error: 'Notification email dispatch failed', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
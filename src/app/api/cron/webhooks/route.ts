@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { dispatchWebhookDeliveries } from '@/utils/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET handler for the dispatcher of queued webhook deliveries and their
+ * retries (see `crons` in vercel.json)
+ * Requires `Authorization: Bearer $CRON_SECRET`; disabled when CRON_SECRET is unset
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const result = await dispatchWebhookDeliveries(supabase);
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    logger.error('Webhook dispatch failed:', error);
+    return NextResponse.json(
+      { error: 'Webhook dispatch failed', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 // import { authAdmin } from '@/utils/firebase-admin'; // Middleware handles auth
-import { generateInstructions } from '@/utils/openai'; // Assuming this path
+import { generateInstructions } from '@/utils/sop-ai-service';
+import { applyAIErrorHeaders, isAIError, startAIMeter } from '@/utils/ai';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
 import { serverLogger as logger } from '@/lib/logger/server-logger';
 import { handleApiError, UnauthorizedError, BadRequestError, ApiError } from '@/utils/api-error-handler';
 
-// Assume generateInstructions function exists elsewhere and handles OpenAI call
-// async function generateInstructions(prompt: string): Promise<string> { ... }
-
 /**
- * POST /api/generate-instructions - Generate SOP instructions using OpenAI
+ * POST /api/generate-instructions - Generate SOP instructions using the configured AI provider
  */
 export async function POST(req: NextRequest) {
     logger.info('POST /api/generate-instructions - Request received');
@@ -22,10 +22,6 @@ export async function POST(req: NextRequest) {
             return handleApiError(new UnauthorizedError('User not authenticated'), req);
         }
 
-        // --- TODO: Implement Rate Limiting & Access Control --- 
-        // Ref: custom_instructions -> ai.features.step_suggestions
-        // Check rate limit (e.g., 200/day for userId)
-        // Access is 'authenticated' (already checked).
         logger.debug(`POST /api/generate-instructions: User ${userId} requesting instruction generation.`);
 
         // --- Parse Request Body --- 
@@ -46,29 +42,29 @@ export async function POST(req: NextRequest) {
         // If so, accept sopId/stepId in request, fetch via createClient(), and verify ownership/RLS.
         // For now, assuming it's a general authenticated feature.
 
-        // Check if OpenAI API key is configured (should ideally be checked at startup, but good failsafe)
-        if (!process.env.OPENAI_API_KEY) {
-            logger.error('POST /api/generate-instructions: OPENAI_API_KEY is not configured.');
-            // Don't expose details about missing key to client
-            throw new ApiError('AI service is not configured correctly', 503); // 503 Service Unavailable
-        }
+        // --- Enforce AI Quota --- 
+        // Throws a 429 with Retry-After once the user's daily or monthly quota is used up
+        const meter = await startAIMeter(createAdminClient() as unknown as SupabaseClient, userId);
 
         // --- Generate Instructions --- 
         try {
             logger.info(`Generating instructions for user ${userId} with prompt length: ${prompt.length}`);
-            // TODO: Ensure generateInstructions respects max_tokens limit from config (1000)
-            const instructions = await generateInstructions(prompt);
+            const instructions = await generateInstructions(prompt, meter);
             logger.info(`Successfully generated instructions for user ${userId}`);
             
             return NextResponse.json({ instructions });
-        } catch (openaiError) {
-            logger.error('Error generating instructions with OpenAI:', openaiError);
-             // Check for specific OpenAI errors if needed (e.g., rate limits, content policy)
-            throw new ApiError('Failed to generate instructions via AI service', 502, openaiError instanceof Error ? openaiError.message : 'AI service error'); // 502 Bad Gateway
+        } catch (aiError) {
+            logger.error('Error generating instructions with AI provider:', aiError);
+            // Provider errors already carry a client-safe message and status (503 unconfigured, 429, 502)
+            if (isAIError(aiError)) throw new ApiError(aiError.message, aiError.statusCode);
+            throw new ApiError('Failed to generate instructions via AI service', 502, aiError instanceof Error ? aiError.message : 'AI service error'); // 502 Bad Gateway
         }
 
     } catch (error) {
         logger.error('POST /api/generate-instructions: Unhandled error', error instanceof Error ? error : undefined);
+        if (isAIError(error)) {
+            return applyAIErrorHeaders(handleApiError(new ApiError(error.message, error.statusCode), req), error);
+        }
         return handleApiError(error, req);
     }
 } 
\ No newline at end of file
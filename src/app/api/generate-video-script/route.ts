@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Configuration, OpenAIApi } from 'openai';
 import { createClient } from '@/utils/supabase/server';
 import { serverLogger as logger } from '@/lib/logger/server-logger';
 import { handleApiError, UnauthorizedError, BadRequestError, NotFoundError, ApiError } from '@/utils/api-error-handler';
+import { generateVideoScript } from '@/utils/sop-ai-service';
+import { applyAIErrorHeaders, isAIError, startAIMeter } from '@/utils/ai';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
 
 /**
- * POST /api/generate-video-script - Generate video script using OpenAI, respecting RLS and auth.
+ * POST /api/generate-video-script - Generate video script with the configured AI provider, respecting RLS and auth.
  */
 export async function POST(req: NextRequest) {
   logger.info('POST /api/generate-video-script - Request received');
@@ -20,12 +23,6 @@ export async function POST(req: NextRequest) {
       return handleApiError(new UnauthorizedError('User not authenticated'), req);
     }
 
-    // --- TODO: Implement Rate Limiting & Access Control --- 
-    // Ref: custom_instructions -> ai.features.sop_generation
-    // Check if user (userId) has exceeded rate limit (e.g., 50/day)
-    // Store usage counts (e.g., in Supabase table or Redis)
-    // If rate limited, return appropriate error (e.g., 429 Too Many Requests)
-    // Access is 'authenticated', which is already checked above.
     logger.debug(`POST /api/generate-video-script: User ${userId} requesting script generation.`);
 
     // --- Parse Request Body --- 
@@ -71,29 +68,30 @@ export async function POST(req: NextRequest) {
         throw new ApiError('Failed to fetch steps for script generation', 500, stepsError.message);
     }
 
+    // --- Enforce AI Quota --- 
+    // Throws a 429 with Retry-After once the user's daily or monthly quota is used up
+    const meter = await startAIMeter(createAdminClient() as unknown as SupabaseClient, userId);
+
     // --- Generate Video Script --- 
     // Ensure steps is not null before passing
     const scriptSteps = steps || []; 
-    const videoScript = await generateVideoScript(sop.description || sop.title, scriptSteps);
-    
-    // TODO: Consider max_tokens limit from config when calling OpenAI
+    let videoScript: string;
+    try {
+        videoScript = await generateVideoScript(sop.description || sop.title, scriptSteps, meter);
+    } catch (aiError) {
+        // Keep the AI layer's status (503 unconfigured, 429 rate limited, 502 provider failure)
+        if (isAIError(aiError)) throw new ApiError(aiError.message, aiError.statusCode);
+        throw aiError;
+    }
     
     logger.info(`POST /api/generate-video-script: Script generated successfully for SOP ${sopId}`);
     return NextResponse.json({ videoScript });
 
   } catch (error) {
     logger.error('POST /api/generate-video-script: Unhandled error', error instanceof Error ? error : undefined);
+    if (isAIError(error)) {
+      return applyAIErrorHeaders(handleApiError(new ApiError(error.message, error.statusCode), req), error);
+    }
     return handleApiError(error, req);
   }
 }
-
-async function generateVideoScript(title: string, steps: any[]): Promise<string> {
-    // Placeholder implementation - Replace with actual OpenAI call
-    logger.info(`Generating video script for title: ${title} with ${steps.length} steps...`);
-    // const configuration = new Configuration({ apiKey: process.env.OPENAI_API_KEY });
-    // const openai = new OpenAIApi(configuration);
-    // ... construct prompt from title and steps ...
-    // ... make OpenAI API call, respecting token limits ...
-    await new Promise(resolve => setTimeout(resolve, 500)); // Simulate API call
-    return `Generated script based on: ${title}\n${steps.map((s, i) => `${i+1}. ${s.title}`).join('\n')}`;
-} 
\ No newline at end of file
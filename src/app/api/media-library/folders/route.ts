@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { logger } from '@/utils/logger';
+import { canManageLibraryItem, normalizeAssetName } from '@/utils/media-library';
+
+// GET /api/media-library/folders - All folders of the media library
+export const GET = withAuth(async () => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: folders, error } = await supabase
+      .from('media_folders')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching media folders:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch folders' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ folders });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/media-library/folders:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/media-library/folders - Create a folder ({ name, parent_id })
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const body = await req.json();
+    const name = normalizeAssetName(body.name);
+    const parentId = body.parent_id || null;
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Folder name is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from('media_folders')
+        .select('id')
+        .eq('id', parentId)
+        .maybeSingle();
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent folder not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const { data: folder, error } = await supabase
+      .from('media_folders')
+      .insert({ name, parent_id: parentId, created_by: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error creating media folder:', error);
+      return NextResponse.json(
+        { error: 'Failed to create folder' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ folder }, { status: 201 });
+  } catch (error) {
+    logger.error('Unexpected error in POST /api/media-library/folders:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/media-library/folders?id= - Rename a folder
+export const PATCH = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const folderId = searchParams.get('id');
+    const body = await req.json();
+    const name = normalizeAssetName(body.name);
+
+    if (!folderId || !name) {
+      return NextResponse.json(
+        { error: 'Folder ID and name are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: folder, error: folderError } = await supabase
+      .from('media_folders')
+      .select('id, created_by')
+      .eq('id', folderId)
+      .single();
+
+    if (folderError || !folder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageLibraryItem(folder, user)) {
+      return NextResponse.json(
+        { error: 'Not authorized to rename this folder' },
+        { status: 403 }
+      );
+    }
+
+    const { data: updatedFolder, error } = await supabase
+      .from('media_folders')
+      .update({ name })
+      .eq('id', folderId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error renaming media folder:', error);
+      return NextResponse.json(
+        { error: 'Failed to rename folder' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ folder: updatedFolder });
+  } catch (error) {
+    logger.error('Unexpected error in PATCH /api/media-library/folders:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/media-library/folders?id= - Delete an empty folder
+export const DELETE = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const folderId = searchParams.get('id');
+
+    if (!folderId) {
+      return NextResponse.json(
+        { error: 'Folder ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: folder, error: folderError } = await supabase
+      .from('media_folders')
+      .select('id, created_by')
+      .eq('id', folderId)
+      .single();
+
+    if (folderError || !folder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageLibraryItem(folder, user)) {
+      return NextResponse.json(
+        { error: 'Not authorized to delete this folder' },
+        { status: 403 }
+      );
+    }
+
+    const [{ count: assetCount }, { count: folderCount }] = await Promise.all([
+      supabase.from('media_assets').select('id', { count: 'exact', head: true }).eq('folder_id', folderId),
+      supabase.from('media_folders').select('id', { count: 'exact', head: true }).eq('parent_id', folderId)
+    ]);
+
+    if (assetCount || folderCount) {
+      return NextResponse.json(
+        { error: 'Only empty folders can be deleted' },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('media_folders')
+      .delete()
+      .eq('id', folderId);
+
+    if (error) {
+      logger.error('Error deleting media folder:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete folder' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Folder deleted successfully' });
+  } catch (error) {
+    logger.error('Unexpected error in DELETE /api/media-library/folders:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
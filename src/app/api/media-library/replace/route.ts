@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { revalidatePath } from 'next/cache';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { logger } from '@/utils/logger';
+import { isMediaStoreError } from '@/utils/media-store';
+import { mediaTypeFor, readUploadedFile, validateMediaUpload } from '@/utils/step-media';
+import { canManageLibraryItem, findAssetUsage, replaceLibraryAsset } from '@/utils/media-library';
+import { hasOutstandingReview } from '@/utils/review-workflow';
+import { MediaAsset } from '@/types/database.types';
+
+// POST /api/media-library/replace?id= - Replace the file of an asset in every step using it
+// multipart/form-data with file, of the same media type as the current one
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get('id');
+
+    if (!assetId) {
+      return NextResponse.json(
+        { error: 'Asset ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Missing required field: file' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateMediaUpload(file);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: asset, error: assetError } = await supabase
+      .from('media_assets')
+      .select('*')
+      .eq('id', assetId)
+      .single();
+
+    if (assetError || !asset) {
+      return NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageLibraryItem(asset, user)) {
+      return NextResponse.json(
+        { error: 'Not authorized to replace this media asset' },
+        { status: 403 }
+      );
+    }
+
+    // Captions and annotations of the steps were made for this kind of media
+    if (mediaTypeFor(file.type) !== asset.type) {
+      return NextResponse.json(
+        { error: `Replace this ${asset.type} with another ${asset.type}` },
+        { status: 400 }
+      );
+    }
+
+    const usage = await findAssetUsage(supabase, assetId);
+
+    // Reviewers approve the file they were shown
+    for (const { sop_id, sop_title } of usage) {
+      if (await hasOutstandingReview(supabase, sop_id)) {
+        return NextResponse.json(
+          { error: `"${sop_title}" has a review in progress. Replace the file once the review is decided.` },
+          { status: 409 }
+        );
+      }
+    }
+    const result = await replaceLibraryAsset(supabase, asset as MediaAsset, await readUploadedFile(file), user.id);
+
+    for (const { sop_id } of usage) {
+      revalidatePath(`/sop/${sop_id}`);
+      revalidatePath(`/sop/${sop_id}/edit`);
+    }
+
+    return NextResponse.json({
+      asset: { ...result.asset, usage_count: result.media.length },
+      usage,
+      message: `Media replaced in ${result.media.length} step${result.media.length === 1 ? '' : 's'}`
+    });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in POST /api/media-library/replace:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in POST /api/media-library/replace:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
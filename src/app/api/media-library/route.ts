@@ -0,0 +1,290 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { logger } from '@/utils/logger';
+import { isMediaStoreError } from '@/utils/media-store';
+import { readUploadedFile, validateMediaUpload } from '@/utils/step-media';
+import {
+  canManageLibraryItem,
+  createLibraryAsset,
+  deleteLibraryAsset,
+  findAssetUsage,
+  listLibraryAssets,
+  normalizeAssetName,
+  normalizeAssetTags,
+  parseLibraryQuery
+} from '@/utils/media-library';
+import { MediaAsset } from '@/types/database.types';
+
+// Check that a folder exists before filing an asset in it
+async function folderExists(supabase: SupabaseClient, folderId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('media_folders')
+    .select('id')
+    .eq('id', folderId)
+    .maybeSingle();
+
+  return Boolean(data);
+}
+
+// GET /api/media-library - Search the media library (?q, folder, tag, type, limit, offset)
+// GET /api/media-library?id= - Get one asset
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get('id');
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    if (assetId) {
+      const { data: asset, error } = await supabase
+        .from('media_assets')
+        .select('*')
+        .eq('id', assetId)
+        .single();
+
+      if (error || !asset) {
+        return NextResponse.json(
+          { error: 'Media asset not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ asset });
+    }
+
+    const { assets, total } = await listLibraryAssets(supabase, parseLibraryQuery(searchParams));
+
+    return NextResponse.json({ assets, total });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/media-library:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/media-library - Add a file to the library
+// multipart/form-data with file and optional name, description, tags (comma-separated) and folder_id
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File | null;
+    const folderId = (formData.get('folder_id') || formData.get('folderId')) as string | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Missing required field: file' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateMediaUpload(file);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    if (folderId && !(await folderExists(supabase, folderId))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    const asset = await createLibraryAsset(
+      supabase,
+      user.id,
+      await readUploadedFile(file),
+      {
+        name: normalizeAssetName(formData.get('name')) || file.name,
+        description: (formData.get('description') as string | null)?.trim() || null,
+        tags: normalizeAssetTags(formData.get('tags')),
+        folderId
+      }
+    );
+
+    return NextResponse.json(
+      { asset: { ...asset, usage_count: 0 }, message: 'Media added to the library' },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in POST /api/media-library:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in POST /api/media-library:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/media-library?id= - Update the name, description, tags or folder of an asset
+export const PATCH = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get('id');
+
+    if (!assetId) {
+      return NextResponse.json(
+        { error: 'Asset ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const updates: Partial<Pick<MediaAsset, 'name' | 'description' | 'tags' | 'folder_id' | 'updated_by'>> = {};
+
+    if (body.name !== undefined) {
+      const name = normalizeAssetName(body.name);
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Name cannot be empty' },
+          { status: 400 }
+        );
+      }
+      updates.name = name;
+    }
+
+    if (body.description !== undefined) {
+      updates.description = typeof body.description === 'string' ? body.description.trim() || null : null;
+    }
+
+    if (body.tags !== undefined) {
+      updates.tags = normalizeAssetTags(body.tags);
+    }
+
+    if (body.folder_id !== undefined) {
+      updates.folder_id = body.folder_id || null;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: asset, error: assetError } = await supabase
+      .from('media_assets')
+      .select('id, created_by')
+      .eq('id', assetId)
+      .single();
+
+    if (assetError || !asset) {
+      return NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageLibraryItem(asset, user)) {
+      return NextResponse.json(
+        { error: 'Not authorized to change this media asset' },
+        { status: 403 }
+      );
+    }
+
+    if (updates.folder_id && !(await folderExists(supabase, updates.folder_id))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    updates.updated_by = user.id;
+
+    const { data: updatedAsset, error: updateError } = await supabase
+      .from('media_assets')
+      .update(updates)
+      .eq('id', assetId)
+      .select()
+      .single();
+
+    if (updateError) {
+      logger.error('Error updating media asset:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update media asset' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      asset: updatedAsset,
+      message: 'Media asset updated successfully'
+    });
+  } catch (error) {
+    logger.error('Unexpected error in PATCH /api/media-library:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/media-library?id= - Delete an asset no step uses
+export const DELETE = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get('id');
+
+    if (!assetId) {
+      return NextResponse.json(
+        { error: 'Asset ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const { data: asset, error: assetError } = await supabase
+      .from('media_assets')
+      .select('id, created_by, storage_backend, storage_key, variants')
+      .eq('id', assetId)
+      .single();
+
+    if (assetError || !asset) {
+      return NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageLibraryItem(asset, user)) {
+      return NextResponse.json(
+        { error: 'Not authorized to delete this media asset' },
+        { status: 403 }
+      );
+    }
+
+    const usage = await findAssetUsage(supabase, assetId);
+    if (usage.length > 0) {
+      return NextResponse.json(
+        { error: 'This media is still used by SOP steps. Remove it from them first.', usage },
+        { status: 409 }
+      );
+    }
+
+    await deleteLibraryAsset(supabase, asset);
+
+    return NextResponse.json({
+      message: 'Media asset deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Unexpected error in DELETE /api/media-library:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { withAuth } from '@/middleware/auth-middleware';
+import { logger } from '@/utils/logger';
+import { findAssetUsage } from '@/utils/media-library';
+
+// GET /api/media-library/usage?id= - SOPs and steps using an asset, shown before it is replaced
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get('id');
+
+    if (!assetId) {
+      return NextResponse.json(
+        { error: 'Asset ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const usage = await findAssetUsage(supabase, assetId);
+
+    return NextResponse.json({ usage });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/media-library/usage:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
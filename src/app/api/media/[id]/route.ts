@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
 import { authAdmin } from '@/utils/firebase-admin';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
 
 /**
  * PATCH /api/media/[id] - Update a media item
@@ -42,6 +44,17 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
         return Response.json({ error: 'Media item not found' }, { status: 404 });
       }
       
+      // Content is frozen while a review is open
+      const { data: step } = await supabase
+        .from('steps')
+        .select('sop_id')
+        .eq('id', existingMedia.step_id)
+        .single();
+      
+      if (step && await hasOutstandingReview(supabase as SupabaseClient, step.sop_id)) {
+        return Response.json({ error: REVIEW_IN_PROGRESS_MESSAGE }, { status: 409 });
+      }
+      
       // Build the update object with only allowed fields
       const updateData: Record<string, any> = {};
       
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/utils/logger';
+import { getMediaStore, isMediaStoreError, isPrivateMediaKey, LocalMediaStore, resolveMediaStoreName } from '@/utils/media-store';
+import { normalizeMediaKey } from '@/utils/media-store/local-store';
+import { validateMediaUpload } from '@/utils/step-media';
+
+/**
+ * API route handlers for files of the local media store (MEDIA_STORE=local).
+ * Reads are public like a public bucket, except staged uploads, quarantined
+ * files and the chunks of upload sessions; uploads need a signed URL from
+ * POST /api/upload-media.
+ */
+
+export const dynamic = 'force-dynamic';
+
+function localStore(): LocalMediaStore | null {
+  if (resolveMediaStoreName() !== 'local') return null;
+  const store = getMediaStore('local');
+  return store instanceof LocalMediaStore ? store : null;
+}
+
+function notAvailable() {
+  return NextResponse.json(
+    { error: 'Local media storage is not enabled' },
+    { status: 404 }
+  );
+}
+
+// GET /api/media/files/{key} - Stream a stored file
+export async function GET(_req: NextRequest, { params }: { params: { key: string[] } }) {
+  const store = localStore();
+  if (!store) return notAvailable();
+
+  const key = params.key.join('/');
+
+  try {
+    const normalizedKey = normalizeMediaKey(key);
+    if (isPrivateMediaKey(normalizedKey)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const object = await store.get(key);
+
+    return new NextResponse(object.body, {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        ...(object.size !== undefined ? { 'Content-Length': String(object.size) } : {}),
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in GET /api/media/files:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/media/files/{key}?expires=&signature= - Signed upload of a file
+export async function PUT(req: NextRequest, { params }: { params: { key: string[] } }) {
+  const store = localStore();
+  if (!store) return notAvailable();
+
+  const key = params.key.join('/');
+  const { searchParams } = new URL(req.url);
+
+  try {
+    if (!store.verifySignature(key, 'PUT', searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json(
+        { error: 'Invalid or expired upload URL' },
+        { status: 403 }
+      );
+    }
+
+    const body = new Uint8Array(await req.arrayBuffer());
+    const contentType = req.headers.get('content-type') || '';
+
+    const validationError = validateMediaUpload({ type: contentType, size: body.byteLength });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await store.put(key, body, { contentType });
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in PUT /api/media/files:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
-import { v4 as uuidv4 } from 'uuid';
+import { isMediaStoreError } from '@/utils/media-store';
+import { readUploadedFile, saveStepMedia, validateMediaUpload } from '@/utils/step-media';
 
 /**
  * POST /api/media/upload - Upload media for a step
@@ -56,63 +58,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized to upload media to this step' }, { status: 403 });
     }
     
-    // Determine file type
-    let fileType = 'document';
-    if (file.type.startsWith('image/')) {
-      fileType = 'image';
-    } else if (file.type.startsWith('video/')) {
-      fileType = 'video';
+    const validationError = validateMediaUpload(file);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
     
-    // Generate unique filename
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${stepId}/${uuidv4()}.${fileExt}`;
-    
-    // Upload to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('media')
-      .upload(fileName, file, {
-        contentType: file.type,
-        cacheControl: '3600'
-      });
-    
-    if (uploadError) {
-      console.error('Error uploading file:', uploadError);
-      return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
-    }
-    
-    // Get public URL
-    const { data: publicUrlData } = supabase.storage
-      .from('media')
-      .getPublicUrl(fileName);
-    
-    const publicUrl = publicUrlData.publicUrl;
-    
-    // Create media record in database
-    const mediaId = uuidv4();
-    const { data: mediaData, error: mediaError } = await supabase
-      .from('media')
-      .insert({
-        id: mediaId,
-        step_id: stepId,
-        type: fileType,
-        url: publicUrl,
-        filename: fileName,
-        caption: caption,
-        size_bytes: file.size,
-        created_at: new Date().toISOString()
-      })
-      .select()
-      .single();
-    
-    if (mediaError) {
-      console.error('Error creating media record:', mediaError);
-      
-      // Try to delete the uploaded file since we couldn't create the record
-      await supabase.storage.from('media').remove([fileName]);
-      
-      return NextResponse.json({ error: 'Failed to create media record' }, { status: 500 });
-    }
+    // Store the file and create its media record
+    const mediaData = await saveStepMedia(
+      supabase as SupabaseClient,
+      { sopId: step.sop_id, stepId, userId },
+      await readUploadedFile(file),
+      caption
+    );
     
     // Update SOP's updated_at timestamp
     await supabase
@@ -122,6 +79,11 @@ export async function POST(req: NextRequest) {
     
     return NextResponse.json({ media: mediaData });
   } catch (error) {
+    if (isMediaStoreError(error)) {
+      console.error('Media store error in POST /api/media/upload:', error);
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
     console.error('Error in POST /api/media/upload:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { verifyStepAccess, verifyUploadSessionAccess } from '@/utils/step-media-access';
+import { logger } from '@/utils/logger';
+import { revalidatePath } from 'next/cache';
+import { isMediaStoreError } from '@/utils/media-store';
+import { completeUploadSession } from '@/utils/upload-sessions';
+
+// POST /api/media/uploads/complete?id= - Assemble an upload session's chunks into step media
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const session = await verifyUploadSessionAccess(supabase, new URL(req.url).searchParams.get('id'), user);
+    if (session instanceof NextResponse) return session;
+
+    // The user may have lost access to the step since the session was opened
+    const access = await verifyStepAccess(supabase, session.step_id, user, session.sop_id);
+    if (access instanceof NextResponse) return access;
+
+    const mediaData = await completeUploadSession(supabase, session);
+
+    revalidatePath(`/sop/${session.sop_id}`);
+    revalidatePath(`/sop/${session.sop_id}/edit`);
+
+    return NextResponse.json({
+      media: mediaData,
+      message: 'Media uploaded successfully'
+    });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in POST /api/media/uploads/complete:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in POST /api/media/uploads/complete:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
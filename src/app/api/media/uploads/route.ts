@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { AuthUser, withAuth } from '@/middleware/auth-middleware';
+import { verifyStepAccess, verifyUploadSessionAccess } from '@/utils/step-media-access';
+import { logger } from '@/utils/logger';
+import { isMediaStoreError } from '@/utils/media-store';
+import {
+  abortUploadSession,
+  createUploadSession,
+  getUploadProgress,
+  storeUploadChunk
+} from '@/utils/upload-sessions';
+
+// GET /api/media/uploads?id= - Get an upload session and the chunks received so far
+export const GET = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const session = await verifyUploadSessionAccess(supabase, new URL(req.url).searchParams.get('id'), user);
+    if (session instanceof NextResponse) return session;
+
+    return NextResponse.json({ session: await getUploadProgress(session) });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in GET /api/media/uploads:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in GET /api/media/uploads:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/media/uploads - Open a resumable upload session
+// JSON with stepId, sopId, filename, contentType, size and an optional caption
+export const POST = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { stepId, sopId, filename, contentType, size, caption } = await req.json();
+
+    if (!stepId || !sopId || !filename || !contentType || !size) {
+      return NextResponse.json(
+        { error: 'Missing required fields: stepId, sopId, filename, contentType and size' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const access = await verifyStepAccess(supabase, stepId, user, sopId);
+    if (access instanceof NextResponse) return access;
+
+    const session = await createUploadSession(
+      supabase,
+      { sopId, stepId, userId: user.id },
+      { name: filename, type: contentType, size: Number(size) },
+      caption
+    );
+
+    return NextResponse.json(
+      { session: { ...session, received_chunks: [], received_bytes: 0 } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in POST /api/media/uploads:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in POST /api/media/uploads:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT /api/media/uploads?id=&index= - Upload one chunk; the body is the raw bytes
+export const PUT = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const index = searchParams.get('index');
+
+    if (index === null || index === '') {
+      return NextResponse.json(
+        { error: 'Chunk index is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const session = await verifyUploadSessionAccess(supabase, searchParams.get('id'), user);
+    if (session instanceof NextResponse) return session;
+
+    await storeUploadChunk(session, Number(index), new Uint8Array(await req.arrayBuffer()));
+
+    return NextResponse.json({ received: Number(index) });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in PUT /api/media/uploads:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in PUT /api/media/uploads:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/media/uploads?id= - Cancel an upload session and remove its chunks
+export const DELETE = withAuth(async (req: NextRequest, _res: NextResponse, user: AuthUser) => {
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const session = await verifyUploadSessionAccess(supabase, new URL(req.url).searchParams.get('id'), user);
+    if (session instanceof NextResponse) return session;
+
+    if (session.status === 'completed') {
+      return NextResponse.json(
+        { error: 'This upload session has already completed' },
+        { status: 409 }
+      );
+    }
+
+    await abortUploadSession(supabase, session);
+
+    return NextResponse.json({ message: 'Upload cancelled' });
+  } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in DELETE /api/media/uploads:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('Unexpected error in DELETE /api/media/uploads:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+});
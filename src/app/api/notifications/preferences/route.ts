@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { parseNotificationPreferences } from '@/utils/notification-types';
+import { getNotificationPreferences, saveNotificationPreferences } from '@/utils/notifications';
+import { getNotificationEmailFrequency, saveNotificationEmailFrequency } from '@/utils/notification-email';
+
+/**
+ * GET handler for the notification preferences of the current user: for
+ * each notification type, whether it is delivered on each channel, and
+ * how often emails are sent
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+
+    return NextResponse.json({
+      preferences: await getNotificationPreferences(supabase, userId),
+      email: { frequency: await getNotificationEmailFrequency(supabase, userId) }
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/notifications/preferences', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT handler for switching notification types on or off per channel and
+ * for choosing between emails right away and a daily digest
+ * Body: { preferences?: [{ type: string, channel: string, enabled: boolean }], emailFrequency?: 'immediate' | 'daily' }
+ * Protected by authentication middleware
+ */
+export const PUT = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const { changes, emailFrequency } = parseNotificationPreferences(await req.json().catch(() => ({})));
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+
+    const preferences = changes.length > 0
+      ? await saveNotificationPreferences(supabase, userId, changes)
+      : await getNotificationPreferences(supabase, userId);
+    const frequency = emailFrequency
+      ? await saveNotificationEmailFrequency(supabase, userId, emailFrequency)
+      : await getNotificationEmailFrequency(supabase, userId);
+
+    return NextResponse.json({
+      preferences,
+      email: { frequency },
+      message: 'Notification preferences saved'
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in PUT /api/notifications/preferences', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { countUnreadNotifications, listNotifications, markNotificationsRead } from '@/utils/notifications';
+
+/**
+ * GET handler for the notification center of the current user, newest first
+ * Query: ?unread=true to list unread notifications only, ?limit=N (default 20, max 100)
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(supabase, userId, {
+        unreadOnly: searchParams.get('unread') === 'true',
+        limit: Number(searchParams.get('limit')) || undefined
+      }),
+      countUnreadNotifications(supabase, userId)
+    ]);
+
+    return NextResponse.json({ notifications, unread_count: unreadCount });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/notifications', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH handler for marking notifications as read
+ * Body: { ids: string[] } or { all: true }
+ * Protected by authentication middleware
+ */
+export const PATCH = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const markAll = body.all === true;
+
+    if (!markAll && (!Array.isArray(body.ids) || body.ids.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'ids must be a list of notification IDs, or all must be true' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+
+    const updated = await markNotificationsRead(supabase, userId, markAll ? 'all' : body.ids);
+
+    return NextResponse.json({
+      updated,
+      unread_count: await countUnreadNotifications(supabase, userId)
+    });
+  } catch (error) {
+    logger.error('Unexpected error in PATCH /api/notifications', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { countUnreadNotifications } from '@/utils/notifications';
+
+/**
+ * GET handler for the number of unread notifications of the current user,
+ * polled by the notification bell
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+
+    return NextResponse.json({ unread_count: await countUnreadNotifications(supabase, userId) });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/notifications/unread-count', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
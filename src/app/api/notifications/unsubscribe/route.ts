@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { escapeHtml } from '@/utils/email/templates';
+import { NOTIFICATION_TYPES } from '@/utils/notification-types';
+import {
+  isUnsubscribeScope,
+  unsubscribeNotificationEmails,
+  UnsubscribeScope,
+  verifyUnsubscribeToken
+} from '@/utils/notification-email';
+
+export const dynamic = 'force-dynamic';
+
+type UnsubscribeLink = { userId: string; scope: UnsubscribeScope };
+
+/**
+ * The user and scope of a signed unsubscribe link, or null when the link
+ * is incomplete or was not issued by us
+ */
+function readLink(req: NextRequest): UnsubscribeLink | null {
+  const params = req.nextUrl.searchParams;
+  const userId = params.get('user');
+  const scope = params.get('scope');
+
+  if (!userId || !isUnsubscribeScope(scope) || !verifyUnsubscribeToken(params.get('token'), userId, scope)) {
+    return null;
+  }
+
+  return { userId, scope };
+}
+
+function scopeLabel(scope: UnsubscribeScope): string {
+  return scope === 'all'
+    ? 'all notification emails'
+    : `"${NOTIFICATION_TYPES.find(({ type }) => type === scope)?.label}" emails`;
+}
+
+function page(title: string, body: string, status = 200): NextResponse {
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:48px 24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#0f172a">
+<div style="max-width:480px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:8px;padding:24px">
+<h1 style="margin:0 0 12px;font-size:20px">${escapeHtml(title)}</h1>
+${body}
+</div>
+</body>
+</html>`;
+
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+const INVALID_LINK = '<p>This unsubscribe link is not valid. You can change which emails you get in your notification settings.</p>';
+
+/**
+ * GET handler for the unsubscribe link in notification emails; asks to
+ * confirm, so link scanners of mail providers do not unsubscribe anyone
+ * Public: the link is signed for its user and scope
+ */
+export async function GET(req: NextRequest) {
+  const link = readLink(req);
+  if (!link) {
+    return page('Invalid link', INVALID_LINK, 400);
+  }
+
+  return page('Unsubscribe', `<p>Stop sending ${escapeHtml(scopeLabel(link.scope))} to you?</p>
+<form method="post" action="${escapeHtml(`${req.nextUrl.pathname}${req.nextUrl.search}`)}">
+<button type="submit" style="padding:8px 16px;background:#4f46e5;color:#ffffff;border:0;border-radius:6px;font-size:14px;cursor:pointer">Unsubscribe</button>
+</form>`);
+}
+
+/**
+ * POST handler that unsubscribes: the confirmation form, and one-click
+ * unsubscribe by mail clients (RFC 8058)
+ * Public: the link is signed for its user and scope
+ */
+export async function POST(req: NextRequest) {
+  const link = readLink(req);
+  if (!link) {
+    return page('Invalid link', INVALID_LINK, 400);
+  }
+
+  try {
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    await unsubscribeNotificationEmails(supabase, link.userId, link.scope);
+
+    logger.info('Unsubscribed from notification emails', link);
+    return page('Unsubscribed', `<p>You will no longer get ${escapeHtml(scopeLabel(link.scope))}. You can turn them back on in your notification settings.</p>`);
+  } catch (error) {
+    logger.error('Unexpected error in POST /api/notifications/unsubscribe', { error, userId: link.userId });
+    return page('Something went wrong', '<p>We could not unsubscribe you. Please try again later.</p>', 500);
+  }
+}
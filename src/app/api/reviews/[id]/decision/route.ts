@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { decideReview } from '@/utils/review-workflow';
+import { notifyReviewDecision } from '@/utils/notifications';
+import { emitWebhookEvent } from '@/utils/webhooks';
+
+/**
+ * POST handler for approving or rejecting an SOP under review
+ * Body: { decision: 'approved' | 'rejected', comment?: string }
+ * The decision is written with the admin client because a reviewer does not
+ * own the SOP; decideReview checks that the user is an assigned reviewer
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Review ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await req.json();
+    
+    if (body.decision !== 'approved' && body.decision !== 'rejected') {
+      return NextResponse.json(
+        { error: "decision must be 'approved' or 'rejected'" },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    
+    const { review, approval } = await decideReview(
+      supabase,
+      id,
+      userId,
+      body.decision,
+      typeof body.comment === 'string' ? body.comment : null
+    );
+    
+    logger.info('Review decision recorded', { reviewId: id, userId, decision: body.decision, status: review.status });
+    
+    await notifyReviewDecision(supabase, { review, approval }, userId);
+    
+    if (review.status === 'approved') {
+      await emitWebhookEvent('sop.published', review.sop_id, {}, supabase);
+    }
+    
+    return NextResponse.json({
+      review,
+      approval,
+      message: review.status === 'approved'
+        ? 'Review approved and SOP published'
+        : review.status === 'rejected'
+          ? 'Review rejected and SOP returned to draft'
+          : 'Decision recorded'
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
+    logger.error('Unexpected error in POST /api/reviews/[id]/decision', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getActionableApprovals } from '@/utils/review-workflow';
+import { Approval, SopReview } from '@/types/database.types';
+
+/**
+ * GET handler for the review inbox of the current user
+ * Lists open reviews the user is assigned to, with the SOP under review
+ * and whether it is the user's turn to decide
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('approvals')
+      .select('review_id')
+      .eq('user_id', userId)
+      .eq('status', 'pending');
+    
+    if (assignmentsError) {
+      logger.error('Error fetching review assignments:', { error: assignmentsError, userId });
+      return NextResponse.json(
+        { error: 'Failed to fetch reviews', details: assignmentsError.message },
+        { status: 500 }
+      );
+    }
+    
+    const reviewIds = (assignments || []).map(assignment => assignment.review_id);
+    
+    if (reviewIds.length === 0) {
+      return NextResponse.json({ reviews: [] });
+    }
+    
+    // The SOPs under review belong to other users, so they are read with the admin client
+    const admin = createAdminClient();
+    
+    const { data: reviews, error: reviewsError } = await admin
+      .from('sop_reviews')
+      .select('*, approvals(*), sops(id, title, description, category, status, updated_at, steps(*))')
+      .in('id', reviewIds)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+    
+    if (reviewsError) {
+      logger.error('Error fetching reviews:', { error: reviewsError, userId });
+      return NextResponse.json(
+        { error: 'Failed to fetch reviews', details: reviewsError.message },
+        { status: 500 }
+      );
+    }
+    
+    const inbox = (reviews || []).map((review: SopReview & { approvals: Approval[] }) => ({
+      ...review,
+      can_decide: getActionableApprovals(review, review.approvals).some(approval => approval.user_id === userId)
+    }));
+    
+    return NextResponse.json({ reviews: inbox });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/reviews', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getRun, isSopOwner } from '@/utils/sop-runs';
+
+/**
+ * GET handler for a single run with its checklist
+ * Visible to the operator who started it and to the SOP owner
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Run ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const run = await getRun(supabase, id);
+    
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (run.started_by !== userId) {
+      const { data: sop } = await supabase
+        .from('sops')
+        .select('*')
+        .eq('id', run.sop_id)
+        .single();
+      
+      if (!sop || !isSopOwner(sop, userId)) {
+        return NextResponse.json(
+          { error: 'Run not found' },
+          { status: 404 }
+        );
+      }
+    }
+    
+    return NextResponse.json({
+      run,
+      can_perform: run.started_by === userId && run.status === 'in_progress'
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/runs/[id]', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getRun, signOffRun } from '@/utils/sop-runs';
+import { emitWebhookEvent } from '@/utils/webhooks';
+
+/**
+ * POST handler for closing a run with a signature
+ * Body: { signature_name: string, signature_data: string (PNG data URL), notes?: string }
+ * Only the operator who started the run may sign it off
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Run ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await req.json();
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const run = await getRun(supabase, id);
+    
+    if (!run || run.started_by !== userId) {
+      return NextResponse.json(
+        { error: 'Run not found or you are not performing it' },
+        { status: 404 }
+      );
+    }
+    
+    const completed = await signOffRun(supabase, run, userId, {
+      signatureName: body.signature_name,
+      signatureData: body.signature_data,
+      notes: typeof body.notes === 'string' ? body.notes : null
+    });
+    
+    logger.info('SOP run signed off', { runId: id, sopId: run.sop_id, userId });
+    
+    // The signature image stays out of the payload
+    await emitWebhookEvent('run.completed', run.sop_id, { run: { ...completed, signature_data: undefined } }, supabase);
+    
+    return NextResponse.json({
+      run: completed,
+      message: 'Run signed off'
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
+    logger.error('Unexpected error in POST /api/runs/[id]/sign-off', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getMediaStore, isMediaStoreError } from '@/utils/media-store';
+import { completeRunStep, getRun, StepResponseInput, storeRunStepPhoto } from '@/utils/sop-runs';
+import { readUploadedFile, removeMediaFiles } from '@/utils/step-media';
+
+/**
+ * PATCH handler for completing a step of a run
+ * Accepts JSON ({ response_value }) or, for photo evidence, multipart form
+ * data with a `photo` file and optional `response_value`
+ * Only the operator who started the run may complete its steps
+ * Protected by authentication middleware
+ */
+export const PATCH = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string; position: string } }) => {
+  try {
+    const { id } = params;
+    const position = parseInt(params.position, 10);
+    
+    if (!id || isNaN(position)) {
+      return NextResponse.json(
+        { error: 'Run ID and a numeric step position are required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    const run = await getRun(supabase, id);
+    
+    if (!run || run.started_by !== userId) {
+      return NextResponse.json(
+        { error: 'Run not found or you are not performing it' },
+        { status: 404 }
+      );
+    }
+    
+    let input: StepResponseInput;
+    
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData();
+      const photo = formData.get('photo');
+      
+      if (!(photo instanceof File)) {
+        return NextResponse.json(
+          { error: 'An image file is required' },
+          { status: 400 }
+        );
+      }
+      
+      // Checked, screened and stored like step media
+      const responseValue = formData.get('response_value');
+      input = {
+        photo: await storeRunStepPhoto(supabase, run, userId, await readUploadedFile(photo)),
+        response_value: typeof responseValue === 'string' ? responseValue : null
+      };
+    } else {
+      const body = await req.json();
+      input = { response_value: body.response_value ?? null };
+    }
+    
+    let step;
+    try {
+      step = await completeRunStep(supabase, run, position, userId, input);
+    } catch (error) {
+      // Don't leave a photo behind that no step points to
+      if (input.photo) {
+        await removeMediaFiles(getMediaStore(), input.photo.keys);
+      }
+      throw error;
+    }
+    
+    return NextResponse.json({ step });
+  } catch (error) {
+    if (error instanceof ApiError || isMediaStoreError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
+    logger.error('Unexpected error in PATCH /api/runs/[id]/steps/[position]', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { authorizeShareRequest } from '@/utils/share-access';
 
 export async function GET(
   request: NextRequest,
@@ -24,7 +25,7 @@ export async function GET(
     // Find the shared SOP record
     const { data: sharedSOP, error: sharedSOPError } = await supabase
       .from('shared_sops')
-      .select('id, sop_id, created_at')
+      .select('id, sop_id, created_at, settings, revoked_at')
       .eq('id', id)
       .single();
 
@@ -32,6 +33,12 @@ export async function GET(
       return NextResponse.json({ error: 'Shared SOP not found' }, { status: 404 });
     }
 
+    // Same access rules as /api/shared/[id]
+    const denial = await authorizeShareRequest(request, id, { ...sharedSOP.settings, revokedAt: sharedSOP.revoked_at });
+    if (denial) {
+      return NextResponse.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
     // Get the SOP details
     const { data: sop, error: sopError } = await supabase
       .from('sops')
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { v4 as uuidv4 } from 'uuid';
 import { authAdmin } from '@/utils/firebase-admin';
+import { buildPublishSettings, PublishSettings } from '@/utils/share-access';
+import { createShareLink } from '@/utils/share-links';
 
+/**
+ * POST /api/shared-sop - Create a share link for an SOP
+ * Body: { sopId: string, label?: string, publishSettings?: object, versionNumber?: number }
+ */
 export async function POST(request: NextRequest) {
   try {
     // Validate authentication
@@ -25,7 +30,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { sopId } = body;
+    const { sopId, label, versionNumber } = body;
 
     if (!sopId) {
       return NextResponse.json(
@@ -68,22 +73,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a unique ID for the shared SOP
-    const shareId = uuidv4();
-
-    // Create shared SOP record
-    const { data: sharedSOP, error: createError } = await supabase
-      .from('shared_sops')
-      .insert({
-        id: shareId,
-        sop_id: sopId,
-        created_at: new Date().toISOString(),
-        created_by: userId
-      })
-      .select()
-      .single();
+    // The share password is stored hashed
+    let settings: PublishSettings;
+    try {
+      settings = buildPublishSettings(body.publishSettings || {});
+    } catch (settingsError) {
+      return NextResponse.json(
+        { error: settingsError instanceof Error ? settingsError.message : 'Invalid publish settings' },
+        { status: 400 }
+      );
+    }
 
-    if (createError) {
+    let shareId;
+    try {
+      const sharedSOP = await createShareLink(supabase, sopId, userId, {
+        label,
+        settings,
+        versionNumber: versionNumber ?? null
+      });
+      shareId = sharedSOP.id;
+    } catch (createError) {
       console.error('Error creating shared SOP:', createError);
       return NextResponse.json(
         { error: 'Failed to create shared SOP' },
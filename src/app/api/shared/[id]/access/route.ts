@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import {
+  authorizeShareRequest,
+  createShareAccessToken,
+  SHARE_ACCESS_TTL_SECONDS,
+  shareAccessCookieName,
+  verifySharePassword
+} from '@/utils/share-access';
+import { resolveShareTarget } from '@/utils/share-links';
+
+/**
+ * POST /api/shared/[id]/access - Unlock a password-protected shared SOP
+ * Body: { password: string }
+ * Sets a short-lived, HTTP-only access cookie for this share link
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
+
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
+
+    if (!target) {
+      return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
+    }
+
+    const settings = target.settings;
+
+    if (!settings.passwordHash) {
+      return Response.json({ error: 'This SOP is not password protected' }, { status: 400 });
+    }
+
+    // A password does not unlock a revoked or expired link, or skip the sign-in requirement
+    const denial = await authorizeShareRequest(req, shareId, { ...settings, passwordHash: null });
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
+    // Parse request body
+    const body = await req.json();
+
+    if (typeof body.password !== 'string' || !verifySharePassword(body.password, settings.passwordHash)) {
+      return Response.json({ error: 'Incorrect password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(shareAccessCookieName(shareId), createShareAccessToken(shareId, settings.passwordHash), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: `/api/shared/${shareId}`,
+      maxAge: SHARE_ACCESS_TTL_SECONDS
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Unhandled error in share access API:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return Response.json({
+      error: `Server error: ${errorMessage}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AIQuotaExceededError } from '../../../../../utils/ai/errors';
+
+const startAIMeter = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+
+// Nothing asked from this address yet
+jest.mock('../../../../../utils/server/supabase-server', () => ({
+  createServerSupabaseClient: () => ({
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        gt: () => query,
+        order: () => query,
+        limit: async () => ({ data: [], error: null }),
+        insert: async () => ({ error: null })
+      };
+      return query;
+    }
+  })
+}));
+
+jest.mock('../../../../../utils/share-links', () => ({
+  resolveShareTarget: async () => ({
+    link: null,
+    sop: { id: 'sop-1', created_by: 'owner-1' },
+    settings: { allowQuestions: true }
+  }),
+  loadSharedContent: async () => ({ sop: { title: 'Wheel change' }, steps: [], equipment: [] })
+}));
+
+jest.mock('../../../../../utils/share-access', () => ({
+  authorizeShareRequest: async () => null
+}));
+
+jest.mock('../../../../../utils/ai', () => ({
+  ...jest.requireActual<typeof import('../../../../../utils/ai')>('../../../../../utils/ai'),
+  startAIMeter: (...args: unknown[]) => startAIMeter(...args)
+}));
+
+const request = (body: unknown) => new NextRequest('http://localhost/api/shared/sop-1/ask', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': '203.0.113.7' },
+  body: JSON.stringify(body)
+});
+
+describe('POST /api/shared/[id]/ask', () => {
+  let POST: typeof import('./route').POST;
+  const context = { params: { id: 'sop-1' } };
+
+  // Loaded after the mocks above are registered
+  beforeAll(async () => {
+    ({ POST } = await import('./route'));
+  });
+
+  beforeEach(() => {
+    startAIMeter.mockReset();
+  });
+
+  it("answers 429 with Retry-After when the owner's quota is used up", async () => {
+    startAIMeter.mockRejectedValue(new AIQuotaExceededError('Daily AI quota reached', 3600));
+
+    const response = await POST(request({ question: 'What torque?' }), context);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3600');
+  });
+
+  it('rejects a history with entries that are not turns', async () => {
+    const response = await POST(request({ question: 'What torque?', history: [null] }), context);
+
+    expect(response.status).toBe(400);
+    expect(startAIMeter).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import { aiErrorHeaders, isAIError, startAIMeter } from '@/utils/ai';
+import { ApiError } from '@/utils/api-errors';
+import { authorizeShareRequest } from '@/utils/share-access';
+import { loadSharedContent, resolveShareTarget } from '@/utils/share-links';
+import { clientIpHash } from '@/utils/sop-comments';
+import {
+  answerSopQuestion,
+  checkQuestionRateLimit,
+  MAX_QUESTION_LENGTH,
+  parseQAHistory,
+  questionRateLimit,
+  recordSharedQuestion
+} from '@/utils/sop-qa';
+
+/**
+ * POST /api/shared/[id]/ask - Answer a question about a published SOP
+ * Body: { question: string, history?: { role: 'user' | 'assistant', content: string }[] }
+ * Answers come only from the SOP and cite the steps they are based on.
+ * Only available when the owner enabled questions in the publish settings;
+ * usage is charged to the owner's AI quota, so each IP address is limited
+ * to SHARED_QUESTION_RATE_LIMIT_PER_HOUR questions.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
+
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
+
+    if (!target) {
+      return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
+    }
+
+    const denial = await authorizeShareRequest(req, shareId, target.settings);
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
+    // Check if questions are allowed
+    if (!target.settings.allowQuestions) {
+      return Response.json({ error: 'Questions are not enabled for this SOP' }, { status: 403 });
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
+
+    if (!question) {
+      return Response.json({ error: 'Question is required' }, { status: 400 });
+    }
+
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return Response.json({ error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters` }, { status: 400 });
+    }
+
+    const history = parseQAHistory(body.history);
+
+    const ipHash = clientIpHash(req.headers);
+    const retryAfter = await checkQuestionRateLimit(supabase, ipHash, questionRateLimit());
+    if (retryAfter > 0) {
+      return Response.json(
+        { error: 'You are asking questions too quickly. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    // Counted before answering, so failed answers count too
+    await recordSharedQuestion(supabase, target.sop.id, ipHash);
+
+    // Answer from what the link shows, so pinned links answer from their version
+    const content = await loadSharedContent(supabase, target);
+
+    // The owner enabled the assistant, so questions count against their quota
+    const meter = await startAIMeter(supabase, target.sop.created_by);
+
+    const result = await answerSopQuestion(content, question, history, meter);
+
+    return Response.json(result);
+  } catch (error) {
+    // AI errors are ApiErrors too; checked first so quota errors keep Retry-After
+    if (isAIError(error)) {
+      return Response.json(
+        { error: error.message },
+        { status: error.statusCode, headers: aiErrorHeaders(error) }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return Response.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error('Unhandled error in ask API:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return Response.json({
+      error: `Server error: ${errorMessage}`
+    }, { status: 500 });
+  }
+}
@@ -1,137 +1,193 @@
 import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient, type User } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import { authorizeShareRequest } from '@/utils/share-access';
+import { resolveShareTarget } from '@/utils/share-links';
+import { ApiError, UnauthorizedError } from '@/utils/api-errors';
+import { SopComment } from '@/types/database.types';
+import { notifyCommentPending } from '@/utils/notifications';
+import { emitWebhookEvent } from '@/utils/webhooks';
+import {
+  checkCommentRateLimit,
+  clientIpHash,
+  commentFilterConfig,
+  parseCommentInput,
+  publicComment,
+  resolveThreadRoot,
+  screenComment,
+  threadComments
+} from '@/utils/sop-comments';
 
 /**
- * POST /api/shared/[id]/comments - Add a comment to a published SOP
+ * The signed-in visitor, if any
+ */
+async function getViewer(): Promise<User | null> {
+  const { data: { session } } = await createRouteHandlerClient({ cookies }).auth.getSession();
+  return session?.user ?? null;
+}
+
+/**
+ * POST /api/shared/[id]/comments - Add a comment, or a reply when `parentId`
+ * is set, to a published SOP
+ * Body: { comment: string, author?: string, parentId?: string }
+ * Replies need a signed-in visitor. Comments wait for the owner's approval
+ * unless the owner posts them; comments caught by the spam filter are held
+ * as spam.
  */
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
-  console.log(`Comment API called for SOP ID: ${params.id}`);
-  
+  console.log(`Comment API called for share ID: ${params.id}`);
+
   try {
-    const supabase = createServerSupabaseClient();
-    const sopId = params.id;
-    
-    // Check if the SOP exists and is published
-    const { data: sopData, error: sopError } = await supabase
-      .from('sops')
-      .select('*, publish_settings')
-      .eq('id', sopId)
-      .eq('is_published', true)
-      .single();
-    
-    if (sopError) {
-      console.error('Error fetching SOP:', sopError);
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
+
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
+
+    if (!target) {
       return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
     }
-    
+
+    const sopData = target.sop;
+    const sopId = sopData.id;
+
+    // Comments follow the same access rules as the SOP itself
+    const denial = await authorizeShareRequest(req, shareId, target.settings);
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
     // Check if comments are allowed
-    if (!sopData.publish_settings || !sopData.publish_settings.allowComments) {
+    if (!target.settings.allowComments) {
       return Response.json({ error: 'Comments are not allowed for this SOP' }, { status: 403 });
     }
-    
-    // Parse request body
-    const body = await req.json();
-    
-    if (!body.comment || typeof body.comment !== 'string' || body.comment.trim() === '') {
-      return Response.json({ error: 'Comment text is required' }, { status: 400 });
+
+    const input = parseCommentInput(await req.json().catch(() => null));
+    const viewer = await getViewer();
+    const isOwner = !!viewer && viewer.id === sopData.created_by;
+
+    if (input.parentId && !viewer) {
+      throw new UnauthorizedError('Sign in to reply to comments');
     }
-    
-    // Simple profanity check (can be expanded)
-    const profanityList = ['badword1', 'badword2'];
-    const hasProfanity = profanityList.some(word => 
-      body.comment.toLowerCase().includes(word.toLowerCase())
-    );
-    
-    if (hasProfanity) {
-      return Response.json({ error: 'Comment contains inappropriate language' }, { status: 400 });
+
+    const parent = input.parentId ? await resolveThreadRoot(supabase, sopId, input.parentId) : null;
+    if (parent && parent.status !== 'approved') {
+      return Response.json({ error: 'The comment you are replying to does not exist' }, { status: 404 });
     }
-    
-    // Add the comment to the database
+
+    // The owner is neither rate limited nor screened
+    const config = commentFilterConfig();
+    const ipHash = clientIpHash(req.headers);
+
+    if (!isOwner) {
+      const retryAfter = await checkCommentRateLimit(supabase, ipHash, config.ratePerHour);
+      if (retryAfter > 0) {
+        return Response.json(
+          { error: 'You are commenting too quickly. Please try again later.' },
+          { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+        );
+      }
+    }
+
+    const check = isOwner ? { score: 0, reasons: [], spam: false } : screenComment(input.content, config);
+    const now = new Date().toISOString();
+
     const { data: comment, error: commentError } = await supabase
       .from('sop_comments')
       .insert({
         sop_id: sopId,
-        content: body.comment.trim(),
-        author_name: body.author || 'Anonymous',
-        created_at: new Date().toISOString(),
-        status: 'pending' // Comments are pending approval by default
+        shared_sop_id: target.link?.id ?? null,
+        parent_id: parent?.id ?? null,
+        content: input.content,
+        author_name: input.authorName
+          || viewer?.user_metadata?.name
+          || viewer?.email?.split('@')[0]
+          || 'Anonymous',
+        author_id: viewer?.id ?? null,
+        is_owner_reply: isOwner,
+        status: isOwner ? 'approved' : check.spam ? 'spam' : 'pending',
+        spam_score: check.score,
+        spam_reasons: check.reasons,
+        ip_hash: ipHash,
+        created_at: now
       })
       .select()
       .single();
-    
+
     if (commentError) {
       console.error('Error saving comment:', commentError);
       return Response.json({ error: 'Failed to save comment' }, { status: 500 });
     }
-    
-    // Notify the SOP owner about the new comment (implementation would depend on your notification system)
-    try {
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: sopData.created_by,
-          type: 'new_comment',
-          content: `New comment on your SOP: "${sopData.title}"`,
-          resource_id: sopId,
-          resource_type: 'sop',
-          data: { comment_id: comment.id },
-          created_at: new Date().toISOString(),
-          is_read: false
-        });
-    } catch (notificationError) {
-      // Don't fail if notification creation fails
-      console.warn('Failed to create notification:', notificationError);
+
+    // Let the owner know there is something to moderate
+    if (comment.status === 'pending') {
+      await notifyCommentPending(supabase, sopData, comment as SopComment);
+    }
+    // Subscribers only hear about comments once they are public
+    if (comment.status === 'approved') {
+      await emitWebhookEvent('comment.created', sopId, { comment: publicComment(comment as SopComment) });
     }
-    
-    return Response.json({ 
+
+    // Held spam is reported as pending so spammers learn nothing from the response
+    return Response.json({
       success: true,
-      message: 'Comment submitted successfully and is pending approval',
+      message: comment.status === 'approved'
+        ? 'Comment posted'
+        : 'Comment submitted successfully and is pending approval',
       comment: {
-        id: comment.id,
-        content: comment.content,
-        author_name: comment.author_name,
-        created_at: comment.created_at,
-        status: comment.status
+        ...publicComment(comment as SopComment),
+        status: comment.status === 'spam' ? 'pending' : comment.status
       }
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return Response.json({ error: error.message }, { status: error.statusCode });
+    }
+
     console.error('Unhandled error in comments API:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    return Response.json({ 
+
+    return Response.json({
       error: `Server error: ${errorMessage}`
     }, { status: 500 });
   }
 }
 
 /**
- * GET /api/shared/[id]/comments - Get all approved comments for a published SOP
+ * GET /api/shared/[id]/comments - Get the approved comments of a published
+ * SOP, newest thread first, with their replies
+ * `viewer` tells the page whether the visitor may reply.
  */
 export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
-  console.log(`Get comments API called for SOP ID: ${params.id}`);
-  
+  console.log(`Get comments API called for share ID: ${params.id}`);
+
   try {
-    const supabase = createServerSupabaseClient();
-    const sopId = params.id;
-    
-    // Check if the SOP exists and is published
-    const { data: sopData, error: sopError } = await supabase
-      .from('sops')
-      .select('*, publish_settings')
-      .eq('id', sopId)
-      .eq('is_published', true)
-      .single();
-    
-    if (sopError) {
-      console.error('Error fetching SOP:', sopError);
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
+
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
+
+    if (!target) {
       return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
     }
-    
+
+    const sopData = target.sop;
+    const sopId = sopData.id;
+
+    // Comments follow the same access rules as the SOP itself
+    const denial = await authorizeShareRequest(req, shareId, target.settings);
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
     // Check if comments are allowed
-    if (!sopData.publish_settings || !sopData.publish_settings.allowComments) {
+    if (!target.settings.allowComments) {
       return Response.json({ error: 'Comments are not allowed for this SOP' }, { status: 403 });
     }
-    
+
     // Get all approved comments
     const { data: comments, error: commentsError } = await supabase
       .from('sop_comments')
@@ -139,21 +195,30 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
       .eq('sop_id', sopId)
       .eq('status', 'approved')
       .order('created_at', { ascending: false });
-    
+
     if (commentsError) {
       console.error('Error fetching comments:', commentsError);
       return Response.json({ error: 'Failed to load comments' }, { status: 500 });
     }
-    
-    return Response.json({ 
-      comments: comments || []
+
+    const viewer = await getViewer();
+
+    return Response.json({
+      comments: threadComments((comments || []) as SopComment[]).map(thread => ({
+        ...publicComment(thread),
+        replies: thread.replies.map(publicComment)
+      })),
+      viewer: {
+        signedIn: !!viewer,
+        isOwner: !!viewer && viewer.id === sopData.created_by
+      }
     });
   } catch (error) {
     console.error('Unhandled error in comments API:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    return Response.json({ 
+
+    return Response.json({
       error: `Server error: ${errorMessage}`
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
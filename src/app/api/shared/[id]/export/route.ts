@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import { exportFilename, loadSopExportData } from '@/utils/export/sop-export-data';
+import { renderSopPdf } from '@/utils/export/sop-pdf';
+import { authorizeShareRequest } from '@/utils/share-access';
+import { resolveShareTarget } from '@/utils/share-links';
+
+/**
+ * GET /api/shared/[id]/export - Download a published SOP as a PDF
+ * Pinned links download their version, other links the latest published
+ * version. Only available when the owner allowed downloads in the publish
+ * settings.
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
+
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
+
+    if (!target) {
+      return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
+    }
+
+    const denial = await authorizeShareRequest(req, shareId, target.settings);
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
+    }
+
+    // Downloads are on unless the owner turned them off
+    if (target.settings.allowDownload === false) {
+      return Response.json({ error: 'Downloads are not enabled for this SOP' }, { status: 403 });
+    }
+
+    const data = await loadSopExportData(supabase, target.sop.id, { versionNumber: target.link?.version_number ?? null });
+
+    // Viewers get what was published or pinned, never the working copy
+    if (!data || (!data.controlled && target.link?.version_number == null)) {
+      return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
+    }
+
+    const body = await renderSopPdf(data);
+
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${exportFilename(data.sop.title, 'pdf')}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Unhandled error in shared export API:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return Response.json({
+      error: `Server error: ${errorMessage}`
+    }, { status: 500 });
+  }
+}
@@ -1,89 +1,84 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import { authorizeShareRequest, publicPublishSettings } from '@/utils/share-access';
+import { loadSharedContent, recordShareView, resolveShareTarget } from '@/utils/share-links';
+
+const VISITOR_COOKIE = 'sop_visitor';
 
 /**
- * GET /api/shared/[id] - Get a published SOP by ID
+ * GET /api/shared/[id] - Get a published SOP by share link ID
+ * The ID is a share link, or the SOP ID for links published before share
+ * links existed. Enforces the link's settings: revoked and expired links
+ * return 410, `requireAuth` and password-protected links return 401 with a
+ * `reason` the shared page uses to ask for sign-in or the password.
+ * Share link views are counted; `view_id` is used to report scroll depth.
  */
 export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
-  console.log(`Shared SOP API called for SOP ID: ${params.id}`);
+  console.log(`Shared SOP API called for share ID: ${params.id}`);
   
   try {
-    const supabase = createServerSupabaseClient();
-    const sopId = params.id;
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const shareId = params.id;
     
-    // Check if the SOP exists and is published
-    const { data: sopData, error: sopError } = await supabase
-      .from('sops')
-      .select('*')
-      .eq('id', sopId)
-      .eq('is_published', true)
-      .single();
+    // Check if the link exists and its SOP is published
+    const target = await resolveShareTarget(supabase, shareId);
     
-    if (sopError) {
-      console.error('Error fetching SOP:', sopError);
+    if (!target) {
       return Response.json({ error: 'SOP not found or not published' }, { status: 404 });
     }
     
-    // Get the steps for this SOP
-    const { data: steps, error: stepsError } = await supabase
-      .from('steps')
-      .select('*')
-      .eq('sop_id', sopId)
-      .order('order_index', { ascending: true });
-    
-    if (stepsError) {
-      console.error('Error fetching steps:', stepsError);
-      return Response.json({ error: 'Error loading SOP steps' }, { status: 500 });
+    // Check the viewer against the link's publish settings
+    const denial = await authorizeShareRequest(req, shareId, target.settings);
+    if (denial) {
+      return Response.json({ error: denial.error, reason: denial.reason }, { status: denial.status });
     }
     
-    // Get media for all steps
-    const stepIds = steps.map(step => step.id);
+    // Pinned links serve their version, other links the current steps
+    const content = await loadSharedContent(supabase, target);
     
-    let media = [];
-    if (stepIds.length > 0) {
-      const { data: mediaData, error: mediaError } = await supabase
-        .from('media')
-        .select('*')
-        .in('step_id', stepIds);
-      
-      if (mediaError) {
-        console.error('Error fetching media:', mediaError);
-        // Continue without media rather than failing
-      } else {
-        media = mediaData || [];
-      }
-    }
-    
-    // Associate media with steps
-    const stepsWithMedia = steps.map(step => {
-      const stepMedia = media.filter(m => m.step_id === step.id);
-      return {
-        ...step,
-        media: stepMedia
-      };
-    });
+    const visitorId = req.cookies.get(VISITOR_COOKIE)?.value || randomUUID();
+    let viewId: string | null = null;
     
     // Track this view in analytics (optional)
     try {
-      await supabase
-        .from('sop_views')
-        .insert({
-          sop_id: sopId,
-          timestamp: new Date().toISOString(),
-          metadata: {
-            referer: req.headers.get('referer') || null,
-            user_agent: req.headers.get('user-agent') || null
-          }
-        });
+      if (target.link) {
+        viewId = await recordShareView(supabase, target.link, visitorId);
+      } else {
+        await supabase
+          .from('sop_views')
+          .insert({
+            sop_id: target.sop.id,
+            timestamp: new Date().toISOString(),
+            metadata: {
+              referer: req.headers.get('referer') || null,
+              user_agent: req.headers.get('user-agent') || null
+            }
+          });
+      }
     } catch (analyticsError) {
       // Don't fail the request if analytics tracking fails
       console.warn('Failed to track SOP view:', analyticsError);
     }
     
-    return Response.json({ 
-      sop: sopData,
-      steps: stepsWithMedia 
+    const response = NextResponse.json({ 
+      sop: { ...target.sop, ...content.sop, publish_settings: publicPublishSettings(target.settings) },
+      steps: content.steps,
+      link: target.link ? { id: target.link.id, label: target.link.label, version_number: content.version_number } : null,
+      view_id: viewId
     });
+    
+    // Anonymous visitor ID, only used to count unique visitors of share links
+    response.cookies.set(VISITOR_COOKIE, visitorId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/shared',
+      maxAge: 365 * 24 * 60 * 60
+    });
+    
+    return response;
   } catch (error) {
     console.error('Unhandled error in shared SOP API:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -92,4 +87,4 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
       error: `Server error: ${errorMessage}`
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/utils/server/supabase-server';
+import { recordShareDepth } from '@/utils/share-links';
+
+/**
+ * POST /api/shared/[id]/views - Report how far a viewer scrolled
+ * Body: { view_id: string, step: number }
+ * `view_id` comes from GET /api/shared/[id]; `step` is the 1-based furthest
+ * step reached. Sent by the shared page as the viewer scrolls.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+
+    // Parse request body
+    const body = await req.json();
+    const step = Number(body.step);
+
+    if (typeof body.view_id !== 'string' || !body.view_id) {
+      return Response.json({ error: 'view_id is required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(step) || step < 1 || step > 1000) {
+      return Response.json({ error: 'step must be a positive step number' }, { status: 400 });
+    }
+
+    await recordShareDepth(supabase, params.id, body.view_id, step);
+
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error('Unhandled error in share views API:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return Response.json({
+      error: `Server error: ${errorMessage}`
+    }, { status: 500 });
+  }
+}
@@ -6,6 +6,9 @@ import {
   suggestMediaForStep,
   processAudioTranscript
 } from '@/utils/sop-ai-service';
+import { aiErrorHeaders, isAIError, startAIMeter } from '@/utils/ai';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
 
 /**
  * POST /api/sop-wizard - Generate a complete SOP from a description
@@ -34,6 +37,9 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { operation } = body;
     
+    // Every operation calls the AI provider, so check the quota up front
+    const meter = await startAIMeter(createAdminClient() as unknown as SupabaseClient, session.user.id);
+    
     switch (operation) {
       case 'generate-sop': {
         const { title, description, category, stakeholders, definitions } = body;
@@ -48,12 +54,14 @@ export async function POST(req: NextRequest) {
             description, 
             category,
             stakeholders || '',
-            definitions || ''
+            definitions || '',
+            meter
           );
           
           return NextResponse.json(result);
         } catch (error) {
           console.error('Error generating SOP:', error);
+          if (isAIError(error)) throw error;
           return NextResponse.json({ error: 'Failed to generate SOP steps' }, { status: 500 });
         }
       }
@@ -70,7 +78,8 @@ export async function POST(req: NextRequest) {
         const enhancedInstruction = await enhanceStepInstructions(
           instruction, 
           stepNumber, 
-          sopTitle
+          sopTitle,
+          meter
         );
         
         return NextResponse.json({ instruction: enhancedInstruction });
@@ -88,7 +97,8 @@ export async function POST(req: NextRequest) {
         const mediaSuggestion = await suggestMediaForStep(
           instruction, 
           stepNumber, 
-          sopTitle
+          sopTitle,
+          meter
         );
         
         return NextResponse.json({ suggestion: mediaSuggestion });
@@ -103,7 +113,7 @@ export async function POST(req: NextRequest) {
           }, { status: 400 });
         }
         
-        const processedData = await processAudioTranscript(transcript);
+        const processedData = await processAudioTranscript(transcript, meter);
         return NextResponse.json(processedData);
       }
       
@@ -112,6 +122,9 @@ export async function POST(req: NextRequest) {
     }
   } catch (error) {
     console.error('Error in SOP wizard API:', error);
+    if (isAIError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode, headers: aiErrorHeaders(error) });
+    }
     return NextResponse.json({ error: 'Server error' }, { status: 500 });
   }
 } 
\ No newline at end of file
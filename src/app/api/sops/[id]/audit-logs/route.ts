@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+
+/**
+ * GET handler for the audit log of a specific SOP
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const { data: logs, error } = await supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('entity_type', 'sop')
+      .eq('entity_id', id)
+      .order('created_at', { ascending: false })
+      .limit(100);
+    
+    if (error) {
+      logger.error('Error fetching audit logs:', { error, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to fetch audit logs', details: error.message },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json({
+      logs,
+      sop_id: id
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/audit-logs', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
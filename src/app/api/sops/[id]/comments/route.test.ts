@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { SopComment } from '@/types/database.types';
+
+const moderateComments = jest.fn<(...args: unknown[]) => Promise<SopComment[]>>();
+const createOwnerReply = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const emitWebhookEvent = jest.fn<(...args: unknown[]) => Promise<number>>();
+
+jest.mock('next/headers', () => ({
+  cookies: () => ({ get: () => undefined })
+}));
+
+// A signed-in owner; every lookup finds the SOP
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createRouteHandlerClient: () => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      single: async () => ({ data: { id: 'sop-1' }, error: null })
+    };
+    return {
+      auth: {
+        getSession: async () => ({ data: { session: { user: { id: 'user-1' } } }, error: null }),
+        getUser: async () => ({ data: { user: { id: 'user-1', email: 'owner@example.com' } } })
+      },
+      from: () => query
+    };
+  }
+}));
+
+jest.mock('../../../../../utils/sop-comments', () => ({
+  ...jest.requireActual<typeof import('../../../../../utils/sop-comments')>('../../../../../utils/sop-comments'),
+  moderateComments: (...args: unknown[]) => moderateComments(...args),
+  createOwnerReply: (...args: unknown[]) => createOwnerReply(...args)
+}));
+
+jest.mock('../../../../../utils/webhooks', () => ({
+  emitWebhookEvent: (...args: unknown[]) => emitWebhookEvent(...args)
+}));
+
+jest.mock('../../../../../utils/audit-log', () => ({
+  recordAuditLog: async () => {}
+}));
+
+const comment = (id: string, status: SopComment['status']): SopComment => ({
+  id,
+  sop_id: 'sop-1',
+  parent_id: null,
+  content: 'Step 3 needs gloves',
+  author_name: 'Sam',
+  author_id: null,
+  is_owner_reply: false,
+  status,
+  spam_score: 0,
+  spam_reasons: [],
+  created_at: '2026-03-01T12:00:00.000Z',
+  updated_at: '2026-03-01T12:00:00.000Z'
+});
+
+const request = (method: string, body: unknown) => new NextRequest('http://localhost/api/sops/sop-1/comments', {
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+const emittedIds = () => emitWebhookEvent.mock.calls.map(([event, , data]) => {
+  expect(event).toBe('comment.created');
+  return (data as { comment: { id: string } }).comment.id;
+});
+
+describe('/api/sops/[id]/comments', () => {
+  let route: typeof import('./route');
+  const context = { params: { id: 'sop-1' } };
+
+  // Loaded after the mocks above are registered
+  beforeAll(async () => {
+    route = await import('./route');
+  });
+
+  beforeEach(() => {
+    moderateComments.mockReset();
+    createOwnerReply.mockReset();
+    emitWebhookEvent.mockReset();
+  });
+
+  it('sends comment.created for the comments an approval made public', async () => {
+    moderateComments.mockResolvedValue([comment('c-1', 'approved'), comment('c-2', 'approved')]);
+
+    const response = await route.PATCH(request('PATCH', { ids: ['c-1', 'c-2', 'c-3'], status: 'approved' }), context);
+
+    expect(response.status).toBe(200);
+    expect(emittedIds()).toEqual(['c-1', 'c-2']);
+  });
+
+  it('sends nothing when comments are rejected or marked as spam', async () => {
+    moderateComments.mockResolvedValue([comment('c-1', 'rejected')]);
+
+    await route.PATCH(request('PATCH', { ids: ['c-1'], status: 'rejected' }), context);
+
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('sends the comment a reply approved along with the reply', async () => {
+    const reply = { ...comment('r-1', 'approved'), parent_id: 'c-1', is_owner_reply: true };
+    createOwnerReply.mockResolvedValue({ reply, approved: comment('c-1', 'approved') });
+
+    const response = await route.POST(request('POST', { parentId: 'c-1', comment: 'Added to the checklist' }), context);
+
+    expect(response.status).toBe(201);
+    expect(emittedIds()).toEqual(['c-1', 'r-1']);
+  });
+});
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { recordAuditLog } from '@/utils/audit-log';
+import { SopComment, SopCommentStatus } from '@/types/database.types';
+import { emitWebhookEvent } from '@/utils/webhooks';
+import {
+  buildModerationQueue,
+  createOwnerReply,
+  listSopComments,
+  moderateComments,
+  parseCommentInput,
+  publicComment
+} from '@/utils/sop-comments';
+
+/**
+ * API route handlers for the comment moderation inbox of a specific SOP
+ */
+
+const QUEUE_STATUSES: SopCommentStatus[] = ['pending', 'approved', 'rejected', 'spam'];
+
+/**
+ * Tell webhook subscribers about comments that just became public
+ */
+async function emitCommentsApproved(sopId: string, comments: SopComment[]): Promise<void> {
+  for (const comment of comments) {
+    await emitWebhookEvent('comment.created', sopId, { comment: publicComment(comment) });
+  }
+}
+
+/**
+ * Verify the SOP exists and belongs to the user
+ * Returns an error response to send back, or null when access is granted
+ */
+async function verifySopOwnership(supabase: SupabaseClient, id: string, userId: string): Promise<NextResponse | null> {
+  const { error: sopError } = await supabase
+    .from('sops')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (!sopError) {
+    return null;
+  }
+
+  if (sopError.code === 'PGRST116') {
+    return NextResponse.json(
+      { error: 'SOP not found or you do not have permission to access it' },
+      { status: 404 }
+    );
+  }
+
+  logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+  return NextResponse.json(
+    { error: 'Failed to verify SOP access', details: sopError.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET handler for the comments of an SOP in one moderation status
+ * Query: ?status=pending|approved|rejected|spam (default pending)
+ * Returns the comments, newest first, and the number of comments per status
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const status = (new URL(req.url).searchParams.get('status') || 'pending') as SopCommentStatus;
+
+    if (!QUEUE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${QUEUE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const queue = buildModerationQueue(await listSopComments(supabase, id), status);
+
+    return NextResponse.json({ ...queue, status });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH handler for approving, rejecting or marking comments as spam
+ * Body: { ids: string[], status: 'approved' | 'rejected' | 'spam' }
+ * Protected by authentication middleware
+ */
+export const PATCH = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (!Array.isArray(body.ids)) {
+      return NextResponse.json(
+        { error: 'ids must be a list of comment IDs' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const comments = await moderateComments(supabase, id, body.ids, body.status, userId);
+
+    await recordAuditLog(supabase, {
+      entity_type: 'sop',
+      entity_id: id,
+      action: 'moderate',
+      user_id: userId,
+      changes: { status: body.status },
+      metadata: {
+        description: `Marked ${comments.length} comment(s) as ${body.status}`,
+        comment_ids: comments.map(comment => comment.id)
+      }
+    });
+
+    if (body.status === 'approved') {
+      await emitCommentsApproved(id, comments);
+    }
+
+    return NextResponse.json({
+      comments,
+      message: `${comments.length} comment(s) updated`
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in PATCH /api/sops/[id]/comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for replying to a comment as the SOP owner
+ * Body: { parentId: string, comment: string }
+ * The reply is published immediately; a pending comment is approved with it
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const input = parseCommentInput(await req.json().catch(() => null));
+
+    if (!input.parentId) {
+      return NextResponse.json(
+        { error: 'parentId is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { reply, approved } = await createOwnerReply(supabase, id, input.parentId, input.content, {
+      id: userId,
+      name: user?.user_metadata?.name || user?.email?.split('@')[0] || 'SOP owner'
+    });
+
+    await emitCommentsApproved(id, approved ? [approved, reply] : [reply]);
+
+    return NextResponse.json({
+      comment: reply,
+      message: 'Reply posted'
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in POST /api/sops/[id]/comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
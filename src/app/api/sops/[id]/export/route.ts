@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { exportFilename, loadSopExportData } from '@/utils/export/sop-export-data';
+import { renderSopPdf } from '@/utils/export/sop-pdf';
+import { renderSopDocx } from '@/utils/export/sop-docx';
+import { renderSopMarkdown } from '@/utils/export/sop-markdown';
+import { toSopDocument } from '@/utils/export/sop-document';
+
+const EXPORT_FORMATS = ['pdf', 'docx', 'md'] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+};
+
+/**
+ * GET handler for exporting an SOP as a document
+ * Query: format=pdf|docx|md (default pdf); draft=true for the working copy
+ * instead of the latest published version (marked as an uncontrolled draft)
+ * Rendering happens entirely on the server
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(req.url);
+    const format = (searchParams.get('format') || 'pdf').toLowerCase();
+    const draft = searchParams.get('draft') === 'true';
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return NextResponse.json(
+        { error: `Unsupported export format. Must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const data = await loadSopExportData(supabase, id, { draft });
+    
+    if (!data) {
+      return NextResponse.json(
+        { error: 'SOP not found' },
+        { status: 404 }
+      );
+    }
+    
+    let body: Buffer;
+    if (format === 'docx') {
+      body = await renderSopDocx(toSopDocument(data));
+    } else if (format === 'md') {
+      body = Buffer.from(renderSopMarkdown(toSopDocument(data)), 'utf8');
+    } else {
+      body = await renderSopPdf(data);
+    }
+    
+    logger.info('SOP exported', { sopId: id, userId, format, controlled: data.controlled, bytes: body.length });
+    
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format as ExportFormat],
+        'Content-Disposition': `attachment; filename="${exportFilename(data.sop.title, format)}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/export', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { aiErrorHeaders, isAIError, startAIMeter } from '@/utils/ai';
+import { reviewSOPQuality } from '@/utils/sop-ai-service';
+import { LintFinding, lintSop } from '@/utils/sop-lint';
+
+/**
+ * POST handler for linting an SOP
+ * Runs the deterministic quality rules over the saved SOP and, with
+ * `{ ai: true }` in the body, adds findings from an AI review. AI findings
+ * are advisory and do not change the score.
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: sop, error: sopError } = await supabase
+      .from('sops')
+      .select('id, title, description, definitions')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('steps')
+      .select('id, title, instructions, order_index, role, safety_notes, verification')
+      .eq('sop_id', id)
+      .order('order_index', { ascending: true });
+
+    if (stepsError) {
+      logger.error('Error fetching steps for lint:', { error: stepsError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to fetch steps', details: stepsError.message },
+        { status: 500 }
+      );
+    }
+
+    const report = lintSop(sop, steps || []);
+
+    if (body?.ai === true && steps && steps.length > 0) {
+      // Enforce the user's AI quota; throws a 429 when it is used up
+      const meter = await startAIMeter(createAdminClient() as unknown as SupabaseClient, userId);
+      const reviewed = await reviewSOPQuality(sop, steps, meter);
+
+      report.findings.push(...reviewed.map((finding): LintFinding => ({
+        rule: 'ai-review',
+        severity: finding.severity,
+        message: finding.message,
+        step_id: finding.step ? steps[finding.step - 1].id : undefined,
+        step_number: finding.step ?? undefined,
+        source: 'ai'
+      })));
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (isAIError(error)) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode, headers: aiErrorHeaders(error) }
+      );
+    }
+
+    logger.error('Unexpected error in POST /api/sops/[id]/lint', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const createSopSnapshot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const sopUpdates: Record<string, unknown>[] = [];
+
+const existingSop = {
+  id: 'sop-1',
+  title: 'Onboarding',
+  created_by: 'user-1',
+  version: 2,
+  is_published: false,
+  published_at: null,
+  publish_settings: null
+};
+
+jest.mock('../../../../../utils/firebase-admin', () => ({
+  authAdmin: {
+    verifyIdToken: async () => ({ uid: 'user-1' })
+  }
+}));
+
+// Answers the SOP lookup and records every update of the SOP row
+jest.mock('../../../../../utils/server/supabase-server', () => ({
+  createServerSupabaseClient: () => ({
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        is: () => query,
+        update: (values: Record<string, unknown>) => {
+          if (table === 'sops') sopUpdates.push(values);
+          return query;
+        },
+        single: async () => ({ data: { ...existingSop, ...sopUpdates[sopUpdates.length - 1] }, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ data: null, error: null, count: 1 })
+      };
+      return query;
+    }
+  })
+}));
+
+jest.mock('../../../../../utils/sop-versions', () => ({
+  createSopSnapshot: (...args: unknown[]) => createSopSnapshot(...args)
+}));
+
+jest.mock('../../../../../utils/review-workflow', () => ({
+  hasOutstandingReview: async () => false
+}));
+
+jest.mock('../../../../../utils/audit-log', () => ({
+  recordAuditLog: async () => {}
+}));
+
+jest.mock('../../../../../utils/notifications', () => ({
+  notifySopPublished: async () => {}
+}));
+
+jest.mock('../../../../../utils/webhooks', () => ({
+  emitWebhookEvent: async () => {}
+}));
+
+const request = () => new NextRequest('http://localhost/api/sops/sop-1/publish', {
+  method: 'POST',
+  headers: { Authorization: 'Bearer valid-token', 'Content-Type': 'application/json' },
+  body: JSON.stringify({ publishSettings: { allowComments: true } })
+});
+
+describe('POST /api/sops/[id]/publish', () => {
+  let POST: typeof import('./route').POST;
+
+  // Loaded after the mocks above are registered
+  beforeAll(async () => {
+    ({ POST } = await import('./route'));
+  });
+
+  beforeEach(() => {
+    createSopSnapshot.mockReset();
+    sopUpdates.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('snapshots the SOP once it is marked published', async () => {
+    createSopSnapshot.mockImplementation(async () => {
+      expect(sopUpdates).toHaveLength(1);
+      return { version_number: 3 };
+    });
+
+    const response = await POST(request(), { params: { id: 'sop-1' } });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(sopUpdates[0]).toMatchObject({ is_published: true });
+    expect(body.version).toBe(3);
+    expect(body.sop.version).toBe(3);
+  });
+
+  it('undoes the publish when the snapshot cannot be recorded', async () => {
+    createSopSnapshot.mockRejectedValue(new Error('sop_versions is unavailable'));
+
+    const response = await POST(request(), { params: { id: 'sop-1' } });
+
+    expect(response.status).toBe(500);
+    expect(sopUpdates).toHaveLength(2);
+    expect(sopUpdates[1]).toEqual({ is_published: false, published_at: null, publish_settings: null });
+  });
+});
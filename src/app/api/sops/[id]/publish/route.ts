@@ -1,9 +1,20 @@
 import { NextRequest } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
 import { authAdmin } from '@/utils/firebase-admin';
+import { createSopSnapshot } from '@/utils/sop-versions';
+import { hasOutstandingReview } from '@/utils/review-workflow';
+import { recordAuditLog } from '@/utils/audit-log';
+import { buildPublishSettings, PublishSettings, publicPublishSettings } from '@/utils/share-access';
+import { createShareLink } from '@/utils/share-links';
+import { notifySopPublished } from '@/utils/notifications';
+import { emitWebhookEvent } from '@/utils/webhooks';
 
 /**
  * POST /api/sops/[id]/publish - Publish a SOP
+ * The settings become the SOP's default publish settings. When the SOP has
+ * no active share link yet, one is created with them (`body.label`, pinned to
+ * the published version with `body.pinVersion`) and returned as `link`.
  */
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
   console.log(`Publish API called for SOP ID: ${params.id}`);
@@ -28,7 +39,6 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       
       // Parse request body
       const body = await req.json();
-      console.log('Publish request body:', body);
       
       // Check if the SOP exists and belongs to the user
       const { data: existingSop, error: sopError } = await supabase
@@ -43,8 +53,22 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         return Response.json({ error: 'SOP not found or not owned by user' }, { status: 404 });
       }
       
-      // Extract publish settings
-      const publishSettings = body.publishSettings || {};
+      // Publishing is handed over to the review workflow while approvals are outstanding
+      if (await hasOutstandingReview(supabase as SupabaseClient, sopId)) {
+        return Response.json({ 
+          error: 'This SOP has approvals outstanding and will be published once the review is approved' 
+        }, { status: 409 });
+      }
+      
+      // Extract publish settings; the share password is stored hashed
+      let publishSettings: PublishSettings;
+      try {
+        publishSettings = buildPublishSettings(body.publishSettings || {});
+      } catch (settingsError) {
+        return Response.json({ 
+          error: settingsError instanceof Error ? settingsError.message : 'Invalid publish settings' 
+        }, { status: 400 });
+      }
       
       // Update the SOP with published status and settings
       const updateData = {
@@ -53,7 +77,7 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         publish_settings: publishSettings
       };
       
-      console.log('Updating SOP with publish data:', updateData);
+      console.log('Updating SOP with publish data:', { ...updateData, publish_settings: publicPublishSettings(publishSettings) });
       
       // Update the SOP record
       const { data: updatedSop, error: updateError } = await supabase
@@ -68,23 +92,83 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         return Response.json({ error: 'Failed to publish SOP' }, { status: 500 });
       }
       
-      // Record this publish action in the audit trail
-      await supabase
-        .from('audit_trail')
-        .insert({
-          sop_id: sopId,
-          user_id: userId,
-          action: 'publish',
-          timestamp: new Date().toISOString(),
-          details: JSON.stringify({
-            publishSettings
-          })
+      // Snapshot the content being published so the exact revision stays on record;
+      // without it the publish is undone, so no published state lacks a version
+      let publishedVersion;
+      try {
+        publishedVersion = await createSopSnapshot(supabase as SupabaseClient, sopId, userId, {
+          source: 'publish',
+          changeSummary: body.changeSummary || null
         });
+      } catch (snapshotError) {
+        console.error('Error creating version snapshot:', snapshotError);
+        
+        const { error: rollbackError } = await (supabase as SupabaseClient)
+          .from('sops')
+          .update({
+            is_published: existingSop.is_published,
+            published_at: existingSop.published_at,
+            publish_settings: existingSop.publish_settings
+          })
+          .eq('id', sopId);
+        
+        if (rollbackError) {
+          console.error('Error rolling back SOP publish:', rollbackError);
+        }
+        
+        return Response.json({ error: 'Failed to record SOP version for publishing' }, { status: 500 });
+      }
+      
+      // First publish (or all links revoked): hand out a share link right away
+      let link = null;
+      const { count: activeLinks } = await (supabase as SupabaseClient)
+        .from('shared_sops')
+        .select('id', { count: 'exact', head: true })
+        .eq('sop_id', sopId)
+        .is('revoked_at', null);
       
-      console.log('SOP published successfully:', updatedSop);
+      if (!activeLinks) {
+        try {
+          link = await createShareLink(supabase as SupabaseClient, sopId, userId, {
+            label: body.label || 'Default link',
+            settings: publishSettings,
+            versionNumber: body.pinVersion ? publishedVersion.version_number : null
+          });
+        } catch (linkError) {
+          // The SOP is published; links can still be created from the publish page
+          console.error('Error creating share link:', linkError);
+        }
+      }
+      
+      // Record this publish action in the audit log
+      await recordAuditLog(supabase as SupabaseClient, {
+        entity_type: 'sop',
+        entity_id: sopId,
+        action: 'publish',
+        user_id: userId,
+        changes: { is_published: true },
+        metadata: {
+          description: `Published version ${publishedVersion.version_number}`,
+          publishSettings: publicPublishSettings(publishSettings),
+          version: publishedVersion.version_number
+        }
+      });
+      
+      // Let the reviewers of the SOP know it went out
+      await notifySopPublished(supabase as SupabaseClient, sopId, { exclude: [userId] });
+      await emitWebhookEvent('sop.published', sopId);
+      
+      console.log('SOP published successfully:', sopId);
       return Response.json({ 
         success: true, 
-        sop: updatedSop
+        sop: {
+          ...updatedSop,
+          // The snapshot moved the SOP to this version after the row above was read
+          version: publishedVersion.version_number,
+          publish_settings: publicPublishSettings(updatedSop.publish_settings)
+        },
+        version: publishedVersion.version_number,
+        link: link ? { ...link, settings: publicPublishSettings(link.settings) } : null
       });
     } catch (authError) {
       console.error('Error in authentication:', authError);
@@ -101,4 +185,83 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       error: `Server error: ${errorMessage}`
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * DELETE /api/sops/[id]/publish - Revoke the SOP-wide share link (/shared/{sopId})
+ * The link stops working immediately, including for viewers who already
+ * unlocked it; publishing again issues working access. Share links created
+ * per SOP are revoked through /api/sops/[id]/share-links/[linkId].
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient() as SupabaseClient;
+    const sopId = params.id;
+    
+    // Get auth token from request
+    const idToken = req.headers.get('Authorization')?.split('Bearer ')[1];
+    
+    if (!idToken) {
+      console.error('Missing Authorization header or token');
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    let userId: string;
+    try {
+      const decodedToken = await authAdmin.verifyIdToken(idToken);
+      userId = decodedToken.uid;
+    } catch (authError) {
+      console.error('Error in authentication:', authError);
+      return Response.json({ 
+        error: 'Authentication error', 
+        details: authError instanceof Error ? authError.message : String(authError)
+      }, { status: 401 });
+    }
+    
+    // Check if the SOP exists and belongs to the user
+    const { data: existingSop, error: sopError } = await supabase
+      .from('sops')
+      .select('id, is_published, publish_settings')
+      .eq('id', sopId)
+      .eq('created_by', userId)
+      .single();
+    
+    if (sopError) {
+      console.error('Error fetching SOP:', sopError);
+      return Response.json({ error: 'SOP not found or not owned by user' }, { status: 404 });
+    }
+    
+    if (!existingSop.is_published || existingSop.publish_settings?.revokedAt) {
+      return Response.json({ error: 'This SOP has no active share link' }, { status: 409 });
+    }
+    
+    const revokedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('sops')
+      .update({ publish_settings: { ...existingSop.publish_settings, revokedAt } })
+      .eq('id', sopId);
+    
+    if (updateError) {
+      console.error('Error revoking share link:', updateError);
+      return Response.json({ error: 'Failed to revoke share link' }, { status: 500 });
+    }
+    
+    await recordAuditLog(supabase, {
+      entity_type: 'sop',
+      entity_id: sopId,
+      action: 'update',
+      user_id: userId,
+      changes: { share_link_revoked_at: revokedAt },
+      metadata: { description: 'Revoked share link' }
+    });
+    
+    return Response.json({ success: true, revokedAt });
+  } catch (error) {
+    console.error('Unhandled error in revoke share link API:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    
+    return Response.json({ 
+      error: `Server error: ${errorMessage}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { notifyReviewRequested } from '@/utils/notifications';
+import {
+  attachReviewerEmails,
+  cancelReview,
+  getLatestReview,
+  getOpenReview,
+  resolveReviewerIds,
+  submitForReview
+} from '@/utils/review-workflow';
+
+/**
+ * API route handlers for the review workflow of a specific SOP
+ */
+
+/**
+ * Verify the SOP exists and belongs to the user
+ * Returns an error response to send back, or null when access is granted
+ */
+async function verifySopOwnership(supabase: SupabaseClient, id: string, userId: string): Promise<NextResponse | null> {
+  const { error: sopError } = await supabase
+    .from('sops')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (!sopError) {
+    return null;
+  }
+
+  if (sopError.code === 'PGRST116') {
+    return NextResponse.json(
+      { error: 'SOP not found or you do not have permission to access it' },
+      { status: 404 }
+    );
+  }
+
+  logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+  return NextResponse.json(
+    { error: 'Failed to verify SOP access', details: sopError.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET handler for the current (or most recent) review of an SOP
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const review = await getLatestReview(supabase, id);
+
+    return NextResponse.json({
+      review: review ? await attachReviewerEmails(createAdminClient() as unknown as SupabaseClient, review) : null,
+      sop_id: id
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/review', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for submitting an SOP for review
+ * Body: { reviewers: string[] (user ids or emails), ordered?: boolean, quorum?: number, message?: string }
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+
+    if (!Array.isArray(body.reviewers) || body.reviewers.some((reviewer: unknown) => typeof reviewer !== 'string')) {
+      return NextResponse.json(
+        { error: 'reviewers must be a list of user IDs or email addresses' },
+        { status: 400 }
+      );
+    }
+
+    if (body.quorum !== undefined && typeof body.quorum !== 'number') {
+      return NextResponse.json(
+        { error: 'quorum must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Reviewers are looked up across all users, which RLS hides from the requester
+    const reviewerIds = await resolveReviewerIds(
+      createAdminClient() as unknown as SupabaseClient,
+      body.reviewers.map((reviewer: string) => reviewer.trim())
+    );
+
+    const review = await submitForReview(supabase, id, userId, {
+      reviewerIds,
+      ordered: body.ordered,
+      quorum: body.quorum,
+      message: typeof body.message === 'string' ? body.message : null
+    });
+
+    logger.info('SOP submitted for review', { sopId: id, reviewId: review.id, userId });
+
+    await notifyReviewRequested(createAdminClient() as unknown as SupabaseClient, review);
+
+    return NextResponse.json({
+      review,
+      message: 'SOP submitted for review'
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in POST /api/sops/[id]/review', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE handler for withdrawing the open review of an SOP
+ * The SOP goes back to draft
+ * Protected by authentication middleware
+ */
+export const DELETE = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const accessError = await verifySopOwnership(supabase, id, userId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const review = await getOpenReview(supabase, id);
+
+    if (!review) {
+      return NextResponse.json(
+        { error: 'This SOP has no review in progress' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelReview(supabase, review, userId);
+
+    return NextResponse.json({
+      review: cancelled,
+      message: 'Review withdrawn'
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in DELETE /api/sops/[id]/review', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -4,11 +4,16 @@ import { cookies } from 'next/headers';
 import { withAuth } from '@/utils/auth-api';
 import { logger } from '@/utils/logger';
 import { SOP } from '@/types/database.types';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
+import { emitWebhookEvent, SOP_WITH_STEPS_COLUMNS } from '@/utils/webhooks';
 
 /**
  * API route handlers for operations on a specific SOP by ID
  */
 
+// Fields that change what reviewers approve, as opposed to status and bookkeeping
+const CONTENT_FIELDS = ['title', 'description', 'category', 'stakeholders', 'definitions', 'equipment'];
+
 /**
  * GET handler for fetching a specific SOP
  * Protected by authentication middleware
@@ -34,7 +39,7 @@ export const GET = withAuth(async (req: NextRequest, userId: string, { params }:
     // Build the query based on the include parameters
     let query = supabase
       .from('sops')
-      .select(includeSteps ? 'id, title, description, category, status, user_id, created_at, updated_at, version, stakeholders, definitions, steps(*)' : '*')
+      .select(includeSteps ? SOP_WITH_STEPS_COLUMNS : '*')
       .eq('id', id)
       .eq('user_id', userId)
       .single();
@@ -116,7 +121,7 @@ export const PUT = withAuth(async (req: NextRequest, userId: string, { params }:
     // First verify ownership
     const { data: sop, error: fetchError } = await supabase
       .from('sops')
-      .select('user_id')
+      .select('user_id, status')
       .eq('id', id)
       .single();
     
@@ -144,6 +149,22 @@ export const PUT = withAuth(async (req: NextRequest, userId: string, { params }:
       );
     }
     
+    // Status is owned by the review workflow while approvals are outstanding
+    if ('status' in body && body.status !== 'review' && await hasOutstandingReview(supabase, id)) {
+      return NextResponse.json(
+        { error: 'This SOP has a review in progress. Withdraw the review to change its status.' },
+        { status: 409 }
+      );
+    }
+    
+    // Content is frozen while a review is open
+    if (CONTENT_FIELDS.some(field => field in body) && await hasOutstandingReview(supabase, id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
     // Prepare update data, explicitly allowing only specific fields
     const updateData: Partial<SOP> = {};
     
@@ -215,6 +236,8 @@ export const PUT = withAuth(async (req: NextRequest, userId: string, { params }:
     
     logger.info('SOP updated successfully', { sopId: id, userId });
     
+    await emitWebhookEvent(updatedSop.status === 'archived' && sop.status !== 'archived' ? 'sop.archived' : 'sop.updated', id);
+    
     return NextResponse.json({ 
       sop: updatedSop,
       message: 'SOP updated successfully'
@@ -363,7 +386,7 @@ export const PATCH = withAuth(async (req: NextRequest, userId: string, { params
     // Verify ownership with a query that also handles the case where the SOP doesn't exist
     const { data: sop, error: fetchError } = await supabase
       .from('sops')
-      .select('user_id')
+      .select('user_id, status')
       .eq('id', id)
       .eq('user_id', userId)
       .single();
@@ -398,9 +421,25 @@ export const PATCH = withAuth(async (req: NextRequest, userId: string, { params
         );
       }
       
+      // Status is owned by the review workflow while approvals are outstanding
+      if (newStatus !== 'review' && await hasOutstandingReview(supabase, id)) {
+        return NextResponse.json(
+          { error: 'This SOP has a review in progress. Withdraw the review to change its status.' },
+          { status: 409 }
+        );
+      }
+      
       updateData.status = newStatus;
     }
     
+    // Content is frozen while a review is open
+    if (CONTENT_FIELDS.some(field => field in body) && await hasOutstandingReview(supabase, id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
     // Allow specific fields to be updated
     const allowedFields = [
       'title', 'description', 'category', 'version', 
@@ -435,6 +474,8 @@ export const PATCH = withAuth(async (req: NextRequest, userId: string, { params
     
     logger.info('SOP patched successfully', { sopId: id, userId, fields: Object.keys(updateData) });
     
+    await emitWebhookEvent(updatedSop.status === 'archived' && sop.status !== 'archived' ? 'sop.archived' : 'sop.updated', id);
+    
     return NextResponse.json({ 
       sop: updatedSop,
       message: 'SOP updated successfully'
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { isSopOwner, listRuns, startRun } from '@/utils/sop-runs';
+
+/**
+ * API route handlers for execution runs of a specific SOP
+ * Operators other than the owner may run a published SOP, so run data is
+ * accessed with the admin client after checking access here
+ */
+
+/**
+ * GET handler for the run history of an SOP
+ * The owner sees every run; other operators see their own runs
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    
+    const { data: sop, error: sopError } = await supabase
+      .from('sops')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (sopError || !sop || (!isSopOwner(sop, userId) && !sop.is_published)) {
+      return NextResponse.json(
+        { error: 'SOP not found or you do not have permission to access it' },
+        { status: 404 }
+      );
+    }
+    
+    const runs = await listRuns(supabase, id, isSopOwner(sop, userId) ? undefined : userId);
+    
+    return NextResponse.json({
+      runs,
+      sop_id: id
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/runs', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for starting a run of the SOP's latest published version
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+    
+    const { data: sop, error: sopError } = await supabase
+      .from('sops')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (sopError || !sop || (!isSopOwner(sop, userId) && !sop.is_published)) {
+      return NextResponse.json(
+        { error: 'SOP not found or you do not have permission to run it' },
+        { status: 404 }
+      );
+    }
+    
+    const run = await startRun(supabase, id, userId);
+    
+    logger.info('SOP run started', { sopId: id, runId: run.id, version: run.version_number, userId });
+    
+    return NextResponse.json({
+      run,
+      message: `Run started against version ${run.version_number}`
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
+    logger.error('Unexpected error in POST /api/sops/[id]/runs', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
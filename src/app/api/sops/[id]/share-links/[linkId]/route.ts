@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { recordAuditLog } from '@/utils/audit-log';
+import { publicPublishSettings } from '@/utils/share-access';
+import { renameShareLink, revokeShareLink } from '@/utils/share-links';
+
+/**
+ * API route handlers for a single share link of an SOP
+ */
+
+async function verifySopOwnership(supabase: SupabaseClient, sopId: string, userId: string) {
+  const { error: sopError } = await supabase
+    .from('sops')
+    .select('id')
+    .eq('id', sopId)
+    .eq('user_id', userId)
+    .single();
+  
+  if (!sopError) return null;
+  
+  if (sopError.code === 'PGRST116') {
+    return NextResponse.json(
+      { error: 'SOP not found or you do not have permission to access it' },
+      { status: 404 }
+    );
+  }
+  
+  logger.error('Error verifying SOP ownership:', { error: sopError, sopId, userId });
+  return NextResponse.json(
+    { error: 'Failed to verify SOP access', details: sopError.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH handler for renaming a share link
+ * Body: { label: string }
+ * Protected by authentication middleware
+ */
+export const PATCH = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string; linkId: string } }) => {
+  try {
+    const { id, linkId } = params;
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+    
+    const denied = await verifySopOwnership(supabase, id, userId);
+    if (denied) return denied;
+    
+    const body = await req.json().catch(() => ({}));
+    
+    if (typeof body.label !== 'string' || !body.label.trim()) {
+      return NextResponse.json(
+        { error: 'Label is required' },
+        { status: 400 }
+      );
+    }
+    
+    const link = await renameShareLink(supabase, id, linkId, body.label);
+    
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Share link not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ link: { ...link, settings: publicPublishSettings(link.settings) } });
+  } catch (error) {
+    logger.error('Unexpected error in share link PATCH handler:', { error, params });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE handler for revoking a share link
+ * The link stops working immediately; its analytics are kept.
+ * Protected by authentication middleware
+ */
+export const DELETE = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string; linkId: string } }) => {
+  try {
+    const { id, linkId } = params;
+    const supabase = createRouteHandlerClient({ cookies }) as unknown as SupabaseClient;
+    
+    const denied = await verifySopOwnership(supabase, id, userId);
+    if (denied) return denied;
+    
+    const link = await revokeShareLink(supabase, id, linkId);
+    
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Share link not found or already revoked' },
+        { status: 404 }
+      );
+    }
+    
+    await recordAuditLog(supabase, {
+      entity_type: 'sop',
+      entity_id: id,
+      action: 'update',
+      user_id: userId,
+      changes: { share_link_revoked: link.id, share_link_revoked_at: link.revoked_at },
+      metadata: { description: `Revoked share link "${link.label}"` }
+    });
+    
+    return NextResponse.json({ link: { ...link, settings: publicPublishSettings(link.settings) } });
+  } catch (error) {
+    logger.error('Unexpected error in share link DELETE handler:', { error, params });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
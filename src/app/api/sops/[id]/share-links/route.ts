@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { recordAuditLog } from '@/utils/audit-log';
+import { getSopVersion } from '@/utils/sop-versions';
+import { buildPublishSettings, PublishSettings, publicPublishSettings } from '@/utils/share-access';
+import { createShareLink, listShareLinks } from '@/utils/share-links';
+
+/**
+ * API route handlers for the share links of a specific SOP
+ */
+
+/**
+ * GET handler for listing the share links of an SOP with their view counters
+ * and per-step scroll depth
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    // Depth is reported per step of the current SOP
+    const { count: stepCount } = await supabase
+      .from('steps')
+      .select('id', { count: 'exact', head: true })
+      .eq('sop_id', id);
+    
+    const links = await listShareLinks(supabase as SupabaseClient, id, stepCount || 0);
+    
+    return NextResponse.json({ links });
+  } catch (error) {
+    logger.error('Unexpected error in share links GET handler:', { error, params });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for creating a share link
+ * Body: { label?: string, publishSettings?: object, versionNumber?: number }
+ * `publishSettings` takes the same fields as publishing (password, expiry,
+ * sign-in, comments, questions); `versionNumber` pins the link to a version.
+ * The SOP must be published.
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { data: sop, error: sopError } = await supabase
+      .from('sops')
+      .select('id, is_published')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    if (!sop.is_published) {
+      return NextResponse.json(
+        { error: 'Publish the SOP before creating share links' },
+        { status: 409 }
+      );
+    }
+    
+    // The share password is stored hashed
+    let settings: PublishSettings;
+    try {
+      settings = buildPublishSettings(body.publishSettings || {});
+    } catch (settingsError) {
+      return NextResponse.json(
+        { error: settingsError instanceof Error ? settingsError.message : 'Invalid publish settings' },
+        { status: 400 }
+      );
+    }
+    
+    let versionNumber: number | null = null;
+    if (body.versionNumber !== undefined && body.versionNumber !== null) {
+      versionNumber = Number(body.versionNumber);
+      const version = Number.isInteger(versionNumber)
+        ? await getSopVersion(supabase as SupabaseClient, id, versionNumber)
+        : null;
+      
+      if (!version) {
+        return NextResponse.json(
+          { error: 'Version not found' },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const link = await createShareLink(supabase as SupabaseClient, id, userId, {
+      label: body.label,
+      settings,
+      versionNumber
+    });
+    
+    await recordAuditLog(supabase as SupabaseClient, {
+      entity_type: 'sop',
+      entity_id: id,
+      action: 'update',
+      user_id: userId,
+      changes: { share_link_created: link.id },
+      metadata: {
+        description: `Created share link "${link.label}"`,
+        publishSettings: publicPublishSettings(settings),
+        version: versionNumber
+      }
+    });
+    
+    return NextResponse.json(
+      { link: { ...link, settings: publicPublishSettings(link.settings) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in share links POST handler:', { error, params });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { ApiError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { notifyStepComment } from '@/utils/notifications';
+import { emitWebhookEvent } from '@/utils/webhooks';
+import {
+  countOpenComments,
+  createStepComment,
+  getStepCommentRole,
+  listStepComments,
+  parseStepCommentInput,
+  placeStepComments,
+  setStepCommentResolved
+} from '@/utils/step-comments';
+
+/**
+ * API route handlers for the inline review comments on the steps of an SOP
+ * Open to the SOP's author and to the reviewers assigned to its reviews.
+ * The SOP belongs to the author, so reviewers read it with the admin client.
+ */
+
+const NO_ACCESS_ERROR = 'SOP not found or you do not have permission to access it';
+
+/**
+ * Ids and saved instructions of the steps of an SOP
+ */
+async function loadSteps(supabase: SupabaseClient, sopId: string) {
+  const { data, error } = await supabase
+    .from('steps')
+    .select('id, instructions')
+    .eq('sop_id', sopId);
+
+  if (error) {
+    throw new Error(`Failed to load steps: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * GET handler for the step comments of an SOP, oldest first, placed in the
+ * current instructions, with the number of unresolved comments per step
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const role = await getStepCommentRole(supabase, id, userId);
+    if (!role) {
+      return NextResponse.json({ error: NO_ACCESS_ERROR }, { status: 404 });
+    }
+
+    const [comments, steps] = await Promise.all([listStepComments(supabase, id), loadSteps(supabase, id)]);
+
+    return NextResponse.json({
+      comments: placeStepComments(comments, steps),
+      open_counts: countOpenComments(comments),
+      role
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/step-comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for commenting on a step
+ * Body: { stepId: string, content: string, anchor?: { start: number, end: number, text: string } }
+ * `anchor` is a range of the step's saved instructions
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const role = await getStepCommentRole(supabase, id, userId);
+    if (!role) {
+      return NextResponse.json({ error: NO_ACCESS_ERROR }, { status: 404 });
+    }
+
+    const input = parseStepCommentInput(body, await loadSteps(supabase, id));
+
+    const { data: author } = await supabase
+      .from('users')
+      .select('name, email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    const comment = await createStepComment(supabase, id, input, {
+      id: userId,
+      name: author?.name || author?.email || (role === 'author' ? 'Author' : 'Reviewer')
+    });
+
+    await notifyStepComment(supabase, id, comment);
+    await emitWebhookEvent('comment.created', id, { comment });
+
+    return NextResponse.json({
+      comment: { ...comment, anchor: input.anchor, anchor_outdated: false },
+      message: 'Comment added'
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in POST /api/sops/[id]/step-comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH handler for resolving or reopening a step comment
+ * Body: { commentId: string, resolved: boolean }
+ * Protected by authentication middleware
+ */
+export const PATCH = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body.commentId !== 'string' || typeof body.resolved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'commentId and resolved are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as unknown as SupabaseClient;
+
+    const role = await getStepCommentRole(supabase, id, userId);
+    if (!role) {
+      return NextResponse.json({ error: NO_ACCESS_ERROR }, { status: 404 });
+    }
+
+    const comment = await setStepCommentResolved(supabase, id, body.commentId, body.resolved, userId);
+
+    return NextResponse.json({
+      comment,
+      message: body.resolved ? 'Comment resolved' : 'Comment reopened'
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    logger.error('Unexpected error in PATCH /api/sops/[id]/step-comments', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
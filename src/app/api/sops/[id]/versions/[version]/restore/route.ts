@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { getSopVersion, restoreSopVersion } from '@/utils/sop-versions';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
+
+/**
+ * POST handler for restoring an SOP to a previous version
+ * The restored content becomes a new draft; the state being replaced is
+ * snapshotted first so it stays in the history
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string; version: string } }) => {
+  try {
+    const { id } = params;
+    const versionNumber = parseInt(params.version, 10);
+    
+    if (!id || isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: 'SOP ID and a numeric version are required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to update it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase, id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
+    const version = await getSopVersion(supabase, id, versionNumber);
+    
+    if (!version) {
+      return NextResponse.json(
+        { error: `Version ${versionNumber} not found` },
+        { status: 404 }
+      );
+    }
+    
+    const restored = await restoreSopVersion(supabase, id, version, userId);
+    
+    logger.info('SOP version restored', { sopId: id, restoredFrom: versionNumber, newVersion: restored.version_number, userId });
+    
+    return NextResponse.json({
+      version: restored,
+      message: `Version ${versionNumber} restored as a new draft`
+    });
+  } catch (error) {
+    logger.error('Unexpected error in POST /api/sops/[id]/versions/[version]/restore', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
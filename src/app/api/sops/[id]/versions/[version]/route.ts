@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { getSopVersion } from '@/utils/sop-versions';
+
+/**
+ * GET handler for fetching the full snapshot of a single SOP version
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string; version: string } }) => {
+  try {
+    const { id } = params;
+    const versionNumber = parseInt(params.version, 10);
+    
+    if (!id || isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: 'SOP ID and a numeric version are required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const version = await getSopVersion(supabase, id, versionNumber);
+    
+    if (!version) {
+      return NextResponse.json(
+        { error: `Version ${versionNumber} not found` },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ version });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/versions/[version]', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { diffSopVersions, getSopVersion } from '@/utils/sop-versions';
+
+/**
+ * GET handler for diffing two versions of an SOP
+ * Usage: /api/sops/[id]/versions/diff?from=2&to=5
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(req.url);
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const to = parseInt(searchParams.get('to') || '', 10);
+    
+    if (!id || isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { error: 'SOP ID and numeric "from" and "to" versions are required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const [fromVersion, toVersion] = await Promise.all([
+      getSopVersion(supabase, id, from),
+      getSopVersion(supabase, id, to),
+    ]);
+    
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: `Version ${!fromVersion ? from : to} not found` },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ diff: diffSopVersions(fromVersion, toVersion) });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/versions/diff', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { createSopSnapshot } from '@/utils/sop-versions';
+
+/**
+ * API route handlers for the version history of a specific SOP
+ */
+
+/**
+ * GET handler for listing the versions of an SOP
+ * Pass `?at=<ISO date>` to get only the version that was current at that moment
+ * Protected by authentication middleware
+ */
+export const GET = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const { searchParams } = new URL(req.url);
+    const at = searchParams.get('at');
+    
+    // The list omits the step payload; fetch a single version for the full snapshot
+    let query = supabase
+      .from('sop_versions')
+      .select('id, sop_id, version_number, title, status, source, change_summary, restored_from, created_by, created_at')
+      .eq('sop_id', id)
+      .order('version_number', { ascending: false });
+    
+    if (at) {
+      const atDate = new Date(at);
+      if (isNaN(atDate.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid date for "at" parameter' },
+          { status: 400 }
+        );
+      }
+      query = query.lte('created_at', atDate.toISOString()).limit(1);
+    }
+    
+    const { data: versions, error } = await query;
+    
+    if (error) {
+      logger.error('Error fetching SOP versions:', { error, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to fetch SOP versions', details: error.message },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json({
+      versions,
+      sop_id: id
+    });
+  } catch (error) {
+    logger.error('Unexpected error in GET /api/sops/[id]/versions', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST handler for taking an on-demand snapshot of an SOP
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
+  try {
+    const { id } = params;
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    // Body is optional; it may carry a change summary
+    let changeSummary: string | null = null;
+    try {
+      const body = await req.json();
+      if (typeof body.change_summary === 'string') {
+        changeSummary = body.change_summary.trim() || null;
+      }
+    } catch {
+      // No body provided
+    }
+    
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Verify SOP ownership first
+    const { error: sopError } = await supabase
+      .from('sops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (sopError) {
+      if (sopError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: 'SOP not found or you do not have permission to access it' },
+          { status: 404 }
+        );
+      }
+      
+      logger.error('Error verifying SOP ownership:', { error: sopError, sopId: id, userId });
+      return NextResponse.json(
+        { error: 'Failed to verify SOP access', details: sopError.message },
+        { status: 500 }
+      );
+    }
+    
+    const version = await createSopSnapshot(supabase, id, userId, {
+      source: 'manual',
+      changeSummary
+    });
+    
+    return NextResponse.json({
+      version,
+      message: `Version ${version.version_number} created successfully`
+    }, { status: 201 });
+  } catch (error) {
+    logger.error('Unexpected error in POST /api/sops/[id]/versions', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
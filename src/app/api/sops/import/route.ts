@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/utils/auth-api';
+import { logger } from '@/utils/logger';
+import { parseSopDocx } from '@/utils/export/sop-docx';
+import { parseSopMarkdown } from '@/utils/export/sop-markdown';
+import { SopDocument, validateSopDocument } from '@/utils/export/sop-document';
+
+// Max import file size: 5MB
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * POST handler for parsing an SOP file (.md or .docx) before import
+ * Body: multipart/form-data with a `file` field
+ * Returns the parsed SOP and ordered steps, or 400 with every problem that
+ * would stop the import; nothing is written here, the client creates the SOP
+ * and its steps through the regular create routes
+ * Protected by authentication middleware
+ */
+export const POST = withAuth(async (req: NextRequest, userId: string) => {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'A .md or .docx file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum import size is 5MB.' },
+        { status: 400 }
+      );
+    }
+
+    const extension = file.name.toLowerCase().split('.').pop();
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let document: SopDocument;
+
+    try {
+      if (extension === 'docx') {
+        document = await parseSopDocx(buffer);
+      } else if (extension === 'md' || extension === 'markdown') {
+        document = parseSopMarkdown(buffer.toString('utf8'));
+      } else {
+        return NextResponse.json(
+          { error: 'Unsupported file type. Import a .md or .docx file.' },
+          { status: 400 }
+        );
+      }
+    } catch (parseError) {
+      logger.warn('Could not parse SOP import file', { error: parseError, userId, filename: file.name });
+      return NextResponse.json(
+        { error: 'Could not read the file', details: parseError instanceof Error ? parseError.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+
+    // Reject the whole file up front rather than fail half way through the import
+    const problems = validateSopDocument(document);
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: problems.join(' '), problems },
+        { status: 400 }
+      );
+    }
+
+    logger.info('SOP import parsed', { userId, filename: file.name, steps: document.steps.length });
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    logger.error('Unexpected error in POST /api/sops/import', { error, userId });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,6 +5,7 @@ import { withAuth } from '@/utils/auth-api';
 import { createAdminClient } from '@/utils/supabase/admin';
 import { logger } from '@/utils/logger';
 import { SOP } from '@/types/database.types';
+import { emitWebhookEvent } from '@/utils/webhooks';
 
 /**
  * API route handler for SOP operations
@@ -175,6 +176,8 @@ export const POST = withAuth(async (req: NextRequest, userId: string) => {
       }
     }
     
+    await emitWebhookEvent('sop.created', data.id);
+    
     return NextResponse.json({ sop: data }, { status: 201 });
   } catch (error) {
     logger.error('Unexpected error in POST /api/sops:', { error, userId });
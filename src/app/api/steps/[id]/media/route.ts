@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { withAuth } from '@/utils/auth-api';
 import { logger } from '@/utils/logger';
-import { StepMedia } from '@/types/database.types';
+import { isMediaStoreError } from '@/utils/media-store';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
+import {
+  deleteStepMedia,
+  readUploadedFile,
+  registerStoredMedia,
+  saveStepMedia,
+  validateMediaUpload
+} from '@/utils/step-media';
 
 /**
  * API route handlers for step media (images, videos, documents)
@@ -66,7 +75,7 @@ export const GET = withAuth(async (req: NextRequest, userId: string, { params }:
     
     // Fetch media for the step
     const { data: media, error: mediaError } = await supabase
-      .from('step_media')
+      .from('media')
       .select('*')
       .eq('step_id', id)
       .order('created_at', { ascending: false });
@@ -94,6 +103,9 @@ export const GET = withAuth(async (req: NextRequest, userId: string, { params }:
 
 /**
  * POST handler for adding media to a step
+ * Accepts a multipart upload (`file`, optional `caption`), or JSON with the
+ * `file_path` (storage key) and `file_type` of a file uploaded through a
+ * signed URL from /api/upload-media
  * Protected by authentication middleware
  */
 export const POST = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
@@ -107,17 +119,6 @@ export const POST = withAuth(async (req: NextRequest, userId: string, { params }
       );
     }
     
-    // Parse request body
-    const body = await req.json();
-    
-    // Validate request
-    if (!body.file_path || !body.file_type) {
-      return NextResponse.json(
-        { error: 'File path and file type are required' },
-        { status: 400 }
-      );
-    }
-    
     const supabase = createRouteHandlerClient({ cookies });
     
     // Verify step ownership through SOP
@@ -158,28 +159,66 @@ export const POST = withAuth(async (req: NextRequest, userId: string, { params }
       );
     }
     
-    // Create media record
-    const mediaData: Partial<StepMedia> = {
-      step_id: id,
-      file_path: body.file_path,
-      file_type: body.file_type,
-      display_name: body.display_name || null,
-      description: body.description || null,
-      created_at: new Date().toISOString()
-    };
-    
-    const { data: newMedia, error: insertError } = await supabase
-      .from('step_media')
-      .insert(mediaData)
-      .select()
-      .single();
+    const target = { sopId: step.sop_id, stepId: id, userId };
+    let newMedia;
     
-    if (insertError) {
-      logger.error('Error creating step media:', { error: insertError, stepId: id, userId });
-      return NextResponse.json(
-        { error: 'Failed to add media to step', details: insertError.message },
-        { status: 500 }
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData();
+      const file = formData.get('file') as File | null;
+      
+      if (!file) {
+        return NextResponse.json(
+          { error: 'File is required' },
+          { status: 400 }
+        );
+      }
+      
+      const validationError = validateMediaUpload(file);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+      
+      newMedia = await saveStepMedia(
+        supabase as unknown as SupabaseClient,
+        target,
+        await readUploadedFile(file),
+        (formData.get('caption') as string | null) || null
       );
+    } else {
+      // Parse request body
+      const body = await req.json();
+      
+      // Validate request
+      if (!body.file_path || !body.file_type) {
+        return NextResponse.json(
+          { error: 'File path and file type are required' },
+          { status: 400 }
+        );
+      }
+      
+      const validationError = validateMediaUpload({ type: body.file_type, size: body.size_bytes });
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+      
+      try {
+        newMedia = await registerStoredMedia(
+          supabase as unknown as SupabaseClient,
+          target,
+          body.file_path,
+          { name: body.display_name || body.file_path.split('/').pop(), type: body.file_type, size: body.size_bytes },
+          body.description || null
+        );
+      } catch (registerError) {
+        // Refused or quarantined uploads keep their status code
+        if (isMediaStoreError(registerError)) throw registerError;
+        
+        logger.error('Error creating step media:', { error: registerError, stepId: id, userId });
+        return NextResponse.json(
+          { error: 'Failed to add media to step', details: registerError instanceof Error ? registerError.message : String(registerError) },
+          { status: 400 }
+        );
+      }
     }
     
     logger.info('Media added to step successfully', { mediaId: newMedia.id, stepId: id, userId });
@@ -189,6 +228,14 @@ export const POST = withAuth(async (req: NextRequest, userId: string, { params }
       message: 'Media added successfully'
     }, { status: 201 });
   } catch (error) {
+    if (isMediaStoreError(error)) {
+      logger.error('Media store error in POST /api/steps/[id]/media', { error, userId });
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    
     logger.error('Unexpected error in POST /api/steps/[id]/media', { error, userId });
     return NextResponse.json(
       { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -198,7 +245,7 @@ export const POST = withAuth(async (req: NextRequest, userId: string, { params }
 });
 
 /**
- * DELETE handler for removing media from a step
+ * DELETE handler for removing media from a step; the media GC removes its file
  * Protected by authentication middleware
  */
 export const DELETE = withAuth(async (req: NextRequest, userId: string, { params }: { params: { id: string } }) => {
@@ -225,10 +272,10 @@ export const DELETE = withAuth(async (req: NextRequest, userId: string, { params
     
     const supabase = createRouteHandlerClient({ cookies });
     
-    // First fetch the media item to get step_id
+    // First fetch the media item to get step_id and its file
     const { data: media, error: mediaError } = await supabase
-      .from('step_media')
-      .select('step_id')
+      .from('media')
+      .select('id, step_id')
       .eq('id', mediaId)
       .single();
     
@@ -300,16 +347,21 @@ export const DELETE = withAuth(async (req: NextRequest, userId: string, { params
       );
     }
     
-    // Delete the media record
-    const { error: deleteError } = await supabase
-      .from('step_media')
-      .delete()
-      .eq('id', mediaId);
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase as unknown as SupabaseClient, step.sop_id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
     
-    if (deleteError) {
+    // Delete the media record; its file may still be used by SOP versions
+    try {
+      await deleteStepMedia(supabase as unknown as SupabaseClient, media);
+    } catch (deleteError) {
       logger.error('Error deleting step media:', { error: deleteError, mediaId, stepId: id, userId });
       return NextResponse.json(
-        { error: 'Failed to delete media', details: deleteError.message },
+        { error: 'Failed to delete media', details: deleteError instanceof Error ? deleteError.message : String(deleteError) },
         { status: 500 }
       );
     }
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { withAuth } from '@/utils/auth-api';
 import { logger } from '@/utils/logger';
 import { Step } from '@/types/database.types';
+import { deleteStepMedia } from '@/utils/step-media';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
+import { emitWebhookEvent } from '@/utils/webhooks';
 
 /**
  * API route handlers for operations on a specific step by ID
@@ -136,6 +140,14 @@ export const PUT = withAuth(async (req: NextRequest, userId: string, { params }:
       );
     }
     
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase as unknown as SupabaseClient, step.sop_id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
     // Prepare update data, explicitly allowing only specific fields
     const updateData: Partial<Step> = {};
     
@@ -175,6 +187,8 @@ export const PUT = withAuth(async (req: NextRequest, userId: string, { params }:
     
     logger.info('Step updated successfully', { stepId: id, sopId: step.sop_id, userId });
     
+    await emitWebhookEvent('step.updated', step.sop_id, { step: updatedStep });
+    
     return NextResponse.json({ 
       step: updatedStep,
       message: 'Step updated successfully'
@@ -240,17 +254,29 @@ export const DELETE = withAuth(async (req: NextRequest, userId: string, { params
       );
     }
     
-    // Delete any media related to this step first
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase as unknown as SupabaseClient, step.sop_id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
+    // Delete any media rows of this step first; the media GC removes their files
     try {
-      const { error: mediaError } = await supabase
-        .from('step_media')
-        .delete()
+      const { data: stepMedia, error: mediaError } = await supabase
+        .from('media')
+        .select('id')
         .eq('step_id', id);
       
       if (mediaError) {
-        logger.error('Error deleting step media:', { error: mediaError, stepId: id, userId });
+        logger.error('Error fetching step media:', { error: mediaError, stepId: id, userId });
         // Continue with step deletion even if media deletion fails
       }
+      
+      for (const media of stepMedia || []) {
+        await deleteStepMedia(supabase as unknown as SupabaseClient, media);
+      }
     } catch (mediaError) {
       logger.error('Unexpected error deleting step media:', { error: mediaError, stepId: id, userId });
       // Continue with step deletion
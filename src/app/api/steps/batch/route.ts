@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/utils/server/supabase-server';
 import { verifyCurrentUser } from '@/utils/server/auth-server';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
 
 /**
  * PUT /api/steps/batch - Batch update steps for a SOP
@@ -36,6 +38,11 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: 'SOP not found or unauthorized' }, { status: 404 });
     }
     
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase as SupabaseClient, sopId)) {
+      return NextResponse.json({ error: REVIEW_IN_PROGRESS_MESSAGE }, { status: 409 });
+    }
+    
     const { steps } = await req.json();
     
     if (!Array.isArray(steps)) {
@@ -3,6 +3,7 @@ import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { withAuth } from '@/utils/auth-api';
 import { logger } from '@/utils/logger';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
 import { Step } from '@/types/database.types';
 
 /**
@@ -95,9 +96,9 @@ export const POST = withAuth(async (req: NextRequest, userId: string) => {
       );
     }
     
-    if (!body.instructions && !body.description) {
+    if (!body.instructions && !body.description && !body.name) {
       return NextResponse.json(
-        { error: 'Step instructions or description is required' },
+        { error: 'Step instructions, description or name is required' },
         { status: 400 }
       );
     }
@@ -127,6 +128,14 @@ export const POST = withAuth(async (req: NextRequest, userId: string) => {
       );
     }
     
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase, body.sop_id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
     // Determine order_index if not provided
     let orderIndex = body.order_index;
     if (orderIndex === undefined) {
@@ -242,6 +251,14 @@ export const PUT = withAuth(async (req: NextRequest, userId: string) => {
       );
     }
     
+    // Content is frozen while a review is open
+    if (await hasOutstandingReview(supabase, body.sop_id)) {
+      return NextResponse.json(
+        { error: REVIEW_IN_PROGRESS_MESSAGE },
+        { status: 409 }
+      );
+    }
+    
     // Update each step's order_index
     const updatePromises = body.steps.map(async (step: { id: string, order_index: number }) => {
       const { error } = await supabase
@@ -1,26 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authAdmin } from '@/utils/firebase-admin';
 import { createClient } from '@/utils/supabase/server'; // To verify SOP ownership
 import { serverLogger as logger } from '@/lib/logger/server-logger';
 import { handleApiError, UnauthorizedError, ForbiddenError, BadRequestError, ApiError } from '@/utils/api-error-handler';
-import { v4 as uuidv4 } from 'uuid'; // For generating unique filenames
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { getPrivateMediaStore, isMediaStoreError } from '@/utils/media-store';
+import { mediaStagingKey, readUploadedFile, saveStepMedia, validateMediaUpload } from '@/utils/step-media';
 
-const SOP_MEDIA_BUCKET = 'sop-media'; // Defined in custom_instructions (implicitly)
 const SIGNED_URL_EXPIRATION = 60 * 15; // 15 minutes in seconds
-const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB from custom_instructions
-const ALLOWED_CONTENT_TYPES = [ // From custom_instructions
-    'image/jpeg', 
-    'image/png', 
-    'image/gif', 
-    'video/mp4', 
-    'application/pdf'
-];
 
 /**
- * POST /api/upload-media - Generate a signed URL for uploading media to Firebase Storage.
+ * POST /api/upload-media - Upload media for a step through the configured media store.
+ * A multipart request (file, sopId, stepId) stores the file and returns its media record;
+ * a JSON request (filename, contentType, sopId, stepId) returns a signed URL the browser
+ * PUTs the file to, after which the storage key is registered via POST /api/media.
  */
 export async function POST(request: NextRequest) {
-    logger.info('POST /api/upload-media - Generating signed URL');
+    logger.info('POST /api/upload-media - Uploading media');
     try {
         // --- Get User Info from Middleware --- 
         const userId = request.headers.get('x-user-id');
@@ -39,18 +34,34 @@ export async function POST(request: NextRequest) {
         }
 
         // --- Parse Request Body --- 
-        let uploadRequest: { filename: string; contentType: string; sopId: string; stepId: string; };
+        const isMultipart = request.headers.get('content-type')?.includes('multipart/form-data');
+        let uploadRequest: { filename: string; contentType: string; sopId: string; stepId: string; size?: number; };
+        let file: File | null = null;
         try {
-            uploadRequest = await request.json();
-            const { filename, contentType, sopId, stepId } = uploadRequest;
+            if (isMultipart) {
+                const formData = await request.formData();
+                file = formData.get('file') as File | null;
+                if (!file) throw new BadRequestError('File is required');
+                uploadRequest = {
+                    filename: file.name,
+                    contentType: file.type,
+                    sopId: formData.get('sopId') as string,
+                    stepId: formData.get('stepId') as string,
+                    size: file.size,
+                };
+            } else {
+                uploadRequest = await request.json();
+            }
+            const { filename, contentType, sopId, stepId, size } = uploadRequest;
             if (!filename) throw new BadRequestError('Filename is required');
             if (!contentType) throw new BadRequestError('Content type is required');
             if (!sopId) throw new BadRequestError('SOP ID (sopId) is required');
             if (!stepId) throw new BadRequestError('Step ID (stepId) is required');
 
-            // Validate content type
-            if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
-                throw new BadRequestError(`Invalid content type: ${contentType}. Allowed types: ${ALLOWED_CONTENT_TYPES.join(', ')}`);
+            // Validate content type and size
+            const validationError = validateMediaUpload({ type: contentType, size });
+            if (validationError) {
+                throw new BadRequestError(validationError);
             }
 
         } catch (error) {
@@ -59,12 +70,12 @@ export async function POST(request: NextRequest) {
         }
         
         const { filename, contentType, sopId, stepId } = uploadRequest;
-        logger.debug(`POST /api/upload-media: User ${userId} requesting signed URL for ${filename} (${contentType}) for SOP ${sopId}/Step ${stepId}.`);
+        logger.debug(`POST /api/upload-media: User ${userId} uploading ${filename} (${contentType}) for SOP ${sopId}/Step ${stepId}.`);
 
         // --- Verify Step/SOP Ownership via Supabase --- 
         // Ensure the user owns the SOP associated with the step they're uploading to.
+        const supabase = createClient(); // JWT-authenticated client
         try {
-            const supabase = createClient(); // JWT-authenticated client
             // Fetch the step and its parent SOP, relying on RLS
             const { data: stepData, error: stepError } = await supabase
                 .from('steps')
@@ -100,43 +111,47 @@ export async function POST(request: NextRequest) {
              throw new ApiError('Failed to verify upload permissions', 500);
         }
 
-        // --- Generate Firebase Storage Path --- 
-        const fileExtension = filename.split('.').pop()?.toLowerCase() || '';
-        const uniqueFilename = `${uuidv4()}.${fileExtension}`;
-        // Example path structure: users/<user-id>/sops/<sop-id>/steps/<step-id>/<unique-filename>
-        const filePath = `users/${userId}/sops/${sopId}/steps/${stepId}/${uniqueFilename}`;
-
-        // --- Generate Firebase Storage Signed URL --- 
-        const options = {
-            version: 'v4' as const,
-            action: 'write' as const,
-            expires: Date.now() + SIGNED_URL_EXPIRATION * 1000, // Convert seconds to ms
-            contentType: contentType,
-            // Add size limit condition if Firebase Admin SDK supports it directly
-            // extensions: { 
-            //     conditions: [['content-length-range', 0, MAX_FILE_SIZE_BYTES]] 
-            // } // Note: Check Firebase documentation for exact syntax
-        };
+        const target = { sopId, stepId, userId };
+
+        // --- Direct upload: store the file and create its media record --- 
+        if (file) {
+            try {
+                const media = await saveStepMedia(
+                    supabase as unknown as SupabaseClient,
+                    target,
+                    await readUploadedFile(file)
+                );
+                logger.info(`POST /api/upload-media: Stored ${media.storage_key} for step ${stepId}`);
+                return NextResponse.json({ media }, { status: 201 });
+            } catch (error) {
+                logger.error('POST /api/upload-media: Error storing media', error instanceof Error ? error : undefined);
+                if (isMediaStoreError(error)) throw new ApiError(error.message, error.statusCode);
+                throw new ApiError('Failed to store media', 500);
+            }
+        }
+
+        // --- Signed upload: the browser PUTs the file to the private staging area, screened when registered --- 
+        const filePath = mediaStagingKey(sopId, stepId, filename);
         
         try {
-            const storage = authAdmin.storage(); // Get default storage instance
-            const bucket = storage.bucket(SOP_MEDIA_BUCKET); // Use the correct bucket name
-            const file = bucket.file(filePath);
-
-            // Generate the signed URL
-            const [signedUrl] = await file.getSignedUrl(options);
+            const signedUrl = await getPrivateMediaStore().signedUrl(filePath, {
+                method: 'PUT',
+                contentType,
+                expiresIn: SIGNED_URL_EXPIRATION,
+            });
             
             logger.info(`POST /api/upload-media: Generated signed URL for path: ${filePath}`);
 
-            // Return the signed URL and the final file path to the client
+            // Return the signed URL and the storage key to the client
             return NextResponse.json({
                 signedUrl,
-                filePath, // Client might need this to save the reference later
+                filePath, // Storage key to register through POST /api/media once uploaded
                 method: 'PUT', // Standard method for signed URLs
             });
 
         } catch (error) {
-            logger.error('POST /api/upload-media: Error generating Firebase signed URL', error);
+            logger.error('POST /api/upload-media: Error generating signed upload URL', error instanceof Error ? error : undefined);
+            if (isMediaStoreError(error)) throw new ApiError(error.message, error.statusCode);
             throw new ApiError('Failed to generate upload URL', 500);
         }
 
@@ -147,9 +162,3 @@ export async function POST(request: NextRequest) {
     }
 }
 
-// Remove old implementation details
-/*
-// ... ensureServerBucketExists function ...
-// ... serverUploadFile function ...
-// ... old POST handler logic using Supabase Storage ...
-*/ 
\ No newline at end of file
@@ -1,10 +1,13 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
 import Link from 'next/link';
 import { getToken } from '@/lib/auth';
+import SopImportButton from '@/components/SopImportButton';
+import { lintScoreStyle } from '@/components/SopLintPanel';
+import { lintSop } from '@/utils/sop-lint';
 
 /**
  * Dashboard page - only accessible to authenticated users
@@ -15,6 +18,12 @@ export default function DashboardPage() {
   const [isLoadingSOPs, setIsLoadingSOPs] = useState(true);
   const router = useRouter();
   
+  // Quality scores from the lint rules; the list already includes each SOP's steps
+  const qualityScores = useMemo(
+    () => new Map<string, number>(sops.map(sop => [sop.id, lintSop(sop, sop.steps || []).score])),
+    [sops]
+  );
+  
   // Fetch SOPs when the component mounts
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -84,12 +93,15 @@ export default function DashboardPage() {
       <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold text-gray-800">Your SOPs</h2>
-          <Link
-            href="/sop/create"
-            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
-          >
-            Create New SOP
-          </Link>
+          <div className="flex items-center gap-3">
+            <SopImportButton />
+            <Link
+              href="/sop/create"
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              Create New SOP
+            </Link>
+          </div>
         </div>
         
         {isLoadingSOPs ? (
@@ -104,9 +116,14 @@ export default function DashboardPage() {
                 <p className="text-gray-600 text-sm mb-4 line-clamp-2">{sop.description || 'No description'}</p>
                 
                 <div className="flex justify-between items-center">
-                  <span className="text-xs font-medium px-2 py-1 bg-blue-100 text-blue-800 rounded">
-                    {sop.status || 'Draft'}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium px-2 py-1 bg-blue-100 text-blue-800 rounded">
+                      {sop.status || 'Draft'}
+                    </span>
+                    <span className={`text-xs font-medium px-2 py-1 rounded ${lintScoreStyle(qualityScores.get(sop.id) ?? 0)}`} title="Quality score">
+                      Quality {qualityScores.get(sop.id) ?? 0}
+                    </span>
+                  </div>
                   <Link
                     href={`/sop/${sop.id}`}
                     className="text-primary-600 hover:text-primary-800 text-sm font-medium"
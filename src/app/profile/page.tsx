@@ -7,6 +7,8 @@ import { createBrowserClient } from '@/utils/supabase/client';
 import { toast } from 'react-hot-toast';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useToast } from '@/contexts/ToastContext';
+import AIUsagePanel from '@/components/AIUsagePanel';
+import NotificationPreferencesPanel from '@/components/NotificationPreferencesPanel';
 
 // Define types for user profile data
 type ProfileData = {
@@ -611,6 +613,10 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          <AIUsagePanel className="mt-6" />
+
+          <NotificationPreferencesPanel className="mt-6" />
+
           <div className="bg-white dark:bg-gray-800 shadow rounded-lg mt-6">
             <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700">
               <h2 className="text-lg font-medium text-gray-900 dark:text-white">Subscription</h2>
@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { StepCommentAnchor } from '@/types/database.types';
+import { decideSopReview, fetchReviewInbox, fetchStepComments, ReviewInboxItem } from '@/utils/api';
+import { formatDate } from '@/utils/date-helpers';
+import type { PlacedStepComment } from '@/utils/step-comments';
+import StepComments, { textSelectionIn } from '@/components/StepComments';
+
+/**
+ * Review Inbox Page
+ * Lists the SOPs waiting on the current user's approval, with inline
+ * comments on their steps
+ */
+export default function ReviewInboxPage() {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+  const [reviews, setReviews] = useState<ReviewInboxItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [stepComments, setStepComments] = useState<Record<string, PlacedStepComment[]>>({});
+  const [commentSelection, setCommentSelection] = useState<{ stepId: string; anchor: StepCommentAnchor } | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      setReviews(await fetchReviewInbox(token));
+    } catch (err) {
+      console.error('Error loading reviews:', err);
+      showToast('Failed to load reviews', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, showToast]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const loadStepComments = useCallback(async (sopId: string) => {
+    if (!currentUser) return;
+    try {
+      const token = await currentUser.getIdToken();
+      const { comments } = await fetchStepComments(token, sopId);
+      setStepComments(prev => ({ ...prev, [sopId]: comments }));
+    } catch (err) {
+      console.error('Error loading step comments:', err);
+      showToast('Failed to load step comments', 'error');
+    }
+  }, [currentUser, showToast]);
+
+  const handleExpand = (review: ReviewInboxItem) => {
+    if (expanded === review.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(review.id);
+    setCommentSelection(null);
+    loadStepComments(review.sops.id);
+  };
+
+  const handleDecision = async (review: ReviewInboxItem, decision: 'approved' | 'rejected') => {
+    if (!currentUser) return;
+    const comment = comments[review.id]?.trim();
+
+    if (decision === 'rejected' && !comment) {
+      showToast('Add a comment explaining the rejection', 'warning');
+      return;
+    }
+
+    setDecidingId(review.id);
+    try {
+      const token = await currentUser.getIdToken();
+      const updated = await decideSopReview(token, review.id, decision, comment);
+      showToast(
+        updated.status === 'approved'
+          ? `"${review.sops.title}" approved and published`
+          : decision === 'approved' ? 'Approval recorded' : 'Rejection recorded',
+        'success'
+      );
+      await loadReviews();
+    } catch (err) {
+      console.error('Error recording decision:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to record decision', 'error');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-t-4 border-blue-600 border-solid rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading reviews...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Reviews</h1>
+
+      {reviews.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 text-center">
+          <p className="text-gray-600 dark:text-gray-300">Nothing is waiting on your review.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="bg-white dark:bg-gray-800 shadow rounded-lg p-5">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900 dark:text-white">{review.sops.title}</h2>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Requested {formatDate(review.created_at)} · {review.quorum} approval(s) required
+                  </p>
+                </div>
+                {!review.can_decide && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                    Waiting for earlier reviewers
+                  </span>
+                )}
+              </div>
+
+              {review.message && (
+                <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 italic">{review.message}</p>
+              )}
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+                {review.sops.description || 'No description provided.'}
+              </p>
+
+              <button
+                onClick={() => handleExpand(review)}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                {expanded === review.id ? 'Hide steps' : `Show ${review.sops.steps?.length ?? 0} step(s)`}
+              </button>
+
+              {expanded === review.id && (
+                <ol className="mt-3 space-y-4 list-decimal list-inside text-sm text-gray-700 dark:text-gray-300">
+                  {[...(review.sops.steps || [])]
+                    .sort((a, b) => a.order_index - b.order_index)
+                    .map(step => (
+                      <li key={step.id}>
+                        <span className="font-medium">{step.name}</span>
+                        <div className="ml-5 mt-1 flex flex-col md:flex-row gap-4">
+                          <div className="flex-1 min-w-0">
+                            {step.instructions && (
+                              <p
+                                className="text-gray-600 dark:text-gray-400 whitespace-pre-line"
+                                onMouseUp={(e) => {
+                                  const anchor = textSelectionIn(e.currentTarget);
+                                  if (anchor) setCommentSelection({ stepId: step.id, anchor });
+                                }}
+                              >
+                                {step.instructions}
+                              </p>
+                            )}
+                          </div>
+                          <StepComments
+                            sopId={review.sops.id}
+                            stepId={step.id}
+                            comments={(stepComments[review.sops.id] || []).filter(comment => comment.step_id === step.id)}
+                            selection={commentSelection?.stepId === step.id ? commentSelection.anchor : null}
+                            onChange={() => loadStepComments(review.sops.id)}
+                            className="md:w-72 shrink-0"
+                          />
+                        </div>
+                      </li>
+                    ))}
+                </ol>
+              )}
+
+              {review.can_decide && (
+                <div className="mt-4 space-y-2">
+                  <textarea
+                    value={comments[review.id] || ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [review.id]: e.target.value }))}
+                    rows={2}
+                    placeholder="Comment (required when rejecting)"
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleDecision(review, 'approved')}
+                      disabled={decidingId === review.id}
+                      className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleDecision(review, 'rejected')}
+                      disabled={decidingId === review.id}
+                      className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
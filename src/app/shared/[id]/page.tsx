@@ -1 +1,381 @@
- 
\ No newline at end of file
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useParams, useRouter } from 'next/navigation';
+import { SOP, Step, Media, MediaChapter } from '@/types/database.types';
+import AskSopPanel from '@/components/AskSopPanel';
+import SharedComments from '@/components/SharedComments';
+import AnnotatedImage from '@/components/AnnotatedImage';
+import { MEDIA_VARIANT_WIDTHS, mediaPosterUrl, mediaVariantUrl } from '@/utils/media-variants';
+import { chaptersForStep, formatTimestamp } from '@/utils/media-chapters';
+import type { PublicPublishSettings, ShareAccessReason } from '@/utils/share-access';
+
+type SharedSopData = SOP & {
+  publish_settings?: PublicPublishSettings | null;
+};
+
+type SharedStep = Step & { title?: string; media: Media[] };
+
+/**
+ * Public view of a published SOP
+ */
+export default function SharedSopPage() {
+  const params = useParams<{ id: string }>();
+  const id = params.id;
+  const router = useRouter();
+
+  const [sop, setSop] = useState<SharedSopData | null>(null);
+  const [steps, setSteps] = useState<SharedStep[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [viewId, setViewId] = useState<string | null>(null);
+  const [pinnedVersion, setPinnedVersion] = useState<number | null>(null);
+  const maxStepRef = useRef(0);
+  const videoRefs = useRef<Record<string, HTMLVideoElement | null>>({});
+
+  // Every video with chapters, so a step can link into a walkthrough attached elsewhere
+  const chapteredVideos = useMemo(() => steps.flatMap(step => step.media
+    .filter(mediaItem => mediaItem.type === 'video' && mediaItem.chapters?.length)
+  ), [steps]);
+
+  const stepChapters = (stepId: string) => chapteredVideos.flatMap(video =>
+    chaptersForStep(video.chapters, stepId).map(chapter => ({ mediaId: video.id, chapter }))
+  );
+
+  const stepNumber = (stepId: string) => steps.findIndex(step => step.id === stepId) + 1;
+
+  const jumpToChapter = (mediaId: string, chapter: MediaChapter) => {
+    const video = videoRefs.current[mediaId];
+    if (!video) return;
+    video.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    video.currentTime = chapter.time;
+    video.play().catch(() => {
+      // Autoplay may be blocked; the video is still at the right time
+    });
+  };
+
+  const loadSharedSop = useCallback(async () => {
+    if (!id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/shared/${id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        const reason = data.reason as ShareAccessReason | undefined;
+        if (reason === 'auth_required') {
+          router.replace(`/auth/signin?redirectTo=${encodeURIComponent(`/shared/${id}`)}`);
+          return;
+        }
+        if (reason === 'password_required') {
+          setNeedsPassword(true);
+          return;
+        }
+        throw new Error(data.error || 'Failed to load SOP');
+      }
+
+      setNeedsPassword(false);
+      setSop(data.sop);
+      setSteps(data.steps || []);
+      setViewId(data.view_id || null);
+      setPinnedVersion(data.link?.version_number ?? null);
+    } catch (err) {
+      console.error('Error loading shared SOP:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load SOP');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, router]);
+
+  useEffect(() => {
+    loadSharedSop();
+  }, [loadSharedSop]);
+
+  // Report the furthest step scrolled into view, once per new step
+  useEffect(() => {
+    if (!viewId || steps.length === 0) return;
+    maxStepRef.current = 0;
+
+    const observer = new IntersectionObserver((entries) => {
+      const reached = entries
+        .filter(entry => entry.isIntersecting)
+        .map(entry => Number(entry.target.id.replace('step-', '')))
+        .reduce((max, step) => Math.max(max, step), 0);
+
+      if (reached > maxStepRef.current) {
+        maxStepRef.current = reached;
+        fetch(`/api/shared/${id}/views`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ view_id: viewId, step: reached }),
+          keepalive: true,
+        }).catch(err => console.warn('Failed to report scroll depth:', err));
+      }
+    }, { threshold: 0.5 });
+
+    steps.forEach((_, index) => {
+      const element = document.getElementById(`step-${index + 1}`);
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [id, viewId, steps]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setPasswordError(null);
+    try {
+      const response = await fetch(`/api/shared/${id}/access`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlock SOP');
+      }
+
+      setPassword('');
+      await loadSharedSop();
+    } catch (err) {
+      setPasswordError(err instanceof Error ? err.message : 'Failed to unlock SOP');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen bg-white">
+        <div className="flex flex-col items-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mb-4"></div>
+          <p className="text-gray-700 font-medium">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (needsPassword) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <form onSubmit={handleUnlock} className="max-w-md mx-auto mt-16 bg-white rounded-lg shadow-md border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Password Required</h2>
+          <p className="text-sm text-gray-600">This SOP is password protected. Enter the password you were given to view it.</p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            className="w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500"
+            aria-label="Password"
+          />
+          {passwordError && <p className="text-sm text-red-600">{passwordError}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking || !password}
+            className="btn btn-primary w-full px-4 py-2 disabled:opacity-50"
+          >
+            {isUnlocking ? 'Checking...' : 'View SOP'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (error || !sop) {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-4xl mx-auto p-6 rounded-lg border border-amber-200 bg-amber-50">
+          <h2 className="text-lg font-semibold text-amber-700 mb-2">SOP Not Available</h2>
+          <p className="text-amber-600">{error || 'This SOP could not be found or is no longer published.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Both are on unless the owner turned them off
+  const allowPrinting = sop.publish_settings?.allowPrinting !== false;
+  const allowDownload = sop.publish_settings?.allowDownload !== false;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        {(allowPrinting || allowDownload) && (
+          <div className="flex justify-end gap-3 mb-4 print:hidden">
+            {allowPrinting && (
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="px-3 py-1.5 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+              >
+                Print
+              </button>
+            )}
+            {allowDownload && (
+              <a
+                href={`/api/shared/${id}/export`}
+                className="px-3 py-1.5 rounded bg-primary-600 text-white hover:bg-primary-700"
+              >
+                Download PDF
+              </a>
+            )}
+          </div>
+        )}
+
+        {!allowPrinting && (
+          <p className="hidden print:block text-center text-gray-700 py-12">
+            Printing is not enabled for this SOP.
+          </p>
+        )}
+
+        <div className={`bg-white rounded-lg shadow-lg overflow-hidden border border-gray-200 print:shadow-none print:border-none ${allowPrinting ? '' : 'print:hidden'}`}>
+          <div className="bg-primary-50 p-8 border-b border-primary-100 text-center">
+            <h1 className="text-4xl font-bold text-primary-800 mb-3">{sop.title}</h1>
+            {sop.category && (
+              <div className="inline-block px-3 py-1 bg-primary-100 text-primary-800 rounded-full text-sm font-medium mb-4">
+                {sop.category}
+              </div>
+            )}
+            {pinnedVersion !== null && (
+              <div className="inline-block ml-2 px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm font-medium mb-4">
+                Version {pinnedVersion}
+              </div>
+            )}
+            {sop.description && (
+              <p className="text-gray-700 max-w-3xl mx-auto leading-relaxed">
+                {sop.description}
+              </p>
+            )}
+          </div>
+
+          <div className="p-8">
+            <h2 className="text-2xl font-bold text-gray-800 mb-8 pb-2 border-b border-gray-200">
+              Procedure Steps
+            </h2>
+
+            {steps.length > 0 ? (
+              <ol className="space-y-10">
+                {steps.map((step, index) => (
+                  <li key={step.id} id={`step-${index + 1}`} className="flex gap-4 sm:gap-6 scroll-mt-8">
+                    <div className="flex-shrink-0 w-12 h-12 bg-primary-600 rounded-full flex items-center justify-center">
+                      <span className="text-xl font-bold text-white">{index + 1}</span>
+                    </div>
+                    <div className="flex-grow space-y-3">
+                      <h3 className="text-xl font-semibold text-gray-800">{step.title || `Step ${index + 1}`}</h3>
+                      <div className="text-gray-700 whitespace-pre-line bg-gray-50 p-4 rounded-lg border border-gray-200">
+                        {step.instructions || <em className="text-gray-500">No instructions provided</em>}
+                      </div>
+                      {step.safety_notes && (
+                        <div className="p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+                          <span className="font-medium">Safety: </span>{step.safety_notes}
+                        </div>
+                      )}
+                      {step.verification && (
+                        <div className="p-3 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800">
+                          <span className="font-medium">Verification: </span>{step.verification}
+                        </div>
+                      )}
+                      {stepChapters(step.id).length > 0 && (
+                        <div className="flex flex-wrap gap-2 print:hidden">
+                          {stepChapters(step.id).map(({ mediaId, chapter }) => (
+                            <button
+                              key={`${mediaId}-${chapter.time}`}
+                              type="button"
+                              onClick={() => jumpToChapter(mediaId, chapter)}
+                              className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-primary-200 bg-primary-50 text-sm text-primary-700 hover:bg-primary-100"
+                            >
+                              ▶ Watch this step at {formatTimestamp(chapter.time)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {step.media.map((mediaItem) => (
+                        <figure key={mediaItem.id} className="border rounded-lg overflow-hidden bg-white">
+                          {mediaItem.type === 'video' ? (
+                            <>
+                              <video
+                                ref={element => { videoRefs.current[mediaItem.id] = element; }}
+                                controls
+                                preload="metadata"
+                                src={mediaItem.url}
+                                poster={mediaPosterUrl(mediaItem)}
+                                width={mediaItem.width ?? undefined}
+                                height={mediaItem.height ?? undefined}
+                                className="w-full h-auto max-w-2xl mx-auto"
+                              >
+                                Your browser does not support the video tag.
+                              </video>
+                              {(mediaItem.duration_seconds || mediaItem.chapters?.length) ? (
+                                <div className="px-3 py-2 border-t border-gray-200 text-sm text-gray-600 flex flex-wrap items-center gap-x-3 gap-y-1">
+                                  {mediaItem.duration_seconds ? (
+                                    <span className="font-medium">{formatTimestamp(mediaItem.duration_seconds)}</span>
+                                  ) : null}
+                                  {(mediaItem.chapters || []).map(chapter => (
+                                    <button
+                                      key={`${chapter.step_id}-${chapter.time}`}
+                                      type="button"
+                                      onClick={() => jumpToChapter(mediaItem.id, chapter)}
+                                      className="text-primary-700 hover:underline print:no-underline"
+                                    >
+                                      <span className="font-mono">{formatTimestamp(chapter.time)}</span>{' '}
+                                      {chapter.label || (stepNumber(chapter.step_id) ? `Step ${stepNumber(chapter.step_id)}` : 'Chapter')}
+                                    </button>
+                                  ))}
+                                </div>
+                              ) : null}
+                            </>
+                          ) : mediaItem.annotations?.length ? (
+                            <AnnotatedImage
+                              src={mediaVariantUrl(mediaItem, MEDIA_VARIANT_WIDTHS.large)}
+                              width={mediaItem.width}
+                              height={mediaItem.height}
+                              annotations={mediaItem.annotations}
+                              alt={mediaItem.caption || `Media for step ${index + 1}`}
+                              className="w-full max-h-96"
+                            />
+                          ) : (
+                            <Image
+                              src={mediaItem.url}
+                              alt={mediaItem.caption || `Media for step ${index + 1}`}
+                              width={mediaItem.width || 1280}
+                              height={mediaItem.height || 720}
+                              sizes="(max-width: 768px) 100vw, 768px"
+                              className="w-full h-auto max-h-96 object-contain"
+                            />
+                          )}
+                          {mediaItem.caption && (
+                            <figcaption className="p-2 bg-gray-100 border-t border-gray-200 text-center text-gray-800">
+                              {mediaItem.caption}
+                            </figcaption>
+                          )}
+                        </figure>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-center text-gray-600 py-12">This SOP has no steps yet.</p>
+            )}
+          </div>
+        </div>
+
+        {sop.publish_settings?.allowQuestions && (
+          <AskSopPanel sopId={id} className="mt-8 print:hidden" />
+        )}
+
+        {sop.publish_settings?.allowComments && (
+          <SharedComments shareId={id} className="mt-8 print:hidden" />
+        )}
+      </div>
+    </div>
+  );
+}
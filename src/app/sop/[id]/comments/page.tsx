@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { SopCommentStatus } from '@/types/database.types';
+import { fetchSopComments, moderateSopComments, replyToSopComment } from '@/utils/api';
+import { formatDate } from '@/utils/date-helpers';
+import type { ModerationCounts, ModerationQueueItem } from '@/utils/sop-comments';
+
+type ModerationAction = Exclude<SopCommentStatus, 'pending'>;
+
+const STATUS_TABS: { status: SopCommentStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+  { status: 'spam', label: 'Spam' },
+];
+
+const ACTIONS: { status: ModerationAction; label: string; className: string }[] = [
+  { status: 'approved', label: 'Approve', className: 'bg-green-600 text-white hover:bg-green-700' },
+  { status: 'rejected', label: 'Reject', className: 'bg-red-600 text-white hover:bg-red-700' },
+  { status: 'spam', label: 'Spam', className: 'bg-gray-600 text-white hover:bg-gray-700' },
+];
+
+const EMPTY_COUNTS: ModerationCounts = { pending: 0, approved: 0, rejected: 0, spam: 0 };
+
+/**
+ * Comment Moderation Page
+ * Inbox of the comments left on an SOP's share links: approve, reject or mark
+ * them as spam one by one or in bulk, and reply to them
+ */
+export default function SopCommentsPage() {
+  const params = useParams<{ id: string }>();
+  const id = params.id;
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [status, setStatus] = useState<SopCommentStatus>('pending');
+  const [comments, setComments] = useState<ModerationQueueItem[]>([]);
+  const [counts, setCounts] = useState<ModerationCounts>(EMPTY_COUNTS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+
+  const loadComments = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const queue = await fetchSopComments(token, id, status);
+      setComments(queue.comments);
+      setCounts(queue.counts || EMPTY_COUNTS);
+      setSelected(new Set());
+    } catch (err) {
+      console.error('Error loading comments:', err);
+      showToast('Failed to load comments', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, id, status, showToast]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const toggleSelected = (commentId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = comments.length > 0 && selected.size === comments.length;
+
+  const handleModerate = async (ids: string[], action: ModerationAction) => {
+    if (!currentUser || ids.length === 0) return;
+    setIsUpdating(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const updated = await moderateSopComments(token, id, ids, action);
+      showToast(`${updated.length} comment${updated.length === 1 ? '' : 's'} marked as ${action}`, 'success');
+      await loadComments();
+    } catch (err) {
+      console.error('Error moderating comments:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to update comments', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleReply = async (comment: ModerationQueueItem) => {
+    if (!currentUser || !replyText.trim()) return;
+    setIsUpdating(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await replyToSopComment(token, id, comment.id, replyText.trim());
+      showToast(comment.status === 'pending' ? 'Comment approved and reply posted' : 'Reply posted', 'success');
+      setReplyingTo(null);
+      setReplyText('');
+      await loadComments();
+    } catch (err) {
+      console.error('Error replying to comment:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to post reply', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Comments</h1>
+        <Link href={`/sop/${id}/publish`} className="text-sm text-blue-600 hover:text-blue-800">
+          Back to sharing
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4" role="tablist">
+        {STATUS_TABS.map(tab => (
+          <button
+            key={tab.status}
+            role="tab"
+            aria-selected={status === tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              status === tab.status
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600'
+            }`}
+          >
+            {tab.label} ({counts[tab.status] ?? 0})
+          </button>
+        ))}
+      </div>
+
+      {comments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 bg-white dark:bg-gray-800 shadow rounded-lg px-4 py-3">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(comments.map(comment => comment.id)))}
+              className="rounded border-gray-300"
+            />
+            {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+          </label>
+          <div className="flex gap-2">
+            {ACTIONS.filter(action => action.status !== status).map(action => (
+              <button
+                key={action.status}
+                onClick={() => handleModerate(Array.from(selected), action.status)}
+                disabled={isUpdating || selected.size === 0}
+                className={`px-3 py-1.5 rounded text-sm disabled:opacity-50 ${action.className}`}
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="w-12 h-12 border-t-4 border-blue-600 border-solid rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading comments...</p>
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 text-center">
+          <p className="text-gray-600 dark:text-gray-300">
+            {status === 'pending' ? 'No comments are waiting for moderation.' : `No ${status} comments.`}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map(comment => (
+            <li key={comment.id} className="bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(comment.id)}
+                  onChange={() => toggleSelected(comment.id)}
+                  aria-label={`Select comment by ${comment.author_name}`}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {comment.author_name}
+                    {comment.author_id && <span className="ml-2 text-xs font-normal text-gray-500">signed in</span>}
+                    {comment.is_owner_reply && <span className="ml-2 text-xs font-normal text-blue-600">you</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(comment.created_at)}</p>
+
+                  {comment.parent && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 border-l-2 border-gray-300 pl-2 truncate">
+                      Reply to {comment.parent.author_name}: {comment.parent.content}
+                    </p>
+                  )}
+
+                  <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{comment.content}</p>
+
+                  {comment.spam_reasons?.length > 0 && (
+                    <p className="mt-2 text-xs text-amber-700">
+                      Spam score {comment.spam_score}: {comment.spam_reasons.join('; ')}
+                    </p>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {ACTIONS.filter(action => action.status !== comment.status).map(action => (
+                      <button
+                        key={action.status}
+                        onClick={() => handleModerate([comment.id], action.status)}
+                        disabled={isUpdating}
+                        className={`px-3 py-1 rounded text-xs disabled:opacity-50 ${action.className}`}
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                    {!comment.parent_id && (comment.status === 'pending' || comment.status === 'approved') && (
+                      <button
+                        onClick={() => {
+                          setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                          setReplyText('');
+                        }}
+                        className="px-3 py-1 rounded text-xs text-blue-600 border border-blue-200 hover:bg-blue-50"
+                      >
+                        Reply
+                      </button>
+                    )}
+                  </div>
+
+                  {replyingTo === comment.id && (
+                    <div className="mt-3 space-y-2">
+                      <textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        rows={3}
+                        maxLength={2000}
+                        placeholder={comment.status === 'pending' ? 'Replying approves this comment' : 'Write a reply'}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                      <button
+                        onClick={() => handleReply(comment)}
+                        disabled={isUpdating || !replyText.trim()}
+                        className="px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Post reply
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
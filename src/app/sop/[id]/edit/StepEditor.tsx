@@ -6,6 +6,9 @@ import { twMerge } from 'tailwind-merge';
 import { formatDistanceToNow } from 'date-fns';
 import { Step, Media } from '@/types/sop';
 import MediaPreview from '@/components/MediaPreview';
+import { useAuth } from '@/contexts/AuthContext';
+import { updateMediaAnnotations } from '@/utils/api';
+import { MediaAnnotation } from '@/types/database.types';
 import DropZone from '@/components/ui/DropZone';
 import { debounce } from 'lodash';
 
@@ -30,6 +33,7 @@ export default function StepEditor({ step, onUpdateStep, onDeleteStep, onGenerat
   const [editMediaId, setEditMediaId] = useState<string | null>(null);
   const [highlightedCaption, setHighlightedCaption] = useState<string | null>(null);
   const mediaInputRef = useRef<HTMLInputElement>(null);
+  const { currentUser } = useAuth();
   
   const { register, control, watch } = useForm<FormValues>({
     defaultValues: {
@@ -155,6 +159,17 @@ export default function StepEditor({ step, onUpdateStep, onDeleteStep, onGenerat
     }
   };
   
+  const handleMediaAnnotations = async (mediaId: string, annotations: MediaAnnotation[]) => {
+    if (!currentUser) return;
+    const token = await currentUser.getIdToken();
+    const saved = await updateMediaAnnotations(token, mediaId, annotations);
+    if (step.media) {
+      onUpdateStep(step.id, {
+        media: step.media.map(m => (m.id === mediaId ? { ...m, annotations: saved.annotations } : m))
+      });
+    }
+  };
+  
   const handleMediaCaption = (mediaId: string, caption: string) => {
     if (step.media) {
       const updatedMedia = step.media.map(m => {
@@ -349,7 +364,10 @@ export default function StepEditor({ step, onUpdateStep, onDeleteStep, onGenerat
                         highlightedCaption === media.id ? 'ring-2 ring-indigo-500 dark:ring-indigo-400' : ''
                       }`}
                     >
-                      <MediaPreview media={media} />
+                      <MediaPreview
+                        media={media}
+                        onSaveAnnotations={(annotations) => handleMediaAnnotations(media.id, annotations)}
+                      />
                       
                       <div className="p-2" id={`caption-${media.id}`}>
                         {editMediaId === media.id ? (
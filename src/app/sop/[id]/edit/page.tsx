@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter, useParams, useSearchParams } from 'next/navigation';
-import { SOP, Step, MediaType } from '@/types/database.types';
+import { SOP, Step, Media, MediaType, MediaChapter, StepComment, StepCommentAnchor } from '@/types/database.types';
 import { 
   fetchSopDetails, 
   addStep, 
@@ -11,9 +11,18 @@ import {
   updateSOP,
   deleteStep, 
   uploadMedia, 
-  generateInstructions 
+  generateInstructions,
+  updateMediaChapters,
+  fetchStepComments
 } from '@/utils/api';
 import StepEditor from '@/components/StepEditor';
+import VersionHistory from '@/components/VersionHistory';
+import ReviewPanel from '@/components/ReviewPanel';
+import SopLintPanel from '@/components/SopLintPanel';
+import StepLintFindings from '@/components/StepLintFindings';
+import StepComments from '@/components/StepComments';
+import { LintFinding, findingsForStep, lintSop } from '@/utils/sop-lint';
+import { countOpenComments, placeStepComments } from '@/utils/step-comments';
 import { useToast } from '@/contexts/ToastContext';
 
 export default function EditSopPage() {
@@ -36,6 +45,19 @@ export default function EditSopPage() {
   const [sopDescription, setSopDescription] = useState('');
   const [theme, setTheme] = useState<string>('default');
   const [showStepNav, setShowStepNav] = useState(false);
+  const [aiFindings, setAIFindings] = useState<LintFinding[]>([]);
+  const [stepComments, setStepComments] = useState<StepComment[]>([]);
+  const [commentSelection, setCommentSelection] = useState<{ stepId: string; anchor: StepCommentAnchor } | null>(null);
+  
+  // Lint the SOP as it is being edited; AI findings come from an explicit review
+  const lint = useMemo(() => {
+    const report = lintSop({ title: sopTitle, description: sopDescription, definitions: sop?.definitions }, steps);
+    return { score: report.score, findings: [...report.findings, ...aiFindings] };
+  }, [sopTitle, sopDescription, sop?.definitions, steps, aiFindings]);
+  
+  // Comment ranges follow the instructions as they are edited
+  const placedComments = useMemo(() => placeStepComments(stepComments, steps), [stepComments, steps]);
+  const openCommentCounts = useMemo(() => countOpenComments(stepComments), [stepComments]);
   
   // Add ref for scrolling to bottom
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -101,6 +123,21 @@ export default function EditSopPage() {
     }
   }, [currentUser, loading, router, id, loadSopData]);
 
+  const loadStepComments = useCallback(async () => {
+    if (!currentUser || !id) return;
+    try {
+      const token = await currentUser.getIdToken();
+      const { comments } = await fetchStepComments(token, id);
+      setStepComments(comments);
+    } catch (err) {
+      console.error('Error loading step comments:', err);
+    }
+  }, [currentUser, id]);
+
+  useEffect(() => {
+    loadStepComments();
+  }, [loadStepComments]);
+
   const handleSaveSOP = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser || !id) return;
@@ -274,6 +311,25 @@ export default function EditSopPage() {
     }
   };
 
+  const handleSaveChapters = async (stepId: string, mediaId: string, chapters: MediaChapter[]) => {
+    if (!currentUser) return;
+
+    try {
+      const token = await currentUser.getIdToken();
+      const saved = await updateMediaChapters(token, mediaId, chapters);
+      setSteps(prevSteps => prevSteps.map(step => {
+        if (step.id !== stepId) return step;
+        const media = (step as Step & { media?: Media[] }).media;
+        return { ...step, media: media?.map(m => (m.id === mediaId ? { ...m, chapters: saved.chapters } : m)) };
+      }));
+      showSuccess('Chapters saved');
+    } catch (err) {
+      console.error('Failed to save chapters:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save chapters');
+      throw err;
+    }
+  };
+
   const handleDeleteStep = async (stepId: string) => {
     if (!currentUser) return;
     try {
@@ -338,220 +394,106 @@ export default function EditSopPage() {
     console.log(`Starting upload ${uploadId} for file: ${file.name}, type: ${mediaType}, size: ${file.size} bytes`);
     
     try {
-      // Server-side upload approach (primary method)
+      // The server screens the file and records it; a failed upload is not
+      // retried around it, so the server's reason is shown as is
+      const token = await currentUser.getIdToken();
+      console.log(`Upload ${uploadId}: Sending upload request to server...`);
+      
+      // Make a direct API call to the upload endpoint
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('sopId', id);
+      formData.append('stepId', stepId);
+      formData.append('type', mediaType);
+      
+      // Upload through the server
+      const response = await fetch('/api/upload-media', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        },
+        body: formData
+      });
+      
+      console.log(`Upload ${uploadId}: Response status:`, response.status, response.statusText);
+      
+      // Clone the response for debugging in case parsing JSON fails
+      const responseClone = response.clone();
+      
+      let responseText;
+      let responseData;
       try {
-        const token = await currentUser.getIdToken();
-        console.log(`Upload ${uploadId}: Sending upload request to server...`);
-        
-        // Make a direct API call to the upload endpoint
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('sopId', id);
-        formData.append('stepId', stepId);
-        formData.append('type', mediaType);
-        
-        // First try - normal fetch
-        const response = await fetch('/api/upload-media', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`
-          },
-          body: formData
-        });
-        
-        console.log(`Upload ${uploadId}: Response status:`, response.status, response.statusText);
-        
-        // Clone the response for debugging in case parsing JSON fails
-        const responseClone = response.clone();
-        
-        let responseText;
-        let responseData;
-        try {
-          responseText = await responseClone.text();
-          console.log(`Upload ${uploadId}: Raw response:`, responseText);
-          
-          // Try to parse the response text as JSON if it's not empty
-          if (responseText && responseText.trim()) {
-            try {
-              responseData = JSON.parse(responseText);
-              console.log(`Upload ${uploadId}: Parsed response data:`, responseData);
-            } catch (jsonError) {
-              console.error(`Upload ${uploadId}: Error parsing response as JSON:`, jsonError);
-            }
+        responseText = await responseClone.text();
+        console.log(`Upload ${uploadId}: Raw response:`, responseText);
+        
+        // Try to parse the response text as JSON if it's not empty
+        if (responseText && responseText.trim()) {
+          try {
+            responseData = JSON.parse(responseText);
+            console.log(`Upload ${uploadId}: Parsed response data:`, responseData);
+          } catch (jsonError) {
+            console.error(`Upload ${uploadId}: Error parsing response as JSON:`, jsonError);
           }
-        } catch (textError) {
-          console.error(`Upload ${uploadId}: Error reading response text:`, textError);
         }
+      } catch (textError) {
+        console.error(`Upload ${uploadId}: Error reading response text:`, textError);
+      }
+      
+      if (!response.ok) {
+        let errorMessage = `Upload failed with status ${response.status}`;
         
-        if (!response.ok) {
-          let errorMessage = `Upload failed with status ${response.status}`;
+        // Extract detailed error information from the response if available
+        if (responseData) {
+          console.error(`Upload ${uploadId}: Upload response error data:`, responseData);
           
-          // Extract detailed error information from the response if available
-          if (responseData) {
-            console.error(`Upload ${uploadId}: Upload response error data:`, responseData);
-            
-            if (responseData.error) {
-              errorMessage = responseData.error;
-            }
-            
-            if (responseData.message) {
-              errorMessage += `: ${responseData.message}`;
-            }
-            
-            if (responseData.details) {
-              console.error(`Upload ${uploadId}: Detailed error:`, responseData.details);
-              
-              // If there's a specific code or message in the details, include it
-              if (typeof responseData.details === 'object') {
-                if (responseData.details.code) {
-                  errorMessage += ` (code: ${responseData.details.code})`;
-                }
-                if (responseData.details.message && responseData.details.message !== responseData.message) {
-                  errorMessage += ` - ${responseData.details.message}`;
-                }
-              }
-            }
+          if (responseData.error) {
+            errorMessage = responseData.error;
           }
           
-          throw new Error(errorMessage);
-        }
-        
-        let data;
-        try {
-          // Try to parse the successful response as JSON
-          if (responseText && responseText.trim()) {
-            data = JSON.parse(responseText);
-          } else {
-            throw new Error('Empty response from server');
+          if (responseData.message) {
+            errorMessage += `: ${responseData.message}`;
           }
-          console.log(`Upload ${uploadId}: Upload response data:`, data);
-        } catch (jsonError) {
-          console.error(`Upload ${uploadId}: Error parsing success response:`, jsonError);
-          throw new Error('Failed to parse upload response');
-        }
-        
-        if (!data || !data.media) {
-          console.error(`Upload ${uploadId}: Invalid response data - missing media object:`, data);
-          throw new Error('Server response missing media data');
-        }
-        
-        // Return the uploaded media object
-        return data.media;
-        
-      } catch (serverError) {
-        // If server-side upload fails, try client-side direct upload as fallback
-        console.error(`Upload ${uploadId}: Server-side upload failed, trying direct client upload:`, serverError);
-        
-        // Get fresh Supabase credentials
-        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-        const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-        
-        if (!supabaseUrl || !supabaseAnonKey) {
-          throw new Error('Missing Supabase configuration');
-        }
-        
-        console.log(`Upload ${uploadId}: Attempting direct client-side upload to Supabase...`);
-        
-        // We'll need to dynamically import Supabase to avoid SSR issues
-        const { createClient } = await import('@supabase/supabase-js');
-        const supabase = createClient(supabaseUrl, supabaseAnonKey);
-        
-        // First, ensure we're authenticated with Supabase
-        const idToken = await currentUser.getIdToken();
-        const { error: signInError } = await supabase.auth.signInWithIdToken({
-          provider: 'google',
-          token: idToken,
-        });
-        
-        if (signInError) {
-          console.error(`Upload ${uploadId}: Supabase auth error:`, signInError);
-          // Continue anyway - we might still be able to upload as anonymous
-        }
-        
-        // Attempt to create bucket if needed via RPC
-        try {
-          await supabase.rpc('admin_create_storage_bucket', {
-            p_id: 'media',
-            p_name: 'media',
-            p_public: true,
-            p_file_size_limit: 50000000
-          });
-          console.log(`Upload ${uploadId}: Bucket creation attempted via RPC`);
-        } catch (bucketError) {
-          console.warn(`Upload ${uploadId}: Bucket creation RPC failed (non-critical):`, bucketError);
-        }
-        
-        // Prepare file path
-        const fileExtension = file.name.split('.').pop() || 'jpg';
-        const storageFileName = `${id}/${stepId}/${mediaType}_${Date.now()}.${fileExtension}`;
-        
-        // Upload directly from client
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('media')
-          .upload(storageFileName, file, {
-            cacheControl: '3600',
-            upsert: true
-          });
-          
-        if (uploadError) {
-          console.error(`Upload ${uploadId}: Direct client upload failed:`, uploadError);
-          throw new Error(`Direct upload failed: ${uploadError.message}`);
-        }
-        
-        if (!uploadData || !uploadData.path) {
-          console.error(`Upload ${uploadId}: Upload succeeded but no path returned`);
-          throw new Error('Upload succeeded but no file path returned');
-        }
-        
-        // Get public URL
-        const { data: urlData } = supabase.storage
-          .from('media')
-          .getPublicUrl(uploadData.path);
           
-        if (!urlData || !urlData.publicUrl) {
-          console.error(`Upload ${uploadId}: Failed to get public URL`);
-          throw new Error('Failed to get public URL');
+          if (responseData.details) {
+            console.error(`Upload ${uploadId}: Detailed error:`, responseData.details);
+            
+            // If there's a specific code or message in the details, include it
+            if (typeof responseData.details === 'object') {
+              if (responseData.details.code) {
+                errorMessage += ` (code: ${responseData.details.code})`;
+              }
+              if (responseData.details.message && responseData.details.message !== responseData.message) {
+                errorMessage += ` - ${responseData.details.message}`;
+              }
+            }
+          }
         }
         
-        const mediaUrl = urlData.publicUrl;
-        console.log(`Upload ${uploadId}: Direct client upload succeeded with URL:`, mediaUrl);
-        
-        // Create a synthetic media object to return since we bypassed the server API
-        const syntheticMedia = {
-          id: `client_${Date.now()}`,
-          step_id: stepId,
-          type: mediaType,
-          url: mediaUrl,
-          filename: file.name,
-          size_bytes: file.size,
-          created_at: new Date().toISOString(),
-        };
-        
-        // Try to save the media reference through the API
-        try {
-          const token = await currentUser.getIdToken();
-          await fetch('/api/media', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              stepId,
-              mediaType,
-              url: mediaUrl,
-              filename: file.name,
-              size: file.size
-            })
-          });
-          console.log(`Upload ${uploadId}: Media reference saved to database`);
-        } catch (saveError) {
-          console.warn(`Upload ${uploadId}: Failed to save media reference (non-critical):`, saveError);
-          // Continue anyway - we'll return the synthetic object
+        throw new Error(errorMessage);
+      }
+      
+      let data;
+      try {
+        // Try to parse the successful response as JSON
+        if (responseText && responseText.trim()) {
+          data = JSON.parse(responseText);
+        } else {
+          throw new Error('Empty response from server');
         }
-        
-        return syntheticMedia;
+        console.log(`Upload ${uploadId}: Upload response data:`, data);
+      } catch (jsonError) {
+        console.error(`Upload ${uploadId}: Error parsing success response:`, jsonError);
+        throw new Error('Failed to parse upload response');
       }
+      
+      if (!data || !data.media) {
+        console.error(`Upload ${uploadId}: Invalid response data - missing media object:`, data);
+        throw new Error('Server response missing media data');
+      }
+      
+      // Return the uploaded media object
+      return data.media;
+      
     } catch (err) {
       console.error(`Upload ${uploadId}: Error uploading media:`, err);
       setError(err instanceof Error ? err.message : 'Failed to upload media');
@@ -921,14 +863,30 @@ export default function EditSopPage() {
           {steps.length > 0 ? (
             <div className="space-y-6">
               {steps.map((step) => (
-                <div id={`step-${step.id}`} key={step.id}>
-                  <StepEditor 
-                    step={step} 
-                    onUpdateStep={handleUpdateStep}
-                    onDeleteStep={handleDeleteStep}
-                    onGenerateInstructions={handleGenerateInstructions}
-                    onUploadMedia={handleMediaUpload}
-                  />
+                <div id={`step-${step.id}`} key={step.id} className="flex flex-col lg:flex-row gap-4">
+                  <div className="flex-1 min-w-0">
+                    <StepEditor 
+                      step={step} 
+                      onUpdateStep={handleUpdateStep}
+                      onDeleteStep={handleDeleteStep}
+                      onGenerateInstructions={handleGenerateInstructions}
+                      onUploadMedia={handleMediaUpload}
+                      chapterSteps={steps}
+                      onSaveChapters={(mediaId, chapters) => handleSaveChapters(step.id, mediaId, chapters)}
+                      openCommentCount={openCommentCounts[step.id] || 0}
+                      onInstructionsSelect={(anchor) => setCommentSelection({ stepId: step.id, anchor })}
+                    />
+                  </div>
+                  <div className="lg:w-72 shrink-0 space-y-4">
+                    <StepLintFindings findings={findingsForStep(lint.findings, step.id)} />
+                    <StepComments
+                      sopId={id}
+                      stepId={step.id}
+                      comments={placedComments.filter(comment => comment.step_id === step.id)}
+                      selection={commentSelection?.stepId === step.id ? commentSelection.anchor : null}
+                      onChange={loadStepComments}
+                    />
+                  </div>
                 </div>
               ))}
               {/* Bottom reference for scrolling */}
@@ -955,6 +913,18 @@ export default function EditSopPage() {
         </div>
       </div>
       
+      <SopLintPanel
+        sopId={id}
+        score={lint.score}
+        findings={lint.findings}
+        onAIReview={setAIFindings}
+        className="mt-8"
+      />
+      
+      <ReviewPanel sopId={id} onStatusChange={loadSopData} className="mt-8" />
+      
+      <VersionHistory sopId={id} onRestored={loadSopData} className="mt-8" />
+      
       {/* Floating action buttons */}
       {steps.length > 0 && (
         <div className={`fixed bottom-6 right-6 flex flex-col space-y-3 transition-transform duration-300 ${showStepNav ? 'translate-y-0' : 'translate-y-24'}`}>
@@ -974,6 +944,11 @@ export default function EditSopPage() {
                     {step.order_index}
                   </span>
                   <span className="truncate">{step.title || `Step ${step.order_index}`}</span>
+                  {openCommentCounts[step.id] > 0 && (
+                    <span className="ml-auto pl-2 text-xs text-amber-700" title="Unresolved comments">
+                      {openCommentCounts[step.id]}
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
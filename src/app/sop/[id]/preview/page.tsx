@@ -2,13 +2,16 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
 import { useRouter, useParams } from 'next/navigation';
 import { SOP, Step, Media } from '@/types/database.types';
-import { fetchSopDetailsForPreview } from '@/utils/api';
+import { downloadSopExport, fetchSopDetailsForPreview, SopExportFormat } from '@/utils/api';
 import Head from 'next/head';
+import RunHistory from '@/components/RunHistory';
 
 export default function PreviewSopPage() {
   const { currentUser, loading } = useAuth();
+  const { showToast } = useToast();
   const router = useRouter();
   const params = useParams();
   const id = params.id as string;
@@ -18,6 +21,9 @@ export default function PreviewSopPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({});
+  const [exportingFormat, setExportingFormat] = useState<SopExportFormat | null>(null);
+  // Exports are of the latest published version unless the working draft is asked for
+  const [exportDraft, setExportDraft] = useState(false);
 
   const loadSopData = useCallback(async () => {
     if (!currentUser || !id) return;
@@ -44,6 +50,20 @@ export default function PreviewSopPage() {
     }
   }, [currentUser, loading, router, id, loadSopData]);
 
+  const handleDownload = async (format: SopExportFormat) => {
+    if (!currentUser) return;
+    setExportingFormat(format);
+    try {
+      const token = await currentUser.getIdToken();
+      await downloadSopExport(token, id, format, { draft: exportDraft });
+    } catch (err) {
+      console.error(err);
+      showToast(err instanceof Error ? err.message : 'Failed to export SOP', 'error');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleImageError = (mediaId: string) => {
     setImageErrors(prev => ({ ...prev, [mediaId]: true }));
   };
@@ -128,6 +148,28 @@ export default function PreviewSopPage() {
                 </svg>
                 Print / Export
               </button>
+              <label
+                className="flex items-center text-sm"
+                title="Export the working copy, marked as an uncontrolled draft, instead of the latest published version"
+              >
+                <input
+                  type="checkbox"
+                  checked={exportDraft}
+                  onChange={e => setExportDraft(e.target.checked)}
+                  className="mr-1.5"
+                />
+                Working draft
+              </label>
+              {([['pdf', 'Download PDF'], ['docx', 'Word'], ['md', 'Markdown']] as [SopExportFormat, string][]).map(([format, label]) => (
+                <button 
+                  key={format}
+                  onClick={() => handleDownload(format)}
+                  disabled={exportingFormat !== null}
+                  className="px-3 py-1.5 bg-white text-primary-700 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                  {exportingFormat === format ? 'Preparing...' : label}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -273,6 +315,8 @@ export default function PreviewSopPage() {
               <p>Printed from SOP Maker • {new Date().toLocaleDateString()}</p>
             </div>
           </div>
+          
+          <RunHistory sopId={id} className="mt-8" />
         </div>
       </div>
     </>
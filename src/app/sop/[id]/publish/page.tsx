@@ -4,10 +4,12 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter, useParams } from 'next/navigation';
 import { SOP, Step, Media } from '@/types/database.types';
-import { fetchSopDetailsForPreview } from '@/utils/api';
+import { fetchShareLinks, fetchSopDetailsForPreview } from '@/utils/api';
 import Link from 'next/link';
 import { useToast } from '@/contexts/ToastContext';
 import React from 'react';
+import type { PublicPublishSettings } from '@/utils/share-access';
+import ShareLinksTable from '@/components/ShareLinksTable';
 
 export default function PublishSopPage() {
   const { currentUser, loading } = useAuth();
@@ -24,6 +26,7 @@ export default function PublishSopPage() {
   const [publishData, setPublishData] = useState({
     isPublic: true,
     allowComments: true,
+    allowQuestions: false,
     requireAuth: false,
     allowPrinting: true,
     allowDownload: true,
@@ -32,6 +35,9 @@ export default function PublishSopPage() {
   });
   const [publishUrl, setPublishUrl] = useState<string | null>(null);
   const [isPublished, setIsPublished] = useState(false);
+  // The link shown is the SOP id itself, from before share links existed
+  const [isLegacyLink, setIsLegacyLink] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
 
   const loadSopData = useCallback(async () => {
     if (!currentUser || !id) return;
@@ -42,11 +48,18 @@ export default function PublishSopPage() {
       const { sop: fetchedSop, steps: fetchedSteps } = await fetchSopDetailsForPreview(token, id);
       setSop(fetchedSop);
       setSteps(fetchedSteps.sort((a, b) => a.order_index - b.order_index));
+      // Share links stay live when the SOP id link is revoked, so they can
+      // still be managed here
       setIsPublished(!!fetchedSop.is_published);
       
-      // If already published, generate public URL
-      if (fetchedSop.is_published) {
-        setPublishUrl(`${window.location.origin}/shared/${id}`);
+      // The SOP id only opens the SOP while it has no share links of its own
+      const settings = (fetchedSop as SOP & { publish_settings?: PublicPublishSettings | null }).publish_settings;
+      if (fetchedSop.is_published && !settings?.revokedAt) {
+        const links = await fetchShareLinks(token, id);
+        if (links.length === 0) {
+          setPublishUrl(`${window.location.origin}/shared/${id}`);
+          setIsLegacyLink(true);
+        }
       }
     } catch (err) {
       console.error(err);
@@ -90,9 +103,11 @@ export default function PublishSopPage() {
       
       const data = await response.json();
       
-      // Show success UI
+      // Show success UI; a first publish comes with its own share link, later
+      // ones keep the links listed below
       setIsPublished(true);
-      setPublishUrl(`${window.location.origin}/shared/${id}`);
+      setPublishUrl(data.link ? `${window.location.origin}/shared/${data.link.id}` : null);
+      setIsLegacyLink(false);
       showToast('SOP published successfully!', 'success');
       
     } catch (err) {
@@ -104,6 +119,37 @@ export default function PublishSopPage() {
     }
   };
 
+  const handleRevoke = async () => {
+    if (!currentUser || !id) return;
+    if (!window.confirm('Revoke this share link? Anyone using it will lose access immediately.')) return;
+    
+    setIsRevoking(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/sops/${id}/publish`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revoke share link');
+      }
+      
+      setPublishUrl(null);
+      setIsLegacyLink(false);
+      setPublishData(current => ({ ...current, password: '' }));
+      showToast('Share link revoked', 'success');
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to revoke share link', 'error');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
   const handleCopyLink = () => {
     if (publishUrl) {
       navigator.clipboard.writeText(publishUrl);
@@ -241,33 +287,39 @@ export default function PublishSopPage() {
                     </div>
                   </div>
                   
-                  <div className="mt-4">
-                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Shareable Link:</p>
-                    <div className="flex">
-                      <input 
-                        type="text" 
-                        value={publishUrl || ''} 
-                        readOnly 
-                        className="flex-grow px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-l-md bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
-                      />
-                      <button 
-                        onClick={handleCopyLink}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-r-md hover:bg-blue-700"
-                      >
-                        Copy
-                      </button>
+                  {publishUrl ? (
+                    <div className="mt-4">
+                      <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Shareable Link:</p>
+                      <div className="flex">
+                        <input 
+                          type="text" 
+                          value={publishUrl || ''} 
+                          readOnly 
+                          className="flex-grow px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-l-md bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                        />
+                        <button 
+                          onClick={handleCopyLink}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-r-md hover:bg-blue-700"
+                        >
+                          Copy
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  ) : (
+                    <p className="mt-4 text-sm text-gray-700 dark:text-gray-300">Share it through the links below.</p>
+                  )}
                   
                   <div className="mt-6 flex flex-col sm:flex-row gap-4">
-                    <a 
-                      href={publishUrl || '#'} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-center"
-                    >
-                      View Published SOP
-                    </a>
+                    {publishUrl && (
+                      <a 
+                        href={publishUrl} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                        className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-center"
+                      >
+                        View Published SOP
+                      </a>
+                    )}
                     
                     <button
                       onClick={() => router.push('/dashboard')}
@@ -275,6 +327,16 @@ export default function PublishSopPage() {
                     >
                       Back to Dashboard
                     </button>
+                    
+                    {isLegacyLink && (
+                      <button
+                        onClick={handleRevoke}
+                        disabled={isRevoking}
+                        className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50 sm:ml-auto"
+                      >
+                        {isRevoking ? 'Revoking...' : 'Revoke Link'}
+                      </button>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -330,6 +392,30 @@ export default function PublishSopPage() {
                       </div>
                     </div>
                     
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium text-gray-800 dark:text-white">Ask the SOP</h4>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Let viewers ask questions answered from this SOP only (uses your AI quota)</p>
+                      </div>
+                      <div className="form-switch">
+                        <input 
+                          type="checkbox" 
+                          id="allowQuestions"
+                          checked={publishData.allowQuestions}
+                          onChange={e => setPublishData({...publishData, allowQuestions: e.target.checked})}
+                          className="sr-only"
+                        />
+                        <label 
+                          htmlFor="allowQuestions"
+                          className={`relative inline-block w-12 h-6 rounded-full cursor-pointer transition-colors ${publishData.allowQuestions ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+                        >
+                          <span 
+                            className={`block w-4 h-4 mt-1 ml-1 bg-white rounded-full shadow transform transition-transform ${publishData.allowQuestions ? 'translate-x-6' : ''}`}
+                          ></span>
+                        </label>
+                      </div>
+                    </div>
+                    
                     <div className="flex items-center justify-between">
                       <div>
                         <h4 className="font-medium text-gray-800 dark:text-white">Allow Printing</h4>
@@ -353,6 +439,57 @@ export default function PublishSopPage() {
                         </label>
                       </div>
                     </div>
+                    
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium text-gray-800 dark:text-white">Require Sign-in</h4>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Only signed-in users can open the link</p>
+                      </div>
+                      <div className="form-switch">
+                        <input 
+                          type="checkbox" 
+                          id="requireAuth"
+                          checked={publishData.requireAuth}
+                          onChange={e => setPublishData({...publishData, requireAuth: e.target.checked})}
+                          className="sr-only"
+                        />
+                        <label 
+                          htmlFor="requireAuth"
+                          className={`relative inline-block w-12 h-6 rounded-full cursor-pointer transition-colors ${publishData.requireAuth ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+                        >
+                          <span 
+                            className={`block w-4 h-4 mt-1 ml-1 bg-white rounded-full shadow transform transition-transform ${publishData.requireAuth ? 'translate-x-6' : ''}`}
+                          ></span>
+                        </label>
+                      </div>
+                    </div>
+                    
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="sharePassword" className="block font-medium text-gray-800 dark:text-white">Password</label>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Leave empty for no password</p>
+                        <input 
+                          type="password" 
+                          id="sharePassword"
+                          autoComplete="new-password"
+                          value={publishData.password}
+                          onChange={e => setPublishData({...publishData, password: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="expiryDate" className="block font-medium text-gray-800 dark:text-white">Expires</label>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">The link stops working after this day</p>
+                        <input 
+                          type="date" 
+                          id="expiryDate"
+                          min={new Date().toISOString().slice(0, 10)}
+                          value={publishData.expiryDate}
+                          onChange={e => setPublishData({...publishData, expiryDate: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                        />
+                      </div>
+                    </div>
                   </div>
                   
                   <div className="mt-8">
@@ -388,6 +525,19 @@ export default function PublishSopPage() {
                 </div>
               )}
 
+              {isPublished && (
+                <ShareLinksTable sopId={id} className="mb-8" />
+              )}
+
+              {isPublished && (
+                <p className="mb-8 text-sm text-gray-600 dark:text-gray-300">
+                  Comments left on your share links wait for your approval.{' '}
+                  <Link href={`/sop/${id}/comments`} className="text-blue-600 hover:text-blue-800">
+                    Moderate comments
+                  </Link>
+                </p>
+              )}
+
               <div className="bg-blue-50 dark:bg-blue-900/30 rounded-lg p-4 border border-blue-100 dark:border-blue-800">
                 <div className="flex items-start">
                   <svg className="h-5 w-5 text-blue-500 dark:text-blue-400 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -397,7 +547,7 @@ export default function PublishSopPage() {
                     <h4 className="text-sm font-medium text-blue-800 dark:text-blue-300">Note About Publishing</h4>
                     <p className="mt-1 text-sm text-blue-700 dark:text-blue-400">
                       Publishing makes your SOP available via a shareable link. Make sure your SOP is complete before publishing.
-                      <br />You can update the published SOP any time by making changes and republishing.
+                      <br />You can update the published SOP any time by making changes and republishing. Links pinned to a version keep showing that version.
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,292 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { SopRun, SopRunStep } from '@/types/database.types';
+import { completeSopRunStep, fetchSopRun, signOffSopRun } from '@/utils/api';
+import SignaturePad from '@/components/SignaturePad';
+
+const RESPONSE_HINTS: Record<SopRunStep['response_type'], string> = {
+  none: '',
+  pass_fail: 'Did the check pass?',
+  number: 'Enter the reading',
+  text: 'Describe what you observed',
+  photo: 'Take or attach a photo',
+};
+
+/**
+ * SOP Run Page
+ * Walks an operator through a run step by step and closes it with a signature;
+ * signed-off runs are shown read-only as a record
+ */
+export default function SopRunPage() {
+  const { currentUser, loading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const params = useParams();
+  const sopId = params.id as string;
+  const runId = params.runId as string;
+
+  const [run, setRun] = useState<SopRun | null>(null);
+  const [canPerform, setCanPerform] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [answer, setAnswer] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const loadRun = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      const token = await currentUser.getIdToken();
+      const result = await fetchSopRun(token, runId);
+      setRun(result.run);
+      setCanPerform(result.canPerform);
+    } catch (err) {
+      console.error('Error loading run:', err);
+      showToast('Failed to load run', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, runId, showToast]);
+
+  useEffect(() => {
+    if (!loading && !currentUser) {
+      router.push('/');
+    } else if (currentUser) {
+      loadRun();
+    }
+  }, [currentUser, loading, router, loadRun]);
+
+  const steps = run?.steps || [];
+  const currentStep = steps.find(step => !step.completed);
+
+  const handleComplete = async (step: SopRunStep, value?: string) => {
+    if (!currentUser) return;
+    setIsSaving(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await completeSopRunStep(token, runId, step.position, {
+        value: value ?? answer,
+        photo: step.response_type === 'photo' && photo ? photo : undefined,
+      });
+      setAnswer('');
+      setPhoto(null);
+      await loadRun();
+    } catch (err) {
+      console.error('Error completing step:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to complete step', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!currentUser || !signature) return;
+    setIsSaving(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await signOffSopRun(token, runId, { name: signerName, data: signature, notes });
+      showToast('Run signed off', 'success');
+      await loadRun();
+    } catch (err) {
+      console.error('Error signing off run:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to sign off run', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatAnswer = (step: SopRunStep) => {
+    if (step.response_type === 'pass_fail') return step.passed ? 'Pass' : 'Fail';
+    return step.response_value || '';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen bg-white">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!run) {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-4xl mx-auto p-6 rounded-lg border border-amber-200 bg-amber-50">
+          <h2 className="text-lg font-semibold text-amber-700 mb-2">Run Not Found</h2>
+          <p className="text-amber-600">This run does not exist or you do not have access to it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <button
+        onClick={() => router.push(`/sop/${sopId}/preview`)}
+        className="text-sm text-primary-600 hover:text-primary-800 mb-4"
+      >
+        &larr; Back to SOP
+      </button>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">{run.sop_title}</h1>
+        <p className="text-sm text-gray-500">
+          Version {run.version_number} · started {format(new Date(run.started_at), 'PPp')}
+          {run.completed_at && ` · signed off ${format(new Date(run.completed_at), 'PPp')}`}
+        </p>
+      </div>
+
+      <ol className="space-y-4">
+        {steps.map(step => {
+          const isCurrent = canPerform && currentStep?.id === step.id;
+          return (
+            <li
+              key={step.id}
+              className={`rounded-lg border p-4 ${
+                step.completed ? 'border-green-200 bg-green-50' : isCurrent ? 'border-primary-300 bg-white shadow' : 'border-gray-200 bg-gray-50 opacity-75'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                  step.completed ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-700'
+                }`}>
+                  {step.completed ? '✓' : step.position}
+                </span>
+                <div className="flex-grow min-w-0">
+                  <h3 className="font-medium text-gray-900">{step.title || `Step ${step.position}`}</h3>
+                  {step.instructions && <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{step.instructions}</p>}
+                  {step.verification && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      <span className="font-medium">Verification:</span> {step.verification}
+                    </p>
+                  )}
+
+                  {step.completed && (
+                    <div className="mt-2 text-sm text-gray-700">
+                      {formatAnswer(step) && <p><span className="font-medium">Answer:</span> {formatAnswer(step)}</p>}
+                      {step.photo_url && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={step.photo_url} alt={`Evidence for step ${step.position}`} className="mt-2 max-h-48 rounded border border-gray-200" />
+                      )}
+                      {step.completed_at && (
+                        <p className="text-xs text-gray-500 mt-1">Completed {format(new Date(step.completed_at), 'PPp')}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {isCurrent && (
+                    <div className="mt-3 space-y-2">
+                      {RESPONSE_HINTS[step.response_type] && (
+                        <p className="text-sm font-medium text-gray-700">{RESPONSE_HINTS[step.response_type]}</p>
+                      )}
+
+                      {step.response_type === 'pass_fail' ? (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleComplete(step, 'pass')}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Pass
+                          </button>
+                          <button
+                            onClick={() => handleComplete(step, 'fail')}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Fail
+                          </button>
+                        </div>
+                      ) : (
+                        <>
+                          {step.response_type === 'number' && (
+                            <input
+                              type="number"
+                              step="any"
+                              value={answer}
+                              onChange={(e) => setAnswer(e.target.value)}
+                              className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                            />
+                          )}
+                          {step.response_type === 'text' && (
+                            <textarea
+                              value={answer}
+                              onChange={(e) => setAnswer(e.target.value)}
+                              rows={2}
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                            />
+                          )}
+                          {step.response_type === 'photo' && (
+                            <input
+                              type="file"
+                              accept="image/*"
+                              capture="environment"
+                              onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+                              className="block text-sm"
+                            />
+                          )}
+                          <button
+                            onClick={() => handleComplete(step)}
+                            disabled={isSaving || (step.response_type === 'photo' && !photo)}
+                            className="btn btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                          >
+                            {isSaving ? 'Saving...' : 'Mark step complete'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {run.status === 'completed' ? (
+        <div className="mt-8 rounded-lg border border-gray-200 p-4">
+          <h2 className="font-medium text-gray-900">Sign-off</h2>
+          <p className="text-sm text-gray-600">Signed by {run.signature_name}</p>
+          {run.signature_data && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={run.signature_data} alt={`Signature of ${run.signature_name}`} className="mt-2 max-h-24" />
+          )}
+          {run.notes && <p className="mt-2 text-sm text-gray-700">{run.notes}</p>}
+        </div>
+      ) : canPerform && !currentStep && (
+        <div className="mt-8 rounded-lg border border-primary-200 p-4 space-y-3">
+          <h2 className="font-medium text-gray-900">Sign off this run</h2>
+          <input
+            type="text"
+            value={signerName}
+            onChange={(e) => setSignerName(e.target.value)}
+            placeholder="Full name"
+            className="block w-full max-w-md rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+          <SignaturePad onChange={setSignature} />
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder="Notes (optional)"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+          <button
+            onClick={handleSignOff}
+            disabled={isSaving || !signature || !signerName.trim()}
+            className="btn btn-primary px-4 py-2 text-sm disabled:opacity-50"
+          >
+            {isSaving ? 'Signing...' : 'Sign off'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import TextareaAutosize from 'react-textarea-autosize';
 import { useSupabaseAuth } from '@/utils/supabase-auth';
 import { toast } from 'sonner';
+import { regenerateGeneratedStep, streamGeneratedSteps } from '@/utils/api';
+import type { AIGeneratedStep } from '@/utils/step-generation';
+
+type DraftStatus = 'pending' | 'accepted' | 'discarded';
+
+interface DraftStep {
+  step: AIGeneratedStep;
+  status: DraftStatus;
+  isRegenerating: boolean;
+}
 
 interface AIStepGeneratorProps {
   sopId: string;
@@ -29,13 +39,20 @@ export default function AIStepGenerator({
   const { user, getToken } = useSupabaseAuth();
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationPrompt, setGenerationPrompt] = useState<string>('');
+  const [drafts, setDrafts] = useState<DraftStep[]>([]);
+  // Prompt the current drafts came from, reused when regenerating a single step
+  const [draftPrompt, setDraftPrompt] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
   
-  const { register, handleSubmit, control } = useForm({
+  const { handleSubmit, control } = useForm({
     defaultValues: {
       additionalContext: ''
     }
   });
   
+  // Stop a running generation when the generator is closed
+  useEffect(() => () => abortRef.current?.abort(), []);
+  
   const generateDefaultPrompt = () => {
     return `Generate steps for a Standard Operating Procedure titled "${sopTitle}". 
 ${sopDescription ? `Description: ${sopDescription}` : ''}
@@ -57,7 +74,10 @@ Include step titles, detailed instructions, and where appropriate, safety notes
       return;
     }
     
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
+    setDrafts([]);
     
     try {
       const token = await getToken();
@@ -69,47 +89,76 @@ Include step titles, detailed instructions, and where appropriate, safety notes
       const finalPrompt = data.additionalContext 
         ? `${generationPrompt}\n\nAdditional context: ${data.additionalContext}` 
         : generationPrompt;
+      setDraftPrompt(finalPrompt);
       
-      // Call the backend AI generation API
-      const response = await fetch('/api/ai/generate-steps', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          sop_id: sopId,
-          prompt: finalPrompt
-        })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to generate steps");
-      }
-      
-      const { steps } = await response.json();
-      
-      if (!steps || !Array.isArray(steps) || steps.length === 0) {
-        throw new Error("No steps were generated. Please try again with more specific instructions.");
-      }
-      
-      // Format the steps with order index
-      const formattedSteps = steps.map((step, index) => ({
-        ...step,
-        order_index: index
-      }));
+      // Show each step as soon as the backend has produced it
+      const count = await streamGeneratedSteps(token, sopId, finalPrompt, (step) => {
+        setDrafts(current => [...current, { step, status: 'pending', isRegenerating: false }]);
+      }, controller.signal);
       
-      toast.success(`Generated ${steps.length} steps successfully`);
-      onStepsGenerated(formattedSteps);
+      toast.success(`Generated ${count} steps. Review them before adding.`);
     } catch (error) {
-      console.error("Error generating steps:", error);
-      toast.error(error instanceof Error ? error.message : "Failed to generate steps");
+      if (controller.signal.aborted) {
+        toast.info("Step generation stopped");
+      } else {
+        console.error("Error generating steps:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to generate steps");
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsGenerating(false);
     }
   };
   
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+  
+  const updateDraft = (index: number, changes: Partial<DraftStep>) => {
+    setDrafts(current => current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+  
+  const setAllStatuses = (status: DraftStatus) => {
+    setDrafts(current => current.map(draft => ({ ...draft, status })));
+  };
+  
+  const handleRegenerate = async (index: number) => {
+    const token = await getToken();
+    if (!token) {
+      toast.error("You must be logged in to regenerate steps");
+      return;
+    }
+    
+    // Discarded steps are left out of the context the model sees
+    const context = drafts.filter((draft, i) => draft.status !== 'discarded' || i === index);
+    const contextIndex = context.indexOf(drafts[index]);
+    
+    updateDraft(index, { isRegenerating: true });
+    try {
+      const step = await regenerateGeneratedStep(
+        token,
+        sopId,
+        draftPrompt,
+        context.map(draft => draft.step),
+        contextIndex
+      );
+      updateDraft(index, { step, status: 'pending', isRegenerating: false });
+    } catch (error) {
+      console.error("Error regenerating step:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate step");
+      updateDraft(index, { isRegenerating: false });
+    }
+  };
+  
+  const acceptedSteps = drafts.filter(draft => draft.status === 'accepted');
+  
+  const handleAddAccepted = () => {
+    onStepsGenerated(acceptedSteps.map((draft, index) => ({
+      ...draft.step,
+      order_index: index
+    })));
+  };
+  
   return (
     <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 mb-6">
       <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">
@@ -217,6 +266,112 @@ Include step titles, detailed instructions, and where appropriate, safety notes
           </ul>
         </div>
         
+        {/* Generated Steps */}
+        {(drafts.length > 0 || isGenerating) && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Generated Steps {drafts.length > 0 && `(${acceptedSteps.length} of ${drafts.length} accepted)`}
+              </h3>
+              {!isGenerating && drafts.length > 0 && (
+                <div className="flex space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setAllStatuses('accepted')}
+                    className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300"
+                  >
+                    Accept all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setAllStatuses('discarded')}
+                    className="text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                  >
+                    Discard all
+                  </button>
+                </div>
+              )}
+            </div>
+            
+            <ol className="space-y-3">
+              {drafts.map((draft, index) => (
+                <li
+                  key={index}
+                  className={`p-4 rounded-md border ${
+                    draft.status === 'accepted'
+                      ? 'border-green-300 bg-green-50 dark:border-green-700 dark:bg-green-900/20'
+                      : draft.status === 'discarded'
+                        ? 'border-slate-200 bg-slate-50 opacity-60 dark:border-slate-700 dark:bg-slate-900/40'
+                        : 'border-slate-200 dark:border-slate-600'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className={`min-w-0 ${draft.isRegenerating ? 'animate-pulse' : ''}`}>
+                      <p className={`font-medium text-slate-900 dark:text-white ${draft.status === 'discarded' ? 'line-through' : ''}`}>
+                        {index + 1}. {draft.step.title}
+                      </p>
+                      <p className="mt-1 text-sm text-slate-700 dark:text-slate-300 whitespace-pre-line">{draft.step.instructions}</p>
+                      {draft.step.role && (
+                        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400"><span className="font-medium">Role:</span> {draft.step.role}</p>
+                      )}
+                      {draft.step.safety_notes && (
+                        <p className="mt-1 text-xs text-amber-700 dark:text-amber-400"><span className="font-medium">Safety:</span> {draft.step.safety_notes}</p>
+                      )}
+                      {draft.step.verification && (
+                        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400"><span className="font-medium">Verification:</span> {draft.step.verification}</p>
+                      )}
+                    </div>
+                    
+                    <div className="flex flex-col items-end space-y-1 shrink-0 text-xs font-medium">
+                      {draft.status === 'pending' ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => updateDraft(index, { status: 'accepted' })}
+                            className="text-green-700 dark:text-green-400 hover:text-green-900"
+                            disabled={draft.isRegenerating}
+                          >
+                            Accept
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => updateDraft(index, { status: 'discarded' })}
+                            className="text-slate-500 dark:text-slate-400 hover:text-slate-700"
+                            disabled={draft.isRegenerating}
+                          >
+                            Discard
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => updateDraft(index, { status: 'pending' })}
+                          className="text-slate-500 dark:text-slate-400 hover:text-slate-700"
+                        >
+                          Undo
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleRegenerate(index)}
+                        className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        disabled={isGenerating || draft.isRegenerating}
+                      >
+                        {draft.isRegenerating ? 'Regenerating...' : 'Regenerate'}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {isGenerating && (
+                <li className="p-4 rounded-md border border-dashed border-slate-300 dark:border-slate-600 text-sm text-slate-500 dark:text-slate-400 animate-pulse">
+                  Writing step {drafts.length + 1}...
+                </li>
+              )}
+            </ol>
+          </div>
+        )}
+        
         {/* Form Actions */}
         <div className="flex justify-end space-x-3 pt-4">
           <button
@@ -231,25 +386,49 @@ Include step titles, detailed instructions, and where appropriate, safety notes
             Cancel
           </button>
           
-          <button
-            type="submit"
-            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 
-                    border border-transparent rounded-md shadow-sm 
-                    hover:bg-indigo-700 focus:outline-none focus:ring-2 
-                    focus:ring-indigo-500 focus:ring-offset-2 
-                    disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isGenerating}
-          >
-            {isGenerating ? (
+          {isGenerating ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 
+                      border border-transparent rounded-md shadow-sm 
+                      hover:bg-red-700 focus:outline-none focus:ring-2 
+                      focus:ring-red-500 focus:ring-offset-2"
+            >
               <span className="flex items-center">
                 <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Generating Steps...
+                Stop Generating
               </span>
-            ) : 'Generate Steps'}
-          </button>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-indigo-700 dark:text-indigo-300 bg-white dark:bg-slate-700 
+                      border border-indigo-300 dark:border-indigo-500 rounded-md shadow-sm 
+                      hover:bg-indigo-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 
+                      focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              {drafts.length > 0 ? 'Generate Again' : 'Generate Steps'}
+            </button>
+          )}
+          
+          {drafts.length > 0 && (
+            <button
+              type="button"
+              onClick={handleAddAccepted}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 
+                      border border-transparent rounded-md shadow-sm 
+                      hover:bg-indigo-700 focus:outline-none focus:ring-2 
+                      focus:ring-indigo-500 focus:ring-offset-2 
+                      disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isGenerating || acceptedSteps.length === 0}
+            >
+              Add {acceptedSteps.length} {acceptedSteps.length === 1 ? 'Step' : 'Steps'}
+            </button>
+          )}
         </div>
       </form>
     </div>
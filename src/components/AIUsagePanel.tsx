@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { AIUsageReport, fetchAIUsage } from '@/utils/api';
+import type { AIQuotaWindow, AIUsageGroup } from '@/utils/ai/usage';
+
+const FEATURE_LABELS: Record<string, string> = {
+  sop_generation: 'SOP generation',
+  step_generation: 'Step generation',
+  instructions: 'Instructions',
+  step_enhancement: 'Step enhancement',
+  media_suggestion: 'Media suggestions',
+  transcript: 'Transcripts',
+  video_script: 'Video scripts',
+  sop_review: 'SOP reviews',
+  sop_qa: 'SOP questions',
+};
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function QuotaBar({ label, window }: { label: string; window: AIQuotaWindow }) {
+  const percent = window.limit ? Math.min(100, Math.round((window.used / window.limit) * 100)) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-700 dark:text-gray-300">{label}</span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {window.used} / {window.limit === null ? 'unlimited' : window.limit}
+        </span>
+      </div>
+      {window.limit !== null && (
+        <div className="mt-1 h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Resets {formatDistanceToNow(new Date(window.resetsAt), { addSuffix: true })}
+      </p>
+    </div>
+  );
+}
+
+function UsageTable({ title, groups, labels = {} }: { title: string; groups: AIUsageGroup[]; labels?: Record<string, string> }) {
+  if (groups.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {groups.map(group => (
+          <li key={group.key} className="flex justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400 truncate">{labels[group.key] || group.key}</span>
+            <span className="text-gray-900 dark:text-white whitespace-nowrap">
+              {group.requests} · {formatCost(group.estimatedCost)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * AI quota status and monthly usage for the current user; administrators
+ * can switch to organization-wide usage by department for charge-back
+ */
+export default function AIUsagePanel({ className = '' }: { className?: string }) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+  const [month, setMonth] = useState(currentMonth);
+  const [scope, setScope] = useState<AIUsageReport['scope']>('user');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUsage = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      setReport(await fetchAIUsage(token, { month, scope }));
+    } catch (err) {
+      console.error('Error loading AI usage:', err);
+      showToast('Failed to load AI usage', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, month, scope, showToast]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const totals = report?.summary.totals;
+  const isAdmin = report?.quota.role === 'admin';
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 shadow rounded-lg ${className}`}>
+      <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">AI Usage</h2>
+        <input
+          type="month"
+          value={month}
+          max={currentMonth()}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-200"
+          aria-label="Usage month"
+        />
+      </div>
+
+      <div className="p-6 space-y-6">
+        {isLoading && !report ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading usage...</p>
+        ) : report && totals ? (
+          <>
+            <div className="space-y-4">
+              <QuotaBar label="Today" window={report.quota.daily} />
+              <QuotaBar label="This month" window={report.quota.monthly} />
+            </div>
+
+            {isAdmin && (
+              <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+                {(['user', 'organization'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setScope(option)}
+                    className={`flex-1 px-3 py-1.5 ${scope === option ? 'bg-primary-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                  >
+                    {option === 'user' ? 'My usage' : 'Organization'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">{totals.requests}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Requests</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {(totals.promptTokens + totals.completionTokens).toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Tokens</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatCost(totals.estimatedCost)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Est. cost</p>
+              </div>
+            </div>
+
+            {totals.requests === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No AI usage in this month.</p>
+            ) : (
+              <>
+                <UsageTable title="By feature" groups={report.summary.byFeature} labels={FEATURE_LABELS} />
+                {report.scope === 'organization' && (
+                  <UsageTable title="By department" groups={report.summary.byDepartment} />
+                )}
+              </>
+            )}
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useEffect, useId, useState } from 'react';
+import { MediaAnnotation } from '@/types/database.types';
+
+interface AnnotationShapesProps {
+  annotations: MediaAnnotation[];
+  /** Pixel size of the image the layer is drawn over */
+  width: number;
+  height: number;
+  /** Image URL, needed to draw blur boxes */
+  src: string;
+  idPrefix: string;
+  selectedId?: string | null;
+  onShapePointerDown?: (e: React.PointerEvent<SVGGElement>, id: string) => void;
+}
+
+// Sizes scale with the image so annotations look the same on every variant
+function layerUnit(width: number, height: number): number {
+  return Math.max(width, height) / 100;
+}
+
+function arrowHead(x1: number, y1: number, x2: number, y2: number, length: number): string {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const left = [x2 - length * Math.cos(angle - 0.45), y2 - length * Math.sin(angle - 0.45)];
+  const right = [x2 - length * Math.cos(angle + 0.45), y2 - length * Math.sin(angle + 0.45)];
+  return `${x2},${y2} ${left.join(',')} ${right.join(',')}`;
+}
+
+function shapeBounds(a: MediaAnnotation, width: number, height: number, unit: number) {
+  switch (a.kind) {
+    case 'arrow':
+      return {
+        x: Math.min(a.x1, a.x2) * width, y: Math.min(a.y1, a.y2) * height,
+        width: Math.abs(a.x2 - a.x1) * width, height: Math.abs(a.y2 - a.y1) * height
+      };
+    case 'rect':
+    case 'blur':
+      return { x: a.x * width, y: a.y * height, width: a.width * width, height: a.height * height };
+    case 'callout':
+      return { x: a.x * width - unit * 3, y: a.y * height - unit * 3, width: unit * 6, height: unit * 6 };
+    case 'text':
+      return { x: a.x * width, y: a.y * height, width: a.text.length * unit * 2, height: unit * 3.6 };
+  }
+}
+
+/**
+ * SVG shapes of an annotation layer, in image pixel coordinates.
+ * Blur boxes redraw the clipped part of the image blurred; they hide details
+ * on screen only, the stored image is unchanged.
+ */
+export function AnnotationShapes({
+  annotations,
+  width,
+  height,
+  src,
+  idPrefix,
+  selectedId,
+  onShapePointerDown
+}: AnnotationShapesProps) {
+  const unit = layerUnit(width, height);
+  const stroke = Math.max(unit * 0.6, 2);
+  const fontSize = unit * 3.2;
+  const blurFilter = `${idPrefix}-blur`;
+
+  return (
+    <>
+      <defs>
+        <filter id={blurFilter}>
+          <feGaussianBlur stdDeviation={unit * 1.5} />
+        </filter>
+        {annotations.filter(a => a.kind === 'blur').map(a => a.kind === 'blur' && (
+          <clipPath key={a.id} id={`${idPrefix}-clip-${a.id}`}>
+            <rect x={a.x * width} y={a.y * height} width={a.width * width} height={a.height * height} />
+          </clipPath>
+        ))}
+      </defs>
+
+      {annotations.map(a => {
+        let shape: React.ReactNode;
+
+        switch (a.kind) {
+          case 'arrow': {
+            const [x1, y1, x2, y2] = [a.x1 * width, a.y1 * height, a.x2 * width, a.y2 * height];
+            shape = (
+              <>
+                <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={a.color} strokeWidth={stroke} strokeLinecap="round" />
+                <polygon points={arrowHead(x1, y1, x2, y2, unit * 3)} fill={a.color} />
+              </>
+            );
+            break;
+          }
+          case 'rect':
+            shape = (
+              <rect
+                x={a.x * width} y={a.y * height} width={a.width * width} height={a.height * height}
+                fill="transparent" stroke={a.color} strokeWidth={stroke} rx={unit * 0.5}
+              />
+            );
+            break;
+          case 'blur':
+            shape = (
+              <>
+                <image
+                  href={src} x={0} y={0} width={width} height={height}
+                  filter={`url(#${blurFilter})`} clipPath={`url(#${idPrefix}-clip-${a.id})`}
+                />
+                {/* Transparent hit area so the box can be selected */}
+                <rect x={a.x * width} y={a.y * height} width={a.width * width} height={a.height * height} fill="transparent" />
+              </>
+            );
+            break;
+          case 'callout':
+            shape = (
+              <>
+                <circle cx={a.x * width} cy={a.y * height} r={unit * 2.6} fill={a.color} stroke="#ffffff" strokeWidth={stroke * 0.6} />
+                <text
+                  x={a.x * width} y={a.y * height} fill={a.color === '#ffffff' ? '#111827' : '#ffffff'}
+                  fontSize={fontSize} fontWeight={700} textAnchor="middle" dominantBaseline="central"
+                >
+                  {a.number}
+                </text>
+              </>
+            );
+            break;
+          case 'text':
+            shape = (
+              <text
+                x={a.x * width} y={a.y * height} fill={a.color} fontSize={fontSize} fontWeight={600}
+                dominantBaseline="hanging" paintOrder="stroke"
+                stroke={a.color === '#111827' ? '#ffffff' : '#111827'} strokeWidth={stroke * 0.8}
+              >
+                {a.text}
+              </text>
+            );
+            break;
+        }
+
+        const bounds = a.id === selectedId ? shapeBounds(a, width, height, unit) : null;
+
+        return (
+          <g
+            key={a.id}
+            onPointerDown={onShapePointerDown ? e => onShapePointerDown(e, a.id) : undefined}
+            style={onShapePointerDown ? { cursor: 'move' } : undefined}
+          >
+            {shape}
+            {bounds && (
+              <rect
+                x={bounds.x - unit} y={bounds.y - unit}
+                width={bounds.width + unit * 2} height={bounds.height + unit * 2}
+                fill="none" stroke="#6366f1" strokeWidth={Math.max(unit * 0.3, 1)} strokeDasharray={`${unit} ${unit}`}
+              />
+            )}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Natural size of an image: the recorded one, or measured after loading
+ */
+export function useImageSize(src: string, width?: number | null, height?: number | null) {
+  const [measured, setMeasured] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (width && height) return;
+    const image = new window.Image();
+    image.onload = () => setMeasured({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = src;
+    return () => {
+      image.onload = null;
+    };
+  }, [src, width, height]);
+
+  return width && height ? { width, height } : measured;
+}
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  annotations: MediaAnnotation[];
+  width?: number | null;
+  height?: number | null;
+  className?: string;
+}
+
+/**
+ * An image with its annotation layer drawn on top
+ */
+export default function AnnotatedImage({ src, alt, annotations, width, height, className = '' }: AnnotatedImageProps) {
+  const idPrefix = useId().replace(/:/g, '');
+  const size = useImageSize(src, width, height);
+
+  if (!size) {
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={src} alt={alt} className={className} />;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      role="img"
+      aria-label={alt}
+      className={className}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      <image href={src} x={0} y={0} width={size.width} height={size.height} />
+      <AnnotationShapes
+        annotations={annotations}
+        width={size.width}
+        height={size.height}
+        src={src}
+        idPrefix={idPrefix}
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ArrowUpRight, EyeOff, Hash, MousePointer, Square, Trash2, Type, Undo2 } from 'lucide-react';
+import { MediaAnnotation, MediaAnnotationKind } from '@/types/database.types';
+import { AnnotationShapes, useImageSize } from '@/components/AnnotatedImage';
+import {
+  createAnnotationId,
+  MAX_MEDIA_ANNOTATIONS,
+  MEDIA_ANNOTATION_COLORS,
+  moveAnnotation,
+  nextCalloutNumber,
+  renumberCallouts
+} from '@/utils/media-annotations';
+
+type Tool = 'select' | MediaAnnotationKind;
+
+const TOOLS: { tool: Tool; label: string; icon: React.ReactNode }[] = [
+  { tool: 'select', label: 'Select and move', icon: <MousePointer className="h-4 w-4" /> },
+  { tool: 'arrow', label: 'Arrow', icon: <ArrowUpRight className="h-4 w-4" /> },
+  { tool: 'callout', label: 'Numbered callout', icon: <Hash className="h-4 w-4" /> },
+  { tool: 'rect', label: 'Rectangle', icon: <Square className="h-4 w-4" /> },
+  { tool: 'blur', label: 'Blur / redact', icon: <EyeOff className="h-4 w-4" /> },
+  { tool: 'text', label: 'Text label', icon: <Type className="h-4 w-4" /> },
+];
+
+// Drags shorter than this (fraction of the image) don't create a shape
+const MIN_DRAG = 0.01;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface AnnotationEditorProps {
+  isOpen: boolean;
+  src: string;
+  width?: number | null;
+  height?: number | null;
+  annotations?: MediaAnnotation[] | null;
+  title?: string;
+  onSave: (annotations: MediaAnnotation[]) => Promise<void> | void;
+  onClose: () => void;
+}
+
+function shapeBetween(kind: 'arrow' | 'rect' | 'blur', id: string, color: string, a: Point, b: Point): MediaAnnotation {
+  if (kind === 'arrow') {
+    return { id, kind, color, x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  }
+  return {
+    id, kind, color,
+    x: Math.min(a.x, b.x), y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y)
+  };
+}
+
+/**
+ * Editor for the annotation layer of a step image. Shapes are kept as
+ * vectors on the media record; the image itself is never modified, so
+ * annotations can be edited again at any time.
+ */
+export default function AnnotationEditor({
+  isOpen,
+  src,
+  width,
+  height,
+  annotations,
+  title = 'Annotate image',
+  onSave,
+  onClose
+}: AnnotationEditorProps) {
+  const idPrefix = useId().replace(/:/g, '');
+  const size = useImageSize(src, width, height);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<
+    | { mode: 'draw'; start: Point }
+    | { mode: 'move'; id: string; last: Point; before: MediaAnnotation[] }
+    | null
+  >(null);
+
+  const [layer, setLayer] = useState<MediaAnnotation[]>([]);
+  const [history, setHistory] = useState<MediaAnnotation[][]>([]);
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(MEDIA_ANNOTATION_COLORS[0]);
+  const [label, setLabel] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MediaAnnotation | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved layer each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setLayer(annotations || []);
+      setHistory([]);
+      setSelectedId(null);
+      setDraft(null);
+      setHint(null);
+    }
+  }, [isOpen, annotations]);
+
+  const commit = useCallback((next: MediaAnnotation[]) => {
+    if (next.length > MAX_MEDIA_ANNOTATIONS) {
+      setHint(`An image can have at most ${MAX_MEDIA_ANNOTATIONS} annotations`);
+      return;
+    }
+    setHistory(h => [...h, layer]);
+    setLayer(next);
+    setHint(null);
+  }, [layer]);
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    commit(renumberCallouts(layer.filter(a => a.id !== selectedId)));
+    setSelectedId(null);
+  }, [commit, layer, selectedId]);
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setLayer(history[history.length - 1]);
+    setHistory(h => h.slice(0, -1));
+    setSelectedId(null);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (event.key === 'Escape') onClose();
+      if (event.key === 'Delete' || event.key === 'Backspace') deleteSelected();
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [isOpen, onClose, deleteSelected]);
+
+  // Pointer position as a fraction of the image size
+  const toPoint = (e: React.PointerEvent): Point | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix || !size) return null;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(1, Math.max(0, x / size.width)),
+      y: Math.min(1, Math.max(0, y / size.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toPoint(e);
+    if (!point) return;
+
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+
+    if (tool === 'callout') {
+      commit([...layer, { id: createAnnotationId(), kind: 'callout', color, x: point.x, y: point.y, number: nextCalloutNumber(layer) }]);
+      return;
+    }
+
+    if (tool === 'text') {
+      if (!label.trim()) {
+        setHint('Type the label text first, then click where it goes');
+        return;
+      }
+      commit([...layer, { id: createAnnotationId(), kind: 'text', color, x: point.x, y: point.y, text: label.trim() }]);
+      setLabel('');
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode: 'draw', start: point };
+    setDraft(shapeBetween(tool, 'draft', color, point, point));
+  };
+
+  const handleShapePointerDown = (e: React.PointerEvent<SVGGElement>, id: string) => {
+    if (tool !== 'select') return;
+    const point = toPoint(e);
+    if (!point) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setSelectedId(id);
+    dragRef.current = { mode: 'move', id, last: point, before: layer };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toPoint(e);
+    if (!point) return;
+
+    if (drag.mode === 'draw' && draft && draft.kind !== 'callout' && draft.kind !== 'text') {
+      setDraft(shapeBetween(draft.kind, 'draft', color, drag.start, point));
+    } else if (drag.mode === 'move') {
+      const dx = point.x - drag.last.x;
+      const dy = point.y - drag.last.y;
+      drag.last = point;
+      setLayer(current => current.map(a => (a.id === drag.id ? moveAnnotation(a, dx, dy) : a)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drag.mode === 'move') {
+      if (drag.before !== layer) setHistory(h => [...h, drag.before]);
+      return;
+    }
+
+    if (draft) {
+      const extent = draft.kind === 'arrow'
+        ? Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1)
+        : draft.kind === 'rect' || draft.kind === 'blur' ? Math.min(draft.width, draft.height) : 0;
+      if (extent >= MIN_DRAG) {
+        commit([...layer, { ...draft, id: createAnnotationId() }]);
+      }
+      setDraft(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(layer);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-60" onClick={onClose} aria-hidden="true" />
+
+        <div className="relative w-full max-w-5xl bg-white rounded-lg shadow-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+            <span className="text-xs text-gray-500">The original image is kept unchanged</span>
+          </div>
+
+          {/* Toolbar */}
+          <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+            {TOOLS.map(({ tool: option, label: toolLabel, icon }) => (
+              <button
+                key={option}
+                type="button"
+                title={toolLabel}
+                aria-label={toolLabel}
+                aria-pressed={tool === option}
+                onClick={() => setTool(option)}
+                className={`p-2 rounded-md border ${tool === option
+                  ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+              >
+                {icon}
+              </button>
+            ))}
+
+            <div className="flex items-center gap-1 ml-2">
+              {MEDIA_ANNOTATION_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-label={`Color ${option}`}
+                  aria-pressed={color === option}
+                  onClick={() => setColor(option)}
+                  className={`h-6 w-6 rounded-full border-2 ${color === option ? 'border-indigo-500' : 'border-gray-300'}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+
+            {tool === 'text' && (
+              <input
+                type="text"
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="Label text"
+                maxLength={200}
+                className="ml-2 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+
+            <div className="flex items-center gap-2 ml-auto">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={history.length === 0}
+                className="p-2 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                aria-label="Undo"
+                title="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={deleteSelected}
+                disabled={!selectedId}
+                className="p-2 rounded-md border border-gray-300 text-red-600 hover:bg-red-50 disabled:opacity-40"
+                aria-label="Delete selected annotation"
+                title="Delete selected"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => commit([])}
+                disabled={layer.length === 0}
+                className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+              >
+                Clear all
+              </button>
+            </div>
+          </div>
+
+          {/* Canvas */}
+          <div className="p-4 bg-gray-50 flex justify-center">
+            {size ? (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${size.width} ${size.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                className={`max-h-[65vh] w-full touch-none select-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <image href={src} x={0} y={0} width={size.width} height={size.height} />
+                <AnnotationShapes
+                  annotations={draft ? [...layer, draft] : layer}
+                  width={size.width}
+                  height={size.height}
+                  src={src}
+                  idPrefix={idPrefix}
+                  selectedId={selectedId}
+                  onShapePointerDown={handleShapePointerDown}
+                />
+              </svg>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-sm text-gray-500">Loading image...</div>
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {hint || `${layer.length} annotation${layer.length === 1 ? '' : 's'}`}
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save annotations'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
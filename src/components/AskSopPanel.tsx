@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { SopAnswer } from '@/utils/sop-qa';
+
+interface AskSopPanelProps {
+  sopId: string;
+  className?: string;
+}
+
+type ChatTurn =
+  | { role: 'user'; content: string }
+  | ({ role: 'assistant'; content: string } & Omit<SopAnswer, 'answer'>);
+
+/**
+ * Question-and-answer panel for a shared SOP. Answers come from the SOP only
+ * and link to the steps they cite (`#step-<number>` on the shared page).
+ */
+export default function AskSopPanel({ sopId, className = '' }: AskSopPanelProps) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAsking) return;
+
+    const history = turns.map(turn => ({ role: turn.role, content: turn.content }));
+    setTurns(current => [...current, { role: 'user', content: text }]);
+    setQuestion('');
+    setError(null);
+    setIsAsking(true);
+
+    try {
+      const response = await fetch(`/api/shared/${sopId}/ask`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: text, history }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get an answer');
+      }
+
+      const answer = data as SopAnswer;
+      setTurns(current => [...current, {
+        role: 'assistant',
+        content: answer.answer,
+        citations: answer.citations,
+        answered: answer.answered,
+      }]);
+    } catch (err) {
+      console.error('Error asking SOP question:', err);
+      setError(err instanceof Error ? err.message : 'Failed to get an answer');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100">
+        <h2 className="text-lg font-medium text-gray-900">Ask this SOP</h2>
+        <p className="text-sm text-gray-600">Answers come only from this procedure and link to the steps they use.</p>
+      </div>
+
+      <div className="px-6 py-4 space-y-3 max-h-96 overflow-y-auto">
+        {turns.length === 0 && (
+          <p className="text-sm text-gray-500">For example: &quot;What do I check before starting?&quot;</p>
+        )}
+        {turns.map((turn, index) => (
+          <div key={index} className={turn.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+            <div
+              className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                turn.role === 'user'
+                  ? 'bg-primary-600 text-white'
+                  : turn.answered
+                    ? 'bg-gray-100 text-gray-800'
+                    : 'bg-yellow-50 text-yellow-800 border border-yellow-200'
+              }`}
+            >
+              <p className="whitespace-pre-line">{turn.content}</p>
+              {turn.role === 'assistant' && turn.citations.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Based on{' '}
+                  {turn.citations.map((step, position) => (
+                    <React.Fragment key={step}>
+                      {position > 0 && ', '}
+                      <a href={`#step-${step}`} className="text-primary-600 hover:underline">step {step}</a>
+                    </React.Fragment>
+                  ))}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+        {isAsking && <p className="text-sm text-gray-500">Looking through the procedure...</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleAsk} className="px-6 py-4 border-t border-gray-200 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={500}
+          placeholder="Ask a question about this procedure"
+          className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          aria-label="Question"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="btn btn-primary px-4 py-2 text-sm disabled:opacity-50"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -73,6 +73,12 @@ export default function AuditTrail({
             <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
           </svg>
         );
+      case 'reject':
+        return (
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        );
       default:
         return (
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
@@ -96,6 +102,8 @@ export default function AuditTrail({
         return 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-400 dark:border-yellow-900';
       case 'approve':
         return 'bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/30 dark:text-teal-400 dark:border-teal-900';
+      case 'reject':
+        return 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/30 dark:text-orange-400 dark:border-orange-900';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700';
     }
@@ -183,7 +191,7 @@ export default function AuditTrail({
                   </div>
                   
                   <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-                    {log.metadata?.description || 
+                    {(log.metadata?.description as string | undefined) || 
                      `${getEntityName(log)} ${log.entity_id.substring(0, 8)}... was ${log.action}d`}
                   </p>
                   
@@ -5,13 +5,21 @@ import MediaUploadComponent from './MediaUploadComponent';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Edit, Image, FileText, Video } from 'lucide-react';
+import { Edit, Image, FileText, PenTool, Video } from 'lucide-react';
 import { MediaItem } from '@/hooks/useMediaUpload';
 import useMediaUpload from '@/hooks/useMediaUpload';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MEDIA_GRID_SIZES, MEDIA_VARIANT_WIDTHS, mediaSrcSet, mediaVariantUrl } from '@/utils/media-variants';
+import AnnotatedImage from '@/components/AnnotatedImage';
+import AnnotationEditor from '@/components/AnnotationEditor';
+import { MediaAnnotation } from '@/types/database.types';
+
+// Media rows store 'image'/'video'; older items carry a MIME type
+const isImage = (type: string) => type === 'image' || type.startsWith('image/');
+const isVideo = (type: string) => type === 'video' || type.startsWith('video/');
 
 interface Media {
   id: string;
@@ -57,6 +65,7 @@ export default function MediaGallery({
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [editedCaption, setEditedCaption] = useState('');
   const [editedDisplayMode, setEditedDisplayMode] = useState('');
+  const [annotatingMedia, setAnnotatingMedia] = useState<MediaItem | null>(null);
 
   const { updateMedia, deleteMedia, loading, error } = useMediaUpload({
     stepId,
@@ -106,24 +115,52 @@ export default function MediaGallery({
   };
 
   const getMediaIcon = (mediaType: string) => {
-    if (mediaType.startsWith('image/')) return <Image className="h-5 w-5" />;
-    if (mediaType.startsWith('video/')) return <Video className="h-5 w-5" />;
+    if (isImage(mediaType)) return <Image className="h-5 w-5" />;
+    if (isVideo(mediaType)) return <Video className="h-5 w-5" />;
     return <FileText className="h-5 w-5" />;
   };
 
+  const handleSaveAnnotations = async (annotations: MediaAnnotation[]) => {
+    if (!annotatingMedia) return;
+
+    const updated = await updateMedia(annotatingMedia.id, { annotations });
+    if (updated) {
+      onMediaUpdated?.(updated);
+      setAnnotatingMedia(null);
+    }
+  };
+
   const getMediaPreview = (media: MediaItem) => {
-    if (media.type.startsWith('image/')) {
+    if (isImage(media.type) && media.annotations?.length) {
+      return (
+        <div onClick={() => handleView(media)} className="cursor-pointer">
+          <AnnotatedImage
+            src={mediaVariantUrl(media, MEDIA_VARIANT_WIDTHS.medium)}
+            width={media.width}
+            height={media.height}
+            annotations={media.annotations}
+            alt={media.caption || 'Media preview'}
+            className="w-full h-32 rounded-md bg-muted"
+          />
+        </div>
+      );
+    }
+
+    if (isImage(media.type)) {
       return (
         <img 
-          src={media.url} 
+          src={mediaVariantUrl(media, MEDIA_VARIANT_WIDTHS.thumbnail)} 
+          srcSet={mediaSrcSet(media)}
+          sizes={MEDIA_GRID_SIZES}
           alt={media.caption || 'Media preview'} 
+          loading="lazy"
           className="object-cover w-full h-32 rounded-md cursor-pointer"
           onClick={() => handleView(media)}
         />
       );
     }
     
-    if (media.type.startsWith('video/')) {
+    if (isVideo(media.type)) {
       return (
         <video 
           src={media.url} 
@@ -154,6 +191,17 @@ export default function MediaGallery({
                 {getMediaPreview(media)}
                 {!readOnly && (
                   <div className="absolute top-2 right-2 flex space-x-1">
+                    {isImage(media.type) && (
+                      <Button
+                        size="icon"
+                        variant="secondary"
+                        className="h-7 w-7 rounded-full bg-background/80 backdrop-blur-sm"
+                        onClick={() => setAnnotatingMedia(media)}
+                        aria-label="Annotate image"
+                      >
+                        <PenTool className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
                     <Button
                       size="icon"
                       variant="secondary"
@@ -208,14 +256,26 @@ export default function MediaGallery({
             <DialogTitle>{selectedMedia?.caption || 'Media Preview'}</DialogTitle>
           </DialogHeader>
           <div className="flex justify-center">
-            {selectedMedia?.type.startsWith('image/') && (
+            {selectedMedia && isImage(selectedMedia.type) && !!selectedMedia.annotations?.length && (
+              <AnnotatedImage
+                src={mediaVariantUrl(selectedMedia, MEDIA_VARIANT_WIDTHS.large)}
+                width={selectedMedia.width}
+                height={selectedMedia.height}
+                annotations={selectedMedia.annotations}
+                alt={selectedMedia.caption || 'Media preview'}
+                className="max-h-[500px] w-full"
+              />
+            )}
+            {selectedMedia && isImage(selectedMedia.type) && !selectedMedia.annotations?.length && (
               <img 
-                src={selectedMedia.url} 
+                src={mediaVariantUrl(selectedMedia, MEDIA_VARIANT_WIDTHS.large)} 
+                srcSet={mediaSrcSet(selectedMedia)}
+                sizes="(max-width: 640px) 100vw, 576px"
                 alt={selectedMedia.caption || 'Media preview'} 
                 className="max-h-[500px] object-contain"
               />
             )}
-            {selectedMedia?.type.startsWith('video/') && (
+            {selectedMedia && isVideo(selectedMedia.type) && (
               <video 
                 src={selectedMedia.url} 
                 controls
@@ -238,6 +298,20 @@ export default function MediaGallery({
         </DialogContent>
       </Dialog>
 
+      {/* Annotation Editor */}
+      {annotatingMedia && (
+        <AnnotationEditor
+          isOpen={!!annotatingMedia}
+          src={mediaVariantUrl(annotatingMedia, MEDIA_VARIANT_WIDTHS.large)}
+          width={annotatingMedia.width}
+          height={annotatingMedia.height}
+          annotations={annotatingMedia.annotations}
+          title={annotatingMedia.caption ? `Annotate: ${annotatingMedia.caption}` : undefined}
+          onSave={handleSaveAnnotations}
+          onClose={() => setAnnotatingMedia(null)}
+        />
+      )}
+
       {/* Edit Media Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
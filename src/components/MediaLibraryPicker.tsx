@@ -0,0 +1,572 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText, Film, Folder, FolderPlus, RefreshCw, Search, Upload, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { MediaFolder, MediaType } from '@/types/database.types';
+import {
+  createLibraryFolder,
+  fetchLibraryAssetUsage,
+  fetchLibraryAssets,
+  fetchLibraryFolders,
+  replaceLibraryAsset,
+  uploadLibraryAsset
+} from '@/utils/api';
+import { mediaVariantUrl } from '@/utils/media-variants';
+import type { MediaAssetUsage, MediaAssetWithUsage } from '@/utils/media-library';
+
+interface MediaLibraryPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the asset to use; the picker closes once it resolves */
+  onSelect: (asset: MediaAssetWithUsage) => Promise<unknown>;
+  /** Content types the caller can use; other assets are shown but can't be picked */
+  acceptedContentTypes?: string[];
+}
+
+// 'all' shows every folder, 'root' the assets not filed in one
+type FolderFilter = 'all' | 'root' | string;
+
+const TYPE_OPTIONS: { value: MediaType | ''; label: string }[] = [
+  { value: '', label: 'All types' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'document', label: 'Documents' },
+];
+
+// Folders in tree order with their depth, for the indented folder list
+function sortFolderTree(folders: MediaFolder[]): { folder: MediaFolder; depth: number }[] {
+  const ids = new Set(folders.map(folder => folder.id));
+  const children = new Map<string | null, MediaFolder[]>();
+
+  for (const folder of folders) {
+    const parent = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    children.set(parent, [...(children.get(parent) || []), folder]);
+  }
+
+  const sorted: { folder: MediaFolder; depth: number }[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    for (const folder of (children.get(parent) || []).sort((a, b) => a.name.localeCompare(b.name))) {
+      sorted.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return sorted;
+}
+
+function AssetThumbnail({ asset }: { asset: MediaAssetWithUsage }) {
+  if (asset.type === 'image') {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={mediaVariantUrl(asset, 320)}
+        alt={asset.name}
+        loading="lazy"
+        className="h-full w-full object-cover"
+      />
+    );
+  }
+
+  return (
+    <div className="h-full w-full flex items-center justify-center bg-gray-100 text-gray-400">
+      {asset.type === 'video' ? <Film className="h-8 w-8" /> : <FileText className="h-8 w-8" />}
+    </div>
+  );
+}
+
+function UsageList({ usage }: { usage: MediaAssetUsage[] }) {
+  if (usage.length === 0) {
+    return <p className="text-sm text-gray-500">Not used by any SOP yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-48 overflow-y-auto">
+      {usage.map(sop => (
+        <li key={sop.sop_id} className="text-sm">
+          <a
+            href={`/sop/${sop.sop_id}/edit`}
+            target="_blank"
+            rel="noreferrer"
+            className="font-medium text-indigo-600 hover:underline"
+          >
+            {sop.sop_title}
+          </a>
+          <ul className="ml-4 list-disc text-gray-600">
+            {sop.steps.map(step => (
+              <li key={step.media_id}>{step.step_title}</li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * The shared media library: browse folders, search and filter by tag, add
+ * files, pick one for a step, and replace a file everywhere it is used
+ * after reviewing where that is
+ */
+export default function MediaLibraryPicker({ isOpen, onClose, onSelect, acceptedContentTypes }: MediaLibraryPickerProps) {
+  const { currentUser } = useAuth();
+
+  const [folders, setFolders] = useState<MediaFolder[]>([]);
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>('all');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [tag, setTag] = useState('');
+  const [type, setType] = useState<MediaType | ''>('');
+
+  const [assets, setAssets] = useState<MediaAssetWithUsage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<MediaAssetWithUsage | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+
+  const [uploadTags, setUploadTags] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+
+  const [replaceFile, setReplaceFile] = useState<File | null>(null);
+  const [usage, setUsage] = useState<MediaAssetUsage[] | null>(null);
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  const folderTree = useMemo(() => sortFolderTree(folders), [folders]);
+  const tags = useMemo(() => [...new Set(assets.flatMap(asset => asset.tags))].sort(), [assets]);
+  const currentFolderId = folderFilter === 'all' || folderFilter === 'root' ? null : folderFilter;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const loadAssets = useCallback(async (offset = 0) => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await currentUser.getIdToken();
+      const result = await fetchLibraryAssets(token, {
+        search: debouncedSearch || undefined,
+        folderId: folderFilter === 'all' ? undefined : folderFilter === 'root' ? null : folderFilter,
+        tag: tag || undefined,
+        type: type || undefined,
+        offset,
+      });
+      setAssets(current => (offset === 0 ? result.assets : [...current, ...result.assets]));
+      setTotal(result.total);
+    } catch (err) {
+      console.error('Error loading media library:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the media library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, debouncedSearch, folderFilter, tag, type]);
+
+  useEffect(() => {
+    if (isOpen) loadAssets();
+  }, [isOpen, loadAssets]);
+
+  useEffect(() => {
+    if (!isOpen || !currentUser) return;
+    currentUser.getIdToken()
+      .then(token => fetchLibraryFolders(token))
+      .then(setFolders)
+      .catch(err => console.error('Error loading media folders:', err));
+  }, [isOpen, currentUser]);
+
+  const cancelReplace = () => {
+    setReplaceFile(null);
+    setUsage(null);
+  };
+
+  const selectAsset = (asset: MediaAssetWithUsage) => {
+    cancelReplace();
+    setSelected(asset);
+  };
+
+  const handleUse = async () => {
+    if (!selected) return;
+    setIsSelecting(true);
+    setError(null);
+    try {
+      await onSelect(selected);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add media to the step');
+    } finally {
+      setIsSelecting(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentUser) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const token = await currentUser.getIdToken();
+      const asset = await uploadLibraryAsset(token, file, {
+        tags: uploadTags.split(','),
+        folderId: currentFolderId,
+      });
+      setAssets(current => [asset, ...current]);
+      setTotal(current => current + 1);
+      setSelected(asset);
+      setUploadTags('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload to the library');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !newFolderName?.trim()) return;
+    try {
+      const token = await currentUser.getIdToken();
+      const folder = await createLibraryFolder(token, newFolderName.trim(), currentFolderId);
+      setFolders(current => [...current, folder]);
+      setFolderFilter(folder.id);
+      setNewFolderName(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create folder');
+    }
+  };
+
+  // Show where the asset is used before anything is replaced
+  const handleReplaceFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected || !currentUser) return;
+
+    setReplaceFile(file);
+    setUsage(null);
+    try {
+      const token = await currentUser.getIdToken();
+      setUsage(await fetchLibraryAssetUsage(token, selected.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find where this media is used');
+      setReplaceFile(null);
+    }
+  };
+
+  const handleConfirmReplace = async () => {
+    if (!selected || !replaceFile || !currentUser) return;
+    setIsReplacing(true);
+    setError(null);
+    try {
+      const token = await currentUser.getIdToken();
+      const asset = await replaceLibraryAsset(token, selected.id, replaceFile);
+      setAssets(current => current.map(a => (a.id === asset.id ? asset : a)));
+      setSelected(asset);
+      cancelReplace();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replace the file');
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const usageStepCount = usage?.reduce((count, sop) => count + sop.steps.length, 0) ?? 0;
+  const canUse = selected && (!acceptedContentTypes || acceptedContentTypes.includes(selected.content_type));
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-60" onClick={onClose} aria-hidden="true" />
+
+        <div className="relative w-full max-w-6xl bg-white rounded-lg shadow-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Media library</h2>
+            <button type="button" onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-gray-700">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex h-[70vh]">
+            {/* Folders and upload */}
+            <aside className="w-56 shrink-0 border-r border-gray-200 p-4 overflow-y-auto space-y-4">
+              <nav className="space-y-1 text-sm">
+                {([['all', 'All media'], ['root', 'Unfiled']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setFolderFilter(value)}
+                    className={`w-full text-left px-2 py-1 rounded ${folderFilter === value ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {folderTree.map(({ folder, depth }) => (
+                  <button
+                    key={folder.id}
+                    type="button"
+                    onClick={() => setFolderFilter(folder.id)}
+                    style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                    className={`w-full flex items-center gap-1 text-left pr-2 py-1 rounded ${folderFilter === folder.id ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <Folder className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{folder.name}</span>
+                  </button>
+                ))}
+              </nav>
+
+              {newFolderName === null ? (
+                <button
+                  type="button"
+                  onClick={() => setNewFolderName('')}
+                  className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <FolderPlus className="h-4 w-4" />
+                  New folder
+                </button>
+              ) : (
+                <form onSubmit={handleCreateFolder} className="space-y-2">
+                  <input
+                    autoFocus
+                    value={newFolderName}
+                    onChange={e => setNewFolderName(e.target.value)}
+                    placeholder={currentFolderId ? 'Subfolder name' : 'Folder name'}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  />
+                  <div className="flex gap-2">
+                    <button type="submit" className="px-2 py-1 text-xs text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                      Create
+                    </button>
+                    <button type="button" onClick={() => setNewFolderName(null)} className="px-2 py-1 text-xs text-gray-600">
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              <div className="pt-4 border-t border-gray-200 space-y-2">
+                <input
+                  value={uploadTags}
+                  onChange={e => setUploadTags(e.target.value)}
+                  placeholder="Tags, comma-separated"
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <button
+                  type="button"
+                  onClick={() => uploadInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="w-full flex items-center justify-center gap-1 px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  <Upload className="h-4 w-4" />
+                  {isUploading ? 'Uploading...' : 'Upload to library'}
+                </button>
+                <input
+                  ref={uploadInputRef}
+                  type="file"
+                  accept={acceptedContentTypes?.join(',')}
+                  onChange={handleUpload}
+                  className="hidden"
+                />
+              </div>
+            </aside>
+
+            {/* Search and results */}
+            <section className="flex-1 flex flex-col min-w-0">
+              <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+                <div className="relative flex-1 min-w-[12rem]">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                  <input
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                    placeholder="Search name, description or tag"
+                    className="w-full pl-8 pr-3 py-2 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+                <select
+                  value={type}
+                  onChange={e => setType(e.target.value as MediaType | '')}
+                  className="px-2 py-2 text-sm border border-gray-300 rounded-md"
+                >
+                  {TYPE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {tag && (
+                  <button
+                    type="button"
+                    onClick={() => setTag('')}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-indigo-100 text-indigo-800"
+                  >
+                    #{tag}
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+
+              {!tag && tags.length > 0 && (
+                <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap gap-1">
+                  {tags.map(value => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setTag(value)}
+                      className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      #{value}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {error && (
+                <div className="mx-4 mt-3 px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex-1 overflow-y-auto p-4">
+                {assets.length === 0 && !isLoading ? (
+                  <p className="text-sm text-gray-500 text-center py-12">
+                    No media found. Upload a file to start the library.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                    {assets.map(asset => (
+                      <button
+                        key={asset.id}
+                        type="button"
+                        onClick={() => selectAsset(asset)}
+                        className={`text-left rounded-md border overflow-hidden ${selected?.id === asset.id ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200 hover:border-indigo-300'}`}
+                      >
+                        <div className="aspect-video">
+                          <AssetThumbnail asset={asset} />
+                        </div>
+                        <div className="px-2 py-1.5">
+                          <p className="text-sm font-medium text-gray-900 truncate">{asset.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {asset.usage_count === 0 ? 'Unused' : `Used in ${asset.usage_count} step${asset.usage_count === 1 ? '' : 's'}`}
+                          </p>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {isLoading && <p className="text-sm text-gray-500 text-center py-4">Loading...</p>}
+
+                {!isLoading && assets.length < total && (
+                  <div className="text-center pt-4">
+                    <button
+                      type="button"
+                      onClick={() => loadAssets(assets.length)}
+                      className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      Load more
+                    </button>
+                  </div>
+                )}
+              </div>
+            </section>
+
+            {/* Selected asset */}
+            {selected && (
+              <aside className="w-72 shrink-0 border-l border-gray-200 p-4 overflow-y-auto space-y-4">
+                <div className="aspect-video rounded-md overflow-hidden border border-gray-200">
+                  <AssetThumbnail asset={selected} />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 break-words">{selected.name}</h3>
+                  {selected.description && <p className="mt-1 text-sm text-gray-600">{selected.description}</p>}
+                  {selected.tags.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {selected.tags.map(value => (
+                        <span key={value} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">#{value}</span>
+                      ))}
+                    </div>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">
+                    {selected.filename}
+                    {selected.width && selected.height ? ` • ${selected.width}×${selected.height}` : ''}
+                  </p>
+                </div>
+
+                {replaceFile ? (
+                  <div className="p-3 rounded-md border border-amber-200 bg-amber-50 space-y-3">
+                    <p className="text-sm text-amber-900">
+                      Replace with <span className="font-medium">{replaceFile.name}</span>?
+                      {usage && usageStepCount > 0 && ` This updates ${usageStepCount} step${usageStepCount === 1 ? '' : 's'} in ${usage.length} SOP${usage.length === 1 ? '' : 's'}:`}
+                    </p>
+                    {usage ? <UsageList usage={usage} /> : <p className="text-sm text-gray-500">Finding where it is used...</p>}
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleConfirmReplace}
+                        disabled={!usage || isReplacing}
+                        className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:opacity-50"
+                      >
+                        {isReplacing ? 'Replacing...' : 'Replace everywhere'}
+                      </button>
+                      <button type="button" onClick={cancelReplace} className="px-3 py-1.5 text-sm text-gray-700">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => replaceInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    Replace file...
+                  </button>
+                )}
+                <input
+                  ref={replaceInputRef}
+                  type="file"
+                  accept={selected.content_type.startsWith('image/') ? 'image/jpeg,image/png,image/gif' : selected.content_type}
+                  onChange={handleReplaceFileChosen}
+                  className="hidden"
+                />
+              </aside>
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {total} item{total === 1 ? '' : 's'} • Steps show the latest version of a library file
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleUse}
+                disabled={!canUse || isSelecting}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSelecting ? 'Adding...' : 'Use in step'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -1,5 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Image from 'next/image';
+import { PenTool } from 'lucide-react';
+import { MediaAnnotation, MediaVariant } from '@/types/database.types';
+import { MEDIA_GRID_SIZES, MEDIA_VARIANT_WIDTHS, mediaPosterUrl, mediaSrcSet, mediaVariantUrl } from '@/utils/media-variants';
+import AnnotatedImage from '@/components/AnnotatedImage';
+import AnnotationEditor from '@/components/AnnotationEditor';
 
 interface Media {
   id: string;
@@ -10,31 +15,109 @@ interface Media {
   created_at?: string;
   updated_at?: string;
   display_mode?: 'contain' | 'cover';
+  width?: number | null;
+  height?: number | null;
+  variants?: MediaVariant[] | null;
+  annotations?: MediaAnnotation[] | null;
 }
 
 interface MediaPreviewProps {
   media: Media;
   className?: string;
+  /** When given, images get an Annotate button opening the annotation editor */
+  onSaveAnnotations?: (annotations: MediaAnnotation[]) => Promise<void>;
 }
 
-const MediaPreview: React.FC<MediaPreviewProps> = ({ media, className = '' }) => {
-  // Handle different media types
-  if (media.type === 'image') {
+function ImagePreview({ media, className }: { media: Media; className: string }) {
+  const srcSet = mediaSrcSet(media);
+
+  if (media.annotations?.length) {
+    return (
+      <div className={`relative w-full h-48 overflow-hidden ${className}`}>
+        <AnnotatedImage
+          src={mediaVariantUrl(media, MEDIA_VARIANT_WIDTHS.medium)}
+          width={media.width}
+          height={media.height}
+          annotations={media.annotations}
+          alt={media.caption || 'Step image'}
+          className="w-full h-full rounded-t-lg"
+        />
+      </div>
+    );
+  }
+
+  // Processed uploads come with their own WebP variants
+  if (srcSet) {
     return (
       <div className={`relative w-full h-48 overflow-hidden ${className}`}>
-        <Image
-          src={media.url}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={mediaVariantUrl(media, MEDIA_VARIANT_WIDTHS.medium)}
+          srcSet={srcSet}
+          sizes={MEDIA_GRID_SIZES}
+          width={media.width || undefined}
+          height={media.height || undefined}
           alt={media.caption || 'Step image'}
-          fill={true}
+          loading="lazy"
+          decoding="async"
+          className="w-full h-full rounded-t-lg"
           style={{ objectFit: media.display_mode === 'cover' ? 'cover' : 'contain' }}
-          className="rounded-t-lg"
-          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-          priority={false}
-          onError={(e) => {
-            const target = e.target as HTMLImageElement;
-            target.src = '/images/placeholder-image.jpg';
-            console.error('Error loading image:', media.url);
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`relative w-full h-48 overflow-hidden ${className}`}>
+      <Image
+        src={media.url}
+        alt={media.caption || 'Step image'}
+        fill={true}
+        style={{ objectFit: media.display_mode === 'cover' ? 'cover' : 'contain' }}
+        className="rounded-t-lg"
+        sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+        priority={false}
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.src = '/images/placeholder-image.jpg';
+          console.error('Error loading image:', media.url);
+        }}
+      />
+    </div>
+  );
+}
+
+const MediaPreview: React.FC<MediaPreviewProps> = ({ media, className = '', onSaveAnnotations }) => {
+  const [isAnnotating, setIsAnnotating] = useState(false);
+
+  // Handle different media types
+  if (media.type === 'image') {
+    if (!onSaveAnnotations) {
+      return <ImagePreview media={media} className={className} />;
+    }
+
+    return (
+      <div className="relative">
+        <ImagePreview media={media} className={className} />
+        <button
+          type="button"
+          onClick={() => setIsAnnotating(true)}
+          className="absolute top-2 right-2 inline-flex items-center px-2 py-1 text-xs font-medium rounded-md bg-white/90 text-slate-700 shadow hover:bg-white"
+        >
+          <PenTool className="h-3.5 w-3.5 mr-1" />
+          Annotate
+        </button>
+        <AnnotationEditor
+          isOpen={isAnnotating}
+          src={mediaVariantUrl(media, MEDIA_VARIANT_WIDTHS.large)}
+          width={media.width}
+          height={media.height}
+          annotations={media.annotations}
+          onSave={async (annotations) => {
+            await onSaveAnnotations(annotations);
+            setIsAnnotating(false);
           }}
+          onClose={() => setIsAnnotating(false)}
         />
       </div>
     );
@@ -45,6 +128,8 @@ const MediaPreview: React.FC<MediaPreviewProps> = ({ media, className = '' }) =>
       <div className={`w-full ${className}`}>
         <video 
           src={media.url} 
+          poster={mediaPosterUrl(media)}
+          preload="metadata"
           controls 
           className="w-full h-auto max-h-48 rounded-t-lg"
           onError={(e) => {
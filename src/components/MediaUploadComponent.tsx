@@ -1,7 +1,9 @@
 import React, { useState, useCallback } from 'react';
 import { MediaType } from '@/types/database.types';
 import { useDropzone } from 'react-dropzone';
-import { FiUpload, FiX, FiImage, FiFilm, FiFile, FiAlertCircle, FiCheckCircle, FiLoader } from 'react-icons/fi';
+import { FiUpload, FiX, FiImage, FiFilm, FiFile, FiAlertCircle, FiCheckCircle, FiLoader, FiFolder, FiPause, FiPlay } from 'react-icons/fi';
+import MediaLibraryPicker from './MediaLibraryPicker';
+import type { MediaAssetWithUsage } from '@/utils/media-library';
 
 export type MediaUploadStatus = 'idle' | 'uploading' | 'success' | 'error';
 
@@ -13,6 +15,14 @@ export interface MediaUploadComponentProps {
   acceptedFileTypes?: string[];
   className?: string;
   uploadLabel?: string;
+  /** When set, a "Choose from library" button lets the user pick a shared asset instead */
+  onSelectLibraryAsset?: (stepId: string, asset: MediaAssetWithUsage) => Promise<unknown>;
+  /** Real upload progress (0-100); replaces the estimate while set */
+  progress?: number | null;
+  paused?: boolean;
+  /** When set, a resumable upload in progress can be paused and resumed */
+  onPauseUpload?: () => void;
+  onResumeUpload?: () => void;
 }
 
 export default function MediaUploadComponent({
@@ -22,13 +32,19 @@ export default function MediaUploadComponent({
   maxSizeMB = 10,
   acceptedFileTypes = ['image/jpeg', 'image/png', 'image/gif', 'video/mp4', 'application/pdf'],
   className = '',
-  uploadLabel = 'Upload Image/Video'
+  uploadLabel = 'Upload Image/Video',
+  onSelectLibraryAsset,
+  progress = null,
+  paused = false,
+  onPauseUpload,
+  onResumeUpload
 }: MediaUploadComponentProps) {
   const [uploadStatus, setUploadStatus] = useState<MediaUploadStatus>('idle');
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   
   // Maximum file size in bytes
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
@@ -161,7 +177,7 @@ export default function MediaUploadComponent({
           <div className="absolute top-0 left-0 h-1 bg-blue-100 w-full">
             <div 
               className="h-full bg-blue-500 transition-all duration-300"
-              style={{ width: `${uploadProgress}%` }}
+              style={{ width: `${progress ?? uploadProgress}%` }}
             ></div>
           </div>
         )}
@@ -235,14 +251,53 @@ export default function MediaUploadComponent({
             }`}>
               {renderStatusIcon()}
               <span className="ml-2">
-                {uploadStatus === 'uploading' && 'Uploading...'}
+                {uploadStatus === 'uploading' && (
+                  paused ? `Paused at ${progress ?? 0}%` : progress !== null ? `Uploading... ${progress}%` : 'Uploading...'
+                )}
                 {uploadStatus === 'success' && 'Upload successful!'}
                 {uploadStatus === 'error' && (uploadError || 'Upload failed')}
               </span>
+              {uploadStatus === 'uploading' && progress !== null && onPauseUpload && onResumeUpload && (
+                <button
+                  type="button"
+                  className="ml-3 flex items-center gap-1 text-xs text-gray-600 hover:text-blue-600"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (paused) {
+                      onResumeUpload();
+                    } else {
+                      onPauseUpload();
+                    }
+                  }}
+                >
+                  {paused ? <FiPlay size={12} /> : <FiPause size={12} />}
+                  {paused ? 'Resume' : 'Pause'}
+                </button>
+              )}
             </div>
           )}
         </div>
       </div>
+
+      {onSelectLibraryAsset && (
+        <>
+          <button
+            type="button"
+            onClick={() => setIsLibraryOpen(true)}
+            disabled={uploadStatus === 'uploading'}
+            className="mt-2 flex items-center justify-center gap-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            <FiFolder size={16} />
+            Choose from library
+          </button>
+          <MediaLibraryPicker
+            isOpen={isLibraryOpen}
+            onClose={() => setIsLibraryOpen(false)}
+            onSelect={asset => onSelectLibraryAsset(stepId, asset)}
+            acceptedContentTypes={acceptedFileTypes}
+          />
+        </>
+      )}
     </div>
   );
 } 
\ No newline at end of file
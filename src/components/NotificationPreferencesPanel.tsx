@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useToast } from '@/contexts/ToastContext';
+import { NotificationChannel, NotificationEmailFrequency, NotificationType } from '@/types/database.types';
+import { fetchNotificationPreferences, updateNotificationPreferences } from '@/utils/api';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EMAIL_FREQUENCIES,
+  NOTIFICATION_TYPES,
+  NotificationSettings
+} from '@/utils/notification-types';
+
+/**
+ * Which notification types the current user gets on each channel, and
+ * whether emails come right away or as a daily digest; every change is
+ * saved right away
+ */
+export default function NotificationPreferencesPanel({ className = '' }: { className?: string }) {
+  const { getToken } = useAuthContext();
+  const { showToast } = useToast();
+
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      const token = await getToken();
+      if (!token) return;
+      setSettings(await fetchNotificationPreferences(token));
+    } catch (err) {
+      console.error('Error loading notification preferences:', err);
+      showToast('Failed to load notification preferences', 'error');
+    }
+  }, [getToken, showToast]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const saveChanges = async (changes: Parameters<typeof updateNotificationPreferences>[1]) => {
+    setIsSaving(true);
+    try {
+      const token = await getToken();
+      if (!token) throw new Error('Authentication required');
+      setSettings(await updateNotificationPreferences(token, changes));
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to save notification preferences', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = (type: NotificationType, channel: NotificationChannel, enabled: boolean) =>
+    saveChanges({ preferences: [{ type, channel, enabled }] });
+
+  const handleFrequencyChange = (emailFrequency: NotificationEmailFrequency) =>
+    saveChanges({ emailFrequency });
+
+  return (
+    <div id="notifications" className={`bg-white dark:bg-gray-800 shadow rounded-lg ${className}`}>
+      <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Notifications</h2>
+      </div>
+
+      <div className="p-6">
+        {!settings ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading preferences...</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-700 dark:text-gray-300 pb-2">Notify me about</th>
+                  {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                    <th key={channel} className="text-center font-medium text-gray-700 dark:text-gray-300 pb-2 w-16">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+                  <tr key={type}>
+                    <td className="py-2 pr-2">
+                      <p className="text-gray-900 dark:text-white">{label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map(({ channel, label: channelLabel }) => (
+                      <td key={channel} className="py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={settings.preferences[type][channel]}
+                          disabled={isSaving}
+                          onChange={(e) => handleToggle(type, channel, e.target.checked)}
+                          aria-label={`${label}: ${channelLabel}`}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-6 flex items-center justify-between gap-4">
+              <label htmlFor="email-frequency" className="text-sm text-gray-700 dark:text-gray-300">
+                Send emails
+              </label>
+              <select
+                id="email-frequency"
+                value={settings.emailFrequency}
+                disabled={isSaving}
+                onChange={(e) => handleFrequencyChange(e.target.value as NotificationEmailFrequency)}
+                className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm focus:ring-primary-500 focus:border-primary-500"
+              >
+                {NOTIFICATION_EMAIL_FREQUENCIES.map(({ frequency, label }) => (
+                  <option key={frequency} value={frequency}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
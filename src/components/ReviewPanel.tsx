@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { Approval, AuditLog, SopReview } from '@/types/database.types';
+import {
+  fetchSopAuditLogs,
+  fetchSopReview,
+  submitSopForReview,
+  withdrawSopReview,
+} from '@/utils/api';
+import AuditTrail from '@/components/AuditTrail';
+import ConfirmDialog from '@/components/ConfirmDialog';
+
+interface ReviewPanelProps {
+  sopId: string;
+  onStatusChange?: () => void;
+  className?: string;
+}
+
+const REVIEW_STATUS_STYLES: Record<SopReview['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const APPROVAL_STATUS_STYLES: Record<Approval['status'], string> = {
+  pending: 'text-gray-500',
+  approved: 'text-green-700',
+  rejected: 'text-red-700',
+};
+
+export default function ReviewPanel({ sopId, onStatusChange, className = '' }: ReviewPanelProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [review, setReview] = useState<SopReview | null>(null);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewers, setReviewers] = useState('');
+  const [ordered, setOrdered] = useState(false);
+  const [quorum, setQuorum] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showWithdraw, setShowWithdraw] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+
+  const loadReview = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const [latestReview, auditLogs] = await Promise.all([
+        fetchSopReview(token, sopId),
+        fetchSopAuditLogs(token, sopId),
+      ]);
+      setReview(latestReview);
+      setLogs(auditLogs);
+    } catch (err) {
+      console.error('Error loading review:', err);
+      showToast('Failed to load review status', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, sopId, showToast]);
+
+  useEffect(() => {
+    loadReview();
+  }, [loadReview]);
+
+  const reviewerList = reviewers
+    .split(/[\s,;]+/)
+    .map(reviewer => reviewer.trim())
+    .filter(Boolean);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || reviewerList.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await submitSopForReview(token, sopId, {
+        reviewers: reviewerList,
+        ordered,
+        quorum: quorum ? parseInt(quorum, 10) : undefined,
+        message: message || undefined,
+      });
+      showToast('SOP submitted for review', 'success');
+      setReviewers('');
+      setQuorum('');
+      setMessage('');
+      await loadReview();
+      onStatusChange?.();
+    } catch (err) {
+      console.error('Error submitting for review:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to submit for review', 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!currentUser) return;
+    setIsWithdrawing(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await withdrawSopReview(token, sopId);
+      showToast('Review withdrawn', 'success');
+      setShowWithdraw(false);
+      await loadReview();
+      onStatusChange?.();
+    } catch (err) {
+      console.error('Error withdrawing review:', err);
+      showToast('Failed to withdraw review', 'error');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const isPending = review?.status === 'pending';
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Review</h2>
+          {review && (
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${REVIEW_STATUS_STYLES[review.status]}`}>
+              {review.status.charAt(0).toUpperCase() + review.status.slice(1)}
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading review...</div>
+        ) : (
+          <div className="px-6 py-4 space-y-4">
+            {review && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  {isPending ? 'Requested' : 'Last review requested'}{' '}
+                  {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                  {' · '}
+                  {review.quorum} of {review.approvals?.length ?? 0} approval(s) required
+                  {review.ordered && ' · in order'}
+                </p>
+                {review.message && <p className="text-sm text-gray-700 italic">{review.message}</p>}
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-md">
+                  {(review.approvals || []).map(approval => (
+                    <li key={approval.id} className="px-3 py-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-900">
+                          {approval.sequence ? `${approval.sequence}. ` : ''}
+                          {approval.reviewer_email || approval.user_id}
+                        </span>
+                        <span className={`font-medium ${APPROVAL_STATUS_STYLES[approval.status]}`}>
+                          {approval.status}
+                        </span>
+                      </div>
+                      {approval.comment && <p className="mt-1 text-gray-600">{approval.comment}</p>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isPending ? (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  The SOP can&apos;t be edited while reviewers decide. Withdraw the review to make changes.
+                </p>
+                <button
+                  onClick={() => setShowWithdraw(true)}
+                  className="btn btn-outline px-3 py-1.5 text-sm"
+                >
+                  Withdraw review
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div>
+                  <label htmlFor="review-reviewers" className="block text-sm font-medium text-gray-700">
+                    Reviewers
+                  </label>
+                  <input
+                    id="review-reviewers"
+                    type="text"
+                    value={reviewers}
+                    onChange={(e) => setReviewers(e.target.value)}
+                    placeholder="reviewer@example.com, another@example.com"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  />
+                </div>
+                <div className="flex items-center gap-6">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={ordered}
+                      onChange={(e) => setOrdered(e.target.checked)}
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                    />
+                    Review in the order listed
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Approvals required
+                    <input
+                      type="number"
+                      min={1}
+                      max={Math.max(reviewerList.length, 1)}
+                      value={quorum}
+                      onChange={(e) => setQuorum(e.target.value)}
+                      placeholder={String(reviewerList.length || 'All')}
+                      className="w-20 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    />
+                  </label>
+                </div>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={2}
+                  placeholder="Message for reviewers (optional)"
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting || reviewerList.length === 0}
+                  className="btn btn-primary px-3 py-1.5 text-sm disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Submitting...' : 'Submit for review'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+
+      {logs.length > 0 && <AuditTrail logs={logs} entityId={sopId} />}
+
+      <ConfirmDialog
+        isOpen={showWithdraw}
+        title="Withdraw review"
+        message="Cancel the review in progress? Decisions made so far are kept on record and the SOP returns to draft."
+        confirmText="Withdraw"
+        onConfirm={handleWithdraw}
+        onCancel={() => setShowWithdraw(false)}
+        isLoading={isWithdrawing}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { SopRun } from '@/types/database.types';
+import { fetchSopRuns, startSopRun } from '@/utils/api';
+
+interface RunHistoryProps {
+  sopId: string;
+  className?: string;
+}
+
+const RUN_STATUS_STYLES: Record<SopRun['status'], string> = {
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+export default function RunHistory({ sopId, className = '' }: RunHistoryProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+
+  const [runs, setRuns] = useState<SopRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadRuns = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      setRuns(await fetchSopRuns(token, sopId));
+    } catch (err) {
+      console.error('Error loading runs:', err);
+      showToast('Failed to load run history', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, sopId, showToast]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleStart = async () => {
+    if (!currentUser) return;
+    setIsStarting(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const run = await startSopRun(token, sopId);
+      router.push(`/sop/${sopId}/runs/${run.id}`);
+    } catch (err) {
+      console.error('Error starting run:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to start run', 'error');
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden print:hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Run History</h2>
+        <button
+          onClick={handleStart}
+          disabled={isStarting}
+          className="btn btn-primary px-3 py-1.5 text-sm disabled:opacity-50"
+        >
+          {isStarting ? 'Starting...' : 'Start run'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center text-gray-500">Loading runs...</div>
+      ) : runs.length === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-500">
+          This SOP has not been run yet. Runs use the latest published version.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {runs.map(run => (
+            <li key={run.id}>
+              <button
+                onClick={() => router.push(`/sop/${sopId}/runs/${run.id}`)}
+                className="w-full px-6 py-3 flex items-center gap-4 text-left hover:bg-gray-50"
+              >
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <span className="font-medium text-gray-900">v{run.version_number}</span>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>
+                      {run.status === 'completed' ? 'Signed off' : 'In progress'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Started {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+                    {run.signature_name && ` · signed by ${run.signature_name}`}
+                  </p>
+                </div>
+                <span className="text-sm text-primary-600 font-medium">
+                  {run.status === 'completed' ? 'View' : 'Continue'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { SopVersion } from '@/types/database.types';
+import { createShareLink, fetchShareLinks, fetchSopVersions, revokeShareLink } from '@/utils/api';
+import type { ShareLinkStatus, ShareLinkSummary } from '@/utils/share-links';
+
+interface ShareLinksTableProps {
+  sopId: string;
+  className?: string;
+}
+
+const LINK_STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-gray-100 text-gray-600',
+};
+
+const EMPTY_LINK_FORM = {
+  label: '',
+  versionNumber: '',
+  password: '',
+  expiryDate: '',
+  requireAuth: false,
+  allowComments: true,
+  allowQuestions: false,
+};
+
+function StepDepth({ link }: { link: ShareLinkSummary }) {
+  if (link.view_count === 0 || link.step_depth.length === 0) {
+    return <span className="text-gray-400">–</span>;
+  }
+
+  return (
+    <div className="flex items-end gap-px h-6" aria-label="Views reaching each step">
+      {link.step_depth.map((count, index) => (
+        <div
+          key={index}
+          title={`Step ${index + 1}: ${count} of ${link.view_count} views`}
+          className="w-1.5 bg-primary-500 rounded-sm"
+          style={{ height: `${Math.max(8, Math.round((count / link.view_count) * 100))}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Share links of a published SOP: their settings, view counters and scroll
+ * depth, plus creating and revoking links
+ */
+export default function ShareLinksTable({ sopId, className = '' }: ShareLinksTableProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [versions, setVersions] = useState<SopVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_LINK_FORM);
+
+  const loadLinks = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const [fetchedLinks, fetchedVersions] = await Promise.all([
+        fetchShareLinks(token, sopId),
+        fetchSopVersions(token, sopId),
+      ]);
+      setLinks(fetchedLinks);
+      setVersions(fetchedVersions);
+    } catch (err) {
+      console.error('Error loading share links:', err);
+      showToast('Failed to load share links', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, sopId, showToast]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const linkUrl = (link: ShareLinkSummary) => `${window.location.origin}/shared/${link.id}`;
+
+  const handleCopy = (link: ShareLinkSummary) => {
+    navigator.clipboard.writeText(linkUrl(link));
+    showToast('Link copied to clipboard!', 'success');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    setIsCreating(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const { label, versionNumber, ...publishSettings } = form;
+      await createShareLink(token, sopId, {
+        label,
+        versionNumber: versionNumber ? Number(versionNumber) : null,
+        publishSettings: { ...publishSettings, isPublic: true },
+      });
+      setForm(EMPTY_LINK_FORM);
+      setShowForm(false);
+      showToast('Share link created', 'success');
+      await loadLinks();
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to create share link', 'error');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    if (!currentUser) return;
+    if (!window.confirm(`Revoke "${link.label}"? Anyone using it will lose access immediately.`)) return;
+
+    setRevokingId(link.id);
+    try {
+      const token = await currentUser.getIdToken();
+      await revokeShareLink(token, sopId, link.id);
+      showToast('Share link revoked', 'success');
+      await loadLinks();
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to revoke share link', 'error');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Share Links</h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="btn btn-primary px-3 py-1.5 text-sm"
+        >
+          {showForm ? 'Cancel' : 'New link'}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="px-6 py-4 border-b border-gray-200 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="linkLabel" className="block text-sm font-medium text-gray-700">Label</label>
+            <input
+              id="linkLabel"
+              type="text"
+              maxLength={100}
+              placeholder="e.g. Night shift, Supplier audit"
+              value={form.label}
+              onChange={e => setForm({ ...form, label: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800"
+            />
+          </div>
+          <div>
+            <label htmlFor="linkVersion" className="block text-sm font-medium text-gray-700">Content</label>
+            <select
+              id="linkVersion"
+              value={form.versionNumber}
+              onChange={e => setForm({ ...form, versionNumber: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800"
+            >
+              <option value="">Latest (follows edits)</option>
+              {versions.map(version => (
+                <option key={version.id} value={version.version_number}>
+                  Pinned to v{version.version_number}{version.change_summary ? ` – ${version.change_summary}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="linkPassword" className="block text-sm font-medium text-gray-700">Password</label>
+            <input
+              id="linkPassword"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Leave empty for no password"
+              value={form.password}
+              onChange={e => setForm({ ...form, password: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800"
+            />
+          </div>
+          <div>
+            <label htmlFor="linkExpiry" className="block text-sm font-medium text-gray-700">Expires</label>
+            <input
+              id="linkExpiry"
+              type="date"
+              min={new Date().toISOString().slice(0, 10)}
+              value={form.expiryDate}
+              onChange={e => setForm({ ...form, expiryDate: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800"
+            />
+          </div>
+          <div className="sm:col-span-2 flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.requireAuth} onChange={e => setForm({ ...form, requireAuth: e.target.checked })} />
+              Require sign-in
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.allowComments} onChange={e => setForm({ ...form, allowComments: e.target.checked })} />
+              Allow comments
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.allowQuestions} onChange={e => setForm({ ...form, allowQuestions: e.target.checked })} />
+              Ask the SOP
+            </label>
+          </div>
+          <div className="sm:col-span-2">
+            <button type="submit" disabled={isCreating} className="btn btn-primary px-4 py-2 text-sm disabled:opacity-50">
+              {isCreating ? 'Creating...' : 'Create link'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center text-gray-500">Loading share links...</div>
+      ) : links.length === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-500">
+          No share links yet. Create one for each audience to see who opens it and how far they read.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                {['Link', 'Content', 'Created', 'Status', 'Views', 'Visitors', 'Last viewed', 'Depth', ''].map(heading => (
+                  <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {links.map(link => (
+                <tr key={link.id} className={link.status === 'active' ? '' : 'opacity-60'}>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="font-medium text-gray-900">{link.label}</div>
+                    <div className="flex gap-2 text-xs text-gray-500">
+                      {link.settings.hasPassword && <span>Password</span>}
+                      {link.settings.requireAuth && <span>Sign-in</span>}
+                      {link.settings.expiryDate && <span>Expires {link.settings.expiryDate}</span>}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    {link.version_number ? `v${link.version_number}` : 'Latest'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    <span className={`inline-block px-2 py-1 rounded-full text-xs ${LINK_STATUS_STYLES[link.status]}`}>
+                      {link.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{link.view_count}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{link.unique_visitors}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    {link.last_viewed_at ? formatDistanceToNow(new Date(link.last_viewed_at), { addSuffix: true }) : 'Never'}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <StepDepth link={link} />
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right space-x-3">
+                    {link.status === 'active' && (
+                      <>
+                        <button onClick={() => handleCopy(link)} className="text-primary-600 hover:text-primary-800 font-medium">
+                          Copy
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          disabled={revokingId === link.id}
+                          className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                        >
+                          {revokingId === link.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
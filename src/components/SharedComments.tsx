@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface SharedCommentsProps {
+  /** Share id from the /shared/{id} URL */
+  shareId: string;
+  className?: string;
+}
+
+interface PublicComment {
+  id: string;
+  parent_id: string | null;
+  content: string;
+  author_name: string;
+  is_owner_reply: boolean;
+  created_at: string;
+}
+
+type CommentThread = PublicComment & { replies: PublicComment[] };
+
+function CommentBody({ comment }: { comment: PublicComment }) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900">
+        {comment.author_name}
+        {comment.is_owner_reply && (
+          <span className="ml-2 px-1.5 py-0.5 rounded bg-primary-100 text-primary-800 text-xs font-medium">Author</span>
+        )}
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+        </span>
+      </p>
+      <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{comment.content}</p>
+    </div>
+  );
+}
+
+/**
+ * Comments of a shared SOP. New comments are held for the owner's approval;
+ * signed-in visitors can reply to approved comments.
+ */
+export default function SharedComments({ shareId, className = '' }: SharedCommentsProps) {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [viewer, setViewer] = useState({ signedIn: false, isOwner: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [author, setAuthor] = useState('');
+  const [text, setText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/shared/${shareId}/comments`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load comments');
+      }
+
+      setThreads(data.comments || []);
+      setViewer(data.viewer || { signedIn: false, isOwner: false });
+    } catch (err) {
+      console.error('Error loading comments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [shareId]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const submit = async (body: { comment: string; author?: string; parentId?: string }) => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/shared/${shareId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to post comment');
+      }
+
+      setNotice(data.comment?.status === 'approved' ? null : 'Thanks! Your comment will appear once it is approved.');
+      await loadComments();
+      return true;
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isSubmitting) return;
+
+    if (await submit({ comment: text.trim(), author: author.trim() || undefined })) {
+      setText('');
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (!replyText.trim() || isSubmitting) return;
+
+    if (await submit({ comment: replyText.trim(), parentId })) {
+      setReplyingTo(null);
+      setReplyText('');
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100">
+        <h2 className="text-lg font-medium text-gray-900">Comments</h2>
+        <p className="text-sm text-gray-600">Comments are shown once the author of this SOP approves them.</p>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        {isLoading && <p className="text-sm text-gray-500">Loading comments...</p>}
+        {!isLoading && threads.length === 0 && (
+          <p className="text-sm text-gray-500">No comments yet.</p>
+        )}
+        {threads.map(thread => (
+          <div key={thread.id} className="space-y-3">
+            <CommentBody comment={thread} />
+
+            {thread.replies.length > 0 && (
+              <div className="ml-4 pl-4 border-l-2 border-gray-200 space-y-3">
+                {thread.replies.map(reply => <CommentBody key={reply.id} comment={reply} />)}
+              </div>
+            )}
+
+            {viewer.signedIn && (
+              replyingTo === thread.id ? (
+                <form onSubmit={(e) => handleReply(e, thread.id)} className="ml-4 flex gap-2">
+                  <input
+                    type="text"
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    maxLength={2000}
+                    placeholder="Write a reply"
+                    aria-label="Reply"
+                    className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || !replyText.trim()}
+                    className="btn btn-primary px-3 py-1 text-sm disabled:opacity-50"
+                  >
+                    Reply
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReplyingTo(thread.id);
+                    setReplyText('');
+                  }}
+                  className="ml-4 text-xs text-primary-600 hover:underline"
+                >
+                  Reply
+                </button>
+              )
+            )}
+          </div>
+        ))}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <form onSubmit={handleComment} className="px-6 py-4 border-t border-gray-200 space-y-2">
+        {!viewer.signedIn && (
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            maxLength={80}
+            placeholder="Your name (optional)"
+            aria-label="Your name"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        )}
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          placeholder="Leave a comment about this procedure"
+          aria-label="Comment"
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !text.trim()}
+          className="btn btn-primary px-4 py-2 text-sm disabled:opacity-50"
+        >
+          {isSubmitting ? 'Posting...' : 'Post comment'}
+        </button>
+      </form>
+    </div>
+  );
+}
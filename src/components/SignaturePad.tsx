@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Canvas for drawing a signature with mouse, pen or touch.
+ * Reports the drawing as a PNG data URL, or null once cleared.
+ */
+export default function SignaturePad({ onChange, width = 400, height = 150, className = '' }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setIsEmpty(false);
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className={className}>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full max-w-md border border-gray-300 rounded-md bg-white touch-none cursor-crosshair"
+        aria-label="Signature pad"
+      />
+      <div className="mt-1 flex items-center justify-between max-w-md text-xs text-gray-500">
+        <span>{isEmpty ? 'Sign above' : 'Signature captured'}</span>
+        <button type="button" onClick={handleClear} className="text-primary-600 hover:text-primary-800">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { importSopFile } from '@/utils/api';
+
+interface SopImportButtonProps {
+  className?: string;
+}
+
+/**
+ * Imports an SOP from a Markdown (.md) or Word (.docx) file and opens it in the editor
+ */
+export default function SopImportButton({ className = '' }: SopImportButtonProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!currentUser || !file) return;
+    setIsImporting(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const result = await importSopFile(token, file);
+      showToast(
+        result.skippedMedia > 0
+          ? `Imported ${result.stepCount} steps; ${result.skippedMedia} media file(s) could not be attached`
+          : `Imported "${result.sop.title}" with ${result.stepCount} steps`,
+        result.skippedMedia > 0 ? 'warning' : 'success'
+      );
+      router.push(`/sop/${result.sop.id}/edit`);
+    } catch (err) {
+      console.error('Error importing SOP:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to import SOP', 'error');
+    } finally {
+      setIsImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".md,.markdown,.docx,text/markdown,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+        className={`px-4 py-2 border border-primary-600 text-primary-700 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-50 ${className}`}
+      >
+        {isImporting ? 'Importing...' : 'Import .md / .docx'}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { lintSopOnServer } from '@/utils/api';
+import type { LintFinding } from '@/utils/sop-lint';
+import StepLintFindings from '@/components/StepLintFindings';
+
+interface SopLintPanelProps {
+  sopId: string;
+  score: number;
+  /** All findings; the panel lists the ones that are not tied to a step */
+  findings: LintFinding[];
+  /** Receives the findings of an AI review of the saved SOP */
+  onAIReview: (findings: LintFinding[]) => void;
+  className?: string;
+}
+
+export function lintScoreStyle(score: number): string {
+  if (score >= 80) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+/**
+ * Quality score and SOP-level lint findings, with an on-demand AI review
+ */
+export default function SopLintPanel({ sopId, score, findings, onAIReview, className = '' }: SopLintPanelProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const sopFindings = findings.filter(finding => !finding.step_id);
+  const counts = {
+    error: findings.filter(finding => finding.severity === 'error').length,
+    warning: findings.filter(finding => finding.severity === 'warning').length,
+  };
+
+  const handleAIReview = async () => {
+    if (!currentUser) return;
+    setIsReviewing(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const report = await lintSopOnServer(token, sopId, { ai: true });
+      const aiFindings = report.findings.filter(finding => finding.source === 'ai');
+      onAIReview(aiFindings);
+      showToast(aiFindings.length > 0 ? `AI review found ${aiFindings.length} issue(s)` : 'AI review found no issues', 'success');
+    } catch (err) {
+      console.error('Error running AI review:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to run AI review', 'error');
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Quality</h2>
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${lintScoreStyle(score)}`}>
+          Score {score}
+        </span>
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        <p className="text-sm text-gray-600">
+          {counts.error} error(s) and {counts.warning} warning(s). Findings for a step are shown next to it.
+        </p>
+        <StepLintFindings findings={sopFindings} />
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500">
+            The AI review checks the last saved version and does not change the score.
+          </p>
+          <button
+            type="button"
+            onClick={handleAIReview}
+            disabled={isReviewing}
+            className="btn btn-outline px-3 py-1.5 text-sm whitespace-nowrap disabled:opacity-50"
+          >
+            {isReviewing ? 'Reviewing...' : 'Run AI review'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
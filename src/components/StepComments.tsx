@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { StepCommentAnchor } from '@/types/database.types';
+import { addStepComment, resolveStepComment } from '@/utils/api';
+import type { PlacedStepComment } from '@/utils/step-comments';
+
+interface StepCommentsProps {
+  sopId: string;
+  stepId: string;
+  /** Comments on this step */
+  comments: PlacedStepComment[];
+  /** Text last selected in the step's instructions; the next comment is made on it */
+  selection?: StepCommentAnchor | null;
+  /** Called after a comment is added, resolved or reopened */
+  onChange: () => void;
+  className?: string;
+}
+
+/**
+ * Where the text selected inside an element starts and ends in its text
+ * @returns null when nothing inside the element is selected
+ */
+export function textSelectionIn(element: HTMLElement): StepCommentAnchor | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!element.contains(range.startContainer) || !element.contains(range.endContainer)) return null;
+
+  const before = range.cloneRange();
+  before.selectNodeContents(element);
+  before.setEnd(range.startContainer, range.startOffset);
+
+  const start = before.toString().length;
+  const text = range.toString();
+  return text ? { start, end: start + text.length, text } : null;
+}
+
+function Quote({ comment }: { comment: PlacedStepComment }) {
+  if (comment.anchor) {
+    return (
+      <p className="text-xs text-gray-600 border-l-2 border-amber-300 bg-amber-50 pl-2 py-0.5 mb-1 line-clamp-2">
+        {comment.anchor.text}
+      </p>
+    );
+  }
+  if (comment.anchor_outdated) {
+    return (
+      <p className="text-xs text-gray-500 border-l-2 border-gray-300 pl-2 py-0.5 mb-1 line-clamp-2" title="This text is no longer in the instructions">
+        <span className="line-through">{comment.anchor_text}</span> (changed)
+      </p>
+    );
+  }
+  return null;
+}
+
+/**
+ * Inline review comments on a step, shown beside its editor. Authors and
+ * reviewers comment on the whole step or on selected instructions text, and
+ * resolve or reopen comments.
+ */
+export default function StepComments({ sopId, stepId, comments, selection, onChange, className = '' }: StepCommentsProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [text, setText] = useState('');
+  const [anchor, setAnchor] = useState<StepCommentAnchor | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A new selection replaces the text the next comment is on
+  useEffect(() => {
+    if (selection) setAnchor(selection);
+  }, [selection]);
+
+  const open = comments.filter(comment => !comment.resolved_at);
+  const resolved = comments.filter(comment => comment.resolved_at);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !text.trim()) return;
+    setIsSaving(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await addStepComment(token, sopId, stepId, text.trim(), anchor);
+      setText('');
+      setAnchor(null);
+      onChange();
+    } catch (err) {
+      console.error('Error adding step comment:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to add comment', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolve = async (comment: PlacedStepComment, isResolved: boolean) => {
+    if (!currentUser) return;
+    setIsSaving(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await resolveStepComment(token, sopId, comment.id, isResolved);
+      onChange();
+    } catch (err) {
+      console.error('Error updating step comment:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to update comment', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderComment = (comment: PlacedStepComment) => (
+    <li key={comment.id} className={`text-sm bg-white rounded-md border border-gray-200 px-3 py-2 ${comment.resolved_at ? 'opacity-70' : ''}`}>
+      <Quote comment={comment} />
+      <p className="text-gray-800 whitespace-pre-line">{comment.content}</p>
+      <div className="mt-1 flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500 truncate">
+          {comment.author_name} · {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+        </span>
+        <button
+          type="button"
+          onClick={() => handleResolve(comment, !comment.resolved_at)}
+          disabled={isSaving}
+          className="text-xs text-primary-600 hover:underline disabled:opacity-50 shrink-0"
+        >
+          {comment.resolved_at ? 'Reopen' : 'Resolve'}
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h4 className="text-sm font-medium text-gray-700">
+        Comments{open.length > 0 && <span className="ml-1 text-amber-700">({open.length} open)</span>}
+      </h4>
+
+      {open.length > 0 && <ul className="space-y-2">{open.map(renderComment)}</ul>}
+
+      {resolved.length > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            {showResolved ? 'Hide' : 'Show'} {resolved.length} resolved
+          </button>
+          {showResolved && <ul className="space-y-2">{resolved.map(renderComment)}</ul>}
+        </>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-1">
+        {anchor ? (
+          <div className="flex items-start gap-1 text-xs text-gray-600">
+            <span className="flex-1 border-l-2 border-amber-300 bg-amber-50 pl-2 py-0.5 line-clamp-2">{anchor.text}</span>
+            <button
+              type="button"
+              onClick={() => setAnchor(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Comment on the whole step"
+              title="Comment on the whole step"
+            >
+              ×
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Select text in the instructions to comment on it.</p>
+        )}
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={2}
+          maxLength={2000}
+          placeholder={anchor ? 'Comment on the selected text' : 'Comment on this step'}
+          aria-label="Step comment"
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !text.trim()}
+          className="btn btn-primary px-3 py-1 text-xs disabled:opacity-50"
+        >
+          Comment
+        </button>
+      </form>
+    </div>
+  );
+}
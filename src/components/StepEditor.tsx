@@ -1,9 +1,12 @@
 "use client";
 
-import { useState, useRef, DragEvent, useEffect } from 'react';
-import { Step, MediaType } from '@/types/database.types';
+import { useState, useRef, DragEvent, useEffect, SyntheticEvent } from 'react';
+import { Step, Media, MediaType, MediaChapter, StepCommentAnchor } from '@/types/database.types';
 import { toast } from 'sonner';
 import ConfirmDialog from './ConfirmDialog';
+import VideoChapterEditor from './VideoChapterEditor';
+import { mediaPosterUrl } from '@/utils/media-variants';
+import { formatTimestamp } from '@/utils/media-chapters';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 
@@ -17,6 +20,14 @@ interface StepEditorProps {
   isLast?: boolean;
   onMoveStep?: (stepId: string, direction: 'up' | 'down') => Promise<void>;
   totalSteps?: number;
+  /** Steps of the SOP in order, for linking video chapters to them */
+  chapterSteps?: { id: string; title?: string | null }[];
+  /** When set, videos get a Chapters button opening the chapter editor */
+  onSaveChapters?: (mediaId: string, chapters: MediaChapter[]) => Promise<void>;
+  /** Unresolved review comments on the step, shown as a badge */
+  openCommentCount?: number;
+  /** Called with the text selected in the saved instructions, to comment on it */
+  onInstructionsSelect?: (anchor: StepCommentAnchor) => void;
 }
 
 interface PreviewMedia {
@@ -46,7 +57,11 @@ export default function StepEditor({
   isFirst = false,
   isLast = false,
   onMoveStep,
-  totalSteps = 1
+  totalSteps = 1,
+  chapterSteps = [],
+  onSaveChapters,
+  openCommentCount = 0,
+  onInstructionsSelect
 }: StepEditorProps) {
   const { register, handleSubmit, formState: { errors, isDirty, isSubmitting }, reset } = useForm<StepFormData>({
     defaultValues: {
@@ -68,6 +83,8 @@ export default function StepEditor({
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [media, setMedia] = useState<MediaType[]>(step.media || []);
+  const [chapterMediaId, setChapterMediaId] = useState<string | null>(null);
+  const chapterMedia = (step as Step & { media?: Media[] }).media?.find(m => m.id === chapterMediaId);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const instructionRef = useRef<HTMLTextAreaElement>(null);
@@ -98,6 +115,13 @@ export default function StepEditor({
     }
   };
 
+  // Comment ranges are offsets into the saved instructions, so unsaved edits disable them
+  const handleInstructionSelect = (e: SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    if (!onInstructionsSelect || selectionEnd <= selectionStart || value !== (step.instructions || '')) return;
+    onInstructionsSelect({ start: selectionStart, end: selectionEnd, text: value.slice(selectionStart, selectionEnd) });
+  };
+
   const handleGenerateInstructions = async () => {
     setIsGenerating(true);
     displayInfoMessage('Generating instructions using AI...');
@@ -440,6 +464,14 @@ export default function StepEditor({
               Step {step.order_index}
               {totalSteps > 1 && <span className="text-gray-500 font-normal text-sm ml-2">of {totalSteps}</span>}
             </h3>
+            {openCommentCount > 0 && (
+              <span
+                className="ml-3 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                title="Unresolved review comments"
+              >
+                {openCommentCount} open comment{openCommentCount === 1 ? '' : 's'}
+              </span>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -499,6 +531,7 @@ export default function StepEditor({
               value={instruction}
               onChange={handleInstructionChange}
               onBlur={handleSaveInstruction}
+              onSelect={handleInstructionSelect}
               rows={4}
               className={`w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 ${showSaveSuccess ? 'border-green-500 ring-2 ring-green-200' : ''}`}
               placeholder="Enter instructions for this step..."
@@ -827,13 +860,31 @@ export default function StepEditor({
                                   <div className="bg-gray-100 flex items-center justify-center">
                                     <video 
                                       src={media.url} 
+                                      poster={mediaPosterUrl(media)}
                                       className="w-full h-48 object-contain"
                                       preload="metadata"
                                       controls
                                     />
+
+                                    {media.duration_seconds ? (
+                                      <span className="absolute top-3 left-3 px-2 py-0.5 rounded bg-black/70 text-white text-xs font-mono">
+                                        {formatTimestamp(media.duration_seconds)}
+                                        {media.width && media.height ? ` · ${media.width}×${media.height}` : ''}
+                                      </span>
+                                    ) : null}
                                     
                                     {/* Video thumbnail controls */}
                                     <div className="absolute bottom-3 right-3 flex space-x-2">
+                                      {onSaveChapters && (
+                                        <button
+                                          type="button"
+                                          onClick={() => setChapterMediaId(media.id)}
+                                          className="px-3 py-2 bg-white rounded-full shadow-md hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs font-medium text-gray-700"
+                                          title="Link parts of the video to steps"
+                                        >
+                                          Chapters{media.chapters?.length ? ` (${media.chapters.length})` : ''}
+                                        </button>
+                                      )}
                                       <button 
                                         onClick={() => {
                                           // Generate a thumbnail from the video
@@ -1013,6 +1064,22 @@ export default function StepEditor({
         </div>
       </div>
       
+      {onSaveChapters && chapterMedia && (
+        <VideoChapterEditor
+          isOpen={true}
+          src={chapterMedia.url}
+          poster={mediaPosterUrl(chapterMedia)}
+          duration={chapterMedia.duration_seconds}
+          chapters={chapterMedia.chapters}
+          steps={chapterSteps}
+          onSave={async (chapters) => {
+            await onSaveChapters(chapterMedia.id, chapters);
+            setChapterMediaId(null);
+          }}
+          onClose={() => setChapterMediaId(null)}
+        />
+      )}
+
       {/* Delete confirmation dialog */}
       <ConfirmDialog
         isOpen={showDeleteConfirm}
@@ -5,7 +5,7 @@ import StepPreview from './StepPreview';
 import StepMediaUpload from './StepMediaUpload';
 import { Step, Media } from '@/types/database.types';
 import { toast } from 'sonner';
-import { uploadStepMedia } from '@/utils/api';
+import { attachLibraryAsset, uploadStepMedia } from '@/utils/api';
 import { useSupabaseAuth } from '@/utils/supabase-auth';
 
 interface StepFormProps {
@@ -98,6 +98,15 @@ export default function StepForm({
     
     return uploadStepMedia(token, stepId, file);
   };
+
+  const handleAttachLibraryAsset = async (stepId: string, assetId: string): Promise<Media> => {
+    const token = await getToken();
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+
+    return attachLibraryAsset(token, { sopId, stepId, assetId });
+  };
   
   const handleMediaUploaded = (stepId: string, newMedia: Media) => {
     // This will only be used in the preview mode to update the previewed steps
@@ -204,6 +213,7 @@ export default function StepForm({
                 sopId={sopId}
                 onMediaUploaded={(newMedia) => handleMediaUploaded(generatedSteps[previewIndex].id!, newMedia)}
                 onUploadMedia={handleMediaUpload}
+                onAttachLibraryAsset={handleAttachLibraryAsset}
                 className="mt-4"
               />
             </div>
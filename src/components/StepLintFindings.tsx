@@ -0,0 +1,44 @@
+"use client";
+
+import React from 'react';
+import type { LintFinding, LintSeverity } from '@/utils/sop-lint';
+
+interface StepLintFindingsProps {
+  findings: LintFinding[];
+  /** Shown when there are no findings; nothing is rendered if omitted */
+  emptyMessage?: string;
+  className?: string;
+}
+
+export const LINT_SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+/**
+ * Lint findings for a step (or for the SOP as a whole), shown beside the editor
+ */
+export default function StepLintFindings({ findings, emptyMessage, className = '' }: StepLintFindingsProps) {
+  if (findings.length === 0) {
+    return emptyMessage ? <p className={`text-sm text-green-700 ${className}`}>{emptyMessage}</p> : null;
+  }
+
+  return (
+    <ul className={`space-y-2 ${className}`}>
+      {findings.map((finding, index) => (
+        <li key={`${finding.rule}-${index}`} className="text-sm bg-white rounded-md border border-gray-200 px-3 py-2">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${LINT_SEVERITY_STYLES[finding.severity]}`}>
+              {finding.severity}
+            </span>
+            {finding.source === 'ai' && (
+              <span className="text-xs text-gray-500">AI review</span>
+            )}
+          </div>
+          <p className="text-gray-700">{finding.message}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
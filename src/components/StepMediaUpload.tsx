@@ -2,12 +2,16 @@ import React, { useState } from 'react';
 import MediaUploadComponent from './MediaUploadComponent';
 import { toast } from 'sonner';
 import { Media } from '@/types/database.types';
+import type { MediaAssetWithUsage } from '@/utils/media-library';
+import useMediaUpload, { CHUNKED_UPLOAD_THRESHOLD } from '@/hooks/useMediaUpload';
 
 interface StepMediaUploadProps {
   stepId: string;
   sopId: string;
   onMediaUploaded: (newMedia: Media) => void;
   onUploadMedia: (stepId: string, file: File) => Promise<Media>;
+  /** Use a media library asset in the step; enables the library picker */
+  onAttachLibraryAsset?: (stepId: string, assetId: string) => Promise<Media>;
   className?: string;
 }
 
@@ -16,9 +20,12 @@ export default function StepMediaUpload({
   sopId,
   onMediaUploaded,
   onUploadMedia,
+  onAttachLibraryAsset,
   className = ''
 }: StepMediaUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
+  // Large files go through a resumable upload session
+  const { uploadMedia, pauseUpload, resumeUpload, progress, paused } = useMediaUpload({ stepId, sopId });
 
   const handleUploadMedia = async (stepId: string, file: File) => {
     if (isUploading) {
@@ -29,7 +36,9 @@ export default function StepMediaUpload({
     toast.info(`Uploading ${file.name}...`);
 
     try {
-      const newMedia = await onUploadMedia(stepId, file);
+      const newMedia = file.size > CHUNKED_UPLOAD_THRESHOLD
+        ? (await uploadMedia(file)) as unknown as Media | null
+        : await onUploadMedia(stepId, file);
       
       if (newMedia) {
         toast.success('Media uploaded successfully');
@@ -47,15 +56,37 @@ export default function StepMediaUpload({
     }
   };
 
+  const handleSelectLibraryAsset = async (stepId: string, asset: MediaAssetWithUsage) => {
+    if (!onAttachLibraryAsset) {
+      return null;
+    }
+
+    try {
+      const newMedia = await onAttachLibraryAsset(stepId, asset.id);
+      toast.success(`Added ${asset.name} from the library`);
+      onMediaUploaded(newMedia);
+      return newMedia;
+    } catch (error) {
+      console.error('Error adding library media:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add media from the library');
+      throw error;
+    }
+  };
+
   return (
     <div className={className}>
       <MediaUploadComponent
         stepId={stepId}
         sopId={sopId}
         onUploadMedia={handleUploadMedia}
-        maxSizeMB={10}
+        maxSizeMB={500}
         acceptedFileTypes={['image/jpeg', 'image/png', 'image/gif', 'video/mp4', 'application/pdf']}
         uploadLabel="Add Media to Step"
+        onSelectLibraryAsset={onAttachLibraryAsset ? handleSelectLibraryAsset : undefined}
+        progress={progress?.percent ?? null}
+        paused={paused}
+        onPauseUpload={pauseUpload}
+        onResumeUpload={resumeUpload}
         className="w-full"
       />
       <p className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">
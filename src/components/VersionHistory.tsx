@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { SopVersion, SopVersionDiff } from '@/types/database.types';
+import {
+  createSopVersion,
+  fetchSopVersionDiff,
+  fetchSopVersions,
+  restoreSopVersion,
+} from '@/utils/api';
+import ConfirmDialog from '@/components/ConfirmDialog';
+
+interface VersionHistoryProps {
+  sopId: string;
+  onRestored?: () => void;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<SopVersion['source'], string> = {
+  publish: 'Published',
+  manual: 'Snapshot',
+  restore: 'Restored',
+};
+
+export default function VersionHistory({ sopId, onRestored, className = '' }: VersionHistoryProps) {
+  const { currentUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [versions, setVersions] = useState<SopVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<SopVersionDiff | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      const token = await currentUser.getIdToken();
+      setVersions(await fetchSopVersions(token, sopId));
+    } catch (err) {
+      console.error('Error loading versions:', err);
+      showToast('Failed to load version history', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, sopId, showToast]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleSnapshot = async () => {
+    if (!currentUser) return;
+    const summary = window.prompt('Describe what changed in this version (optional)') ?? undefined;
+    setIsSnapshotting(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const version = await createSopVersion(token, sopId, summary);
+      showToast(`Version ${version.version_number} saved`, 'success');
+      await loadVersions();
+    } catch (err) {
+      console.error('Error creating version:', err);
+      showToast('Failed to save version', 'error');
+    } finally {
+      setIsSnapshotting(false);
+    }
+  };
+
+  // Keep at most two versions selected for comparison
+  const toggleSelected = (versionNumber: number) => {
+    setDiff(null);
+    setSelected(prev => {
+      if (prev.includes(versionNumber)) {
+        return prev.filter(v => v !== versionNumber);
+      }
+      return [...prev, versionNumber].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    if (!currentUser || selected.length !== 2) return;
+    const [from, to] = [...selected].sort((a, b) => a - b);
+    try {
+      const token = await currentUser.getIdToken();
+      setDiff(await fetchSopVersionDiff(token, sopId, from, to));
+    } catch (err) {
+      console.error('Error comparing versions:', err);
+      showToast('Failed to compare versions', 'error');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!currentUser || restoreTarget === null) return;
+    setIsRestoring(true);
+    try {
+      const token = await currentUser.getIdToken();
+      await restoreSopVersion(token, sopId, restoreTarget);
+      showToast(`Version ${restoreTarget} restored as a new draft`, 'success');
+      setRestoreTarget(null);
+      await loadVersions();
+      onRestored?.();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      showToast('Failed to restore version', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Version History</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCompare}
+            disabled={selected.length !== 2}
+            className="btn btn-outline px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            Compare selected
+          </button>
+          <button
+            onClick={handleSnapshot}
+            disabled={isSnapshotting}
+            className="btn btn-primary px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {isSnapshotting ? 'Saving...' : 'Save version'}
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center text-gray-500">Loading versions...</div>
+      ) : versions.length === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-500">
+          No versions yet. A version is saved every time the SOP is published.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {versions.map(version => (
+            <li key={version.id} className="px-6 py-3 flex items-center gap-4">
+              <input
+                type="checkbox"
+                checked={selected.includes(version.version_number)}
+                onChange={() => toggleSelected(version.version_number)}
+                aria-label={`Select version ${version.version_number} for comparison`}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+              />
+              <div className="flex-grow min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-medium text-gray-900">v{version.version_number}</span>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {SOURCE_LABELS[version.source]}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+                {version.change_summary && (
+                  <p className="text-sm text-gray-600 truncate">{version.change_summary}</p>
+                )}
+              </div>
+              <button
+                onClick={() => setRestoreTarget(version.version_number)}
+                className="text-sm text-primary-600 hover:text-primary-800 font-medium"
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff && (
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 space-y-3 text-sm">
+          <h3 className="font-medium text-gray-900">
+            Changes from v{diff.from_version} to v{diff.to_version}
+          </h3>
+
+          {diff.fields.length === 0 && diff.steps.length === 0 &&
+            diff.equipment.added.length === 0 && diff.equipment.removed.length === 0 && (
+            <p className="text-gray-600">No differences.</p>
+          )}
+
+          {diff.fields.map(change => (
+            <div key={change.field}>
+              <span className="font-medium text-gray-700">{change.field}: </span>
+              <span className="line-through text-red-700">{formatValue(change.before)}</span>{' '}
+              <span className="text-green-700">{formatValue(change.after)}</span>
+            </div>
+          ))}
+
+          {diff.steps.map(change => (
+            <div key={change.step_id} className="border-l-2 border-gray-300 pl-3">
+              <div className="font-medium text-gray-700">
+                {change.title || 'Untitled step'} — {change.type}
+                {change.type === 'moved' && ` (position ${change.from_position} → ${change.to_position})`}
+              </div>
+              {change.changes.map(fieldChange => (
+                <div key={fieldChange.field} className="text-gray-600">
+                  {fieldChange.field}:{' '}
+                  <span className="line-through text-red-700">{formatValue(fieldChange.before)}</span>{' '}
+                  <span className="text-green-700">{formatValue(fieldChange.after)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {(diff.equipment.added.length > 0 || diff.equipment.removed.length > 0) && (
+            <div className="text-gray-600">
+              Equipment: {diff.equipment.added.length} added, {diff.equipment.removed.length} removed
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={restoreTarget !== null}
+        title="Restore version"
+        message={`Replace the current content with version ${restoreTarget}? The current state is saved as a version first, and the SOP returns to draft.`}
+        confirmText="Restore"
+        onConfirm={handleRestore}
+        onCancel={() => setRestoreTarget(null)}
+        isLoading={isRestoring}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Plus, Trash2 } from 'lucide-react';
+import { MediaChapter } from '@/types/database.types';
+import { formatTimestamp, MAX_MEDIA_CHAPTERS, parseTimestamp } from '@/utils/media-chapters';
+
+interface ChapterStep {
+  id: string;
+  title?: string | null;
+}
+
+interface VideoChapterEditorProps {
+  isOpen: boolean;
+  src: string;
+  poster?: string;
+  duration?: number | null;
+  chapters?: MediaChapter[] | null;
+  /** Steps of the SOP, in order; chapters link to one of them */
+  steps: ChapterStep[];
+  onSave: (chapters: MediaChapter[]) => Promise<void> | void;
+  onClose: () => void;
+}
+
+// Rows keep the time as typed until the chapters are saved
+interface ChapterRow {
+  key: number;
+  time: string;
+  step_id: string;
+  label: string;
+}
+
+/**
+ * Editor for the chapter markers of a step video. Each chapter links a
+ * timestamp to a step, so viewers of a long walkthrough can jump from a
+ * step to the part of the video that shows it.
+ */
+export default function VideoChapterEditor({
+  isOpen,
+  src,
+  poster,
+  duration,
+  chapters,
+  steps,
+  onSave,
+  onClose
+}: VideoChapterEditorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const nextKey = useRef(0);
+  const [rows, setRows] = useState<ChapterRow[]>([]);
+  const [hint, setHint] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved chapters each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setRows((chapters || []).map(chapter => ({
+        key: nextKey.current++,
+        time: formatTimestamp(chapter.time),
+        step_id: chapter.step_id,
+        label: chapter.label || ''
+      })));
+      setHint(null);
+    }
+  }, [isOpen, chapters]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [isOpen, onClose]);
+
+  const stepLabel = (stepId: string) => {
+    const index = steps.findIndex(step => step.id === stepId);
+    return index === -1 ? 'Removed step' : `Step ${index + 1}${steps[index].title ? `: ${steps[index].title}` : ''}`;
+  };
+
+  const addChapter = () => {
+    if (rows.length >= MAX_MEDIA_CHAPTERS) {
+      setHint(`A video can have at most ${MAX_MEDIA_CHAPTERS} chapters`);
+      return;
+    }
+
+    // Link the next step without a chapter, at the current playback position
+    const used = new Set(rows.map(row => row.step_id));
+    const step = steps.find(s => !used.has(s.id)) || steps[0];
+    setRows([...rows, {
+      key: nextKey.current++,
+      time: formatTimestamp(videoRef.current?.currentTime || 0),
+      step_id: step?.id || '',
+      label: ''
+    }]);
+    setHint(null);
+  };
+
+  const updateRow = (key: number, changes: Partial<ChapterRow>) => {
+    setRows(rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const seekTo = (time: string) => {
+    const seconds = parseTimestamp(time);
+    if (seconds !== null && videoRef.current) {
+      videoRef.current.currentTime = seconds;
+    }
+  };
+
+  const handleSave = async () => {
+    const parsed: MediaChapter[] = [];
+    for (const [index, row] of rows.entries()) {
+      const time = parseTimestamp(row.time);
+      if (time === null) {
+        setHint(`Chapter ${index + 1}: enter the time as m:ss or h:mm:ss`);
+        return;
+      }
+      if (duration && time > duration) {
+        setHint(`Chapter ${index + 1} starts after the end of the video (${formatTimestamp(duration)})`);
+        return;
+      }
+      if (!steps.some(step => step.id === row.step_id)) {
+        setHint(`Chapter ${index + 1}: choose a step`);
+        return;
+      }
+      parsed.push({ time, step_id: row.step_id, ...(row.label.trim() ? { label: row.label.trim() } : {}) });
+    }
+
+    setSaving(true);
+    try {
+      await onSave(parsed.sort((a, b) => a.time - b.time));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-60" onClick={onClose} aria-hidden="true" />
+
+        <div className="relative w-full max-w-3xl bg-white rounded-lg shadow-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-100 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Video chapters</h2>
+            {duration ? <span className="text-xs text-gray-500">Length {formatTimestamp(duration)}</span> : null}
+          </div>
+
+          <div className="bg-gray-900 flex justify-center">
+            <video ref={videoRef} src={src} poster={poster} controls preload="metadata" className="max-h-[40vh] w-full" />
+          </div>
+
+          <div className="px-6 py-4 space-y-2 max-h-[35vh] overflow-y-auto">
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No chapters yet. Play the video to where a step starts and add a chapter.
+              </p>
+            )}
+            {rows.map(row => (
+              <div key={row.key} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={row.time}
+                  onChange={(e) => updateRow(row.key, { time: e.target.value })}
+                  onFocus={() => seekTo(row.time)}
+                  aria-label="Start time"
+                  className="w-20 text-sm border border-gray-300 rounded-md px-2 py-1 font-mono"
+                />
+                <select
+                  value={row.step_id}
+                  onChange={(e) => updateRow(row.key, { step_id: e.target.value })}
+                  aria-label="Step"
+                  className="flex-1 min-w-0 text-sm border border-gray-300 rounded-md px-2 py-1"
+                >
+                  {!steps.some(step => step.id === row.step_id) && <option value={row.step_id}>{stepLabel(row.step_id)}</option>}
+                  {steps.map(step => (
+                    <option key={step.id} value={step.id}>{stepLabel(step.id)}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={row.label}
+                  onChange={(e) => updateRow(row.key, { label: e.target.value })}
+                  placeholder="Label (optional)"
+                  aria-label="Label"
+                  className="flex-1 min-w-0 text-sm border border-gray-300 rounded-md px-2 py-1"
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows(rows.filter(r => r.key !== row.key))}
+                  title="Remove chapter"
+                  aria-label="Remove chapter"
+                  className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addChapter}
+              disabled={steps.length === 0}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add chapter at current time
+            </button>
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {hint || `${rows.length} chapter${rows.length === 1 ? '' : 's'}`}
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save chapters'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
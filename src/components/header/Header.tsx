@@ -4,6 +4,7 @@ import { useAuthContext } from '@/providers/AuthProvider';
 import { useToast } from '@/contexts/ToastContext';
 import { usePathname } from 'next/navigation';
 import Image from 'next/image';
+import NotificationBell from './NotificationBell';
 
 export default function Header() {
   const { user, signOut, isAuthenticated, isLoading } = useAuthContext();
@@ -98,6 +99,16 @@ export default function Header() {
                   >
                     Create SOP
                   </Link>
+                  <Link 
+                    href="/reviews" 
+                    className={`px-3 py-2 text-sm font-medium rounded-md ${
+                      pathname === '/reviews' 
+                        ? 'text-indigo-600 dark:text-indigo-400' 
+                        : 'text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400'
+                    }`}
+                  >
+                    Reviews
+                  </Link>
                 </>
               )}
               <Link 
@@ -143,6 +154,8 @@ export default function Header() {
               )}
             </div>
             
+            {isAuthenticated && user && <NotificationBell />}
+            
             {isLoading ? (
               <div className="h-8 w-8 rounded-full bg-slate-200 dark:bg-slate-700 animate-pulse"></div>
             ) : isAuthenticated && user ? (
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useToast } from '@/contexts/ToastContext';
+import { Notification } from '@/types/database.types';
+import { fetchNotifications, fetchUnreadNotificationCount, markNotificationsRead } from '@/utils/api';
+import { notificationHref } from '@/utils/notification-types';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Bell in the header with the unread notification count; opens the newest
+ * notifications. The count is polled while the user is signed in.
+ */
+export default function NotificationBell() {
+  const { getToken } = useAuthContext();
+  const { showToast } = useToast();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadUnreadCount = useCallback(async () => {
+    try {
+      const token = await getToken();
+      if (!token) return;
+      setUnreadCount(await fetchUnreadNotificationCount(token));
+    } catch (error) {
+      console.error('Error loading notification count:', error);
+    }
+  }, [getToken]);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const interval = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadUnreadCount]);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('click', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('click', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const toggleMenu = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsOpen(true);
+    setIsLoading(true);
+    try {
+      const token = await getToken();
+      if (!token) return;
+      const result = await fetchNotifications(token);
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      showToast('Failed to load notifications', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const markRead = async (ids: string[] | 'all') => {
+    try {
+      const token = await getToken();
+      if (!token) return;
+      setUnreadCount(await markNotificationsRead(token, ids));
+      setNotifications(notifications.map(notification =>
+        ids === 'all' || ids.includes(notification.id) ? { ...notification, is_read: true } : notification
+      ));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      showToast('Failed to mark notifications as read', 'error');
+    }
+  };
+
+  const handleOpenNotification = (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.is_read) {
+      markRead([notification.id]);
+    }
+  };
+
+  return (
+    <div className="relative mr-4" ref={menuRef}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleMenu();
+        }}
+        className="relative p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-slate-700 dark:text-slate-300">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-800 rounded-md shadow-lg z-10 ring-1 ring-black ring-opacity-5">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-slate-200 dark:border-slate-700">
+            <span className="text-sm font-medium text-slate-900 dark:text-white">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead('all')}
+                className="text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+            {isLoading && notifications.length === 0 ? (
+              <li className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">Loading...</li>
+            ) : notifications.length === 0 ? (
+              <li className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">You have no notifications.</li>
+            ) : (
+              notifications.map(notification => (
+                <li key={notification.id}>
+                  <Link
+                    href={notificationHref(notification)}
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`block px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 ${
+                      notification.is_read ? '' : 'bg-indigo-50 dark:bg-indigo-900/20'
+                    }`}
+                  >
+                    <p className={`text-sm text-slate-800 dark:text-slate-200 ${notification.is_read ? '' : 'font-medium'}`}>
+                      {notification.content}
+                    </p>
+                    <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </Link>
+                </li>
+              ))
+            )}
+          </ul>
+
+          <Link
+            href="/profile#notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 text-xs text-center text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700 border-t border-slate-200 dark:border-slate-700"
+          >
+            Notification settings
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
-import { useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { toast } from 'react-hot-toast';
+import { MediaAnnotation, MediaUploadSession, MediaVariant } from '@/types/database.types';
+
+/** Files larger than this are sent in chunks through a resumable upload session */
+export const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
 
 // Types for media items
 export interface MediaItem {
@@ -9,10 +16,73 @@ export interface MediaItem {
   type: 'image' | 'video' | 'document';
   caption?: string;
   display_mode?: 'contain' | 'cover';
+  width?: number | null;
+  height?: number | null;
+  blurhash?: string | null;
+  variants?: MediaVariant[] | null;
+  annotations?: MediaAnnotation[] | null;
   created_at: string;
   created_by: string;
 }
 
+interface MediaUpdates {
+  caption?: string;
+  display_mode?: 'contain' | 'cover';
+  annotations?: MediaAnnotation[];
+}
+
+export interface MediaUploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+type UploadSessionResponse = MediaUploadSession & { received_chunks: number[]; received_bytes: number };
+
+/** Thrown by a request the server refused; retrying won't help */
+class UploadRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused');
+    this.name = 'UploadPausedError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitForOnline = () => new Promise<void>(resolve => {
+  window.addEventListener('online', () => resolve(), { once: true });
+});
+
+/**
+ * localStorage key remembering the session of a file, so an upload can be
+ * resumed after a reload
+ */
+const sessionStorageKey = (stepId: string, file: File) =>
+  `media-upload:${stepId}:${file.name}:${file.size}:${file.lastModified}`;
+
+async function requestJson(url: string, init: RequestInit) {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message = data.error || `Request failed with status ${response.status}`;
+    // Server errors may pass; anything else is final
+    if (response.status >= 500) {
+      throw new Error(message);
+    }
+    throw new UploadRequestError(message, response.status);
+  }
+
+  return data;
+}
+
 interface UseMediaUploadProps {
   stepId: string;
   sopId: string;
@@ -21,10 +91,16 @@ interface UseMediaUploadProps {
 
 interface UseMediaUploadReturn {
   uploadMedia: (file: File) => Promise<MediaItem | null>;
-  updateMedia: (mediaId: string, updates: { caption?: string; display_mode?: 'contain' | 'cover' }) => Promise<MediaItem | null>;
+  /** Pause a chunked upload after the chunk in flight */
+  pauseUpload: () => void;
+  resumeUpload: () => void;
+  updateMedia: (mediaId: string, updates: MediaUpdates) => Promise<MediaItem | null>;
   deleteMedia: (mediaId: string) => Promise<boolean>;
   loading: boolean;
   error: string | null;
+  /** Bytes sent by the chunked upload in progress */
+  progress: MediaUploadProgress | null;
+  paused: boolean;
 }
 
 /**
@@ -37,15 +113,176 @@ export default function useMediaUpload({
 }: UseMediaUploadProps): UseMediaUploadReturn {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<MediaUploadProgress | null>(null);
+  const [paused, setPaused] = useState(false);
+  const pausedRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+  const chunkRequestRef = useRef<AbortController | null>(null);
+
+  const pauseUpload = useCallback(() => {
+    pausedRef.current = true;
+    setPaused(true);
+    // The chunk in flight is sent again on resume
+    chunkRequestRef.current?.abort();
+  }, []);
+
+  const resumeUpload = useCallback(() => {
+    pausedRef.current = false;
+    setPaused(false);
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  const waitWhilePaused = async () => {
+    while (pausedRef.current) {
+      await new Promise<void>(resolve => {
+        resumeRef.current = resolve;
+      });
+    }
+  };
 
   /**
-   * Upload a media file to the server
+   * Run a request until it succeeds, waiting out pauses and network drops
+   * and backing off after server errors
+   */
+  const withRetries = async <T>(request: () => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      await waitWhilePaused();
+
+      try {
+        return await request();
+      } catch (err) {
+        if (err instanceof UploadRequestError) throw err;
+        if (pausedRef.current || err instanceof UploadPausedError) {
+          attempt--;
+          continue;
+        }
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+          await waitForOnline();
+          attempt--;
+          continue;
+        }
+        if (attempt >= MAX_CHUNK_ATTEMPTS) throw err;
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  /**
+   * Open an upload session for the file, or pick up the one left by an
+   * earlier attempt
+   */
+  const openUploadSession = async (file: File): Promise<UploadSessionResponse> => {
+    const storageKey = sessionStorageKey(stepId, file);
+    const savedId = localStorage.getItem(storageKey);
+
+    if (savedId) {
+      try {
+        const { session } = await withRetries(() => requestJson(`/api/media/uploads?id=${savedId}`, { method: 'GET' }));
+        if (session.status === 'uploading' && new Date(session.expires_at).getTime() > Date.now()) {
+          return session;
+        }
+      } catch (err) {
+        if (!(err instanceof UploadRequestError)) throw err;
+      }
+      localStorage.removeItem(storageKey);
+    }
+
+    const { session } = await withRetries(() => requestJson('/api/media/uploads', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        stepId,
+        sopId,
+        filename: file.name,
+        contentType: file.type,
+        size: file.size,
+        caption: file.name,
+      }),
+    }));
+
+    localStorage.setItem(storageKey, session.id);
+    return session;
+  };
+
+  /**
+   * Send a file in chunks through a resumable upload session
+   */
+  const uploadInChunks = async (file: File): Promise<MediaItem> => {
+    const session = await openUploadSession(file);
+    const received = new Set(session.received_chunks);
+    let loaded = session.received_bytes;
+
+    setProgress({ loaded, total: file.size, percent: Math.round((loaded / file.size) * 100) });
+
+    try {
+      for (let index = 0; index < session.chunk_count; index++) {
+        if (received.has(index)) continue;
+
+        const start = index * session.chunk_size;
+        const chunk = file.slice(start, Math.min(start + session.chunk_size, file.size));
+
+        await withRetries(async () => {
+          const controller = new AbortController();
+          chunkRequestRef.current = controller;
+          try {
+            return await requestJson(`/api/media/uploads?id=${session.id}&index=${index}`, {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/octet-stream',
+              },
+              body: chunk,
+              signal: controller.signal,
+            });
+          } catch (err) {
+            if (controller.signal.aborted) throw new UploadPausedError();
+            throw err;
+          } finally {
+            chunkRequestRef.current = null;
+          }
+        });
+
+        loaded += chunk.size;
+        setProgress({ loaded, total: file.size, percent: Math.round((loaded / file.size) * 100) });
+      }
+
+      const data = await withRetries(() => requestJson(`/api/media/uploads/complete?id=${session.id}`, {
+        method: 'POST',
+      }));
+
+      localStorage.removeItem(sessionStorageKey(stepId, file));
+      return data.media;
+    } catch (err) {
+      // The session is gone or refused the file; start over next time
+      if (err instanceof UploadRequestError && err.status !== 409) {
+        localStorage.removeItem(sessionStorageKey(stepId, file));
+      }
+      throw err;
+    }
+  };
+
+  /**
+   * Upload a media file to the server; large files are sent in chunks and
+   * can be paused and resumed
    */
   const uploadMedia = async (file: File): Promise<MediaItem | null> => {
     setLoading(true);
     setError(null);
     
     try {
+      if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+        const media = await uploadInChunks(file);
+
+        if (onSuccess && media) {
+          onSuccess(media);
+        }
+
+        toast.success('Media uploaded successfully');
+        return media;
+      }
+
       const formData = new FormData();
       formData.append('file', file);
       formData.append('step_id', stepId);
@@ -75,15 +312,18 @@ export default function useMediaUpload({
       return null;
     } finally {
       setLoading(false);
+      setProgress(null);
+      pausedRef.current = false;
+      setPaused(false);
     }
   };
 
   /**
-   * Update media metadata (caption or display mode)
+   * Update media metadata (caption, display mode or annotation layer)
    */
   const updateMedia = async (
     mediaId: string, 
-    updates: { caption?: string; display_mode?: 'contain' | 'cover' }
+    updates: MediaUpdates
   ): Promise<MediaItem | null> => {
     setLoading(true);
     setError(null);
@@ -147,9 +387,13 @@ export default function useMediaUpload({
 
   return {
     uploadMedia,
+    pauseUpload,
+    resumeUpload,
     updateMedia,
     deleteMedia,
     loading,
     error,
+    progress,
+    paused,
   };
 } 
\ No newline at end of file
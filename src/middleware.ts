@@ -15,7 +15,10 @@ const PUBLIC_ROUTES = [
   '/help',
   '/privacy',
   '/terms',
-  '/api/public'
+  '/api/public',
+  '/api/media/files',
+  '/api/cron',
+  '/api/notifications/unsubscribe'
 ];
 
 // Define admin-only routes
@@ -14,6 +14,8 @@ export interface SOP {
   title: string;
   description?: string;
   category?: string;
+  stakeholders?: string;
+  definitions?: string;
   tags?: string[];
   created_by: string;
   updated_by?: string;
@@ -66,6 +68,200 @@ export interface Media {
   updated_at?: string;
   file_type?: string;
   file_path?: string;
+  content_type?: string | null;
+  /** Media store holding the file (supabase, s3, local); null for legacy rows */
+  storage_backend?: string | null;
+  /** Key of the file in its media store */
+  storage_key?: string | null;
+  /** Pixel size of images, after auto-rotation, and resolution of videos */
+  width?: number | null;
+  height?: number | null;
+  /** Blurhash placeholder of images */
+  blurhash?: string | null;
+  /** Resized WebP copies of images, smallest first, or the poster frame of a video */
+  variants?: MediaVariant[] | null;
+  /** Vector markup drawn over an image; the file itself is never changed */
+  annotations?: MediaAnnotation[] | null;
+  /** Length of a video in seconds */
+  duration_seconds?: number | null;
+  /** Chapter markers of a video, ordered by time */
+  chapters?: MediaChapter[] | null;
+  /** Library asset the file comes from; the row then holds a copy of its file fields */
+  asset_id?: string | null;
+  /** Malware scan of the upload; null for rows from before scanning */
+  scan_status?: MediaScanStatus | null;
+  scanner?: string | null;
+  scanned_at?: string | null;
+  /** Type found from the magic bytes of the file */
+  detected_content_type?: string | null;
+}
+
+export interface MediaFolder {
+  id: string;
+  name: string;
+  /** Enclosing folder; null at the top of the library */
+  parent_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A file in the shared media library. Steps use it through media rows with
+ * its `asset_id`; replacing the file updates all of them.
+ */
+export interface MediaAsset {
+  id: string;
+  folder_id: string | null;
+  name: string;
+  description: string | null;
+  tags: string[];
+  type: MediaType;
+  content_type: string;
+  filename: string;
+  url: string;
+  storage_backend: string;
+  storage_key: string;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: MediaVariant[];
+  duration_seconds: number | null;
+  created_by: string;
+  updated_by: string | null;
+  /** Last time the file was replaced */
+  replaced_at: string | null;
+  scan_status: MediaScanStatus | null;
+  scanner: string | null;
+  scanned_at: string | null;
+  detected_content_type: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Scan result of a stored file: clean when the scanner passed it, skipped
+ * when no scanner is configured. Flagged files are quarantined instead.
+ */
+export type MediaScanStatus = 'clean' | 'skipped';
+
+export type MediaImageVariantName = 'thumbnail' | 'medium' | 'large';
+
+/** Images get resized copies; videos get a poster frame */
+export type MediaVariantName = MediaImageVariantName | 'poster';
+
+/**
+ * A timestamp in a video that starts the part showing a step
+ */
+export interface MediaChapter {
+  /** Seconds from the start of the video */
+  time: number;
+  step_id: string;
+  label?: string;
+}
+
+export type MediaAnnotationKind = 'arrow' | 'callout' | 'rect' | 'blur' | 'text';
+
+interface MediaAnnotationBase {
+  id: string;
+  kind: MediaAnnotationKind;
+  color: string;
+}
+
+/**
+ * One shape of an image annotation layer. Coordinates are fractions (0-1)
+ * of the image width and height, so they hold for every variant.
+ */
+export type MediaAnnotation =
+  | (MediaAnnotationBase & { kind: 'arrow'; x1: number; y1: number; x2: number; y2: number })
+  | (MediaAnnotationBase & { kind: 'callout'; x: number; y: number; number: number })
+  | (MediaAnnotationBase & { kind: 'rect' | 'blur'; x: number; y: number; width: number; height: number })
+  | (MediaAnnotationBase & { kind: 'text'; x: number; y: number; text: string });
+
+/**
+ * A resized WebP copy of an uploaded image, or the poster frame of a video,
+ * in the same store as the original
+ */
+export interface MediaVariant {
+  name: MediaVariantName;
+  width: number;
+  height: number;
+  url: string;
+  storage_key: string;
+  size_bytes: number;
+}
+
+/**
+ * An object in a media store that nothing refers to
+ */
+export interface MediaOrphan {
+  storage_backend: string;
+  storage_key: string;
+  size_bytes: number | null;
+  last_modified: string | null;
+  first_seen_at: string;
+}
+
+export interface MediaGcRun {
+  id: string;
+  storage_backend: string;
+  dry_run: boolean;
+  status: 'running' | 'completed' | 'failed';
+  scanned_count: number;
+  orphan_count: number;
+  orphan_bytes: number;
+  missing_count: number;
+  deleted_count: number;
+  deleted_bytes: number;
+  error: string | null;
+  /** User ID of the admin who ran it, or 'cron' */
+  triggered_by: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * An upload the malware scanner flagged, kept under quarantine/ for review
+ */
+export interface MediaQuarantine {
+  id: string;
+  storage_backend: string;
+  storage_key: string;
+  filename: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  scanner: string;
+  signature: string | null;
+  sop_id: string | null;
+  step_id: string | null;
+  asset_id: string | null;
+  uploaded_by: string;
+  created_at: string;
+}
+
+/**
+ * A resumable chunked upload; its chunks are stored under uploads/{id}/
+ */
+export interface MediaUploadSession {
+  id: string;
+  sop_id: string;
+  step_id: string;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  chunk_size: number;
+  chunk_count: number;
+  caption: string | null;
+  storage_backend: string;
+  status: 'uploading' | 'completing' | 'completed' | 'failed' | 'aborted';
+  error: string | null;
+  /** Media row created when the session completed */
+  media_id: string | null;
+  created_by: string;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Tag {
@@ -80,9 +276,190 @@ export interface Tag {
 export interface Approval {
   id: string;
   sop_id: string;
+  review_id: string;
   user_id: string;
   status: 'pending' | 'approved' | 'rejected';
   comment?: string;
+  sequence?: number | null;
+  decided_at?: string | null;
+  reviewer_email?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A single round of review for an SOP. Approvals hang off a review;
+ * when `ordered` is set, reviewers decide one after another by `sequence`.
+ */
+export interface SopReview {
+  id: string;
+  sop_id: string;
+  requested_by: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  ordered: boolean;
+  quorum: number;
+  message?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  approvals?: Approval[];
+}
+
+/**
+ * A range of a step's instructions a review comment points at
+ */
+export interface StepCommentAnchor {
+  start: number;
+  end: number;
+  /** The commented text, to find the range again after edits */
+  text: string;
+}
+
+/**
+ * An inline review comment on a step, left by the author or a reviewer
+ */
+export interface StepComment {
+  id: string;
+  sop_id: string;
+  step_id: string;
+  author_id: string;
+  author_name: string;
+  content: string;
+  anchor_start?: number | null;
+  anchor_end?: number | null;
+  anchor_text?: string | null;
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationType =
+  | 'new_comment'
+  | 'step_comment'
+  | 'review_requested'
+  | 'review_decision'
+  | 'sop_published'
+  | 'share_link_expiring'
+  | 'review_due';
+
+export type NotificationChannel = 'in_app' | 'email';
+
+/**
+ * A notification in a user's notification center
+ */
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  content: string;
+  resource_id?: string | null;
+  resource_type?: string | null;
+  /** Details of the event; `url` is where the notification links to */
+  data: Record<string, unknown>;
+  is_read: boolean;
+  read_at?: string | null;
+  /** Key of a scheduled reminder, sent once per recipient */
+  dedupe_key?: string | null;
+  created_at: string;
+}
+
+/**
+ * A notification type switched on or off for one delivery channel
+ */
+export interface NotificationPreference {
+  user_id: string;
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationEmailFrequency = 'immediate' | 'daily';
+
+export type NotificationEmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+/**
+ * A notification queued for email, and the outcome of sending it
+ */
+export interface NotificationEmail {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  content: string;
+  url?: string | null;
+  dedupe_key?: string | null;
+  /** Went out in the user's daily digest instead of on its own */
+  digest: boolean;
+  status: NotificationEmailStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  transport?: string | null;
+  /** Message-ID of the email the row went out in; digest rows share one */
+  message_id?: string | null;
+  sent_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationEmailSettings {
+  user_id: string;
+  frequency: NotificationEmailFrequency;
+  last_digest_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookEvent =
+  | 'sop.created'
+  | 'sop.updated'
+  | 'sop.published'
+  | 'sop.archived'
+  | 'step.updated'
+  | 'comment.created'
+  | 'run.completed';
+
+/** Sent by the "send test event" button; never queued by a change */
+export type WebhookTestEvent = 'webhook.test';
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+
+/**
+ * An endpoint of the organization that receives SOP lifecycle events
+ */
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  /** Key the payloads are signed with */
+  secret: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One event sent to one subscription, with the outcome of the last attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  /** Shared by the deliveries of the same event to every subscription */
+  event_id: string;
+  event: WebhookEvent | WebhookTestEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status?: number | null;
+  response_body?: string | null;
+  duration_ms?: number | null;
+  last_error?: string | null;
+  delivered_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -91,17 +468,211 @@ export interface AuditLog {
   id: string;
   entity_type: 'sop' | 'step' | 'media' | 'user';
   entity_id: string;
-  action: 'create' | 'update' | 'delete' | 'publish' | 'review' | 'approve';
+  action: 'create' | 'update' | 'delete' | 'publish' | 'review' | 'approve' | 'reject' | 'scan' | 'quarantine' | 'moderate';
   user_id: string;
-  changes?: Record<string, any>;
-  previous_state?: Record<string, any>;
-  current_state?: Record<string, any>;
-  metadata?: Record<string, any>;
+  changes?: Record<string, unknown>;
+  previous_state?: Record<string, unknown>;
+  current_state?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
   created_at: string;
 }
 
 export type MediaType = 'image' | 'video' | 'document';
 
+/**
+ * A step as captured inside an immutable SOP version snapshot,
+ * including the media references attached to it at snapshot time
+ */
+export interface SopVersionStep extends Omit<Step, 'created_at' | 'updated_at'> {
+  title?: string;
+  media: Media[];
+}
+
+export type SopVersionSource = 'publish' | 'manual' | 'restore';
+
+export interface SopVersion {
+  id: string;
+  sop_id: string;
+  version_number: number;
+  title: string;
+  description?: string | null;
+  category?: string | null;
+  stakeholders?: string | null;
+  definitions?: string | null;
+  status?: SOP['status'];
+  steps: SopVersionStep[];
+  equipment: Record<string, unknown>[];
+  source: SopVersionSource;
+  change_summary?: string | null;
+  restored_from?: number | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface SopFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SopStepChange {
+  step_id: string;
+  type: 'added' | 'removed' | 'modified' | 'moved';
+  title?: string;
+  from_position?: number;
+  to_position?: number;
+  changes: SopFieldChange[];
+}
+
+export interface SopVersionDiff {
+  from_version: number;
+  to_version: number;
+  fields: SopFieldChange[];
+  steps: SopStepChange[];
+  equipment: {
+    added: Record<string, unknown>[];
+    removed: Record<string, unknown>[];
+  };
+}
+
+/**
+ * How an operator answers a step's verification during a run
+ */
+export type RunResponseType = 'none' | 'pass_fail' | 'number' | 'text' | 'photo';
+
+export interface SopRunStep {
+  id: string;
+  run_id: string;
+  step_id?: string | null;
+  position: number;
+  title?: string | null;
+  instructions?: string | null;
+  verification?: string | null;
+  response_type: RunResponseType;
+  completed: boolean;
+  response_value?: string | null;
+  passed?: boolean | null;
+  photo_url?: string | null;
+  /** Media store and key of the photo; null for photos taken before migration 23 */
+  photo_storage_backend?: string | null;
+  photo_storage_key?: string | null;
+  photo_variants?: MediaVariant[];
+  performed_by?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One performance of a published SOP version
+ */
+export interface SopRun {
+  id: string;
+  sop_id: string;
+  version_number: number;
+  sop_title: string;
+  status: 'in_progress' | 'completed';
+  started_by: string;
+  started_at: string;
+  completed_at?: string | null;
+  signed_by?: string | null;
+  signature_name?: string | null;
+  signature_data?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  steps?: SopRunStep[];
+}
+
+/**
+ * One AI provider call in the usage ledger
+ */
+export interface AIUsageRecord {
+  id: string;
+  user_id: string;
+  role?: string | null;
+  department?: string | null;
+  feature: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  estimated_cost: number;
+  status: 'success' | 'error';
+  created_at: string;
+}
+
+/**
+ * Daily/monthly AI request limits for one user or one role; null means unlimited
+ */
+export interface AIQuota {
+  id: string;
+  user_id?: string | null;
+  role?: 'admin' | 'editor' | 'viewer' | null;
+  daily_limit?: number | null;
+  monthly_limit?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A share link of a published SOP, served at /shared/{id}
+ */
+export interface SharedSopLink {
+  id: string;
+  sop_id: string;
+  label: string;
+  /** Publish settings of this link; see PublishSettings in utils/share-access */
+  settings: Record<string, unknown>;
+  /** Version the link is pinned to; null serves the current content */
+  version_number?: number | null;
+  created_by: string;
+  created_at: string;
+  revoked_at?: string | null;
+  view_count: number;
+  unique_visitors: number;
+  last_viewed_at?: string | null;
+}
+
+/**
+ * One opening of a share link
+ */
+export interface SharedSopView {
+  id: string;
+  shared_sop_id: string;
+  visitor_id: string;
+  max_step: number;
+  created_at: string;
+}
+
+export type SopCommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+/**
+ * A comment left on a shared SOP. Replies point at a top-level comment
+ * through `parent_id`; threads are one level deep.
+ */
+export interface SopComment {
+  id: string;
+  sop_id: string;
+  shared_sop_id?: string | null;
+  parent_id?: string | null;
+  content: string;
+  author_name: string;
+  /** Signed-in author; null for anonymous comments */
+  author_id?: string | null;
+  is_owner_reply: boolean;
+  status: SopCommentStatus;
+  spam_score: number;
+  spam_reasons: string[];
+  /** Salted hash of the poster's IP address, for rate limiting */
+  ip_hash?: string | null;
+  moderated_by?: string | null;
+  moderated_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Database {
   users: User[];
   sops: SOP[];
@@ -109,5 +680,27 @@ export interface Database {
   media: Media[];
   tags: Tag[];
   approvals: Approval[];
+  sop_reviews: SopReview[];
   audit_logs: AuditLog[];
+  sop_versions: SopVersion[];
+  sop_runs: SopRun[];
+  sop_run_steps: SopRunStep[];
+  ai_usage: AIUsageRecord[];
+  ai_quotas: AIQuota[];
+  shared_sops: SharedSopLink[];
+  shared_sop_views: SharedSopView[];
+  sop_comments: SopComment[];
+  step_comments: StepComment[];
+  notifications: Notification[];
+  notification_preferences: NotificationPreference[];
+  notification_emails: NotificationEmail[];
+  notification_email_settings: NotificationEmailSettings[];
+  webhook_subscriptions: WebhookSubscription[];
+  webhook_deliveries: WebhookDelivery[];
+  media_folders: MediaFolder[];
+  media_assets: MediaAsset[];
+  media_orphans: MediaOrphan[];
+  media_gc_runs: MediaGcRun[];
+  media_quarantine: MediaQuarantine[];
+  media_upload_sessions: MediaUploadSession[];
 } 
\ No newline at end of file
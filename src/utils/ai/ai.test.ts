@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { resolveAIConfig } from './config';
+import { AIConfigurationError, AIProviderError, AIResponseError } from './errors';
+import { FixtureAIProvider } from './fixture-provider';
+import { completeJson, completeText, parseJsonContent, setAIProvider, streamText } from './index';
+import { AICallRecord } from './types';
+
+describe('resolveAIConfig', () => {
+  it('uses the global provider and model unless a feature overrides them', () => {
+    const env = {
+      AI_PROVIDER: 'openai',
+      AI_MODEL: 'gpt-4o',
+      AI_PROVIDER_VIDEO_SCRIPT: 'local',
+      AI_MODEL_VIDEO_SCRIPT: 'llama3:8b',
+      AI_MODEL_STEP_ENHANCEMENT: 'gpt-4o-mini',
+    };
+
+    expect(resolveAIConfig('sop_generation', env)).toEqual({ provider: 'openai', model: 'gpt-4o' });
+    expect(resolveAIConfig('video_script', env)).toEqual({ provider: 'local', model: 'llama3:8b' });
+    expect(resolveAIConfig('step_enhancement', env)).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+  });
+
+  it('falls back to provider defaults and rejects unusable configuration', () => {
+    expect(resolveAIConfig('instructions', {})).toEqual({ provider: 'openai', model: 'gpt-4' });
+    expect(resolveAIConfig('instructions', { AI_PROVIDER: 'azure', AZURE_OPENAI_DEPLOYMENT: 'sop-gpt' }))
+      .toEqual({ provider: 'azure', model: 'sop-gpt' });
+    expect(() => resolveAIConfig('instructions', { AI_PROVIDER: 'azure' })).toThrow(AIConfigurationError);
+    expect(() => resolveAIConfig('instructions', { AI_PROVIDER: 'bard' })).toThrow(AIConfigurationError);
+  });
+});
+
+describe('AI calls through the fixture provider', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  afterEach(() => {
+    process.env.AI_PROVIDER = originalProvider;
+    setAIProvider('fixture', null);
+  });
+
+  it('routes each feature to its fixture and records the request', async () => {
+    const provider = new FixtureAIProvider({
+      step_generation: '```json\n{"steps":[{"title":"Check"}]}\n```',
+      default: request => `model=${request.model}`,
+    });
+    process.env.AI_PROVIDER = 'fixture';
+    setAIProvider('fixture', provider);
+
+    await expect(completeJson('step_generation', [{ role: 'user', content: 'json please' }]))
+      .resolves.toEqual({ steps: [{ title: 'Check' }] });
+    await expect(completeText('instructions', [{ role: 'user', content: 'hi' }])).resolves.toBe('model=fixture');
+
+    const chunks: string[] = [];
+    for await (const chunk of streamText('instructions', [{ role: 'user', content: 'hi' }])) chunks.push(chunk);
+    expect(chunks.join('')).toBe('model=fixture');
+
+    expect(provider.requests.map(request => [request.feature, request.responseFormat]))
+      .toEqual([['step_generation', 'json'], ['instructions', 'text'], ['instructions', 'text']]);
+  });
+
+  it('reports successful and failed calls to the meter', async () => {
+    process.env.AI_PROVIDER = 'fixture';
+    setAIProvider('fixture', new FixtureAIProvider({
+      transcript: 'not json',
+      media_suggestion: () => { throw new AIProviderError('Provider unavailable'); },
+    }));
+    const calls: AICallRecord[] = [];
+    const meter = { record: async (call: AICallRecord) => { calls.push(call); } };
+
+    await completeText('instructions', [{ role: 'user', content: 'twelve chars' }], { meter });
+    await expect(completeJson('transcript', [{ role: 'user', content: 'x' }], { meter })).rejects.toThrow(AIResponseError);
+    await expect(completeText('media_suggestion', [{ role: 'user', content: 'x' }], { meter })).rejects.toThrow(AIProviderError);
+    for await (const chunk of streamText('video_script', [{ role: 'user', content: 'x' }], { meter })) void chunk;
+
+    expect(calls.map(call => [call.feature, call.provider, call.status])).toEqual([
+      ['instructions', 'fixture', 'success'],
+      // The model answered, so an unparseable reply is still billed
+      ['transcript', 'fixture', 'success'],
+      ['media_suggestion', 'fixture', 'error'],
+      ['video_script', 'fixture', 'success'],
+    ]);
+    expect(calls[0].usage.promptTokens).toBe(3);
+    expect(calls[3].usage.completionTokens).toBeGreaterThan(0);
+  });
+
+  it('raises a response error for output that is not JSON', () => {
+    expect(() => parseJsonContent('Sure! Here are your steps')).toThrow(AIResponseError);
+  });
+});
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import { AIConfigurationError } from '@/utils/ai/errors';
+import { AIFixtures, FixtureAIProvider } from '@/utils/ai/fixture-provider';
+import { createAzureProvider, createLocalProvider, createOpenAIProvider } from '@/utils/ai/openai-provider';
+import { AI_PROVIDER_NAMES, AIFeature, AIProvider, AIProviderName } from '@/utils/ai/types';
+
+/**
+ * AI configuration comes from the environment:
+ *
+ *   AI_PROVIDER                 openai | azure | local | fixture (default openai)
+ *   AI_MODEL                    default model / Azure deployment for every feature
+ *   AI_PROVIDER_<FEATURE>       provider override for one feature, e.g. AI_PROVIDER_VIDEO_SCRIPT=local
+ *   AI_MODEL_<FEATURE>          model override for one feature, e.g. AI_MODEL_STEP_ENHANCEMENT=gpt-4o-mini
+ *
+ *   OPENAI_API_KEY, OPENAI_BASE_URL                    openai
+ *   AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT,
+ *   AZURE_OPENAI_API_VERSION, AZURE_OPENAI_DEPLOYMENT  azure
+ *   AI_LOCAL_BASE_URL, AI_LOCAL_API_KEY                local (Ollama, vLLM, ...)
+ *   AI_FIXTURES_PATH                                   fixture: JSON file of replies keyed by feature
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface AIFeatureConfig {
+  provider: AIProviderName;
+  model: string;
+}
+
+const DEFAULT_MODELS: Record<AIProviderName, string | undefined> = {
+  openai: 'gpt-4',
+  azure: undefined,
+  local: 'llama3',
+  fixture: 'fixture',
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+function isProviderName(value: string): value is AIProviderName {
+  return (AI_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve which provider and model a feature uses
+ */
+export function resolveAIConfig(feature: AIFeature, env: Env = process.env): AIFeatureConfig {
+  const key = feature.toUpperCase();
+  const provider = (env[`AI_PROVIDER_${key}`] || env.AI_PROVIDER || 'openai').trim().toLowerCase();
+
+  if (!isProviderName(provider)) {
+    throw new AIConfigurationError(`Unknown AI provider "${provider}". Expected one of: ${AI_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const model = env[`AI_MODEL_${key}`]
+    || env.AI_MODEL
+    || (provider === 'azure' ? env.AZURE_OPENAI_DEPLOYMENT : undefined)
+    || DEFAULT_MODELS[provider];
+
+  if (!model) {
+    throw new AIConfigurationError(`No model configured for AI feature "${feature}" (set AI_MODEL or AI_MODEL_${key})`);
+  }
+
+  return { provider, model: model.trim() };
+}
+
+/**
+ * Build a provider from its environment settings
+ */
+export function createAIProvider(name: AIProviderName, env: Env = process.env): AIProvider {
+  switch (name) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new AIConfigurationError('OPENAI_API_KEY is not configured');
+      }
+      return createOpenAIProvider(env.OPENAI_API_KEY, env.OPENAI_BASE_URL || undefined);
+
+    case 'azure':
+      if (!env.AZURE_OPENAI_API_KEY || !env.AZURE_OPENAI_ENDPOINT) {
+        throw new AIConfigurationError('AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT must be configured');
+      }
+      return createAzureProvider(
+        env.AZURE_OPENAI_API_KEY,
+        env.AZURE_OPENAI_ENDPOINT,
+        env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION
+      );
+
+    case 'local':
+      return createLocalProvider(env.AI_LOCAL_BASE_URL || DEFAULT_LOCAL_BASE_URL, env.AI_LOCAL_API_KEY);
+
+    case 'fixture': {
+      let fixtures: AIFixtures = {};
+      if (env.AI_FIXTURES_PATH) {
+        try {
+          fixtures = JSON.parse(readFileSync(env.AI_FIXTURES_PATH, 'utf8'));
+        } catch (error) {
+          throw new AIConfigurationError(
+            `Could not read AI fixtures from ${env.AI_FIXTURES_PATH}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+      return new FixtureAIProvider(fixtures);
+    }
+  }
+}
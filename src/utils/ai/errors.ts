@@ -0,0 +1,73 @@
+import { ApiError } from '@/utils/api-errors';
+
+/**
+ * The selected provider is missing configuration (API key, endpoint, ...)
+ */
+export class AIConfigurationError extends ApiError {
+  constructor(message = 'AI service is not configured') {
+    super(message, 503);
+    this.name = 'AIConfigurationError';
+  }
+}
+
+/**
+ * The provider rejected or failed the request
+ */
+export class AIProviderError extends ApiError {
+  constructor(message = 'AI service error', statusCode = 502) {
+    super(message, statusCode);
+    this.name = 'AIProviderError';
+  }
+}
+
+/**
+ * The model answered, but not in the shape the feature asked for
+ */
+export class AIResponseError extends ApiError {
+  constructor(message = 'AI service returned an invalid response') {
+    super(message, 502);
+    this.name = 'AIResponseError';
+  }
+}
+
+/**
+ * The user has used up a daily or monthly AI quota
+ */
+export class AIQuotaExceededError extends ApiError {
+  /** Seconds until the quota resets, sent as Retry-After */
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message, 429);
+    this.name = 'AIQuotaExceededError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export type AIError = AIConfigurationError | AIProviderError | AIResponseError | AIQuotaExceededError;
+
+/**
+ * True for any error raised by the AI layer; routes using the other ApiError
+ * hierarchy use this to keep the status code
+ */
+export function isAIError(error: unknown): error is AIError {
+  return error instanceof AIConfigurationError
+    || error instanceof AIProviderError
+    || error instanceof AIResponseError
+    || error instanceof AIQuotaExceededError;
+}
+
+/**
+ * Response headers for an AI error: Retry-After when a quota was exceeded
+ */
+export function aiErrorHeaders(error: unknown): Record<string, string> | undefined {
+  return error instanceof AIQuotaExceededError ? { 'Retry-After': String(error.retryAfter) } : undefined;
+}
+
+/**
+ * Copy aiErrorHeaders onto an already built error response
+ */
+export function applyAIErrorHeaders<T extends Response>(response: T, error: unknown): T {
+  Object.entries(aiErrorHeaders(error) || {}).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
@@ -0,0 +1,50 @@
+import { AICompletion, AICompletionRequest, AIFeature, AIProvider } from '@/utils/ai/types';
+
+export type AIFixture = string | ((request: AICompletionRequest) => string);
+
+export type AIFixtures = Partial<Record<AIFeature | 'default', AIFixture>>;
+
+/**
+ * Deterministic provider for tests and offline development.
+ * Answers with the fixture registered for the request's feature, falling back
+ * to the `default` fixture and finally to a canned reply derived from the prompt.
+ */
+export class FixtureAIProvider implements AIProvider {
+  readonly name = 'fixture' as const;
+  /** Requests received, oldest first, so tests can assert on prompts */
+  readonly requests: AICompletionRequest[] = [];
+
+  constructor(private readonly fixtures: AIFixtures = {}) {}
+
+  private reply(request: AICompletionRequest): string {
+    this.requests.push(request);
+    const fixture = (request.feature && this.fixtures[request.feature]) || this.fixtures.default;
+
+    if (typeof fixture === 'function') return fixture(request);
+    if (typeof fixture === 'string') return fixture;
+
+    if (request.responseFormat === 'json') return '{}';
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    return `[fixture:${request.feature || request.model}] ${prompt.trim().slice(0, 80)}`;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const content = this.reply(request);
+    return {
+      content,
+      model: request.model,
+      usage: {
+        promptTokens: request.messages.reduce((total, message) => total + Math.ceil(message.content.length / 4), 0),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    // Word-sized chunks, like a real stream
+    for (const chunk of this.reply(request).match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+}
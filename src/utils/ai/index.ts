@@ -0,0 +1,170 @@
+import { logger } from '@/utils/logger';
+import { createAIProvider, resolveAIConfig } from '@/utils/ai/config';
+import { AIResponseError } from '@/utils/ai/errors';
+import { estimateTokens } from '@/utils/ai/usage';
+import { AICompletion, AICompletionRequest, AIFeature, AIMessage, AIMeter, AIProvider, AIProviderName } from '@/utils/ai/types';
+
+export * from '@/utils/ai/types';
+export * from '@/utils/ai/errors';
+export { resolveAIConfig } from '@/utils/ai/config';
+export { FixtureAIProvider } from '@/utils/ai/fixture-provider';
+export { startAIMeter } from '@/utils/ai/usage';
+
+export interface AICallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Records the call in the usage ledger; see startAIMeter */
+  meter?: AIMeter;
+}
+
+// Providers are created lazily and reused across requests
+const providers = new Map<AIProviderName, AIProvider>();
+
+/**
+ * Get the shared instance of a provider, creating it on first use
+ */
+export function getAIProvider(name: AIProviderName): AIProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createAIProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace (or with null, reset) the instance used for a provider name; for tests
+ */
+export function setAIProvider(name: AIProviderName, provider: AIProvider | null): void {
+  if (provider) {
+    providers.set(name, provider);
+  } else {
+    providers.delete(name);
+  }
+}
+
+function resolve(feature: AIFeature) {
+  const { provider, model } = resolveAIConfig(feature);
+  return { provider: getAIProvider(provider), model };
+}
+
+function promptTokens(messages: AIMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+}
+
+/**
+ * Run one completion and report it to the meter, successful or not
+ */
+async function runCompletion(
+  feature: AIFeature,
+  messages: AIMessage[],
+  { meter, ...options }: AICallOptions,
+  responseFormat: AICompletionRequest['responseFormat']
+): Promise<AICompletion> {
+  const { provider, model } = resolve(feature);
+  const startedAt = Date.now();
+
+  try {
+    const completion = await provider.complete({ ...options, feature, model, messages, responseFormat });
+    const usage = completion.usage || {
+      promptTokens: promptTokens(messages),
+      completionTokens: estimateTokens(completion.content),
+    };
+
+    logger.debug('AI completion', { feature, provider: provider.name, model: completion.model, responseFormat, usage });
+    await meter?.record({
+      feature,
+      provider: provider.name,
+      model: completion.model,
+      usage,
+      latencyMs: Date.now() - startedAt,
+      status: 'success',
+    });
+    return completion;
+  } catch (error) {
+    await meter?.record({
+      feature,
+      provider: provider.name,
+      model,
+      usage: { promptTokens: 0, completionTokens: 0 },
+      latencyMs: Date.now() - startedAt,
+      status: 'error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Run a chat completion for a feature and return the text
+ */
+export async function completeText(feature: AIFeature, messages: AIMessage[], options: AICallOptions = {}): Promise<string> {
+  const completion = await runCompletion(feature, messages, options, 'text');
+  return completion.content;
+}
+
+/**
+ * Parse a JSON object from model output, tolerating Markdown code fences
+ * that local models often add even in JSON mode
+ */
+export function parseJsonContent<T>(content: string): T {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/i, '$1').trim();
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    throw new AIResponseError('AI service returned invalid JSON');
+  }
+}
+
+/**
+ * Run a chat completion in JSON mode and parse the result
+ */
+export async function completeJson<T>(feature: AIFeature, messages: AIMessage[], options: AICallOptions = {}): Promise<T> {
+  const completion = await runCompletion(feature, messages, options, 'json');
+
+  if (!completion.content) {
+    throw new AIResponseError('No content returned from AI service');
+  }
+  return parseJsonContent<T>(completion.content);
+}
+
+async function* meterStream(
+  chunks: AsyncIterable<string>,
+  meter: AIMeter,
+  call: { feature: AIFeature; provider: AIProviderName; model: string; messages: AIMessage[] }
+): AsyncIterable<string> {
+  const startedAt = Date.now();
+  let output = '';
+  let failed = false;
+
+  try {
+    for await (const chunk of chunks) {
+      output += chunk;
+      yield chunk;
+    }
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    // Streams report no usage, so tokens are estimated; a cancelled stream
+    // is still billed for what was generated
+    await meter.record({
+      feature: call.feature,
+      provider: call.provider,
+      model: call.model,
+      usage: { promptTokens: promptTokens(call.messages), completionTokens: estimateTokens(output) },
+      latencyMs: Date.now() - startedAt,
+      status: failed ? 'error' : 'success',
+    });
+  }
+}
+
+/**
+ * Stream a chat completion for a feature as text chunks
+ */
+export function streamText(feature: AIFeature, messages: AIMessage[], { meter, ...options }: AICallOptions = {}): AsyncIterable<string> {
+  const { provider, model } = resolve(feature);
+  const chunks = provider.stream({ ...options, feature, model, messages, responseFormat: 'text' });
+
+  return meter ? meterStream(chunks, meter, { feature, provider: provider.name, model, messages }) : chunks;
+}
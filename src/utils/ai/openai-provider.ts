@@ -0,0 +1,94 @@
+import OpenAI, { APIError, AzureOpenAI } from 'openai';
+import { AIProviderError } from '@/utils/ai/errors';
+import { AICompletion, AICompletionRequest, AIProvider, AIProviderName } from '@/utils/ai/types';
+
+/**
+ * Map SDK errors onto API errors without leaking provider details to clients
+ */
+function toProviderError(error: unknown): Error {
+  if (error instanceof APIError) {
+    if (error.status === 429) {
+      return new AIProviderError('AI provider rate limit exceeded. Please try again later.', 429);
+    }
+    if (error.status === 401 || error.status === 403) {
+      return new AIProviderError('AI provider rejected the configured credentials');
+    }
+    return new AIProviderError(`AI provider error${error.status ? ` (${error.status})` : ''}`);
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return error;
+  }
+  return new AIProviderError(error instanceof Error ? error.message : 'AI provider error');
+}
+
+/**
+ * Provider for anything that speaks the OpenAI chat completions API:
+ * OpenAI itself, Azure OpenAI, and local servers such as Ollama or vLLM
+ */
+export class OpenAIChatProvider implements AIProvider {
+  constructor(readonly name: AIProviderName, private readonly client: OpenAI) {}
+
+  private params(request: AICompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    try {
+      const response = await this.client.chat.completions.create(this.params(request), { signal: request.signal });
+      return {
+        content: response.choices[0]?.message?.content || '',
+        model: response.model || request.model,
+        usage: response.usage
+          ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+          : null,
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    let chunks;
+    try {
+      chunks = await this.client.chat.completions.create(
+        { ...this.params(request), stream: true },
+        { signal: request.signal }
+      );
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    try {
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
+
+export function createOpenAIProvider(apiKey: string, baseURL?: string): OpenAIChatProvider {
+  return new OpenAIChatProvider('openai', new OpenAI({ apiKey, baseURL, dangerouslyAllowBrowser: false }));
+}
+
+/**
+ * Azure OpenAI; the request model is used as the deployment name
+ */
+export function createAzureProvider(apiKey: string, endpoint: string, apiVersion: string): OpenAIChatProvider {
+  return new OpenAIChatProvider('azure', new AzureOpenAI({ apiKey, endpoint, apiVersion, dangerouslyAllowBrowser: false }));
+}
+
+/**
+ * OpenAI-compatible local server (Ollama, vLLM, LM Studio, ...); most ignore the API key
+ */
+export function createLocalProvider(baseURL: string, apiKey?: string): OpenAIChatProvider {
+  return new OpenAIChatProvider('local', new OpenAI({ apiKey: apiKey || 'local', baseURL, dangerouslyAllowBrowser: false }));
+}
@@ -0,0 +1,84 @@
+/**
+ * Shared types for the pluggable AI provider layer
+ */
+
+/**
+ * Every AI-backed feature; each can be routed to its own provider and model
+ */
+export const AI_FEATURES = [
+  'sop_generation',
+  'step_generation',
+  'instructions',
+  'step_enhancement',
+  'media_suggestion',
+  'transcript',
+  'video_script',
+  'sop_review',
+  'sop_qa',
+] as const;
+
+export type AIFeature = typeof AI_FEATURES[number];
+
+export const AI_PROVIDER_NAMES = ['openai', 'azure', 'local', 'fixture'] as const;
+
+export type AIProviderName = typeof AI_PROVIDER_NAMES[number];
+
+export type AIMessageRole = 'system' | 'user' | 'assistant';
+
+export interface AIMessage {
+  role: AIMessageRole;
+  content: string;
+}
+
+export interface AICompletionRequest {
+  /** Model (or Azure deployment) name */
+  model: string;
+  messages: AIMessage[];
+  /** Feature making the call, for fixtures and logging */
+  feature?: AIFeature;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a single JSON object */
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AICompletion {
+  content: string;
+  model: string;
+  usage: AIUsage | null;
+}
+
+/**
+ * A chat-completion backend. Implementations must not keep per-request state.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+  /** Yield the completion text as it is generated */
+  stream(request: AICompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * One provider call as seen by the usage ledger
+ */
+export interface AICallRecord {
+  feature: AIFeature;
+  provider: AIProviderName;
+  model: string;
+  usage: AIUsage;
+  latencyMs: number;
+  status: 'success' | 'error';
+}
+
+/**
+ * Receives every call made on behalf of one user; see utils/ai/usage.ts
+ */
+export interface AIMeter {
+  record(call: AICallRecord): Promise<void>;
+}
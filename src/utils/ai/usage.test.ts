@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { AIQuotaExceededError } from './errors';
+import { assertWithinAIQuota, estimateAICost, getQuotaPeriod, resolveAIQuota, summarizeAIUsage } from './usage';
+import { AIUsageRecord } from '@/types/database.types';
+
+describe('resolveAIQuota', () => {
+  const quotas = [
+    { user_id: 'user-1', role: null, daily_limit: 5, monthly_limit: null },
+    { user_id: null, role: 'viewer' as const, daily_limit: 10, monthly_limit: 100 },
+  ];
+
+  it('prefers a user override, then the role row, then the environment', () => {
+    const env = { AI_QUOTA_DAILY: '20', AI_QUOTA_MONTHLY_EDITOR: 'unlimited' };
+
+    expect(resolveAIQuota('user-1', 'viewer', quotas, env)).toEqual({ daily: 5, monthly: null });
+    expect(resolveAIQuota('user-2', 'viewer', quotas, env)).toEqual({ daily: 10, monthly: 100 });
+    expect(resolveAIQuota('user-3', 'editor', quotas, env)).toEqual({ daily: 20, monthly: null });
+    expect(resolveAIQuota('user-4', null, [], {})).toEqual({ daily: 50, monthly: 1000 });
+  });
+});
+
+describe('assertWithinAIQuota', () => {
+  const now = new Date('2026-03-31T23:00:00Z');
+  const window = (period: 'daily' | 'monthly', limit: number | null, used: number) =>
+    ({ limit, used, resetsAt: getQuotaPeriod(period, now).end.toISOString() });
+
+  it('allows calls under the limits and unlimited windows', () => {
+    expect(() => assertWithinAIQuota({ daily: window('daily', 5, 4), monthly: window('monthly', null, 900) }, now)).not.toThrow();
+  });
+
+  it('reports a 429 with the seconds until the window resets', () => {
+    try {
+      assertWithinAIQuota({ daily: window('daily', 5, 5), monthly: window('monthly', 100, 10) }, now);
+      throw new Error('expected a quota error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AIQuotaExceededError);
+      expect((error as AIQuotaExceededError).statusCode).toBe(429);
+      expect((error as AIQuotaExceededError).retryAfter).toBe(3600);
+      expect((error as Error).message).toContain('Daily');
+    }
+  });
+});
+
+describe('estimateAICost', () => {
+  const usage = { promptTokens: 1000, completionTokens: 500 };
+
+  it('prices by the longest matching model prefix', () => {
+    expect(estimateAICost('gpt-4', usage, {})).toBe(0.06);
+    expect(estimateAICost('gpt-4o-mini-2024-07-18', usage, {})).toBe(0.00045);
+    expect(estimateAICost('llama3', usage, {})).toBe(0);
+    expect(estimateAICost('llama3', usage, { AI_PRICING: '{"llama3": {"prompt": 1, "completion": 1}}' })).toBe(0.0015);
+  });
+});
+
+describe('summarizeAIUsage', () => {
+  const row = (feature: string, department: string | null, cost: number, status: 'success' | 'error' = 'success') => ({
+    id: feature, user_id: 'user-1', department, feature, provider: 'openai', model: 'gpt-4',
+    prompt_tokens: 100, completion_tokens: 50, latency_ms: 200, estimated_cost: cost, status, created_at: '',
+  }) as AIUsageRecord;
+
+  it('totals usage and groups it by feature and department', () => {
+    const summary = summarizeAIUsage([
+      row('step_generation', 'Quality', 0.01),
+      row('step_generation', 'Quality', 0.02),
+      row('video_script', null, 0.05, 'error'),
+    ]);
+
+    expect(summary.totals).toMatchObject({ requests: 3, errors: 1, promptTokens: 300, estimatedCost: 0.08, averageLatencyMs: 200 });
+    expect(summary.byFeature.map(group => [group.key, group.requests])).toEqual([['video_script', 1], ['step_generation', 2]]);
+    expect(summary.byDepartment.map(group => group.key)).toEqual(['Unassigned', 'Quality']);
+  });
+});
@@ -0,0 +1,316 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { AIQuotaExceededError } from '@/utils/ai/errors';
+import { AICallRecord, AIMeter, AIUsage } from '@/utils/ai/types';
+import { AIQuota, AIUsageRecord } from '@/types/database.types';
+
+/**
+ * AI usage metering. Quotas count successful calls and come from, in order:
+ *
+ *   ai_quotas row for the user
+ *   ai_quotas row for the user's role
+ *   AI_QUOTA_DAILY_<ROLE> / AI_QUOTA_MONTHLY_<ROLE>
+ *   AI_QUOTA_DAILY / AI_QUOTA_MONTHLY        (default 50 / 1000)
+ *
+ * An environment value of "unlimited" removes the limit. Costs are estimated
+ * from USD prices per million tokens; AI_PRICING overrides or extends the
+ * built-in table, e.g. {"gpt-4o": {"prompt": 2.5, "completion": 10}}.
+ */
+
+type Env = Record<string, string | undefined>;
+
+export type AIQuotaPeriod = 'daily' | 'monthly';
+
+export interface AIModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface AIQuotaLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface AIQuotaWindow {
+  limit: number | null;
+  used: number;
+  resetsAt: string;
+}
+
+export interface AIQuotaStatus {
+  role: string | null;
+  department: string | null;
+  daily: AIQuotaWindow;
+  monthly: AIQuotaWindow;
+}
+
+export interface AIUsageGroup {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+export interface AIUsageSummary {
+  totals: AIUsageGroup & { errors: number; averageLatencyMs: number };
+  byFeature: AIUsageGroup[];
+  byModel: AIUsageGroup[];
+  byDepartment: AIUsageGroup[];
+}
+
+const DEFAULT_LIMITS: AIQuotaLimits = { daily: 50, monthly: 1000 };
+
+// USD per million tokens; matched by longest model-name prefix
+const MODEL_PRICES: Record<string, AIModelPrice> = {
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+};
+
+function parseLimit(value: string | undefined): number | null | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  if (value.trim().toLowerCase() === 'unlimited') return null;
+
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 0 ? limit : undefined;
+}
+
+/**
+ * Work out the limits that apply to a user
+ */
+export function resolveAIQuota(
+  userId: string,
+  role: string | null,
+  quotas: Pick<AIQuota, 'user_id' | 'role' | 'daily_limit' | 'monthly_limit'>[],
+  env: Env = process.env
+): AIQuotaLimits {
+  const override = quotas.find(quota => quota.user_id === userId)
+    || (role ? quotas.find(quota => !quota.user_id && quota.role === role) : undefined);
+
+  if (override) {
+    return { daily: override.daily_limit ?? null, monthly: override.monthly_limit ?? null };
+  }
+
+  const fromEnv = (period: AIQuotaPeriod): number | null => {
+    const key = `AI_QUOTA_${period.toUpperCase()}`;
+    const roleLimit = role ? parseLimit(env[`${key}_${role.toUpperCase()}`]) : undefined;
+    if (roleLimit !== undefined) return roleLimit;
+
+    const limit = parseLimit(env[key]);
+    return limit !== undefined ? limit : DEFAULT_LIMITS[period];
+  };
+
+  return { daily: fromEnv('daily'), monthly: fromEnv('monthly') };
+}
+
+/**
+ * Start of the current quota period and of the next one, in UTC
+ */
+export function getQuotaPeriod(period: AIQuotaPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Throw when either quota window is used up. The monthly window is checked
+ * first so Retry-After points at the later reset when both are exhausted.
+ */
+export function assertWithinAIQuota(status: Pick<AIQuotaStatus, 'daily' | 'monthly'>, now: Date = new Date()): void {
+  const exceeded = (['monthly', 'daily'] as const).find(period => {
+    const { limit, used } = status[period];
+    return limit !== null && used >= limit;
+  });
+
+  if (!exceeded) return;
+
+  const window = status[exceeded];
+  const retryAfter = Math.max(1, Math.ceil((new Date(window.resetsAt).getTime() - now.getTime()) / 1000));
+  throw new AIQuotaExceededError(
+    `${exceeded === 'daily' ? 'Daily' : 'Monthly'} AI quota of ${window.limit} requests reached`,
+    retryAfter
+  );
+}
+
+function loadPrices(env: Env): Record<string, AIModelPrice> {
+  if (!env.AI_PRICING) return MODEL_PRICES;
+
+  try {
+    return { ...MODEL_PRICES, ...JSON.parse(env.AI_PRICING) };
+  } catch (error) {
+    logger.warn('Ignoring invalid AI_PRICING', { error });
+    return MODEL_PRICES;
+  }
+}
+
+/**
+ * Estimated USD cost of a call. Unknown models (local, fixture) cost nothing.
+ */
+export function estimateAICost(model: string, usage: AIUsage, env: Env = process.env): number {
+  const prices = loadPrices(env);
+  const match = Object.keys(prices)
+    .filter(prefix => model === prefix || model.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) return 0;
+
+  const price = prices[match];
+  const cost = (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Rough token count for providers that do not report usage (streams)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function countUsageSince(supabase: SupabaseClient, userId: string, since: Date): Promise<number> {
+  const { count, error } = await supabase
+    .from('ai_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'success')
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to count AI usage: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Load a user's role, department, limits and usage in the current windows
+ */
+export async function getAIQuotaStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<AIQuotaStatus> {
+  const [{ data: roleRow }, { data: userRow }] = await Promise.all([
+    supabase.from('user_roles').select('role').eq('user_id', userId).single(),
+    supabase.from('users').select('department').eq('id', userId).single(),
+  ]);
+
+  const role: string | null = roleRow?.role || null;
+  const department: string | null = userRow?.department || null;
+
+  const { data: quotas, error } = await supabase
+    .from('ai_quotas')
+    .select('user_id, role, daily_limit, monthly_limit')
+    .or(role ? `user_id.eq.${userId},role.eq.${role}` : `user_id.eq.${userId}`);
+
+  if (error) {
+    throw new Error(`Failed to load AI quotas: ${error.message}`);
+  }
+
+  const limits = resolveAIQuota(userId, role, quotas || []);
+  const day = getQuotaPeriod('daily', now);
+  const month = getQuotaPeriod('monthly', now);
+
+  const [usedToday, usedThisMonth] = await Promise.all([
+    countUsageSince(supabase, userId, day.start),
+    countUsageSince(supabase, userId, month.start),
+  ]);
+
+  return {
+    role,
+    department,
+    daily: { limit: limits.daily, used: usedToday, resetsAt: day.end.toISOString() },
+    monthly: { limit: limits.monthly, used: usedThisMonth, resetsAt: month.end.toISOString() },
+  };
+}
+
+/**
+ * Check the user's quotas and return a meter that writes every AI call to
+ * the ai_usage ledger. Pass it to the AI helpers as `meter`.
+ * Throws AIQuotaExceededError (429) when a quota is used up.
+ *
+ * @param supabase - Client allowed to write ai_usage (the admin client)
+ */
+export async function startAIMeter(supabase: SupabaseClient, userId: string): Promise<AIMeter> {
+  const status = await getAIQuotaStatus(supabase, userId);
+  assertWithinAIQuota(status);
+
+  return {
+    async record(call: AICallRecord) {
+      const { error } = await supabase.from('ai_usage').insert({
+        user_id: userId,
+        role: status.role,
+        department: status.department,
+        feature: call.feature,
+        provider: call.provider,
+        model: call.model,
+        prompt_tokens: call.usage.promptTokens,
+        completion_tokens: call.usage.completionTokens,
+        latency_ms: call.latencyMs,
+        estimated_cost: estimateAICost(call.model, call.usage),
+        status: call.status,
+      });
+
+      // Metering must never fail the feature itself
+      if (error) {
+        logger.error('Failed to record AI usage', { error, userId, feature: call.feature });
+      }
+    },
+  };
+}
+
+function addToGroup(groups: Map<string, AIUsageGroup>, key: string, row: AIUsageRecord): void {
+  const group = groups.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+  group.requests += 1;
+  group.promptTokens += row.prompt_tokens;
+  group.completionTokens += row.completion_tokens;
+  group.estimatedCost += Number(row.estimated_cost);
+  groups.set(key, group);
+}
+
+function sortedGroups(groups: Map<string, AIUsageGroup>): AIUsageGroup[] {
+  return Array.from(groups.values())
+    .map(group => ({ ...group, estimatedCost: Math.round(group.estimatedCost * 1_000_000) / 1_000_000 }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.requests - a.requests);
+}
+
+/**
+ * Aggregate ledger rows into totals and per-feature, per-model and
+ * per-department breakdowns
+ */
+export function summarizeAIUsage(rows: AIUsageRecord[]): AIUsageSummary {
+  const total = new Map<string, AIUsageGroup>();
+  const byFeature = new Map<string, AIUsageGroup>();
+  const byModel = new Map<string, AIUsageGroup>();
+  const byDepartment = new Map<string, AIUsageGroup>();
+  let latency = 0;
+
+  for (const row of rows) {
+    addToGroup(total, 'total', row);
+    addToGroup(byFeature, row.feature, row);
+    addToGroup(byModel, row.model, row);
+    addToGroup(byDepartment, row.department || 'Unassigned', row);
+    latency += row.latency_ms;
+  }
+
+  const [totals] = sortedGroups(total);
+
+  return {
+    totals: {
+      ...(totals || { key: 'total', requests: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 }),
+      errors: rows.filter(row => row.status === 'error').length,
+      averageLatencyMs: rows.length ? Math.round(latency / rows.length) : 0,
+    },
+    byFeature: sortedGroups(byFeature),
+    byModel: sortedGroups(byModel),
+    byDepartment: sortedGroups(byDepartment),
+  };
+}
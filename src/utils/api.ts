@@ -1,8 +1,18 @@
 'use client';
 
-import { SOP, Step, Media, MediaType } from '@/types/database.types';
+import { SOP, Step, Media, MediaAnnotation, MediaAsset, MediaChapter, MediaFolder, MediaType, SopVersion, SopVersionDiff, SopReview, Approval, AuditLog, SopRun, SopRunStep, SopComment, SopCommentStatus, StepComment, StepCommentAnchor, Notification } from '@/types/database.types';
 import { createBrowserClient } from '@/utils/supabase/client';
 import { withDatabaseFix } from './fix-database';
+import type { SopDocument } from '@/utils/export/sop-document';
+import { importSopDocument, type SopImportOutcome } from '@/utils/export/sop-import';
+import type { AIQuotaStatus, AIUsageSummary } from '@/utils/ai/usage';
+import type { AIGeneratedStep } from '@/utils/step-generation';
+import type { LintReport } from '@/utils/sop-lint';
+import type { ShareLinkSummary } from '@/utils/share-links';
+import type { ModerationCounts, ModerationQueueItem } from '@/utils/sop-comments';
+import type { PlacedStepComment, StepCommentRole } from '@/utils/step-comments';
+import type { NotificationPreferenceChange, NotificationSettings } from '@/utils/notification-types';
+import type { MediaAssetUsage, MediaAssetWithUsage } from '@/utils/media-library';
 
 /**
  * Base function for making authenticated API requests
@@ -384,6 +394,360 @@ export async function fetchSopDetails(token: string, sopId: string): Promise<{ s
   };
 }
 
+/**
+ * Fetch the version history of an SOP (newest first, without step payloads)
+ */
+export async function fetchSopVersions(token: string, sopId: string): Promise<SopVersion[]> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/versions`, {}, token);
+  return result.versions || [];
+}
+
+/**
+ * Fetch the full snapshot of a single SOP version
+ */
+export async function fetchSopVersion(token: string, sopId: string, versionNumber: number): Promise<SopVersion> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/versions/${versionNumber}`, {}, token);
+  return result.version;
+}
+
+/**
+ * Take an on-demand snapshot of the current state of an SOP
+ */
+export async function createSopVersion(token: string, sopId: string, changeSummary?: string): Promise<SopVersion> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/versions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ change_summary: changeSummary }),
+  }, token);
+  
+  return result.version;
+}
+
+/**
+ * Fetch the structured diff between two versions of an SOP
+ */
+export async function fetchSopVersionDiff(
+  token: string, 
+  sopId: string, 
+  fromVersion: number, 
+  toVersion: number
+): Promise<SopVersionDiff> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/versions/diff?from=${fromVersion}&to=${toVersion}`, {}, token);
+  return result.diff;
+}
+
+/**
+ * Restore a previous version of an SOP as a new draft
+ */
+export async function restoreSopVersion(token: string, sopId: string, versionNumber: number): Promise<SopVersion> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/versions/${versionNumber}/restore`, {
+    method: 'POST',
+  }, token);
+  
+  return result.version;
+}
+
+/**
+ * A review waiting on the current user, as listed in the review inbox
+ */
+export interface ReviewInboxItem extends SopReview {
+  sops: Pick<SOP, 'id' | 'title' | 'description' | 'category' | 'status' | 'updated_at'> & { steps: Step[] };
+  can_decide: boolean;
+}
+
+/**
+ * Fetch the current (or most recent) review of an SOP
+ */
+export async function fetchSopReview(token: string, sopId: string): Promise<SopReview | null> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/review`, {}, token);
+  return result.review;
+}
+
+/**
+ * Submit an SOP for review by one or more reviewers (user IDs or emails)
+ */
+export async function submitSopForReview(
+  token: string,
+  sopId: string,
+  options: { reviewers: string[]; ordered?: boolean; quorum?: number; message?: string }
+): Promise<SopReview> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/review`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  }, token);
+  
+  return result.review;
+}
+
+/**
+ * Withdraw the open review of an SOP
+ */
+export async function withdrawSopReview(token: string, sopId: string): Promise<SopReview> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/review`, {
+    method: 'DELETE',
+  }, token);
+  
+  return result.review;
+}
+
+/**
+ * Fetch the reviews waiting on the current user
+ */
+export async function fetchReviewInbox(token: string): Promise<ReviewInboxItem[]> {
+  const result = await fetchWithAuth('/api/reviews', {}, token);
+  return result.reviews || [];
+}
+
+/**
+ * Approve or reject an SOP under review
+ */
+export async function decideSopReview(
+  token: string,
+  reviewId: string,
+  decision: Approval['status'],
+  comment?: string
+): Promise<SopReview> {
+  const result = await fetchWithAuth(`/api/reviews/${reviewId}/decision`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ decision, comment }),
+  }, token);
+  
+  return result.review;
+}
+
+/**
+ * Fetch the inline review comments on the steps of an SOP, with the number
+ * of unresolved comments per step
+ */
+export async function fetchStepComments(
+  token: string,
+  sopId: string
+): Promise<{ comments: PlacedStepComment[]; openCounts: Record<string, number>; role: StepCommentRole }> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/step-comments`, {}, token);
+  return { comments: result.comments || [], openCounts: result.open_counts || {}, role: result.role };
+}
+
+/**
+ * Comment on a step, optionally on a range of its saved instructions
+ */
+export async function addStepComment(
+  token: string,
+  sopId: string,
+  stepId: string,
+  content: string,
+  anchor?: StepCommentAnchor | null
+): Promise<PlacedStepComment> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/step-comments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ stepId, content, anchor: anchor || null }),
+  }, token);
+  return result.comment;
+}
+
+/**
+ * Resolve or reopen a step comment
+ */
+export async function resolveStepComment(token: string, sopId: string, commentId: string, resolved: boolean): Promise<StepComment> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/step-comments`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ commentId, resolved }),
+  }, token);
+  return result.comment;
+}
+
+/**
+ * Fetch the audit log of an SOP
+ */
+export async function fetchSopAuditLogs(token: string, sopId: string): Promise<AuditLog[]> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/audit-logs`, {}, token);
+  return result.logs || [];
+}
+
+/**
+ * Fetch the run history of an SOP
+ */
+export async function fetchSopRuns(token: string, sopId: string): Promise<SopRun[]> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/runs`, {}, token);
+  return result.runs || [];
+}
+
+/**
+ * Start a run of the latest published version of an SOP
+ */
+export async function startSopRun(token: string, sopId: string): Promise<SopRun> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/runs`, {
+    method: 'POST',
+  }, token);
+  
+  return result.run;
+}
+
+/**
+ * Fetch a run with its checklist, and whether the current user can perform it
+ */
+export async function fetchSopRun(token: string, runId: string): Promise<{ run: SopRun; canPerform: boolean }> {
+  const result = await fetchWithAuth(`/api/runs/${runId}`, {}, token);
+  return { run: result.run, canPerform: Boolean(result.can_perform) };
+}
+
+/**
+ * Complete a step of a run with its verification answer or photo
+ */
+export async function completeSopRunStep(
+  token: string,
+  runId: string,
+  position: number,
+  response: { value?: string; photo?: File }
+): Promise<SopRunStep> {
+  let options: RequestInit;
+  
+  if (response.photo) {
+    const formData = new FormData();
+    formData.append('photo', response.photo);
+    if (response.value) formData.append('response_value', response.value);
+    options = { method: 'PATCH', body: formData };
+  } else {
+    options = {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ response_value: response.value ?? null }),
+    };
+  }
+  
+  const result = await fetchWithAuth(`/api/runs/${runId}/steps/${position}`, options, token);
+  return result.step;
+}
+
+/**
+ * Close a run with the operator's signature
+ */
+export async function signOffSopRun(
+  token: string,
+  runId: string,
+  signature: { name: string; data: string; notes?: string }
+): Promise<SopRun> {
+  const result = await fetchWithAuth(`/api/runs/${runId}/sign-off`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      signature_name: signature.name,
+      signature_data: signature.data,
+      notes: signature.notes,
+    }),
+  }, token);
+  
+  return result.run;
+}
+
+export type SopExportFormat = 'pdf' | 'docx' | 'md';
+
+/**
+ * Download a server-rendered export of an SOP (saved through the browser):
+ * the latest published version, or with `draft` the working copy
+ */
+export async function downloadSopExport(
+  token: string,
+  sopId: string,
+  format: SopExportFormat,
+  { draft = false }: { draft?: boolean } = {}
+): Promise<void> {
+  const response = await fetch(`/api/sops/${sopId}/export?format=${format}${draft ? '&draft=true' : ''}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`
+    },
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    let errorMessage = `Export failed with status ${response.status}`;
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.error || errorMessage;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(errorMessage);
+  }
+  
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `sop.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export type SopImportResult = SopImportOutcome<SOP>;
+
+/**
+ * Import an SOP from a .md or .docx file.
+ * The server parses and checks the file; the SOP, its steps (in order) and
+ * any linked media are then created through the regular create routes. The
+ * SOP is deleted again when one of its steps cannot be created.
+ */
+export async function importSopFile(token: string, file: File): Promise<SopImportResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  
+  const { document } = await fetchWithAuth('/api/sops/import', {
+    method: 'POST',
+    body: formData,
+  }, token) as { document: SopDocument };
+  
+  return importSopDocument<SOP>(document, {
+    createSop: fields => createSOP(token, { ...fields, status: 'draft' }),
+    addStep: (sopId, orderIndex, item) => addStep(token, {
+      sop_id: sopId,
+      order_index: orderIndex,
+      name: item.title,
+      instructions: item.instructions,
+      role: item.role,
+      safety_notes: item.safety_notes,
+      verification: item.verification,
+    }),
+    attachMedia: async (stepId, media) => {
+      const response = await fetch(media.url);
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+      const blob = await response.blob();
+      const filename = decodeURIComponent(new URL(media.url).pathname.split('/').pop() || 'media');
+      await uploadStepMedia(token, stepId, new File([blob], filename, { type: blob.type }), media.caption);
+    },
+    deleteSop: sopId => deleteSOP(token, sopId),
+  });
+}
+
+/**
+ * Delete an SOP with its steps
+ */
+export async function deleteSOP(token: string, sopId: string): Promise<void> {
+  await fetchWithAuth(`/api/sops/${sopId}`, {
+    method: 'DELETE',
+  }, token);
+}
+
 /**
  * Add a new step to an SOP
  */
@@ -447,6 +811,163 @@ export async function uploadMedia(
   return result.media;
 }
 
+/**
+ * Save the annotation layer of an image; the image file is left unchanged
+ */
+export async function updateMediaAnnotations(token: string, mediaId: string, annotations: MediaAnnotation[]): Promise<Media> {
+  const result = await fetchWithAuth(`/api/media?id=${mediaId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ annotations }),
+  }, token);
+  return result.media;
+}
+
+/**
+ * Save the chapter markers of a video
+ */
+export async function updateMediaChapters(token: string, mediaId: string, chapters: MediaChapter[]): Promise<Media> {
+  const result = await fetchWithAuth(`/api/media?id=${mediaId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ chapters }),
+  }, token);
+  return result.media;
+}
+
+/**
+ * Search the shared media library
+ * `folderId` null lists the top of the library, undefined every folder
+ */
+export async function fetchLibraryAssets(
+  token: string,
+  query: { search?: string; folderId?: string | null; tag?: string; type?: MediaType; offset?: number } = {}
+): Promise<{ assets: MediaAssetWithUsage[]; total: number }> {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.folderId !== undefined) params.set('folder', query.folderId ?? 'root');
+  if (query.tag) params.set('tag', query.tag);
+  if (query.type) params.set('type', query.type);
+  if (query.offset) params.set('offset', String(query.offset));
+
+  const result = await fetchWithAuth(`/api/media-library?${params.toString()}`, {}, token);
+  return { assets: result.assets || [], total: result.total || 0 };
+}
+
+/**
+ * Add a file to the media library
+ */
+export async function uploadLibraryAsset(
+  token: string,
+  file: File,
+  fields: { name?: string; description?: string; tags?: string[]; folderId?: string | null } = {}
+): Promise<MediaAssetWithUsage> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (fields.name) formData.append('name', fields.name);
+  if (fields.description) formData.append('description', fields.description);
+  if (fields.tags?.length) formData.append('tags', fields.tags.join(','));
+  if (fields.folderId) formData.append('folder_id', fields.folderId);
+
+  const result = await fetchWithAuth('/api/media-library', {
+    method: 'POST',
+    body: formData,
+  }, token);
+  return result.asset;
+}
+
+/**
+ * Update the name, description, tags or folder of a library asset
+ */
+export async function updateLibraryAsset(
+  token: string,
+  assetId: string,
+  updates: Partial<Pick<MediaAsset, 'name' | 'description' | 'tags' | 'folder_id'>>
+): Promise<MediaAsset> {
+  const result = await fetchWithAuth(`/api/media-library?id=${assetId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(updates),
+  }, token);
+  return result.asset;
+}
+
+/**
+ * Delete a library asset; fails while steps still use it
+ */
+export async function deleteLibraryAsset(token: string, assetId: string): Promise<void> {
+  await fetchWithAuth(`/api/media-library?id=${assetId}`, {
+    method: 'DELETE',
+  }, token);
+}
+
+/**
+ * SOPs and steps using a library asset
+ */
+export async function fetchLibraryAssetUsage(token: string, assetId: string): Promise<MediaAssetUsage[]> {
+  const result = await fetchWithAuth(`/api/media-library/usage?id=${assetId}`, {}, token);
+  return result.usage || [];
+}
+
+/**
+ * Replace the file of a library asset in every step using it
+ */
+export async function replaceLibraryAsset(token: string, assetId: string, file: File): Promise<MediaAssetWithUsage> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const result = await fetchWithAuth(`/api/media-library/replace?id=${assetId}`, {
+    method: 'POST',
+    body: formData,
+  }, token);
+  return result.asset;
+}
+
+/**
+ * Fetch the folders of the media library
+ */
+export async function fetchLibraryFolders(token: string): Promise<MediaFolder[]> {
+  const result = await fetchWithAuth('/api/media-library/folders', {}, token);
+  return result.folders || [];
+}
+
+/**
+ * Create a media library folder
+ */
+export async function createLibraryFolder(token: string, name: string, parentId?: string | null): Promise<MediaFolder> {
+  const result = await fetchWithAuth('/api/media-library/folders', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name, parent_id: parentId || null }),
+  }, token);
+  return result.folder;
+}
+
+/**
+ * Use a library asset in a step
+ */
+export async function attachLibraryAsset(
+  token: string,
+  { sopId, stepId, assetId, caption }: { sopId: string; stepId: string; assetId: string; caption?: string }
+): Promise<Media> {
+  const result = await fetchWithAuth('/api/media', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sopId, stepId, assetId, caption }),
+  }, token);
+  return result.media;
+}
+
 /**
  * Generate step instructions using AI
  */
@@ -477,6 +998,279 @@ export async function generateVideoScript(token: string, sopId: string): Promise
   return result.videoScript;
 }
 
+/**
+ * Generate steps for an SOP with AI, calling `onStep` as each step arrives.
+ * Abort the signal to stop generation; resolves with the number of steps.
+ */
+export async function streamGeneratedSteps(
+  token: string,
+  sopId: string,
+  prompt: string,
+  onStep: (step: AIGeneratedStep, index: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const response = await fetch('/api/ai/generate-steps', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/x-ndjson',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ sop_id: sopId, prompt, stream: true }),
+    signal,
+  });
+  
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to generate steps (${response.status})`);
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let count = 0;
+  
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line);
+    if (event.type === 'step') {
+      count++;
+      onStep(event.step, event.index);
+    } else if (event.type === 'error') {
+      throw new Error(event.error || 'Failed to generate steps');
+    }
+  };
+  
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  
+  handleLine(buffer + decoder.decode());
+  return count;
+}
+
+/**
+ * Ask the AI for a new version of one generated step
+ */
+export async function regenerateGeneratedStep(
+  token: string,
+  sopId: string,
+  prompt: string,
+  steps: AIGeneratedStep[],
+  index: number,
+  feedback?: string
+): Promise<AIGeneratedStep> {
+  const result = await fetchWithAuth('/api/ai/regenerate-step', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sop_id: sopId, prompt, steps, index, feedback }),
+  }, token);
+  
+  return result.step;
+}
+
+export interface AIUsageReport {
+  scope: 'user' | 'organization';
+  period: { from: string; to: string };
+  quota: AIQuotaStatus;
+  summary: AIUsageSummary;
+}
+
+/**
+ * Fetch AI usage and quota status for a month (YYYY-MM, default current).
+ * The organization scope is limited to administrators.
+ */
+export async function fetchAIUsage(
+  token: string,
+  options: { month?: string; scope?: AIUsageReport['scope'] } = {}
+): Promise<AIUsageReport> {
+  const params = new URLSearchParams();
+  if (options.month) params.set('month', options.month);
+  if (options.scope) params.set('scope', options.scope);
+  
+  const query = params.toString();
+  return fetchWithAuth(`/api/ai/usage${query ? `?${query}` : ''}`, {}, token);
+}
+
+/**
+ * Lint the saved version of an SOP; `ai` adds findings from an AI review,
+ * which counts against the user's AI quota
+ */
+export async function lintSopOnServer(
+  token: string,
+  sopId: string,
+  options: { ai?: boolean } = {}
+): Promise<LintReport> {
+  return fetchWithAuth(`/api/sops/${sopId}/lint`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ai: options.ai === true }),
+  }, token);
+}
+
+/**
+ * Fetch the share links of an SOP with their view counters and scroll depth
+ */
+export async function fetchShareLinks(token: string, sopId: string): Promise<ShareLinkSummary[]> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/share-links`, {}, token);
+  return result.links || [];
+}
+
+/**
+ * Create a share link for a published SOP; `versionNumber` pins it to a version
+ */
+export async function createShareLink(
+  token: string,
+  sopId: string,
+  options: { label?: string; publishSettings?: Record<string, unknown>; versionNumber?: number | null } = {}
+): Promise<ShareLinkSummary> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/share-links`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  }, token);
+  return result.link;
+}
+
+/**
+ * Rename a share link
+ */
+export async function renameShareLink(token: string, sopId: string, linkId: string, label: string): Promise<ShareLinkSummary> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/share-links/${linkId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ label }),
+  }, token);
+  return result.link;
+}
+
+/**
+ * Revoke a share link; it stops working immediately
+ */
+export async function revokeShareLink(token: string, sopId: string, linkId: string): Promise<void> {
+  await fetchWithAuth(`/api/sops/${sopId}/share-links/${linkId}`, {
+    method: 'DELETE',
+  }, token);
+}
+
+/**
+ * Fetch the comments of an SOP in one moderation status, with counts per status
+ */
+export async function fetchSopComments(
+  token: string,
+  sopId: string,
+  status: SopCommentStatus = 'pending'
+): Promise<{ comments: ModerationQueueItem[]; counts: ModerationCounts }> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/comments?status=${status}`, {}, token);
+  return { comments: result.comments || [], counts: result.counts };
+}
+
+/**
+ * Approve, reject or mark comments of an SOP as spam
+ */
+export async function moderateSopComments(
+  token: string,
+  sopId: string,
+  ids: string[],
+  status: Exclude<SopCommentStatus, 'pending'>
+): Promise<SopComment[]> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/comments`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids, status }),
+  }, token);
+  return result.comments || [];
+}
+
+/**
+ * Reply to a comment as the SOP owner; the reply is published immediately
+ */
+export async function replyToSopComment(token: string, sopId: string, parentId: string, comment: string): Promise<SopComment> {
+  const result = await fetchWithAuth(`/api/sops/${sopId}/comments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ parentId, comment }),
+  }, token);
+  return result.comment;
+}
+
+/**
+ * Fetch the newest notifications of the current user with the unread count
+ */
+export async function fetchNotifications(
+  token: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: Notification[]; unreadCount: number }> {
+  const params = new URLSearchParams();
+  if (options.unreadOnly) params.set('unread', 'true');
+  if (options.limit) params.set('limit', String(options.limit));
+  
+  const query = params.toString();
+  const result = await fetchWithAuth(`/api/notifications${query ? `?${query}` : ''}`, {}, token);
+  return { notifications: result.notifications || [], unreadCount: result.unread_count || 0 };
+}
+
+export async function fetchUnreadNotificationCount(token: string): Promise<number> {
+  const result = await fetchWithAuth('/api/notifications/unread-count', {}, token);
+  return result.unread_count || 0;
+}
+
+/**
+ * Mark notifications as read, or all of them when `ids` is 'all'
+ * @returns the unread count afterwards
+ */
+export async function markNotificationsRead(token: string, ids: string[] | 'all'): Promise<number> {
+  const result = await fetchWithAuth('/api/notifications', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(ids === 'all' ? { all: true } : { ids }),
+  }, token);
+  return result.unread_count || 0;
+}
+
+export async function fetchNotificationPreferences(token: string): Promise<NotificationSettings> {
+  const result = await fetchWithAuth('/api/notifications/preferences', {}, token);
+  return { preferences: result.preferences, emailFrequency: result.email?.frequency || 'immediate' };
+}
+
+/**
+ * Switch notification types on or off per channel, or change how often
+ * emails are sent
+ */
+export async function updateNotificationPreferences(
+  token: string,
+  changes: { preferences?: NotificationPreferenceChange[]; emailFrequency?: NotificationSettings['emailFrequency'] }
+): Promise<NotificationSettings> {
+  const result = await fetchWithAuth('/api/notifications/preferences', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  }, token);
+  return { preferences: result.preferences, emailFrequency: result.email?.frequency || 'immediate' };
+}
+
 /**
  * Fetch SOP details with steps and media for preview
  */
@@ -509,7 +1303,8 @@ export async function fetchSopDetailsForPreview(
 export async function uploadStepMedia(
   token: string, 
   stepId: string, 
-  file: File
+  file: File,
+  caption?: string
 ): Promise<Media> {
   try {
     // Create a new Supabase client
@@ -546,6 +1341,9 @@ export async function uploadStepMedia(
     const formData = new FormData();
     formData.append('file', file);
     formData.append('stepId', stepId);
+    if (caption) {
+      formData.append('caption', caption);
+    }
     
     const response = await fetch('/api/media/upload', {
       method: 'POST',
@@ -0,0 +1,26 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { AuditLog } from '@/types/database.types';
+
+export type AuditLogEntry = Omit<AuditLog, 'id' | 'created_at'>;
+
+/**
+ * Write an entry to the `audit_logs` table
+ * Failures are logged rather than thrown so the audited action itself is not rolled back
+ */
+export async function recordAuditLog(supabase: SupabaseClient, entry: AuditLogEntry): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('audit_logs')
+      .insert({
+        ...entry,
+        created_at: new Date().toISOString()
+      });
+    
+    if (error) {
+      logger.error('Failed to write audit log entry:', { error, entry });
+    }
+  } catch (error) {
+    logger.error('Unexpected error writing audit log entry:', { error, entry });
+  }
+}
@@ -2,12 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 
+/**
+ * Dynamic segments of a route (e.g. `{ id: string }` for `[id]`)
+ */
+export type RouteParams = Record<string, string>;
+
+/**
+ * Route context passed by Next.js to dynamic route handlers (e.g. `[id]`)
+ */
+export type RouteContext<P extends RouteParams = RouteParams> = {
+  params: P;
+};
+
 /**
  * Type for API handler functions with authentication
  */
-export type AuthenticatedApiHandler = (
+export type AuthenticatedApiHandler<P extends RouteParams = RouteParams> = (
   req: NextRequest, 
   userId: string,
+  context: RouteContext<P>,
   userRole?: string
 ) => Promise<NextResponse>;
 
@@ -24,8 +37,9 @@ export type AdminApiHandler = (
  * @param handler The API handler function
  * @returns A function that first checks authentication
  */
-export function withAuth(handler: AuthenticatedApiHandler) {
-  return async function(req: NextRequest): Promise<NextResponse> {
+export function withAuth<P extends RouteParams = RouteParams>(handler: AuthenticatedApiHandler<P>) {
+  // Routes without dynamic segments get no context from Next.js
+  return async function(req: NextRequest, context: RouteContext<P> = { params: {} as P }): Promise<NextResponse> {
     try {
       // Get the Supabase auth client
       const supabase = createRouteHandlerClient({ cookies });
@@ -56,8 +70,8 @@ export function withAuth(handler: AuthenticatedApiHandler) {
         console.warn('Could not retrieve user role:', e);
       }
       
-      // Call the handler with user ID
-      return handler(req, session.user.id, userRole);
+      // Call the handler with user ID and the route context (dynamic params)
+      return handler(req, session.user.id, context, userRole);
     } catch (error) {
       console.error('API Auth Exception:', error);
       return NextResponse.json(
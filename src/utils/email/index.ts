@@ -0,0 +1,108 @@
+import { ApiError } from '@/utils/api-errors';
+import { ConsoleTransport, FileTransport } from '@/utils/email/local-transports';
+import { SmtpTransport } from '@/utils/email/smtp-transport';
+import { EMAIL_TRANSPORT_NAMES, EmailTransport, EmailTransportName } from '@/utils/email/types';
+
+export * from '@/utils/email/types';
+export { ConsoleTransport, FileTransport } from '@/utils/email/local-transports';
+export { SmtpTransport } from '@/utils/email/smtp-transport';
+
+/**
+ * Email configuration comes from the environment:
+ *
+ *   EMAIL_TRANSPORT        smtp | file | console (default console)
+ *   EMAIL_FROM             sender, e.g. "SOP Maker <no-reply@example.com>"
+ *
+ *   SMTP_HOST, SMTP_PORT   smtp: server (port default 587, or 465 with SMTP_SECURE)
+ *   SMTP_SECURE            smtp: true to use TLS from the start instead of STARTTLS
+ *   SMTP_USER, SMTP_PASS   smtp: credentials (optional); sent only after STARTTLS or over SMTP_SECURE
+ *   SMTP_TIMEOUT_MS        smtp: time each server reply may take (default 30000)
+ *   SMTP_CLIENT_NAME       smtp: host name sent with EHLO (default localhost)
+ *
+ *   EMAIL_FILE_DIR         file: directory the .eml files are written to (default .emails)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_FROM = 'SOP Maker <no-reply@localhost>';
+const DEFAULT_SMTP_TIMEOUT_MS = 30000;
+
+/**
+ * The selected email transport is missing configuration
+ */
+export class EmailConfigurationError extends ApiError {
+  constructor(message = 'Email is not configured') {
+    super(message, 503);
+    this.name = 'EmailConfigurationError';
+  }
+}
+
+function isTransportName(value: string): value is EmailTransportName {
+  return (EMAIL_TRANSPORT_NAMES as readonly string[]).includes(value);
+}
+
+export function resolveEmailTransportName(env: Env = process.env): EmailTransportName {
+  const name = (env.EMAIL_TRANSPORT || 'console').trim().toLowerCase();
+
+  if (!isTransportName(name)) {
+    throw new EmailConfigurationError(`Unknown email transport "${name}". Expected one of: ${EMAIL_TRANSPORT_NAMES.join(', ')}`);
+  }
+
+  return name;
+}
+
+/**
+ * Build a transport from its environment settings
+ */
+export function createEmailTransport(name: EmailTransportName, env: Env = process.env): EmailTransport {
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+
+  switch (name) {
+    case 'console':
+      return new ConsoleTransport({ from });
+
+    case 'file':
+      return new FileTransport({ dir: env.EMAIL_FILE_DIR || '.emails', from });
+
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new EmailConfigurationError('SMTP_HOST is required for the smtp email transport');
+      }
+
+      const secure = env.SMTP_SECURE === 'true';
+      const port = Number(env.SMTP_PORT);
+      const timeoutMs = Number(env.SMTP_TIMEOUT_MS);
+
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number.isInteger(port) && port > 0 ? port : secure ? 465 : 587,
+        secure,
+        startTls: true,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+        from,
+        clientName: env.SMTP_CLIENT_NAME || 'localhost',
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_SMTP_TIMEOUT_MS
+      });
+    }
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The shared transport notification emails are sent with
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport(resolveEmailTransportName());
+  }
+  return transport;
+}
+
+/**
+ * Replace (or with null, reset) the shared transport; for tests
+ */
+export function setEmailTransport(replacement: EmailTransport | null): void {
+  transport = replacement;
+}
@@ -0,0 +1,47 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { logger } from '@/utils/logger';
+import { buildMimeMessage, createMessageId } from '@/utils/email/mime';
+import { EmailMessage, EmailSendResult, EmailTransport } from '@/utils/email/types';
+
+/**
+ * Writes each message as an .eml file, for development and tests without a
+ * mail server; open the files in any mail client
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly options: { dir: string; from: string }) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = createMessageId(this.options.from);
+    const date = new Date();
+    const filename = `${date.toISOString().replace(/[:.]/g, '-')}-${messageId.slice(1, 9)}.eml`;
+
+    await mkdir(this.options.dir, { recursive: true });
+    await writeFile(path.join(this.options.dir, filename), buildMimeMessage(this.options.from, message, { messageId, date }));
+
+    return { messageId };
+  }
+}
+
+/**
+ * Logs the recipient, subject and text of each message instead of sending it
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console' as const;
+
+  constructor(private readonly options: { from: string }) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = createMessageId(this.options.from);
+    logger.info('Email (console transport)', {
+      messageId,
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+    return { messageId };
+  }
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { EmailMessage } from '@/utils/email/types';
+
+/**
+ * Builds the raw RFC 5322 message the SMTP and file transports send or
+ * write: a multipart/alternative with the text and HTML bodies, both
+ * base64-encoded so any content survives SMTP unchanged.
+ */
+
+const LINE_LENGTH = 76;
+
+/** Strip line breaks so header values cannot add headers */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+export function encodeHeaderWord(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let offset = 0; offset < encoded.length; offset += LINE_LENGTH) {
+    lines.push(encoded.slice(offset, offset + LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * The address part of `Name <address>` or of a bare address
+ */
+export function emailAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^<>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+export function createMessageId(from: string): string {
+  const domain = emailAddress(from).split('@')[1] || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+}
+
+export function buildMimeMessage(
+  from: string,
+  message: EmailMessage,
+  options: { messageId: string; date?: Date }
+): string {
+  const boundary = `=_${randomUUID().replace(/-/g, '')}`;
+  const headers: [string, string][] = [
+    ['From', headerValue(from)],
+    ['To', headerValue(message.to)],
+    ['Subject', encodeHeaderWord(message.subject)],
+    ['Date', (options.date || new Date()).toUTCString()],
+    ['Message-ID', options.messageId],
+    ['MIME-Version', '1.0'],
+    ...Object.entries(message.headers || {}).map(([name, value]): [string, string] => [headerValue(name), headerValue(value)]),
+    ['Content-Type', `multipart/alternative; boundary="${boundary}"`]
+  ];
+
+  return [
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it } from '@jest/globals';
+import net from 'net';
+import { EmailDeliveryError } from './types';
+import { SmtpTransport } from './smtp-transport';
+
+describe('SmtpTransport', () => {
+  let server: net.Server;
+  let commands: string[];
+  let data: string;
+
+  // An SMTP server stand-in; `rcptReply` is the answer to RCPT TO
+  const listen = (rcptReply = '250 OK') => new Promise<number>(resolve => {
+    commands = [];
+    data = '';
+    server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+
+      socket.write('220 mail.test ready\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8');
+
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          data = buffer.slice(0, end + 2);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+        }
+
+        let newline: number;
+        while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          commands.push(line);
+
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-mail.test\r\n250 AUTH PLAIN\r\n');
+          else if (verb === 'AUTH') socket.write('235 authenticated\r\n');
+          else if (verb === 'MAIL') socket.write('250 OK\r\n');
+          else if (verb === 'RCPT') socket.write(`${rcptReply}\r\n`);
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('502 command not implemented\r\n');
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+
+  // The stand-in has no TLS, so STARTTLS is switched off unless a test asks for it
+  const transport = (port: number, startTls = false) => new SmtpTransport({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    startTls,
+    user: 'mailer',
+    pass: 'secret',
+    from: 'SOP Maker <no-reply@sop.test>',
+    clientName: 'sop.test',
+    timeoutMs: 5000
+  });
+
+  const message = {
+    to: 'Ada <ada@example.com>',
+    subject: 'Review requested',
+    html: '<p>Hello</p>',
+    text: '.starts with a dot'
+  };
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+  });
+
+  it('authenticates and sends the message', async () => {
+    const port = await listen();
+
+    const { messageId } = await transport(port).send(message);
+
+    expect(messageId).toMatch(/^<.+@sop\.test>$/);
+    // QUIT may still be on its way
+    expect(commands.slice(0, 5)).toEqual([
+      'EHLO sop.test',
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<no-reply@sop.test>',
+      'RCPT TO:<ada@example.com>',
+      'DATA'
+    ]);
+    expect(data).toContain('To: Ada <ada@example.com>');
+    expect(data).toContain(`Message-ID: ${messageId}`);
+    expect(data).toContain(Buffer.from(message.text).toString('base64'));
+  });
+
+  it('fails permanently when the server refuses the recipient', async () => {
+    const port = await listen('550 no such user');
+
+    const error = await transport(port).send(message).catch(err => err);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.permanent).toBe(true);
+    expect(error.message).toContain('550 no such user');
+  });
+
+  it('does not send credentials when the server does not switch to TLS', async () => {
+    const port = await listen();
+
+    const error = await transport(port, true).send(message).catch(err => err);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.message).toContain('did not switch to TLS');
+    expect(commands).toContain('STARTTLS');
+    expect(commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('fails temporarily when the server cannot be reached', async () => {
+    const port = await listen();
+    await new Promise(resolve => server.close(resolve));
+
+    const error = await transport(port).send(message).catch(err => err);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.permanent).toBe(false);
+  });
+});
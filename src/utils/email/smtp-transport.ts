@@ -0,0 +1,87 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { type SMTPError } from 'nodemailer/lib/smtp-connection';
+import { buildMimeMessage, createMessageId, emailAddress } from '@/utils/email/mime';
+import { EmailDeliveryError, EmailMessage, EmailSendResult, EmailTransport } from '@/utils/email/types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465) instead of upgrading with STARTTLS */
+  secure: boolean;
+  /**
+   * Upgrade with STARTTLS. With credentials the upgrade is required, so they
+   * are never sent in cleartext; without, it is used when the server offers it.
+   */
+  startTls: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  /** Name sent with EHLO */
+  clientName: string;
+  timeoutMs: number;
+}
+
+/**
+ * Turn a nodemailer error into an EmailDeliveryError; 5xx replies (such as an
+ * unknown recipient) are permanent
+ */
+function deliveryError(error: unknown, host: string, port: number): EmailDeliveryError {
+  const smtpError = error as SMTPError;
+
+  if (smtpError.code === 'ETLS') {
+    return new EmailDeliveryError(`SMTP server ${host}:${port} did not switch to TLS; credentials were not sent`);
+  }
+  if (smtpError.responseCode) {
+    return new EmailDeliveryError(
+      `SMTP ${smtpError.command?.split(' ')[0] || 'command'} failed: ${smtpError.response}`,
+      { permanent: smtpError.responseCode >= 500 }
+    );
+  }
+  if (smtpError.code === 'ECONNECTION' || smtpError.code === 'ESOCKET' || smtpError.code === 'ETIMEDOUT') {
+    return new EmailDeliveryError(`Could not connect to SMTP server ${host}:${port}: ${smtpError.message}`);
+  }
+  return new EmailDeliveryError(`SMTP delivery failed: ${smtpError.message || String(error)}`);
+}
+
+/**
+ * Sends email through an SMTP server with nodemailer, over STARTTLS or
+ * implicit TLS. One connection per message.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    const { host, port, secure, startTls, user, pass, clientName, timeoutMs } = options;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      ignoreTLS: !secure && !startTls,
+      requireTLS: !secure && startTls && !!user,
+      auth: user ? { user, pass: pass || '' } : undefined,
+      name: clientName,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { host, port, from } = this.options;
+    const messageId = createMessageId(from);
+
+    try {
+      // The message is built here, like for the other transports, and sent as is
+      await this.transporter.sendMail({
+        envelope: { from: emailAddress(from), to: [emailAddress(message.to)] },
+        raw: buildMimeMessage(from, message, { messageId })
+      });
+    } catch (error) {
+      throw deliveryError(error, host, port);
+    }
+
+    return { messageId };
+  }
+}
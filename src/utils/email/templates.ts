@@ -0,0 +1,127 @@
+import { NOTIFICATION_TYPES } from '@/utils/notification-types';
+import { NotificationEmail } from '@/types/database.types';
+
+/**
+ * HTML and plain-text templates of the notification emails. Every message
+ * carries the links to unsubscribe and to the notification settings.
+ */
+
+export type NotificationEmailItem = Pick<NotificationEmail, 'type' | 'content' | 'url' | 'created_at'>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailLinks {
+  /** Base URL of the app, without a trailing slash */
+  appUrl: string;
+  /** Stops every notification email */
+  unsubscribeUrl: string;
+  /** Stops emails of the type of a single notification */
+  unsubscribeTypeUrl?: string;
+}
+
+const MAX_SUBJECT_LENGTH = 120;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function typeLabel(type: NotificationEmailItem['type']): string {
+  return NOTIFICATION_TYPES.find(candidate => candidate.type === type)?.label || 'Notifications';
+}
+
+function itemUrl(item: NotificationEmailItem, appUrl: string): string {
+  return `${appUrl}${item.url || '/'}`;
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function layout(body: string, links: EmailLinks): string {
+  const unsubscribe = links.unsubscribeTypeUrl
+    ? `<a href="${escapeHtml(links.unsubscribeTypeUrl)}" style="color:#64748b">Unsubscribe from these emails</a> · <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#64748b">all notification emails</a>`
+    : `<a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#64748b">Unsubscribe from notification emails</a>`;
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#0f172a">
+<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:8px">
+<tr><td style="padding:24px">
+<p style="margin:0 0 16px;font-size:14px;font-weight:600;color:#4f46e5">SOP Maker</p>
+${body}
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e2e8f0;font-size:12px;color:#64748b">
+${unsubscribe} · <a href="${escapeHtml(links.appUrl)}/profile#notifications" style="color:#64748b">Notification settings</a>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function textFooter(links: EmailLinks): string {
+  return [
+    '--',
+    links.unsubscribeTypeUrl ? `Unsubscribe from these emails: ${links.unsubscribeTypeUrl}` : null,
+    `Unsubscribe from all notification emails: ${links.unsubscribeUrl}`,
+    `Notification settings: ${links.appUrl}/profile#notifications`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * One notification sent on its own
+ */
+export function renderNotificationEmail(item: NotificationEmailItem, links: EmailLinks): RenderedEmail {
+  const url = itemUrl(item, links.appUrl);
+
+  const body = `<p style="margin:0 0 8px;font-size:12px;text-transform:uppercase;letter-spacing:.05em;color:#64748b">${escapeHtml(typeLabel(item.type))}</p>
+<p style="margin:0 0 20px;font-size:16px;line-height:1.5">${escapeHtml(item.content)}</p>
+<a href="${escapeHtml(url)}" style="display:inline-block;padding:8px 16px;background:#4f46e5;color:#ffffff;border-radius:6px;text-decoration:none;font-size:14px">Open in SOP Maker</a>`;
+
+  return {
+    subject: truncate(item.content, MAX_SUBJECT_LENGTH),
+    html: layout(body, links),
+    text: `${item.content}\n\nOpen in SOP Maker: ${url}\n\n${textFooter(links)}\n`
+  };
+}
+
+/**
+ * A user's notifications gathered into one message, grouped by type
+ */
+export function renderDigestEmail(items: NotificationEmailItem[], links: EmailLinks): RenderedEmail {
+  const groups = NOTIFICATION_TYPES
+    .map(({ type, label }) => ({ label, items: items.filter(item => item.type === type) }))
+    .filter(group => group.items.length > 0);
+
+  const body = `<p style="margin:0 0 16px;font-size:16px">Here is what happened since your last digest.</p>
+${groups.map(group => `<h2 style="margin:20px 0 8px;font-size:14px;color:#334155">${escapeHtml(group.label)}</h2>
+<ul style="margin:0;padding-left:20px;font-size:14px;line-height:1.6">
+${group.items.map(item => `<li><a href="${escapeHtml(itemUrl(item, links.appUrl))}" style="color:#0f172a">${escapeHtml(item.content)}</a></li>`).join('\n')}
+</ul>`).join('\n')}`;
+
+  const text = [
+    'Here is what happened since your last digest.',
+    ...groups.map(group => [
+      '',
+      group.label,
+      ...group.items.map(item => `- ${item.content}\n  ${itemUrl(item, links.appUrl)}`)
+    ].join('\n')),
+    '',
+    textFooter(links),
+    ''
+  ].join('\n');
+
+  return {
+    subject: `Your SOP Maker digest: ${items.length} notification${items.length === 1 ? '' : 's'}`,
+    html: layout(body, links),
+    text
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Shared types for the pluggable email transports
+ */
+
+export const EMAIL_TRANSPORT_NAMES = ['smtp', 'file', 'console'] as const;
+
+export type EmailTransportName = typeof EMAIL_TRANSPORT_NAMES[number];
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  /** Message-ID header of the sent message */
+  messageId: string;
+}
+
+/**
+ * Sends email
+ * Implementations throw EmailDeliveryError when a message is not accepted.
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * A message was not accepted. Permanent failures (an SMTP 5xx reply, such
+ * as an unknown recipient) are not retried.
+ */
+export class EmailDeliveryError extends Error {
+  readonly permanent: boolean;
+
+  constructor(message: string, options: { permanent?: boolean } = {}) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+    this.permanent = options.permanent ?? false;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseSopMarkdown, renderSopMarkdown } from './sop-markdown';
+import { renderSopDocx, parseSopDocx } from './sop-docx';
+import { SopDocument } from './sop-document';
+
+const document: SopDocument = {
+  title: 'Lockout / Tagout: "Line 3"',
+  category: 'Safety',
+  description: 'Isolate hazardous energy before maintenance.\n\n# Not a heading\n- **Bold:** not a field',
+  stakeholders: 'Maintenance technicians\nShift supervisors',
+  definitions: 'LOTO: lockout/tagout\n\\Backslash line',
+  version: 4,
+  steps: [
+    {
+      title: 'Notify operators',
+      instructions: 'Tell everyone on the line.\n\n1. Operators\n2. Cleaners\n![not media](x)',
+      role: 'Supervisor',
+      safety_notes: 'Wear PPE\nKeep the area clear',
+      verification: '',
+      media: [
+        { type: 'image', url: 'https://example.com/a b.png', caption: 'Panel [left]' },
+        { type: 'video', url: 'https://example.com/v.mp4', caption: '' },
+        { type: 'document', url: 'https://example.com/manual.pdf?x=1&y=2', caption: 'Manual' },
+      ],
+    },
+    {
+      title: '',
+      instructions: 'Apply\ttags & locks <now>',
+      role: '',
+      safety_notes: '',
+      verification: 'Try to start the machine',
+      media: [],
+    },
+  ],
+};
+
+describe('renderSopMarkdown / parseSopMarkdown', () => {
+  it('round-trips an SOP unchanged', () => {
+    const markdown = renderSopMarkdown(document);
+
+    expect(markdown.startsWith('---\ntitle: "Lockout / Tagout: \\"Line 3\\""\ncategory: "Safety"\n')).toBe(true);
+    expect(parseSopMarkdown(markdown)).toEqual(document);
+    expect(renderSopMarkdown(parseSopMarkdown(markdown))).toBe(markdown);
+  });
+
+  it('reads hand-written Markdown with a numbered procedure', () => {
+    const parsed = parseSopMarkdown([
+      '---',
+      'title: Daily line check',
+      'stakeholders: |',
+      '  Operators',
+      '  Team leads',
+      '---',
+      '',
+      'Check the line before the first shift.',
+      '',
+      '## Steps',
+      '',
+      '1. Walk the line',
+      '   and look for leaks',
+      '2. Record the pressure',
+    ].join('\n'));
+
+    expect(parsed.title).toBe('Daily line check');
+    expect(parsed.stakeholders).toBe('Operators\nTeam leads');
+    expect(parsed.description).toBe('Check the line before the first shift.');
+    expect(parsed.steps.map(step => step.instructions)).toEqual(['Walk the line\nand look for leaks', 'Record the pressure']);
+  });
+});
+
+describe('renderSopDocx / parseSopDocx', () => {
+  it('round-trips an SOP unchanged', async () => {
+    const docx = await renderSopDocx(document);
+
+    expect(docx.subarray(0, 2).toString('latin1')).toBe('PK');
+    expect(await parseSopDocx(docx)).toEqual(document);
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    await expect(parseSopDocx(Buffer.from('plain text'))).rejects.toThrow();
+  });
+});
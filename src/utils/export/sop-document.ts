@@ -0,0 +1,125 @@
+import { Media, MediaType, SOP, Step } from '@/types/database.types';
+
+/**
+ * Media reference carried by a portable SOP document
+ */
+export interface SopDocumentMedia {
+  type: MediaType;
+  url: string;
+  caption: string;
+}
+
+export interface SopDocumentStep {
+  title: string;
+  instructions: string;
+  role: string;
+  safety_notes: string;
+  verification: string;
+  media: SopDocumentMedia[];
+}
+
+/**
+ * Format-neutral SOP used by the Markdown and DOCX exporters and importers.
+ * Text fields are trimmed with normalised line endings and never null, so a
+ * document survives an export/import round trip unchanged.
+ */
+export interface SopDocument {
+  title: string;
+  category: string;
+  description: string;
+  stakeholders: string;
+  definitions: string;
+  version: number;
+  steps: SopDocumentStep[];
+}
+
+/**
+ * The SOP and step/media shape returned by fetchSopDetailsForPreview
+ * (and by loadSopExportData on the server)
+ */
+export interface SopDocumentSource {
+  sop: SOP & { stakeholders?: string | null; definitions?: string | null };
+  steps: (Step & { title?: string; media: Media[] })[];
+}
+
+/**
+ * Trim a text field and normalise its line endings
+ */
+export function cleanText(value: string | null | undefined): string {
+  return (value || '').replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+/**
+ * Build a portable document from loaded SOP data, keeping step order
+ */
+export function toSopDocument({ sop, steps }: SopDocumentSource): SopDocument {
+  return normalizeSopDocument({
+    title: sop.title,
+    category: sop.category || '',
+    description: sop.description || '',
+    stakeholders: sop.stakeholders || '',
+    definitions: sop.definitions || '',
+    version: sop.version,
+    steps: [...steps]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(step => ({
+        title: step.title || step.name || '',
+        instructions: step.instructions || '',
+        role: step.role || '',
+        safety_notes: step.safety_notes || '',
+        verification: step.verification || '',
+        media: step.media
+          .filter(item => item.url)
+          .map(item => ({ type: item.type, url: item.url, caption: item.caption || '' })),
+      })),
+  });
+}
+
+/**
+ * Apply the text and version rules every exporter and importer relies on
+ */
+export function normalizeSopDocument(document: SopDocument): SopDocument {
+  const version = Math.floor(Number(document.version));
+
+  return {
+    title: cleanText(document.title).replace(/\s*\n\s*/g, ' '),
+    category: cleanText(document.category).replace(/\s*\n\s*/g, ' '),
+    description: cleanText(document.description),
+    stakeholders: cleanText(document.stakeholders),
+    definitions: cleanText(document.definitions),
+    version: Number.isFinite(version) && version > 0 ? version : 1,
+    steps: document.steps.map(step => ({
+      title: cleanText(step.title).replace(/\s*\n\s*/g, ' '),
+      instructions: cleanText(step.instructions),
+      role: cleanText(step.role),
+      safety_notes: cleanText(step.safety_notes),
+      verification: cleanText(step.verification),
+      media: step.media.map(item => ({
+        type: item.type,
+        url: item.url.trim(),
+        caption: cleanText(item.caption).replace(/\s*\n\s*/g, ' '),
+      })),
+    })),
+  };
+}
+
+/**
+ * Problems that would stop a document from being imported, checked before
+ * anything is created so an import is never left half done
+ * @returns one message per problem; empty when the document can be imported
+ */
+export function validateSopDocument(document: SopDocument): string[] {
+  const problems: string[] = [];
+
+  if (!document.title) {
+    problems.push('The file has no title. Add a title (front matter or first heading) and try again.');
+  }
+
+  document.steps.forEach((step, index) => {
+    if (!step.title && !step.instructions) {
+      problems.push(`Step ${index + 1} has no title or instructions.`);
+    }
+  });
+
+  return problems;
+}
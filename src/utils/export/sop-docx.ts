@@ -0,0 +1,391 @@
+import { MediaType } from '@/types/database.types';
+import JSZip from 'jszip';
+import {
+  SopDocument,
+  SopDocumentStep,
+  normalizeSopDocument,
+} from '@/utils/export/sop-document';
+
+/**
+ * Word (.docx) export and import for SOPs.
+ * Sections use the built-in Title / Heading 1 / Heading 2 styles so the file
+ * reads naturally in Word and the same structure can be parsed back.
+ */
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const HYPERLINK_TYPE = `${R_NS}/hyperlink`;
+// Upper bound for a single decompressed part, so a zip bomb cannot exhaust memory
+const MAX_PART_BYTES = 50 * 1024 * 1024;
+
+type StepField = 'role' | 'safety_notes' | 'verification';
+
+const FIELD_LABELS: [StepField, string][] = [
+  ['role', 'Role'],
+  ['safety_notes', 'Safety notes'],
+  ['verification', 'Verification'],
+];
+
+const MEDIA_LABELS: Record<MediaType, string> = {
+  image: 'Image',
+  video: 'Video',
+  document: 'Document',
+};
+
+const PROCEDURE_HEADINGS = ['procedure', 'steps', 'procedure steps'];
+
+type ParagraphStyle = 'Title' | 'Heading1' | 'Heading2' | null;
+
+/**
+ * Paragraph read back from document.xml
+ */
+interface DocxParagraph {
+  style: ParagraphStyle;
+  numbered: boolean;
+  text: string;
+  /** Text of the leading bold run, used for "Label:" paragraphs */
+  boldPrefix: string;
+  link: string | null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function run(text: string, bold = false): string {
+  const properties = bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  const content = text
+    .split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${properties}${content}</w:r>`;
+}
+
+function paragraph(runs: string, style: ParagraphStyle = null): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}${runs}</w:p>`;
+}
+
+/**
+ * One paragraph per line so multi-line text edits naturally in Word
+ */
+function textParagraphs(text: string): string[] {
+  return text.split('\n').map(line => paragraph(line ? run(line) : ''));
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="264D99"/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+/**
+ * Render an SOP as a Word document. Category and version are stored in the
+ * document properties; media are written as hyperlinks to their URLs.
+ */
+export async function renderSopDocx(input: SopDocument): Promise<Buffer> {
+  const document = normalizeSopDocument(input);
+  const links: string[] = [];
+  const body: string[] = [paragraph(run(document.title), 'Title')];
+
+  const linkParagraph = (label: string, url: string) => {
+    links.push(url);
+    return paragraph(
+      `<w:hyperlink r:id="rIdLink${links.length}"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${escapeXml(label)}</w:t></w:r></w:hyperlink>`
+    );
+  };
+
+  if (document.category) body.push(paragraph(run(`Category: ${document.category}`, true)));
+  if (document.description) body.push(...textParagraphs(document.description));
+
+  if (document.stakeholders) {
+    body.push(paragraph(run('Stakeholders'), 'Heading1'), ...textParagraphs(document.stakeholders));
+  }
+
+  if (document.definitions) {
+    body.push(paragraph(run('Definitions'), 'Heading1'), ...textParagraphs(document.definitions));
+  }
+
+  body.push(paragraph(run('Procedure'), 'Heading1'));
+
+  document.steps.forEach((step, index) => {
+    body.push(paragraph(run(step.title ? `Step ${index + 1}: ${step.title}` : `Step ${index + 1}`), 'Heading2'));
+    if (step.instructions) body.push(...textParagraphs(step.instructions));
+
+    for (const [key, label] of FIELD_LABELS) {
+      if (step[key]) body.push(paragraph(run(`${label}: `, true) + run(step[key])));
+    }
+
+    for (const item of step.media) {
+      const label = item.caption ? `${MEDIA_LABELS[item.type]}: ${item.caption}` : MEDIA_LABELS[item.type];
+      body.push(linkParagraph(label, item.url));
+    }
+  });
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="${R_NS}/styles" Target="styles.xml"/>${links
+    .map((url, index) => `<Relationship Id="rIdLink${index + 1}" Type="${HYPERLINK_TYPE}" Target="${escapeXml(url)}" TargetMode="External"/>`)
+    .join('')}</Relationships>`;
+
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(document.title)}</dc:title>${
+    document.category ? `<cp:category>${escapeXml(document.category)}</cp:category>` : ''
+  }<cp:version>${document.version}</cp:version></cp:coreProperties>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`);
+  zip.file('word/document.xml', documentXml);
+  zip.file('word/_rels/document.xml.rels', documentRels);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('docProps/core.xml', coreXml);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+function toStyle(styleId: string | undefined): ParagraphStyle {
+  if (!styleId) return null;
+  const id = styleId.toLowerCase().replace(/\s+/g, '');
+  if (id === 'title') return 'Title';
+  if (id === 'heading1' || id === 'berschrift1' || id === 'titre1') return 'Heading1';
+  if (/^heading[2-9]$/.test(id) || id === 'berschrift2' || id === 'titre2') return 'Heading2';
+  return null;
+}
+
+/**
+ * Extract paragraphs in document order with their style, text and any link
+ */
+function readParagraphs(documentXml: string, relationships: Record<string, string>): DocxParagraph[] {
+  const paragraphs: DocxParagraph[] = [];
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? documentXml;
+
+  for (const [xml] of body.matchAll(/<w:p(?:\s[^>]*)?\/>|<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g)) {
+    const styleId = xml.match(/<w:pStyle\s+w:val="([^"]*)"/)?.[1];
+    let text = '';
+    let boldPrefix = '';
+    let boldOpen = true;
+    let link: string | null = null;
+
+    for (const [runXml] of xml.matchAll(/<w:hyperlink\b[^>]*>|<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g)) {
+      if (runXml.startsWith('<w:hyperlink')) {
+        const id = runXml.match(/r:id="([^"]*)"/)?.[1];
+        if (id && relationships[id]) link = relationships[id];
+        continue;
+      }
+
+      let runText = '';
+      for (const token of runXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(br|cr|tab)\b[^>]*\/>/g)) {
+        if (token[2] === 'tab') {
+          runText += '\t';
+        } else if (token[2]) {
+          runText += '\n';
+        } else {
+          runText += decodeXml(token[1]);
+        }
+      }
+
+      const bold = /<w:b(?:\s+w:val="(?:1|true|on)")?\s*\/>/.test(runXml.match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] ?? '');
+      if (boldOpen && bold) {
+        boldPrefix += runText;
+      } else if (runText) {
+        boldOpen = false;
+      }
+      text += runText;
+    }
+
+    paragraphs.push({
+      style: toStyle(styleId),
+      numbered: /<w:numPr>/.test(xml),
+      text,
+      boldPrefix: boldPrefix.trim(),
+      link,
+    });
+  }
+
+  return paragraphs;
+}
+
+function readCoreProperty(coreXml: string, tag: string): string {
+  const match = coreXml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]).trim() : '';
+}
+
+/**
+ * Read one part of the package as text, giving up once it inflates past
+ * MAX_PART_BYTES
+ */
+function readPart(zip: JSZip, name: string): Promise<string | undefined> {
+  const entry = zip.file(name);
+  if (!entry) return Promise.resolve(undefined);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PART_BYTES) {
+        stream.pause();
+        stream.removeAllListeners();
+        reject(new Error(`${name} is too large`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Parse a Word document (as written by renderSopDocx, or a legacy procedure
+ * using Title / Heading styles and numbered lists) into a portable SOP document.
+ * Throws when the file is not a readable .docx package.
+ */
+export async function parseSopDocx(buffer: Buffer): Promise<SopDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await readPart(zip, 'word/document.xml');
+
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const relationships: Record<string, string> = {};
+  for (const [, attributes] of ((await readPart(zip, 'word/_rels/document.xml.rels')) || '').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = attributes.match(/\bId="([^"]*)"/)?.[1];
+    const target = attributes.match(/\bTarget="([^"]*)"/)?.[1];
+    if (id && target && attributes.includes(HYPERLINK_TYPE)) relationships[id] = decodeXml(target);
+  }
+
+  const core = (await readPart(zip, 'docProps/core.xml')) || '';
+  const document: SopDocument = {
+    title: readCoreProperty(core, 'dc:title'),
+    category: readCoreProperty(core, 'cp:category'),
+    description: '',
+    stakeholders: '',
+    definitions: '',
+    version: Number(readCoreProperty(core, 'cp:version')) || 1,
+    steps: [],
+  };
+
+  const paragraphs = readParagraphs(documentXml, relationships);
+  const titleIndex = paragraphs.findIndex(item => item.style === 'Title');
+  const firstText = paragraphs.findIndex(item => item.text.trim());
+  // Without a Title paragraph the document properties name the SOP; failing that, the first line does
+  const headingIndex = titleIndex >= 0 ? titleIndex : document.title ? -1 : firstText;
+  if (headingIndex >= 0) {
+    document.title = paragraphs[headingIndex].text.trim() || document.title;
+  }
+
+  const description: string[] = [];
+  const stakeholders: string[] = [];
+  const definitions: string[] = [];
+  let section: 'description' | 'stakeholders' | 'definitions' | 'procedure' | 'other' = 'description';
+  let step: SopDocumentStep | null = null;
+  let stepFromList = false;
+  let stepLines: string[] = [];
+  let field: StepField | null = null;
+
+  const finishStep = () => {
+    if (step) {
+      step.instructions = stepLines.join('\n');
+      document.steps.push(step);
+    }
+    step = null;
+    stepLines = [];
+    field = null;
+  };
+  const startStep = (title: string, fromList = false): SopDocumentStep => {
+    finishStep();
+    step = { title, instructions: '', role: '', safety_notes: '', verification: '', media: [] };
+    stepFromList = fromList;
+    return step;
+  };
+
+  paragraphs.forEach((item, index) => {
+    if (index <= headingIndex) return;
+
+    if (item.style === 'Heading1') {
+      finishStep();
+      const heading = item.text.trim().toLowerCase();
+      section = PROCEDURE_HEADINGS.includes(heading)
+        ? 'procedure'
+        : heading === 'stakeholders' || heading === 'definitions' ? heading : 'other';
+      // Keep unrecognised sections rather than dropping their content
+      if (section === 'other') description.push('', item.text.trim(), '');
+      return;
+    }
+
+    if (section !== 'procedure') {
+      const category = item.boldPrefix.startsWith('Category:') ? item.text.match(/^Category:\s*(.*)$/) : null;
+      if (section === 'description' && category) {
+        document.category = document.category || category[1];
+      } else {
+        (section === 'stakeholders' ? stakeholders : section === 'definitions' ? definitions : description).push(item.text);
+      }
+      return;
+    }
+
+    if (item.style === 'Heading2') {
+      const heading = item.text.trim();
+      const numbered = heading.match(/^Step\s+\d+\s*(?::\s*(.*))?$/i);
+      startStep(numbered ? numbered[1] || '' : heading);
+      return;
+    }
+
+    // Legacy documents without step headings: each numbered list paragraph is a step
+    if (item.numbered && (!step || stepFromList)) {
+      startStep('', true);
+      stepLines.push(item.text);
+      return;
+    }
+
+    const current = step ?? startStep('');
+    const mediaLabel = item.text.trim().match(/^(Image|Video|Document)(?::\s*(.*))?$/);
+    const fieldLabel = FIELD_LABELS.find(([, label]) => item.boldPrefix.replace(/:$/, '') === label);
+
+    if (item.link && mediaLabel) {
+      const type = (Object.keys(MEDIA_LABELS) as MediaType[]).find(key => MEDIA_LABELS[key] === mediaLabel[1])!;
+      current.media.push({ type, url: item.link, caption: mediaLabel[2] || '' });
+      field = null;
+    } else if (fieldLabel) {
+      field = fieldLabel[0];
+      current[field] = item.text.slice(item.text.indexOf(':') + 1).trim();
+    } else if (!(field && item.text === '')) {
+      field = null;
+      stepLines.push(item.text);
+    }
+  });
+
+  finishStep();
+
+  document.description = description.join('\n');
+  document.stakeholders = stakeholders.join('\n');
+  document.definitions = definitions.join('\n');
+  return normalizeSopDocument(document);
+}
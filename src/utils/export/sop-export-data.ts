@@ -0,0 +1,231 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import type { Equipment, FiveSData } from '@/components/SOPWizard/types';
+import { Media, SOP, SopVersion, Step } from '@/types/database.types';
+import { getSopVersion } from '@/utils/sop-versions';
+
+/**
+ * SOP columns used by document exports beyond the base SOP type
+ */
+export type ExportSop = SOP & {
+  stakeholders?: string | null;
+  definitions?: string | null;
+  five_s?: Partial<FiveSData> | null;
+  published_at?: string | null;
+  document_number?: string | null;
+};
+
+export type ExportStep = Step & { title?: string; media: Media[] };
+
+/**
+ * Everything a document export renders: the same SOP and step/media shape
+ * the preview page loads, plus equipment, 5S data and document control fields
+ */
+export interface SopExportData {
+  sop: ExportSop;
+  steps: ExportStep[];
+  equipment: Equipment[];
+  fiveS: FiveSData | null;
+  documentNumber: string;
+  versionNumber: number;
+  effectiveDate: string | null;
+  /**
+   * Whether this is a controlled copy: the content of a published version.
+   * Working copies are rendered as uncontrolled drafts.
+   */
+  controlled: boolean;
+}
+
+export interface SopExportOptions {
+  /** Render this version instead of the latest published one */
+  versionNumber?: number | null;
+  /** Render the working copy, as an uncontrolled draft */
+  draft?: boolean;
+}
+
+export const FIVE_S_LABELS: Record<keyof FiveSData, string> = {
+  sort: 'Sort',
+  setInOrder: 'Set in Order',
+  shine: 'Shine',
+  standardize: 'Standardize',
+  sustain: 'Sustain',
+};
+
+/**
+ * Document number shown on controlled copies; falls back to an ID-derived number
+ */
+export function getDocumentNumber(sop: Pick<ExportSop, 'id' | 'document_number'>): string {
+  return sop.document_number || `SOP-${sop.id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Build a download filename from the SOP title
+ */
+export function exportFilename(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  return `${slug || 'sop'}.${extension}`;
+}
+
+/**
+ * Keep 5S data only when at least one field has content
+ */
+export function normalizeFiveS(value: Partial<FiveSData> | null | undefined): FiveSData | null {
+  if (!value) return null;
+  const fiveS: FiveSData = {
+    sort: value.sort?.trim() || '',
+    setInOrder: value.setInOrder?.trim() || '',
+    shine: value.shine?.trim() || '',
+    standardize: value.standardize?.trim() || '',
+    sustain: value.sustain?.trim() || '',
+  };
+  return Object.values(fiveS).some(Boolean) ? fiveS : null;
+}
+
+/**
+ * Equipment as captured in a snapshot (raw `sop_equipment` rows)
+ */
+function snapshotEquipment(rows: Record<string, unknown>[]): Equipment[] {
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return rows.map(row => ({
+    name: text(row.name),
+    description: text(row.description),
+    safety: text(row.safety),
+    maintenance: text(row.maintenance),
+  }));
+}
+
+/**
+ * The latest published version of an SOP, or null when it was never published
+ */
+async function latestPublishedVersion(supabase: SupabaseClient, sopId: string): Promise<SopVersion | null> {
+  const { data, error } = await supabase
+    .from('sop_versions')
+    .select('*')
+    .eq('sop_id', sopId)
+    .eq('source', 'publish')
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load published version for export: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? data[0] as SopVersion : null;
+}
+
+/**
+ * Load an SOP for export. Controlled copies show what was published: the
+ * latest published version (or `versionNumber`) with its steps, media and
+ * equipment as they were then. The working copy is loaded when asked for
+ * with `draft`, or when the SOP was never published, and is marked as a draft.
+ * Returns null when the SOP (or the requested version) does not exist.
+ */
+export async function loadSopExportData(
+  supabase: SupabaseClient,
+  sopId: string,
+  options: SopExportOptions = {}
+): Promise<SopExportData | null> {
+  const { data: sop, error: sopError } = await supabase
+    .from('sops')
+    .select('*')
+    .eq('id', sopId)
+    .single();
+
+  if (sopError) {
+    if (sopError.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to load SOP for export: ${sopError.message}`);
+  }
+
+  if (!options.draft) {
+    const version = options.versionNumber != null
+      ? await getSopVersion(supabase, sopId, options.versionNumber)
+      : await latestPublishedVersion(supabase, sopId);
+
+    if (version) {
+      return versionExportData(sop, version);
+    }
+    if (options.versionNumber != null) {
+      return null;
+    }
+  }
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('steps')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('order_index', { ascending: true });
+
+  if (stepsError) {
+    throw new Error(`Failed to load steps for export: ${stepsError.message}`);
+  }
+
+  const stepIds = (steps || []).map(step => step.id);
+  let media: Media[] = [];
+
+  if (stepIds.length > 0) {
+    const { data: mediaData, error: mediaError } = await supabase
+      .from('media')
+      .select('*')
+      .in('step_id', stepIds)
+      .order('created_at', { ascending: true });
+
+    if (mediaError) {
+      throw new Error(`Failed to load media for export: ${mediaError.message}`);
+    }
+
+    media = mediaData || [];
+  }
+
+  const { data: equipment, error: equipmentError } = await supabase
+    .from('sop_equipment')
+    .select('*')
+    .eq('sop_id', sopId);
+
+  if (equipmentError) {
+    // Equipment is optional; export without it rather than failing
+    logger.warn('Could not load equipment for SOP export', { error: equipmentError, sopId });
+  }
+
+  return {
+    sop,
+    steps: (steps || []).map(step => ({
+      ...step,
+      media: media.filter(item => item.step_id === step.id),
+    })),
+    equipment: (equipment || []) as Equipment[],
+    fiveS: normalizeFiveS(sop.five_s),
+    documentNumber: getDocumentNumber(sop),
+    versionNumber: sop.version ?? 1,
+    effectiveDate: null,
+    controlled: false,
+  };
+}
+
+/**
+ * Export data for a version snapshot; 5S data and the document number are
+ * not versioned and come from the SOP
+ */
+export function versionExportData(sop: ExportSop, version: SopVersion): SopExportData {
+  return {
+    sop: {
+      ...sop,
+      title: version.title,
+      description: version.description ?? undefined,
+      category: version.category ?? undefined,
+      stakeholders: version.stakeholders ?? undefined,
+      definitions: version.definitions ?? undefined,
+      version: version.version_number,
+    },
+    steps: [...version.steps]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(step => ({ ...step, created_at: version.created_at, updated_at: version.created_at })),
+    equipment: snapshotEquipment(version.equipment || []),
+    fiveS: normalizeFiveS(sop.five_s),
+    documentNumber: getDocumentNumber(sop),
+    versionNumber: version.version_number,
+    effectiveDate: version.created_at,
+    controlled: version.source === 'publish',
+  };
+}
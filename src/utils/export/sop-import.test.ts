@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { parseSopDocx, renderSopDocx } from './sop-docx';
+import { parseSopMarkdown, renderSopMarkdown } from './sop-markdown';
+import { SopDocument, SopDocumentMedia, SopDocumentStep } from './sop-document';
+import { importSopDocument, SopImportTarget } from './sop-import';
+
+const exported: SopDocument = {
+  title: 'Wheel change',
+  category: 'Maintenance',
+  description: 'Change a wheel on the service van.',
+  stakeholders: 'Fleet technicians',
+  definitions: 'Nm: newton metre',
+  version: 3,
+  steps: [
+    {
+      title: 'Loosen nuts',
+      instructions: 'Loosen the wheel nuts half a turn.',
+      role: 'Technician',
+      safety_notes: 'Apply the handbrake',
+      verification: '',
+      media: [{ type: 'image', url: 'https://example.com/nuts.png', caption: 'Nut order' }],
+    },
+    {
+      title: 'Lift the van',
+      instructions: 'Place the jack under the marked point.',
+      role: '',
+      safety_notes: '',
+      verification: 'Wheel is off the ground',
+      media: [],
+    },
+    {
+      title: 'Tighten nuts',
+      instructions: 'Tighten the nuts to 120 Nm in a star pattern.',
+      role: 'Technician',
+      safety_notes: '',
+      verification: '',
+      media: [
+        { type: 'image', url: 'https://example.com/star.png', caption: 'Star pattern' },
+        { type: 'video', url: 'https://example.com/torque.mp4', caption: '' },
+      ],
+    },
+  ],
+};
+
+// Keeps what an import creates, like the create routes would
+function memoryTarget() {
+  const created = {
+    sops: [] as (Omit<SopDocument, 'steps'> & { id: string })[],
+    steps: [] as (SopDocumentStep & { id: string; sop_id: string; order_index: number })[],
+    media: [] as (SopDocumentMedia & { step_id: string })[],
+    deleted: [] as string[],
+  };
+
+  const target = {
+    createSop: jest.fn(async (fields: Omit<SopDocument, 'steps'>) => {
+      const sop = { ...fields, id: `sop-${created.sops.length + 1}` };
+      created.sops.push(sop);
+      return sop;
+    }),
+    addStep: jest.fn(async (sopId: string, orderIndex: number, step: SopDocumentStep) => {
+      const row = { ...step, id: `step-${created.steps.length + 1}`, sop_id: sopId, order_index: orderIndex };
+      created.steps.push(row);
+      return row;
+    }),
+    attachMedia: jest.fn(async (stepId: string, media: SopDocumentMedia) => {
+      created.media.push({ ...media, step_id: stepId });
+    }),
+    deleteSop: jest.fn(async (sopId: string) => {
+      created.deleted.push(sopId);
+    }),
+  } satisfies SopImportTarget<{ id: string }>;
+
+  return { created, target };
+}
+
+describe('importSopDocument', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it.each([
+    ['Markdown', async () => parseSopMarkdown(renderSopMarkdown(exported))],
+    ['Word', async () => parseSopDocx(await renderSopDocx(exported))],
+  ])('recreates an SOP exported as %s with its steps in order and their media', async (_format, roundTrip) => {
+    const { created, target } = memoryTarget();
+
+    const result = await importSopDocument(await roundTrip(), target);
+
+    expect(result).toMatchObject({ sop: { id: 'sop-1' }, stepCount: 3, skippedMedia: 0 });
+    expect(created.sops[0]).toMatchObject({ title: 'Wheel change', category: 'Maintenance', version: 3 });
+    expect(created.steps.map(step => [step.order_index, step.title])).toEqual([
+      [0, 'Loosen nuts'],
+      [1, 'Lift the van'],
+      [2, 'Tighten nuts'],
+    ]);
+    expect(created.media).toEqual([
+      { step_id: 'step-1', type: 'image', url: 'https://example.com/nuts.png', caption: 'Nut order' },
+      { step_id: 'step-3', type: 'image', url: 'https://example.com/star.png', caption: 'Star pattern' },
+      { step_id: 'step-3', type: 'video', url: 'https://example.com/torque.mp4', caption: '' },
+    ]);
+  });
+
+  it('checks every step before creating anything', async () => {
+    const { target } = memoryTarget();
+    const document = { ...exported, steps: [...exported.steps, { ...exported.steps[1], title: '', instructions: '' }] };
+
+    await expect(importSopDocument(document, target)).rejects.toThrow('Step 4 has no title or instructions.');
+    expect(target.createSop).not.toHaveBeenCalled();
+  });
+
+  it('deletes the SOP again when a step cannot be created', async () => {
+    const { created, target } = memoryTarget();
+    const addStep = target.addStep.getMockImplementation()!;
+    target.addStep
+      .mockImplementationOnce(addStep)
+      .mockRejectedValueOnce(new Error('Request failed with status 500'));
+
+    await expect(importSopDocument(exported, target)).rejects.toThrow(
+      'Step 2 could not be imported, so the SOP was not created: Request failed with status 500'
+    );
+    expect(created.deleted).toEqual(['sop-1']);
+  });
+
+  it('skips media that cannot be re-attached', async () => {
+    const { created, target } = memoryTarget();
+    target.attachMedia.mockRejectedValueOnce(new Error('Download failed with status 404'));
+
+    const result = await importSopDocument(exported, target);
+
+    expect(result.skippedMedia).toBe(1);
+    expect(created.media).toHaveLength(2);
+    expect(created.deleted).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { SopDocument, SopDocumentMedia, SopDocumentStep, validateSopDocument } from './sop-document';
+
+/**
+ * Where an imported document is written: the regular create routes in the
+ * browser, or anything else that can create an SOP, its steps and media
+ */
+export interface SopImportTarget<S extends { id: string }> {
+  createSop(fields: Omit<SopDocument, 'steps'>): Promise<S>;
+  addStep(sopId: string, orderIndex: number, step: SopDocumentStep): Promise<{ id: string }>;
+  attachMedia(stepId: string, media: SopDocumentMedia): Promise<void>;
+  deleteSop(sopId: string): Promise<void>;
+}
+
+export interface SopImportOutcome<S> {
+  sop: S;
+  stepCount: number;
+  /** Media links that could not be downloaded and re-attached */
+  skippedMedia: number;
+}
+
+/**
+ * Create an SOP and its steps, in order, from an imported document.
+ * The whole document is checked first; when a step still cannot be created
+ * the SOP is deleted again, so a failed import leaves nothing behind.
+ * Media that cannot be re-attached is skipped and counted.
+ * @throws Error when the document is invalid or the SOP cannot be created
+ */
+export async function importSopDocument<S extends { id: string }>(
+  document: SopDocument,
+  target: SopImportTarget<S>
+): Promise<SopImportOutcome<S>> {
+  const problems = validateSopDocument(document);
+  if (problems.length > 0) {
+    throw new Error(problems.join(' '));
+  }
+
+  const { steps, ...fields } = document;
+  const sop = await target.createSop(fields);
+  let skippedMedia = 0;
+
+  for (const [index, item] of steps.entries()) {
+    let step: { id: string };
+
+    try {
+      step = await target.addStep(sop.id, index, item);
+    } catch (error) {
+      try {
+        await target.deleteSop(sop.id);
+      } catch (deleteError) {
+        console.error('Could not delete partially imported SOP:', sop.id, deleteError);
+      }
+
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Step ${index + 1} could not be imported, so the SOP was not created: ${reason}`);
+    }
+
+    for (const media of item.media) {
+      try {
+        await target.attachMedia(step.id, media);
+      } catch (error) {
+        console.warn('Could not re-attach imported media:', media.url, error);
+        skippedMedia++;
+      }
+    }
+  }
+
+  return { sop, stepCount: steps.length, skippedMedia };
+}
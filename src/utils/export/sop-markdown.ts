@@ -0,0 +1,274 @@
+import { MediaType } from '@/types/database.types';
+import {
+  SopDocument,
+  SopDocumentMedia,
+  SopDocumentStep,
+  normalizeSopDocument,
+} from '@/utils/export/sop-document';
+
+type StepField = 'role' | 'safety_notes' | 'verification';
+
+const FIELD_LABELS: [StepField, string][] = [
+  ['role', 'Role'],
+  ['safety_notes', 'Safety notes'],
+  ['verification', 'Verification'],
+];
+
+const PROCEDURE_HEADINGS = ['procedure', 'steps', 'procedure steps'];
+
+// Lines in free text that would otherwise be read back as structure
+const STRUCTURAL_LINE = /^(\\|#|- \*\*|!?\[)/;
+const ESCAPED_LINE = /^\\(\\|#|- \*\*|!?\[)/;
+const MEDIA_LINE = /^(!?)\[((?:\\.|[^\]\\])*)\]\((?:<([^>]*)>|([^\s)]*))(?:\s+"(image|video|document)")?\)$/;
+const FIELD_LINE = /^- \*\*([^*]+):\*\*(?: (.*))?$/;
+
+function escapeBlock(text: string): string {
+  return text.split('\n').map(line => (STRUCTURAL_LINE.test(line) ? `\\${line}` : line)).join('\n');
+}
+
+function unescapeBlock(lines: string[]): string {
+  return lines.map(line => (ESCAPED_LINE.test(line) ? line.slice(1) : line)).join('\n');
+}
+
+function renderMedia(item: SopDocumentMedia): string {
+  const caption = item.caption.replace(/[\\\]]/g, match => `\\${match}`);
+  const url = /[\s()<>]/.test(item.url) ? `<${item.url}>` : item.url;
+  return item.type === 'image' ? `![${caption}](${url})` : `[${caption}](${url} "${item.type}")`;
+}
+
+function parseMedia(line: string): SopDocumentMedia | null {
+  const match = line.match(MEDIA_LINE);
+  if (!match) return null;
+  const [, bang, caption, bracketedUrl, url, type] = match;
+  return {
+    type: (type as MediaType) || (bang ? 'image' : 'document'),
+    url: bracketedUrl ?? url,
+    caption: caption.replace(/\\(.)/g, '$1'),
+  };
+}
+
+/**
+ * Render the YAML front matter block; strings are written as double-quoted
+ * scalars so any text survives without YAML quoting rules getting in the way
+ */
+function renderFrontMatter(values: Record<string, string | number>): string {
+  const lines = Object.entries(values)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'number' ? value : JSON.stringify(value)}`);
+  return ['---', ...lines, '---'].join('\n');
+}
+
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Parse the subset of YAML front matter SOP files use: top-level
+ * `key: value` pairs with plain, quoted or block (`|` / `>`) scalars
+ */
+function parseFrontMatter(lines: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, key, rest] = match;
+
+    if (/^[|>][+-]?$/.test(rest.trim())) {
+      const block: string[] = [];
+      while (index + 1 < lines.length && (/^\s/.test(lines[index + 1]) || lines[index + 1] === '')) {
+        block.push(lines[++index]);
+      }
+      const indent = Math.min(...block.filter(Boolean).map(line => line.match(/^\s*/)![0].length));
+      const text = block.map(line => line.slice(Number.isFinite(indent) ? indent : 0));
+      values[key.toLowerCase()] = rest.trim().startsWith('>') ? text.join(' ').replace(/\s+/g, ' ') : text.join('\n');
+    } else {
+      values[key.toLowerCase()] = parseScalar(rest);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Render an SOP as Markdown with YAML front matter (title, category,
+ * stakeholders, version); description, definitions and steps go in the body
+ */
+export function renderSopMarkdown(input: SopDocument): string {
+  const document = normalizeSopDocument(input);
+  const blocks: string[] = [
+    renderFrontMatter({
+      title: document.title,
+      category: document.category,
+      stakeholders: document.stakeholders,
+      version: document.version,
+    }),
+    `# ${document.title}`,
+  ];
+
+  if (document.description) blocks.push(escapeBlock(document.description));
+
+  if (document.definitions) {
+    blocks.push('## Definitions', escapeBlock(document.definitions));
+  }
+
+  blocks.push('## Procedure');
+
+  document.steps.forEach((step, index) => {
+    blocks.push(step.title ? `### Step ${index + 1}: ${step.title}` : `### Step ${index + 1}`);
+    if (step.instructions) blocks.push(escapeBlock(step.instructions));
+
+    const fields = FIELD_LABELS
+      .filter(([key]) => step[key])
+      .map(([key, label]) => `- **${label}:** ${step[key].split('\n').join('\n  ')}`);
+    if (fields.length > 0) blocks.push(fields.join('\n'));
+
+    if (step.media.length > 0) blocks.push(step.media.map(renderMedia).join('\n'));
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Parse the body of one step: free-text instructions followed by the
+ * labelled field list and media lines
+ */
+function parseStepBody(title: string, lines: string[]): SopDocumentStep {
+  const step: SopDocumentStep = { title, instructions: '', role: '', safety_notes: '', verification: '', media: [] };
+  const instructions: string[] = [];
+  let field: StepField | null = null;
+
+  for (const line of lines) {
+    const fieldMatch = line.match(FIELD_LINE);
+    const label = fieldMatch
+      ? FIELD_LABELS.find(([, name]) => name.toLowerCase() === fieldMatch[1].trim().toLowerCase())
+      : undefined;
+    const media = parseMedia(line.trim());
+
+    if (fieldMatch && label) {
+      field = label[0];
+      step[field] = fieldMatch[2] || '';
+    } else if (media) {
+      field = null;
+      step.media.push(media);
+    } else if (field && line.startsWith('  ')) {
+      step[field] = `${step[field]}\n${line.slice(2)}`;
+    } else if (field && line === '') {
+      continue;
+    } else {
+      field = null;
+      instructions.push(line);
+    }
+  }
+
+  step.instructions = unescapeBlock(instructions);
+  return step;
+}
+
+/**
+ * Fallback for hand-written files without step headings: each top-level
+ * item of a numbered list in the procedure section becomes a step
+ */
+function parseNumberedSteps(lines: string[]): SopDocumentStep[] {
+  const items: string[][] = [];
+
+  for (const line of lines) {
+    const item = line.match(/^\d+[.)]\s+(.*)$/);
+    if (item) {
+      items.push([item[1]]);
+    } else if (items.length > 0 && (/^\s+\S/.test(line) || line === '')) {
+      items[items.length - 1].push(line.trim());
+    }
+  }
+
+  return items.map(item => parseStepBody('', item));
+}
+
+/**
+ * Parse Markdown (as written by renderSopMarkdown, or a hand-written file
+ * with a title heading and a numbered procedure) into a portable SOP document
+ */
+export function parseSopMarkdown(markdown: string): SopDocument {
+  let lines = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  let frontMatter: Record<string, string> = {};
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end > 0) {
+      frontMatter = parseFrontMatter(lines.slice(1, end));
+      lines = lines.slice(end + 1);
+    }
+  }
+
+  let headingTitle = '';
+  const sections: { heading: string; lines: string[] }[] = [{ heading: '', lines: [] }];
+
+  for (const line of lines) {
+    const h1 = line.match(/^#\s+(.*?)\s*#*\s*$/);
+    const h2 = line.match(/^##\s+(.*?)\s*#*\s*$/);
+    if (h1 && !headingTitle && sections.length === 1 && !sections[0].lines.some(Boolean)) {
+      headingTitle = h1[1];
+    } else if (h2) {
+      sections.push({ heading: h2[1], lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const document: SopDocument = {
+    title: frontMatter.title || headingTitle,
+    category: frontMatter.category || '',
+    description: '',
+    stakeholders: frontMatter.stakeholders || '',
+    definitions: '',
+    version: Number(frontMatter.version) || 1,
+    steps: [],
+  };
+  const description: string[] = [];
+
+  for (const section of sections) {
+    const heading = section.heading.toLowerCase();
+
+    if (heading === '' || heading === 'description' || heading === 'purpose') {
+      description.push(unescapeBlock(section.lines));
+    } else if (heading === 'definitions') {
+      document.definitions = unescapeBlock(section.lines);
+    } else if (heading === 'stakeholders' && !document.stakeholders) {
+      document.stakeholders = unescapeBlock(section.lines);
+    } else if (PROCEDURE_HEADINGS.includes(heading)) {
+      const stepStarts = section.lines
+        .map((line, index) => (/^###\s+/.test(line) ? index : -1))
+        .filter(index => index >= 0);
+
+      if (stepStarts.length === 0) {
+        document.steps.push(...parseNumberedSteps(section.lines));
+        continue;
+      }
+
+      stepStarts.forEach((start, index) => {
+        const stepHeading = section.lines[start].replace(/^###\s+/, '').replace(/\s*#*\s*$/, '');
+        const numbered = stepHeading.match(/^Step\s+\d+\s*(?::\s*(.*))?$/i);
+        const title = numbered ? numbered[1] || '' : stepHeading;
+        const body = section.lines.slice(start + 1, stepStarts[index + 1] ?? section.lines.length);
+        document.steps.push(parseStepBody(title, body));
+      });
+    } else {
+      // Keep unrecognised sections rather than dropping their content
+      description.push(`${section.heading}\n\n${unescapeBlock(section.lines)}`);
+    }
+  }
+
+  document.description = description.map(text => text.trim()).filter(Boolean).join('\n\n');
+  return normalizeSopDocument(document);
+}
@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { PDFDocument } from 'pdf-lib';
+import { deflateSync } from 'zlib';
+import { embedPdfFonts, PdfFonts, renderSopPdf, wrapText } from './sop-pdf';
+import { SopExportData, versionExportData } from './sop-export-data';
+import { SopVersion } from '@/types/database.types';
+
+// 2x1 RGBA PNG built by hand: one red opaque pixel, one transparent pixel
+function tinyPng(): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8;
+  header[9] = 6;
+  const pixels = Buffer.from([0, 255, 0, 0, 255, 0, 0, 0, 0]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+const exportData = (stepCount: number): SopExportData => ({
+  sop: {
+    id: '3f2a9c1e-0000-0000-0000-000000000000',
+    title: 'Lockout / Tagout',
+    description: 'Isolate hazardous energy before maintenance.',
+    created_by: 'user-1',
+    is_published: true,
+    version: 3,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    stakeholders: 'Maintenance technicians',
+  },
+  steps: Array.from({ length: stepCount }, (_, index) => ({
+    id: `step-${index}`,
+    sop_id: 'sop-1',
+    name: `Step name ${index}`,
+    instructions: 'Shut down the machine using the normal stopping procedure. '.repeat(4),
+    order_index: index,
+    verification: 'Confirm zero energy state',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    media: index === 0
+      ? [{ id: 'm1', step_id: 'step-0', type: 'image' as const, url: 'https://example.com/a.png', filename: 'a.png', created_at: '' }]
+      : [],
+  })),
+  equipment: [],
+  fiveS: null,
+  documentNumber: 'SOP-3F2A9C1E',
+  versionNumber: 3,
+  effectiveDate: '2026-02-01T00:00:00.000Z',
+  controlled: true,
+});
+
+describe('wrapText', () => {
+  let fonts: PdfFonts;
+
+  beforeAll(async () => {
+    fonts = await embedPdfFonts(await PDFDocument.create());
+  });
+
+  it('keeps every line within the width and splits overlong words', () => {
+    const lines = wrapText(`short words then ${'x'.repeat(200)}`, fonts.regular, 10, 100);
+
+    expect(lines.length).toBeGreaterThan(2);
+    lines.forEach(line => expect(fonts.regular.widthOfTextAtSize(line, 10)).toBeLessThanOrEqual(100));
+  });
+
+  it('sets text beyond Latin-1 in the embedded font', () => {
+    const text = 'Überprüfung – Ελεγχος – Проверка – Łódź';
+    const glyphs = new Set(fonts.regular.getCharacterSet());
+
+    expect([...text].every(char => glyphs.has(char.codePointAt(0)!))).toBe(true);
+    expect(wrapText(text, fonts.regular, 10, 1000)).toEqual([text]);
+  });
+});
+
+describe('renderSopPdf', () => {
+  it('produces a multi-page PDF with the embedded font and image', async () => {
+    const data = exportData(25);
+    const pdf = await renderSopPdf({ ...data, sop: { ...data.sop, title: 'Verriegelung – Блокировка' } }, {
+      loadImage: async () => tinyPng(),
+      generatedAt: new Date('2026-03-01T12:00:00Z'),
+    });
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text).toContain('/FontFile2');
+    expect(text).toContain('DejaVuSans');
+    expect(text).toContain('/Subtype /Image');
+    expect(text).toContain('/SMask');
+
+    const loaded = await PDFDocument.load(pdf);
+    expect(loaded.getPageCount()).toBeGreaterThan(1);
+    expect(loaded.getTitle()).toBe('Verriegelung – Блокировка');
+  });
+
+  it('renders without the image when it cannot be read', async () => {
+    const pdf = await renderSopPdf(exportData(1), { loadImage: async () => Buffer.from('GIF89a') });
+
+    expect((await PDFDocument.load(pdf)).getPageCount()).toBe(1);
+  });
+});
+
+describe('versionExportData', () => {
+  const version: SopVersion = {
+    id: 'version-2',
+    sop_id: 'sop-1',
+    version_number: 2,
+    title: 'Lockout / Tagout',
+    description: 'As published',
+    steps: [
+      { id: 'step-b', sop_id: 'sop-1', name: 'Tag', title: 'Tag', instructions: 'Attach the tag', order_index: 1, media: [] },
+      { id: 'step-a', sop_id: 'sop-1', name: 'Isolate', title: 'Isolate', instructions: 'Open the breaker', order_index: 0, media: [] },
+    ],
+    equipment: [{ name: 'Padlock' }],
+    source: 'publish',
+    created_by: 'user-1',
+    created_at: '2026-02-01T00:00:00.000Z',
+  };
+
+  it('renders the published content, not the working copy', () => {
+    const working = exportData(5);
+    const data = versionExportData({ ...working.sop, title: 'Edited after publishing', version: 3 }, version);
+
+    expect(data.controlled).toBe(true);
+    expect(data.sop.title).toBe('Lockout / Tagout');
+    expect(data.sop.description).toBe('As published');
+    expect(data.versionNumber).toBe(2);
+    expect(data.effectiveDate).toBe('2026-02-01T00:00:00.000Z');
+    expect(data.steps.map(step => step.id)).toEqual(['step-a', 'step-b']);
+    expect(data.equipment).toEqual([{ name: 'Padlock', description: '', safety: '', maintenance: '' }]);
+  });
+
+  it('does not treat manual snapshots as controlled copies', () => {
+    expect(versionExportData(exportData(1).sop, { ...version, source: 'manual' }).controlled).toBe(false);
+  });
+});
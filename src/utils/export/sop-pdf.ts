@@ -0,0 +1,354 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import fontkit from '@pdf-lib/fontkit';
+import { format } from 'date-fns';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, RGB } from 'pdf-lib';
+import { logger } from '@/utils/logger';
+import { FIVE_S_LABELS, SopExportData } from '@/utils/export/sop-export-data';
+import type { FiveSData } from '@/components/SOPWizard/types';
+
+/**
+ * PDF rendering with pdf-lib. Text is set in DejaVu Sans, embedded as a
+ * subset, so accented, Greek, Cyrillic and other non-Latin-1 text prints as
+ * written; characters the font has no glyph for show as a box.
+ */
+
+export interface RenderSopPdfOptions {
+  /** Fetch image bytes for a media URL; return null to skip the image */
+  loadImage?: (url: string) => Promise<Buffer | null>;
+  /** Timestamp printed in the footer */
+  generatedAt?: Date;
+}
+
+export type PdfFontStyle = 'regular' | 'bold' | 'italic';
+
+export type PdfFonts = Record<PdfFontStyle, PDFFont>;
+
+type Env = Record<string, string | undefined>;
+
+const FONT_FILES: Record<PdfFontStyle, string> = {
+  regular: 'DejaVuSans.ttf',
+  bold: 'DejaVuSans-Bold.ttf',
+  italic: 'DejaVuSans-Oblique.ttf',
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const HEADER_HEIGHT = 70;
+const FOOTER_HEIGHT = 50;
+const MAX_IMAGE_HEIGHT = 260;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.12);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.45);
+const ACCENT_COLOR = rgb(0.15, 0.3, 0.6);
+const RULE_COLOR = rgb(0.75, 0.75, 0.78);
+const DRAFT_COLOR = rgb(0.75, 0.1, 0.1);
+
+/**
+ * Directory of the DejaVu fonts: PDF_FONT_DIR, or the dejavu-fonts-ttf package
+ */
+export function pdfFontDir(env: Env = process.env): string {
+  return env.PDF_FONT_DIR || path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+}
+
+/**
+ * Embed the fonts used by exports into a document
+ */
+export async function embedPdfFonts(doc: PDFDocument, fontDir: string = pdfFontDir()): Promise<PdfFonts> {
+  doc.registerFontkit(fontkit);
+
+  const [regular, bold, italic] = await Promise.all(
+    (['regular', 'bold', 'italic'] as const).map(async style =>
+      doc.embedFont(await readFile(path.join(fontDir, FONT_FILES[style])), { subset: true })
+    )
+  );
+
+  return { regular, bold, italic };
+}
+
+/**
+ * Break text into lines that fit the width, honouring explicit line breaks
+ * and splitting words that are longer than a whole line
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let line = '';
+
+    if (words.length === 0) {
+      lines.push('');
+      continue;
+    }
+
+    for (let word of words) {
+      while (font.widthOfTextAtSize(word, size) > maxWidth) {
+        let cut = word.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(word.slice(0, cut), size) > maxWidth) cut--;
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, cut));
+        word = word.slice(cut);
+      }
+
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Fetch an image over HTTP for embedding, with a timeout and size cap
+ */
+async function fetchImage(url: string): Promise<Buffer | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return null;
+    const data = Buffer.from(await response.arrayBuffer());
+    return data.length <= MAX_IMAGE_BYTES ? data : null;
+  } catch (error) {
+    logger.warn('Could not fetch image for PDF export', { url, error });
+    return null;
+  }
+}
+
+/**
+ * Embed a JPEG or PNG image
+ * @returns null for other formats and files that cannot be read
+ */
+async function embedImage(doc: PDFDocument, data: Buffer): Promise<PDFImage | null> {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return await doc.embedJpg(data);
+    }
+    if (data.subarray(1, 4).toString('latin1') === 'PNG') {
+      return await doc.embedPng(data);
+    }
+  } catch (error) {
+    logger.warn('Could not embed image in PDF export', { error });
+  }
+  return null;
+}
+
+/**
+ * Top-down flow layout over the pages of a document
+ */
+class FlowLayout {
+  page: PDFPage;
+  y: number;
+  readonly contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  constructor(readonly doc: PDFDocument, readonly fonts: PdfFonts) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = HEADER_HEIGHT + 20;
+  }
+
+  private get bottom() {
+    return PAGE_HEIGHT - FOOTER_HEIGHT - 10;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = HEADER_HEIGHT + 20;
+    }
+  }
+
+  gap(height: number) {
+    this.y += height;
+  }
+
+  paragraph(text: string, { font = 'regular', size = 10.5, color = TEXT_COLOR, indent = 0 }: {
+    font?: PdfFontStyle; size?: number; color?: RGB; indent?: number;
+  } = {}) {
+    const lineHeight = size * 1.4;
+    for (const line of wrapText(text, this.fonts[font], size, this.contentWidth - indent)) {
+      this.ensureSpace(lineHeight);
+      this.y += lineHeight;
+      if (line) {
+        this.page.drawText(line, {
+          x: MARGIN + indent,
+          y: PAGE_HEIGHT - this.y + size * 0.3,
+          font: this.fonts[font],
+          size,
+          color,
+        });
+      }
+    }
+  }
+
+  labelled(label: string, value: string, indent = 0) {
+    this.paragraph(label, { font: 'bold', size: 10, color: MUTED_COLOR, indent });
+    this.paragraph(value, { indent });
+    this.gap(4);
+  }
+
+  heading(text: string) {
+    this.gap(10);
+    this.ensureSpace(40);
+    this.paragraph(text, { font: 'bold', size: 14, color: ACCENT_COLOR });
+    this.gap(3);
+    this.page.drawLine({
+      start: { x: MARGIN, y: PAGE_HEIGHT - this.y },
+      end: { x: MARGIN + this.contentWidth, y: PAGE_HEIGHT - this.y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+    this.gap(8);
+  }
+
+  async image(data: Buffer, caption: string | undefined, indent: number): Promise<boolean> {
+    const embedded = await embedImage(this.doc, data);
+    if (!embedded) return false;
+
+    const maxWidth = this.contentWidth - indent;
+    const scale = Math.min(1, maxWidth / embedded.width, MAX_IMAGE_HEIGHT / embedded.height);
+    const width = embedded.width * scale;
+    const height = embedded.height * scale;
+
+    this.ensureSpace(height + (caption ? 18 : 6));
+    this.y += height;
+    this.page.drawImage(embedded, { x: MARGIN + indent, y: PAGE_HEIGHT - this.y, width, height });
+    this.gap(4);
+    if (caption) {
+      this.paragraph(caption, { font: 'italic', size: 9, color: MUTED_COLOR, indent });
+    }
+    this.gap(6);
+    return true;
+  }
+}
+
+/**
+ * Render an SOP as a controlled PDF document: title block, stakeholders,
+ * definitions, equipment, 5S, ordered steps with their images, a header with
+ * document number, version and effective date, and numbered page footers.
+ * Working copies are marked as uncontrolled drafts on every page instead.
+ */
+export async function renderSopPdf(data: SopExportData, options: RenderSopPdfOptions = {}): Promise<Buffer> {
+  const { sop, steps, equipment, fiveS } = data;
+  const loadImage = options.loadImage ?? fetchImage;
+  const generatedAt = options.generatedAt ?? new Date();
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(sop.title);
+  doc.setCreationDate(generatedAt);
+  const fonts = await embedPdfFonts(doc);
+  const layout = new FlowLayout(doc, fonts);
+
+  if (!data.controlled) {
+    layout.paragraph('DRAFT - UNCONTROLLED COPY', { font: 'bold', size: 12, color: DRAFT_COLOR });
+    layout.paragraph('This is the working copy, not a published version. Do not use it to perform the procedure.', {
+      size: 9, color: DRAFT_COLOR,
+    });
+    layout.gap(6);
+  }
+
+  layout.paragraph(sop.title, { font: 'bold', size: 20 });
+  if (sop.category) {
+    layout.paragraph(sop.category, { size: 10, color: MUTED_COLOR });
+  }
+  if (sop.description) {
+    layout.gap(6);
+    layout.paragraph(sop.description);
+  }
+
+  if (sop.stakeholders) {
+    layout.heading('Stakeholders');
+    layout.paragraph(sop.stakeholders);
+  }
+
+  if (sop.definitions) {
+    layout.heading('Definitions');
+    layout.paragraph(sop.definitions);
+  }
+
+  if (equipment.length > 0) {
+    layout.heading('Equipment');
+    for (const item of equipment) {
+      layout.paragraph(item.name, { font: 'bold', size: 11 });
+      if (item.description) layout.paragraph(item.description);
+      if (item.safety) layout.labelled('Safety', item.safety, 12);
+      if (item.maintenance) layout.labelled('Maintenance', item.maintenance, 12);
+      layout.gap(6);
+    }
+  }
+
+  if (fiveS) {
+    layout.heading('5S');
+    for (const key of Object.keys(FIVE_S_LABELS) as (keyof FiveSData)[]) {
+      if (fiveS[key]) layout.labelled(FIVE_S_LABELS[key], fiveS[key]);
+    }
+  }
+
+  layout.heading('Procedure');
+  if (steps.length === 0) {
+    layout.paragraph('No steps have been added to this SOP.', { font: 'italic', color: MUTED_COLOR });
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const title = step.title || step.name;
+    layout.gap(index === 0 ? 0 : 8);
+    layout.ensureSpace(60);
+    layout.paragraph(title ? `Step ${index + 1}: ${title}` : `Step ${index + 1}`, { font: 'bold', size: 12 });
+    layout.gap(2);
+    if (step.instructions) layout.paragraph(step.instructions, { indent: 12 });
+    layout.gap(4);
+    if (step.role) layout.labelled('Role', step.role, 12);
+    if (step.safety_notes) layout.labelled('Safety notes', step.safety_notes, 12);
+    if (step.verification) layout.labelled('Verification', step.verification, 12);
+
+    for (const item of step.media) {
+      if (item.type !== 'image') continue;
+      const bytes = item.url ? await loadImage(item.url) : null;
+      if (!bytes || !(await layout.image(bytes, item.caption, 12))) {
+        layout.paragraph(`[Image not embedded${item.caption ? `: ${item.caption}` : ''}]`, {
+          font: 'italic', size: 9, color: MUTED_COLOR, indent: 12,
+        });
+      }
+    }
+  }
+
+  // Header and footer need the final page count
+  const effective = data.effectiveDate ? format(new Date(data.effectiveDate), 'yyyy-MM-dd') : 'Not yet effective';
+  const headerRight = data.controlled
+    ? `Version ${data.versionNumber}  |  Effective ${effective}`
+    : 'DRAFT  |  Not a published version';
+  const footerLeft = `${data.controlled ? 'Controlled copy' : 'Uncontrolled draft'} generated ${format(generatedAt, 'yyyy-MM-dd HH:mm')}`;
+  const right = PAGE_WIDTH - MARGIN;
+  const headerY = PAGE_HEIGHT - 40;
+  const pages = doc.getPages();
+  const text = (page: PDFPage, value: string, x: number, y: number, font: PdfFontStyle, size: number, color: RGB) =>
+    page.drawText(value, { x, y, font: fonts[font], size, color });
+  const rule = (page: PDFPage, y: number) =>
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: right, y }, thickness: 0.75, color: RULE_COLOR });
+
+  pages.forEach((page, index) => {
+    text(page, data.documentNumber, MARGIN, headerY, 'bold', 10, TEXT_COLOR);
+    text(page, headerRight, right - fonts.regular.widthOfTextAtSize(headerRight, 9), headerY, 'regular', 9, data.controlled ? MUTED_COLOR : DRAFT_COLOR);
+    const titleLine = wrapText(sop.title, fonts.regular, 9, PAGE_WIDTH / 3)[0] || '';
+    text(page, titleLine, (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(titleLine, 9)) / 2, headerY, 'regular', 9, MUTED_COLOR);
+    rule(page, PAGE_HEIGHT - HEADER_HEIGHT + 20);
+
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    rule(page, FOOTER_HEIGHT - 10);
+    text(page, footerLeft, MARGIN, FOOTER_HEIGHT - 26, 'regular', 8, MUTED_COLOR);
+    text(page, pageLabel, right - fonts.regular.widthOfTextAtSize(pageLabel, 8), FOOTER_HEIGHT - 26, 'regular', 8, MUTED_COLOR);
+  });
+
+  // Plain objects rather than object streams, so the file opens in older readers
+  return Buffer.from(await doc.save({ useObjectStreams: false }));
+}
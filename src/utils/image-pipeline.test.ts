@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import sharp from 'sharp';
+import { processImage } from './image-pipeline';
+import { mediaSrcSet, mediaVariantKey, mediaVariantUrl } from './media-variants';
+import { MediaProcessingError } from './media-store';
+
+// A landscape photo stored sideways, as phones do, with GPS in its EXIF
+async function phonePhoto(width: number, height: number): Promise<Uint8Array> {
+  const data = await sharp({ create: { width, height, channels: 3, background: '#3366cc' } })
+    .jpeg()
+    .withMetadata({ orientation: 6, exif: { IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 22/1 0/1' } } })
+    .toBuffer();
+  return new Uint8Array(data);
+}
+
+describe('processImage', () => {
+  it('rotates upright, strips metadata and builds WebP variants', async () => {
+    const result = await processImage(await phonePhoto(1200, 800), 'image/jpeg');
+
+    // Orientation 6 means the stored pixels are rotated 90°
+    expect(result.width).toBe(800);
+    expect(result.height).toBe(1200);
+
+    const metadata = await sharp(result.body).metadata();
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+
+    expect(result.variants.map(v => [v.name, v.width])).toEqual([['thumbnail', 320]]);
+    expect((await sharp(result.variants[0].body).metadata()).format).toBe('webp');
+    expect(result.blurhash).toMatch(/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{20,}$/);
+  });
+
+  it('only adds larger variants for images wide enough', async () => {
+    const result = await processImage(await phonePhoto(1000, 2000), 'image/jpeg');
+    expect(result.width).toBe(2000);
+    expect(result.variants.map(v => v.name)).toEqual(['thumbnail', 'medium', 'large']);
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(processImage(new TextEncoder().encode('<svg'), 'image/png')).rejects.toBeInstanceOf(MediaProcessingError);
+  });
+});
+
+describe('media variants', () => {
+  const media = {
+    url: '/m/photo.jpg',
+    width: 2400,
+    variants: [
+      { name: 'medium' as const, width: 960, height: 640, url: '/m/photo_medium.webp', storage_key: 'photo_medium.webp', size_bytes: 1 },
+      { name: 'thumbnail' as const, width: 320, height: 213, url: '/m/photo_thumbnail.webp', storage_key: 'photo_thumbnail.webp', size_bytes: 1 },
+    ],
+  };
+
+  it('names variants after their original', () => {
+    expect(mediaVariantKey('sop/step/abc.jpeg', 'large')).toBe('sop/step/abc_large.webp');
+    expect(mediaVariantKey('sop/step.v2/abc', 'thumbnail')).toBe('sop/step.v2/abc_thumbnail.webp');
+  });
+
+  it('lists variants and the wider original in srcset', () => {
+    expect(mediaSrcSet(media)).toBe('/m/photo_thumbnail.webp 320w, /m/photo_medium.webp 960w, /m/photo.jpg 2400w');
+    expect(mediaSrcSet({ url: '/m/old.png' })).toBeUndefined();
+  });
+
+  it('picks the smallest variant that is wide enough', () => {
+    expect(mediaVariantUrl(media, 300)).toBe('/m/photo_thumbnail.webp');
+    expect(mediaVariantUrl(media, 900)).toBe('/m/photo_medium.webp');
+    expect(mediaVariantUrl(media, 1920)).toBe('/m/photo.jpg');
+  });
+});
@@ -0,0 +1,101 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { MediaImageVariantName } from '@/types/database.types';
+import { MediaProcessingError } from '@/utils/media-store';
+import { MEDIA_VARIANT_WIDTHS } from '@/utils/media-variants';
+
+/**
+ * Server-side processing of uploaded images. Originals are re-encoded without
+ * metadata (EXIF, GPS, camera details) after rotating them upright, and
+ * resized WebP variants are generated for responsive display.
+ */
+
+/** Images re-encoded and resized; GIFs (possibly animated) are only measured */
+const RESIZED_TYPES = ['image/jpeg', 'image/png'];
+
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+const WEBP_QUALITY = 80;
+
+export interface ProcessedImageVariant {
+  name: MediaImageVariantName;
+  width: number;
+  height: number;
+  body: Uint8Array;
+}
+
+export interface ProcessedImage {
+  /** The original without metadata (unchanged for GIFs) */
+  body: Uint8Array;
+  width: number;
+  height: number;
+  blurhash: string | null;
+  /** Smallest first */
+  variants: ProcessedImageVariant[];
+}
+
+async function computeBlurhash(input: Uint8Array): Promise<string | null> {
+  const { data, info } = await sharp(input)
+    .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return encode(new Uint8ClampedArray(data), info.width, info.height, BLURHASH_COMPONENTS.x, BLURHASH_COMPONENTS.y);
+}
+
+/**
+ * Strip, rotate, measure and resize an uploaded image
+ * @throws MediaProcessingError when the file is not a readable image
+ */
+export async function processImage(input: Uint8Array, contentType: string): Promise<ProcessedImage> {
+  try {
+    if (!RESIZED_TYPES.includes(contentType)) {
+      const metadata = await sharp(input).metadata();
+      return {
+        body: input,
+        width: metadata.width ?? 0,
+        height: metadata.pageHeight ?? metadata.height ?? 0,
+        blurhash: await computeBlurhash(input),
+        variants: []
+      };
+    }
+
+    // Sharp drops all metadata from its output unless asked to keep it
+    const pipeline = sharp(input).rotate();
+    const { data, info } = await (contentType === 'image/png'
+      ? pipeline.png()
+      : pipeline.jpeg({ quality: 90 })
+    ).toBuffer({ resolveWithObject: true });
+
+    const variants: ProcessedImageVariant[] = [];
+    for (const [name, targetWidth] of Object.entries(MEDIA_VARIANT_WIDTHS) as [MediaImageVariantName, number][]) {
+      // Variants at or above the original size add nothing beyond the thumbnail
+      if (name !== 'thumbnail' && targetWidth >= info.width) continue;
+
+      const variant = await sharp(data)
+        .resize({ width: targetWidth, withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+
+      variants.push({
+        name,
+        width: variant.info.width,
+        height: variant.info.height,
+        body: new Uint8Array(variant.data)
+      });
+    }
+
+    return {
+      body: new Uint8Array(data),
+      width: info.width,
+      height: info.height,
+      blurhash: await computeBlurhash(data),
+      variants
+    };
+  } catch (error) {
+    throw new MediaProcessingError(
+      `Could not process image: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
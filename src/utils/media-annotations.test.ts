@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { MediaAnnotation } from '@/types/database.types';
+import {
+  MAX_MEDIA_ANNOTATIONS,
+  moveAnnotation,
+  nextCalloutNumber,
+  parseAnnotations,
+  renumberCallouts
+} from './media-annotations';
+
+describe('parseAnnotations', () => {
+  it('keeps valid shapes, clamps coordinates and drops unknown fields', () => {
+    const { annotations, error } = parseAnnotations([
+      { id: 'a', kind: 'arrow', color: '#3b82f6', x1: -0.2, y1: 0.1, x2: 0.512345678, y2: 1.4, extra: true },
+      { id: 'b', kind: 'blur', color: 'red', x: 0.8, y: 0.8, width: 0.5, height: 0.1 },
+      { id: 'c', kind: 'callout', color: '#ef4444', x: 0.5, y: 0.5, number: 2 },
+      { id: 'd', kind: 'text', color: '#ffffff', x: 0.1, y: 0.2, text: '  Press here  ' },
+    ]);
+
+    expect(error).toBeUndefined();
+    expect(annotations).toEqual([
+      { id: 'a', kind: 'arrow', color: '#3b82f6', x1: 0, y1: 0.1, x2: 0.5123, y2: 1 },
+      { id: 'b', kind: 'blur', color: '#ef4444', x: 0.8, y: 0.8, width: 0.2, height: 0.1 },
+      { id: 'c', kind: 'callout', color: '#ef4444', x: 0.5, y: 0.5, number: 2 },
+      { id: 'd', kind: 'text', color: '#ffffff', x: 0.1, y: 0.2, text: 'Press here' },
+    ]);
+  });
+
+  it('rejects malformed layers', () => {
+    expect(parseAnnotations({}).error).toBe('Annotations must be an array');
+    expect(parseAnnotations([{ kind: 'circle', x: 0, y: 0 }]).error).toBe('Annotation 1 is not a valid shape');
+    expect(parseAnnotations([{ kind: 'text', x: 0, y: 0, text: ' ' }]).error).toBe('Annotation 1 is not a valid text');
+    expect(parseAnnotations([{ kind: 'rect', x: 0, y: 0, width: 0, height: 0.2 }]).error).toBe('Annotation 1 is not a valid rect');
+    expect(parseAnnotations(Array(MAX_MEDIA_ANNOTATIONS + 1).fill({ kind: 'callout', x: 0, y: 0, number: 1 })).error)
+      .toMatch(/at most/);
+  });
+});
+
+describe('callouts', () => {
+  const layer: MediaAnnotation[] = [
+    { id: '1', kind: 'callout', color: '#ef4444', x: 0.1, y: 0.1, number: 1 },
+    { id: '2', kind: 'rect', color: '#ef4444', x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+    { id: '3', kind: 'callout', color: '#ef4444', x: 0.2, y: 0.2, number: 3 },
+  ];
+
+  it('numbers new callouts after the highest one', () => {
+    expect(nextCalloutNumber(layer)).toBe(4);
+    expect(nextCalloutNumber([])).toBe(1);
+  });
+
+  it('renumbers callouts in layer order', () => {
+    expect(renumberCallouts(layer).map(a => (a.kind === 'callout' ? a.number : null))).toEqual([1, null, 2]);
+  });
+});
+
+describe('moveAnnotation', () => {
+  it('keeps boxes inside the image', () => {
+    const moved = moveAnnotation({ id: 'r', kind: 'rect', color: '#ef4444', x: 0.7, y: 0.1, width: 0.2, height: 0.2 }, 0.3, -0.5);
+    expect(moved).toMatchObject({ x: 0.8, y: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+import { MediaAnnotation, MediaAnnotationKind } from '@/types/database.types';
+
+/**
+ * Image annotation layers: validation for the API and helpers shared by the
+ * editor and the viewers. Safe to import from client components.
+ */
+
+export const MEDIA_ANNOTATION_KINDS: MediaAnnotationKind[] = ['arrow', 'callout', 'rect', 'blur', 'text'];
+
+export const MEDIA_ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#ffffff', '#111827'];
+
+export const MAX_MEDIA_ANNOTATIONS = 100;
+
+const MAX_TEXT_LENGTH = 200;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function createAnnotationId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Number for the next callout: one more than the highest in the layer
+ */
+export function nextCalloutNumber(annotations: MediaAnnotation[]): number {
+  return annotations.reduce((max, a) => (a.kind === 'callout' ? Math.max(max, a.number) : max), 0) + 1;
+}
+
+/**
+ * Renumber callouts 1..n in layer order, e.g. after one was deleted
+ */
+export function renumberCallouts(annotations: MediaAnnotation[]): MediaAnnotation[] {
+  let number = 0;
+  return annotations.map(a => (a.kind === 'callout' ? { ...a, number: ++number } : a));
+}
+
+/**
+ * Move a shape by a fraction of the image size
+ */
+export function moveAnnotation(annotation: MediaAnnotation, dx: number, dy: number): MediaAnnotation {
+  if (annotation.kind === 'arrow') {
+    return {
+      ...annotation,
+      x1: clamp(annotation.x1 + dx), y1: clamp(annotation.y1 + dy),
+      x2: clamp(annotation.x2 + dx), y2: clamp(annotation.y2 + dy)
+    };
+  }
+  if (annotation.kind === 'rect' || annotation.kind === 'blur') {
+    return {
+      ...annotation,
+      x: clamp(annotation.x + dx, 0, 1 - annotation.width),
+      y: clamp(annotation.y + dy, 0, 1 - annotation.height)
+    };
+  }
+  return { ...annotation, x: clamp(annotation.x + dx), y: clamp(annotation.y + dy) };
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Keep stored coordinates short
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function coordinate(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return round(clamp(value));
+}
+
+/**
+ * Validate an annotation layer sent by the editor and normalise it:
+ * coordinates clamped to the image, unknown fields dropped
+ */
+export function parseAnnotations(input: unknown): { annotations?: MediaAnnotation[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Annotations must be an array' };
+  }
+  if (input.length > MAX_MEDIA_ANNOTATIONS) {
+    return { error: `An image can have at most ${MAX_MEDIA_ANNOTATIONS} annotations` };
+  }
+
+  const annotations: MediaAnnotation[] = [];
+
+  for (const [index, raw] of input.entries()) {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const kind = item.kind as MediaAnnotationKind;
+    const id = typeof item.id === 'string' && item.id ? item.id.slice(0, 36) : createAnnotationId();
+    const color = typeof item.color === 'string' && COLOR_PATTERN.test(item.color) ? item.color : MEDIA_ANNOTATION_COLORS[0];
+    const invalid = { error: `Annotation ${index + 1} is not a valid ${MEDIA_ANNOTATION_KINDS.includes(kind) ? kind : 'shape'}` };
+
+    switch (kind) {
+      case 'arrow': {
+        const [x1, y1, x2, y2] = [item.x1, item.y1, item.x2, item.y2].map(coordinate);
+        if (x1 === null || y1 === null || x2 === null || y2 === null) return invalid;
+        annotations.push({ id, kind, color, x1, y1, x2, y2 });
+        break;
+      }
+      case 'rect':
+      case 'blur': {
+        const [x, y, width, height] = [item.x, item.y, item.width, item.height].map(coordinate);
+        if (x === null || y === null || width === null || height === null || width === 0 || height === 0) return invalid;
+        annotations.push({ id, kind, color, x, y, width: round(Math.min(width, 1 - x)), height: round(Math.min(height, 1 - y)) });
+        break;
+      }
+      case 'callout': {
+        const [x, y] = [item.x, item.y].map(coordinate);
+        if (x === null || y === null || !Number.isInteger(item.number) || (item.number as number) < 1) return invalid;
+        annotations.push({ id, kind, color, x, y, number: item.number as number });
+        break;
+      }
+      case 'text': {
+        const [x, y] = [item.x, item.y].map(coordinate);
+        const text = typeof item.text === 'string' ? item.text.trim().slice(0, MAX_TEXT_LENGTH) : '';
+        if (x === null || y === null || !text) return invalid;
+        annotations.push({ id, kind, color, x, y, text });
+        break;
+      }
+      default:
+        return invalid;
+    }
+  }
+
+  return { annotations };
+}
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { chaptersForStep, formatTimestamp, parseChapters, parseTimestamp } from './media-chapters';
+
+describe('formatTimestamp', () => {
+  it('formats minutes and hours', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(75.9)).toBe('1:15');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads seconds, m:ss and h:mm:ss', () => {
+    expect(parseTimestamp('42')).toBe(42);
+    expect(parseTimestamp('1:15')).toBe(75);
+    expect(parseTimestamp(' 1:02:05 ')).toBe(3725);
+    expect(parseTimestamp('1:2.5')).toBe(62.5);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp('1:xx')).toBeNull();
+    expect(parseTimestamp('1:2:3:4')).toBeNull();
+    expect(parseTimestamp('-5')).toBeNull();
+  });
+});
+
+describe('parseChapters', () => {
+  const stepIds = ['s1', 's2'];
+
+  it('normalises and sorts chapters', () => {
+    expect(parseChapters([
+      { time: 90.04, step_id: 's2', label: '  Tighten the bolts ', extra: true },
+      { time: 0, step_id: 's1', label: '' }
+    ], stepIds, 120)).toEqual({
+      chapters: [
+        { time: 0, step_id: 's1' },
+        { time: 90, step_id: 's2', label: 'Tighten the bolts' }
+      ]
+    });
+  });
+
+  it('rejects chapters past the end or for other steps', () => {
+    expect(parseChapters([{ time: 130, step_id: 's1' }], stepIds, 120).error).toMatch('after the end');
+    expect(parseChapters([{ time: 5, step_id: 'other' }], stepIds, 120).error).toMatch('step of this SOP');
+    expect(parseChapters([{ step_id: 's1' }], stepIds).error).toMatch('needs a time');
+    expect(parseChapters('0:00', stepIds).error).toBe('Chapters must be an array');
+  });
+
+  it('accepts any time when the duration is unknown', () => {
+    expect(parseChapters([{ time: 5000, step_id: 's1' }], stepIds, null).chapters).toHaveLength(1);
+  });
+});
+
+describe('chaptersForStep', () => {
+  it('returns the chapters linked to a step', () => {
+    const chapters = [{ time: 0, step_id: 's1' }, { time: 10, step_id: 's2' }, { time: 20, step_id: 's1' }];
+    expect(chaptersForStep(chapters, 's1').map(chapter => chapter.time)).toEqual([0, 20]);
+    expect(chaptersForStep(null, 's1')).toEqual([]);
+  });
+});
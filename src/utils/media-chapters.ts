@@ -0,0 +1,84 @@
+import { MediaChapter } from '@/types/database.types';
+
+/**
+ * Video chapter markers: validation for the API and helpers shared by the
+ * chapter editor and the viewers. Safe to import from client components.
+ */
+
+export const MAX_MEDIA_CHAPTERS = 100;
+
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * `75` → `1:15`, `3725` → `1:02:05`
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Read a timestamp typed as `h:mm:ss`, `m:ss` or plain seconds
+ * @returns seconds, or null when the text is not a timestamp
+ */
+export function parseTimestamp(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null;
+
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * Chapters of a video that point at a step, in order
+ */
+export function chaptersForStep(chapters: MediaChapter[] | null | undefined, stepId: string): MediaChapter[] {
+  return (chapters || []).filter(chapter => chapter.step_id === stepId);
+}
+
+/**
+ * Validate the chapters sent by the editor and normalise them: times
+ * rounded to a tenth of a second, sorted, unknown fields dropped
+ * @param stepIds steps of the SOP the video belongs to
+ * @param duration length of the video, when known
+ */
+export function parseChapters(
+  input: unknown,
+  stepIds: string[],
+  duration?: number | null
+): { chapters?: MediaChapter[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Chapters must be an array' };
+  }
+  if (input.length > MAX_MEDIA_CHAPTERS) {
+    return { error: `A video can have at most ${MAX_MEDIA_CHAPTERS} chapters` };
+  }
+
+  const chapters: MediaChapter[] = [];
+
+  for (const [index, raw] of input.entries()) {
+    const item = (raw ?? {}) as Record<string, unknown>;
+
+    if (typeof item.time !== 'number' || !Number.isFinite(item.time) || item.time < 0) {
+      return { error: `Chapter ${index + 1} needs a time` };
+    }
+    if (duration && item.time > duration) {
+      return { error: `Chapter ${index + 1} starts after the end of the video (${formatTimestamp(duration)})` };
+    }
+    if (typeof item.step_id !== 'string' || !stepIds.includes(item.step_id)) {
+      return { error: `Chapter ${index + 1} must point at a step of this SOP` };
+    }
+
+    const label = typeof item.label === 'string' ? item.label.trim().slice(0, MAX_LABEL_LENGTH) : '';
+    chapters.push({
+      time: Math.round(item.time * 10) / 10,
+      step_id: item.step_id,
+      ...(label ? { label } : {})
+    });
+  }
+
+  return { chapters: chapters.sort((a, b) => a.time - b.time) };
+}
@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_MEDIA_GC_GRACE_HOURS,
+  mediaGcGraceHours,
+  MediaFileReference,
+  orphansPastGracePeriod,
+  reconcileMediaObjects
+} from './media-gc';
+
+const store = {
+  name: 's3' as const,
+  publicUrl: (key: string) => `https://cdn.example.com/${key}`
+};
+
+describe('reconcileMediaObjects', () => {
+  it('reports objects nothing refers to as orphans', () => {
+    const references: MediaFileReference[] = [{
+      source: 'media',
+      id: 'm1',
+      storage_backend: 's3',
+      storage_key: 'sops/a/steps/b/photo.jpg',
+      variants: [{ name: 'thumbnail', storage_key: 'sops/a/steps/b/photo-thumbnail.webp', url: '', width: 320, height: 240, size_bytes: 10 }]
+    }];
+
+    const result = reconcileMediaObjects(store, [
+      { key: 'sops/a/steps/b/photo.jpg' },
+      { key: 'sops/a/steps/b/photo-thumbnail.webp' },
+      { key: 'sops/a/steps/b/leftover.jpg', size: 42 }
+    ], references);
+
+    expect(result.orphans).toEqual([{ key: 'sops/a/steps/b/leftover.jpg', size: 42 }]);
+    expect(result.scanned).toBe(3);
+    expect(result.referenced).toBe(2);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('keeps objects referenced only by URL or by a version snapshot', () => {
+    const result = reconcileMediaObjects(store, [
+      { key: 'legacy/old.png' },
+      { key: 'sops/a/steps/b/restorable.jpg' }
+    ], [
+      { source: 'media', id: 'm1', url: 'https://cdn.example.com/legacy/old.png' },
+      { source: 'version', id: 'v1', storage_backend: 's3', storage_key: 'sops/a/steps/b/restorable.jpg' }
+    ]);
+
+    expect(result.orphans).toEqual([]);
+  });
+
+  it('keeps the chunks of open upload sessions', () => {
+    const result = reconcileMediaObjects(store, [
+      { key: 'uploads/u1/000000' },
+      { key: 'uploads/u1/000001' },
+      { key: 'uploads/u2/000000' }
+    ], [
+      { source: 'upload', id: 'u1', storage_backend: 's3', storage_prefix: 'uploads/u1/' }
+    ]);
+
+    expect(result.orphans).toEqual([{ key: 'uploads/u2/000000' }]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('reports rows whose files are not in the store', () => {
+    const result = reconcileMediaObjects(store, [], [
+      { source: 'asset', id: 'a1', storage_backend: 's3', storage_key: 'library/a1.pdf' },
+      { source: 'media', id: 'm2', storage_backend: 'supabase', storage_key: 'sops/x.jpg' },
+      { source: 'version', id: 'v1', storage_backend: 's3', storage_key: 'sops/gone.jpg' }
+    ]);
+
+    expect(result.missing).toEqual([{ source: 'asset', id: 'a1', storage_key: 'library/a1.pdf' }]);
+  });
+
+  it('ignores keys of other backends', () => {
+    const result = reconcileMediaObjects(store, [{ key: 'sops/x.jpg' }], [
+      { source: 'media', id: 'm2', storage_backend: 'supabase', storage_key: 'sops/x.jpg' }
+    ]);
+
+    expect(result.orphans).toEqual([{ key: 'sops/x.jpg' }]);
+  });
+});
+
+describe('orphansPastGracePeriod', () => {
+  it('returns orphans first seen before the cutoff', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const orphans = [
+      { storage_key: 'old', first_seen_at: '2025-03-03T12:00:00Z' },
+      { storage_key: 'new', first_seen_at: '2025-03-09T12:00:00Z' }
+    ];
+
+    expect(orphansPastGracePeriod(orphans, 168, now).map(orphan => orphan.storage_key)).toEqual(['old']);
+    expect(orphansPastGracePeriod(orphans, 0, now)).toHaveLength(2);
+  });
+});
+
+describe('mediaGcGraceHours', () => {
+  it('reads the grace period from the environment', () => {
+    expect(mediaGcGraceHours({ MEDIA_GC_GRACE_HOURS: '24' })).toBe(24);
+    expect(mediaGcGraceHours({ MEDIA_GC_GRACE_HOURS: '0' })).toBe(0);
+    expect(mediaGcGraceHours({ MEDIA_GC_GRACE_HOURS: 'soon' })).toBe(DEFAULT_MEDIA_GC_GRACE_HOURS);
+    expect(mediaGcGraceHours({})).toBe(DEFAULT_MEDIA_GC_GRACE_HOURS);
+  });
+});
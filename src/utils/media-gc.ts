@@ -0,0 +1,362 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { getMediaStore, getPrivateMediaStore, MediaObjectInfo, MediaStore } from '@/utils/media-store';
+import { MediaGcRun, MediaOrphan, MediaVariant } from '@/types/database.types';
+import { uploadChunkPrefix } from '@/utils/upload-sessions';
+
+/**
+ * Reconciliation of a media store, and the private store next to it (see
+ * getPrivateMediaStore), with the database. Every object in the stores is
+ * checked against what refers to it:
+ *
+ *   media rows          storage_key and variant keys, or url for legacy rows
+ *   media_assets        storage_key and variant keys
+ *   sop_versions        media in the step snapshots, so restores keep working
+ *   media_quarantine    storage_key of files held for review
+ *   sop_run_steps       photo_storage_key and variant keys of run photos
+ *   media_upload_sessions  chunks of sessions still open
+ *
+ * Objects nothing refers to are orphans. They are recorded in media_orphans
+ * when first seen and deleted once orphaned for MEDIA_GC_GRACE_HOURS
+ * (default 168), as are uploads left in staging. Rows whose file is not in
+ * the stores are reported as missing.
+ */
+
+type Env = Record<string, string | undefined>;
+
+export const DEFAULT_MEDIA_GC_GRACE_HOURS = 168;
+
+const PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Something that refers to stored files
+ */
+export interface MediaFileReference {
+  source: 'media' | 'asset' | 'version' | 'quarantine' | 'upload' | 'run';
+  id: string;
+  storage_backend?: string | null;
+  storage_key?: string | null;
+  /** Every object under this prefix is referenced */
+  storage_prefix?: string | null;
+  url?: string | null;
+  variants?: MediaVariant[] | null;
+}
+
+export interface MissingMediaFile {
+  source: 'media' | 'asset' | 'quarantine' | 'run';
+  id: string;
+  storage_key: string;
+}
+
+export interface MediaReconciliation {
+  scanned: number;
+  referenced: number;
+  orphans: MediaObjectInfo[];
+  missing: MissingMediaFile[];
+}
+
+export interface MediaGcReport {
+  run: MediaGcRun;
+  grace_hours: number;
+  orphans: MediaOrphan[];
+  missing: MissingMediaFile[];
+  deleted: string[];
+}
+
+export interface MediaGcOptions {
+  store?: MediaStore;
+  /** Store for staged uploads, chunks and quarantine; `store` when only that is given */
+  privateStore?: MediaStore;
+  /** Report only; nothing is deleted */
+  dryRun?: boolean;
+  graceHours?: number;
+  triggeredBy?: string;
+  now?: Date;
+}
+
+export function mediaGcGraceHours(env: Env = process.env): number {
+  const hours = Number(env.MEDIA_GC_GRACE_HOURS);
+  return env.MEDIA_GC_GRACE_HOURS && Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_MEDIA_GC_GRACE_HOURS;
+}
+
+/**
+ * Load every row of a query, a page at a time
+ * @param page builds the query for rows `from`..`to`
+ */
+export async function selectAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Compare the objects of a store with the references to them
+ */
+export function reconcileMediaObjects(
+  store: Pick<MediaStore, 'name' | 'publicUrl'>,
+  objects: MediaObjectInfo[],
+  references: MediaFileReference[]
+): MediaReconciliation {
+  const referencedKeys = new Set<string>();
+  const referencedUrls = new Set<string>();
+  const referencedPrefixes: string[] = [];
+
+  for (const reference of references) {
+    if (reference.url) referencedUrls.add(reference.url);
+    if (reference.storage_prefix && reference.storage_backend === store.name) {
+      referencedPrefixes.push(reference.storage_prefix);
+    }
+    for (const variant of reference.variants || []) {
+      referencedUrls.add(variant.url);
+      if (reference.storage_backend === store.name) referencedKeys.add(variant.storage_key);
+    }
+    if (reference.storage_key && reference.storage_backend === store.name) {
+      referencedKeys.add(reference.storage_key);
+    }
+  }
+
+  const objectKeys = new Set(objects.map(object => object.key));
+  // Legacy rows only know the URL of their file
+  const orphans = objects.filter(object =>
+    !referencedKeys.has(object.key) &&
+    !referencedUrls.has(store.publicUrl(object.key)) &&
+    !referencedPrefixes.some(prefix => object.key.startsWith(prefix))
+  );
+
+  const missing: MissingMediaFile[] = [];
+  for (const reference of references) {
+    // Snapshots may point to files of rows that were cleaned up long ago
+    if (reference.source === 'version' || reference.source === 'upload' || reference.storage_backend !== store.name || !reference.storage_key) continue;
+    const keys = [reference.storage_key, ...(reference.variants || []).map(variant => variant.storage_key)];
+    for (const key of keys) {
+      if (!objectKeys.has(key)) {
+        missing.push({ source: reference.source, id: reference.id, storage_key: key });
+      }
+    }
+  }
+
+  return {
+    scanned: objects.length,
+    referenced: objects.length - orphans.length,
+    orphans,
+    missing
+  };
+}
+
+/**
+ * Orphans that have stayed orphaned for the whole grace period
+ */
+export function orphansPastGracePeriod<T extends Pick<MediaOrphan, 'first_seen_at'>>(
+  orphans: T[],
+  graceHours: number,
+  now: Date = new Date()
+): T[] {
+  const cutoff = now.getTime() - graceHours * 60 * 60 * 1000;
+  return orphans.filter(orphan => new Date(orphan.first_seen_at).getTime() <= cutoff);
+}
+
+/**
+ * Everything in the database that refers to stored files
+ */
+export async function loadMediaFileReferences(supabase: SupabaseClient): Promise<MediaFileReference[]> {
+  const [media, assets, versions, quarantined, uploads, runPhotos] = await Promise.all([
+    selectAllRows<Omit<MediaFileReference, 'source'>>((from, to) => supabase
+      .from('media')
+      .select('id, storage_backend, storage_key, url, variants')
+      .order('id')
+      .range(from, to)),
+    selectAllRows<Omit<MediaFileReference, 'source'>>((from, to) => supabase
+      .from('media_assets')
+      .select('id, storage_backend, storage_key, url, variants')
+      .order('id')
+      .range(from, to)),
+    selectAllRows<{ id: string; steps: { media?: Omit<MediaFileReference, 'source'>[] }[] | null }>((from, to) => supabase
+      .from('sop_versions')
+      .select('id, steps')
+      .order('id')
+      .range(from, to)),
+    selectAllRows<Omit<MediaFileReference, 'source'>>((from, to) => supabase
+      .from('media_quarantine')
+      .select('id, storage_backend, storage_key')
+      .order('id')
+      .range(from, to)),
+    // Chunks of expired sessions are left to become orphans
+    selectAllRows<{ id: string; storage_backend: string }>((from, to) => supabase
+      .from('media_upload_sessions')
+      .select('id, storage_backend')
+      .in('status', ['uploading', 'completing'])
+      .gt('expires_at', new Date().toISOString())
+      .order('id')
+      .range(from, to)),
+    selectAllRows<{ id: string; photo_storage_backend: string; photo_storage_key: string; photo_variants: MediaVariant[] | null }>((from, to) => supabase
+      .from('sop_run_steps')
+      .select('id, photo_storage_backend, photo_storage_key, photo_variants')
+      .not('photo_storage_key', 'is', null)
+      .order('id')
+      .range(from, to))
+  ]);
+
+  return [
+    ...media.map(row => ({ ...row, source: 'media' as const })),
+    ...assets.map(row => ({ ...row, source: 'asset' as const })),
+    ...quarantined.map(row => ({ ...row, source: 'quarantine' as const })),
+    ...uploads.map(row => ({ ...row, storage_prefix: uploadChunkPrefix(row.id), source: 'upload' as const })),
+    ...runPhotos.map(row => ({
+      id: row.id,
+      storage_backend: row.photo_storage_backend,
+      storage_key: row.photo_storage_key,
+      variants: row.photo_variants,
+      source: 'run' as const
+    })),
+    ...versions.flatMap(version => (version.steps || []).flatMap(step => (step.media || []).map(row => ({
+      ...row,
+      id: version.id,
+      source: 'version' as const
+    }))))
+  ];
+}
+
+async function finishRun(supabase: SupabaseClient, runId: string, fields: Partial<MediaGcRun>): Promise<MediaGcRun> {
+  const { data, error } = await supabase
+    .from('media_gc_runs')
+    .update({ ...fields, finished_at: new Date().toISOString() })
+    .eq('id', runId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record media GC run: ${error.message}`);
+  }
+
+  return data as MediaGcRun;
+}
+
+/**
+ * Reconcile the configured media store with the database, record orphans
+ * and delete those past the grace period (unless `dryRun`)
+ */
+export async function runMediaGc(supabase: SupabaseClient, options: MediaGcOptions = {}): Promise<MediaGcReport> {
+  const store = options.store ?? getMediaStore();
+  const privateStore = options.privateStore ?? (options.store ? options.store : getPrivateMediaStore(store.name));
+  const graceHours = options.graceHours ?? mediaGcGraceHours();
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+
+  const { data: run, error: runError } = await supabase
+    .from('media_gc_runs')
+    .insert({ storage_backend: store.name, dry_run: dryRun, triggered_by: options.triggeredBy ?? null })
+    .select()
+    .single();
+
+  if (runError) {
+    throw new Error(`Failed to start media GC run: ${runError.message}`);
+  }
+
+  try {
+    // Never delete on a partial picture: any failure here aborts the run
+    const [publicObjects, privateObjects, references] = await Promise.all([
+      store.list(),
+      privateStore === store ? Promise.resolve([]) : privateStore.list(),
+      loadMediaFileReferences(supabase)
+    ]);
+    const objects = [...publicObjects, ...privateObjects];
+    const privateKeys = new Set(privateObjects.map(object => object.key));
+    const reconciliation = reconcileMediaObjects(store, objects, references);
+    const orphanKeys = new Set(reconciliation.orphans.map(orphan => orphan.key));
+
+    // Record new orphans; first_seen_at of known ones is kept
+    for (let i = 0; i < reconciliation.orphans.length; i += DELETE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('media_orphans')
+        .upsert(reconciliation.orphans.slice(i, i + DELETE_BATCH_SIZE).map(orphan => ({
+          storage_backend: store.name,
+          storage_key: orphan.key,
+          size_bytes: orphan.size ?? null,
+          last_modified: orphan.lastModified ?? null
+        })), { onConflict: 'storage_backend,storage_key', ignoreDuplicates: true });
+
+      if (error) {
+        throw new Error(`Failed to record media orphans: ${error.message}`);
+      }
+    }
+
+    const recorded = await selectAllRows<MediaOrphan>((from, to) => supabase
+      .from('media_orphans')
+      .select('*')
+      .eq('storage_backend', store.name)
+      .order('storage_key')
+      .range(from, to));
+
+    // Objects that are referenced again, or gone, are no longer orphans
+    const stale = recorded.filter(orphan => !orphanKeys.has(orphan.storage_key)).map(orphan => orphan.storage_key);
+    const orphans = recorded.filter(orphan => orphanKeys.has(orphan.storage_key));
+    const deleted: string[] = [];
+    let deletedBytes = 0;
+
+    if (!dryRun) {
+      for (const orphan of orphansPastGracePeriod(orphans, graceHours, now)) {
+        try {
+          await (privateKeys.has(orphan.storage_key) ? privateStore : store).delete(orphan.storage_key);
+          deleted.push(orphan.storage_key);
+          deletedBytes += orphan.size_bytes || 0;
+        } catch (error) {
+          logger.warn('Could not delete orphaned media file', { error, key: orphan.storage_key });
+        }
+      }
+    }
+
+    const removed = [...stale, ...deleted];
+    for (let i = 0; i < removed.length; i += DELETE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('media_orphans')
+        .delete()
+        .eq('storage_backend', store.name)
+        .in('storage_key', removed.slice(i, i + DELETE_BATCH_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to clear media orphans: ${error.message}`);
+      }
+    }
+
+    const remaining = orphans.filter(orphan => !deleted.includes(orphan.storage_key));
+    const finished = await finishRun(supabase, run.id, {
+      status: 'completed',
+      scanned_count: reconciliation.scanned,
+      orphan_count: remaining.length,
+      orphan_bytes: remaining.reduce((total, orphan) => total + (orphan.size_bytes || 0), 0),
+      missing_count: reconciliation.missing.length,
+      deleted_count: deleted.length,
+      deleted_bytes: deletedBytes
+    });
+
+    logger.info('Media GC run completed', {
+      runId: run.id,
+      store: store.name,
+      dryRun,
+      scanned: reconciliation.scanned,
+      orphans: remaining.length,
+      missing: reconciliation.missing.length,
+      deleted: deleted.length
+    });
+
+    return { run: finished, grace_hours: graceHours, orphans: remaining, missing: reconciliation.missing, deleted };
+  } catch (error) {
+    await finishRun(supabase, run.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    }).catch(finishError => logger.error('Failed to record media GC failure', finishError));
+    throw error;
+  }
+}
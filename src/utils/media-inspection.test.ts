@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { deflateSync } from 'zlib';
+import { MediaUploadRejectedError } from '@/utils/media-store/errors';
+import { findMarkup, findPdfActiveContent, inspectMediaUpload, sniffMediaType } from './media-inspection';
+
+const bytes = (...parts: (string | number[] | Buffer)[]) => new Uint8Array(Buffer.concat(parts.map(part =>
+  typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)
+)));
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe0];
+
+describe('sniffMediaType', () => {
+  it('reads the type from the magic bytes', () => {
+    expect(sniffMediaType(bytes(PNG_HEADER, 'IHDR'))).toBe('image/png');
+    expect(sniffMediaType(bytes(JPEG_HEADER))).toBe('image/jpeg');
+    expect(sniffMediaType(bytes('GIF89a'))).toBe('image/gif');
+    expect(sniffMediaType(bytes('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniffMediaType(bytes([0, 0, 0, 0x18], 'ftypmp42'))).toBe('video/mp4');
+    expect(sniffMediaType(bytes('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+});
+
+describe('findMarkup', () => {
+  it('finds markup a browser would render at the start of a file', () => {
+    expect(findMarkup(bytes('GIF89a<html><script>alert(1)</script>'), 'image/gif')).toBe('<html>');
+    expect(findMarkup(bytes(PNG_HEADER, '<?xml version="1.0"?>'), 'image/png')).toBe('<?xml');
+  });
+
+  it('searches all of an image but not all of a video', () => {
+    const padding = Buffer.alloc(4096, 0x41);
+    expect(findMarkup(bytes(JPEG_HEADER, padding, '<svg onload=alert(1)>'), 'image/jpeg')).toBe('<svg');
+    expect(findMarkup(bytes([0, 0, 0, 0x18], 'ftypmp42', padding, '<svg onload=alert(1)>'), 'video/mp4')).toBeNull();
+  });
+
+  it('accepts XMP metadata later in the file', () => {
+    const padding = Buffer.alloc(4096, 0x41);
+    expect(findMarkup(bytes(JPEG_HEADER, padding, '<?xml version="1.0"?><x:xmpmeta/>'), 'image/jpeg')).toBeNull();
+  });
+});
+
+describe('findPdfActiveContent', () => {
+  it('finds JavaScript and launch actions', () => {
+    expect(findPdfActiveContent(bytes('%PDF-1.4\n1 0 obj << /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>'))).toBe('JavaScript');
+    expect(findPdfActiveContent(bytes('%PDF-1.4\n1 0 obj << /S /Launch /F (calc.exe) >>'))).toBe('a launch action');
+    expect(findPdfActiveContent(bytes('%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >>'))).toBeNull();
+  });
+
+  it('decodes escaped names', () => {
+    expect(findPdfActiveContent(bytes('%PDF-1.4\n<< /S /J#61va#53cript >>'))).toBe('JavaScript');
+  });
+
+  it('looks inside compressed streams', () => {
+    const hidden = deflateSync(Buffer.from('<< /Type /Action /S /JavaScript /JS (app.alert(1)) >>'));
+    expect(findPdfActiveContent(bytes('%PDF-1.5\n5 0 obj << /Type /ObjStm /Filter /FlateDecode >>\nstream\n', hidden, '\nendstream\nendobj'))).toBe('JavaScript');
+  });
+
+  it('refuses streams that inflate past the limits instead of skipping them', () => {
+    const stream = (content: Buffer) => ['stream\n', deflateSync(content), '\nendstream\n'] as const;
+    // The script sits past the padding, so it is only found by inflating everything
+    const bomb = Buffer.concat([Buffer.alloc(9 * 1024 * 1024, 0x20), Buffer.from('<< /S /JavaScript /JS (app.alert(1)) >>')]);
+    const pdf = bytes('%PDF-1.5\n', ...stream(bomb));
+
+    expect(pdf.byteLength).toBeLessThan(20 * 1024);
+    expect(findPdfActiveContent(pdf)).toBe('compressed content too large to inspect');
+    expect(() => inspectMediaUpload({ type: 'application/pdf', body: pdf })).toThrow(MediaUploadRejectedError);
+
+    const pages = Buffer.alloc(600, 0x20);
+    expect(findPdfActiveContent(bytes('%PDF-1.5\n', ...stream(pages), ...stream(pages)), { stream: 1024, total: 1000 }))
+      .toBe('compressed content too large to inspect');
+    expect(findPdfActiveContent(bytes('%PDF-1.5\n', ...stream(pages), ...stream(pages)), { stream: 1024, total: 2048 })).toBeNull();
+  });
+});
+
+describe('inspectMediaUpload', () => {
+  it('returns the detected type of an accepted file', () => {
+    expect(inspectMediaUpload({ type: 'application/pdf', body: bytes('%PDF-1.4\n<< /Type /Catalog >>') })).toBe('application/pdf');
+  });
+
+  it('rejects files whose content does not match their type', () => {
+    expect(() => inspectMediaUpload({ type: 'image/png', body: bytes(JPEG_HEADER) })).toThrow(MediaUploadRejectedError);
+    expect(() => inspectMediaUpload({ type: 'image/png', body: bytes('<svg/>') })).toThrow('not a supported media type');
+  });
+
+  it('rejects polyglots and PDFs with scripts', () => {
+    expect(() => inspectMediaUpload({ type: 'image/gif', body: bytes('GIF89a/*<html>*/') })).toThrow('markup');
+    expect(() => inspectMediaUpload({ type: 'application/pdf', body: bytes('%PDF-1.4\n<< /JS (x) >>') })).toThrow('JavaScript');
+  });
+});
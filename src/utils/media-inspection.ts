@@ -0,0 +1,154 @@
+import { inflateSync } from 'zlib';
+import { MediaUploadRejectedError } from '@/utils/media-store/errors';
+
+/**
+ * Content checks for uploads. The browser-supplied type is not trusted:
+ *
+ *   - the magic bytes must match the declared type
+ *   - markup a browser could render (HTML, SVG, script) is refused, so a
+ *     file cannot pass as an image and run as a page (polyglots)
+ *   - PDFs with JavaScript or launch actions are refused, including those
+ *     hidden in compressed object streams, as are PDFs whose streams inflate
+ *     past the limits and so cannot be searched completely
+ */
+
+const SIGNATURES: { type: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { type: 'image/jpeg', matches: bytes => startsWith(bytes, [0xff, 0xd8, 0xff]) },
+  { type: 'image/png', matches: bytes => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { type: 'image/gif', matches: bytes => ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a' },
+  { type: 'application/pdf', matches: bytes => ascii(bytes, 0, 5) === '%PDF-' },
+  { type: 'video/mp4', matches: bytes => ascii(bytes, 4, 8) === 'ftyp' },
+];
+
+// Where browsers look when they sniff a document
+const LEADING_BYTES = 1024;
+
+// Files of these types are small enough to search completely for markup
+const FULL_SCAN_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
+
+const MARKUP_PATTERN = /<(script|svg|html|iframe|body|object|embed)[\s>/]|<!doctype\s+html|<\?xml/i;
+
+// A shorter list outside the leading bytes: XMP metadata in images and PDFs
+// starts with <?xml, and short tags would match by chance in binary data
+const EMBEDDED_MARKUP_PATTERN = /<(script|svg|html|iframe)[\s>/]|<!doctype\s+html/i;
+
+const PDF_ACTIVE_NAMES: Record<string, string> = {
+  '/JavaScript': 'JavaScript',
+  '/JS': 'JavaScript',
+  '/Launch': 'a launch action',
+};
+
+// Limits for inflating PDF streams, so a compression bomb can't exhaust memory.
+// PDFs over them are refused, as what is past the limit goes unchecked.
+export const PDF_INFLATE_LIMITS = {
+  stream: 8 * 1024 * 1024,
+  total: 64 * 1024 * 1024,
+};
+
+const PDF_TOO_LARGE = 'compressed content too large to inspect';
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return Buffer.from(bytes.subarray(start, end)).toString('latin1');
+}
+
+/**
+ * The media type of a file from its magic bytes, or null when unknown
+ */
+export function sniffMediaType(bytes: Uint8Array): string | null {
+  return SIGNATURES.find(signature => signature.matches(bytes))?.type ?? null;
+}
+
+/**
+ * Markup in a file that a browser could render, e.g. `<svg`; null when none
+ */
+export function findMarkup(bytes: Uint8Array, type: string): string | null {
+  const leading = ascii(bytes, 0, LEADING_BYTES).match(MARKUP_PATTERN);
+  if (leading) return leading[0].trim();
+
+  if (FULL_SCAN_TYPES.includes(type) && bytes.byteLength > LEADING_BYTES) {
+    const embedded = Buffer.from(bytes).toString('latin1').match(EMBEDDED_MARKUP_PATTERN);
+    if (embedded) return embedded[0].trim();
+  }
+
+  return null;
+}
+
+// PDF names may escape any character as #xx, e.g. /J#61vaScript
+function pdfActiveName(text: string): string | null {
+  for (const match of text.matchAll(/\/(?:[^\s/[\]<>(){}%#]|#[0-9a-fA-F]{2})+/g)) {
+    const name = match[0].replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    if (PDF_ACTIVE_NAMES[name]) return PDF_ACTIVE_NAMES[name];
+  }
+  return null;
+}
+
+/**
+ * Active content in a PDF (JavaScript, launch actions); null when none
+ * Compressed streams are inflated and searched too; when they inflate past
+ * the limits the PDF is reported as too large to inspect.
+ */
+export function findPdfActiveContent(bytes: Uint8Array, limits = PDF_INFLATE_LIMITS): string | null {
+  const buffer = Buffer.from(bytes);
+  const text = buffer.toString('latin1');
+
+  const found = pdfActiveName(text);
+  if (found) return found;
+
+  let inflatedTotal = 0;
+  for (const match of text.matchAll(/stream\r?\n/g)) {
+    const start = match.index! + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end < 0) break;
+
+    let inflated: Buffer;
+    try {
+      inflated = inflateSync(buffer.subarray(start, end), { maxOutputLength: limits.stream });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return PDF_TOO_LARGE;
+      // Not a deflated stream (images, fonts)
+      continue;
+    }
+
+    inflatedTotal += inflated.byteLength;
+    if (inflatedTotal > limits.total) return PDF_TOO_LARGE;
+
+    const hidden = pdfActiveName(inflated.toString('latin1'));
+    if (hidden) return hidden;
+  }
+
+  return null;
+}
+
+/**
+ * Check the content of an upload against its declared type
+ * @returns the type found from the magic bytes
+ * @throws MediaUploadRejectedError when the file is not allowed
+ */
+export function inspectMediaUpload(file: { type: string; body: Uint8Array }): string {
+  const detected = sniffMediaType(file.body);
+
+  if (!detected) {
+    throw new MediaUploadRejectedError('The file content is not a supported media type');
+  }
+  if (detected !== file.type) {
+    throw new MediaUploadRejectedError(`The file content (${detected}) does not match its type (${file.type})`);
+  }
+
+  const markup = findMarkup(file.body, detected);
+  if (markup) {
+    throw new MediaUploadRejectedError(`The file contains markup (${markup}) and could be rendered as a web page`);
+  }
+
+  if (detected === 'application/pdf') {
+    const active = findPdfActiveContent(file.body);
+    if (active) {
+      throw new MediaUploadRejectedError(`PDF files with ${active} are not allowed`);
+    }
+  }
+
+  return detected;
+}
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { MediaAsset } from '@/types/database.types';
+import {
+  assetMediaFields,
+  groupAssetUsage,
+  librarySearchFilter,
+  MAX_ASSET_TAGS,
+  MEDIA_LIBRARY_PAGE_SIZE,
+  normalizeAssetTags,
+  parseLibraryQuery
+} from './media-library';
+
+describe('normalizeAssetTags', () => {
+  it('trims, lowercases and removes duplicates', () => {
+    expect(normalizeAssetTags(['  Lockout ', 'LOCKOUT', 'Safety   Tag', '', 42])).toEqual(['lockout', 'safety tag']);
+    expect(normalizeAssetTags('ppe, Gloves,,ppe')).toEqual(['ppe', 'gloves']);
+    expect(normalizeAssetTags(null)).toEqual([]);
+  });
+
+  it('keeps at most the maximum number of tags', () => {
+    const tags = Array.from({ length: MAX_ASSET_TAGS + 5 }, (_, i) => `tag ${i}`);
+    expect(normalizeAssetTags(tags)).toHaveLength(MAX_ASSET_TAGS);
+  });
+});
+
+describe('parseLibraryQuery', () => {
+  it('reads filters from the query string', () => {
+    expect(parseLibraryQuery(new URLSearchParams('q= lockout &folder=root&tag=PPE&type=image&limit=500&offset=48'))).toEqual({
+      search: 'lockout',
+      folderId: null,
+      tag: 'ppe',
+      type: 'image',
+      limit: 100,
+      offset: 48,
+    });
+  });
+
+  it('falls back to every folder and the first page', () => {
+    expect(parseLibraryQuery(new URLSearchParams('type=audio&limit=-1'))).toEqual({
+      search: undefined,
+      folderId: undefined,
+      tag: undefined,
+      type: undefined,
+      limit: MEDIA_LIBRARY_PAGE_SIZE,
+      offset: 0,
+    });
+  });
+});
+
+describe('librarySearchFilter', () => {
+  it('matches the name, description, filename and tags', () => {
+    expect(librarySearchFilter('Lockout Tag')).toBe(
+      'name.ilike.%Lockout Tag%,description.ilike.%Lockout Tag%,filename.ilike.%Lockout Tag%,tags.cs.{"lockout tag"}'
+    );
+  });
+
+  it('drops characters of the filter syntax', () => {
+    expect(librarySearchFilter('a,b(c)*')).toMatch(/^name\.ilike\.%a b c%,/);
+    expect(librarySearchFilter(' ,() ')).toBeNull();
+  });
+});
+
+describe('groupAssetUsage', () => {
+  it('groups steps by SOP, sorted by title', () => {
+    expect(groupAssetUsage([
+      { id: 'm1', step_id: 's1', steps: { title: 'Isolate power', sop_id: 'b', sops: { title: 'Pump maintenance' } } },
+      { id: 'm2', step_id: 's2', steps: { title: null, sop_id: 'a', sops: { title: 'Conveyor lockout' } } },
+      { id: 'm3', step_id: 's3', steps: { title: 'Apply tag', sop_id: 'b', sops: { title: 'Pump maintenance' } } },
+    ])).toEqual([
+      { sop_id: 'a', sop_title: 'Conveyor lockout', steps: [{ media_id: 'm2', step_id: 's2', step_title: 'Untitled step' }] },
+      {
+        sop_id: 'b',
+        sop_title: 'Pump maintenance',
+        steps: [
+          { media_id: 'm1', step_id: 's1', step_title: 'Isolate power' },
+          { media_id: 'm3', step_id: 's3', step_title: 'Apply tag' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('assetMediaFields', () => {
+  it('copies the file of the asset without its storage key', () => {
+    const asset = {
+      id: 'asset-1',
+      type: 'image',
+      url: '/m/library/tag.jpg',
+      filename: 'tag.jpg',
+      content_type: 'image/jpeg',
+      storage_backend: 'local',
+      storage_key: 'library/tag.jpg',
+      size_bytes: 1000,
+      width: 800,
+      height: 600,
+      blurhash: 'LKO2?U%2Tw=w]~RBVZRi};RPxuwH',
+      variants: [],
+    } as unknown as MediaAsset;
+
+    expect(assetMediaFields(asset)).toMatchObject({
+      url: '/m/library/tag.jpg',
+      width: 800,
+      storage_backend: null,
+      storage_key: null,
+    });
+  });
+});
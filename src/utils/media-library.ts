@@ -0,0 +1,403 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { Media, MediaAsset, MediaType } from '@/types/database.types';
+import { getMediaStore, MediaStore } from '@/utils/media-store';
+import { MediaScanFields, recordMediaScan, screenMediaUpload } from '@/utils/media-screening';
+import {
+  deleteMediaFiles,
+  mediaFileKey,
+  mediaTypeFor,
+  MediaUpload,
+  putMediaFile,
+  removeMediaFiles,
+  StoredMediaFile
+} from '@/utils/step-media';
+
+/**
+ * Shared media library: files uploaded once and reused by any number of
+ * steps. A step uses an asset through a media row with its `asset_id` that
+ * holds a copy of the asset's file fields, so readers of media need no
+ * changes; replacing the asset rewrites every copy. Library rows have no
+ * storage key of their own, so deleting one never deletes the asset's file.
+ */
+
+export const MAX_ASSET_TAGS = 20;
+export const MEDIA_LIBRARY_PAGE_SIZE = 48;
+
+const MAX_TAG_LENGTH = 40;
+const MAX_NAME_LENGTH = 200;
+const LIBRARY_KEY_PREFIX = 'library';
+const MEDIA_TYPES: MediaType[] = ['image', 'video', 'document'];
+
+export interface MediaLibraryQuery {
+  search?: string;
+  /** undefined for every folder, null for the top of the library */
+  folderId?: string | null;
+  tag?: string;
+  type?: MediaType;
+  limit: number;
+  offset: number;
+}
+
+export type MediaAssetWithUsage = MediaAsset & { usage_count: number };
+
+/**
+ * The SOPs and steps that use an asset, for the "where used" list
+ */
+export interface MediaAssetUsage {
+  sop_id: string;
+  sop_title: string;
+  steps: { media_id: string; step_id: string; step_title: string }[];
+}
+
+export interface MediaAssetFields {
+  name?: string;
+  description?: string | null;
+  tags?: string[];
+  folderId?: string | null;
+}
+
+interface AssetUsageRow {
+  id: string;
+  step_id: string;
+  steps: { title: string | null; sop_id: string; sops: { title: string | null } | null } | null;
+}
+
+/**
+ * Tags as stored: trimmed, lowercase, without duplicates. Accepts an array
+ * or a comma-separated string (form uploads).
+ */
+export function normalizeAssetTags(input: unknown): string[] {
+  const values = Array.isArray(input) ? input : typeof input === 'string' ? input.split(',') : [];
+  const tags: string[] = [];
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const tag = value.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+
+  return tags.slice(0, MAX_ASSET_TAGS);
+}
+
+export function normalizeAssetName(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const name = input.trim().slice(0, MAX_NAME_LENGTH);
+  return name || null;
+}
+
+/**
+ * Library filters from a query string:
+ * `?q=&folder=<id>|root&tag=&type=image|video|document&limit=&offset=`
+ */
+export function parseLibraryQuery(params: URLSearchParams): MediaLibraryQuery {
+  const folder = params.get('folder');
+  const type = params.get('type') as MediaType | null;
+  const limit = Number(params.get('limit'));
+  const offset = Number(params.get('offset'));
+
+  return {
+    search: params.get('q')?.trim() || undefined,
+    folderId: folder === 'root' ? null : folder || undefined,
+    tag: normalizeAssetTags([params.get('tag') ?? ''])[0],
+    type: type && MEDIA_TYPES.includes(type) ? type : undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : MEDIA_LIBRARY_PAGE_SIZE,
+    offset: Number.isInteger(offset) && offset > 0 ? offset : 0
+  };
+}
+
+/**
+ * PostgREST `or` filter matching a search term in the name, description,
+ * filename or tags. Characters with a meaning in the filter syntax are dropped.
+ * @returns null when nothing is left to search for
+ */
+export function librarySearchFilter(search: string): string | null {
+  const term = search.replace(/[,()%*{}"\\:]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!term) return null;
+
+  return [
+    `name.ilike.%${term}%`,
+    `description.ilike.%${term}%`,
+    `filename.ilike.%${term}%`,
+    `tags.cs.{"${term.toLowerCase()}"}`
+  ].join(',');
+}
+
+/**
+ * Fields of a media row that come from its asset. Rows keep no storage key,
+ * the file belongs to the library.
+ */
+export function assetMediaFields(asset: MediaAsset) {
+  return {
+    type: asset.type,
+    url: asset.url,
+    filename: asset.filename,
+    size_bytes: asset.size_bytes,
+    content_type: asset.content_type,
+    storage_backend: null,
+    storage_key: null,
+    width: asset.width,
+    height: asset.height,
+    blurhash: asset.blurhash,
+    variants: asset.variants,
+    duration_seconds: asset.duration_seconds,
+    scan_status: asset.scan_status,
+    scanner: asset.scanner,
+    scanned_at: asset.scanned_at,
+    detected_content_type: asset.detected_content_type
+  };
+}
+
+/**
+ * Whether a user may edit, replace or delete an asset or folder: the person
+ * who added it, editors and admins
+ */
+export function canManageLibraryItem(item: { created_by: string }, user: { id: string; role: string }): boolean {
+  return item.created_by === user.id || user.role === 'admin' || user.role === 'editor';
+}
+
+export function groupAssetUsage(rows: AssetUsageRow[]): MediaAssetUsage[] {
+  const bySop = new Map<string, MediaAssetUsage>();
+
+  for (const row of rows) {
+    if (!row.steps) continue;
+    const sopId = row.steps.sop_id;
+    let usage = bySop.get(sopId);
+    if (!usage) {
+      usage = { sop_id: sopId, sop_title: row.steps.sops?.title || 'Untitled SOP', steps: [] };
+      bySop.set(sopId, usage);
+    }
+    usage.steps.push({ media_id: row.id, step_id: row.step_id, step_title: row.steps.title || 'Untitled step' });
+  }
+
+  return [...bySop.values()].sort((a, b) => a.sop_title.localeCompare(b.sop_title));
+}
+
+function storedAssetFields(store: MediaStore, key: string, file: MediaUpload, stored: StoredMediaFile, scan: MediaScanFields) {
+  return {
+    ...scan,
+    type: mediaTypeFor(file.type),
+    content_type: file.type,
+    filename: file.name,
+    url: store.publicUrl(key),
+    storage_backend: store.name,
+    storage_key: key,
+    size_bytes: stored.size,
+    width: stored.image?.width ?? stored.video?.width ?? null,
+    height: stored.image?.height ?? stored.video?.height ?? null,
+    blurhash: stored.image?.blurhash ?? null,
+    variants: stored.image?.variants ?? stored.video?.variants ?? [],
+    duration_seconds: stored.video?.duration_seconds ?? null
+  };
+}
+
+/**
+ * Search the library, newest changes first, with how many steps use each asset
+ */
+export async function listLibraryAssets(
+  supabase: SupabaseClient,
+  query: MediaLibraryQuery
+): Promise<{ assets: MediaAssetWithUsage[]; total: number }> {
+  let request = supabase
+    .from('media_assets')
+    .select('*', { count: 'exact' });
+
+  if (query.folderId === null) {
+    request = request.is('folder_id', null);
+  } else if (query.folderId) {
+    request = request.eq('folder_id', query.folderId);
+  }
+  if (query.tag) {
+    request = request.contains('tags', [query.tag]);
+  }
+  if (query.type) {
+    request = request.eq('type', query.type);
+  }
+
+  const filter = query.search ? librarySearchFilter(query.search) : null;
+  if (filter) {
+    request = request.or(filter);
+  }
+
+  const { data, error, count } = await request
+    .order('updated_at', { ascending: false })
+    .range(query.offset, query.offset + query.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch media assets: ${error.message}`);
+  }
+
+  const assets = (data || []) as MediaAsset[];
+  const usageCounts = new Map<string, number>();
+
+  if (assets.length > 0) {
+    const { data: uses, error: usesError } = await supabase
+      .from('media')
+      .select('asset_id')
+      .in('asset_id', assets.map(asset => asset.id));
+
+    if (usesError) {
+      throw new Error(`Failed to count media asset usage: ${usesError.message}`);
+    }
+
+    for (const use of uses || []) {
+      usageCounts.set(use.asset_id, (usageCounts.get(use.asset_id) || 0) + 1);
+    }
+  }
+
+  return {
+    assets: assets.map(asset => ({ ...asset, usage_count: usageCounts.get(asset.id) || 0 })),
+    total: count ?? assets.length
+  };
+}
+
+/**
+ * Store an upload in the library
+ * The file must already be validated with validateMediaUpload; its content
+ * is screened here.
+ */
+export async function createLibraryAsset(
+  supabase: SupabaseClient,
+  userId: string,
+  file: MediaUpload,
+  fields: MediaAssetFields,
+  store: MediaStore = getMediaStore()
+): Promise<MediaAsset> {
+  const scan = await screenMediaUpload(supabase, store, file, { userId });
+  const key = mediaFileKey(LIBRARY_KEY_PREFIX, file.name);
+  const stored = await putMediaFile(store, key, file);
+
+  const { data, error } = await supabase
+    .from('media_assets')
+    .insert({
+      ...storedAssetFields(store, key, file, stored, scan),
+      name: fields.name || file.name,
+      description: fields.description || null,
+      tags: fields.tags || [],
+      folder_id: fields.folderId || null,
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await removeMediaFiles(store, stored.keys);
+    throw new Error(`Failed to create media asset: ${error.message}`);
+  }
+
+  await recordMediaScan(supabase, data.id, userId, scan);
+
+  return data as MediaAsset;
+}
+
+/**
+ * Steps using an asset, grouped by SOP
+ */
+export async function findAssetUsage(supabase: SupabaseClient, assetId: string): Promise<MediaAssetUsage[]> {
+  const { data, error } = await supabase
+    .from('media')
+    .select('id, step_id, steps!inner(title, sop_id, sops!inner(title))')
+    .eq('asset_id', assetId);
+
+  if (error) {
+    throw new Error(`Failed to fetch media asset usage: ${error.message}`);
+  }
+
+  return groupAssetUsage((data || []) as unknown as AssetUsageRow[]);
+}
+
+/**
+ * Use a library asset in a step
+ */
+export async function attachLibraryAsset(
+  supabase: SupabaseClient,
+  { stepId, userId }: { stepId: string; userId: string },
+  asset: MediaAsset,
+  caption?: string | null
+): Promise<Media> {
+  const { data, error } = await supabase
+    .from('media')
+    .insert({
+      ...assetMediaFields(asset),
+      step_id: stepId,
+      asset_id: asset.id,
+      caption: caption || asset.name,
+      display_mode: 'contain',
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add media asset to step: ${error.message}`);
+  }
+
+  return data as Media;
+}
+
+/**
+ * Replace the file of an asset and update every step using it. The previous
+ * file stays in the store: SOP versions and exports may still point to it.
+ * The new file must have the same media type and be validated already; its
+ * content is screened here.
+ * @returns the updated asset and the media rows that were rewritten
+ */
+export async function replaceLibraryAsset(
+  supabase: SupabaseClient,
+  asset: MediaAsset,
+  file: MediaUpload,
+  userId: string,
+  store: MediaStore = getMediaStore()
+): Promise<{ asset: MediaAsset; media: Pick<Media, 'id' | 'step_id'>[] }> {
+  const scan = await screenMediaUpload(supabase, store, file, { userId, assetId: asset.id });
+  const key = mediaFileKey(LIBRARY_KEY_PREFIX, file.name);
+  const stored = await putMediaFile(store, key, file);
+
+  const { data: updated, error } = await supabase
+    .from('media_assets')
+    .update({
+      ...storedAssetFields(store, key, file, stored, scan),
+      updated_by: userId,
+      replaced_at: new Date().toISOString()
+    })
+    .eq('id', asset.id)
+    .select()
+    .single();
+
+  if (error) {
+    await removeMediaFiles(store, stored.keys);
+    throw new Error(`Failed to replace media asset: ${error.message}`);
+  }
+
+  await recordMediaScan(supabase, asset.id, userId, scan);
+
+  const { data: media, error: mediaError } = await supabase
+    .from('media')
+    .update(assetMediaFields(updated as MediaAsset))
+    .eq('asset_id', asset.id)
+    .select('id, step_id');
+
+  if (mediaError) {
+    throw new Error(`Failed to update steps using the media asset: ${mediaError.message}`);
+  }
+
+  return { asset: updated as MediaAsset, media: media || [] };
+}
+
+/**
+ * Delete an asset that no step uses, and its file
+ */
+export async function deleteLibraryAsset(
+  supabase: SupabaseClient,
+  asset: Pick<MediaAsset, 'id' | 'storage_backend' | 'storage_key' | 'variants'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('media_assets')
+    .delete()
+    .eq('id', asset.id);
+
+  if (error) {
+    throw new Error(`Failed to delete media asset: ${error.message}`);
+  }
+
+  await deleteMediaFiles(asset);
+}
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { ClamAvScanner, parseClamdReply } from './clamav-scanner';
+
+describe('parseClamdReply', () => {
+  it('reads clean, infected and error replies', () => {
+    expect(parseClamdReply('stream: OK\0')).toEqual({ scanner: 'clamav', status: 'clean' });
+    expect(parseClamdReply('stream: Eicar-Test-Signature FOUND\0')).toEqual({
+      scanner: 'clamav',
+      status: 'infected',
+      signature: 'Eicar-Test-Signature'
+    });
+    expect(parseClamdReply('INSTREAM size limit exceeded. ERROR\0')).toMatchObject({ status: 'error' });
+  });
+});
+
+describe('ClamAvScanner', () => {
+  let dir: string;
+  let server: net.Server;
+  let received: Buffer;
+
+  // A clamd stand-in that reads one INSTREAM request and answers with `reply`
+  const listen = (reply: (data: Buffer) => string) => new Promise<string>(resolve => {
+    const socketPath = path.join(dir, 'clamd.sock');
+    server = net.createServer(socket => {
+      const chunks: Buffer[] = [];
+      socket.on('data', chunk => {
+        chunks.push(chunk);
+        const data = Buffer.concat(chunks);
+        if (data.subarray(-4).readUInt32BE(0) === 0 && data.length > 'zINSTREAM\0'.length + 4) {
+          received = data;
+          socket.end(reply(data));
+        }
+      });
+    });
+    server.listen(socketPath, () => resolve(socketPath));
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'clamd-'));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('streams the file to clamd in length-prefixed chunks', async () => {
+    const socketPath = await listen(() => 'stream: OK\0');
+    const scanner = new ClamAvScanner({ socketPath, timeoutMs: 5000 });
+
+    const result = await scanner.scan(new TextEncoder().encode('hello'));
+
+    expect(result.status).toBe('clean');
+    expect(received.subarray(0, 10).toString()).toBe('zINSTREAM\0');
+    expect(received.readUInt32BE(10)).toBe(5);
+    expect(received.subarray(14, 19).toString()).toBe('hello');
+  });
+
+  it('reports the signature of an infected file', async () => {
+    const socketPath = await listen(() => 'stream: Eicar-Test-Signature FOUND\0');
+    const result = await new ClamAvScanner({ socketPath, timeoutMs: 5000 }).scan(new Uint8Array([1, 2, 3]));
+
+    expect(result).toMatchObject({ status: 'infected', signature: 'Eicar-Test-Signature' });
+  });
+
+  it('reports an error when clamd cannot be reached', async () => {
+    server = net.createServer();
+    const result = await new ClamAvScanner({ socketPath: path.join(dir, 'missing.sock'), timeoutMs: 5000 }).scan(new Uint8Array([1]));
+
+    expect(result.status).toBe('error');
+  });
+});
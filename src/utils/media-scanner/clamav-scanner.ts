@@ -0,0 +1,75 @@
+import net from 'net';
+import { MediaScanner, MediaScanResult } from '@/utils/media-scanner/types';
+
+export interface ClamAvOptions {
+  /** Local clamd socket; used unless a host is given */
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  timeoutMs: number;
+}
+
+// clamd reads INSTREAM data in chunks, each prefixed with its length
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Read a clamd reply: `stream: OK`, `stream: <signature> FOUND` or `... ERROR`
+ */
+export function parseClamdReply(reply: string): MediaScanResult {
+  const text = reply.replace(/\0/g, '').trim();
+
+  if (/^(stream: )?OK$/.test(text)) {
+    return { scanner: 'clamav', status: 'clean' };
+  }
+
+  const found = text.match(/^(?:stream: )?(.+) FOUND$/);
+  if (found) {
+    return { scanner: 'clamav', status: 'infected', signature: found[1] };
+  }
+
+  return { scanner: 'clamav', status: 'error', error: text || 'Empty reply from clamd' };
+}
+
+/**
+ * Scans with a ClamAV daemon through its INSTREAM command, over the local
+ * socket or TCP
+ */
+export class ClamAvScanner implements MediaScanner {
+  readonly name = 'clamav' as const;
+
+  constructor(private readonly options: ClamAvOptions) {}
+
+  scan(body: Uint8Array): Promise<MediaScanResult> {
+    return new Promise(resolve => {
+      const { socketPath, host, port, timeoutMs } = this.options;
+      const socket = host ? net.createConnection(port ?? 3310, host) : net.createConnection(socketPath!);
+      const reply: Buffer[] = [];
+      let settled = false;
+
+      const finish = (result: MediaScanResult) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        resolve(result);
+      };
+
+      socket.setTimeout(timeoutMs, () => finish({ scanner: 'clamav', status: 'error', error: 'clamd did not answer in time' }));
+      socket.on('error', error => finish({ scanner: 'clamav', status: 'error', error: error.message }));
+      socket.on('data', chunk => reply.push(chunk));
+      socket.on('end', () => finish(parseClamdReply(Buffer.concat(reply).toString('utf8'))));
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < body.byteLength; offset += CHUNK_SIZE) {
+          const chunk = body.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.byteLength);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.write(Buffer.alloc(4));
+      });
+    });
+  }
+}
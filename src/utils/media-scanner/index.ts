@@ -0,0 +1,85 @@
+import { MediaStoreConfigurationError } from '@/utils/media-store/errors';
+import { ClamAvScanner } from '@/utils/media-scanner/clamav-scanner';
+import { MEDIA_SCANNER_NAMES, MediaScanner, MediaScannerName, MediaScanResult } from '@/utils/media-scanner/types';
+
+export * from '@/utils/media-scanner/types';
+export { ClamAvScanner, parseClamdReply } from '@/utils/media-scanner/clamav-scanner';
+
+/**
+ * Malware scanning configuration comes from the environment:
+ *
+ *   MEDIA_SCANNER               none | clamav (default none)
+ *
+ *   CLAMAV_SOCKET               clamav: clamd socket (default /var/run/clamav/clamd.ctl)
+ *   CLAMAV_HOST, CLAMAV_PORT    clamav: reach clamd over TCP instead (port default 3310)
+ *   CLAMAV_TIMEOUT_MS           clamav: time a scan may take (default 30000)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_CLAMAV_SOCKET = '/var/run/clamav/clamd.ctl';
+const DEFAULT_CLAMAV_TIMEOUT_MS = 30000;
+
+/**
+ * Accepts every file without looking at it
+ */
+export class NoopMediaScanner implements MediaScanner {
+  readonly name = 'none' as const;
+
+  async scan(): Promise<MediaScanResult> {
+    return { scanner: this.name, status: 'skipped' };
+  }
+}
+
+function isScannerName(value: string): value is MediaScannerName {
+  return (MEDIA_SCANNER_NAMES as readonly string[]).includes(value);
+}
+
+export function resolveMediaScannerName(env: Env = process.env): MediaScannerName {
+  const name = (env.MEDIA_SCANNER || 'none').trim().toLowerCase();
+
+  if (!isScannerName(name)) {
+    throw new MediaStoreConfigurationError(`Unknown media scanner "${name}". Expected one of: ${MEDIA_SCANNER_NAMES.join(', ')}`);
+  }
+
+  return name;
+}
+
+/**
+ * Build a scanner from its environment settings
+ */
+export function createMediaScanner(name: MediaScannerName, env: Env = process.env): MediaScanner {
+  switch (name) {
+    case 'none':
+      return new NoopMediaScanner();
+
+    case 'clamav': {
+      const timeoutMs = Number(env.CLAMAV_TIMEOUT_MS);
+      return new ClamAvScanner({
+        socketPath: env.CLAMAV_SOCKET || DEFAULT_CLAMAV_SOCKET,
+        host: env.CLAMAV_HOST || undefined,
+        port: env.CLAMAV_PORT ? Number(env.CLAMAV_PORT) : undefined,
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_CLAMAV_TIMEOUT_MS
+      });
+    }
+  }
+}
+
+let scanner: MediaScanner | null = null;
+
+/**
+ * The shared scanner uploads go through
+ */
+export function getMediaScanner(): MediaScanner {
+  if (!scanner) {
+    scanner = createMediaScanner(resolveMediaScannerName());
+  }
+  return scanner;
+}
+
+/**
+ * Replace (or with null, reset) the shared scanner; for tests
+ */
+export function setMediaScanner(replacement: MediaScanner | null): void {
+  scanner = replacement;
+}
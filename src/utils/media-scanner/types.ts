@@ -0,0 +1,26 @@
+/**
+ * Shared types for the pluggable malware scanning of uploads
+ */
+
+export const MEDIA_SCANNER_NAMES = ['none', 'clamav'] as const;
+
+export type MediaScannerName = typeof MEDIA_SCANNER_NAMES[number];
+
+export interface MediaScanResult {
+  scanner: MediaScannerName;
+  /** skipped when no scanner is configured; error when the scan did not complete */
+  status: 'clean' | 'infected' | 'error' | 'skipped';
+  /** Signature matched by an infected file */
+  signature?: string | null;
+  /** What went wrong, for status error */
+  error?: string | null;
+}
+
+/**
+ * Scans uploads before they are stored where viewers can reach them
+ * Implementations report failures as status error rather than throwing.
+ */
+export interface MediaScanner {
+  readonly name: MediaScannerName;
+  scan(body: Uint8Array): Promise<MediaScanResult>;
+}
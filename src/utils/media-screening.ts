@@ -0,0 +1,181 @@
+import { randomUUID } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { MediaQuarantine, MediaScanStatus } from '@/types/database.types';
+import { recordAuditLog } from '@/utils/audit-log';
+import { logger } from '@/utils/logger';
+import { inspectMediaUpload } from '@/utils/media-inspection';
+import { getMediaScanner, MediaScanner } from '@/utils/media-scanner';
+import {
+  getPrivateMediaStore,
+  MediaQuarantinedError,
+  MediaScanError,
+  MediaStore,
+  MediaUploadRejectedError,
+  QUARANTINE_KEY_PREFIX
+} from '@/utils/media-store';
+
+/**
+ * Screening of uploads before they become visible: content checks (see
+ * media-inspection), then the configured malware scanner. Rejections,
+ * quarantines and scan results go to the audit log.
+ */
+
+export { QUARANTINE_KEY_PREFIX };
+
+/**
+ * Where an upload is going, for the audit log and quarantine records
+ */
+export interface MediaUploadSource {
+  userId: string;
+  sopId?: string | null;
+  stepId?: string | null;
+  assetId?: string | null;
+}
+
+/**
+ * Scan result stored on the media row or library asset
+ */
+export interface MediaScanFields {
+  scan_status: MediaScanStatus;
+  scanner: string;
+  scanned_at: string;
+  detected_content_type: string;
+}
+
+function auditEntity(source: MediaUploadSource): { entity_type: 'step' | 'media' | 'user'; entity_id: string } {
+  if (source.stepId) return { entity_type: 'step', entity_id: source.stepId };
+  if (source.assetId) return { entity_type: 'media', entity_id: source.assetId };
+  return { entity_type: 'user', entity_id: source.userId };
+}
+
+/**
+ * Move a flagged file under quarantine/ in the private store and record it
+ * The file is stored without its type so the store never serves it as media.
+ */
+async function quarantineUpload(
+  supabase: SupabaseClient,
+  store: MediaStore,
+  file: { name: string; type: string; body: Uint8Array },
+  source: MediaUploadSource,
+  scan: { scanner: string; signature?: string | null }
+): Promise<MediaQuarantine> {
+  const key = `${QUARANTINE_KEY_PREFIX}/${randomUUID()}`;
+  const quarantineStore = getPrivateMediaStore(store.name);
+  await quarantineStore.put(key, file.body, { contentType: 'application/octet-stream' });
+
+  const { data, error } = await supabase
+    .from('media_quarantine')
+    .insert({
+      storage_backend: store.name,
+      storage_key: key,
+      filename: file.name,
+      content_type: file.type,
+      size_bytes: file.body.byteLength,
+      scanner: scan.scanner,
+      signature: scan.signature ?? null,
+      sop_id: source.sopId ?? null,
+      step_id: source.stepId ?? null,
+      asset_id: source.assetId ?? null,
+      uploaded_by: source.userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await quarantineStore.delete(key).catch(deleteError => logger.warn('Could not remove quarantined file', { error: deleteError, key }));
+    throw new Error(`Failed to record quarantined media: ${error.message}`);
+  }
+
+  return data as MediaQuarantine;
+}
+
+/**
+ * Check an upload's content and scan it for malware
+ * The type and size must already be validated with validateMediaUpload.
+ * @returns the scan result to store with the file
+ * @throws MediaUploadRejectedError when the content is not allowed,
+ *   MediaQuarantinedError when the scanner flagged it (the file is then in
+ *   quarantine), MediaScanError when the scan did not complete
+ */
+export async function screenMediaUpload(
+  supabase: SupabaseClient,
+  store: MediaStore,
+  file: { name: string; type: string; body: Uint8Array },
+  source: MediaUploadSource,
+  scanner: MediaScanner = getMediaScanner()
+): Promise<MediaScanFields> {
+  let detected: string;
+  try {
+    detected = inspectMediaUpload(file);
+  } catch (error) {
+    if (error instanceof MediaUploadRejectedError) {
+      await recordAuditLog(supabase, {
+        ...auditEntity(source),
+        action: 'reject',
+        user_id: source.userId,
+        metadata: { description: `Upload rejected: ${error.message}`, filename: file.name, content_type: file.type }
+      });
+    }
+    throw error;
+  }
+
+  const result = await scanner.scan(file.body);
+
+  if (result.status === 'error') {
+    logger.error('Media scan failed', { scanner: result.scanner, error: result.error, filename: file.name });
+    await recordAuditLog(supabase, {
+      ...auditEntity(source),
+      action: 'reject',
+      user_id: source.userId,
+      metadata: { description: 'Upload refused: the malware scan failed', filename: file.name, scanner: result.scanner, error: result.error }
+    });
+    throw new MediaScanError();
+  }
+
+  if (result.status === 'infected') {
+    const quarantined = await quarantineUpload(supabase, store, file, source, result);
+    logger.warn('Upload quarantined by the malware scanner', { id: quarantined.id, signature: result.signature, filename: file.name });
+    await recordAuditLog(supabase, {
+      entity_type: 'media',
+      entity_id: quarantined.id,
+      action: 'quarantine',
+      user_id: source.userId,
+      metadata: {
+        description: `Quarantined: ${result.signature || 'flagged by the scanner'}`,
+        filename: file.name,
+        scanner: result.scanner,
+        signature: result.signature,
+        sop_id: source.sopId ?? null,
+        step_id: source.stepId ?? null,
+        asset_id: source.assetId ?? null
+      }
+    });
+    throw new MediaQuarantinedError();
+  }
+
+  return {
+    scan_status: result.status,
+    scanner: result.scanner,
+    scanned_at: new Date().toISOString(),
+    detected_content_type: detected
+  };
+}
+
+/**
+ * Record the scan of a file that was stored, once its row exists
+ */
+export async function recordMediaScan(
+  supabase: SupabaseClient,
+  mediaId: string,
+  userId: string,
+  scan: MediaScanFields
+): Promise<void> {
+  await recordAuditLog(supabase, {
+    entity_type: 'media',
+    entity_id: mediaId,
+    action: 'scan',
+    user_id: userId,
+    current_state: { ...scan },
+    metadata: { description: scan.scan_status === 'clean' ? `Scanned clean by ${scan.scanner}` : 'Stored without a malware scan' }
+  });
+}
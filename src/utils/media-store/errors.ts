@@ -0,0 +1,78 @@
+import { ApiError } from '@/utils/api-errors';
+
+/**
+ * The selected media store is missing configuration (bucket, credentials, ...)
+ */
+export class MediaStoreConfigurationError extends ApiError {
+  constructor(message = 'Media storage is not configured') {
+    super(message, 503);
+    this.name = 'MediaStoreConfigurationError';
+  }
+}
+
+/**
+ * The storage backend rejected or failed the request
+ */
+export class MediaStoreError extends ApiError {
+  constructor(message = 'Media storage error', statusCode = 502) {
+    super(message, statusCode);
+    this.name = 'MediaStoreError';
+  }
+}
+
+export class MediaNotFoundError extends ApiError {
+  constructor(key: string) {
+    super(`Media object not found: ${key}`, 404);
+    this.name = 'MediaNotFoundError';
+  }
+}
+
+/**
+ * An uploaded file could not be read as the media type it claims to be
+ */
+export class MediaProcessingError extends MediaStoreError {
+  constructor(message = 'Could not process media') {
+    super(message, 422);
+    this.name = 'MediaProcessingError';
+  }
+}
+
+/**
+ * The content of an upload is not allowed: not the type it claims to be, too
+ * large for its type, or carrying markup or scripts
+ */
+export class MediaUploadRejectedError extends MediaStoreError {
+  constructor(message = 'This file is not allowed', statusCode = 415) {
+    super(message, statusCode);
+    this.name = 'MediaUploadRejectedError';
+  }
+}
+
+/**
+ * The malware scanner flagged an upload; the file was quarantined
+ */
+export class MediaQuarantinedError extends MediaStoreError {
+  constructor(message = 'The file was flagged by the malware scanner and has been quarantined') {
+    super(message, 422);
+    this.name = 'MediaQuarantinedError';
+  }
+}
+
+/**
+ * The malware scanner could not be reached or failed; the upload is refused
+ */
+export class MediaScanError extends MediaStoreError {
+  constructor(message = 'The file could not be scanned for malware. Please try again later.') {
+    super(message, 503);
+    this.name = 'MediaScanError';
+  }
+}
+
+/**
+ * True for any error raised by the media store layer
+ */
+export function isMediaStoreError(error: unknown): error is MediaStoreConfigurationError | MediaStoreError | MediaNotFoundError {
+  return error instanceof MediaStoreConfigurationError
+    || error instanceof MediaStoreError
+    || error instanceof MediaNotFoundError;
+}
@@ -0,0 +1,160 @@
+import path from 'path';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { MediaStoreConfigurationError } from '@/utils/media-store/errors';
+import { LocalMediaStore } from '@/utils/media-store/local-store';
+import { S3MediaStore } from '@/utils/media-store/s3-store';
+import { SupabaseMediaStore } from '@/utils/media-store/supabase-store';
+import { MEDIA_STORE_NAMES, MediaStore, MediaStoreName } from '@/utils/media-store/types';
+
+export * from '@/utils/media-store/types';
+export * from '@/utils/media-store/errors';
+export { LocalMediaStore } from '@/utils/media-store/local-store';
+
+/**
+ * Media storage configuration comes from the environment:
+ *
+ *   MEDIA_STORE                 supabase | s3 | local (default supabase)
+ *
+ *   MEDIA_SUPABASE_BUCKET       supabase: bucket name (default sop-media)
+ *   MEDIA_SUPABASE_PRIVATE_BUCKET
+ *                               supabase: private bucket for files that are not
+ *                               served yet or at all (default sop-media-private)
+ *   AWS_S3_BUCKET, AWS_REGION,
+ *   AWS_ACCESS_KEY_ID,
+ *   AWS_SECRET_ACCESS_KEY,
+ *   AWS_S3_PUBLIC_URL           s3 (public URL is optional, e.g. a CDN)
+ *   AWS_S3_PRIVATE_BUCKET       s3: bucket without public access for those files
+ *                               (defaults to AWS_S3_BUCKET, whose policy must then
+ *                               keep the private prefixes unreadable)
+ *   MEDIA_LOCAL_DIR             local: directory for the files (default .media)
+ *   MEDIA_SIGNING_SECRET        local: key for signed URLs (falls back to SUPABASE_SERVICE_ROLE_KEY)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_SUPABASE_BUCKET = 'sop-media';
+const DEFAULT_SUPABASE_PRIVATE_BUCKET = 'sop-media-private';
+const DEFAULT_LOCAL_DIR = '.media';
+
+function isStoreName(value: string): value is MediaStoreName {
+  return (MEDIA_STORE_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * The store new uploads go to
+ */
+export function resolveMediaStoreName(env: Env = process.env): MediaStoreName {
+  const name = (env.MEDIA_STORE || 'supabase').trim().toLowerCase();
+
+  if (!isStoreName(name)) {
+    throw new MediaStoreConfigurationError(`Unknown media store "${name}". Expected one of: ${MEDIA_STORE_NAMES.join(', ')}`);
+  }
+
+  return name;
+}
+
+/**
+ * Build a store from its environment settings
+ */
+export function createMediaStore(name: MediaStoreName, env: Env = process.env): MediaStore {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseMediaStore(
+        createAdminClient() as unknown as SupabaseClient,
+        env.MEDIA_SUPABASE_BUCKET || DEFAULT_SUPABASE_BUCKET
+      );
+
+    case 's3':
+      if (!env.AWS_S3_BUCKET || !env.AWS_REGION || !env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+        throw new MediaStoreConfigurationError('AWS_S3_BUCKET, AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must be configured');
+      }
+      return new S3MediaStore({
+        bucket: env.AWS_S3_BUCKET,
+        region: env.AWS_REGION,
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+        publicBaseUrl: env.AWS_S3_PUBLIC_URL || undefined,
+      });
+
+    case 'local': {
+      const secret = env.MEDIA_SIGNING_SECRET || env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!secret) {
+        throw new MediaStoreConfigurationError('MEDIA_SIGNING_SECRET must be configured for the local media store');
+      }
+      return new LocalMediaStore(path.resolve(env.MEDIA_LOCAL_DIR || DEFAULT_LOCAL_DIR), secret);
+    }
+  }
+}
+
+/**
+ * Build the private counterpart of a store, for the files under
+ * PRIVATE_MEDIA_KEY_PREFIXES. Returns null when the store itself is used:
+ * the local store never serves those prefixes.
+ */
+export function createPrivateMediaStore(name: MediaStoreName, env: Env = process.env): MediaStore | null {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseMediaStore(
+        createAdminClient() as unknown as SupabaseClient,
+        env.MEDIA_SUPABASE_PRIVATE_BUCKET || DEFAULT_SUPABASE_PRIVATE_BUCKET
+      );
+
+    case 's3':
+      if (!env.AWS_S3_PRIVATE_BUCKET || env.AWS_S3_PRIVATE_BUCKET === env.AWS_S3_BUCKET) {
+        return null;
+      }
+      if (!env.AWS_REGION || !env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+        throw new MediaStoreConfigurationError('AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must be configured');
+      }
+      return new S3MediaStore({
+        bucket: env.AWS_S3_PRIVATE_BUCKET,
+        region: env.AWS_REGION,
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+      });
+
+    case 'local':
+      return null;
+  }
+}
+
+// Stores are created lazily and reused across requests
+const stores = new Map<MediaStoreName, MediaStore>();
+const privateStores = new Map<MediaStoreName, MediaStore | null>();
+
+/**
+ * Get the shared instance of a store; without a name, the one new uploads go to.
+ * Existing media is read and deleted through the store recorded on its row.
+ */
+export function getMediaStore(name: MediaStoreName = resolveMediaStoreName()): MediaStore {
+  let store = stores.get(name);
+  if (!store) {
+    store = createMediaStore(name);
+    stores.set(name, store);
+  }
+  return store;
+}
+
+/**
+ * Get the store that holds staged uploads, upload chunks and quarantined
+ * files for a store name; without a name, for the one new uploads go to
+ */
+export function getPrivateMediaStore(name: MediaStoreName = resolveMediaStoreName()): MediaStore {
+  if (!privateStores.has(name)) {
+    privateStores.set(name, createPrivateMediaStore(name));
+  }
+  return privateStores.get(name) ?? getMediaStore(name);
+}
+
+/**
+ * Replace (or with null, reset) the instance used for a store name; for tests
+ */
+export function setMediaStore(name: MediaStoreName, store: MediaStore | null): void {
+  if (store) {
+    stores.set(name, store);
+  } else {
+    stores.delete(name);
+  }
+  privateStores.delete(name);
+}
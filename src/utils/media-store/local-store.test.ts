@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalMediaStore, normalizeMediaKey } from './local-store';
+import { isMediaStoreError } from './errors';
+import { isPrivateMediaKey } from './types';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('LocalMediaStore', () => {
+  let root: string;
+  let store: LocalMediaStore;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'media-store-'));
+    store = new LocalMediaStore(root, 'test-secret');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('stores, lists, streams and deletes objects', async () => {
+    await store.put('sop-1/step-1/a.png', new TextEncoder().encode('png-bytes'), { contentType: 'image/png' });
+    await store.put('sop-1/step-2/b.pdf', new TextEncoder().encode('pdf'), { contentType: 'application/pdf' });
+
+    const object = await store.get('sop-1/step-1/a.png');
+    expect(object.contentType).toBe('image/png');
+    expect(object.size).toBe(9);
+    expect(await readAll(object.body)).toBe('png-bytes');
+
+    expect((await store.list('sop-1/step-1/')).map(o => o.key)).toEqual(['sop-1/step-1/a.png']);
+    expect((await store.list()).map(o => o.key).sort()).toEqual(['sop-1/step-1/a.png', 'sop-1/step-2/b.pdf']);
+
+    await store.delete('sop-1/step-1/a.png');
+    await expect(store.get('sop-1/step-1/a.png')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('signs URLs for one key, method and time window', async () => {
+    const url = new URL(await store.signedUrl('sop-1/step-1/a.png', { method: 'PUT', expiresIn: 60 }), 'http://localhost');
+    const expires = url.searchParams.get('expires');
+    const signature = url.searchParams.get('signature');
+
+    expect(url.pathname).toBe('/api/media/files/sop-1/step-1/a.png');
+    expect(store.verifySignature('sop-1/step-1/a.png', 'PUT', expires, signature)).toBe(true);
+    expect(store.verifySignature('sop-1/step-1/a.png', 'GET', expires, signature)).toBe(false);
+    expect(store.verifySignature('sop-1/step-1/b.png', 'PUT', expires, signature)).toBe(false);
+    expect(store.verifySignature('sop-1/step-1/a.png', 'PUT', String(Number(expires) + 1), signature)).toBe(false);
+    expect(new LocalMediaStore(root, 'other-secret').verifySignature('sop-1/step-1/a.png', 'PUT', expires, signature)).toBe(false);
+  });
+});
+
+describe('normalizeMediaKey', () => {
+  it('rejects keys that leave the media root', () => {
+    expect(normalizeMediaKey('/sop-1//step-1/./a.png')).toBe('sop-1/step-1/a.png');
+
+    for (const key of ['../etc/passwd', 'sop-1/../../x', '', '.']) {
+      let error: unknown;
+      try {
+        normalizeMediaKey(key);
+      } catch (e) {
+        error = e;
+      }
+      expect(isMediaStoreError(error)).toBe(true);
+    }
+  });
+});
+
+describe('isPrivateMediaKey', () => {
+  it('matches staged uploads, upload chunks and quarantined files only', () => {
+    expect(isPrivateMediaKey('staging/sop-1/step-1/a.png')).toBe(true);
+    expect(isPrivateMediaKey('uploads/session-1/0')).toBe(true);
+    expect(isPrivateMediaKey('quarantine/0b7e')).toBe(true);
+    expect(isPrivateMediaKey('sop-1/step-1/a.png')).toBe(false);
+    expect(isPrivateMediaKey('staging-area/a.png')).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { MediaNotFoundError, MediaStoreError } from '@/utils/media-store/errors';
+import { MediaObject, MediaObjectInfo, MediaStore, PutMediaOptions, SignedUrlOptions } from '@/utils/media-store/types';
+
+/** Route serving local media; see app/api/media/files/[...key] */
+export const LOCAL_MEDIA_ROUTE = '/api/media/files';
+
+const DEFAULT_EXPIRES_IN = 15 * 60;
+
+/**
+ * Normalise a key and reject anything that could escape the media root
+ */
+export function normalizeMediaKey(key: string): string {
+  const normalized = path.posix.normalize(key.replace(/\\/g, '/')).replace(/^\/+/, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('..') || normalized.includes('\0')) {
+    throw new MediaStoreError(`Invalid media key: ${key}`, 400);
+  }
+  return normalized;
+}
+
+function sign(key: string, method: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${method}:${key}:${expires}`).digest('base64url');
+}
+
+/**
+ * Check the signature of a signed local media URL
+ */
+export function verifyLocalMediaSignature(
+  key: string,
+  method: 'GET' | 'PUT',
+  expires: string | null,
+  signature: string | null,
+  secret: string,
+  now = Date.now()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 <= now) return false;
+
+  const expected = Buffer.from(sign(key, method, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Media on the local filesystem, for development and tests without cloud
+ * credentials. Objects are served (and signed uploads accepted) by the
+ * /api/media/files route; the content type is kept in a `.meta.json` sidecar.
+ */
+export class LocalMediaStore implements MediaStore {
+  readonly name = 'local' as const;
+
+  constructor(
+    private readonly root: string,
+    private readonly secret: string,
+    private readonly baseUrl = LOCAL_MEDIA_ROUTE
+  ) {}
+
+  private filePath(key: string): string {
+    return path.join(this.root, ...normalizeMediaKey(key).split('/'));
+  }
+
+  async put(key: string, body: Uint8Array, { contentType }: PutMediaOptions): Promise<void> {
+    const file = this.filePath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+    await writeFile(`${file}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<MediaObject> {
+    const file = this.filePath(key);
+    let size: number;
+    try {
+      size = (await stat(file)).size;
+    } catch {
+      throw new MediaNotFoundError(key);
+    }
+
+    let contentType: string | undefined;
+    try {
+      contentType = JSON.parse(await readFile(`${file}.meta.json`, 'utf8')).contentType;
+    } catch {
+      contentType = undefined;
+    }
+
+    return {
+      body: Readable.toWeb(createReadStream(file)) as ReadableStream<Uint8Array>,
+      contentType,
+      size
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.filePath(key);
+    await rm(file, { force: true });
+    await rm(`${file}.meta.json`, { force: true });
+  }
+
+  async signedUrl(key: string, { method = 'GET', expiresIn = DEFAULT_EXPIRES_IN }: SignedUrlOptions = {}): Promise<string> {
+    const normalized = normalizeMediaKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: sign(normalized, method, expires, this.secret)
+    });
+    return `${this.publicUrl(normalized)}?${params}`;
+  }
+
+  async list(prefix = ''): Promise<MediaObjectInfo[]> {
+    const objects: MediaObjectInfo[] = [];
+
+    const walk = async (dir: string, keyPrefix: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const key = keyPrefix ? `${keyPrefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), key);
+        } else if (!entry.name.endsWith('.meta.json') && key.startsWith(prefix)) {
+          const info = await stat(path.join(dir, entry.name));
+          objects.push({ key, size: info.size, lastModified: info.mtime.toISOString() });
+        }
+      }
+    };
+
+    await walk(this.root, '');
+    return objects;
+  }
+
+  /**
+   * Check a signed URL issued by this store
+   */
+  verifySignature(key: string, method: 'GET' | 'PUT', expires: string | null, signature: string | null): boolean {
+    return verifyLocalMediaSignature(normalizeMediaKey(key), method, expires, signature, this.secret);
+  }
+
+  publicUrl(key: string): string {
+    return `${this.baseUrl}/${normalizeMediaKey(key).split('/').map(encodeURIComponent).join('/')}`;
+  }
+}
@@ -0,0 +1,93 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { MediaNotFoundError, MediaStoreError } from '@/utils/media-store/errors';
+import { MediaObject, MediaObjectInfo, MediaStore, PutMediaOptions, SignedUrlOptions } from '@/utils/media-store/types';
+
+const DEFAULT_EXPIRES_IN = 15 * 60;
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Media in a Supabase Storage bucket
+ */
+export class SupabaseMediaStore implements MediaStore {
+  readonly name = 'supabase' as const;
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bucket: string
+  ) {}
+
+  private get storage() {
+    return this.client.storage.from(this.bucket);
+  }
+
+  async put(key: string, body: Uint8Array, { contentType, cacheControl = '3600' }: PutMediaOptions): Promise<void> {
+    const { error } = await this.storage.upload(key, body, { contentType, cacheControl, upsert: true });
+    if (error) {
+      throw new MediaStoreError(`Failed to upload ${key} to Supabase Storage: ${error.message}`);
+    }
+  }
+
+  async get(key: string): Promise<MediaObject> {
+    const { data, error } = await this.storage.download(key);
+    if (error || !data) {
+      throw new MediaNotFoundError(key);
+    }
+    return {
+      body: data.stream() as ReadableStream<Uint8Array>,
+      contentType: data.type || undefined,
+      size: data.size,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.storage.remove([key]);
+    if (error) {
+      throw new MediaStoreError(`Failed to delete ${key} from Supabase Storage: ${error.message}`);
+    }
+  }
+
+  async signedUrl(key: string, { method = 'GET', expiresIn = DEFAULT_EXPIRES_IN }: SignedUrlOptions = {}): Promise<string> {
+    // Supabase upload URLs are valid for two hours regardless of expiresIn
+    const { data, error } = method === 'PUT'
+      ? await this.storage.createSignedUploadUrl(key)
+      : await this.storage.createSignedUrl(key, expiresIn);
+
+    if (error || !data) {
+      throw new MediaStoreError(`Failed to sign ${key}: ${error?.message || 'no URL returned'}`);
+    }
+    return data.signedUrl;
+  }
+
+  async list(prefix = ''): Promise<MediaObjectInfo[]> {
+    const objects: MediaObjectInfo[] = [];
+
+    // Storage lists one folder at a time, a page at a time; folders come back without an id
+    const walk = async (folder: string): Promise<void> => {
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await this.storage.list(folder, { limit: LIST_PAGE_SIZE, offset });
+        if (error) {
+          throw new MediaStoreError(`Failed to list ${folder || 'bucket root'}: ${error.message}`);
+        }
+
+        for (const entry of data || []) {
+          const key = folder ? `${folder}/${entry.name}` : entry.name;
+          if (!entry.id) {
+            await walk(key);
+          } else if (key.startsWith(prefix)) {
+            objects.push({ key, size: entry.metadata?.size, lastModified: entry.updated_at || entry.created_at });
+          }
+        }
+
+        if (!data || data.length < LIST_PAGE_SIZE) break;
+      }
+    };
+
+    // Start from the deepest complete folder of the prefix
+    await walk(prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '');
+    return objects;
+  }
+
+  publicUrl(key: string): string {
+    return this.storage.getPublicUrl(key).data.publicUrl;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared types for the pluggable media storage layer
+ */
+
+export const MEDIA_STORE_NAMES = ['supabase', 's3', 'local'] as const;
+
+export type MediaStoreName = typeof MEDIA_STORE_NAMES[number];
+
+/** Browser uploads through a signed URL, until they are screened */
+export const STAGING_KEY_PREFIX = 'staging';
+
+/** Chunks of resumable upload sessions */
+export const UPLOAD_KEY_PREFIX = 'uploads';
+
+/** Files the malware scanner flagged */
+export const QUARANTINE_KEY_PREFIX = 'quarantine';
+
+/**
+ * Files under these prefixes are never served: they live in the private
+ * store (see getPrivateMediaStore) and the local files route refuses them
+ */
+export const PRIVATE_MEDIA_KEY_PREFIXES = [STAGING_KEY_PREFIX, UPLOAD_KEY_PREFIX, QUARANTINE_KEY_PREFIX] as const;
+
+export function isPrivateMediaKey(key: string): boolean {
+  return PRIVATE_MEDIA_KEY_PREFIXES.some(prefix => key.startsWith(`${prefix}/`));
+}
+
+export interface PutMediaOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface SignedUrlOptions {
+  /** GET to read the object, PUT to upload it directly from the browser */
+  method?: 'GET' | 'PUT';
+  /** Seconds the URL stays valid */
+  expiresIn?: number;
+  /** Content type the upload must be sent with (PUT only) */
+  contentType?: string;
+}
+
+export interface MediaObject {
+  body: ReadableStream<Uint8Array>;
+  contentType?: string;
+  size?: number;
+}
+
+export interface MediaObjectInfo {
+  key: string;
+  size?: number;
+  lastModified?: string;
+}
+
+/**
+ * An object store for uploaded media. Keys are slash-separated paths such as
+ * `{sopId}/{stepId}/{uuid}.png`; they are never URLs.
+ */
+export interface MediaStore {
+  readonly name: MediaStoreName;
+  /** Replaces any object already stored under the key */
+  put(key: string, body: Uint8Array, options: PutMediaOptions): Promise<void>;
+  /** @throws MediaNotFoundError when there is no object under the key */
+  get(key: string): Promise<MediaObject>;
+  /** Deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  /** Every object whose key starts with the prefix */
+  list(prefix?: string): Promise<MediaObjectInfo[]>;
+  /** Long-lived URL stored in `media.url` and shown to viewers */
+  publicUrl(key: string): string;
+}
@@ -0,0 +1,76 @@
+import { MediaImageVariantName, MediaVariant, MediaVariantName } from '@/types/database.types';
+
+/**
+ * Responsive image variants, shared by the upload pipeline and the components
+ * that display step media. Safe to import from client components.
+ */
+
+/** Target width of each variant; images are never enlarged */
+export const MEDIA_VARIANT_WIDTHS: Record<MediaImageVariantName, number> = {
+  thumbnail: 320,
+  medium: 960,
+  large: 1920,
+};
+
+/** Widest poster frame kept for a video */
+export const MEDIA_POSTER_WIDTH = 1280;
+
+/** `sizes` for images shown in the step media grids */
+export const MEDIA_GRID_SIZES = '(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw';
+
+interface ResponsiveMedia {
+  url: string;
+  width?: number | null;
+  variants?: MediaVariant[] | null;
+}
+
+/**
+ * Key of a variant next to its original: `a/b/photo.jpg` → `a/b/photo_medium.webp`
+ */
+export function mediaVariantKey(key: string, name: MediaVariantName): string {
+  const slash = key.lastIndexOf('/');
+  const dot = key.lastIndexOf('.');
+  const base = dot > slash ? key.slice(0, dot) : key;
+  return `${base}_${name}.webp`;
+}
+
+// Resized copies of an image; a video's poster is not one
+function imageVariants(media: ResponsiveMedia): MediaVariant[] {
+  return (media.variants || []).filter(variant => variant.name !== 'poster').sort((a, b) => a.width - b.width);
+}
+
+/**
+ * Poster frame of a video, if one was extracted
+ */
+export function mediaPosterUrl(media: Pick<ResponsiveMedia, 'variants'>): string | undefined {
+  return media.variants?.find(variant => variant.name === 'poster')?.url;
+}
+
+/**
+ * `srcset` of an image: its variants, plus the original when it is wider
+ * than all of them. Undefined for media without variants.
+ */
+export function mediaSrcSet(media: ResponsiveMedia): string | undefined {
+  const variants = imageVariants(media);
+  if (variants.length === 0) return undefined;
+
+  const candidates = variants.map(variant => `${variant.url} ${variant.width}w`);
+  if (media.width && media.width > variants[variants.length - 1].width) {
+    candidates.push(`${media.url} ${media.width}w`);
+  }
+  return candidates.join(', ');
+}
+
+/**
+ * URL of the smallest variant at least `minWidth` wide, falling back to the
+ * largest variant and then the original
+ */
+export function mediaVariantUrl(media: ResponsiveMedia, minWidth: number): string {
+  const variants = imageVariants(media);
+  const match = variants.find(variant => variant.width >= minWidth);
+  if (match) return match.url;
+  if (media.width && variants.length > 0 && media.width <= variants[variants.length - 1].width) {
+    return variants[variants.length - 1].url;
+  }
+  return media.url;
+}
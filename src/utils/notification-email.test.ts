@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { EmailDeliveryError } from './email';
+import {
+  composeNotificationEmail,
+  createUnsubscribeToken,
+  emailRetryDelayMs,
+  failedSendUpdate,
+  isDigestDue,
+  verifyUnsubscribeToken
+} from './notification-email';
+
+const SECRET = 'test-secret';
+const config = { appUrl: 'https://sops.test' };
+const now = new Date('2026-03-01T12:00:00Z');
+
+const row = (overrides = {}) => ({
+  type: 'review_requested' as const,
+  content: '"Onboarding" is waiting for your review',
+  url: '/reviews',
+  created_at: now.toISOString(),
+  ...overrides
+});
+
+describe('unsubscribe tokens', () => {
+  it('are bound to the user and the scope', () => {
+    const token = createUnsubscribeToken('user-1', 'step_comment', SECRET);
+
+    expect(verifyUnsubscribeToken(token, 'user-1', 'step_comment', SECRET)).toBe(true);
+    expect(verifyUnsubscribeToken(token, 'user-2', 'step_comment', SECRET)).toBe(false);
+    expect(verifyUnsubscribeToken(token, 'user-1', 'all', SECRET)).toBe(false);
+    expect(verifyUnsubscribeToken(token, 'user-1', 'step_comment', 'other-secret')).toBe(false);
+    expect(verifyUnsubscribeToken(null, 'user-1', 'step_comment', SECRET)).toBe(false);
+  });
+});
+
+describe('composeNotificationEmail', () => {
+  it('renders one notification with escaped content and unsubscribe links', () => {
+    const message = composeNotificationEmail(
+      'ada@example.com',
+      'user-1',
+      [row({ content: 'Review <b>"Q&A"</b>' })],
+      false,
+      config,
+      SECRET
+    );
+
+    expect(message.subject).toBe('Review <b>"Q&A"</b>');
+    expect(message.html).toContain('Review &lt;b&gt;&quot;Q&amp;A&quot;&lt;/b&gt;');
+    expect(message.html).toContain('https://sops.test/reviews');
+    expect(message.text).toContain('Open in SOP Maker: https://sops.test/reviews');
+    expect(message.text).toContain('scope=review_requested');
+    expect(message.headers?.['List-Unsubscribe']).toMatch(/^<https:\/\/sops\.test\/api\/notifications\/unsubscribe\?.*scope=review_requested.*>$/);
+    expect(message.headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('groups a digest by type and unsubscribes from everything', () => {
+    const message = composeNotificationEmail('ada@example.com', 'user-1', [
+      row(),
+      row({ type: 'step_comment', content: 'Grace commented on a step', url: '/sop/1/edit' }),
+      row({ content: '"Offboarding" is waiting for your review' })
+    ], true, config, SECRET);
+
+    expect(message.subject).toBe('Your SOP Maker digest: 3 notifications');
+    expect(message.text.indexOf('Step comments')).toBeLessThan(message.text.indexOf('Review requests'));
+    expect(message.text).toContain('Grace commented on a step\n  https://sops.test/sop/1/edit');
+    expect(message.headers?.['List-Unsubscribe']).toContain('scope=all');
+  });
+});
+
+describe('retries', () => {
+  it('back off exponentially up to a ceiling', () => {
+    expect(emailRetryDelayMs(1)).toBe(5 * 60 * 1000);
+    expect(emailRetryDelayMs(2)).toBe(10 * 60 * 1000);
+    expect(emailRetryDelayMs(4)).toBe(40 * 60 * 1000);
+    expect(emailRetryDelayMs(20)).toBe(12 * 60 * 60 * 1000);
+  });
+
+  it('retry temporary failures until attempts run out', () => {
+    expect(failedSendUpdate(0, new EmailDeliveryError('timed out'), now, 5)).toEqual({
+      status: 'pending',
+      attempts: 1,
+      last_error: 'timed out',
+      next_attempt_at: '2026-03-01T12:05:00.000Z'
+    });
+    expect(failedSendUpdate(4, new EmailDeliveryError('timed out'), now, 5)).toMatchObject({ status: 'failed', attempts: 5 });
+  });
+
+  it('give up on permanent failures right away', () => {
+    const error = new EmailDeliveryError('550 no such user', { permanent: true });
+    expect(failedSendUpdate(0, error, now, 5)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
+
+describe('isDigestDue', () => {
+  it('sends a digest at most once a day', () => {
+    expect(isDigestDue(null, now)).toBe(true);
+    expect(isDigestDue('2026-02-28T13:00:00Z', now)).toBe(false);
+    expect(isDigestDue('2026-02-28T12:00:00Z', now)).toBe(true);
+  });
+});
@@ -0,0 +1,496 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { EmailDeliveryError, EmailMessage, EmailTransport, getEmailTransport } from '@/utils/email';
+import { EmailLinks, renderDigestEmail, renderNotificationEmail } from '@/utils/email/templates';
+import { NOTIFICATION_TYPES, notificationHref } from '@/utils/notification-types';
+import type { NewNotification } from '@/utils/notifications';
+import {
+  NotificationEmail,
+  NotificationEmailFrequency,
+  NotificationEmailSettings,
+  NotificationType
+} from '@/types/database.types';
+
+/**
+ * Email delivery of notifications. notify() queues a row of
+ * notification_emails for every recipient who kept the email channel on;
+ * the dispatcher (see `crons` in vercel.json) sends them, right away or
+ * gathered into a daily digest depending on the user's email frequency,
+ * retries failed sends with exponential backoff and records the outcome.
+ *
+ *   NEXT_PUBLIC_APP_URL               base URL of the links in emails (default http://localhost:3000)
+ *   NOTIFICATION_EMAIL_SECRET         key for unsubscribe links (falls back to SUPABASE_SERVICE_ROLE_KEY)
+ *   NOTIFICATION_EMAIL_MAX_ATTEMPTS   sends tried before a row is marked failed (default 5)
+ *   NOTIFICATION_EMAIL_BATCH_SIZE     emails and digests sent per run (default 50)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const MINUTE_MS = 60 * 1000;
+const DIGEST_INTERVAL_MS = 24 * 60 * MINUTE_MS;
+const RETRY_BASE_MS = 5 * MINUTE_MS;
+const RETRY_MAX_MS = 12 * 60 * MINUTE_MS;
+// A run that died mid-send leaves its rows claimed; they are retried after this
+const STALE_CLAIM_MS = 15 * MINUTE_MS;
+const MAX_ERROR_LENGTH = 500;
+
+export type UnsubscribeScope = NotificationType | 'all';
+
+export interface NotificationEmailConfig {
+  appUrl: string;
+  maxAttempts: number;
+  batchSize: number;
+}
+
+export interface DispatchResult {
+  sent: number;
+  digests: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+}
+
+type Recipient = { id: string; email: string | null };
+
+function numberSetting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export function notificationEmailConfig(env: Env = process.env): NotificationEmailConfig {
+  return {
+    appUrl: (env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+    maxAttempts: numberSetting(env.NOTIFICATION_EMAIL_MAX_ATTEMPTS, 5, 1),
+    batchSize: numberSetting(env.NOTIFICATION_EMAIL_BATCH_SIZE, 50, 1)
+  };
+}
+
+function unsubscribeSecret(): string {
+  const secret = process.env.NOTIFICATION_EMAIL_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('NOTIFICATION_EMAIL_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Token of an unsubscribe link. It does not expire, so links in old emails
+ * keep working.
+ */
+export function createUnsubscribeToken(userId: string, scope: UnsubscribeScope, secret = unsubscribeSecret()): string {
+  return createHmac('sha256', secret).update(`unsubscribe:${userId}:${scope}`).digest('base64url');
+}
+
+export function verifyUnsubscribeToken(
+  token: string | null | undefined,
+  userId: string,
+  scope: UnsubscribeScope,
+  secret = unsubscribeSecret()
+): boolean {
+  const expected = Buffer.from(createUnsubscribeToken(userId, scope, secret));
+  const actual = Buffer.from(token || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function isUnsubscribeScope(value: unknown): value is UnsubscribeScope {
+  return value === 'all' || NOTIFICATION_TYPES.some(candidate => candidate.type === value);
+}
+
+export function unsubscribeUrl(appUrl: string, userId: string, scope: UnsubscribeScope, secret = unsubscribeSecret()): string {
+  const params = new URLSearchParams({ user: userId, scope, token: createUnsubscribeToken(userId, scope, secret) });
+  return `${appUrl}/api/notifications/unsubscribe?${params.toString()}`;
+}
+
+/**
+ * How long to wait before the next attempt after `attempts` failed ones:
+ * 5 minutes, doubling each time, at most 12 hours
+ */
+export function emailRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Whether a user's daily digest may go out: a day after the last one
+ */
+export function isDigestDue(lastDigestAt: string | null | undefined, now: Date): boolean {
+  return !lastDigestAt || now.getTime() - new Date(lastDigestAt).getTime() >= DIGEST_INTERVAL_MS;
+}
+
+/**
+ * The message for one notification, or for a user's digest when given
+ * several, with the unsubscribe links and headers
+ */
+export function composeNotificationEmail(
+  to: string,
+  userId: string,
+  rows: Pick<NotificationEmail, 'type' | 'content' | 'url' | 'created_at'>[],
+  digest: boolean,
+  config: Pick<NotificationEmailConfig, 'appUrl'> = notificationEmailConfig(),
+  secret = unsubscribeSecret()
+): EmailMessage {
+  const links: EmailLinks = {
+    appUrl: config.appUrl,
+    unsubscribeUrl: unsubscribeUrl(config.appUrl, userId, 'all', secret),
+    unsubscribeTypeUrl: digest ? undefined : unsubscribeUrl(config.appUrl, userId, rows[0].type, secret)
+  };
+  const rendered = digest ? renderDigestEmail(rows, links) : renderNotificationEmail(rows[0], links);
+
+  return {
+    to,
+    ...rendered,
+    headers: {
+      // One-click unsubscribe for mail clients (RFC 8058)
+      'List-Unsubscribe': `<${links.unsubscribeTypeUrl || links.unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  };
+}
+
+/**
+ * Queue a notification for email to each user; called by notify() for the
+ * recipients who kept the email channel on. Whether it goes out on its own
+ * or in a digest is decided when it is sent.
+ * @returns the number of emails queued
+ */
+export async function queueNotificationEmails(
+  supabase: SupabaseClient,
+  userIds: string[],
+  notification: NewNotification
+): Promise<number> {
+  let recipients = userIds;
+
+  if (notification.dedupeKey && recipients.length > 0) {
+    const { data: queued, error: queuedError } = await supabase
+      .from('notification_emails')
+      .select('user_id')
+      .eq('dedupe_key', notification.dedupeKey)
+      .in('user_id', recipients);
+
+    if (queuedError) {
+      throw new Error(`Failed to check queued emails: ${queuedError.message}`);
+    }
+
+    const alreadyQueued = new Set((queued || []).map(row => row.user_id));
+    recipients = recipients.filter(userId => !alreadyQueued.has(userId));
+  }
+
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const url = notificationHref({
+    type: notification.type,
+    resource_id: notification.resourceId ?? undefined,
+    data: notification.data || {}
+  });
+
+  const { error } = await supabase
+    .from('notification_emails')
+    .insert(recipients.map(userId => ({
+      user_id: userId,
+      type: notification.type,
+      content: notification.content,
+      url,
+      dedupe_key: notification.dedupeKey ?? null,
+      status: 'pending'
+    })));
+
+  if (error) {
+    throw new Error(`Failed to queue notification emails: ${error.message}`);
+  }
+
+  return recipients.length;
+}
+
+export async function getNotificationEmailFrequency(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationEmailFrequency> {
+  const { data, error } = await supabase
+    .from('notification_email_settings')
+    .select('frequency')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load email settings: ${error.message}`);
+  }
+
+  return (data?.frequency as NotificationEmailFrequency | undefined) || 'immediate';
+}
+
+export async function saveNotificationEmailFrequency(
+  supabase: SupabaseClient,
+  userId: string,
+  frequency: NotificationEmailFrequency
+): Promise<NotificationEmailFrequency> {
+  const { error } = await supabase
+    .from('notification_email_settings')
+    .upsert({ user_id: userId, frequency, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to save email settings: ${error.message}`);
+  }
+
+  return frequency;
+}
+
+/**
+ * Switch notification emails off for one type or for all of them
+ */
+export async function unsubscribeNotificationEmails(
+  supabase: SupabaseClient,
+  userId: string,
+  scope: UnsubscribeScope
+): Promise<void> {
+  const types = scope === 'all' ? NOTIFICATION_TYPES.map(({ type }) => type) : [scope];
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      types.map(type => ({ user_id: userId, type, channel: 'email', enabled: false, updated_at: now })),
+      { onConflict: 'user_id,type,channel' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to unsubscribe from notification emails: ${error.message}`);
+  }
+
+  // Emails still waiting to go out are dropped as well
+  let pending = supabase
+    .from('notification_emails')
+    .update({ status: 'skipped', last_error: 'Unsubscribed' })
+    .eq('user_id', userId)
+    .eq('status', 'pending');
+
+  if (scope !== 'all') {
+    pending = pending.eq('type', scope);
+  }
+
+  const { error: pendingError } = await pending;
+
+  if (pendingError) {
+    logger.error('Failed to drop queued notification emails:', { error: pendingError, userId, scope });
+  }
+}
+
+/**
+ * Row update after a failed send: retried later with backoff, or failed
+ * for good when the server refused the message or attempts ran out
+ */
+export function failedSendUpdate(
+  attempts: number,
+  error: unknown,
+  now: Date,
+  maxAttempts: number
+): Pick<NotificationEmail, 'status' | 'attempts' | 'last_error'> & { next_attempt_at?: string } {
+  const made = attempts + 1;
+  const permanent = error instanceof EmailDeliveryError && error.permanent;
+  const last_error = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+
+  if (permanent || made >= maxAttempts) {
+    return { status: 'failed', attempts: made, last_error };
+  }
+
+  return {
+    status: 'pending',
+    attempts: made,
+    last_error,
+    next_attempt_at: new Date(now.getTime() + emailRetryDelayMs(made)).toISOString()
+  };
+}
+
+async function loadRecipients(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, Recipient>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to load email addresses: ${error.message}`);
+  }
+
+  return new Map(((data || []) as Recipient[]).map(user => [user.id, user]));
+}
+
+/**
+ * Mark rows as being sent so an overlapping run leaves them alone
+ * @returns the rows this run got
+ */
+async function claimRows(supabase: SupabaseClient, ids: string[]): Promise<NotificationEmail[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('notification_emails')
+    .update({ status: 'sending' })
+    .in('id', ids)
+    .eq('status', 'pending')
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to claim notification emails: ${error.message}`);
+  }
+
+  return (data || []) as NotificationEmail[];
+}
+
+async function updateRows(supabase: SupabaseClient, ids: string[], update: Partial<NotificationEmail>): Promise<void> {
+  const { error } = await supabase
+    .from('notification_emails')
+    .update(update)
+    .in('id', ids);
+
+  if (error) {
+    logger.error('Failed to record notification email status:', { error, ids, status: update.status });
+  }
+}
+
+/**
+ * Send one email for the claimed rows and record the outcome on each
+ * @returns whether it was sent
+ */
+async function deliver(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  rows: NotificationEmail[],
+  recipient: Recipient | undefined,
+  digest: boolean,
+  now: Date,
+  config: NotificationEmailConfig,
+  result: DispatchResult
+): Promise<boolean> {
+  const ids = rows.map(row => row.id);
+
+  if (!recipient?.email) {
+    await updateRows(supabase, ids, { status: 'skipped', last_error: 'No email address' });
+    result.skipped += rows.length;
+    return false;
+  }
+
+  try {
+    const message = composeNotificationEmail(recipient.email, recipient.id, rows, digest, config);
+    const { messageId } = await transport.send(message);
+
+    await updateRows(supabase, ids, {
+      status: 'sent',
+      digest,
+      transport: transport.name,
+      message_id: messageId,
+      sent_at: now.toISOString(),
+      last_error: null
+    });
+    return true;
+  } catch (error) {
+    logger.warn('Notification email could not be sent:', { error, userId: recipient.id, digest });
+
+    // Rows of a digest share the attempt, so they are retried together
+    for (const row of rows) {
+      const update = failedSendUpdate(row.attempts, error, now, config.maxAttempts);
+      await updateRows(supabase, [row.id], update);
+      result[update.status === 'failed' ? 'failed' : 'retried'] += 1;
+    }
+    return false;
+  }
+}
+
+/**
+ * Send the queued notification emails that are due: digests of users who
+ * chose a daily digest and are due one, then everything else on its own
+ */
+export async function dispatchNotificationEmails(
+  supabase: SupabaseClient,
+  transport: EmailTransport = getEmailTransport(),
+  now = new Date(),
+  config = notificationEmailConfig()
+): Promise<DispatchResult> {
+  const result: DispatchResult = { sent: 0, digests: 0, retried: 0, failed: 0, skipped: 0 };
+
+  const { error: staleError } = await supabase
+    .from('notification_emails')
+    .update({ status: 'pending' })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - STALE_CLAIM_MS).toISOString());
+
+  if (staleError) {
+    logger.error('Failed to release stale notification emails:', staleError);
+  }
+
+  const { data: settingsData, error: settingsError } = await supabase
+    .from('notification_email_settings')
+    .select('user_id, frequency, last_digest_at')
+    .eq('frequency', 'daily');
+
+  if (settingsError) {
+    throw new Error(`Failed to load email settings: ${settingsError.message}`);
+  }
+
+  const dailyUsers = (settingsData || []) as Pick<NotificationEmailSettings, 'user_id' | 'frequency' | 'last_digest_at'>[];
+  const dueDigests = dailyUsers.filter(settings => isDigestDue(settings.last_digest_at, now)).slice(0, config.batchSize);
+
+  // Daily digests
+  const digestRecipients = await loadRecipients(supabase, dueDigests.map(settings => settings.user_id));
+
+  for (const settings of dueDigests) {
+    const { data: due, error: dueError } = await supabase
+      .from('notification_emails')
+      .select('id')
+      .eq('user_id', settings.user_id)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (dueError) {
+      throw new Error(`Failed to load queued emails: ${dueError.message}`);
+    }
+
+    const rows = await claimRows(supabase, (due || []).map(row => row.id));
+    if (rows.length === 0) continue;
+
+    if (await deliver(supabase, transport, rows, digestRecipients.get(settings.user_id), true, now, config, result)) {
+      result.digests += 1;
+
+      const { error } = await supabase
+        .from('notification_email_settings')
+        .update({ last_digest_at: now.toISOString() })
+        .eq('user_id', settings.user_id);
+
+      if (error) {
+        logger.error('Failed to record digest time:', { error, userId: settings.user_id });
+      }
+    }
+  }
+
+  // Everything else, one email per notification
+  let query = supabase
+    .from('notification_emails')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(config.batchSize);
+
+  if (dailyUsers.length > 0) {
+    query = query.not('user_id', 'in', `(${dailyUsers.map(settings => `"${settings.user_id}"`).join(',')})`);
+  }
+
+  const { data: due, error: dueError } = await query;
+
+  if (dueError) {
+    throw new Error(`Failed to load queued emails: ${dueError.message}`);
+  }
+
+  const rows = await claimRows(supabase, (due || []).map(row => row.id));
+  const recipients = await loadRecipients(supabase, Array.from(new Set(rows.map(row => row.user_id))));
+
+  for (const row of rows) {
+    if (await deliver(supabase, transport, [row], recipients.get(row.user_id), false, now, config, result)) {
+      result.sent += 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,132 @@
+import { BadRequestError } from '@/utils/api-errors';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationEmailFrequency,
+  NotificationPreference,
+  NotificationType
+} from '@/types/database.types';
+
+/**
+ * The notification types and delivery channels a user can switch on and
+ * off, how often emails are sent, and where a notification links to. Safe
+ * to import from client components.
+ */
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'new_comment', label: 'Comments to moderate', description: 'Someone commented on a shared SOP of yours' },
+  { type: 'step_comment', label: 'Step comments', description: 'An author or reviewer commented on a step' },
+  { type: 'review_requested', label: 'Review requests', description: 'An SOP is waiting for your review' },
+  { type: 'review_decision', label: 'Review decisions', description: 'A reviewer approved or rejected your SOP' },
+  { type: 'sop_published', label: 'Publishes', description: 'An SOP you own or reviewed was published' },
+  { type: 'share_link_expiring', label: 'Expiring share links', description: 'A share link of yours is about to expire' },
+  { type: 'review_due', label: 'Periodic reviews', description: 'A published SOP of yours is due for its periodic review' }
+];
+
+export const NOTIFICATION_CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'in_app', label: 'In app' },
+  { channel: 'email', label: 'Email' }
+];
+
+export const NOTIFICATION_EMAIL_FREQUENCIES: { frequency: NotificationEmailFrequency; label: string }[] = [
+  { frequency: 'immediate', label: 'Right away' },
+  { frequency: 'daily', label: 'Daily digest' }
+];
+
+/** Whether each type is delivered on each channel */
+export type NotificationPreferences = Record<NotificationType, Record<NotificationChannel, boolean>>;
+
+export interface NotificationPreferenceChange {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+/**
+ * Fill in the stored preferences; types without a row are delivered
+ */
+export function resolveNotificationPreferences(
+  rows: Pick<NotificationPreference, 'type' | 'channel' | 'enabled'>[]
+): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+
+  for (const { type } of NOTIFICATION_TYPES) {
+    preferences[type] = {} as Record<NotificationChannel, boolean>;
+    for (const { channel } of NOTIFICATION_CHANNELS) {
+      const row = rows.find(candidate => candidate.type === type && candidate.channel === channel);
+      preferences[type][channel] = row ? row.enabled : true;
+    }
+  }
+
+  return preferences;
+}
+
+/** Everything the notification settings of a user are made of */
+export interface NotificationSettings {
+  preferences: NotificationPreferences;
+  emailFrequency: NotificationEmailFrequency;
+}
+
+/**
+ * Validate preference changes sent by a client
+ * Body: { preferences?: [{ type, channel, enabled }], emailFrequency?: 'immediate' | 'daily' }
+ * @throws BadRequestError
+ */
+export function parseNotificationPreferences(body: unknown): {
+  changes: NotificationPreferenceChange[];
+  emailFrequency: NotificationEmailFrequency | null;
+} {
+  const { preferences: changes = [], emailFrequency = null } = (body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(changes)) {
+    throw new BadRequestError('preferences must be a list');
+  }
+  if (emailFrequency !== null && !NOTIFICATION_EMAIL_FREQUENCIES.some(candidate => candidate.frequency === emailFrequency)) {
+    throw new BadRequestError(`emailFrequency must be one of: ${NOTIFICATION_EMAIL_FREQUENCIES.map(f => f.frequency).join(', ')}`);
+  }
+  if (changes.length === 0 && emailFrequency === null) {
+    throw new BadRequestError('Nothing to change');
+  }
+
+  return {
+    changes: changes.map(change => {
+      const { type, channel, enabled } = (change ?? {}) as Record<string, unknown>;
+
+      if (!NOTIFICATION_TYPES.some(candidate => candidate.type === type)) {
+        throw new BadRequestError(`Unknown notification type: ${String(type)}`);
+      }
+      if (!NOTIFICATION_CHANNELS.some(candidate => candidate.channel === channel)) {
+        throw new BadRequestError(`Unknown notification channel: ${String(channel)}`);
+      }
+      if (typeof enabled !== 'boolean') {
+        throw new BadRequestError('enabled must be true or false');
+      }
+
+      return { type: type as NotificationType, channel: channel as NotificationChannel, enabled };
+    }),
+    emailFrequency: emailFrequency as NotificationEmailFrequency | null
+  };
+}
+
+/**
+ * Page a notification links to: `data.url` when the producer set one,
+ * otherwise a page for its type
+ */
+export function notificationHref(notification: Pick<Notification, 'type' | 'resource_id' | 'data'>): string {
+  const url = notification.data?.url;
+  if (typeof url === 'string' && url.startsWith('/') && !url.startsWith('//')) {
+    return url;
+  }
+
+  const sopId = notification.resource_id;
+  switch (notification.type) {
+    case 'new_comment':
+      return sopId ? `/sop/${sopId}/comments` : '/sop';
+    case 'review_requested':
+      return '/reviews';
+    case 'share_link_expiring':
+      return sopId ? `/sop/${sopId}/publish` : '/sop';
+    default:
+      return sopId ? `/sop/${sopId}/edit` : '/sop';
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { notificationHref, parseNotificationPreferences, resolveNotificationPreferences } from './notification-types';
+import { expiringShareLinks, notificationScheduleConfig, periodicReviewDueAt } from './notifications';
+
+describe('resolveNotificationPreferences', () => {
+  it('delivers every type that was not switched off', () => {
+    const preferences = resolveNotificationPreferences([
+      { type: 'review_due', channel: 'in_app', enabled: false },
+      { type: 'step_comment', channel: 'in_app', enabled: true }
+    ]);
+
+    expect(preferences.review_due.in_app).toBe(false);
+    expect(preferences.review_due.email).toBe(true);
+    expect(preferences.step_comment.in_app).toBe(true);
+    expect(preferences.review_requested.in_app).toBe(true);
+  });
+});
+
+describe('parseNotificationPreferences', () => {
+  it('accepts known types, channels and email frequencies', () => {
+    expect(parseNotificationPreferences({ preferences: [{ type: 'sop_published', channel: 'email', enabled: false }] }))
+      .toEqual({ changes: [{ type: 'sop_published', channel: 'email', enabled: false }], emailFrequency: null });
+    expect(parseNotificationPreferences({ emailFrequency: 'daily' })).toEqual({ changes: [], emailFrequency: 'daily' });
+  });
+
+  it('rejects unknown types, unknown channels, missing flags and empty changes', () => {
+    expect(() => parseNotificationPreferences({})).toThrow('Nothing to change');
+    expect(() => parseNotificationPreferences({ emailFrequency: 'hourly' })).toThrow('emailFrequency must be one of');
+    expect(() => parseNotificationPreferences({ preferences: [{ type: 'lunch', channel: 'in_app', enabled: true }] }))
+      .toThrow('Unknown notification type');
+    expect(() => parseNotificationPreferences({ preferences: [{ type: 'review_due', channel: 'pager', enabled: true }] }))
+      .toThrow('Unknown notification channel');
+    expect(() => parseNotificationPreferences({ preferences: [{ type: 'review_due', channel: 'in_app' }] }))
+      .toThrow('enabled must be true or false');
+  });
+});
+
+describe('notificationHref', () => {
+  it('prefers the url of the producer and falls back by type', () => {
+    expect(notificationHref({ type: 'step_comment', resource_id: 'sop-1', data: { url: '/reviews' } })).toBe('/reviews');
+    expect(notificationHref({ type: 'new_comment', resource_id: 'sop-1', data: {} })).toBe('/sop/sop-1/comments');
+    expect(notificationHref({ type: 'sop_published', resource_id: 'sop-1', data: { url: '//evil.example' } })).toBe('/sop/sop-1/edit');
+  });
+});
+
+describe('expiringShareLinks', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('finds active links expiring within the window', () => {
+    const links = [
+      { id: 'soon', revoked_at: null, settings: { expiryDate: '2026-03-12' } },
+      { id: 'later', revoked_at: null, settings: { expiryDate: '2026-03-20' } },
+      { id: 'expired', revoked_at: null, settings: { expiryDate: '2026-03-09' } },
+      { id: 'revoked', revoked_at: '2026-03-01T00:00:00Z', settings: { expiryDate: '2026-03-11' } },
+      { id: 'forever', revoked_at: null, settings: {} }
+    ];
+
+    expect(expiringShareLinks(links, now, 3)).toEqual([
+      { link: links[0], expiresAt: new Date('2026-03-12T23:59:59.999Z') }
+    ]);
+  });
+});
+
+describe('periodic reviews', () => {
+  it('are due an interval after publishing', () => {
+    expect(periodicReviewDueAt('2025-03-10T12:00:00Z', 365)).toEqual(new Date('2026-03-10T12:00:00Z'));
+  });
+
+  it('read their schedule from the environment', () => {
+    expect(notificationScheduleConfig({})).toEqual({ shareLinkExpiryDays: 3, reviewIntervalDays: 365, reviewDueDays: 14 });
+    expect(notificationScheduleConfig({ SOP_REVIEW_INTERVAL_DAYS: '180', NOTIFY_REVIEW_DUE_DAYS: 'soon' }))
+      .toEqual({ shareLinkExpiryDays: 3, reviewIntervalDays: 180, reviewDueDays: 14 });
+  });
+});
@@ -0,0 +1,551 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { queueNotificationEmails } from '@/utils/notification-email';
+import { getActionableApprovals, ReviewDecisionResult } from '@/utils/review-workflow';
+import { shareExpiresAt } from '@/utils/share-access';
+import {
+  NotificationPreferenceChange,
+  NotificationPreferences,
+  resolveNotificationPreferences
+} from '@/utils/notification-types';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationType,
+  SharedSopLink,
+  SopComment,
+  SopReview,
+  StepComment
+} from '@/types/database.types';
+
+/**
+ * The notification center: creating notifications for the users a change
+ * concerns, honouring their preferences, and reading and marking them.
+ * Producers never throw, so a failed notification does not fail the change
+ * that caused it. Reminders for expiring share links and periodic reviews
+ * are sent by the scheduled run (see `crons` in vercel.json); emails are
+ * sent by the dispatcher in notification-email.ts.
+ *
+ *   NOTIFY_SHARE_LINK_EXPIRY_DAYS  days before a share link expires to warn its creator (default 3)
+ *   SOP_REVIEW_INTERVAL_DAYS       days after publishing that an SOP is due for its
+ *                                  periodic review (default 365)
+ *   NOTIFY_REVIEW_DUE_DAYS         days before a periodic review is due to remind the owner (default 14)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+export interface NewNotification {
+  type: NotificationType;
+  content: string;
+  resourceId?: string | null;
+  resourceType?: string | null;
+  data?: Record<string, unknown>;
+  /** Send once per recipient; used by scheduled reminders */
+  dedupeKey?: string | null;
+}
+
+export interface NotificationScheduleConfig {
+  shareLinkExpiryDays: number;
+  reviewIntervalDays: number;
+  reviewDueDays: number;
+}
+
+type SopSummary = { id: string; title: string; created_by: string };
+
+function numberSetting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+/**
+ * Read when scheduled reminders are sent
+ */
+export function notificationScheduleConfig(env: Env = process.env): NotificationScheduleConfig {
+  return {
+    shareLinkExpiryDays: numberSetting(env.NOTIFY_SHARE_LINK_EXPIRY_DAYS, 3, 1),
+    reviewIntervalDays: numberSetting(env.SOP_REVIEW_INTERVAL_DAYS, 365, 1),
+    reviewDueDays: numberSetting(env.NOTIFY_REVIEW_DUE_DAYS, 14, 0)
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The users who have not switched a notification type off for a channel
+ */
+export async function subscribedRecipients(
+  supabase: SupabaseClient,
+  userIds: string[],
+  type: NotificationType,
+  channel: NotificationChannel
+): Promise<string[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('user_id')
+    .eq('type', type)
+    .eq('channel', channel)
+    .eq('enabled', false)
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`);
+  }
+
+  const optedOut = new Set((data || []).map(row => row.user_id));
+  return userIds.filter(userId => !optedOut.has(userId));
+}
+
+/**
+ * Create a notification for each recipient, leaving out the excluded users
+ * (usually whoever caused it), users who switched the type off and, for a
+ * reminder, users who already got it. Recipients who kept the email channel
+ * on also get it queued for email.
+ * @returns the number of notifications created
+ */
+export async function notify(
+  supabase: SupabaseClient,
+  recipients: (string | null | undefined)[],
+  notification: NewNotification,
+  options: { exclude?: (string | null | undefined)[] } = {}
+): Promise<number> {
+  const excluded = new Set(options.exclude || []);
+  const userIds = Array.from(new Set(
+    recipients.filter((userId): userId is string => !!userId && !excluded.has(userId))
+  ));
+
+  try {
+    const emailRecipients = await subscribedRecipients(supabase, userIds, notification.type, 'email');
+    await queueNotificationEmails(supabase, emailRecipients, notification);
+  } catch (error) {
+    logger.error('Unexpected error queueing notification emails:', { error, type: notification.type });
+  }
+
+  try {
+    let inAppRecipients = await subscribedRecipients(supabase, userIds, notification.type, 'in_app');
+
+    if (notification.dedupeKey && inAppRecipients.length > 0) {
+      const { data: sent, error: sentError } = await supabase
+        .from('notifications')
+        .select('user_id')
+        .eq('dedupe_key', notification.dedupeKey)
+        .in('user_id', inAppRecipients);
+
+      if (sentError) {
+        throw new Error(`Failed to check sent reminders: ${sentError.message}`);
+      }
+
+      const alreadySent = new Set((sent || []).map(row => row.user_id));
+      inAppRecipients = inAppRecipients.filter(userId => !alreadySent.has(userId));
+    }
+
+    if (inAppRecipients.length === 0) {
+      return 0;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .insert(inAppRecipients.map(userId => ({
+        user_id: userId,
+        type: notification.type,
+        content: notification.content,
+        resource_id: notification.resourceId ?? null,
+        resource_type: notification.resourceType ?? null,
+        data: notification.data || {},
+        dedupe_key: notification.dedupeKey ?? null,
+        is_read: false,
+        created_at: now
+      })));
+
+    if (error) {
+      logger.error('Failed to create notifications:', { error, type: notification.type });
+      return 0;
+    }
+
+    return inAppRecipients.length;
+  } catch (error) {
+    logger.error('Unexpected error creating notifications:', { error, type: notification.type });
+    return 0;
+  }
+}
+
+/**
+ * A user's notifications, newest first
+ */
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  const limit = Math.min(Math.max(1, Math.floor(options.limit || DEFAULT_LIST_LIMIT)), MAX_LIST_LIMIT);
+
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (options.unreadOnly) {
+    query = query.eq('is_read', false);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load notifications: ${error.message}`);
+  }
+
+  return (data || []) as Notification[];
+}
+
+export async function countUnreadNotifications(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) {
+    throw new Error(`Failed to count notifications: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Mark some or all of a user's unread notifications as read
+ * @returns the number of notifications marked
+ */
+export async function markNotificationsRead(
+  supabase: SupabaseClient,
+  userId: string,
+  ids: string[] | 'all'
+): Promise<number> {
+  if (ids !== 'all' && ids.length === 0) return 0;
+
+  let query = supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (ids !== 'all') {
+    query = query.in('id', ids);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+export async function getNotificationPreferences(supabase: SupabaseClient, userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('type, channel, enabled')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`);
+  }
+
+  return resolveNotificationPreferences(data || []);
+}
+
+export async function saveNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  changes: NotificationPreferenceChange[]
+): Promise<NotificationPreferences> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      changes.map(change => ({ user_id: userId, ...change, updated_at: now })),
+      { onConflict: 'user_id,type,channel' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save notification preferences: ${error.message}`);
+  }
+
+  return getNotificationPreferences(supabase, userId);
+}
+
+async function loadSopSummary(supabase: SupabaseClient, sopId: string): Promise<SopSummary | null> {
+  const { data, error } = await supabase
+    .from('sops')
+    .select('id, title, created_by')
+    .eq('id', sopId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to load SOP for notifications:', { error, sopId });
+  }
+
+  return (data as SopSummary | null) ?? null;
+}
+
+/**
+ * Everyone ever assigned to review an SOP
+ */
+async function loadReviewerIds(supabase: SupabaseClient, sopId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('approvals')
+    .select('user_id')
+    .eq('sop_id', sopId);
+
+  if (error) {
+    logger.error('Failed to load reviewers for notifications:', { error, sopId });
+  }
+
+  return Array.from(new Set((data || []).map(row => row.user_id as string)));
+}
+
+/**
+ * Let the owner know a comment on a shared SOP is waiting for moderation
+ */
+export async function notifyCommentPending(supabase: SupabaseClient, sop: SopSummary, comment: SopComment): Promise<void> {
+  await notify(supabase, [sop.created_by], {
+    type: 'new_comment',
+    content: `New comment on your SOP: "${sop.title}"`,
+    resourceId: sop.id,
+    resourceType: 'sop',
+    data: { comment_id: comment.id, url: `/sop/${sop.id}/comments` }
+  });
+}
+
+/**
+ * Let the author and the reviewers of an SOP know about a new step comment
+ */
+export async function notifyStepComment(supabase: SupabaseClient, sopId: string, comment: StepComment): Promise<void> {
+  const sop = await loadSopSummary(supabase, sopId);
+  if (!sop) return;
+
+  const notification = {
+    type: 'step_comment' as const,
+    content: `${comment.author_name} commented on a step of "${sop.title}"`,
+    resourceId: sopId,
+    resourceType: 'sop'
+  };
+  const exclude = [comment.author_id];
+
+  await notify(supabase, [sop.created_by], {
+    ...notification,
+    data: { comment_id: comment.id, step_id: comment.step_id, url: `/sop/${sopId}/edit` }
+  }, { exclude });
+
+  await notify(supabase, await loadReviewerIds(supabase, sopId), {
+    ...notification,
+    data: { comment_id: comment.id, step_id: comment.step_id, url: '/reviews' }
+  }, { exclude: [...exclude, sop.created_by] });
+}
+
+/**
+ * Ask the reviewers who can decide now to review an SOP; in an ordered
+ * review that is only the next reviewer in line
+ */
+export async function notifyReviewRequested(supabase: SupabaseClient, review: SopReview): Promise<void> {
+  const sop = await loadSopSummary(supabase, review.sop_id);
+  if (!sop) return;
+
+  const reviewers = getActionableApprovals(review, review.approvals || []).map(approval => approval.user_id);
+
+  await notify(supabase, reviewers, {
+    type: 'review_requested',
+    content: `"${sop.title}" is waiting for your review`,
+    resourceId: review.sop_id,
+    resourceType: 'sop',
+    data: { review_id: review.id, url: '/reviews' }
+  }, { exclude: [review.requested_by] });
+}
+
+/**
+ * Tell everyone who owns or reviewed an SOP that it was published
+ */
+export async function notifySopPublished(
+  supabase: SupabaseClient,
+  sopId: string,
+  options: { exclude?: string[] } = {}
+): Promise<void> {
+  const sop = await loadSopSummary(supabase, sopId);
+  if (!sop) return;
+
+  await notify(supabase, [sop.created_by, ...await loadReviewerIds(supabase, sopId)], {
+    type: 'sop_published',
+    content: `"${sop.title}" was published`,
+    resourceId: sopId,
+    resourceType: 'sop',
+    data: { url: `/sop/${sopId}/edit` }
+  }, options);
+}
+
+/**
+ * Tell the requester about a reviewer's decision and move the review along:
+ * the next reviewer of an ordered review is asked, and an approved review
+ * announces the publish
+ */
+export async function notifyReviewDecision(
+  supabase: SupabaseClient,
+  { review, approval }: ReviewDecisionResult,
+  actorId: string
+): Promise<void> {
+  const sop = await loadSopSummary(supabase, review.sop_id);
+  if (!sop) return;
+
+  const content = review.status === 'approved'
+    ? `"${sop.title}" was approved and published`
+    : review.status === 'rejected'
+      ? `"${sop.title}" was rejected in review`
+      : `A reviewer ${approval.status === 'approved' ? 'approved' : 'rejected'} "${sop.title}"`;
+
+  await notify(supabase, [review.requested_by], {
+    type: 'review_decision',
+    content,
+    resourceId: review.sop_id,
+    resourceType: 'sop',
+    data: {
+      review_id: review.id,
+      decision: approval.status,
+      comment: approval.comment ?? null,
+      url: `/sop/${review.sop_id}/edit`
+    }
+  }, { exclude: [actorId] });
+
+  if (review.status === 'pending' && review.ordered && approval.status === 'approved') {
+    await notifyReviewRequested(supabase, review);
+  }
+
+  if (review.status === 'approved') {
+    await notifySopPublished(supabase, review.sop_id, { exclude: [actorId, review.requested_by] });
+  }
+}
+
+/**
+ * Share links that expire within `days`, with when they expire
+ */
+export function expiringShareLinks<T extends Pick<SharedSopLink, 'revoked_at' | 'settings'>>(
+  links: T[],
+  now: Date,
+  days: number
+): { link: T; expiresAt: Date }[] {
+  const horizon = now.getTime() + days * DAY_MS;
+
+  return links.flatMap(link => {
+    const expiresAt = shareExpiresAt(link.settings?.expiryDate as string | undefined);
+    return !link.revoked_at && expiresAt && expiresAt > now && expiresAt.getTime() <= horizon
+      ? [{ link, expiresAt }]
+      : [];
+  });
+}
+
+/**
+ * When a published SOP is due for its periodic review
+ */
+export function periodicReviewDueAt(publishedAt: string, intervalDays: number): Date {
+  return new Date(new Date(publishedAt).getTime() + intervalDays * DAY_MS);
+}
+
+/**
+ * Warn creators of share links that are about to expire, once per expiry date
+ * @returns the number of notifications created
+ */
+export async function notifyExpiringShareLinks(
+  supabase: SupabaseClient,
+  now = new Date(),
+  config = notificationScheduleConfig()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('shared_sops')
+    .select('id, sop_id, label, settings, revoked_at, created_by, sops(title)')
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to load share links: ${error.message}`);
+  }
+
+  const links = (data || []) as unknown as (SharedSopLink & { sops: { title: string } | null })[];
+  let created = 0;
+
+  for (const { link, expiresAt } of expiringShareLinks(links, now, config.shareLinkExpiryDays)) {
+    created += await notify(supabase, [link.created_by], {
+      type: 'share_link_expiring',
+      content: `Share link "${link.label}" of "${link.sops?.title || 'your SOP'}" expires on ${formatDate(expiresAt)}`,
+      resourceId: link.sop_id,
+      resourceType: 'sop',
+      data: { link_id: link.id, expires_at: expiresAt.toISOString(), url: `/sop/${link.sop_id}/publish` },
+      dedupeKey: `share_link_expiring:${link.id}:${expiresAt.toISOString()}`
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Remind owners of published SOPs that are due (or overdue) for their
+ * periodic review, once per publish
+ * @returns the number of notifications created
+ */
+export async function notifyUpcomingReviews(
+  supabase: SupabaseClient,
+  now = new Date(),
+  config = notificationScheduleConfig()
+): Promise<number> {
+  // Published on or before this date means due within the reminder window
+  const cutoff = new Date(now.getTime() + (config.reviewDueDays - config.reviewIntervalDays) * DAY_MS);
+
+  const { data, error } = await supabase
+    .from('sops')
+    .select('id, title, created_by, published_at')
+    .eq('is_published', true)
+    .lte('published_at', cutoff.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load published SOPs: ${error.message}`);
+  }
+
+  let created = 0;
+
+  for (const sop of (data || []) as (SopSummary & { published_at: string })[]) {
+    const dueAt = periodicReviewDueAt(sop.published_at, config.reviewIntervalDays);
+
+    created += await notify(supabase, [sop.created_by], {
+      type: 'review_due',
+      content: dueAt <= now
+        ? `"${sop.title}" is overdue for its periodic review`
+        : `"${sop.title}" is due for its periodic review on ${formatDate(dueAt)}`,
+      resourceId: sop.id,
+      resourceType: 'sop',
+      data: { due_at: dueAt.toISOString(), url: `/sop/${sop.id}/edit` },
+      dedupeKey: `review_due:${sop.id}:${sop.published_at}`
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Send the scheduled reminders
+ */
+export async function runScheduledNotifications(
+  supabase: SupabaseClient,
+  now = new Date(),
+  config = notificationScheduleConfig()
+): Promise<{ shareLinks: number; periodicReviews: number }> {
+  return {
+    shareLinks: await notifyExpiringShareLinks(supabase, now, config),
+    periodicReviews: await notifyUpcomingReviews(supabase, now, config)
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { evaluateReview, getActionableApprovals, normalizeReviewRequest } from './review-workflow';
+import { Approval } from '@/types/database.types';
+
+const approval = (id: string, status: Approval['status'], sequence: number | null = null): Approval => ({
+  id,
+  sop_id: 'sop-1',
+  review_id: 'review-1',
+  user_id: `user-${id}`,
+  status,
+  sequence,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+describe('normalizeReviewRequest', () => {
+  it('defaults the quorum to every reviewer and drops duplicates', () => {
+    const request = normalizeReviewRequest({ reviewerIds: ['a', 'b', 'a'] }, 'owner');
+
+    expect(request.reviewerIds).toEqual(['a', 'b']);
+    expect(request.quorum).toBe(2);
+    expect(request.ordered).toBe(false);
+  });
+
+  it('rejects self-review and unreachable quorums', () => {
+    expect(() => normalizeReviewRequest({ reviewerIds: ['owner'] }, 'owner')).toThrow('own SOP');
+    expect(() => normalizeReviewRequest({ reviewerIds: ['a'], quorum: 2 }, 'owner')).toThrow('Quorum');
+  });
+});
+
+describe('getActionableApprovals', () => {
+  it('lets every pending reviewer decide in an unordered review', () => {
+    const approvals = [approval('1', 'approved'), approval('2', 'pending'), approval('3', 'pending')];
+
+    expect(getActionableApprovals({ ordered: false }, approvals).map(a => a.id)).toEqual(['2', '3']);
+  });
+
+  it('only lets the next reviewer in sequence decide in an ordered review', () => {
+    const approvals = [approval('1', 'approved', 1), approval('2', 'pending', 2), approval('3', 'pending', 3)];
+
+    expect(getActionableApprovals({ ordered: true }, approvals).map(a => a.id)).toEqual(['2']);
+  });
+});
+
+describe('evaluateReview', () => {
+  it('approves once the quorum is reached', () => {
+    const approvals = [approval('1', 'approved'), approval('2', 'approved'), approval('3', 'pending')];
+
+    expect(evaluateReview({ ordered: false, quorum: 2 }, approvals)).toBe('approved');
+  });
+
+  it('stays pending while the quorum can still be reached', () => {
+    const approvals = [approval('1', 'rejected'), approval('2', 'approved'), approval('3', 'pending')];
+
+    expect(evaluateReview({ ordered: false, quorum: 2 }, approvals)).toBe('pending');
+  });
+
+  it('rejects when the quorum is out of reach or an ordered chain is broken', () => {
+    expect(evaluateReview({ ordered: false, quorum: 2 }, [approval('1', 'rejected'), approval('2', 'pending')])).toBe('rejected');
+    expect(evaluateReview({ ordered: true, quorum: 1 }, [approval('1', 'rejected', 1), approval('2', 'pending', 2)])).toBe('rejected');
+  });
+});
@@ -0,0 +1,509 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { recordAuditLog } from '@/utils/audit-log';
+import { createSopSnapshot } from '@/utils/sop-versions';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/utils/api-errors';
+import { Approval, SopReview } from '@/types/database.types';
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+export interface ReviewRequest {
+  reviewerIds: string[];
+  ordered?: boolean;
+  quorum?: number;
+  message?: string | null;
+}
+
+export interface ReviewDecisionResult {
+  review: SopReview;
+  approval: Approval;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Returned when content is edited while a review is open: reviewers approve
+ * the content as submitted, so it stays frozen until they decide
+ */
+export const REVIEW_IN_PROGRESS_MESSAGE = 'This SOP has a review in progress. Withdraw the review to edit it.';
+
+/**
+ * Validate a review request and fill in defaults.
+ * Quorum defaults to every reviewer approving.
+ */
+export function normalizeReviewRequest(request: ReviewRequest, requesterId: string): Required<ReviewRequest> {
+  const reviewerIds = Array.from(new Set(request.reviewerIds.filter(Boolean)));
+
+  if (reviewerIds.length === 0) {
+    throw new BadRequestError('At least one reviewer is required');
+  }
+
+  if (reviewerIds.includes(requesterId)) {
+    throw new BadRequestError('You cannot review your own SOP');
+  }
+
+  const quorum = request.quorum ?? reviewerIds.length;
+
+  if (!Number.isInteger(quorum) || quorum < 1 || quorum > reviewerIds.length) {
+    throw new BadRequestError(`Quorum must be between 1 and ${reviewerIds.length}`);
+  }
+
+  return {
+    reviewerIds,
+    ordered: Boolean(request.ordered),
+    quorum,
+    message: request.message?.trim() || null
+  };
+}
+
+/**
+ * Pending approvals whose reviewer may decide right now.
+ * In an ordered review only the lowest pending sequence is actionable.
+ */
+export function getActionableApprovals(review: Pick<SopReview, 'ordered'>, approvals: Approval[]): Approval[] {
+  const pending = approvals.filter(approval => approval.status === 'pending');
+
+  if (!review.ordered || pending.length === 0) {
+    return pending;
+  }
+
+  const next = Math.min(...pending.map(approval => approval.sequence ?? 0));
+  return pending.filter(approval => (approval.sequence ?? 0) === next);
+}
+
+/**
+ * Work out where a review stands from its approvals.
+ * Approved once the quorum is met; rejected when an ordered chain is broken
+ * or when the remaining reviewers can no longer reach the quorum.
+ */
+export function evaluateReview(
+  review: Pick<SopReview, 'ordered' | 'quorum'>,
+  approvals: Approval[]
+): 'pending' | ReviewDecision {
+  const approved = approvals.filter(approval => approval.status === 'approved').length;
+  const rejected = approvals.filter(approval => approval.status === 'rejected').length;
+  const pending = approvals.length - approved - rejected;
+
+  if (approved >= review.quorum) {
+    return 'approved';
+  }
+
+  if ((review.ordered && rejected > 0) || approved + pending < review.quorum) {
+    return 'rejected';
+  }
+
+  return 'pending';
+}
+
+/**
+ * Map reviewer identifiers (user ids or email addresses) to user ids
+ * using the `users` table. Unknown emails are reported as a bad request.
+ */
+export async function resolveReviewerIds(supabase: SupabaseClient, reviewers: string[]): Promise<string[]> {
+  const emails = reviewers.filter(reviewer => EMAIL_PATTERN.test(reviewer)).map(email => email.toLowerCase());
+  const ids = reviewers.filter(reviewer => !EMAIL_PATTERN.test(reviewer));
+
+  if (emails.length === 0) {
+    return ids;
+  }
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('email', emails);
+
+  if (error) {
+    throw new Error(`Failed to look up reviewers: ${error.message}`);
+  }
+
+  const found = new Map((users || []).map(user => [String(user.email).toLowerCase(), user.id as string]));
+  const missing = emails.filter(email => !found.has(email));
+
+  if (missing.length > 0) {
+    throw new BadRequestError(`No user found for: ${missing.join(', ')}`);
+  }
+
+  return [...ids, ...emails.map(email => found.get(email) as string)];
+}
+
+/**
+ * Add each reviewer's email to the approvals of a review for display
+ */
+export async function attachReviewerEmails(supabase: SupabaseClient, review: SopReview): Promise<SopReview> {
+  const userIds = (review.approvals || []).map(approval => approval.user_id);
+
+  if (userIds.length === 0) {
+    return review;
+  }
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('id', userIds);
+
+  if (error) {
+    logger.warn('Could not load reviewer emails', { error, reviewId: review.id });
+    return review;
+  }
+
+  const emails = new Map((users || []).map(user => [user.id as string, user.email as string]));
+
+  return {
+    ...review,
+    approvals: (review.approvals || []).map(approval => ({
+      ...approval,
+      reviewer_email: emails.get(approval.user_id) ?? null
+    }))
+  };
+}
+
+/**
+ * Load the open review for an SOP together with its approvals, or null
+ */
+export async function getOpenReview(supabase: SupabaseClient, sopId: string): Promise<SopReview | null> {
+  const { data, error } = await supabase
+    .from('sop_reviews')
+    .select('*, approvals(*)')
+    .eq('sop_id', sopId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load review: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return sortApprovals(data[0] as SopReview);
+}
+
+/**
+ * Load the most recent review for an SOP whatever its status, or null
+ */
+export async function getLatestReview(supabase: SupabaseClient, sopId: string): Promise<SopReview | null> {
+  const { data, error } = await supabase
+    .from('sop_reviews')
+    .select('*, approvals(*)')
+    .eq('sop_id', sopId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load review: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? sortApprovals(data[0] as SopReview) : null;
+}
+
+/**
+ * Whether an SOP has a review with outstanding approvals
+ */
+export async function hasOutstandingReview(supabase: SupabaseClient, sopId: string): Promise<boolean> {
+  return (await getOpenReview(supabase, sopId)) !== null;
+}
+
+/**
+ * Open a review for an SOP, assign reviewers and move the SOP into `review`
+ */
+export async function submitForReview(
+  supabase: SupabaseClient,
+  sopId: string,
+  userId: string,
+  request: ReviewRequest
+): Promise<SopReview> {
+  const { reviewerIds, ordered, quorum, message } = normalizeReviewRequest(request, userId);
+
+  if (await hasOutstandingReview(supabase, sopId)) {
+    throw new ConflictError('This SOP already has a review in progress');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data: review, error: reviewError } = await supabase
+    .from('sop_reviews')
+    .insert({
+      sop_id: sopId,
+      requested_by: userId,
+      status: 'pending',
+      ordered,
+      quorum,
+      message,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single();
+
+  if (reviewError || !review) {
+    throw new Error(`Failed to create review: ${reviewError?.message || 'no row returned'}`);
+  }
+
+  const { data: approvals, error: approvalsError } = await supabase
+    .from('approvals')
+    .insert(reviewerIds.map((reviewerId, index) => ({
+      sop_id: sopId,
+      review_id: review.id,
+      user_id: reviewerId,
+      status: 'pending',
+      sequence: ordered ? index + 1 : null,
+      created_at: now,
+      updated_at: now
+    })))
+    .select();
+
+  if (approvalsError) {
+    // Don't leave a review without reviewers blocking the SOP
+    await supabase.from('sop_reviews').delete().eq('id', review.id);
+    throw new Error(`Failed to assign reviewers: ${approvalsError.message}`);
+  }
+
+  const { error: sopError } = await supabase
+    .from('sops')
+    .update({ status: 'review', updated_at: now })
+    .eq('id', sopId);
+
+  if (sopError) {
+    logger.error('Failed to move SOP into review status', { error: sopError, sopId });
+  }
+
+  await recordAuditLog(supabase, {
+    entity_type: 'sop',
+    entity_id: sopId,
+    action: 'review',
+    user_id: userId,
+    changes: { status: 'review' },
+    metadata: {
+      description: `Submitted for review by ${reviewerIds.length} reviewer(s)`,
+      review_id: review.id,
+      reviewers: reviewerIds,
+      ordered,
+      quorum
+    }
+  });
+
+  return sortApprovals({ ...review, approvals: approvals || [] } as SopReview);
+}
+
+/**
+ * Withdraw an open review and return the SOP to draft
+ */
+export async function cancelReview(supabase: SupabaseClient, review: SopReview, userId: string): Promise<SopReview> {
+  const updated = await closeReview(supabase, review, 'cancelled');
+
+  await setSopStatus(supabase, review.sop_id, 'draft');
+
+  await recordAuditLog(supabase, {
+    entity_type: 'sop',
+    entity_id: review.sop_id,
+    action: 'update',
+    user_id: userId,
+    changes: { status: 'draft' },
+    metadata: { description: 'Review withdrawn', review_id: review.id }
+  });
+
+  return updated;
+}
+
+/**
+ * Record a reviewer's decision and advance the review.
+ * Publishes the SOP once the quorum approves, or sends it back to draft
+ * when the review can no longer pass.
+ * Expects a client that can write across users (the service role).
+ */
+export async function decideReview(
+  supabase: SupabaseClient,
+  reviewId: string,
+  userId: string,
+  decision: ReviewDecision,
+  comment?: string | null
+): Promise<ReviewDecisionResult> {
+  const { data, error } = await supabase
+    .from('sop_reviews')
+    .select('*, approvals(*)')
+    .eq('id', reviewId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      throw new NotFoundError('Review not found');
+    }
+    throw new Error(`Failed to load review: ${error.message}`);
+  }
+
+  const review = sortApprovals(data as SopReview);
+  const approvals = review.approvals || [];
+  const approval = approvals.find(candidate => candidate.user_id === userId);
+
+  if (!approval) {
+    throw new ForbiddenError('You are not a reviewer on this SOP');
+  }
+
+  if (review.status !== 'pending' || approval.status !== 'pending') {
+    throw new ConflictError('This review has already been decided');
+  }
+
+  if (!getActionableApprovals(review, approvals).some(candidate => candidate.id === approval.id)) {
+    throw new ConflictError('Waiting for earlier reviewers to decide');
+  }
+
+  if (decision === 'rejected' && !comment?.trim()) {
+    throw new BadRequestError('A comment is required when rejecting');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data: decided, error: decideError } = await supabase
+    .from('approvals')
+    .update({
+      status: decision,
+      comment: comment?.trim() || null,
+      decided_at: now,
+      updated_at: now
+    })
+    .eq('id', approval.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (decideError || !decided) {
+    throw new Error(`Failed to record decision: ${decideError?.message || 'no row returned'}`);
+  }
+
+  await recordAuditLog(supabase, {
+    entity_type: 'sop',
+    entity_id: review.sop_id,
+    action: decision === 'approved' ? 'approve' : 'reject',
+    user_id: userId,
+    metadata: {
+      description: decision === 'approved' ? 'Approved in review' : 'Rejected in review',
+      review_id: review.id,
+      comment: comment?.trim() || null
+    }
+  });
+
+  const nextApprovals = approvals.map(candidate => (candidate.id === decided.id ? decided as Approval : candidate));
+  const outcome = evaluateReview(review, nextApprovals);
+
+  if (outcome === 'pending') {
+    return { review: { ...review, approvals: nextApprovals }, approval: decided as Approval };
+  }
+
+  const closed = await closeReview(supabase, review, outcome);
+
+  if (outcome === 'approved') {
+    await publishApprovedSop(supabase, review, userId);
+  } else {
+    await setSopStatus(supabase, review.sop_id, 'draft');
+    await recordAuditLog(supabase, {
+      entity_type: 'sop',
+      entity_id: review.sop_id,
+      action: 'update',
+      user_id: userId,
+      changes: { status: 'draft' },
+      metadata: { description: 'Review rejected; SOP returned to draft', review_id: review.id }
+    });
+  }
+
+  return { review: { ...closed, approvals: nextApprovals }, approval: decided as Approval };
+}
+
+async function publishApprovedSop(supabase: SupabaseClient, review: SopReview, userId: string): Promise<void> {
+  const { data: previous, error: loadError } = await supabase
+    .from('sops')
+    .select('status, is_published, published_at')
+    .eq('id', review.sop_id)
+    .single();
+
+  if (loadError || !previous) {
+    throw new Error(`Failed to load approved SOP: ${loadError?.message || 'not found'}`);
+  }
+
+  // Marked published before the snapshot, so the version records it as published
+  const { error } = await supabase
+    .from('sops')
+    .update({
+      status: 'published',
+      is_published: true,
+      published_at: new Date().toISOString()
+    })
+    .eq('id', review.sop_id);
+
+  if (error) {
+    throw new Error(`Failed to publish approved SOP: ${error.message}`);
+  }
+
+  let version;
+  try {
+    version = await createSopSnapshot(supabase, review.sop_id, userId, {
+      source: 'publish',
+      changeSummary: review.message || 'Approved in review'
+    });
+  } catch (snapshotError) {
+    // No published state without a version
+    const { error: rollbackError } = await supabase
+      .from('sops')
+      .update(previous)
+      .eq('id', review.sop_id);
+
+    if (rollbackError) {
+      logger.error('Could not undo publish of approved SOP', { error: rollbackError, sopId: review.sop_id });
+    }
+    throw snapshotError;
+  }
+
+  await recordAuditLog(supabase, {
+    entity_type: 'sop',
+    entity_id: review.sop_id,
+    action: 'publish',
+    user_id: userId,
+    changes: { status: 'published' },
+    metadata: {
+      description: `Published after review approval (version ${version.version_number})`,
+      review_id: review.id,
+      version: version.version_number
+    }
+  });
+}
+
+async function closeReview(
+  supabase: SupabaseClient,
+  review: SopReview,
+  status: Exclude<SopReview['status'], 'pending'>
+): Promise<SopReview> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('sop_reviews')
+    .update({ status, completed_at: now, updated_at: now })
+    .eq('id', review.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new ConflictError('This review is no longer open');
+  }
+
+  return data as SopReview;
+}
+
+async function setSopStatus(supabase: SupabaseClient, sopId: string, status: string): Promise<void> {
+  const { error } = await supabase
+    .from('sops')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', sopId);
+
+  if (error) {
+    logger.error('Failed to update SOP status', { error, sopId, status });
+  }
+}
+
+function sortApprovals(review: SopReview): SopReview {
+  const approvals = [...(review.approvals || [])].sort(
+    (a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.created_at.localeCompare(b.created_at)
+  );
+  return { ...review, approvals };
+}
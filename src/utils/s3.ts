@@ -18,6 +18,8 @@ const s3Client = new S3Client({
  * @param sopId - SOP ID
  * @param stepId - Step ID
  * @returns URL of the uploaded file
+ * @deprecated Upload routes store files through the media store (see
+ * utils/media-store with MEDIA_STORE=s3) so every file gets a `media` row
  */
 export const uploadMedia = async (
   file: File,
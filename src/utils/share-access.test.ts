@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import {
+  buildPublishSettings,
+  createShareAccessToken,
+  evaluateShareAccess,
+  hashSharePassword,
+  publicPublishSettings,
+  verifySharePassword
+} from './share-access';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('share passwords', () => {
+  it('stores only a salted hash and verifies it', () => {
+    const settings = buildPublishSettings({ allowComments: true, password: 'hunter2', expiryDate: '' }, NOW);
+
+    expect(settings).not.toHaveProperty('password');
+    expect(settings.passwordHash).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{64}$/);
+    expect(settings.passwordHash).not.toBe(hashSharePassword('hunter2'));
+    expect(verifySharePassword('hunter2', settings.passwordHash!)).toBe(true);
+    expect(verifySharePassword('hunter3', settings.passwordHash!)).toBe(false);
+    expect(publicPublishSettings(settings)).toEqual({ allowComments: true, expiryDate: null, revokedAt: null, hasPassword: true });
+  });
+
+  it('rejects invalid and past expiry dates', () => {
+    expect(() => buildPublishSettings({ expiryDate: 'soon' }, NOW)).toThrow('Invalid expiry date');
+    expect(() => buildPublishSettings({ expiryDate: '2026-03-09' }, NOW)).toThrow('must be in the future');
+    expect(buildPublishSettings({ expiryDate: '2026-03-10' }, NOW).expiryDate).toBe('2026-03-10');
+  });
+});
+
+describe('evaluateShareAccess', () => {
+  const anonymous = { isAuthenticated: false };
+
+  it('expires links after the end of the expiry day and honours revocation', () => {
+    const settings = { expiryDate: '2026-03-10' };
+
+    expect(evaluateShareAccess('sop-1', settings, anonymous, NOW, SECRET)).toBeNull();
+    expect(evaluateShareAccess('sop-1', settings, anonymous, new Date('2026-03-11T00:00:00Z'), SECRET)?.reason).toBe('expired');
+    expect(evaluateShareAccess('sop-1', { revokedAt: NOW.toISOString() }, anonymous, NOW, SECRET)).toMatchObject({ status: 410, reason: 'revoked' });
+  });
+
+  it('requires sign-in when requireAuth is set', () => {
+    expect(evaluateShareAccess('sop-1', { requireAuth: true }, anonymous, NOW, SECRET)).toMatchObject({ status: 401, reason: 'auth_required' });
+    expect(evaluateShareAccess('sop-1', { requireAuth: true }, { isAuthenticated: true }, NOW, SECRET)).toBeNull();
+  });
+
+  it('accepts a valid access token until it expires or the password changes', () => {
+    const passwordHash = hashSharePassword('hunter2');
+    const token = createShareAccessToken('sop-1', passwordHash, NOW, SECRET, 60);
+    const viewer = { isAuthenticated: false, accessToken: token };
+
+    expect(evaluateShareAccess('sop-1', { passwordHash }, anonymous, NOW, SECRET)?.reason).toBe('password_required');
+    expect(evaluateShareAccess('sop-1', { passwordHash }, viewer, NOW, SECRET)).toBeNull();
+    expect(evaluateShareAccess('sop-2', { passwordHash }, viewer, NOW, SECRET)?.reason).toBe('password_required');
+    expect(evaluateShareAccess('sop-1', { passwordHash }, viewer, new Date(NOW.getTime() + 61_000), SECRET)?.reason).toBe('password_required');
+    expect(evaluateShareAccess('sop-1', { passwordHash: hashSharePassword('hunter2') }, viewer, NOW, SECRET)?.reason).toBe('password_required');
+  });
+});
@@ -0,0 +1,209 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+/**
+ * Access control for shared (published) SOP links: password protection,
+ * expiry, sign-in requirement and revocation, all driven by `publish_settings`.
+ */
+
+/**
+ * Settings stored in `sops.publish_settings`. The plain-text password
+ * entered on the publish page is never stored, only `passwordHash`.
+ */
+export interface PublishSettings {
+  isPublic?: boolean;
+  allowComments?: boolean;
+  allowQuestions?: boolean;
+  requireAuth?: boolean;
+  allowPrinting?: boolean;
+  allowDownload?: boolean;
+  /** ISO timestamp, or a YYYY-MM-DD date meaning the end of that day (UTC) */
+  expiryDate?: string | null;
+  passwordHash?: string | null;
+  revokedAt?: string | null;
+}
+
+/**
+ * Settings as sent to viewers: no password hash, just whether there is one
+ */
+export type PublicPublishSettings = Omit<PublishSettings, 'passwordHash'> & { hasPassword: boolean };
+
+export type ShareAccessReason = 'revoked' | 'expired' | 'auth_required' | 'password_required';
+
+export interface ShareAccessDenial {
+  status: 401 | 410;
+  reason: ShareAccessReason;
+  error: string;
+}
+
+export const SHARE_ACCESS_TTL_SECONDS = 12 * 60 * 60;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Name of the cookie holding the access token for a shared SOP
+ */
+export function shareAccessCookieName(sopId: string): string {
+  return `sop_share_${sopId}`;
+}
+
+/**
+ * Hash a share password with scrypt and a random salt
+ */
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+export function verifySharePassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * When a share link stops working, or null if it does not expire
+ */
+export function shareExpiresAt(expiryDate: string | null | undefined): Date | null {
+  if (!expiryDate) return null;
+  const expiresAt = new Date(DATE_ONLY_PATTERN.test(expiryDate) ? `${expiryDate}T23:59:59.999Z` : expiryDate);
+  return isNaN(expiresAt.getTime()) ? null : expiresAt;
+}
+
+/**
+ * Turn the settings submitted by the publish page into the stored settings:
+ * the password is replaced by its hash and the expiry is validated
+ * @throws Error when the expiry date is invalid or already passed
+ */
+export function buildPublishSettings(input: Record<string, unknown> = {}, now = new Date()): PublishSettings {
+  // passwordHash and revokedAt are always set below, never taken from the input
+  const { password, expiryDate, ...rest } = input;
+  const settings: PublishSettings = { ...rest };
+
+  if (typeof expiryDate === 'string' && expiryDate.trim()) {
+    const expiresAt = shareExpiresAt(expiryDate.trim());
+    if (!expiresAt) {
+      throw new Error('Invalid expiry date');
+    }
+    if (expiresAt <= now) {
+      throw new Error('The expiry date must be in the future');
+    }
+    settings.expiryDate = expiryDate.trim();
+  } else {
+    settings.expiryDate = null;
+  }
+
+  settings.passwordHash = typeof password === 'string' && password !== '' ? hashSharePassword(password) : null;
+  settings.revokedAt = null;
+
+  return settings;
+}
+
+export function publicPublishSettings(settings: PublishSettings | null | undefined): PublicPublishSettings {
+  const { passwordHash, ...rest } = settings || {};
+  return { ...rest, hasPassword: !!passwordHash };
+}
+
+function shareAccessSecret(): string {
+  const secret = process.env.SHARE_ACCESS_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('SHARE_ACCESS_SECRET is not configured');
+  }
+  return secret;
+}
+
+// Tokens are bound to the password hash, so changing the password or republishing signs everyone out
+function signAccess(sopId: string, passwordHash: string, expires: number, secret: string): string {
+  const grant = createHash('sha256').update(passwordHash).digest('hex');
+  return createHmac('sha256', secret).update(`${sopId}:${grant}:${expires}`).digest('base64url');
+}
+
+/**
+ * Create the token stored in the access cookie after a correct password
+ */
+export function createShareAccessToken(
+  sopId: string,
+  passwordHash: string,
+  now = new Date(),
+  secret = shareAccessSecret(),
+  ttlSeconds = SHARE_ACCESS_TTL_SECONDS
+): string {
+  const expires = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  return `${expires}.${signAccess(sopId, passwordHash, expires, secret)}`;
+}
+
+export function verifyShareAccessToken(
+  token: string | null | undefined,
+  sopId: string,
+  passwordHash: string,
+  now = new Date(),
+  secret = shareAccessSecret()
+): boolean {
+  const [expiresPart, signature] = (token || '').split('.');
+  const expires = Number(expiresPart);
+  if (!signature || !Number.isInteger(expires) || expires * 1000 <= now.getTime()) return false;
+
+  const expected = Buffer.from(signAccess(sopId, passwordHash, expires, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Decide whether a viewer may open a shared SOP
+ * @returns null when access is granted, otherwise why not
+ */
+export function evaluateShareAccess(
+  sopId: string,
+  settings: PublishSettings | null | undefined,
+  viewer: { isAuthenticated: boolean; accessToken?: string | null },
+  now = new Date(),
+  secret?: string
+): ShareAccessDenial | null {
+  if (settings?.revokedAt) {
+    return { status: 410, reason: 'revoked', error: 'This share link has been revoked' };
+  }
+
+  const expiresAt = shareExpiresAt(settings?.expiryDate);
+  if (expiresAt && expiresAt <= now) {
+    return { status: 410, reason: 'expired', error: 'This share link has expired' };
+  }
+
+  if (settings?.requireAuth && !viewer.isAuthenticated) {
+    return { status: 401, reason: 'auth_required', error: 'Sign in to view this SOP' };
+  }
+
+  if (settings?.passwordHash && !verifyShareAccessToken(viewer.accessToken, sopId, settings.passwordHash, now, secret)) {
+    return { status: 401, reason: 'password_required', error: 'This SOP is password protected' };
+  }
+
+  return null;
+}
+
+/**
+ * Check a request for a shared SOP against its publish settings, using the
+ * viewer's session and access cookie
+ * @returns null when access is granted, otherwise the denial to send back
+ */
+export async function authorizeShareRequest(
+  req: NextRequest,
+  sopId: string,
+  settings: PublishSettings | null | undefined
+): Promise<ShareAccessDenial | null> {
+  let isAuthenticated = false;
+
+  if (settings?.requireAuth) {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { session } } = await supabase.auth.getSession();
+    isAuthenticated = !!session;
+  }
+
+  return evaluateShareAccess(sopId, settings, {
+    isAuthenticated,
+    accessToken: req.cookies.get(shareAccessCookieName(sopId))?.value
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { normalizeShareLinkLabel, resolveShareTarget, shareLinkStatus, summarizeStepDepth } from './share-links';
+
+describe('summarizeStepDepth', () => {
+  it('counts the views that reached each step', () => {
+    expect(summarizeStepDepth([0, 1, 3, 3, 2], 3)).toEqual([4, 3, 2]);
+    expect(summarizeStepDepth([], 2)).toEqual([0, 0]);
+    expect(summarizeStepDepth([5], 0)).toEqual([]);
+  });
+});
+
+describe('shareLinkStatus', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('reports revoked before expired', () => {
+    expect(shareLinkStatus({ revoked_at: null, settings: {} }, now)).toBe('active');
+    expect(shareLinkStatus({ revoked_at: null, settings: { expiryDate: '2026-03-10' } }, now)).toBe('active');
+    expect(shareLinkStatus({ revoked_at: null, settings: { expiryDate: '2026-03-09' } }, now)).toBe('expired');
+    expect(shareLinkStatus({ revoked_at: now.toISOString(), settings: { expiryDate: '2026-03-09' } }, now)).toBe('revoked');
+  });
+});
+
+describe('normalizeShareLinkLabel', () => {
+  it('trims labels and falls back for empty ones', () => {
+    expect(normalizeShareLinkLabel('  Night shift ')).toBe('Night shift');
+    expect(normalizeShareLinkLabel('   ')).toBe('Share link');
+    expect(normalizeShareLinkLabel(undefined, 'Default link')).toBe('Default link');
+    expect(normalizeShareLinkLabel('x'.repeat(150))).toHaveLength(100);
+  });
+});
+
+describe('resolveShareTarget', () => {
+  const sop = { id: 'sop-1', title: 'Onboarding', is_published: true, publish_settings: { allowComments: true } };
+
+  // Answers link lookups by id and counts the SOP's links
+  const client = (links: { id: string; sop_id: string; settings: object; revoked_at: string | null }[]) => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: async () => {
+          if (table === 'sops') return { data: filters.id === sop.id ? sop : null, error: null };
+          return { data: links.find(link => link.id === filters.id) ?? null, error: null };
+        },
+        then: (resolve: (value: unknown) => void) =>
+          resolve({ count: links.filter(link => link.sop_id === filters.sop_id).length, error: null })
+      };
+      return query;
+    }
+  }) as unknown as SupabaseClient;
+
+  it('serves an SOP without share links under its own id', async () => {
+    await expect(resolveShareTarget(client([]), 'sop-1')).resolves.toMatchObject({
+      link: null,
+      settings: { allowComments: true }
+    });
+  });
+
+  it('stops serving the SOP id once the SOP has share links, even revoked ones', async () => {
+    const links = [{ id: 'link-1', sop_id: 'sop-1', settings: {}, revoked_at: '2026-03-01T12:00:00Z' }];
+
+    await expect(resolveShareTarget(client(links), 'sop-1')).resolves.toBeNull();
+    await expect(resolveShareTarget(client(links), 'link-1')).resolves.toMatchObject({
+      link: { id: 'link-1' },
+      settings: { revokedAt: '2026-03-01T12:00:00Z' }
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { Media, SharedSopLink, SharedSopView, SOP } from '@/types/database.types';
+import { logger } from '@/utils/logger';
+import { getSopVersion } from '@/utils/sop-versions';
+import { PublicPublishSettings, PublishSettings, publicPublishSettings, shareExpiresAt } from '@/utils/share-access';
+
+/**
+ * Share links of published SOPs. A link in `shared_sops` carries its own
+ * label, publish settings, optional pinned version and view counters.
+ * Links published before share links existed use the SOP id as the link id
+ * and `sops.publish_settings` as their settings; they keep working until the
+ * SOP gets share links of its own.
+ */
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired';
+
+export interface ShareLinkSummary extends Omit<SharedSopLink, 'settings'> {
+  settings: PublicPublishSettings;
+  status: ShareLinkStatus;
+  /** Views that reached each step: step_depth[0] is step 1 */
+  step_depth: number[];
+}
+
+/**
+ * What a /shared/{id} URL points at
+ */
+export interface ShareTarget {
+  /** Share link; null for a link that is the SOP id itself */
+  link: SharedSopLink | null;
+  /** The published SOP row */
+  sop: SOP & { publish_settings?: PublishSettings | null };
+  /** Settings access is checked against, including revocation */
+  settings: PublishSettings;
+}
+
+export interface SharedContentStep {
+  id: string;
+  title?: string | null;
+  instructions?: string | null;
+  role?: string | null;
+  safety_notes?: string | null;
+  verification?: string | null;
+  order_index?: number;
+  media: Media[];
+}
+
+export interface SharedContent {
+  sop: { id: string; title: string; description?: string | null; category?: string | null; definitions?: string | null };
+  steps: SharedContentStep[];
+  equipment: { name?: string | null; description?: string | null }[];
+  /** Version served, when the link is pinned */
+  version_number: number | null;
+}
+
+export interface CreateShareLinkOptions {
+  label?: string;
+  settings?: PublishSettings;
+  /** Pin the link to this version instead of serving the current content */
+  versionNumber?: number | null;
+}
+
+const MAX_LABEL_LENGTH = 100;
+
+export function normalizeShareLinkLabel(label: unknown, fallback = 'Share link'): string {
+  return typeof label === 'string' && label.trim() ? label.trim().slice(0, MAX_LABEL_LENGTH) : fallback;
+}
+
+export function shareLinkStatus(link: Pick<SharedSopLink, 'revoked_at' | 'settings'>, now = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  const expiresAt = shareExpiresAt(link.settings?.expiryDate as string | undefined);
+  return expiresAt && expiresAt <= now ? 'expired' : 'active';
+}
+
+/**
+ * Count, for each step, how many views scrolled at least that far
+ */
+export function summarizeStepDepth(maxSteps: number[], stepCount: number): number[] {
+  return Array.from({ length: stepCount }, (_, index) => maxSteps.filter(step => step >= index + 1).length);
+}
+
+/**
+ * Create a share link for a published SOP
+ */
+export async function createShareLink(
+  supabase: SupabaseClient,
+  sopId: string,
+  userId: string,
+  { label, settings = {}, versionNumber = null }: CreateShareLinkOptions = {}
+): Promise<SharedSopLink> {
+  const { data, error } = await supabase
+    .from('shared_sops')
+    .insert({
+      sop_id: sopId,
+      created_by: userId,
+      label: normalizeShareLinkLabel(label),
+      settings,
+      version_number: versionNumber
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create share link: ${error.message}`);
+  }
+
+  return data as SharedSopLink;
+}
+
+/**
+ * All share links of an SOP, newest first, with status and scroll depth
+ */
+export async function listShareLinks(supabase: SupabaseClient, sopId: string, stepCount: number): Promise<ShareLinkSummary[]> {
+  const { data: links, error } = await supabase
+    .from('shared_sops')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load share links: ${error.message}`);
+  }
+
+  const linkIds = (links || []).map(link => link.id);
+  let views: Pick<SharedSopView, 'shared_sop_id' | 'max_step'>[] = [];
+
+  if (linkIds.length > 0) {
+    const { data, error: viewsError } = await supabase
+      .from('shared_sop_views')
+      .select('shared_sop_id, max_step')
+      .in('shared_sop_id', linkIds);
+
+    if (viewsError) {
+      // The table still lists the links and their counters without depth
+      logger.warn('Could not load share link views', { error: viewsError, sopId });
+    } else {
+      views = data || [];
+    }
+  }
+
+  return (links || []).map((link: SharedSopLink) => ({
+    ...link,
+    settings: publicPublishSettings(link.settings),
+    status: shareLinkStatus(link),
+    step_depth: summarizeStepDepth(
+      views.filter(view => view.shared_sop_id === link.id).map(view => view.max_step),
+      stepCount
+    )
+  }));
+}
+
+/**
+ * Revoke a share link; it stops working immediately
+ * Returns null when the SOP has no such link
+ */
+export async function revokeShareLink(supabase: SupabaseClient, sopId: string, linkId: string): Promise<SharedSopLink | null> {
+  const { data, error } = await supabase
+    .from('shared_sops')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId)
+    .eq('sop_id', sopId)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke share link: ${error.message}`);
+  }
+
+  return data as SharedSopLink | null;
+}
+
+/**
+ * Rename a share link
+ * Returns null when the SOP has no such link
+ */
+export async function renameShareLink(
+  supabase: SupabaseClient,
+  sopId: string,
+  linkId: string,
+  label: string
+): Promise<SharedSopLink | null> {
+  const { data, error } = await supabase
+    .from('shared_sops')
+    .update({ label: normalizeShareLinkLabel(label) })
+    .eq('id', linkId)
+    .eq('sop_id', sopId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to rename share link: ${error.message}`);
+  }
+
+  return data as SharedSopLink | null;
+}
+
+/**
+ * Resolve a /shared/{id} URL to the link and its published SOP
+ * Returns null when nothing published is shared under that id
+ */
+export async function resolveShareTarget(supabase: SupabaseClient, id: string): Promise<ShareTarget | null> {
+  const { data: link, error: linkError } = await supabase
+    .from('shared_sops')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (linkError) {
+    logger.warn('Could not look up share link', { error: linkError, id });
+  }
+
+  const { data: sop, error: sopError } = await supabase
+    .from('sops')
+    .select('*')
+    .eq('id', link ? link.sop_id : id)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  if (sopError) {
+    throw new Error(`Failed to load shared SOP: ${sopError.message}`);
+  }
+
+  if (!sop) {
+    return null;
+  }
+
+  if (link) {
+    return {
+      link: link as SharedSopLink,
+      sop,
+      settings: { ...(link.settings || {}), revokedAt: link.revoked_at || null }
+    };
+  }
+
+  // The SOP id only works as a link for SOPs without share links, so revoking
+  // every link of an SOP really stops sharing it
+  const { count, error: countError } = await supabase
+    .from('shared_sops')
+    .select('id', { count: 'exact', head: true })
+    .eq('sop_id', sop.id);
+
+  if (countError) {
+    throw new Error(`Failed to check share links: ${countError.message}`);
+  }
+
+  if (count) {
+    return null;
+  }
+
+  return { link: null, sop, settings: sop.publish_settings || {} };
+}
+
+/**
+ * Load what a share link shows: the pinned version, or the current steps,
+ * media and equipment of the SOP
+ */
+export async function loadSharedContent(supabase: SupabaseClient, target: ShareTarget): Promise<SharedContent> {
+  const versionNumber = target.link?.version_number ?? null;
+
+  if (versionNumber !== null) {
+    const version = await getSopVersion(supabase, target.sop.id, versionNumber);
+    if (!version) {
+      throw new Error(`Version ${versionNumber} of this SOP no longer exists`);
+    }
+
+    return {
+      sop: {
+        id: target.sop.id,
+        title: version.title,
+        description: version.description,
+        category: version.category,
+        definitions: version.definitions
+      },
+      steps: [...version.steps].sort((a, b) => a.order_index - b.order_index),
+      equipment: version.equipment || [],
+      version_number: versionNumber
+    };
+  }
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('steps')
+    .select('*')
+    .eq('sop_id', target.sop.id)
+    .order('order_index', { ascending: true });
+
+  if (stepsError) {
+    throw new Error(`Failed to load SOP steps: ${stepsError.message}`);
+  }
+
+  // Media and equipment are loaded best-effort; the steps are shown without them
+  const stepIds = (steps || []).map(step => step.id);
+  let media: Media[] = [];
+  if (stepIds.length > 0) {
+    const { data: mediaData, error: mediaError } = await supabase
+      .from('media')
+      .select('*')
+      .in('step_id', stepIds);
+
+    if (mediaError) {
+      logger.warn('Could not load media for shared SOP', { error: mediaError, sopId: target.sop.id });
+    } else {
+      media = mediaData || [];
+    }
+  }
+
+  const { data: equipment, error: equipmentError } = await supabase
+    .from('sop_equipment')
+    .select('name, description')
+    .eq('sop_id', target.sop.id);
+
+  if (equipmentError) {
+    logger.warn('Could not load equipment for shared SOP', { error: equipmentError, sopId: target.sop.id });
+  }
+
+  return {
+    sop: target.sop,
+    steps: (steps || []).map(step => ({
+      ...step,
+      media: media.filter(m => m.step_id === step.id)
+    })),
+    equipment: equipment || [],
+    version_number: null
+  };
+}
+
+/**
+ * Record one opening of a share link and update its counters
+ * Returns the id of the view, used to report scroll depth
+ */
+export async function recordShareView(
+  supabase: SupabaseClient,
+  link: SharedSopLink,
+  visitorId: string,
+  now = new Date()
+): Promise<string | null> {
+  const { count, error: countError } = await supabase
+    .from('shared_sop_views')
+    .select('id', { count: 'exact', head: true })
+    .eq('shared_sop_id', link.id)
+    .eq('visitor_id', visitorId);
+
+  const { data: view, error: viewError } = await supabase
+    .from('shared_sop_views')
+    .insert({ shared_sop_id: link.id, visitor_id: visitorId, created_at: now.toISOString() })
+    .select('id')
+    .single();
+
+  if (viewError) {
+    logger.warn('Could not record share link view', { error: viewError, linkId: link.id });
+    return null;
+  }
+
+  // Counters are best-effort: concurrent views of the same link can undercount
+  const { error: updateError } = await supabase
+    .from('shared_sops')
+    .update({
+      view_count: (link.view_count || 0) + 1,
+      unique_visitors: (link.unique_visitors || 0) + (!countError && count === 0 ? 1 : 0),
+      last_viewed_at: now.toISOString()
+    })
+    .eq('id', link.id);
+
+  if (updateError) {
+    logger.warn('Could not update share link counters', { error: updateError, linkId: link.id });
+  }
+
+  return view.id;
+}
+
+/**
+ * Raise the furthest step reached during a view; never lowers it
+ */
+export async function recordShareDepth(
+  supabase: SupabaseClient,
+  linkId: string,
+  viewId: string,
+  step: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('shared_sop_views')
+    .update({ max_step: step })
+    .eq('id', viewId)
+    .eq('shared_sop_id', linkId)
+    .lt('max_step', step);
+
+  if (error) {
+    throw new Error(`Failed to record scroll depth: ${error.message}`);
+  }
+}
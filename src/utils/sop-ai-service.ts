@@ -1,4 +1,4 @@
-import { openai } from './openai';
+import { AIMeter, completeJson, completeText } from '@/utils/ai';
 import { Step } from '@/types/database.types';
 
 // Define message structures
@@ -23,7 +23,8 @@ export async function generateSOPFromDescription(
   description: string,
   category: string,
   stakeholders: string = '',
-  definitions: string = ''
+  definitions: string = '',
+  meter?: AIMeter
 ): Promise<{ steps: Partial<Step>[] }> {
   try {
     const prompt = `
@@ -80,42 +81,26 @@ export async function generateSOPFromDescription(
       }
     `;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert SOP writer specializing in creating clear, actionable step-by-step procedures. You have extensive knowledge of industry best practices across multiple sectors including Manufacturing, Healthcare, IT, Food Service, Laboratory, Finance, and Safety. Your SOPs follow all regulatory requirements and incorporate verification steps. Always format your response as parseable JSON.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+    const parsedResponse = await completeJson<{ steps: Partial<Step>[] }>('sop_generation', [
+      {
+        role: 'system',
+        content: 'You are an expert SOP writer specializing in creating clear, actionable step-by-step procedures. You have extensive knowledge of industry best practices across multiple sectors including Manufacturing, Healthcare, IT, Food Service, Laboratory, Finance, and Safety. Your SOPs follow all regulatory requirements and incorporate verification steps. Always format your response as parseable JSON.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], {
       temperature: 0.7,
-      max_tokens: 2500,
-      response_format: { type: 'json_object' }
+      maxTokens: 2500,
+      meter
     });
-
-    const content = response.choices[0].message.content;
     
-    if (!content) {
-      throw new Error('No content returned from OpenAI');
+    if (!parsedResponse.steps || !Array.isArray(parsedResponse.steps)) {
+      throw new Error('Invalid response format: missing steps array');
     }
     
-    try {
-      // Parse the JSON response
-      const parsedResponse = JSON.parse(content);
-      
-      if (!parsedResponse.steps || !Array.isArray(parsedResponse.steps)) {
-        throw new Error('Invalid response format: missing steps array');
-      }
-      
-      return parsedResponse;
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
-      throw new Error('Failed to parse AI response');
-    }
+    return parsedResponse;
   } catch (error) {
     console.error('Error in generateSOPFromDescription:', error);
     throw error;
@@ -128,26 +113,26 @@ export async function generateSOPFromDescription(
 export async function enhanceStepInstructions(
   stepInstruction: string,
   stepNumber: number,
-  sopTitle: string
+  sopTitle: string,
+  meter?: AIMeter
 ): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert at enhancing SOP instructions. Make instructions clearer, more detailed, and more actionable without changing their core meaning.'
-        },
-        {
-          role: 'user',
-          content: `Enhance the following Step ${stepNumber} for the SOP titled "${sopTitle}": "${stepInstruction}"`
-        }
-      ],
+    const content = await completeText('step_enhancement', [
+      {
+        role: 'system',
+        content: 'You are an expert at enhancing SOP instructions. Make instructions clearer, more detailed, and more actionable without changing their core meaning.'
+      },
+      {
+        role: 'user',
+        content: `Enhance the following Step ${stepNumber} for the SOP titled "${sopTitle}": "${stepInstruction}"`
+      }
+    ], {
       temperature: 0.7,
-      max_tokens: 500
+      maxTokens: 500,
+      meter
     });
 
-    return response.choices[0].message.content || stepInstruction;
+    return content || stepInstruction;
   } catch (error) {
     console.error('Error enhancing step instructions:', error);
     return stepInstruction; // Fall back to original if enhancement fails
@@ -160,19 +145,18 @@ export async function enhanceStepInstructions(
 export async function suggestMediaForStep(
   stepInstruction: string,
   stepNumber: number,
-  sopTitle: string
+  sopTitle: string,
+  meter?: AIMeter
 ): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert in visual documentation for training materials and standard operating procedures. You provide detailed, specific advice for capturing helpful photos or videos that clearly illustrate procedural steps. Consider lighting, angles, framing, and key elements that should be visible in the shot. Your suggestions should be practical and easy to follow for someone without photography expertise.'
-        },
-        {
-          role: 'user',
-          content: `Suggest what photo or video would be most helpful for documenting Step ${stepNumber} of this SOP titled "${sopTitle}": 
+    const content = await completeText('media_suggestion', [
+      {
+        role: 'system',
+        content: 'You are an expert in visual documentation for training materials and standard operating procedures. You provide detailed, specific advice for capturing helpful photos or videos that clearly illustrate procedural steps. Consider lighting, angles, framing, and key elements that should be visible in the shot. Your suggestions should be practical and easy to follow for someone without photography expertise.'
+      },
+      {
+        role: 'user',
+        content: `Suggest what photo or video would be most helpful for documenting Step ${stepNumber} of this SOP titled "${sopTitle}": 
           
           Step instructions: "${stepInstruction}"
           
@@ -182,13 +166,14 @@ export async function suggestMediaForStep(
           3. Any specific details to focus on
           4. Whether a photo or video would be more appropriate
           5. If video, what actions should be demonstrated`
-        }
-      ],
+      }
+    ], {
       temperature: 0.7,
-      max_tokens: 300
+      maxTokens: 300,
+      meter
     });
 
-    return response.choices[0].message.content || 'Take a photo showing this step being performed.';
+    return content || 'Take a photo showing this step being performed.';
   } catch (error) {
     console.error('Error suggesting media for step:', error);
     return 'Take a photo showing this step being performed.';
@@ -199,7 +184,8 @@ export async function suggestMediaForStep(
  * Process an audio transcript to extract SOP information
  */
 export async function processAudioTranscript(
-  transcript: string
+  transcript: string,
+  meter?: AIMeter
 ): Promise<{
   title?: string;
   description?: string;
@@ -207,17 +193,15 @@ export async function processAudioTranscript(
   steps?: { order_index: number; instructions: string }[];
 }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You analyze transcripts of people describing procedures and extract structured SOP information.
+    return await completeJson('transcript', [
+      {
+        role: 'system',
+        content: `You analyze transcripts of people describing procedures and extract structured SOP information.
           Format your response as parseable JSON with title, description, category, and steps fields.`
-        },
-        {
-          role: 'user',
-          content: `Extract SOP information from this transcript: "${transcript}"
+      },
+      {
+        role: 'user',
+        content: `Extract SOP information from this transcript: "${transcript}"
           
           Return a JSON object with these fields:
           - title: The procedure title
@@ -226,27 +210,142 @@ export async function processAudioTranscript(
           - steps: An array of steps, each with order_index and instructions
           
           If any information is missing, include the field with null or an empty array.`
-        }
-      ],
+      }
+    ], {
       temperature: 0.5,
-      max_tokens: 1500,
-      response_format: { type: 'json_object' }
+      maxTokens: 1500,
+      meter
     });
-
-    const content = response.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error('No content returned from OpenAI');
-    }
-    
-    try {
-      return JSON.parse(content);
-    } catch (parseError) {
-      console.error('Failed to parse audio transcript response:', content);
-      throw new Error('Failed to process audio transcript');
-    }
   } catch (error) {
     console.error('Error processing audio transcript:', error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Generate step-by-step instructions from a free-form prompt
+ */
+export async function generateInstructions(prompt: string, meter?: AIMeter): Promise<string> {
+  if (!prompt) {
+    throw new Error('No prompt provided');
+  }
+
+  try {
+    const content = await completeText('instructions', [
+      {
+        role: 'system',
+        content: 'You are an expert SOP writer. Create clear, concise step-by-step instructions for the given task or procedure. Focus on precision, safety, and efficiency. Break down complex tasks into simple steps. Use active voice and imperative verbs.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], {
+      temperature: 0.7,
+      maxTokens: 1000,
+      meter
+    });
+
+    return content || 'Unable to generate instructions';
+  } catch (error) {
+    console.error('Error generating instructions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a narrated video script for an SOP
+ * @param description - Description (or title) of the SOP
+ * @param steps - Ordered steps to cover in the script
+ * @param meter - Optional usage meter for the calling user
+ */
+export async function generateVideoScript(
+  description: string,
+  steps: { title?: string | null; instructions: string }[],
+  meter?: AIMeter
+): Promise<string> {
+  if (!description) {
+    throw new Error('No description provided');
+  }
+
+  const stepsText = steps.map((step, index) =>
+    `Step ${index + 1}: ${step.title ? `${step.title} - ` : ''}${step.instructions}`
+  ).join('\n');
+
+  try {
+    const content = await completeText('video_script', [
+      {
+        role: 'system',
+        content: 'You are a professional video script writer specializing in instructional content. Create a clear, engaging script that will guide viewers through a process. Include an introduction, body with clear steps, and conclusion. Use conversational language that works well for spoken narration.'
+      },
+      {
+        role: 'user',
+        content: `I need a script for a video explaining the following SOP: "${description}".\n\nHere are the steps:\n${stepsText}\n\nPlease write a complete video script including introduction, steps with timing indicators, and conclusion.`
+      }
+    ], {
+      temperature: 0.7,
+      maxTokens: 1500,
+      meter
+    });
+
+    return content || 'Unable to generate video script';
+  } catch (error) {
+    console.error('Error generating video script:', error);
+    throw error;
+  }
+}
+
+/**
+ * Review an SOP for clarity, completeness and safety problems the
+ * deterministic lint rules cannot catch
+ * @param sop - Title, description and definitions of the SOP
+ * @param steps - Ordered steps to review
+ * @param meter - Optional usage meter for the calling user
+ * @returns Findings with the 1-based step number they apply to, or null for the whole SOP
+ */
+export async function reviewSOPQuality(
+  sop: { title: string; description?: string | null; definitions?: string | null },
+  steps: { title?: string | null; instructions: string; safety_notes?: string | null; verification?: string | null }[],
+  meter?: AIMeter
+): Promise<{ step: number | null; severity: 'error' | 'warning' | 'info'; message: string }[]> {
+  const stepsText = steps.map((step, index) => [
+    `Step ${index + 1}: ${step.title ? `${step.title} - ` : ''}${step.instructions}`,
+    step.safety_notes ? `  Safety: ${step.safety_notes}` : '',
+    step.verification ? `  Verification: ${step.verification}` : '',
+  ].filter(Boolean).join('\n')).join('\n');
+
+  try {
+    const result = await completeJson<{ findings?: unknown }>('sop_review', [
+      {
+        role: 'system',
+        content: `You are an experienced SOP reviewer. Point out steps that are ambiguous, missing information a new operator would need,
+          out of order, or unsafe. Do not comment on formatting. Return a JSON object with a "findings" array, where each finding is
+          { "step": the step number or null for the whole SOP, "severity": "error" | "warning" | "info", "message": one sentence }.
+          Return an empty array if the SOP has no problems.`
+      },
+      {
+        role: 'user',
+        content: `SOP: "${sop.title}"${sop.description ? `\nDescription: ${sop.description}` : ''}${sop.definitions ? `\nDefinitions: ${sop.definitions}` : ''}\n\n${stepsText}`
+      }
+    ], {
+      temperature: 0.2,
+      maxTokens: 1500,
+      meter
+    });
+
+    const findings = Array.isArray(result.findings) ? result.findings : [];
+
+    return findings
+      .filter((finding): finding is { step?: unknown; severity?: unknown; message: string } =>
+        !!finding && typeof finding === 'object' && typeof finding.message === 'string' && finding.message.trim() !== '')
+      .map(finding => ({
+        step: Number.isInteger(finding.step) && (finding.step as number) >= 1 && (finding.step as number) <= steps.length
+          ? finding.step as number
+          : null,
+        severity: finding.severity === 'error' || finding.severity === 'info' ? finding.severity : 'warning',
+        message: finding.message.trim()
+      }));
+  } catch (error) {
+    console.error('Error reviewing SOP quality:', error);
+    throw error;
+  }
+}
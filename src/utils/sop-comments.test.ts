@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { SopComment } from '@/types/database.types';
+import {
+  buildModerationQueue,
+  clientIp,
+  clientIpHash,
+  commentFilterConfig,
+  hashIp,
+  parseCommentInput,
+  rateLimitRetryAfter,
+  screenComment,
+  threadComments
+} from './sop-comments';
+
+function comment(id: string, created_at: string, fields: Partial<SopComment> = {}): SopComment {
+  return {
+    id,
+    sop_id: 'sop-1',
+    content: `Comment ${id}`,
+    author_name: 'Anonymous',
+    is_owner_reply: false,
+    status: 'approved',
+    spam_score: 0,
+    spam_reasons: [],
+    created_at,
+    updated_at: created_at,
+    ...fields
+  };
+}
+
+describe('commentFilterConfig', () => {
+  it('reads the word list and falls back on invalid numbers', () => {
+    expect(commentFilterConfig({})).toEqual({ blockedWords: [], threshold: 5, maxLinks: 2, ratePerHour: 10 });
+    expect(commentFilterConfig({
+      COMMENT_BLOCKED_WORDS: ' Casino, , pills ',
+      COMMENT_SPAM_THRESHOLD: '3',
+      COMMENT_MAX_LINKS: '0',
+      COMMENT_RATE_LIMIT_PER_HOUR: 'lots'
+    })).toEqual({ blockedWords: ['casino', 'pills'], threshold: 3, maxLinks: 0, ratePerHour: 10 });
+  });
+});
+
+describe('screenComment', () => {
+  const config = commentFilterConfig({ COMMENT_BLOCKED_WORDS: 'casino' });
+
+  it('passes ordinary comments', () => {
+    expect(screenComment('Step 3 should mention the torque setting, see https://example.com/spec for details.', config))
+      .toEqual({ score: 0, reasons: [], spam: false });
+  });
+
+  it('holds comments with blocked words, matching whole words only', () => {
+    expect(screenComment('Best CASINO bonus here', config)).toMatchObject({ spam: true, reasons: ['blocked words: casino'] });
+    expect(screenComment('Casinos are mentioned in step 2', config).spam).toBe(false);
+  });
+
+  it('adds up the heuristics', () => {
+    const result = screenComment('BUY NOW!!!!!!!!! http://a.test http://b.test http://c.test', config);
+
+    expect(result.reasons).toEqual(['3 links', 'link without text', 'repeated characters']);
+    expect(result.score).toBe(7);
+    expect(result.spam).toBe(true);
+    expect(screenComment('THIS STEP IS COMPLETELY WRONG AND DANGEROUS', config)).toMatchObject({
+      score: 2,
+      reasons: ['mostly capitals'],
+      spam: false
+    });
+  });
+});
+
+describe('parseCommentInput', () => {
+  it('trims the comment and author', () => {
+    expect(parseCommentInput({ comment: '  Thanks! ', author: ' Sam ', parentId: 'c1' }))
+      .toEqual({ content: 'Thanks!', authorName: 'Sam', parentId: 'c1' });
+    expect(parseCommentInput({ comment: 'Hi', author: '  ' })).toEqual({ content: 'Hi', authorName: null, parentId: null });
+  });
+
+  it('rejects empty and oversized comments', () => {
+    expect(() => parseCommentInput({ comment: '   ' })).toThrow('Comment text is required');
+    expect(() => parseCommentInput(null)).toThrow('Comment text is required');
+    expect(() => parseCommentInput({ comment: 'x'.repeat(2001) })).toThrow('at most 2000 characters');
+  });
+});
+
+describe('clientIp and hashIp', () => {
+  it('takes the address added by the trusted proxy, not one the client sent', () => {
+    const headers = new Headers({ 'x-forwarded-for': '192.0.2.99, 203.0.113.7' });
+
+    expect(clientIp(headers, {})).toBe('203.0.113.7');
+    expect(clientIp(new Headers({ 'x-forwarded-for': '192.0.2.99, 203.0.113.7, 10.0.0.1' }), { TRUSTED_PROXY_HOPS: '2' })).toBe('203.0.113.7');
+    expect(clientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }), { TRUSTED_PROXY_HOPS: '3' })).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, then to nothing', () => {
+    expect(clientIp(new Headers({ 'x-real-ip': '198.51.100.2' }), {})).toBe('198.51.100.2');
+    expect(clientIp(new Headers(), {})).toBeNull();
+  });
+
+  it('gives clients without an address one shared rate limit key', () => {
+    const env = { COMMENT_IP_SALT: 'a' };
+
+    expect(clientIpHash(new Headers(), env)).toBe(clientIpHash(new Headers(), env));
+    expect(clientIpHash(new Headers({ 'x-real-ip': '198.51.100.2' }), env)).toBe(hashIp('198.51.100.2', env));
+  });
+
+  it('hashes addresses with the configured key', () => {
+    const hash = hashIp('203.0.113.7', { COMMENT_IP_SALT: 'a' });
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashIp('203.0.113.7', { COMMENT_IP_SALT: 'a' })).toBe(hash);
+    expect(hashIp('203.0.113.7', { COMMENT_IP_SALT: 'b' })).not.toBe(hash);
+  });
+});
+
+describe('rateLimitRetryAfter', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('allows comments under the limit', () => {
+    expect(rateLimitRetryAfter(['2026-03-10T11:30:00Z'], 2, now)).toBe(0);
+    expect(rateLimitRetryAfter(['2026-03-10T11:30:00Z', '2026-03-10T10:59:00Z'], 2, now)).toBe(0);
+  });
+
+  it('waits until the oldest counted comment leaves the hour', () => {
+    const recent = ['2026-03-10T11:50:00Z', '2026-03-10T11:10:00Z', '2026-03-10T11:40:00Z'];
+
+    expect(rateLimitRetryAfter(recent, 3, now)).toBe(10 * 60);
+    expect(rateLimitRetryAfter(recent, 2, now)).toBe(40 * 60);
+  });
+});
+
+describe('threadComments', () => {
+  it('nests replies under their comment and drops orphans', () => {
+    const threads = threadComments([
+      comment('a', '2026-03-01T10:00:00Z'),
+      comment('b', '2026-03-02T10:00:00Z'),
+      comment('a2', '2026-03-03T10:00:00Z', { parent_id: 'a' }),
+      comment('a1', '2026-03-01T11:00:00Z', { parent_id: 'a' }),
+      comment('x1', '2026-03-01T11:00:00Z', { parent_id: 'hidden' })
+    ]);
+
+    expect(threads.map(thread => thread.id)).toEqual(['b', 'a']);
+    expect(threads[1].replies.map(reply => reply.id)).toEqual(['a1', 'a2']);
+    expect(threads[0].replies).toEqual([]);
+  });
+});
+
+describe('buildModerationQueue', () => {
+  it('filters by status, counts every status and attaches parents', () => {
+    const { comments, counts } = buildModerationQueue([
+      comment('a', '2026-03-01T10:00:00Z'),
+      comment('r1', '2026-03-02T10:00:00Z', { parent_id: 'a', status: 'pending' }),
+      comment('p', '2026-03-03T10:00:00Z', { status: 'pending' }),
+      comment('s', '2026-03-03T11:00:00Z', { status: 'spam' })
+    ], 'pending');
+
+    expect(counts).toEqual({ pending: 2, approved: 1, rejected: 0, spam: 1 });
+    expect(comments.map(item => item.id)).toEqual(['p', 'r1']);
+    expect(comments[0].parent).toBeNull();
+    expect(comments[1].parent).toEqual({ id: 'a', author_name: 'Anonymous', content: 'Comment a', status: 'approved' });
+  });
+});
@@ -0,0 +1,425 @@
+import { createHmac } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/utils/api-errors';
+import { SopComment, SopCommentStatus } from '@/types/database.types';
+
+/**
+ * Comments on shared SOPs: screening and rate limiting of new comments,
+ * one-level threads for the public page and the owner's moderation inbox.
+ *
+ *   COMMENT_BLOCKED_WORDS        comma-separated words that hold a comment as spam
+ *   COMMENT_SPAM_THRESHOLD       spam score at which a comment is held (default 5)
+ *   COMMENT_MAX_LINKS            links a comment may contain unpenalised (default 2)
+ *   COMMENT_RATE_LIMIT_PER_HOUR  comments one IP address may post per hour (default 10)
+ *   COMMENT_IP_SALT              key for the stored IP hashes
+ *                                (falls back to SUPABASE_SERVICE_ROLE_KEY)
+ *   TRUSTED_PROXY_HOPS           proxies in front of the app that append to
+ *                                X-Forwarded-For (default 1)
+ */
+
+type Env = Record<string, string | undefined>;
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_AUTHOR_NAME_LENGTH = 80;
+
+/** Statuses a moderator can move comments to */
+export const MODERATION_STATUSES: SopCommentStatus[] = ['approved', 'rejected', 'spam'];
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+// Stands in for the address of clients whose IP is unknown
+const UNKNOWN_CLIENT_IP = 'unknown';
+
+// Scores of the heuristics; a blocked word alone always reaches the threshold
+const LINK_SCORE = 3;
+const REPEATED_CHARACTER_SCORE = 2;
+const SHOUTING_SCORE = 2;
+const LINK_ONLY_SCORE = 2;
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+export interface CommentFilterConfig {
+  blockedWords: string[];
+  threshold: number;
+  maxLinks: number;
+  ratePerHour: number;
+}
+
+export interface SpamCheck {
+  score: number;
+  reasons: string[];
+  spam: boolean;
+}
+
+export interface CommentInput {
+  content: string;
+  authorName: string | null;
+  parentId: string | null;
+}
+
+/** A top-level comment with its replies, oldest reply first */
+export type CommentThread = SopComment & { replies: SopComment[] };
+
+/** A comment in the moderation inbox, with the comment it replies to */
+export type ModerationQueueItem = SopComment & {
+  parent: Pick<SopComment, 'id' | 'author_name' | 'content' | 'status'> | null;
+};
+
+export type ModerationCounts = Record<SopCommentStatus, number>;
+
+function numberSetting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+/**
+ * Read the spam filter and rate limit settings
+ */
+export function commentFilterConfig(env: Env = process.env): CommentFilterConfig {
+  return {
+    blockedWords: (env.COMMENT_BLOCKED_WORDS || '')
+      .split(',')
+      .map(word => word.trim().toLowerCase())
+      .filter(Boolean),
+    threshold: numberSetting(env.COMMENT_SPAM_THRESHOLD, 5, 1),
+    maxLinks: numberSetting(env.COMMENT_MAX_LINKS, 2, 0),
+    ratePerHour: numberSetting(env.COMMENT_RATE_LIMIT_PER_HOUR, 10, 1)
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Score a comment against the word list and the spam heuristics
+ */
+export function screenComment(content: string, config: CommentFilterConfig): SpamCheck {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const lower = content.toLowerCase();
+  const blocked = config.blockedWords.filter(word => new RegExp(`(^|\\W)${escapeRegExp(word)}($|\\W)`).test(lower));
+  if (blocked.length > 0) {
+    score += config.threshold;
+    reasons.push(`blocked words: ${blocked.join(', ')}`);
+  }
+
+  const links = content.match(LINK_PATTERN) || [];
+  if (links.length > config.maxLinks) {
+    score += LINK_SCORE;
+    reasons.push(`${links.length} links`);
+  }
+
+  // A link with next to no text around it
+  if (links.length > 0 && content.replace(LINK_PATTERN, '').replace(/\W/g, '').length < 15) {
+    score += LINK_ONLY_SCORE;
+    reasons.push('link without text');
+  }
+
+  if (/(.)\1{7,}/u.test(content)) {
+    score += REPEATED_CHARACTER_SCORE;
+    reasons.push('repeated characters');
+  }
+
+  const letters = content.replace(/[^\p{L}]/gu, '');
+  if (letters.length >= 20 && letters.replace(/[^\p{Lu}]/gu, '').length / letters.length > 0.7) {
+    score += SHOUTING_SCORE;
+    reasons.push('mostly capitals');
+  }
+
+  return { score, reasons, spam: score >= config.threshold };
+}
+
+/**
+ * Validate the body of a new comment or reply
+ * @throws BadRequestError when the comment is empty or too long
+ */
+export function parseCommentInput(body: unknown): CommentInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const content = typeof input.comment === 'string' ? input.comment.trim() : '';
+
+  if (!content) {
+    throw new BadRequestError('Comment text is required');
+  }
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new BadRequestError(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const author = typeof input.author === 'string' ? input.author.trim().slice(0, MAX_AUTHOR_NAME_LENGTH) : '';
+
+  return {
+    content,
+    authorName: author || null,
+    parentId: typeof input.parentId === 'string' && input.parentId ? input.parentId : null
+  };
+}
+
+/**
+ * The client's IP address as seen by the proxies in front of the app.
+ * Each proxy appends the address it got the request from to X-Forwarded-For,
+ * so only the last TRUSTED_PROXY_HOPS entries can be trusted; anything left
+ * of them is whatever the client sent. X-Real-IP is the fallback.
+ */
+export function clientIp(headers: Headers, env: Env = process.env): string | null {
+  const hops = numberSetting(env.TRUSTED_PROXY_HOPS, 1, 1);
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Keyed hash of an IP address, so rate limits work without storing addresses
+ */
+export function hashIp(ip: string, env: Env = process.env): string {
+  const key = env.COMMENT_IP_SALT || env.SUPABASE_SERVICE_ROLE_KEY || 'sop-comments';
+  return createHmac('sha256', key).update(ip).digest('hex');
+}
+
+/**
+ * Rate limit key of the client: the hash of its IP address. Requests without
+ * a known address share one key, so they are limited together rather than
+ * not at all.
+ */
+export function clientIpHash(headers: Headers, env: Env = process.env): string {
+  return hashIp(clientIp(headers, env) ?? UNKNOWN_CLIENT_IP, env);
+}
+
+/**
+ * Seconds until an IP address may comment again, given the times of its
+ * comments in the last hour
+ * @returns 0 when it is under the limit
+ */
+export function rateLimitRetryAfter(recent: string[], limit: number, now = new Date()): number {
+  const windowStart = now.getTime() - RATE_LIMIT_WINDOW_MS;
+  const times = recent
+    .map(time => new Date(time).getTime())
+    .filter(time => time > windowStart)
+    .sort((a, b) => b - a);
+
+  if (times.length < limit) return 0;
+
+  // The comment that has to leave the window before another one fits
+  return Math.max(1, Math.ceil((times[limit - 1] + RATE_LIMIT_WINDOW_MS - now.getTime()) / 1000));
+}
+
+/**
+ * Check the per-IP comment rate limit
+ * @returns seconds to wait, or 0 when the comment may be posted
+ */
+export async function checkCommentRateLimit(
+  supabase: SupabaseClient,
+  ipHash: string,
+  limit: number,
+  now = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('sop_comments')
+    .select('created_at')
+    .eq('ip_hash', ipHash)
+    .gt('created_at', new Date(now.getTime() - RATE_LIMIT_WINDOW_MS).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    // Comments stay open when the limit cannot be checked
+    logger.warn('Could not check comment rate limit', { error });
+    return 0;
+  }
+
+  return rateLimitRetryAfter((data || []).map(row => row.created_at), limit, now);
+}
+
+/**
+ * Group comments into threads: top-level comments newest first, replies
+ * oldest first. Replies whose parent is not in the list are left out.
+ */
+export function threadComments(comments: SopComment[]): CommentThread[] {
+  const threads = comments
+    .filter(comment => !comment.parent_id)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(comment => ({ ...comment, replies: [] as SopComment[] }));
+
+  const byId = new Map(threads.map(thread => [thread.id, thread]));
+  comments
+    .filter(comment => comment.parent_id && byId.has(comment.parent_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(reply => byId.get(reply.parent_id!)!.replies.push(reply));
+
+  return threads;
+}
+
+/**
+ * The moderation inbox for one status, newest first, with counts per status
+ */
+export function buildModerationQueue(
+  comments: SopComment[],
+  status: SopCommentStatus
+): { comments: ModerationQueueItem[]; counts: ModerationCounts } {
+  const counts: ModerationCounts = { pending: 0, approved: 0, rejected: 0, spam: 0 };
+  comments.forEach(comment => {
+    counts[comment.status] = (counts[comment.status] || 0) + 1;
+  });
+
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const queue = comments
+    .filter(comment => comment.status === status)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(comment => {
+      const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+      return {
+        ...comment,
+        parent: parent
+          ? { id: parent.id, author_name: parent.author_name, content: parent.content, status: parent.status }
+          : null
+      };
+    });
+
+  return { comments: queue, counts };
+}
+
+/**
+ * Public fields of a comment
+ */
+export function publicComment(comment: SopComment) {
+  return {
+    id: comment.id,
+    parent_id: comment.parent_id ?? null,
+    content: comment.content,
+    author_name: comment.author_name,
+    is_owner_reply: comment.is_owner_reply,
+    created_at: comment.created_at
+  };
+}
+
+/**
+ * Find the top-level comment a reply belongs to. Replying to a reply adds
+ * to the same thread.
+ * @throws NotFoundError when the comment is not on this SOP
+ */
+export async function resolveThreadRoot(supabase: SupabaseClient, sopId: string, parentId: string): Promise<SopComment> {
+  const { data: parent, error } = await supabase
+    .from('sop_comments')
+    .select('*')
+    .eq('id', parentId)
+    .eq('sop_id', sopId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load comment: ${error.message}`);
+  }
+  if (!parent) {
+    throw new NotFoundError('The comment you are replying to does not exist');
+  }
+  if (!parent.parent_id) {
+    return parent as SopComment;
+  }
+
+  return resolveThreadRoot(supabase, sopId, parent.parent_id);
+}
+
+/**
+ * All comments of an SOP, for the moderation inbox
+ */
+export async function listSopComments(supabase: SupabaseClient, sopId: string): Promise<SopComment[]> {
+  const { data, error } = await supabase
+    .from('sop_comments')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load comments: ${error.message}`);
+  }
+
+  return (data || []) as SopComment[];
+}
+
+/**
+ * Approve, reject or mark comments of an SOP as spam
+ * @returns the comments that were updated; those already in the status are
+ * left alone
+ */
+export async function moderateComments(
+  supabase: SupabaseClient,
+  sopId: string,
+  commentIds: string[],
+  status: SopCommentStatus,
+  moderatorId: string
+): Promise<SopComment[]> {
+  if (!MODERATION_STATUSES.includes(status)) {
+    throw new BadRequestError(`Status must be one of: ${MODERATION_STATUSES.join(', ')}`);
+  }
+
+  const ids = Array.from(new Set(commentIds.filter(id => typeof id === 'string' && id)));
+  if (ids.length === 0) {
+    throw new BadRequestError('Select at least one comment');
+  }
+
+  const { data, error } = await supabase
+    .from('sop_comments')
+    .update({ status, moderated_by: moderatorId, moderated_at: new Date().toISOString() })
+    .eq('sop_id', sopId)
+    .in('id', ids)
+    .neq('status', status)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to update comments: ${error.message}`);
+  }
+
+  return (data || []) as SopComment[];
+}
+
+/**
+ * Post a reply by the SOP owner. Owner replies are published immediately,
+ * and replying to a pending comment approves it.
+ * @returns the reply, and the comment replied to when the reply approved it
+ * @throws ConflictError when the comment was rejected or marked as spam
+ */
+export async function createOwnerReply(
+  supabase: SupabaseClient,
+  sopId: string,
+  parentId: string,
+  content: string,
+  owner: { id: string; name: string }
+): Promise<{ reply: SopComment; approved: SopComment | null }> {
+  const root = await resolveThreadRoot(supabase, sopId, parentId);
+
+  if (root.status === 'rejected' || root.status === 'spam') {
+    throw new ConflictError('Approve the comment before replying to it');
+  }
+
+  const [approved = null] = root.status === 'pending'
+    ? await moderateComments(supabase, sopId, [root.id], 'approved', owner.id)
+    : [];
+
+  const { data: reply, error } = await supabase
+    .from('sop_comments')
+    .insert({
+      sop_id: sopId,
+      parent_id: root.id,
+      content,
+      author_name: owner.name,
+      author_id: owner.id,
+      is_owner_reply: true,
+      status: 'approved',
+      moderated_by: owner.id,
+      moderated_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save reply: ${error.message}`);
+  }
+
+  return { reply: reply as SopComment, approved };
+}
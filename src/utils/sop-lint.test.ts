@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { findUndefinedAcronyms, findingsForStep, hasMultipleActions, lintSop, LintStep } from './sop-lint';
+
+const cleanStep = (id: string, order_index: number, overrides: Partial<LintStep> = {}): LintStep => ({
+  id,
+  order_index,
+  title: 'Close the valve',
+  instructions: 'Turn the main valve clockwise until it stops.',
+  role: 'Operator',
+  verification: 'The pressure gauge reads zero.',
+  ...overrides,
+});
+
+describe('lintSop', () => {
+  it('scores a clean SOP 100 and an empty one 0', () => {
+    expect(lintSop({ title: 'Shutdown' }, [cleanStep('a', 1), cleanStep('b', 2)])).toEqual({ score: 100, findings: [] });
+
+    const empty = lintSop({ title: 'Shutdown' }, []);
+    expect(empty.score).toBe(0);
+    expect(empty.findings.map(finding => finding.rule)).toEqual(['no-steps']);
+  });
+
+  it('reports step findings with step numbers in step order', () => {
+    const report = lintSop({ title: 'Cleaning', definitions: 'PPE: personal protective equipment' }, [
+      cleanStep('second', 2, { instructions: 'Open the LOTO box, then remove the lock and tag.', verification: '' }),
+      cleanStep('first', 1, { instructions: 'The tank is drained with the caustic wash. Wear PPE.', role: '' }),
+    ]);
+
+    expect(findingsForStep(report.findings, 'first').map(finding => [finding.rule, finding.step_number])).toEqual([
+      ['missing-safety-notes', 1],
+      ['missing-role', 1],
+      ['passive-voice', 1],
+    ]);
+    expect(findingsForStep(report.findings, 'second').map(finding => finding.rule)).toEqual([
+      'missing-verification',
+      'multiple-actions',
+      'undefined-acronym',
+    ]);
+    // first: 100 - 25 - 5 - 5 = 65, second: 100 - 10 - 10 - 10 = 70
+    expect(report.score).toBe(68);
+  });
+
+  it('reports an undefined acronym only at its first use', () => {
+    const report = lintSop({ title: 'Startup' }, [
+      cleanStep('a', 1, { instructions: 'Switch the VFD to manual.' }),
+      cleanStep('b', 2, { instructions: 'Set the VFD speed to 50%.' }),
+    ]);
+
+    expect(report.findings.filter(finding => finding.rule === 'undefined-acronym').map(finding => finding.step_id)).toEqual(['a']);
+  });
+});
+
+describe('rule helpers', () => {
+  it('detects steps with several actions', () => {
+    expect(hasMultipleActions('Turn the valve clockwise.')).toBe(false);
+    expect(hasMultipleActions('Open the panel, then reset the breaker.')).toBe(true);
+    expect(hasMultipleActions('Open the panel. Reset the breaker. Close the panel.')).toBe(true);
+  });
+
+  it('ignores defined, common and single-letter acronyms', () => {
+    expect(findUndefinedAcronyms('Check the PLCs and the HMI, then save the PDF on drive C.', 'HMI = human-machine interface'))
+      .toEqual(['PLC']);
+  });
+});
@@ -0,0 +1,215 @@
+import { SOP, Step } from '@/types/database.types';
+
+/**
+ * Quality linter for SOPs. The rules here are deterministic and free of
+ * server dependencies so the editor and the SOP list can run them directly;
+ * AI-assisted findings are added by POST /api/sops/[id]/lint.
+ */
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'no-steps'
+  | 'missing-verification'
+  | 'missing-safety-notes'
+  | 'passive-voice'
+  | 'multiple-actions'
+  | 'undefined-acronym'
+  | 'missing-role'
+  | 'ai-review';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** Step the finding applies to; absent for SOP-level findings */
+  step_id?: string;
+  step_number?: number;
+  source: 'rule' | 'ai';
+}
+
+export interface LintReport {
+  /** 0-100, from the rule findings only so it is reproducible */
+  score: number;
+  findings: LintFinding[];
+}
+
+export type LintSop = Pick<SOP, 'title'> & Partial<Pick<SOP, 'description' | 'definitions'>>;
+
+export type LintStep = Pick<Step, 'id' | 'instructions'> &
+  Partial<Pick<Step, 'order_index' | 'role' | 'safety_notes' | 'verification'>> & {
+    title?: string | null;
+    name?: string | null;
+  };
+
+// Points a finding takes off its step's score (or off the SOP score for SOP-level findings)
+const SEVERITY_PENALTY: Record<LintSeverity, number> = {
+  error: 25,
+  warning: 10,
+  info: 5,
+};
+
+const HAZARD_PATTERN = new RegExp(
+  '\\b(' + [
+    'chemicals?', 'acids?', 'alkali', 'caustic', 'corrosive', 'solvents?', 'bleach', 'ammonia', 'toxic', 'flammable',
+    'electric(?:al|ity)?', 'voltage', 'live wires?', 'breakers?', 'circuits?', 'mains', 'high[- ]voltage',
+    'heights?', 'ladders?', 'scaffold(?:ing)?', 'roofs?', 'harness', 'lifts?', 'elevated',
+  ].join('|') + ')\\b',
+  'i'
+);
+
+const IRREGULAR_PARTICIPLES = [
+  'done', 'made', 'taken', 'given', 'kept', 'left', 'put', 'set', 'shown', 'seen', 'sent', 'built', 'held',
+  'worn', 'cut', 'shut', 'written', 'driven', 'known', 'found', 'brought', 'bought', 'laid', 'hung', 'torn',
+];
+
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'i'
+);
+
+const SEQUENCE_PATTERN = /\b(?:then|after that|afterwards|once (?:this|that) is done)\b/i;
+
+// Capitalized words that are not acronyms needing a definition
+const COMMON_ACRONYMS = new Set(['SOP', 'SOPS', 'OK', 'ID', 'AM', 'PM', 'US', 'USA', 'UK', 'EU', 'PDF', 'URL', 'FAQ', 'TV', 'PC']);
+
+const ACRONYM_PATTERN = /\b([A-Z][A-Z0-9]{1,5})s?\b/g;
+
+/**
+ * Title of a step; the database column is `title`, the Step type calls it `name`
+ */
+function stepTitle(step: LintStep): string {
+  return step.title || step.name || '';
+}
+
+function stepText(step: LintStep): string {
+  return [stepTitle(step), step.instructions, step.verification].filter(Boolean).join('\n');
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/[.!?]+\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[a-z]/i.test(sentence));
+}
+
+/**
+ * True when instructions describe more than one action
+ */
+export function hasMultipleActions(instructions: string): boolean {
+  const parts = sentences(instructions);
+  return parts.length > 2 || (parts.length > 0 && SEQUENCE_PATTERN.test(instructions) && /[,;]|\band\b/.test(instructions));
+}
+
+/**
+ * Acronyms used in a text that do not appear in the definitions.
+ * Plurals ("PLCs") count as the acronym itself.
+ */
+export function findUndefinedAcronyms(text: string, definitions = ''): string[] {
+  const acronymsIn = (value: string) => Array.from(value.matchAll(ACRONYM_PATTERN), match => match[1])
+    .filter(acronym => /[A-Z].*[A-Z]/.test(acronym));
+
+  const defined = new Set(acronymsIn(definitions));
+  return Array.from(new Set(acronymsIn(text)))
+    .filter(acronym => !COMMON_ACRONYMS.has(acronym) && !defined.has(acronym));
+}
+
+function lintStep(step: LintStep, stepNumber: number, definitions: string, seenAcronyms: Set<string>): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const instructions = step.instructions?.trim() || '';
+  const add = (rule: LintRule, severity: LintSeverity, message: string) =>
+    findings.push({ rule, severity, message, step_id: step.id, step_number: stepNumber, source: 'rule' });
+
+  if (!step.safety_notes?.trim()) {
+    const hazard = stepText(step).match(HAZARD_PATTERN);
+    if (hazard) {
+      add('missing-safety-notes', 'error', `Mentions "${hazard[0]}" but has no safety notes`);
+    }
+  }
+
+  if (!step.verification?.trim()) {
+    add('missing-verification', 'warning', 'No verification: say how to confirm the step was done correctly');
+  }
+
+  if (!step.role?.trim()) {
+    add('missing-role', 'info', 'No role assigned to this step');
+  }
+
+  if (instructions && hasMultipleActions(instructions)) {
+    add('multiple-actions', 'warning', 'Describes several actions; consider splitting it into separate steps');
+  }
+
+  const passive = instructions.match(PASSIVE_PATTERN);
+  if (passive) {
+    add('passive-voice', 'info', `Passive voice ("${passive[0]}"); start with the action, e.g. "Close the valve"`);
+  }
+
+  // Report each undefined acronym once, at its first use
+  for (const acronym of findUndefinedAcronyms(stepText(step), definitions)) {
+    if (seenAcronyms.has(acronym)) continue;
+    seenAcronyms.add(acronym);
+    add('undefined-acronym', 'warning', `"${acronym}" is not explained in the SOP definitions`);
+  }
+
+  return findings;
+}
+
+/**
+ * Score findings: each step starts at 100 and loses points for its findings,
+ * the SOP score is the average step score minus SOP-level penalties
+ */
+export function scoreLintFindings(findings: LintFinding[], stepIds: string[]): number {
+  if (stepIds.length === 0) return 0;
+
+  const penalties = new Map<string, number>(stepIds.map(id => [id, 0]));
+  let sopPenalty = 0;
+
+  for (const finding of findings) {
+    if (finding.source !== 'rule') continue;
+    const penalty = SEVERITY_PENALTY[finding.severity];
+
+    if (finding.step_id && penalties.has(finding.step_id)) {
+      penalties.set(finding.step_id, (penalties.get(finding.step_id) || 0) + penalty);
+    } else {
+      sopPenalty += penalty;
+    }
+  }
+
+  const average = Array.from(penalties.values())
+    .reduce((total, penalty) => total + Math.max(0, 100 - penalty), 0) / stepIds.length;
+
+  return Math.max(0, Math.round(average - sopPenalty));
+}
+
+/**
+ * Run the deterministic rules over an SOP and its steps
+ */
+export function lintSop(sop: LintSop, steps: LintStep[]): LintReport {
+  const ordered = [...steps].sort((a, b) => (a.order_index ?? 0) - (b.order_index ?? 0));
+  const definitions = sop.definitions || '';
+  const findings: LintFinding[] = [];
+
+  if (ordered.length === 0) {
+    findings.push({ rule: 'no-steps', severity: 'error', message: 'The SOP has no steps', source: 'rule' });
+  }
+
+  const seenAcronyms = new Set<string>();
+  ordered.forEach((step, index) => {
+    findings.push(...lintStep(step, index + 1, definitions, seenAcronyms));
+  });
+
+  return {
+    score: scoreLintFindings(findings, ordered.map(step => step.id)),
+    findings,
+  };
+}
+
+/**
+ * Findings for one step, most severe first
+ */
+export function findingsForStep(findings: LintFinding[], stepId: string): LintFinding[] {
+  const order: LintSeverity[] = ['error', 'warning', 'info'];
+  return findings
+    .filter(finding => finding.step_id === stepId)
+    .sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+}
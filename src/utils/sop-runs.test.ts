@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { SopRun } from '@/types/database.types';
+import { ConflictError } from './api-errors';
+import { LocalMediaStore, MediaUploadRejectedError } from './media-store';
+import { completeRunStep, inferResponseType, normalizeStepResponse, storeRunStepPhoto } from './sop-runs';
+
+describe('inferResponseType', () => {
+  it('maps verification wording to an answer type', () => {
+    expect(inferResponseType(undefined)).toBe('none');
+    expect(inferResponseType('Take a photo of the tagged breaker')).toBe('photo');
+    expect(inferResponseType('Record the pressure reading')).toBe('number');
+    expect(inferResponseType('Gauge shows below 5 psi')).toBe('number');
+    expect(inferResponseType('Note any leaks you observe')).toBe('text');
+    expect(inferResponseType('Confirm the valve is closed')).toBe('pass_fail');
+  });
+});
+
+describe('normalizeStepResponse', () => {
+  it('records pass/fail answers with a passed flag', () => {
+    expect(normalizeStepResponse('pass_fail', { response_value: 'fail' })).toEqual({
+      response_value: 'fail',
+      passed: false,
+      photo_url: null,
+    });
+  });
+
+  it('requires numeric readings to be numbers', () => {
+    expect(normalizeStepResponse('number', { response_value: ' 4.50 ' }).response_value).toBe('4.5');
+    expect(() => normalizeStepResponse('number', { response_value: 'low' })).toThrow('numeric');
+  });
+
+  it('requires a photo for photo steps and an answer for text steps', () => {
+    expect(() => normalizeStepResponse('photo', {})).toThrow('photo');
+    expect(() => normalizeStepResponse('text', { response_value: '  ' })).toThrow('written');
+  });
+});
+
+describe('completeRunStep', () => {
+  const now = '2026-03-01T12:00:00.000Z';
+  const run: SopRun = {
+    id: 'run-1',
+    sop_id: 'sop-1',
+    version_number: 2,
+    sop_title: 'Wheel change',
+    status: 'in_progress',
+    started_by: 'user-1',
+    started_at: now,
+    created_at: now,
+    updated_at: now,
+    steps: [{ id: 'run-step-1', run_id: 'run-1', position: 1, response_type: 'none', completed: false, created_at: now, updated_at: now }]
+  };
+
+  // Answers the step update with `step` and the run update with `runError`
+  const client = (step: unknown, runError: unknown = null) => ({
+    from: (table: string) => {
+      const query = {
+        update: () => query,
+        eq: () => query,
+        select: () => query,
+        maybeSingle: async () => ({ data: step, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ error: table === 'sop_runs' ? runError : null })
+      };
+      return query;
+    }
+  }) as unknown as SupabaseClient;
+
+  it('reports a conflict when another request completed the step first', async () => {
+    await expect(completeRunStep(client(null), run, 1, 'user-1', {})).rejects.toThrow(ConflictError);
+    await expect(completeRunStep(client(null), run, 1, 'user-1', {})).rejects.toThrow('Step 1 is already complete');
+  });
+
+  it('returns the completed step and fails when the run cannot be updated', async () => {
+    const completed = { ...run.steps![0], completed: true };
+
+    await expect(completeRunStep(client(completed), run, 1, 'user-1', {})).resolves.toEqual(completed);
+    await expect(completeRunStep(client(completed, { message: 'timeout' }), run, 1, 'user-1', {}))
+      .rejects.toThrow('Failed to update run: timeout');
+  });
+});
+
+describe('storeRunStepPhoto', () => {
+  const run = { id: 'run-1', sop_id: 'sop-1' };
+  // Only the audit log is written to
+  const supabase = { from: () => ({ insert: async () => ({ error: null }) }) } as unknown as SupabaseClient;
+  let root: string;
+  let store: LocalMediaStore;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'run-photos-'));
+    store = new LocalMediaStore(root, 'test-secret');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('stores the photo and its variants under the run', async () => {
+    const body = new Uint8Array(await sharp({ create: { width: 400, height: 300, channels: 3, background: '#3366cc' } }).jpeg().toBuffer());
+
+    const photo = await storeRunStepPhoto(supabase, run, 'user-1', { name: 'breaker.JPG', type: 'image/jpeg', size: body.byteLength, body }, store);
+
+    expect(photo.photo_storage_backend).toBe('local');
+    expect(photo.photo_storage_key).toMatch(/^runs\/run-1\/[0-9a-f-]+\.jpg$/);
+    expect(photo.photo_url).toBe(store.publicUrl(photo.photo_storage_key!));
+    expect(photo.photo_variants.length).toBeGreaterThan(0);
+    expect((await store.list('runs/run-1/')).map(object => object.key).sort()).toEqual([...photo.keys].sort());
+  });
+
+  it('refuses files that are not images, or not what they claim to be, before storing them', async () => {
+    const pdf = new TextEncoder().encode('%PDF-1.4');
+    await expect(storeRunStepPhoto(supabase, run, 'user-1', { name: 'form.pdf', type: 'application/pdf', size: pdf.byteLength, body: pdf }, store))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    const fake = new TextEncoder().encode('<html><script>alert(1)</script></html>');
+    await expect(storeRunStepPhoto(supabase, run, 'user-1', { name: 'photo.png', type: 'image/png', size: fake.byteLength, body: fake }, store))
+      .rejects.toBeInstanceOf(MediaUploadRejectedError);
+
+    expect(await store.list()).toEqual([]);
+  });
+});
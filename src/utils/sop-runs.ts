@@ -0,0 +1,394 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, ConflictError, NotFoundError } from '@/utils/api-errors';
+import { RunResponseType, SopRun, SopRunStep, SopVersion } from '@/types/database.types';
+import { getMediaStore, MediaStore, MediaUploadRejectedError } from '@/utils/media-store';
+import { screenMediaUpload } from '@/utils/media-screening';
+import { mediaFileKey, mediaTypeFor, MediaUpload, putMediaFile, validateMediaUpload } from '@/utils/step-media';
+
+/**
+ * Photo evidence of a run step, as stored by storeRunStepPhoto
+ */
+export type RunStepPhoto = Required<Pick<SopRunStep, 'photo_url' | 'photo_storage_backend' | 'photo_storage_key' | 'photo_variants'>> & {
+  /** Every key written: the photo and its variants */
+  keys: string[];
+};
+
+export interface StepResponseInput {
+  response_value?: string | number | null;
+  photo?: RunStepPhoto | null;
+}
+
+export interface SignOffInput {
+  signatureName: string;
+  signatureData: string;
+  notes?: string | null;
+}
+
+// Drawn signatures arrive as PNG data URLs from the signature pad
+const SIGNATURE_PREFIX = 'data:image/png;base64,';
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+/**
+ * Guess how a step's verification should be answered from its wording.
+ * Steps without a verification are simply ticked off.
+ */
+export function inferResponseType(verification?: string | null): RunResponseType {
+  const text = verification?.trim().toLowerCase();
+
+  if (!text) {
+    return 'none';
+  }
+
+  if (/\b(photo|picture|image|snapshot)\b/.test(text)) {
+    return 'photo';
+  }
+
+  if (
+    /\b(reading|measure|measurement|temperature|pressure|voltage|weight|torque|level)\b/.test(text) ||
+    /\d\s*(psi|bar|°|v|nm|kg|%)/.test(text)
+  ) {
+    return 'number';
+  }
+
+  if (/\b(record|note|describe|write down|comment)\b/.test(text)) {
+    return 'text';
+  }
+
+  return 'pass_fail';
+}
+
+/**
+ * Validate an operator's answer for a step and shape it for storage
+ */
+export function normalizeStepResponse(
+  type: RunResponseType,
+  input: StepResponseInput
+): Pick<SopRunStep, 'response_value' | 'passed' | 'photo_url'> {
+  const raw = input.response_value === undefined || input.response_value === null
+    ? ''
+    : String(input.response_value).trim();
+
+  switch (type) {
+    case 'none':
+      return { response_value: null, passed: null, photo_url: null };
+
+    case 'pass_fail':
+      if (raw !== 'pass' && raw !== 'fail') {
+        throw new BadRequestError("This step needs a 'pass' or 'fail' answer");
+      }
+      return { response_value: raw, passed: raw === 'pass', photo_url: null };
+
+    case 'number': {
+      const value = Number(raw);
+      if (raw === '' || !Number.isFinite(value)) {
+        throw new BadRequestError('This step needs a numeric reading');
+      }
+      return { response_value: String(value), passed: null, photo_url: null };
+    }
+
+    case 'text':
+      if (!raw) {
+        throw new BadRequestError('This step needs a written answer');
+      }
+      return { response_value: raw, passed: null, photo_url: null };
+
+    case 'photo':
+      if (!input.photo?.photo_url) {
+        throw new BadRequestError('This step needs a photo');
+      }
+      return { response_value: raw || null, passed: null, photo_url: input.photo.photo_url };
+  }
+}
+
+/**
+ * Whether the user owns the SOP row (older rows use `created_by`, newer `user_id`)
+ */
+export function isSopOwner(sop: { user_id?: string | null; created_by?: string | null }, userId: string): boolean {
+  return sop.user_id === userId || sop.created_by === userId;
+}
+
+/**
+ * Start a run of the most recently published version of an SOP.
+ * The version's steps are copied into the run as its checklist.
+ */
+export async function startRun(supabase: SupabaseClient, sopId: string, userId: string): Promise<SopRun> {
+  const { data: versions, error: versionError } = await supabase
+    .from('sop_versions')
+    .select('*')
+    .eq('sop_id', sopId)
+    .eq('source', 'publish')
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  if (versionError) {
+    throw new Error(`Failed to load published version: ${versionError.message}`);
+  }
+
+  if (!versions || versions.length === 0) {
+    throw new ConflictError('Only published SOPs can be run');
+  }
+
+  const version = versions[0] as SopVersion;
+  const now = new Date().toISOString();
+
+  const { data: run, error: runError } = await supabase
+    .from('sop_runs')
+    .insert({
+      sop_id: sopId,
+      version_number: version.version_number,
+      sop_title: version.title,
+      status: 'in_progress',
+      started_by: userId,
+      started_at: now,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to start run: ${runError?.message || 'no row returned'}`);
+  }
+
+  const steps = [...(version.steps || [])].sort((a, b) => a.order_index - b.order_index);
+
+  if (steps.length > 0) {
+    const { error: stepsError } = await supabase
+      .from('sop_run_steps')
+      .insert(steps.map((step, index) => ({
+        run_id: run.id,
+        step_id: step.id,
+        position: index + 1,
+        title: step.title || step.name || null,
+        instructions: step.instructions || null,
+        verification: step.verification || null,
+        response_type: inferResponseType(step.verification),
+        completed: false,
+        created_at: now,
+        updated_at: now
+      })));
+
+    if (stepsError) {
+      await supabase.from('sop_runs').delete().eq('id', run.id);
+      throw new Error(`Failed to create run checklist: ${stepsError.message}`);
+    }
+  }
+
+  return (await getRun(supabase, run.id)) as SopRun;
+}
+
+/**
+ * Load a run with its steps in order, or null if it does not exist
+ */
+export async function getRun(supabase: SupabaseClient, runId: string): Promise<SopRun | null> {
+  const { data, error } = await supabase
+    .from('sop_runs')
+    .select('*, steps:sop_run_steps(*)')
+    .eq('id', runId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to load run: ${error.message}`);
+  }
+
+  const run = data as SopRun;
+  return {
+    ...run,
+    steps: [...(run.steps || [])].sort((a, b) => a.position - b.position)
+  };
+}
+
+/**
+ * List the runs of an SOP, newest first. Pass `startedBy` to limit the
+ * history to one operator's runs.
+ */
+export async function listRuns(
+  supabase: SupabaseClient,
+  sopId: string,
+  startedBy?: string
+): Promise<SopRun[]> {
+  let query = supabase
+    .from('sop_runs')
+    .select('id, sop_id, version_number, sop_title, status, started_by, started_at, completed_at, signed_by, signature_name, created_at, updated_at')
+    .eq('sop_id', sopId)
+    .order('started_at', { ascending: false });
+
+  if (startedBy) {
+    query = query.eq('started_by', startedBy);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load runs: ${error.message}`);
+  }
+
+  return (data || []) as SopRun[];
+}
+
+/**
+ * Tick off a step of an in-progress run. Steps are performed in order, so
+ * every earlier step must already be complete.
+ */
+export async function completeRunStep(
+  supabase: SupabaseClient,
+  run: SopRun,
+  position: number,
+  userId: string,
+  input: StepResponseInput
+): Promise<SopRunStep> {
+  if (run.status !== 'in_progress') {
+    throw new ConflictError('This run has already been signed off');
+  }
+
+  const steps = run.steps || [];
+  const step = steps.find(candidate => candidate.position === position);
+
+  if (!step) {
+    throw new NotFoundError(`Step ${position} not found in this run`);
+  }
+
+  if (step.completed) {
+    throw new ConflictError(`Step ${position} is already complete`);
+  }
+
+  const outstanding = steps.find(candidate => candidate.position < position && !candidate.completed);
+  if (outstanding) {
+    throw new ConflictError(`Complete step ${outstanding.position} first`);
+  }
+
+  const response = normalizeStepResponse(step.response_type, input);
+  const now = new Date().toISOString();
+  const photo = step.response_type === 'photo' && input.photo
+    ? {
+        photo_storage_backend: input.photo.photo_storage_backend,
+        photo_storage_key: input.photo.photo_storage_key,
+        photo_variants: input.photo.photo_variants
+      }
+    : {};
+
+  const { data, error } = await supabase
+    .from('sop_run_steps')
+    .update({
+      ...response,
+      ...photo,
+      completed: true,
+      performed_by: userId,
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('id', step.id)
+    .eq('completed', false)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to complete step: ${error.message}`);
+  }
+
+  // Another request completed the step since the run was loaded
+  if (!data) {
+    throw new ConflictError(`Step ${position} is already complete`);
+  }
+
+  const { error: runError } = await supabase
+    .from('sop_runs')
+    .update({ updated_at: now })
+    .eq('id', run.id);
+
+  if (runError) {
+    throw new Error(`Failed to update run: ${runError.message}`);
+  }
+
+  return data as SopRunStep;
+}
+
+/**
+ * Store the photo taken for a step of a run. Photos are checked, screened
+ * and processed like step media and kept under runs/{run id}/; the run step
+ * records their key so the media GC keeps them.
+ * @throws MediaUploadRejectedError when the file is not an accepted image,
+ *   or a media store error when screening refuses it
+ */
+export async function storeRunStepPhoto(
+  supabase: SupabaseClient,
+  run: Pick<SopRun, 'id' | 'sop_id'>,
+  userId: string,
+  file: MediaUpload,
+  store: MediaStore = getMediaStore()
+): Promise<RunStepPhoto> {
+  const validationError = mediaTypeFor(file.type) === 'image'
+    ? validateMediaUpload(file)
+    : 'An image file is required';
+  if (validationError) {
+    throw new MediaUploadRejectedError(validationError, 400);
+  }
+
+  await screenMediaUpload(supabase, store, file, { userId, sopId: run.sop_id });
+  const key = mediaFileKey(`runs/${run.id}`, file.name);
+  const stored = await putMediaFile(store, key, file);
+
+  return {
+    photo_url: store.publicUrl(key),
+    photo_storage_backend: store.name,
+    photo_storage_key: key,
+    photo_variants: stored.image?.variants ?? [],
+    keys: stored.keys
+  };
+}
+
+/**
+ * Close a run once every step is complete, recording who signed it off
+ */
+export async function signOffRun(
+  supabase: SupabaseClient,
+  run: SopRun,
+  userId: string,
+  input: SignOffInput
+): Promise<SopRun> {
+  if (run.status !== 'in_progress') {
+    throw new ConflictError('This run has already been signed off');
+  }
+
+  const outstanding = (run.steps || []).filter(step => !step.completed);
+  if (outstanding.length > 0) {
+    throw new ConflictError(`${outstanding.length} step(s) still need to be completed`);
+  }
+
+  if (!input.signatureName?.trim()) {
+    throw new BadRequestError('Signer name is required');
+  }
+
+  if (
+    typeof input.signatureData !== 'string' ||
+    !input.signatureData.startsWith(SIGNATURE_PREFIX) ||
+    input.signatureData.length > MAX_SIGNATURE_LENGTH
+  ) {
+    throw new BadRequestError('A drawn signature is required');
+  }
+
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('sop_runs')
+    .update({
+      status: 'completed',
+      completed_at: now,
+      signed_by: userId,
+      signature_name: input.signatureName.trim(),
+      signature_data: input.signatureData,
+      notes: input.notes?.trim() || null,
+      updated_at: now
+    })
+    .eq('id', run.id)
+    .eq('status', 'in_progress');
+
+  if (error) {
+    throw new Error(`Failed to sign off run: ${error.message}`);
+  }
+
+  return (await getRun(supabase, run.id)) as SopRun;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { diffSopVersions } from './sop-versions';
+import { SopVersion, SopVersionStep } from '@/types/database.types';
+
+const step = (id: string, order_index: number, overrides: Partial<SopVersionStep> = {}): SopVersionStep => ({
+  id,
+  sop_id: 'sop-1',
+  name: '',
+  title: `Step ${id}`,
+  instructions: `Do ${id}`,
+  order_index,
+  media: [],
+  ...overrides,
+});
+
+const version = (version_number: number, overrides: Partial<SopVersion> = {}): SopVersion => ({
+  id: `v-${version_number}`,
+  sop_id: 'sop-1',
+  version_number,
+  title: 'Lockout procedure',
+  description: 'Isolate energy sources',
+  steps: [],
+  equipment: [],
+  source: 'publish',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('diffSopVersions', () => {
+  it('reports changed SOP fields and ignores empty-vs-null differences', () => {
+    const diff = diffSopVersions(
+      version(1, { category: null }),
+      version(2, { title: 'Lockout/tagout procedure', category: '' })
+    );
+
+    expect(diff.fields).toEqual([
+      { field: 'title', before: 'Lockout procedure', after: 'Lockout/tagout procedure' },
+    ]);
+  });
+
+  it('classifies added, removed, modified and moved steps', () => {
+    const from = version(1, {
+      steps: [step('a', 1), step('b', 2), step('c', 3)],
+    });
+    const to = version(2, {
+      steps: [step('c', 1), step('a', 2, { safety_notes: 'Wear gloves' }), step('d', 3)],
+    });
+
+    const diff = diffSopVersions(from, to);
+    const byId = Object.fromEntries(diff.steps.map(change => [change.step_id, change]));
+
+    expect(byId.b.type).toBe('removed');
+    expect(byId.d.type).toBe('added');
+    expect(byId.c).toMatchObject({ type: 'moved', from_position: 3, to_position: 1 });
+    expect(byId.a.type).toBe('modified');
+    expect(byId.a.changes).toEqual([{ field: 'safety_notes', before: null, after: 'Wear gloves' }]);
+  });
+
+  it('detects equipment added and removed between versions', () => {
+    const diff = diffSopVersions(
+      version(1, { equipment: [{ id: 'e1', name: 'Padlock' }] }),
+      version(2, { equipment: [{ id: 'e9', name: 'Padlock' }, { id: 'e2', name: 'Tag' }] })
+    );
+
+    expect(diff.equipment.added).toEqual([{ id: 'e2', name: 'Tag' }]);
+    expect(diff.equipment.removed).toEqual([]);
+  });
+});
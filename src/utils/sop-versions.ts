@@ -0,0 +1,447 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import {
+  Media,
+  SopFieldChange,
+  SopStepChange,
+  SopVersion,
+  SopVersionDiff,
+  SopVersionSource,
+  SopVersionStep,
+} from '@/types/database.types';
+
+/**
+ * SOP-level fields captured in every snapshot and compared by the diff
+ */
+export const VERSIONED_SOP_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'stakeholders',
+  'definitions',
+  'status',
+] as const;
+
+/**
+ * Step-level fields compared by the diff (order is reported separately as a move)
+ */
+export const VERSIONED_STEP_FIELDS = [
+  'title',
+  'instructions',
+  'role',
+  'safety_notes',
+  'verification',
+] as const;
+
+// Columns that belong to the live row rather than to the procedure content
+const ROW_ONLY_FIELDS = ['created_at', 'updated_at', 'media', 'sops'];
+
+// Columns ignored when deciding whether two equipment entries are the same item
+const EQUIPMENT_IDENTITY_IGNORED_FIELDS = ['id', 'sop_id', 'user_id', 'created_at', 'updated_at'];
+
+export interface CreateSnapshotOptions {
+  source: SopVersionSource;
+  changeSummary?: string | null;
+  restoredFrom?: number | null;
+}
+
+/**
+ * Capture the current state of an SOP (fields, ordered steps, media refs and
+ * equipment) as a new immutable row in `sop_versions`.
+ * Also bumps `sops.version` to the new version number.
+ */
+export async function createSopSnapshot(
+  supabase: SupabaseClient,
+  sopId: string,
+  userId: string,
+  options: CreateSnapshotOptions
+): Promise<SopVersion> {
+  const { data: sop, error: sopError } = await supabase
+    .from('sops')
+    .select('*')
+    .eq('id', sopId)
+    .single();
+
+  if (sopError || !sop) {
+    throw new Error(`Failed to load SOP for snapshot: ${sopError?.message || 'not found'}`);
+  }
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('steps')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('order_index', { ascending: true });
+
+  if (stepsError) {
+    throw new Error(`Failed to load steps for snapshot: ${stepsError.message}`);
+  }
+
+  const stepIds = (steps || []).map(step => step.id);
+  let media: Media[] = [];
+
+  if (stepIds.length > 0) {
+    const { data: mediaData, error: mediaError } = await supabase
+      .from('media')
+      .select('*')
+      .in('step_id', stepIds);
+
+    if (mediaError) {
+      throw new Error(`Failed to load media for snapshot: ${mediaError.message}`);
+    }
+
+    media = mediaData || [];
+  }
+
+  const { data: equipment, error: equipmentError } = await supabase
+    .from('sop_equipment')
+    .select('*')
+    .eq('sop_id', sopId);
+
+  if (equipmentError) {
+    // Equipment is optional; snapshot without it rather than failing the publish
+    logger.warn('Could not load equipment for SOP snapshot', { error: equipmentError, sopId });
+  }
+
+  const { data: latest, error: latestError } = await supabase
+    .from('sop_versions')
+    .select('version_number')
+    .eq('sop_id', sopId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  if (latestError) {
+    throw new Error(`Failed to determine next version number: ${latestError.message}`);
+  }
+
+  const versionNumber = latest && latest.length > 0 ? latest[0].version_number + 1 : 1;
+
+  const snapshotSteps = (steps || []).map(step => ({
+    ...stripRowOnlyFields(step),
+    media: media
+      .filter(m => m.step_id === step.id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  }));
+
+  const snapshot = {
+    sop_id: sopId,
+    version_number: versionNumber,
+    title: sop.title,
+    description: sop.description ?? null,
+    category: sop.category ?? null,
+    stakeholders: sop.stakeholders ?? null,
+    definitions: sop.definitions ?? null,
+    status: sop.status ?? null,
+    steps: snapshotSteps,
+    equipment: (equipment || []).map(item => stripRowOnlyFields(item)),
+    source: options.source,
+    change_summary: options.changeSummary || null,
+    restored_from: options.restoredFrom ?? null,
+    created_by: userId,
+  };
+
+  const { data: version, error: insertError } = await supabase
+    .from('sop_versions')
+    .insert(snapshot)
+    .select()
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to save SOP version: ${insertError.message}`);
+  }
+
+  const { error: bumpError } = await supabase
+    .from('sops')
+    .update({ version: versionNumber })
+    .eq('id', sopId);
+
+  if (bumpError) {
+    logger.warn('Snapshot saved but SOP version number was not updated', { error: bumpError, sopId, versionNumber });
+  }
+
+  logger.info('SOP version snapshot created', { sopId, versionNumber, source: options.source, userId });
+
+  return version as SopVersion;
+}
+
+/**
+ * Fetch one snapshot by its version number
+ * Returns null when the version does not exist
+ */
+export async function getSopVersion(
+  supabase: SupabaseClient,
+  sopId: string,
+  versionNumber: number
+): Promise<SopVersion | null> {
+  const { data, error } = await supabase
+    .from('sop_versions')
+    .select('*')
+    .eq('sop_id', sopId)
+    .eq('version_number', versionNumber)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to load SOP version: ${error.message}`);
+  }
+
+  return data as SopVersion;
+}
+
+/**
+ * Compute a structured field-level and step-level diff between two snapshots.
+ * Steps are matched by their id, so reordering is reported as a move
+ * rather than as a removal plus an addition.
+ */
+export function diffSopVersions(from: SopVersion, to: SopVersion): SopVersionDiff {
+  const fields: SopFieldChange[] = [];
+
+  VERSIONED_SOP_FIELDS.forEach(field => {
+    const before = normalizeValue(from[field]);
+    const after = normalizeValue(to[field]);
+    if (before !== after) {
+      fields.push({ field, before, after });
+    }
+  });
+
+  const fromSteps = sortSteps(from.steps);
+  const toSteps = sortSteps(to.steps);
+  const fromById = new Map(fromSteps.map((step, index) => [step.id, { step, position: index + 1 }]));
+  const toById = new Map(toSteps.map((step, index) => [step.id, { step, position: index + 1 }]));
+
+  const steps: SopStepChange[] = [];
+
+  fromSteps.forEach((step, index) => {
+    if (!toById.has(step.id)) {
+      steps.push({
+        step_id: step.id,
+        type: 'removed',
+        title: step.title,
+        from_position: index + 1,
+        changes: [],
+      });
+    }
+  });
+
+  toSteps.forEach((step, index) => {
+    const previous = fromById.get(step.id);
+    const position = index + 1;
+
+    if (!previous) {
+      steps.push({
+        step_id: step.id,
+        type: 'added',
+        title: step.title,
+        to_position: position,
+        changes: [],
+      });
+      return;
+    }
+
+    const changes = diffStepFields(previous.step, step);
+    const moved = previous.position !== position;
+
+    if (changes.length > 0 || moved) {
+      steps.push({
+        step_id: step.id,
+        type: changes.length > 0 ? 'modified' : 'moved',
+        title: step.title,
+        from_position: previous.position,
+        to_position: position,
+        changes,
+      });
+    }
+  });
+
+  const fromEquipment = (from.equipment || []).map(item => JSON.stringify(equipmentKey(item)));
+  const toEquipment = (to.equipment || []).map(item => JSON.stringify(equipmentKey(item)));
+
+  return {
+    from_version: from.version_number,
+    to_version: to.version_number,
+    fields,
+    steps,
+    equipment: {
+      added: (to.equipment || []).filter((_, i) => !fromEquipment.includes(toEquipment[i])),
+      removed: (from.equipment || []).filter((_, i) => !toEquipment.includes(fromEquipment[i])),
+    },
+  };
+}
+
+/**
+ * Overwrite the working copy of an SOP with the contents of a snapshot.
+ * The current state is snapshotted first so nothing is lost, and the SOP is
+ * put back into `draft` so the restored content goes through publishing again.
+ * Returns the snapshot that records the restored state.
+ */
+export async function restoreSopVersion(
+  supabase: SupabaseClient,
+  sopId: string,
+  version: SopVersion,
+  userId: string
+): Promise<SopVersion> {
+  await createSopSnapshot(supabase, sopId, userId, {
+    source: 'manual',
+    changeSummary: `Automatic snapshot before restoring version ${version.version_number}`,
+  });
+
+  const { error: sopError } = await supabase
+    .from('sops')
+    .update({
+      title: version.title,
+      description: version.description,
+      category: version.category,
+      stakeholders: version.stakeholders,
+      definitions: version.definitions,
+      status: 'draft',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', sopId);
+
+  if (sopError) {
+    throw new Error(`Failed to restore SOP fields: ${sopError.message}`);
+  }
+
+  const now = new Date().toISOString();
+  const restoredSteps = version.steps.map(step => ({
+    ...omitFields(step, ['media']),
+    sop_id: sopId,
+    updated_at: now,
+  }));
+  const restoredIds = version.steps.map(step => step.id);
+
+  // Drop steps that did not exist in the restored version
+  const { data: currentSteps, error: currentStepsError } = await supabase
+    .from('steps')
+    .select('id')
+    .eq('sop_id', sopId);
+
+  if (currentStepsError) {
+    throw new Error(`Failed to load current steps: ${currentStepsError.message}`);
+  }
+
+  const staleIds = (currentSteps || [])
+    .map(step => step.id)
+    .filter(id => !restoredIds.includes(id));
+
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('steps')
+      .delete()
+      .in('id', staleIds);
+
+    if (deleteError) {
+      throw new Error(`Failed to remove steps added after version ${version.version_number}: ${deleteError.message}`);
+    }
+  }
+
+  if (restoredSteps.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('steps')
+      .upsert(restoredSteps, { onConflict: 'id' });
+
+    if (upsertError) {
+      throw new Error(`Failed to restore steps: ${upsertError.message}`);
+    }
+
+    // Re-link media references; files themselves are never deleted by versioning
+    const restoredMedia = version.steps.flatMap(step => step.media || []);
+    const restoredMediaIds = restoredMedia.map(m => m.id);
+
+    const { data: currentMedia } = await supabase
+      .from('media')
+      .select('id')
+      .in('step_id', restoredIds);
+
+    const staleMediaIds = (currentMedia || [])
+      .map(m => m.id)
+      .filter(id => !restoredMediaIds.includes(id));
+
+    if (staleMediaIds.length > 0) {
+      await supabase.from('media').delete().in('id', staleMediaIds);
+    }
+
+    if (restoredMedia.length > 0) {
+      const { error: mediaError } = await supabase
+        .from('media')
+        .upsert(restoredMedia, { onConflict: 'id' });
+
+      if (mediaError) {
+        throw new Error(`Failed to restore media references: ${mediaError.message}`);
+      }
+    }
+  }
+
+  const { error: equipmentDeleteError } = await supabase
+    .from('sop_equipment')
+    .delete()
+    .eq('sop_id', sopId);
+
+  if (equipmentDeleteError) {
+    logger.warn('Could not clear equipment while restoring SOP version', { error: equipmentDeleteError, sopId });
+  } else if (version.equipment.length > 0) {
+    const { error: equipmentError } = await supabase
+      .from('sop_equipment')
+      .insert(version.equipment.map(item => ({ ...item, id: undefined, sop_id: sopId })));
+
+    if (equipmentError) {
+      logger.warn('Could not restore equipment for SOP version', { error: equipmentError, sopId });
+    }
+  }
+
+  return createSopSnapshot(supabase, sopId, userId, {
+    source: 'restore',
+    changeSummary: `Restored from version ${version.version_number}`,
+    restoredFrom: version.version_number,
+  });
+}
+
+function diffStepFields(before: SopVersionStep, after: SopVersionStep): SopFieldChange[] {
+  const changes: SopFieldChange[] = [];
+
+  VERSIONED_STEP_FIELDS.forEach(field => {
+    const previous = normalizeValue(before[field]);
+    const next = normalizeValue(after[field]);
+    if (previous !== next) {
+      changes.push({ field, before: previous, after: next });
+    }
+  });
+
+  const beforeMedia = (before.media || []).map(m => m.id).sort();
+  const afterMedia = (after.media || []).map(m => m.id).sort();
+  if (beforeMedia.join(',') !== afterMedia.join(',')) {
+    changes.push({
+      field: 'media',
+      before: (before.media || []).map(m => m.filename),
+      after: (after.media || []).map(m => m.filename),
+    });
+  }
+
+  return changes;
+}
+
+function sortSteps(steps: SopVersionStep[] = []): SopVersionStep[] {
+  return [...steps].sort((a, b) => a.order_index - b.order_index);
+}
+
+function normalizeValue(value: unknown) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return value;
+}
+
+function equipmentKey(item: Record<string, unknown>) {
+  return omitFields(item, EQUIPMENT_IDENTITY_IGNORED_FIELDS);
+}
+
+function stripRowOnlyFields<T extends Record<string, unknown>>(row: T) {
+  return omitFields(row, ROW_ONLY_FIELDS);
+}
+
+function omitFields<T extends object>(row: T, fields: string[]): Record<string, unknown> {
+  const copy = { ...row } as Record<string, unknown>;
+  fields.forEach(field => delete copy[field]);
+  return copy;
+}
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { StepComment } from '@/types/database.types';
+import { countOpenComments, locateAnchor, parseStepCommentInput, placeStepComments } from './step-comments';
+
+function comment(id: string, stepId: string, fields: Partial<StepComment> = {}): StepComment {
+  return {
+    id,
+    sop_id: 'sop-1',
+    step_id: stepId,
+    author_id: 'user-1',
+    author_name: 'Reviewer',
+    content: `Comment ${id}`,
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    ...fields
+  };
+}
+
+describe('locateAnchor', () => {
+  const anchor = { start: 10, end: 16, text: 'valves' };
+
+  it('keeps a range whose text is unchanged', () => {
+    expect(locateAnchor('Close the valves slowly', anchor)).toEqual(anchor);
+  });
+
+  it('follows the text when the instructions around it change', () => {
+    expect(locateAnchor('First, close the valves slowly', anchor)).toEqual({ start: 17, end: 23, text: 'valves' });
+  });
+
+  it('picks the occurrence nearest to the original range', () => {
+    const text = 'valves: check valves, then the valves again';
+    expect(locateAnchor(text, { start: 28, end: 34, text: 'valves' })).toEqual({ start: 31, end: 37, text: 'valves' });
+  });
+
+  it('reports text that is gone', () => {
+    expect(locateAnchor('Close the taps slowly', anchor)).toBeNull();
+  });
+});
+
+describe('placeStepComments', () => {
+  it('places ranges in the current instructions of each step', () => {
+    const placed = placeStepComments([
+      comment('a', 's1', { anchor_start: 0, anchor_end: 5, anchor_text: 'Close' }),
+      comment('b', 's2', { anchor_start: 0, anchor_end: 4, anchor_text: 'Open' }),
+      comment('c', 's2')
+    ], [
+      { id: 's2', instructions: 'Then shut the lid' },
+      { id: 's1', instructions: 'Now Close the lid' }
+    ]);
+
+    expect(placed.map(p => [p.id, p.anchor, p.anchor_outdated])).toEqual([
+      ['a', { start: 4, end: 9, text: 'Close' }, false],
+      ['b', null, true],
+      ['c', null, false]
+    ]);
+  });
+});
+
+describe('countOpenComments', () => {
+  it('counts unresolved comments per step', () => {
+    expect(countOpenComments([
+      comment('a', 's1'),
+      comment('b', 's1'),
+      comment('c', 's1', { resolved_at: '2026-03-02T10:00:00Z' }),
+      comment('d', 's2')
+    ])).toEqual({ s1: 2, s2: 1 });
+  });
+});
+
+describe('parseStepCommentInput', () => {
+  const steps = [{ id: 's1', instructions: 'Close the valves slowly' }];
+
+  it('accepts whole-step and range comments', () => {
+    expect(parseStepCommentInput({ stepId: 's1', content: ' Why? ' }, steps))
+      .toEqual({ stepId: 's1', content: 'Why?', anchor: null });
+    expect(parseStepCommentInput({ stepId: 's1', content: 'How slowly?', anchor: { start: 17, end: 23, text: 'slowly' } }, steps))
+      .toEqual({ stepId: 's1', content: 'How slowly?', anchor: { start: 17, end: 23, text: 'slowly' } });
+  });
+
+  it('rejects unknown steps, empty comments and ranges that do not match', () => {
+    expect(() => parseStepCommentInput({ stepId: 's9', content: 'Hi' }, steps)).toThrow('stepId must be a step of this SOP');
+    expect(() => parseStepCommentInput({ stepId: 's1', content: '  ' }, steps)).toThrow('Comment text is required');
+    expect(() => parseStepCommentInput({ stepId: 's1', content: 'Hi', anchor: { start: 5, end: 50 } }, steps))
+      .toThrow('not in the step instructions');
+    expect(() => parseStepCommentInput({ stepId: 's1', content: 'Hi', anchor: { start: 0, end: 5, text: 'Open ' } }, steps))
+      .toThrow('have changed');
+  });
+});
@@ -0,0 +1,244 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, NotFoundError } from '@/utils/api-errors';
+import { Step, StepComment, StepCommentAnchor } from '@/types/database.types';
+
+/**
+ * Inline review comments on steps. A comment belongs to a step by id, so
+ * edits to other steps and reordering leave it in place; a comment on a
+ * range of the instructions is found again by its quoted text when the
+ * instructions change. The helpers without a Supabase client are safe to
+ * import from client components.
+ */
+
+export const MAX_STEP_COMMENT_LENGTH = 2000;
+
+export type StepCommentRole = 'author' | 'reviewer';
+
+/** A comment with its range in the current instructions */
+export type PlacedStepComment = StepComment & {
+  anchor: StepCommentAnchor | null;
+  /** The commented text is no longer in the instructions */
+  anchor_outdated: boolean;
+};
+
+export interface StepCommentInput {
+  stepId: string;
+  content: string;
+  anchor: StepCommentAnchor | null;
+}
+
+type AnchorStep = Pick<Step, 'id' | 'instructions'>;
+
+/**
+ * The range a comment was made on, as stored
+ */
+export function commentAnchor(comment: Pick<StepComment, 'anchor_start' | 'anchor_end' | 'anchor_text'>): StepCommentAnchor | null {
+  if (comment.anchor_start == null || comment.anchor_end == null || !comment.anchor_text) {
+    return null;
+  }
+  return { start: comment.anchor_start, end: comment.anchor_end, text: comment.anchor_text };
+}
+
+/**
+ * Find a commented range in the current instructions: where it was if the
+ * text there is unchanged, otherwise the occurrence of the quoted text
+ * nearest to where it was
+ * @returns null when the quoted text is gone
+ */
+export function locateAnchor(instructions: string, anchor: StepCommentAnchor): StepCommentAnchor | null {
+  if (instructions.slice(anchor.start, anchor.end) === anchor.text) {
+    return anchor;
+  }
+
+  let best: number | null = null;
+  for (let index = instructions.indexOf(anchor.text); index !== -1; index = instructions.indexOf(anchor.text, index + 1)) {
+    if (best === null || Math.abs(index - anchor.start) < Math.abs(best - anchor.start)) {
+      best = index;
+    }
+  }
+
+  return best === null ? null : { start: best, end: best + anchor.text.length, text: anchor.text };
+}
+
+/**
+ * Place comments in the current instructions of their steps
+ */
+export function placeStepComments(comments: StepComment[], steps: AnchorStep[]): PlacedStepComment[] {
+  const instructions = new Map(steps.map(step => [step.id, step.instructions || '']));
+
+  return comments.map(comment => {
+    const stored = commentAnchor(comment);
+    const anchor = stored ? locateAnchor(instructions.get(comment.step_id) ?? '', stored) : null;
+    return { ...comment, anchor, anchor_outdated: !!stored && !anchor };
+  });
+}
+
+/**
+ * Unresolved comments per step id
+ */
+export function countOpenComments(comments: Pick<StepComment, 'step_id' | 'resolved_at'>[]): Record<string, number> {
+  return comments.reduce<Record<string, number>>((counts, comment) => {
+    if (!comment.resolved_at) {
+      counts[comment.step_id] = (counts[comment.step_id] || 0) + 1;
+    }
+    return counts;
+  }, {});
+}
+
+/**
+ * Validate a new comment against the steps of the SOP. A range must match
+ * the saved instructions of the step.
+ * @throws BadRequestError
+ */
+export function parseStepCommentInput(body: unknown, steps: AnchorStep[]): StepCommentInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const step = steps.find(s => s.id === input.stepId);
+
+  if (!step) {
+    throw new BadRequestError('stepId must be a step of this SOP');
+  }
+
+  const content = typeof input.content === 'string' ? input.content.trim() : '';
+  if (!content) {
+    throw new BadRequestError('Comment text is required');
+  }
+  if (content.length > MAX_STEP_COMMENT_LENGTH) {
+    throw new BadRequestError(`Comments can be at most ${MAX_STEP_COMMENT_LENGTH} characters`);
+  }
+
+  if (input.anchor == null) {
+    return { stepId: step.id, content, anchor: null };
+  }
+
+  const anchor = input.anchor as Record<string, unknown>;
+  const instructions = step.instructions || '';
+  const { start, end } = anchor;
+
+  if (
+    typeof start !== 'number' || typeof end !== 'number' ||
+    !Number.isInteger(start) || !Number.isInteger(end) ||
+    start < 0 || end <= start || end > instructions.length
+  ) {
+    throw new BadRequestError('The commented range is not in the step instructions');
+  }
+  if (anchor.text !== undefined && anchor.text !== instructions.slice(start, end)) {
+    throw new BadRequestError('The step instructions have changed; select the text again');
+  }
+
+  return { stepId: step.id, content, anchor: { start, end, text: instructions.slice(start, end) } };
+}
+
+/**
+ * How a user takes part in the review of an SOP: its author, a reviewer
+ * assigned to one of its reviews, or neither
+ */
+export async function getStepCommentRole(
+  supabase: SupabaseClient,
+  sopId: string,
+  userId: string
+): Promise<StepCommentRole | null> {
+  const { data: sop, error: sopError } = await supabase
+    .from('sops')
+    .select('id')
+    .eq('id', sopId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (sopError) {
+    throw new Error(`Failed to verify SOP access: ${sopError.message}`);
+  }
+  if (sop) {
+    return 'author';
+  }
+
+  const { count, error: approvalError } = await supabase
+    .from('approvals')
+    .select('id', { count: 'exact', head: true })
+    .eq('sop_id', sopId)
+    .eq('user_id', userId);
+
+  if (approvalError) {
+    throw new Error(`Failed to verify review access: ${approvalError.message}`);
+  }
+
+  return count ? 'reviewer' : null;
+}
+
+/**
+ * The comments on the steps of an SOP, oldest first
+ */
+export async function listStepComments(supabase: SupabaseClient, sopId: string): Promise<StepComment[]> {
+  const { data, error } = await supabase
+    .from('step_comments')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load step comments: ${error.message}`);
+  }
+
+  return (data || []) as StepComment[];
+}
+
+/**
+ * Save a comment on a step
+ */
+export async function createStepComment(
+  supabase: SupabaseClient,
+  sopId: string,
+  input: StepCommentInput,
+  author: { id: string; name: string }
+): Promise<StepComment> {
+  const { data, error } = await supabase
+    .from('step_comments')
+    .insert({
+      sop_id: sopId,
+      step_id: input.stepId,
+      author_id: author.id,
+      author_name: author.name,
+      content: input.content,
+      anchor_start: input.anchor?.start ?? null,
+      anchor_end: input.anchor?.end ?? null,
+      anchor_text: input.anchor?.text ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save step comment: ${error.message}`);
+  }
+
+  return data as StepComment;
+}
+
+/**
+ * Resolve or reopen a comment
+ * @throws NotFoundError when the comment is not on this SOP
+ */
+export async function setStepCommentResolved(
+  supabase: SupabaseClient,
+  sopId: string,
+  commentId: string,
+  resolved: boolean,
+  userId: string
+): Promise<StepComment> {
+  const { data, error } = await supabase
+    .from('step_comments')
+    .update(resolved
+      ? { resolved_at: new Date().toISOString(), resolved_by: userId }
+      : { resolved_at: null, resolved_by: null })
+    .eq('id', commentId)
+    .eq('sop_id', sopId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update step comment: ${error.message}`);
+  }
+  if (!data) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return data as StepComment;
+}
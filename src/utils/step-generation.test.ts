@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { AIResponseError, FixtureAIProvider, setAIProvider } from '@/utils/ai';
+import { AIGeneratedStep, parseStepStream, regenerateStep } from './step-generation';
+
+async function* chunks(...parts: string[]) {
+  yield* parts;
+}
+
+async function collect(steps: AsyncIterable<AIGeneratedStep>): Promise<AIGeneratedStep[]> {
+  const result: AIGeneratedStep[] = [];
+  for await (const step of steps) result.push(step);
+  return result;
+}
+
+describe('parseStepStream', () => {
+  it('yields a step for every completed line, even when lines span chunks', async () => {
+    const steps = await collect(parseStepStream(chunks(
+      '{"title":"Isolate","instructions":"Switch off',
+      ' the breaker"}\n{"title":"Verify",',
+      '"instructions":"Test for voltage","role":"Electrician"}'
+    )));
+
+    expect(steps).toEqual([
+      { title: 'Isolate', instructions: 'Switch off the breaker', role: undefined, safety_notes: undefined, verification: undefined },
+      { title: 'Verify', instructions: 'Test for voltage', role: 'Electrician', safety_notes: undefined, verification: undefined },
+    ]);
+  });
+
+  it('falls back to a single steps document and rejects empty output', async () => {
+    const steps = await collect(parseStepStream(chunks('```json\n{"steps": [\n  {"instructions": "Lock out"}\n]}\n```')));
+    expect(steps.map(step => step.title)).toEqual(['Step 1']);
+
+    await expect(collect(parseStepStream(chunks('Sorry, I cannot help with that.')))).rejects.toThrow(AIResponseError);
+  });
+});
+
+describe('regenerateStep', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  afterEach(() => {
+    process.env.AI_PROVIDER = originalProvider;
+    setAIProvider('fixture', null);
+  });
+
+  it('marks the step being rewritten and returns the replacement', async () => {
+    const provider = new FixtureAIProvider({
+      step_generation: '{"step": {"title": "Verify isolation", "instructions": "Use a tested meter"}}',
+    });
+    process.env.AI_PROVIDER = 'fixture';
+    setAIProvider('fixture', provider);
+
+    const step = await regenerateStep('Lockout procedure', [
+      { title: 'Isolate', instructions: 'Switch off' },
+      { title: 'Verify', instructions: 'Check it' },
+    ], 1, 'mention the meter');
+
+    expect(step).toMatchObject({ title: 'Verify isolation', instructions: 'Use a tested meter' });
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain('>> 2. Verify: Check it');
+    expect(prompt).toContain('Feedback on the current version: mention the meter');
+  });
+});
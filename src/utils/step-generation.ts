@@ -0,0 +1,199 @@
+import { AIMeter, AIResponseError, completeJson, streamText } from '@/utils/ai';
+
+/**
+ * A step as proposed by the model, before it is saved to the SOP
+ */
+export type AIGeneratedStep = {
+  title: string;
+  instructions: string;
+  role?: string;
+  safety_notes?: string;
+  verification?: string;
+};
+
+// What the model may send for a step; `content` is a common stand-in for instructions
+type RawGeneratedStep = Partial<AIGeneratedStep> & { content?: string };
+
+export interface StepGenerationOptions {
+  meter?: AIMeter;
+  signal?: AbortSignal;
+}
+
+const STEP_SHAPE = `{
+  "title": "Step Title",
+  "instructions": "Detailed instructions for this step",
+  "role": "The role responsible for this step (optional)",
+  "safety_notes": "Safety considerations for this step (optional)",
+  "verification": "How to verify this step was completed correctly (optional)"
+}`;
+
+const EXPERT_PROMPT = `You are an expert in creating detailed Standard Operating Procedures (SOPs).
+Your task is to generate structured steps for an SOP based on the given prompt.
+Each step should include a clear title, detailed instructions, role assignments when relevant,
+safety notes when applicable, and verification methods.`;
+
+const JSON_SYSTEM_PROMPT = `${EXPERT_PROMPT}
+Return your response as a JSON object with a "steps" array, where each step has the following structure:
+${STEP_SHAPE}`;
+
+// Streaming asks for one object per line so each step can be shown as soon as its line ends
+const NDJSON_SYSTEM_PROMPT = `${EXPERT_PROMPT}
+Write each step as a single-line JSON object, one step per line, in order, with no surrounding array,
+numbering or Markdown. Each line has the following structure:
+${STEP_SHAPE.replace(/\n\s*/g, ' ')}`;
+
+/**
+ * Normalize a step object returned by the model
+ */
+export function normalizeGeneratedStep(step: RawGeneratedStep | null | undefined, index: number): AIGeneratedStep {
+  return {
+    title: step?.title || `Step ${index + 1}`,
+    instructions: step?.instructions || step?.content || '',
+    role: step?.role || undefined,
+    safety_notes: step?.safety_notes || undefined,
+    verification: step?.verification || undefined
+  };
+}
+
+function parseStepLine(line: string): RawGeneratedStep | null {
+  const trimmed = line.trim().replace(/,$/, '');
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) && !('steps' in parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseStepsDocument(text: string): RawGeneratedStep[] {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/i, '$1').trim();
+  try {
+    const parsed = JSON.parse(trimmed);
+    const steps = Array.isArray(parsed) ? parsed : parsed?.steps;
+    return Array.isArray(steps) ? steps : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Turn streamed model output into steps, one per completed JSON line.
+ * Models that ignore the line format and answer with a single
+ * `{"steps": [...]}` document are handled once the stream ends.
+ */
+export async function* parseStepStream(chunks: AsyncIterable<string>): AsyncIterable<AIGeneratedStep> {
+  let buffer = '';
+  let output = '';
+  let count = 0;
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    output += chunk;
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const step = parseStepLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (step) yield normalizeGeneratedStep(step, count++);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  const last = parseStepLine(buffer);
+  if (last) {
+    yield normalizeGeneratedStep(last, count++);
+  }
+
+  if (count === 0) {
+    for (const step of parseStepsDocument(output)) {
+      yield normalizeGeneratedStep(step, count++);
+    }
+  }
+
+  if (count === 0) {
+    throw new AIResponseError('AI did not return any steps');
+  }
+}
+
+/**
+ * Generate all steps for an SOP in one completion
+ */
+export async function generateSteps(prompt: string, options: StepGenerationOptions = {}): Promise<AIGeneratedStep[]> {
+  const parsedContent = await completeJson<{ steps?: unknown }>('step_generation', [
+    { role: 'system', content: JSON_SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ], {
+    temperature: 0.7,
+    ...options
+  });
+
+  const steps = parsedContent.steps || [];
+
+  if (!Array.isArray(steps)) {
+    throw new AIResponseError('AI did not return an array of steps');
+  }
+
+  return (steps as RawGeneratedStep[]).map(normalizeGeneratedStep);
+}
+
+/**
+ * Generate steps for an SOP, yielding each one as soon as the model has written it
+ */
+export function streamSteps(prompt: string, options: StepGenerationOptions = {}): AsyncIterable<AIGeneratedStep> {
+  return parseStepStream(streamText('step_generation', [
+    { role: 'system', content: NDJSON_SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ], {
+    temperature: 0.7,
+    ...options
+  }));
+}
+
+/**
+ * Write a replacement for one step, keeping the steps around it as context
+ * @param prompt - The prompt the steps were generated from
+ * @param steps - The current steps, including the one being replaced
+ * @param index - Position of the step to replace
+ * @param feedback - Optional note on what to change
+ */
+export async function regenerateStep(
+  prompt: string,
+  steps: AIGeneratedStep[],
+  index: number,
+  feedback = '',
+  options: StepGenerationOptions = {}
+): Promise<AIGeneratedStep> {
+  const outline = steps
+    .map((step, position) => `${position === index ? '>>' : '  '} ${position + 1}. ${step.title}: ${step.instructions}`)
+    .join('\n');
+
+  const result = await completeJson<{ step?: unknown }>('step_generation', [
+    {
+      role: 'system',
+      content: `${EXPERT_PROMPT}
+You are rewriting a single step of an existing SOP. Keep it consistent with the steps before and after it
+and do not repeat their content. Return a JSON object with a "step" field of the following structure:
+${STEP_SHAPE}`
+    },
+    {
+      role: 'user',
+      content: `${prompt}
+
+Current steps (the step to rewrite is marked with >>):
+${outline}
+
+Rewrite step ${index + 1}.${feedback ? `\nFeedback on the current version: ${feedback}` : ''}`
+    }
+  ], {
+    temperature: 0.8,
+    ...options
+  });
+
+  if (!result.step || typeof result.step !== 'object') {
+    throw new AIResponseError('AI did not return a step');
+  }
+
+  return normalizeGeneratedStep(result.step as RawGeneratedStep, index);
+}
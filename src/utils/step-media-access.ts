@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { type AuthUser } from '@/middleware/auth-middleware';
+import { type MediaUploadSession } from '@/types/database.types';
+import { logger } from '@/utils/logger';
+import { getUploadSession } from '@/utils/upload-sessions';
+
+/**
+ * Check that the user may change the media of a step: the SOP owner, editors
+ * and admins
+ * @returns the SOP ID of the step, or the error response to send
+ */
+export async function verifyStepAccess(
+  supabase: SupabaseClient,
+  stepId: string,
+  user: AuthUser,
+  sopId?: string | null
+): Promise<{ sopId: string } | NextResponse> {
+  let query = supabase
+    .from('steps')
+    .select('sop_id, sops!inner(created_by)')
+    .eq('id', stepId);
+
+  if (sopId) {
+    query = query.eq('sop_id', sopId);
+  }
+
+  const { data: step, error: stepError } = await query.single();
+
+  if (stepError || !step) {
+    logger.error('Error fetching step:', stepError);
+    return NextResponse.json(
+      { error: 'Step not found' },
+      { status: 404 }
+    );
+  }
+
+  // Check if user owns the SOP or has right role
+  const sop = step.sops as unknown as { created_by: string };
+  const userHasAccess =
+    sop.created_by === user.id ||
+    user.role === 'admin' ||
+    user.role === 'editor';
+
+  if (!userHasAccess) {
+    return NextResponse.json(
+      { error: 'Not authorized to access this content' },
+      { status: 403 }
+    );
+  }
+
+  return { sopId: step.sop_id };
+}
+
+/**
+ * Check that an upload session exists and belongs to the user; other users'
+ * sessions are reported as missing
+ * @returns the session, or the error response to send
+ */
+export async function verifyUploadSessionAccess(
+  supabase: SupabaseClient,
+  sessionId: string | null,
+  user: AuthUser
+): Promise<MediaUploadSession | NextResponse> {
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: 'Upload session ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const session = await getUploadSession(supabase, sessionId);
+
+  if (!session || session.created_by !== user.id) {
+    return NextResponse.json(
+      { error: 'Upload session not found' },
+      { status: 404 }
+    );
+  }
+
+  return session;
+}
@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { Media, MediaType, MediaVariant } from '@/types/database.types';
+import { logger } from '@/utils/logger';
+import { processImage, ProcessedImage } from '@/utils/image-pipeline';
+import { processVideo, ProcessedVideo } from '@/utils/video-pipeline';
+import {
+  getMediaStore,
+  getPrivateMediaStore,
+  isPrivateMediaKey,
+  MEDIA_STORE_NAMES,
+  MediaStore,
+  MediaStoreError,
+  MediaStoreName,
+  MediaUploadRejectedError,
+  STAGING_KEY_PREFIX
+} from '@/utils/media-store';
+import { mediaVariantKey } from '@/utils/media-variants';
+import { MediaScanFields, recordMediaScan, screenMediaUpload } from '@/utils/media-screening';
+import { hasOutstandingReview, REVIEW_IN_PROGRESS_MESSAGE } from '@/utils/review-workflow';
+
+/**
+ * Step media: files in a MediaStore, one row per file in the `media` table.
+ * Every upload route goes through these helpers. Uploads are screened
+ * before they are stored (see media-screening); images are cleaned and
+ * resized on the way in (see image-pipeline) and videos get a poster frame
+ * (see video-pipeline).
+ */
+
+export const MEDIA_ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'video/mp4',
+  'application/pdf',
+];
+
+const MB = 1024 * 1024;
+
+/**
+ * Largest upload accepted for each type
+ */
+export const MEDIA_MAX_FILE_SIZES: Record<string, number> = {
+  'image/jpeg': 10 * MB,
+  'image/png': 10 * MB,
+  'image/gif': 10 * MB,
+  'video/mp4': 500 * MB,
+  'application/pdf': 20 * MB,
+};
+
+export interface MediaUpload {
+  name: string;
+  type: string;
+  size: number;
+  body: Uint8Array;
+}
+
+export interface StepMediaTarget {
+  sopId: string;
+  stepId: string;
+  userId: string;
+}
+
+export function mediaTypeFor(contentType: string): MediaType | null {
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('video/')) return 'video';
+  if (contentType === 'application/pdf') return 'document';
+  return null;
+}
+
+/**
+ * Check an upload against the allowed types and size
+ * @returns a message for the user, or null when the file is accepted
+ */
+export function validateMediaUpload({ type, size }: { type: string; size?: number }): string | null {
+  if (!MEDIA_ALLOWED_TYPES.includes(type)) {
+    return `Unsupported file type: ${type || 'unknown'}. Allowed types: JPG, PNG, GIF, MP4, PDF`;
+  }
+  const maxSize = MEDIA_MAX_FILE_SIZES[type];
+  if (size !== undefined && size > maxSize) {
+    return `File too large. Maximum size for ${type.split('/')[1].toUpperCase()} files is ${maxSize / MB}MB.`;
+  }
+  return null;
+}
+
+/**
+ * Storage key for a new file under a prefix: `{prefix}/{uuid}.{ext}`
+ */
+export function mediaFileKey(prefix: string, filename: string): string {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `${prefix}/${randomUUID()}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * Storage key for a new file of a step: `{sopId}/{stepId}/{uuid}.{ext}`
+ */
+export function mediaStorageKey(sopId: string, stepId: string, filename: string): string {
+  return mediaFileKey(`${sopId}/${stepId}`, filename);
+}
+
+/**
+ * Key the browser uploads a file of a step to through a signed URL:
+ * `staging/{sopId}/{stepId}/{uuid}.{ext}` in the private store, never served
+ */
+export function mediaStagingKey(sopId: string, stepId: string, filename: string): string {
+  return mediaFileKey(`${STAGING_KEY_PREFIX}/${sopId}/${stepId}`, filename);
+}
+
+export async function readUploadedFile(file: File): Promise<MediaUpload> {
+  return {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    body: new Uint8Array(await file.arrayBuffer())
+  };
+}
+
+export interface StoredImage {
+  width: number;
+  height: number;
+  blurhash: string | null;
+  variants: MediaVariant[];
+}
+
+export interface StoredVideo {
+  width: number;
+  height: number;
+  duration_seconds: number;
+  /** The poster frame, when one could be taken */
+  variants: MediaVariant[];
+}
+
+export interface StoredMediaFile {
+  /** Size of the stored original, after image processing */
+  size: number;
+  image: StoredImage | null;
+  video: StoredVideo | null;
+  /** Every key written: the original and its variants */
+  keys: string[];
+}
+
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// Store the variants of a processed image next to its original key;
+// every key written is pushed to `written` so callers can clean up
+async function putImageVariants(
+  store: MediaStore,
+  key: string,
+  image: ProcessedImage,
+  written: string[]
+): Promise<StoredImage> {
+  const variants: MediaVariant[] = [];
+
+  for (const variant of image.variants) {
+    const variantKey = mediaVariantKey(key, variant.name);
+    await store.put(variantKey, variant.body, { contentType: 'image/webp', cacheControl: VARIANT_CACHE_CONTROL });
+    written.push(variantKey);
+    variants.push({
+      name: variant.name,
+      width: variant.width,
+      height: variant.height,
+      url: store.publicUrl(variantKey),
+      storage_key: variantKey,
+      size_bytes: variant.body.byteLength
+    });
+  }
+
+  return { width: image.width, height: image.height, blurhash: image.blurhash, variants };
+}
+
+// Store the poster frame of a processed video next to its key
+async function putVideoPoster(
+  store: MediaStore,
+  key: string,
+  video: ProcessedVideo,
+  written: string[]
+): Promise<StoredVideo> {
+  const variants: MediaVariant[] = [];
+
+  if (video.poster) {
+    const posterKey = mediaVariantKey(key, 'poster');
+    await store.put(posterKey, video.poster.body, { contentType: 'image/webp', cacheControl: VARIANT_CACHE_CONTROL });
+    written.push(posterKey);
+    variants.push({
+      name: 'poster',
+      width: video.poster.width,
+      height: video.poster.height,
+      url: store.publicUrl(posterKey),
+      storage_key: posterKey,
+      size_bytes: video.poster.body.byteLength
+    });
+  }
+
+  return { width: video.width, height: video.height, duration_seconds: video.duration, variants };
+}
+
+export async function removeMediaFiles(store: MediaStore, keys: string[]): Promise<void> {
+  for (const key of keys) {
+    await store.delete(key).catch(error => {
+      logger.warn('Could not remove media file', { error, key });
+    });
+  }
+}
+
+async function insertMediaRow(
+  supabase: SupabaseClient,
+  store: MediaStore,
+  { stepId, userId }: StepMediaTarget,
+  key: string,
+  file: { name: string; type: string; size?: number },
+  scan: MediaScanFields,
+  caption?: string | null,
+  image?: StoredImage | null,
+  video?: StoredVideo | null
+): Promise<Media> {
+  const { data, error } = await supabase
+    .from('media')
+    .insert({
+      step_id: stepId,
+      type: mediaTypeFor(file.type),
+      url: store.publicUrl(key),
+      filename: file.name,
+      size_bytes: file.size ?? null,
+      caption: caption || null,
+      display_mode: 'contain',
+      content_type: file.type,
+      storage_backend: store.name,
+      storage_key: key,
+      width: image?.width ?? video?.width ?? null,
+      height: image?.height ?? video?.height ?? null,
+      blurhash: image?.blurhash ?? null,
+      variants: image?.variants ?? video?.variants ?? [],
+      duration_seconds: video?.duration_seconds ?? null,
+      ...scan,
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create media record: ${error.message}`);
+  }
+
+  await recordMediaScan(supabase, data.id, userId, scan);
+
+  return data as Media;
+}
+
+/**
+ * Write an upload to a store under `key`; images are processed first and
+ * their variants written next to it, as is the poster frame of a video.
+ * Nothing is left behind on failure.
+ */
+export async function putMediaFile(store: MediaStore, key: string, file: MediaUpload): Promise<StoredMediaFile> {
+  const written: string[] = [];
+
+  try {
+    let body = file.body;
+    let image: StoredImage | null = null;
+    let video: StoredVideo | null = null;
+
+    if (mediaTypeFor(file.type) === 'image') {
+      const processed = await processImage(file.body, file.type);
+      body = processed.body;
+      image = await putImageVariants(store, key, processed, written);
+    } else if (mediaTypeFor(file.type) === 'video') {
+      const processed = await processVideo(file.body);
+      video = processed ? await putVideoPoster(store, key, processed, written) : null;
+    }
+
+    await store.put(key, body, { contentType: file.type });
+    written.push(key);
+
+    return { size: body.byteLength, image, video, keys: written };
+  } catch (error) {
+    await removeMediaFiles(store, written);
+    throw error;
+  }
+}
+
+/**
+ * Store an uploaded file and attach it to a step
+ * The file must already be validated with validateMediaUpload; its content
+ * is screened here. Refused while the SOP has a review open.
+ */
+export async function saveStepMedia(
+  supabase: SupabaseClient,
+  target: StepMediaTarget,
+  file: MediaUpload,
+  caption?: string | null,
+  store: MediaStore = getMediaStore()
+): Promise<Media> {
+  // Not a rejection of the file: upload sessions stay open to complete later
+  if (await hasOutstandingReview(supabase, target.sopId)) {
+    throw new MediaStoreError(REVIEW_IN_PROGRESS_MESSAGE, 409);
+  }
+
+  const scan = await screenMediaUpload(supabase, store, file, target);
+  const key = mediaStorageKey(target.sopId, target.stepId, file.name);
+  const stored = await putMediaFile(store, key, file);
+
+  try {
+    return await insertMediaRow(supabase, store, target, key, { ...file, size: stored.size }, scan, caption, stored.image, stored.video);
+  } catch (error) {
+    // Don't leave files behind that no row points to
+    await removeMediaFiles(store, stored.keys);
+    throw error;
+  }
+}
+
+/**
+ * Attach a file the browser uploaded through a signed URL (see
+ * POST /api/upload-media) to its step. The upload waits in the private store
+ * under staging/ until it is screened like a direct upload; the accepted
+ * file is then stored like one, and the staged copy removed either way.
+ * @throws Error when the key was not issued for this step
+ */
+export async function registerStoredMedia(
+  supabase: SupabaseClient,
+  target: StepMediaTarget,
+  key: string,
+  file: { name: string; type: string; size?: number },
+  caption?: string | null,
+  store: MediaStore = getMediaStore()
+): Promise<Media> {
+  if (!key.startsWith(`${STAGING_KEY_PREFIX}/${target.sopId}/${target.stepId}/`)) {
+    throw new Error('The file was not uploaded for this step');
+  }
+
+  const stagingStore = getPrivateMediaStore(store.name);
+  try {
+    const object = await stagingStore.get(key);
+    const uploaded = new Uint8Array(await new Response(object.body).arrayBuffer());
+
+    // The size sent with the request is the browser's word
+    const validationError = validateMediaUpload({ type: file.type, size: uploaded.byteLength });
+    if (validationError) {
+      throw new MediaUploadRejectedError(validationError, 400);
+    }
+
+    return await saveStepMedia(
+      supabase,
+      target,
+      { name: file.name, type: file.type, size: uploaded.byteLength, body: uploaded },
+      caption,
+      store
+    );
+  } finally {
+    await removeMediaFiles(stagingStore, [key]);
+  }
+}
+
+/**
+ * Delete the files of a media row or library asset (original and variants)
+ * Files of a store that is no longer configured are left alone.
+ */
+export async function deleteMediaFiles(
+  file: { storage_backend?: string | null; storage_key?: string | null; variants?: MediaVariant[] | null }
+): Promise<void> {
+  if (!file.storage_key || !file.storage_backend || !(MEDIA_STORE_NAMES as readonly string[]).includes(file.storage_backend)) {
+    return;
+  }
+
+  const keys = [file.storage_key, ...(file.variants || []).map(variant => variant.storage_key)];
+  for (const key of keys) {
+    try {
+      // Quarantined files live in the private store
+      const name = file.storage_backend as MediaStoreName;
+      await (isPrivateMediaKey(key) ? getPrivateMediaStore(name) : getMediaStore(name)).delete(key);
+    } catch (storeError) {
+      // The row is gone; a leftover file is only wasted space
+      logger.warn('Could not delete media file', { error: storeError, key });
+    }
+  }
+}
+
+/**
+ * Delete a media row. Its files stay in the store: SOP versions and pinned
+ * share links may still show them, so the media GC removes them once nothing
+ * refers to them any more (see media-gc.ts).
+ */
+export async function deleteStepMedia(
+  supabase: SupabaseClient,
+  media: Pick<Media, 'id'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('media')
+    .delete()
+    .eq('id', media.id);
+
+  if (error) {
+    throw new Error(`Failed to delete media record: ${error.message}`);
+  }
+}
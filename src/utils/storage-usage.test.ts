@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { storageUsageLimits, summarizeStorageUsage } from './storage-usage';
+
+const sop = (sopId: string, owner: string) => ({ sop_id: sopId, sops: { title: `SOP ${sopId}`, created_by: owner } });
+
+describe('summarizeStorageUsage', () => {
+  it('totals step uploads per SOP and uploader, and library assets per user', () => {
+    const report = summarizeStorageUsage([
+      {
+        size_bytes: 1000,
+        variants: [{ name: 'thumbnail', width: 320, height: 240, url: '', storage_key: 't', size_bytes: 100 }],
+        created_by: 'alice',
+        asset_id: null,
+        steps: sop('s1', 'bob')
+      },
+      { size_bytes: 500, variants: null, created_by: null, asset_id: null, steps: sop('s1', 'bob') },
+      { size_bytes: 9000, variants: null, created_by: 'alice', asset_id: 'asset-1', steps: sop('s2', 'alice') }
+    ], [
+      { size_bytes: 9000, variants: null, created_by: 'alice' }
+    ], { userBytes: 5000, sopBytes: null });
+
+    expect(report.total_bytes).toBe(10600);
+    expect(report.step_bytes).toBe(1600);
+    expect(report.library_bytes).toBe(9000);
+
+    expect(report.users.map(({ user_id, bytes, files, over_limit }) => ({ user_id, bytes, files, over_limit }))).toEqual([
+      { user_id: 'alice', bytes: 10100, files: 2, over_limit: true },
+      { user_id: 'bob', bytes: 500, files: 1, over_limit: false }
+    ]);
+
+    expect(report.sops.map(({ sop_id, bytes, files, library_files }) => ({ sop_id, bytes, files, library_files }))).toEqual([
+      { sop_id: 's1', bytes: 1600, files: 2, library_files: 0 },
+      { sop_id: 's2', bytes: 0, files: 0, library_files: 1 }
+    ]);
+  });
+});
+
+describe('storageUsageLimits', () => {
+  it('reads limits in megabytes', () => {
+    expect(storageUsageLimits({ MEDIA_STORAGE_LIMIT_USER_MB: '2', MEDIA_STORAGE_LIMIT_SOP_MB: 'none' })).toEqual({
+      userBytes: 2 * 1024 * 1024,
+      sopBytes: null
+    });
+    expect(storageUsageLimits({})).toEqual({ userBytes: null, sopBytes: null });
+  });
+});
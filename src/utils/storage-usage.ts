@@ -0,0 +1,218 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { MediaVariant } from '@/types/database.types';
+import { selectAllRows } from '@/utils/media-gc';
+
+/**
+ * Storage used by uploaded media, per user and per SOP. A file counts with
+ * its variants. Step uploads count toward their SOP and the user who
+ * uploaded them (the SOP owner for older rows); library assets count toward
+ * the user who added them, and SOPs only list how many they use since the
+ * files are shared. Optional limits flag who is over them:
+ *
+ *   MEDIA_STORAGE_LIMIT_USER_MB
+ *   MEDIA_STORAGE_LIMIT_SOP_MB
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface StorageUsageLimits {
+  userBytes: number | null;
+  sopBytes: number | null;
+}
+
+export interface UserStorageUsage {
+  user_id: string;
+  email: string | null;
+  name: string | null;
+  bytes: number;
+  files: number;
+  step_bytes: number;
+  library_bytes: number;
+  over_limit: boolean;
+}
+
+export interface SopStorageUsage {
+  sop_id: string;
+  title: string;
+  owner_id: string | null;
+  bytes: number;
+  files: number;
+  /** Steps using library assets; their bytes count toward the library */
+  library_files: number;
+  over_limit: boolean;
+}
+
+export interface StorageUsageReport {
+  total_bytes: number;
+  step_bytes: number;
+  library_bytes: number;
+  limits: StorageUsageLimits;
+  users: UserStorageUsage[];
+  sops: SopStorageUsage[];
+}
+
+export interface StepMediaUsageRow {
+  size_bytes: number | null;
+  variants: MediaVariant[] | null;
+  created_by: string | null;
+  asset_id: string | null;
+  steps: { sop_id: string; sops: { title: string | null; created_by: string | null } | null } | null;
+}
+
+export interface LibraryAssetUsageRow {
+  size_bytes: number | null;
+  variants: MediaVariant[] | null;
+  created_by: string;
+}
+
+const MB = 1024 * 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseLimitMB(value: string | undefined): number | null {
+  const limit = Number(value);
+  return value && Number.isFinite(limit) && limit > 0 ? Math.round(limit * MB) : null;
+}
+
+export function storageUsageLimits(env: Env = process.env): StorageUsageLimits {
+  return {
+    userBytes: parseLimitMB(env.MEDIA_STORAGE_LIMIT_USER_MB),
+    sopBytes: parseLimitMB(env.MEDIA_STORAGE_LIMIT_SOP_MB)
+  };
+}
+
+/**
+ * Bytes a stored file takes, original plus variants
+ */
+export function storedFileBytes(file: { size_bytes?: number | null; variants?: MediaVariant[] | null }): number {
+  return (file.size_bytes || 0) + (file.variants || []).reduce((total, variant) => total + (variant.size_bytes || 0), 0);
+}
+
+export function summarizeStorageUsage(
+  media: StepMediaUsageRow[],
+  assets: LibraryAssetUsageRow[],
+  limits: StorageUsageLimits
+): StorageUsageReport {
+  const byUser = new Map<string, UserStorageUsage>();
+  const bySop = new Map<string, SopStorageUsage>();
+
+  const userUsage = (userId: string) => {
+    let usage = byUser.get(userId);
+    if (!usage) {
+      usage = {
+        user_id: userId,
+        email: null,
+        name: null,
+        bytes: 0,
+        files: 0,
+        step_bytes: 0,
+        library_bytes: 0,
+        over_limit: false
+      };
+      byUser.set(userId, usage);
+    }
+    return usage;
+  };
+
+  let stepBytes = 0;
+  let libraryBytes = 0;
+
+  for (const row of media) {
+    if (!row.steps) continue;
+    const sop = row.steps.sops;
+    let sopUsage = bySop.get(row.steps.sop_id);
+    if (!sopUsage) {
+      sopUsage = {
+        sop_id: row.steps.sop_id,
+        title: sop?.title || 'Untitled SOP',
+        owner_id: sop?.created_by ?? null,
+        bytes: 0,
+        files: 0,
+        library_files: 0,
+        over_limit: false
+      };
+      bySop.set(row.steps.sop_id, sopUsage);
+    }
+
+    if (row.asset_id) {
+      sopUsage.library_files += 1;
+      continue;
+    }
+
+    const bytes = storedFileBytes(row);
+    stepBytes += bytes;
+    sopUsage.bytes += bytes;
+    sopUsage.files += 1;
+
+    const uploader = row.created_by || sop?.created_by;
+    if (uploader) {
+      const usage = userUsage(uploader);
+      usage.bytes += bytes;
+      usage.step_bytes += bytes;
+      usage.files += 1;
+    }
+  }
+
+  for (const asset of assets) {
+    const bytes = storedFileBytes(asset);
+    libraryBytes += bytes;
+    const usage = userUsage(asset.created_by);
+    usage.bytes += bytes;
+    usage.library_bytes += bytes;
+    usage.files += 1;
+  }
+
+  for (const usage of byUser.values()) {
+    usage.over_limit = limits.userBytes !== null && usage.bytes > limits.userBytes;
+  }
+  for (const usage of bySop.values()) {
+    usage.over_limit = limits.sopBytes !== null && usage.bytes > limits.sopBytes;
+  }
+
+  return {
+    total_bytes: stepBytes + libraryBytes,
+    step_bytes: stepBytes,
+    library_bytes: libraryBytes,
+    limits,
+    users: [...byUser.values()].sort((a, b) => b.bytes - a.bytes),
+    sops: [...bySop.values()].sort((a, b) => b.bytes - a.bytes)
+  };
+}
+
+/**
+ * Storage usage of every user and SOP, largest first
+ */
+export async function getStorageUsageReport(supabase: SupabaseClient, env: Env = process.env): Promise<StorageUsageReport> {
+  const [media, assets] = await Promise.all([
+    selectAllRows<StepMediaUsageRow>((from, to) => supabase
+      .from('media')
+      .select('size_bytes, variants, created_by, asset_id, steps!inner(sop_id, sops!inner(title, created_by))')
+      .order('id')
+      .range(from, to) as unknown as PromiseLike<{ data: StepMediaUsageRow[] | null; error: { message: string } | null }>),
+    selectAllRows<LibraryAssetUsageRow>((from, to) => supabase
+      .from('media_assets')
+      .select('size_bytes, variants, created_by')
+      .order('id')
+      .range(from, to))
+  ]);
+
+  const report = summarizeStorageUsage(media, assets, storageUsageLimits(env));
+
+  // Names for users with a profile; Firebase UIDs have none
+  const userIds = report.users.map(usage => usage.user_id).filter(id => UUID_PATTERN.test(id));
+  if (userIds.length > 0) {
+    const { data: users } = await supabase
+      .from('users')
+      .select('id, email, name')
+      .in('id', userIds);
+
+    for (const user of users || []) {
+      const usage = report.users.find(entry => entry.user_id === user.id);
+      if (usage) {
+        usage.email = user.email ?? null;
+        usage.name = user.name ?? null;
+      }
+    }
+  }
+
+  return report;
+}
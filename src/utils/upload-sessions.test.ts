@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import {
+  expectedChunkSize,
+  isUploadSessionOpen,
+  receivedChunkIndices,
+  UPLOAD_CHUNK_SIZE,
+  uploadChunkCount,
+  uploadChunkKey
+} from './upload-sessions';
+
+const MB = 1024 * 1024;
+
+describe('uploadChunkCount', () => {
+  it('rounds up to whole chunks', () => {
+    expect(uploadChunkCount(UPLOAD_CHUNK_SIZE)).toBe(1);
+    expect(uploadChunkCount(UPLOAD_CHUNK_SIZE + 1)).toBe(2);
+    expect(uploadChunkCount(200 * MB, 4 * MB)).toBe(50);
+  });
+});
+
+describe('expectedChunkSize', () => {
+  it('expects a full chunk except for the last one', () => {
+    const session = { size_bytes: 10 * MB, chunk_size: 4 * MB, chunk_count: 3 };
+
+    expect(expectedChunkSize(session, 0)).toBe(4 * MB);
+    expect(expectedChunkSize(session, 1)).toBe(4 * MB);
+    expect(expectedChunkSize(session, 2)).toBe(2 * MB);
+  });
+});
+
+describe('receivedChunkIndices', () => {
+  it('reads chunk indices from the keys under the session prefix', () => {
+    const keys = [
+      uploadChunkKey('s1', 2),
+      uploadChunkKey('s1', 0),
+      uploadChunkKey('s2', 1),
+      'uploads/s1/000009',
+      'uploads/s1/notes.txt'
+    ];
+
+    expect(uploadChunkKey('s1', 2)).toBe('uploads/s1/000002');
+    expect(receivedChunkIndices('s1', keys, 3)).toEqual([0, 2]);
+  });
+});
+
+describe('isUploadSessionOpen', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  it('is open while uploading and not expired', () => {
+    expect(isUploadSessionOpen({ status: 'uploading', expires_at: '2025-03-11T12:00:00Z' }, now)).toBe(true);
+    expect(isUploadSessionOpen({ status: 'uploading', expires_at: '2025-03-10T11:00:00Z' }, now)).toBe(false);
+    expect(isUploadSessionOpen({ status: 'completing', expires_at: '2025-03-11T12:00:00Z' }, now)).toBe(false);
+  });
+});
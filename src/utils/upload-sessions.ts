@@ -0,0 +1,301 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { Media, MediaUploadSession } from '@/types/database.types';
+import { logger } from '@/utils/logger';
+import { sniffMediaType } from '@/utils/media-inspection';
+import {
+  getMediaStore,
+  getPrivateMediaStore,
+  isMediaStoreError,
+  MEDIA_STORE_NAMES,
+  MediaStore,
+  MediaStoreError,
+  MediaStoreName,
+  MediaUploadRejectedError,
+  UPLOAD_KEY_PREFIX
+} from '@/utils/media-store';
+import { removeMediaFiles, saveStepMedia, StepMediaTarget, validateMediaUpload } from '@/utils/step-media';
+
+/**
+ * Resumable uploads for files too large for one request. The browser opens
+ * Chunks are kept in the private media store under uploads/{session id}/ so every
+ * resending any that failed) and completes the session; the chunks are then
+ * assembled, screened and stored like a direct upload.
+ *
+ * Chunks are kept in the media store under uploads/{session id}/ so every
+ * server instance sees them, and the store's listing is the record of which
+ * chunks arrived. Sessions expire after UPLOAD_SESSION_TTL_HOURS; the media
+ * GC removes the chunks of expired sessions.
+ */
+
+/** Chunk size; below the request body limits of serverless hosts */
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export { UPLOAD_KEY_PREFIX };
+
+export const UPLOAD_SESSION_TTL_HOURS = 24;
+
+/**
+ * A session with the chunks received so far
+ */
+export interface UploadSessionProgress extends MediaUploadSession {
+  received_chunks: number[];
+  received_bytes: number;
+}
+
+/**
+ * Storage prefix holding the chunks of a session
+ */
+export function uploadChunkPrefix(sessionId: string): string {
+  return `${UPLOAD_KEY_PREFIX}/${sessionId}/`;
+}
+
+export function uploadChunkKey(sessionId: string, index: number): string {
+  return `${uploadChunkPrefix(sessionId)}${String(index).padStart(6, '0')}`;
+}
+
+export function uploadChunkCount(size: number, chunkSize: number = UPLOAD_CHUNK_SIZE): number {
+  return Math.ceil(size / chunkSize);
+}
+
+/**
+ * Bytes chunk `index` must have: the chunk size, less for the last chunk
+ */
+export function expectedChunkSize(session: Pick<MediaUploadSession, 'size_bytes' | 'chunk_size' | 'chunk_count'>, index: number): number {
+  return index === session.chunk_count - 1
+    ? session.size_bytes - session.chunk_size * (session.chunk_count - 1)
+    : session.chunk_size;
+}
+
+/**
+ * Whether chunks may still be sent to a session
+ */
+export function isUploadSessionOpen(session: Pick<MediaUploadSession, 'status' | 'expires_at'>, now: Date = new Date()): boolean {
+  return session.status === 'uploading' && new Date(session.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Indices of the chunks found under a session's prefix, in order
+ */
+export function receivedChunkIndices(sessionId: string, keys: string[], chunkCount: number): number[] {
+  const prefix = uploadChunkPrefix(sessionId);
+  const indices = new Set<number>();
+
+  for (const key of keys) {
+    if (!key.startsWith(prefix)) continue;
+    const index = Number(key.slice(prefix.length));
+    if (Number.isInteger(index) && index >= 0 && index < chunkCount) {
+      indices.add(index);
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b);
+}
+
+function sessionStoreName(session: Pick<MediaUploadSession, 'storage_backend'>): MediaStoreName {
+  if (!(MEDIA_STORE_NAMES as readonly string[]).includes(session.storage_backend)) {
+    throw new MediaStoreError(`Unknown media store "${session.storage_backend}"`, 500);
+  }
+  return session.storage_backend as MediaStoreName;
+}
+
+/**
+ * The private store holding the chunks of a session
+ */
+function sessionStore(session: Pick<MediaUploadSession, 'storage_backend'>): MediaStore {
+  return getPrivateMediaStore(sessionStoreName(session));
+}
+
+/**
+ * Open an upload session for a file of a step
+ * @throws MediaUploadRejectedError when the type or size is not allowed
+ */
+export async function createUploadSession(
+  supabase: SupabaseClient,
+  target: StepMediaTarget,
+  file: { name: string; type: string; size: number },
+  caption?: string | null,
+  store: MediaStore = getMediaStore()
+): Promise<MediaUploadSession> {
+  const validationError = validateMediaUpload(file);
+  if (validationError) {
+    throw new MediaUploadRejectedError(validationError, 400);
+  }
+  if (!Number.isInteger(file.size) || file.size <= 0) {
+    throw new MediaUploadRejectedError('The file size is required', 400);
+  }
+
+  const { data, error } = await supabase
+    .from('media_upload_sessions')
+    .insert({
+      sop_id: target.sopId,
+      step_id: target.stepId,
+      filename: file.name,
+      content_type: file.type,
+      size_bytes: file.size,
+      chunk_size: UPLOAD_CHUNK_SIZE,
+      chunk_count: uploadChunkCount(file.size),
+      caption: caption || null,
+      storage_backend: store.name,
+      created_by: target.userId,
+      expires_at: new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create upload session: ${error.message}`);
+  }
+
+  return data as MediaUploadSession;
+}
+
+export async function getUploadProgress(session: MediaUploadSession): Promise<UploadSessionProgress> {
+  const objects = await sessionStore(session).list(uploadChunkPrefix(session.id));
+  const received = receivedChunkIndices(session.id, objects.map(object => object.key), session.chunk_count);
+
+  return {
+    ...session,
+    received_chunks: received,
+    received_bytes: received.reduce((total, index) => total + expectedChunkSize(session, index), 0)
+  };
+}
+
+/**
+ * Store one chunk of an open session; sending a chunk again replaces it
+ * @throws MediaUploadRejectedError when the chunk does not fit the session
+ */
+export async function storeUploadChunk(session: MediaUploadSession, index: number, body: Uint8Array): Promise<void> {
+  if (!isUploadSessionOpen(session)) {
+    throw new MediaUploadRejectedError('This upload session is closed or has expired', 410);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunk_count) {
+    throw new MediaUploadRejectedError(`Chunk index must be between 0 and ${session.chunk_count - 1}`, 400);
+  }
+
+  const expected = expectedChunkSize(session, index);
+  if (body.byteLength !== expected) {
+    throw new MediaUploadRejectedError(`Chunk ${index} must be ${expected} bytes, got ${body.byteLength}`, 400);
+  }
+
+  // Fail early on a file that can't be what it claims; completion checks everything
+  if (index === 0 && sniffMediaType(body) !== session.content_type) {
+    throw new MediaUploadRejectedError(`The file content does not match its type (${session.content_type})`);
+  }
+
+  await sessionStore(session).put(uploadChunkKey(session.id, index), body, { contentType: 'application/octet-stream' });
+}
+
+async function finishSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  fields: Partial<MediaUploadSession>
+): Promise<void> {
+  const { error } = await supabase
+    .from('media_upload_sessions')
+    .update(fields)
+    .eq('id', sessionId);
+
+  if (error) {
+    logger.error('Failed to update upload session', { error, sessionId });
+  }
+}
+
+/**
+ * Assemble the chunks of a session and store the file for its step
+ * A refused file (content checks, malware scan) fails the session and its
+ * chunks are removed; after other errors the session stays open for a retry.
+ * @throws MediaUploadRejectedError when chunks are missing or the session is closed
+ */
+export async function completeUploadSession(supabase: SupabaseClient, session: MediaUploadSession): Promise<Media> {
+  if (!isUploadSessionOpen(session)) {
+    throw new MediaUploadRejectedError('This upload session is closed or has expired', 410);
+  }
+
+  const store = sessionStore(session);
+  const progress = await getUploadProgress(session);
+  if (progress.received_chunks.length !== session.chunk_count) {
+    throw new MediaUploadRejectedError(
+      `${session.chunk_count - progress.received_chunks.length} of ${session.chunk_count} chunks have not been uploaded`,
+      409
+    );
+  }
+
+  // Only one request may assemble the file
+  const { data: claimed, error: claimError } = await supabase
+    .from('media_upload_sessions')
+    .update({ status: 'completing' })
+    .eq('id', session.id)
+    .eq('status', 'uploading')
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to update upload session: ${claimError.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new MediaUploadRejectedError('This upload session is already being completed', 409);
+  }
+
+  const chunkKeys = Array.from({ length: session.chunk_count }, (_, index) => uploadChunkKey(session.id, index));
+
+  try {
+    const body = new Uint8Array(session.size_bytes);
+    for (let index = 0; index < session.chunk_count; index++) {
+      const object = await store.get(chunkKeys[index]);
+      const chunk = new Uint8Array(await new Response(object.body).arrayBuffer());
+      if (chunk.byteLength !== expectedChunkSize(session, index)) {
+        throw new MediaStoreError(`Chunk ${index} is incomplete`, 409);
+      }
+      body.set(chunk, index * session.chunk_size);
+    }
+
+    const media = await saveStepMedia(
+      supabase,
+      { sopId: session.sop_id, stepId: session.step_id, userId: session.created_by },
+      { name: session.filename, type: session.content_type, size: session.size_bytes, body },
+      session.caption,
+      getMediaStore(sessionStoreName(session))
+    );
+
+    await finishSession(supabase, session.id, { status: 'completed', media_id: media.id });
+    await removeMediaFiles(store, chunkKeys);
+
+    return media;
+  } catch (error) {
+    if (error instanceof MediaUploadRejectedError || (isMediaStoreError(error) && error.statusCode === 422)) {
+      await finishSession(supabase, session.id, { status: 'failed', error: error.message });
+      await removeMediaFiles(store, chunkKeys);
+    } else {
+      await finishSession(supabase, session.id, { status: 'uploading' });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancel a session and remove its chunks
+ */
+export async function abortUploadSession(supabase: SupabaseClient, session: MediaUploadSession): Promise<void> {
+  await finishSession(supabase, session.id, { status: 'aborted' });
+
+  const store = sessionStore(session);
+  const objects = await store.list(uploadChunkPrefix(session.id));
+  await removeMediaFiles(store, objects.map(object => object.key));
+}
+
+/**
+ * Load a session by ID
+ * @returns null when there is no such session
+ */
+export async function getUploadSession(supabase: SupabaseClient, sessionId: string): Promise<MediaUploadSession | null> {
+  const { data, error } = await supabase
+    .from('media_upload_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch upload session: ${error.message}`);
+  }
+
+  return data as MediaUploadSession | null;
+}
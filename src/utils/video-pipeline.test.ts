@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { parseFfprobeOutput, posterTimestamp, processVideo } from './video-pipeline';
+
+describe('parseFfprobeOutput', () => {
+  it('reads the resolution and duration of the video stream', () => {
+    expect(parseFfprobeOutput({
+      streams: [
+        { codec_type: 'audio' },
+        { codec_type: 'video', width: 1920, height: 1080, duration: '12.000000' }
+      ],
+      format: { duration: '12.345678' }
+    })).toEqual({ width: 1920, height: 1080, duration: 12.346 });
+  });
+
+  it('swaps the size of videos recorded in portrait', () => {
+    expect(parseFfprobeOutput({
+      streams: [{ codec_type: 'video', width: 1920, height: 1080, side_data_list: [{ rotation: -90 }] }],
+      format: { duration: '3.5' }
+    })).toMatchObject({ width: 1080, height: 1920 });
+    expect(parseFfprobeOutput({
+      streams: [{ codec_type: 'video', width: 640, height: 480, tags: { rotate: '270' } }]
+    })).toMatchObject({ width: 480, height: 640, duration: 0 });
+  });
+
+  it('returns null without a video stream', () => {
+    expect(parseFfprobeOutput({ streams: [{ codec_type: 'audio' }] })).toBeNull();
+    expect(parseFfprobeOutput({})).toBeNull();
+  });
+});
+
+describe('posterTimestamp', () => {
+  it('skips the first second unless the video is very short', () => {
+    expect(posterTimestamp(60)).toBe(1);
+    expect(posterTimestamp(1)).toBe(0.5);
+    expect(posterTimestamp(0)).toBe(0);
+  });
+});
+
+describe('processVideo', () => {
+  it('stores videos without metadata when ffmpeg is not installed', async () => {
+    const result = await processVideo(new Uint8Array([0, 0, 0, 0x18]), { FFPROBE_PATH: '/nonexistent/ffprobe' });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { logger } from '@/utils/logger';
+import { MediaProcessingError } from '@/utils/media-store';
+import { MEDIA_POSTER_WIDTH } from '@/utils/media-variants';
+
+/**
+ * Server-side processing of uploaded videos with a locally installed ffmpeg.
+ * ffprobe reads the duration and resolution; ffmpeg grabs a poster frame,
+ * which is stored as a WebP `poster` variant. Videos are stored unchanged.
+ *
+ *   FFPROBE_PATH                 ffprobe binary (default `ffprobe`)
+ *   FFMPEG_PATH                  ffmpeg binary (default `ffmpeg`)
+ *   VIDEO_PROCESSING_TIMEOUT_MS  time each command may take (default 60000)
+ *
+ * Without ffmpeg, videos are stored without metadata or poster.
+ */
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const WEBP_QUALITY = 80;
+
+/** Poster frames are taken this far in, to skip black or fading first frames */
+const POSTER_OFFSET_SECONDS = 1;
+
+export interface VideoMetadata {
+  width: number;
+  height: number;
+  /** Seconds */
+  duration: number;
+}
+
+export interface ProcessedVideo extends VideoMetadata {
+  poster: { width: number; height: number; body: Uint8Array } | null;
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  width?: number;
+  height?: number;
+  duration?: string;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: { duration?: string };
+}
+
+/** The command could not be started, i.e. ffmpeg is not installed */
+class CommandNotFoundError extends Error {}
+
+/**
+ * Read the duration and display size of a video from `ffprobe -of json`
+ * output. Videos recorded in portrait carry a rotation; their width and
+ * height are swapped to match what players show.
+ * @returns null when there is no video stream
+ */
+export function parseFfprobeOutput(output: FfprobeOutput): VideoMetadata | null {
+  const stream = output.streams?.find(s => s.codec_type === 'video' && s.width && s.height);
+  if (!stream) return null;
+
+  const rotation = Number(stream.side_data_list?.find(data => data.rotation !== undefined)?.rotation ?? stream.tags?.rotate ?? 0);
+  const quarterTurn = Math.abs(rotation) % 180 === 90;
+  const duration = Number(output.format?.duration ?? stream.duration);
+
+  return {
+    width: quarterTurn ? stream.height! : stream.width!,
+    height: quarterTurn ? stream.width! : stream.height!,
+    duration: Number.isFinite(duration) && duration > 0 ? Math.round(duration * 1000) / 1000 : 0
+  };
+}
+
+/**
+ * Where in a video to take its poster frame
+ */
+export function posterTimestamp(duration: number): number {
+  return duration > POSTER_OFFSET_SECONDS * 2 ? POSTER_OFFSET_SECONDS : duration / 2;
+}
+
+function run(command: string, args: string[], timeoutMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${path.basename(command)} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? new CommandNotFoundError(command) : error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(stderr.trim().split('\n').pop() || `${path.basename(command)} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Measure an uploaded video and take its poster frame
+ * @returns null when ffmpeg is not installed
+ * @throws MediaProcessingError when the file is not a readable video
+ */
+export async function processVideo(input: Uint8Array, env: Env = process.env): Promise<ProcessedVideo | null> {
+  const ffprobe = env.FFPROBE_PATH || 'ffprobe';
+  const ffmpeg = env.FFMPEG_PATH || 'ffmpeg';
+  const timeoutMs = Number(env.VIDEO_PROCESSING_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  // MP4 keeps its index anywhere in the file, so ffmpeg needs to seek
+  const file = path.join(os.tmpdir(), `video-${randomUUID()}.mp4`);
+  await writeFile(file, input);
+
+  try {
+    let metadata: VideoMetadata | null;
+    try {
+      const output = await run(ffprobe, [
+        '-v', 'error',
+        '-show_entries', 'format=duration:stream=codec_type,width,height,duration:stream_tags=rotate:stream_side_data=rotation',
+        '-of', 'json',
+        file
+      ], timeoutMs);
+      metadata = parseFfprobeOutput(JSON.parse(output.toString()));
+    } catch (error) {
+      if (error instanceof CommandNotFoundError) {
+        logger.warn('ffprobe is not installed; storing the video without metadata', { command: ffprobe });
+        return null;
+      }
+      throw new MediaProcessingError(`Could not read video: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!metadata) {
+      throw new MediaProcessingError('Could not read video: the file has no video stream');
+    }
+
+    // A video without a poster is still a usable video
+    let poster: ProcessedVideo['poster'] = null;
+    try {
+      const frame = await run(ffmpeg, [
+        '-v', 'error',
+        '-ss', String(posterTimestamp(metadata.duration)),
+        '-i', file,
+        '-frames:v', '1',
+        '-f', 'image2pipe',
+        '-vcodec', 'png',
+        'pipe:1'
+      ], timeoutMs);
+
+      const { data, info } = await sharp(frame)
+        .resize({ width: MEDIA_POSTER_WIDTH, withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+
+      poster = { width: info.width, height: info.height, body: new Uint8Array(data) };
+    } catch (error) {
+      logger.warn('Could not extract a poster frame', { error: error instanceof Error ? error.message : error });
+    }
+
+    return { ...metadata, poster };
+  } finally {
+    await rm(file, { force: true });
+  }
+}
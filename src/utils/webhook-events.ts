@@ -0,0 +1,79 @@
+import { BadRequestError } from '@/utils/api-errors';
+import { WebhookEvent, WebhookSubscription } from '@/types/database.types';
+
+/**
+ * The events webhooks can subscribe to and validation of subscriptions sent
+ * by a client. Safe to import from client components.
+ */
+
+export const WEBHOOK_EVENTS: { event: WebhookEvent; description: string }[] = [
+  { event: 'sop.created', description: 'An SOP was created' },
+  { event: 'sop.updated', description: 'The details of an SOP changed' },
+  { event: 'sop.published', description: 'An SOP was published, directly or by an approved review' },
+  { event: 'sop.archived', description: 'An SOP was archived' },
+  { event: 'step.updated', description: 'A step of an SOP changed' },
+  { event: 'comment.created', description: 'A comment on a shared SOP was approved, or someone commented on a step' },
+  { event: 'run.completed', description: 'An operator signed off a run of an SOP' }
+];
+
+/** A subscription as the admin API returns it: the secret is only shown when created or rotated */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'> & { secret_hint: string };
+
+export type WebhookSubscriptionInput = Partial<Pick<WebhookSubscription, 'name' | 'url' | 'events' | 'is_active'>>;
+
+const MAX_NAME_LENGTH = 100;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.some(candidate => candidate.event === value);
+}
+
+/**
+ * Validate a subscription sent by a client; with `partial` only the fields
+ * present are checked, for updates
+ * Body: { name, url, events: string[], is_active? }
+ * @throws BadRequestError
+ */
+export function parseWebhookSubscriptionInput(body: unknown, partial = false): WebhookSubscriptionInput {
+  const { name, url, events, is_active } = (body ?? {}) as Record<string, unknown>;
+  const input: WebhookSubscriptionInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new BadRequestError('name is required');
+    }
+    input.name = name.trim().slice(0, MAX_NAME_LENGTH);
+  }
+
+  if (url !== undefined || !partial) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof url === 'string' ? new URL(url.trim()) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || (parsed.protocol !== 'https:' && parsed.protocol !== 'http:')) {
+      throw new BadRequestError('url must be an http or https URL');
+    }
+    input.url = parsed.toString();
+  }
+
+  if (events !== undefined || !partial) {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new BadRequestError('events must be a non-empty list');
+    }
+    const unknown = events.find(event => !isWebhookEvent(event));
+    if (unknown !== undefined) {
+      throw new BadRequestError(`Unknown webhook event: ${String(unknown)}`);
+    }
+    input.events = Array.from(new Set(events as WebhookEvent[]));
+  }
+
+  if (is_active !== undefined) {
+    if (typeof is_active !== 'boolean') {
+      throw new BadRequestError('is_active must be true or false');
+    }
+    input.is_active = is_active;
+  }
+
+  return input;
+}
@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError } from './api-errors';
+import { parseWebhookSubscriptionInput } from './webhook-events';
+import {
+  createWebhookSignature,
+  deliveryAttemptUpdate,
+  loadSopPayload,
+  postWebhook,
+  verifyWebhookSignature,
+  webhookRetryDelayMs,
+  WebhookPayload
+} from './webhooks';
+
+const SECRET = 'whsec_test';
+const now = new Date('2026-03-01T12:00:00Z');
+
+const payload: WebhookPayload = {
+  id: '7d0f3c1e-2f6b-4f0e-9a59-0d6a1c2b3e4f',
+  type: 'sop.published',
+  created_at: now.toISOString(),
+  data: { sop: { id: 'sop-1', title: 'Onboarding', steps: [] } }
+};
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify(payload);
+
+  it('verify for the same body and secret', () => {
+    const header = createWebhookSignature(SECRET, body, now);
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(header, body, SECRET, now)).toBe(true);
+  });
+
+  it('reject a changed body, another secret or a missing header', () => {
+    const header = createWebhookSignature(SECRET, body, now);
+    expect(verifyWebhookSignature(header, body.replace('Onboarding', 'Offboarding'), SECRET, now)).toBe(false);
+    expect(verifyWebhookSignature(header, body, 'whsec_other', now)).toBe(false);
+    expect(verifyWebhookSignature(null, body, SECRET, now)).toBe(false);
+  });
+
+  it('reject old timestamps so requests cannot be replayed', () => {
+    const header = createWebhookSignature(SECRET, body, now);
+    const later = new Date(now.getTime() + 10 * 60 * 1000);
+    expect(verifyWebhookSignature(header, body, SECRET, later)).toBe(false);
+  });
+});
+
+describe('webhookRetryDelayMs', () => {
+  it('doubles from a minute up to six hours', () => {
+    expect(webhookRetryDelayMs(1)).toBe(60 * 1000);
+    expect(webhookRetryDelayMs(2)).toBe(2 * 60 * 1000);
+    expect(webhookRetryDelayMs(4)).toBe(8 * 60 * 1000);
+    expect(webhookRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('deliveryAttemptUpdate', () => {
+  const success = { ok: true, status: 204, body: '', durationMs: 40, error: null };
+  const failure = { ok: false, status: 500, body: 'boom', durationMs: 40, error: 'Endpoint answered 500' };
+
+  it('marks a 2xx answer as delivered', () => {
+    expect(deliveryAttemptUpdate(0, success, now, 8)).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      response_status: 204,
+      delivered_at: now.toISOString()
+    });
+  });
+
+  it('schedules a retry with backoff while attempts are left', () => {
+    expect(deliveryAttemptUpdate(2, failure, now, 8)).toMatchObject({
+      status: 'pending',
+      attempts: 3,
+      response_status: 500,
+      last_error: 'Endpoint answered 500',
+      next_attempt_at: new Date(now.getTime() + 4 * 60 * 1000).toISOString()
+    });
+  });
+
+  it('gives up after the last attempt', () => {
+    const update = deliveryAttemptUpdate(7, failure, now, 8);
+    expect(update).toMatchObject({ status: 'failed', attempts: 8 });
+    expect(update.next_attempt_at).toBeUndefined();
+  });
+});
+
+describe('parseWebhookSubscriptionInput', () => {
+  it('accepts a subscription and drops repeated events', () => {
+    expect(parseWebhookSubscriptionInput({
+      name: '  LMS sync ',
+      url: 'https://lms.example.com/hooks',
+      events: ['sop.published', 'sop.published', 'run.completed']
+    })).toEqual({
+      name: 'LMS sync',
+      url: 'https://lms.example.com/hooks',
+      events: ['sop.published', 'run.completed']
+    });
+  });
+
+  it('rejects other protocols and unknown events', () => {
+    const base = { name: 'LMS', url: 'https://lms.example.com', events: ['sop.created'] };
+    expect(() => parseWebhookSubscriptionInput({ ...base, url: 'ftp://lms.example.com' })).toThrow(BadRequestError);
+    expect(() => parseWebhookSubscriptionInput({ ...base, events: ['sop.deleted'] })).toThrow(BadRequestError);
+    expect(() => parseWebhookSubscriptionInput({ ...base, events: [] })).toThrow(BadRequestError);
+  });
+
+  it('checks only the fields present for updates', () => {
+    expect(parseWebhookSubscriptionInput({ is_active: false }, true)).toEqual({ is_active: false });
+    expect(() => parseWebhookSubscriptionInput({ is_active: 'no' }, true)).toThrow(BadRequestError);
+  });
+});
+
+describe('loadSopPayload', () => {
+  const row = {
+    id: 'sop-1',
+    title: 'Onboarding',
+    description: null,
+    category: 'HR',
+    status: 'published',
+    user_id: 'user-1',
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    version: 2,
+    stakeholders: null,
+    definitions: null,
+    is_published: true,
+    publish_settings: { passwordHash: 'scrypt$salt$hash', allowComments: true },
+    steps: [
+      { id: 'step-2', order_index: 2, title: 'Sign in' },
+      { id: 'step-1', order_index: 1, title: 'Check the badge' }
+    ]
+  };
+
+  // Answers like PostgREST: only the columns the query selects
+  const client = (selected: string[]) => ({
+    from: () => ({
+      select(columns: string) {
+        selected.push(columns);
+        const names = columns.split(',').map(column => column.trim().replace(/\(.*\)$/, ''));
+        const data = Object.fromEntries(Object.entries(row).filter(([key]) => names.includes(key)));
+        const query = { eq: () => query, maybeSingle: async () => ({ data, error: null }) };
+        return query;
+      }
+    })
+  }) as unknown as SupabaseClient;
+
+  it('sends the SOP with its steps in order and without publish settings', async () => {
+    const selected: string[] = [];
+    const sop = await loadSopPayload(client(selected), 'sop-1');
+
+    expect(selected[0]).not.toContain('*,');
+    expect(sop).toMatchObject({ id: 'sop-1', title: 'Onboarding', status: 'published' });
+    expect((sop!.steps as { id: string }[]).map(step => step.id)).toEqual(['step-1', 'step-2']);
+    expect(sop).not.toHaveProperty('publish_settings');
+    expect(JSON.stringify(sop)).not.toContain('passwordHash');
+  });
+});
+
+describe('postWebhook', () => {
+  let server: http.Server | null = null;
+
+  afterEach(done => {
+    if (server) {
+      server.close(() => done());
+      server = null;
+    } else {
+      done();
+    }
+  });
+
+  // Answer with `status` and hand the request over for inspection
+  const listen = (status: number, onRequest: (req: http.IncomingMessage, body: string) => void = () => {}) =>
+    new Promise<string>(resolve => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          onRequest(req, body);
+          res.writeHead(status, { 'Content-Type': 'text/plain' });
+          res.end(status < 300 ? 'ok' : 'boom');
+        });
+      });
+      server.listen(0, '127.0.0.1', () => {
+        resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/hooks`);
+      });
+    });
+
+  it('posts a signed payload the receiver can verify', async () => {
+    let received: { signature?: string; event?: string; body: string } = { body: '' };
+    const url = await listen(200, (req, body) => {
+      received = {
+        signature: req.headers['x-webhook-signature'] as string,
+        event: req.headers['x-webhook-event'] as string,
+        body
+      };
+    });
+
+    const attempt = await postWebhook(url, SECRET, payload, 5000);
+
+    expect(attempt).toMatchObject({ ok: true, status: 200, body: 'ok', error: null });
+    expect(received.event).toBe('sop.published');
+    expect(JSON.parse(received.body)).toEqual(payload);
+    expect(verifyWebhookSignature(received.signature, received.body, SECRET)).toBe(true);
+  });
+
+  it('reports error answers with their status', async () => {
+    const url = await listen(500);
+
+    const attempt = await postWebhook(url, SECRET, payload, 5000);
+
+    expect(attempt).toMatchObject({ ok: false, status: 500, body: 'boom', error: 'Endpoint answered 500' });
+  });
+
+  it('reports unreachable endpoints without a status', async () => {
+    const attempt = await postWebhook('http://127.0.0.1:1/hooks', SECRET, payload, 2000);
+
+    expect(attempt.ok).toBe(false);
+    expect(attempt.status).toBeNull();
+    expect(attempt.error).toBeTruthy();
+  });
+});
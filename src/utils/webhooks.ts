@@ -0,0 +1,555 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { NotFoundError } from '@/utils/api-errors';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { PublicWebhookSubscription, WebhookSubscriptionInput } from '@/utils/webhook-events';
+import {
+  Step,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+  WebhookTestEvent
+} from '@/types/database.types';
+
+/**
+ * Outbound webhooks: SOP lifecycle events are queued as one delivery per
+ * subscribed endpoint and posted by the dispatcher (see `crons` in
+ * vercel.json) with an HMAC signature. Failed deliveries are retried with
+ * exponential backoff; each row keeps the response of its last attempt.
+ * Emitting never throws, so a failed webhook does not fail the change that
+ * caused it.
+ *
+ *   WEBHOOK_TIMEOUT_MS     time an endpoint may take to answer (default 10000)
+ *   WEBHOOK_MAX_ATTEMPTS   attempts before a delivery is marked failed (default 8)
+ *   WEBHOOK_BATCH_SIZE     deliveries sent per run (default 50)
+ */
+
+type Env = Record<string, string | undefined>;
+
+const MINUTE_MS = 60 * 1000;
+const RETRY_BASE_MS = MINUTE_MS;
+const RETRY_MAX_MS = 6 * 60 * MINUTE_MS;
+// A run that died mid-send leaves its rows claimed; they are retried after this
+const STALE_CLAIM_MS = 15 * MINUTE_MS;
+const MAX_RESPONSE_LENGTH = 2000;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookConfig {
+  timeoutMs: number;
+  maxAttempts: number;
+  batchSize: number;
+}
+
+/**
+ * The JSON body posted to an endpoint. `data.sop` has the shape
+ * GET /api/sops/[id]?include_steps=true returns.
+ */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent | WebhookTestEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  durationMs: number;
+  error: string | null;
+}
+
+export interface WebhookDispatchResult {
+  succeeded: number;
+  retried: number;
+  failed: number;
+}
+
+// Deliveries are queued with a WebhookPayload
+type DeliveryWithSubscription = Omit<WebhookDelivery, 'payload'> & {
+  payload: WebhookPayload;
+  webhook_subscriptions: Pick<WebhookSubscription, 'url' | 'secret' | 'is_active'> | null;
+};
+
+function numberSetting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export function webhookConfig(env: Env = process.env): WebhookConfig {
+  return {
+    timeoutMs: numberSetting(env.WEBHOOK_TIMEOUT_MS, 10000, 1000),
+    maxAttempts: numberSetting(env.WEBHOOK_MAX_ATTEMPTS, 8, 1),
+    batchSize: numberSetting(env.WEBHOOK_BATCH_SIZE, 50, 1)
+  };
+}
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+export function publicWebhookSubscription(subscription: WebhookSubscription): PublicWebhookSubscription {
+  const { secret, ...rest } = subscription;
+  return { ...rest, secret_hint: `…${secret.slice(-4)}` };
+}
+
+function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Value of the signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function createWebhookSignature(secret: string, body: string, now = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${signPayload(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header the way a receiver should: the HMAC matches and
+ * the timestamp is recent, so a captured request cannot be replayed later
+ */
+export function verifyWebhookSignature(
+  header: string | null | undefined,
+  body: string,
+  secret: string,
+  now = new Date(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map((header || '').split(',').map(part => {
+    const [key, ...value] = part.trim().split('=');
+    return [key, value.join('=')] as const;
+  }));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!signature || !Number.isInteger(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * How long to wait before the next attempt after `attempts` failed ones:
+ * 1 minute, doubling each time, at most 6 hours
+ */
+export function webhookRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Row update after an attempt: delivered, retried later with backoff, or
+ * failed for good once attempts run out
+ */
+export function deliveryAttemptUpdate(
+  attempts: number,
+  attempt: WebhookAttempt,
+  now: Date,
+  maxAttempts: number
+): Partial<WebhookDelivery> {
+  const made = attempts + 1;
+  const log = {
+    attempts: made,
+    response_status: attempt.status,
+    response_body: attempt.body,
+    duration_ms: attempt.durationMs,
+    last_error: attempt.error
+  };
+
+  if (attempt.ok) {
+    return { ...log, status: 'succeeded', delivered_at: now.toISOString() };
+  }
+  if (made >= maxAttempts) {
+    return { ...log, status: 'failed' };
+  }
+  return { ...log, status: 'pending', next_attempt_at: new Date(now.getTime() + webhookRetryDelayMs(made)).toISOString() };
+}
+
+/**
+ * Post a payload to an endpoint once. Any 2xx answer counts as delivered;
+ * redirects are not followed.
+ */
+export async function postWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload,
+  timeoutMs: number,
+  now = new Date()
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(payload);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SOP-Maker-Webhooks/1.0',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Event': payload.type,
+        [WEBHOOK_SIGNATURE_HEADER]: createWebhookSignature(secret, body, now)
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    const text = await response.text().catch(() => '');
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      body: text.slice(0, MAX_RESPONSE_LENGTH),
+      durationMs: Date.now() - started,
+      error: response.ok ? null : `Endpoint answered ${response.status}`
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      durationMs: Date.now() - started,
+      error: timedOut ? `No answer within ${timeoutMs} ms` : error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Columns of an SOP with its steps, as GET /api/sops/[id]?include_steps=true
+ * returns it. Listed explicitly so settings such as the share password hash
+ * never leave the app.
+ */
+export const SOP_WITH_STEPS_COLUMNS =
+  'id, title, description, category, status, user_id, created_at, updated_at, version, stakeholders, definitions, steps(*)';
+
+/**
+ * An SOP with its steps in the shape of SOP_WITH_STEPS_COLUMNS
+ */
+export async function loadSopPayload(supabase: SupabaseClient, sopId: string): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase
+    .from('sops')
+    .select(SOP_WITH_STEPS_COLUMNS)
+    .eq('id', sopId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load SOP for webhooks: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const sop = data as unknown as Record<string, unknown> & { steps?: Step[] | null };
+  const steps = (sop.steps || []).slice().sort((a, b) => a.order_index - b.order_index);
+  return { ...sop, steps };
+}
+
+/**
+ * Queue an event about an SOP for every active subscription that wants it.
+ * `data` adds the step, comment or run the event is about.
+ * @returns the number of deliveries queued
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  sopId: string,
+  data: Record<string, unknown> = {},
+  client?: SupabaseClient
+): Promise<number> {
+  try {
+    // Subscriptions are only readable by the service role
+    const supabase = client || createAdminClient() as unknown as SupabaseClient;
+
+    const { data: subscriptions, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id')
+      .eq('is_active', true)
+      .contains('events', [event]);
+
+    if (error) {
+      throw new Error(`Failed to load webhook subscriptions: ${error.message}`);
+    }
+    if (!subscriptions || subscriptions.length === 0) {
+      return 0;
+    }
+
+    const sop = await loadSopPayload(supabase, sopId);
+    if (!sop) return 0;
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type: event,
+      created_at: new Date().toISOString(),
+      data: { sop, ...data }
+    };
+
+    const { error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(subscriptions.map(subscription => ({
+        subscription_id: subscription.id,
+        event_id: payload.id,
+        event,
+        payload,
+        status: 'pending'
+      })));
+
+    if (insertError) {
+      logger.error('Failed to queue webhook deliveries:', { error: insertError, event, sopId });
+      return 0;
+    }
+
+    return subscriptions.length;
+  } catch (error) {
+    logger.error('Unexpected error queueing webhook deliveries:', { error, event, sopId });
+    return 0;
+  }
+}
+
+async function updateDelivery(supabase: SupabaseClient, id: string, update: Partial<WebhookDelivery>): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to record webhook delivery:', { error, deliveryId: id, status: update.status });
+  }
+}
+
+/**
+ * Post the deliveries that are due and record how each went
+ */
+export async function dispatchWebhookDeliveries(
+  supabase: SupabaseClient,
+  now = new Date(),
+  config = webhookConfig()
+): Promise<WebhookDispatchResult> {
+  const result: WebhookDispatchResult = { succeeded: 0, retried: 0, failed: 0 };
+
+  const { error: staleError } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'pending' })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - STALE_CLAIM_MS).toISOString());
+
+  if (staleError) {
+    logger.error('Failed to release stale webhook deliveries:', staleError);
+  }
+
+  const { data: due, error: dueError } = await supabase
+    .from('webhook_deliveries')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(config.batchSize);
+
+  if (dueError) {
+    throw new Error(`Failed to load webhook deliveries: ${dueError.message}`);
+  }
+  if (!due || due.length === 0) {
+    return result;
+  }
+
+  // Claim the rows so an overlapping run leaves them alone
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'sending' })
+    .in('id', due.map(row => row.id))
+    .eq('status', 'pending')
+    .select('*, webhook_subscriptions(url, secret, is_active)');
+
+  if (claimError) {
+    throw new Error(`Failed to claim webhook deliveries: ${claimError.message}`);
+  }
+
+  for (const delivery of (claimed || []) as DeliveryWithSubscription[]) {
+    const subscription = delivery.webhook_subscriptions;
+
+    if (!subscription?.is_active) {
+      await updateDelivery(supabase, delivery.id, { status: 'failed', last_error: 'Subscription is disabled' });
+      result.failed += 1;
+      continue;
+    }
+
+    // Signed and scheduled with the time of this attempt: a long batch must
+    // not send timestamps older than the receiver's tolerance
+    const attempt = await postWebhook(subscription.url, subscription.secret, delivery.payload, config.timeoutMs, new Date());
+    const update = deliveryAttemptUpdate(delivery.attempts, attempt, new Date(), config.maxAttempts);
+    await updateDelivery(supabase, delivery.id, update);
+
+    result[update.status === 'succeeded' ? 'succeeded' : update.status === 'failed' ? 'failed' : 'retried'] += 1;
+  }
+
+  return result;
+}
+
+/**
+ * Post a `webhook.test` event to an endpoint right away and log it like any
+ * other delivery; it is not retried
+ */
+export async function sendTestWebhook(
+  supabase: SupabaseClient,
+  subscription: WebhookSubscription,
+  config = webhookConfig()
+): Promise<WebhookDelivery> {
+  const now = new Date();
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type: 'webhook.test',
+    created_at: now.toISOString(),
+    data: { subscription: { id: subscription.id, name: subscription.name, events: subscription.events } }
+  };
+
+  const attempt = await postWebhook(subscription.url, subscription.secret, payload, config.timeoutMs, now);
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      subscription_id: subscription.id,
+      event_id: payload.id,
+      event: payload.type,
+      payload,
+      next_attempt_at: now.toISOString(),
+      ...deliveryAttemptUpdate(0, attempt, now, 1)
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to log test delivery: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as WebhookDelivery;
+}
+
+export async function listWebhookSubscriptions(supabase: SupabaseClient): Promise<WebhookSubscription[]> {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load webhook subscriptions: ${error.message}`);
+  }
+
+  return (data || []) as WebhookSubscription[];
+}
+
+/**
+ * @throws NotFoundError
+ */
+export async function getWebhookSubscription(supabase: SupabaseClient, id: string): Promise<WebhookSubscription> {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load webhook subscription: ${error.message}`);
+  }
+  if (!data) {
+    throw new NotFoundError('Webhook subscription not found');
+  }
+
+  return data as WebhookSubscription;
+}
+
+export async function createWebhookSubscription(
+  supabase: SupabaseClient,
+  input: Required<Pick<WebhookSubscriptionInput, 'name' | 'url' | 'events'>> & WebhookSubscriptionInput,
+  userId: string
+): Promise<WebhookSubscription> {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .insert({
+      name: input.name,
+      url: input.url,
+      events: input.events,
+      is_active: input.is_active ?? true,
+      secret: createWebhookSecret(),
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create webhook subscription: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as WebhookSubscription;
+}
+
+/**
+ * Change a subscription, optionally replacing its signing secret
+ * @throws NotFoundError
+ */
+export async function updateWebhookSubscription(
+  supabase: SupabaseClient,
+  id: string,
+  input: WebhookSubscriptionInput,
+  options: { rotateSecret?: boolean } = {}
+): Promise<WebhookSubscription> {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .update({ ...input, ...(options.rotateSecret ? { secret: createWebhookSecret() } : {}) })
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update webhook subscription: ${error.message}`);
+  }
+  if (!data) {
+    throw new NotFoundError('Webhook subscription not found');
+  }
+
+  return data as WebhookSubscription;
+}
+
+/**
+ * Remove a subscription with its delivery log
+ * @throws NotFoundError
+ */
+export async function deleteWebhookSubscription(supabase: SupabaseClient, id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete webhook subscription: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Webhook subscription not found');
+  }
+}
+
+/**
+ * The delivery log of a subscription, newest first
+ */
+export async function listWebhookDeliveries(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  limit = DEFAULT_DELIVERY_LIMIT
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('subscription_id', subscriptionId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, Math.floor(limit)), MAX_DELIVERY_LIMIT));
+
+  if (error) {
+    throw new Error(`Failed to load webhook deliveries: ${error.message}`);
+  }
+
+  return (data || []) as WebhookDelivery[];
+}